@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { ArcFaceService, FaceEncodingResult, FaceComparisonResult } from '../services/arcface.service';
+import { ArcFaceService, FaceEncodingResult, FaceComparisonResult, FaceIdentificationResult, LivenessResult } from '../services/arcface.service';
 import { FraudDetectionService, FraudDetectionResult, FraudAnalysisData } from '../services/fraud-detection.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
@@ -213,6 +213,151 @@ export class AIController {
     }
   }
 
+  /**
+   * Identify a face among candidate encodings (called by Attendance Service kiosks)
+   * POST /api/ai/identify-face
+   */
+  async identifyFace(req: Request, res: Response): Promise<void> {
+    try {
+      const { image, candidates, companyId, metadata } = req.body;
+
+      logger.info('Face identification request received', {
+        service: 'ai-service',
+        companyId,
+        candidates: Array.isArray(candidates) ? candidates.length : 0,
+        metadata
+      });
+
+      if (!image || !Array.isArray(candidates) || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields: image, candidates and companyId are required',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.isValidBase64Image(image)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid image format. Expected base64 encoded image.',
+          error: 'INVALID_IMAGE_FORMAT'
+        });
+        return;
+      }
+
+      const result: FaceIdentificationResult = await this.arcFaceService.identifyFace(image, candidates, {
+        ...metadata,
+        companyId,
+        requestType: 'identification'
+      });
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          message: result.error || 'Face identification failed',
+          error: 'IDENTIFICATION_FAILED',
+          processingTime: result.processingTime
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Face identification completed successfully',
+        data: {
+          match: result.match,
+          bestSimilarity: result.bestSimilarity,
+          runnerUp: result.runnerUp,
+          ambiguous: result.ambiguous,
+          candidatesSearched: result.candidatesSearched,
+          processingTime: result.processingTime,
+          metadata: result.metadata
+        }
+      });
+
+    } catch (error) {
+      logger.error('Face identification controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check a burst of frames for a live face (called by Attendance Service)
+   * POST /api/ai/verify-liveness
+   */
+  async verifyLiveness(req: Request, res: Response): Promise<void> {
+    try {
+      const { images, userId, companyId, metadata } = req.body;
+
+      logger.info('Liveness request received', {
+        service: 'ai-service',
+        userId,
+        companyId,
+        frameCount: Array.isArray(images) ? images.length : 0,
+        metadata
+      });
+
+      // Validate required fields
+      if (!Array.isArray(images) || images.length === 0 || !userId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields: images and userId are required',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!images.every((image: string) => this.isValidBase64Image(image))) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid image format. Expected base64 encoded images.',
+          error: 'INVALID_IMAGE_FORMAT'
+        });
+        return;
+      }
+
+      const result: LivenessResult = await this.arcFaceService.verifyLiveness(images, userId, {
+        ...metadata,
+        companyId,
+        requestType: 'liveness'
+      });
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          message: result.error || 'Liveness check failed',
+          error: 'LIVENESS_FAILED',
+          processingTime: result.processingTime
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Liveness check completed successfully',
+        data: {
+          isLive: result.isLive,
+          livenessScore: result.livenessScore,
+          processingTime: result.processingTime,
+          metadata: result.metadata
+        }
+      });
+
+    } catch (error) {
+      logger.error('Liveness controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
   /**
    * Get model information and status
    * GET /api/ai/model-info
@@ -254,10 +399,13 @@ export class AIController {
         ipAddress,
         workMode,
         expectedLocation,
+        verificationMethod,
         faceSimilarity,
         previousLocations,
         previousDevices,
         attendanceHistory,
+        locationVerification,
+        scheduleContext,
         metadata
       } = req.body;
       const requestIpAddress = req.ip;
@@ -269,6 +417,7 @@ export class AIController {
         companyId,
         attendanceId,
         workMode,
+        verificationMethod,
         hasLocation: !!location,
         hasDeviceInfo: !!deviceInfo,
         faceSimilarity,
@@ -297,10 +446,13 @@ export class AIController {
         ipAddress: ipAddress || requestIpAddress,
         workMode,
         expectedLocation,
+        verificationMethod,
         faceSimilarity,
         previousLocations,
         previousDevices,
         attendanceHistory,
+        locationVerification,
+        scheduleContext,
         ...metadata
       };
 
@@ -30,6 +30,20 @@ router.post(
   aiController.compareFaces.bind(aiController)
 );
 
+// Face identification among a company's encodings (called by Attendance Service kiosks)
+router.post(
+  '/identify-face',
+  validateRequest(aiSchemas.identifyFaceSchema),
+  aiController.identifyFace.bind(aiController)
+);
+
+// Liveness check (called by Attendance Service)
+router.post(
+  '/verify-liveness',
+  validateRequest(aiSchemas.verifyLivenessSchema),
+  aiController.verifyLiveness.bind(aiController)
+);
+
 // Fraud analysis (called by Attendance Service)
 router.post(
   '/analyze-fraud',
@@ -56,6 +56,49 @@ export const compareFacesSchema = z.object({
   })
 });
 
+// Face identification request schema (from Attendance Service kiosks)
+export const identifyFaceSchema = z.object({
+  body: z.object({
+    image: z.string()
+      .min(1, 'Image is required')
+      .refine((val) => val.startsWith('data:image/'), 'Image must be base64 encoded with data URL prefix'),
+    candidates: z.array(z.object({
+      userId: z.string()
+        .uuid('Invalid userId format'),
+      encoding: z.array(z.number())
+    }))
+      .max(2000, 'At most 2000 candidates are allowed'), // 512 floats each; keeps the body under the 50mb limit
+    companyId: z.string()
+      .uuid('Invalid companyId format'),
+    metadata: z.object({
+      kioskId: z.string().uuid().optional(),
+      timestamp: z.string().datetime().optional()
+    }).optional()
+  })
+});
+
+// Liveness request schema (from Attendance Service)
+export const verifyLivenessSchema = z.object({
+  body: z.object({
+    images: z.array(
+      z.string()
+        .min(1, 'Image is required')
+        .refine((val) => val.startsWith('data:image/'), 'Images must be base64 encoded with data URL prefix')
+    )
+      .min(1, 'At least one frame is required')
+      .max(5, 'At most 5 frames are allowed'),
+    userId: z.string()
+      .uuid('Invalid userId format'),
+    companyId: z.string()
+      .uuid('Invalid companyId format')
+      .optional(),
+    metadata: z.object({
+      deviceInfo: z.string().optional(),
+      timestamp: z.string().datetime().optional()
+    }).optional()
+  })
+});
+
 // Model info response schema
 export const modelInfoSchema = z.object({
   modelVersion: z.string(),
@@ -141,6 +184,7 @@ export const analyzeFraudSchema = z.object({
     ipAddress: z.string().ip().optional(),
     workMode: z.enum(['onsite', 'remote', 'hybrid']),
     expectedLocation: z.string().optional(),
+    verificationMethod: z.enum(['face', 'qr', 'nfc']).optional(),
     faceSimilarity: z.number().min(-1).max(1).optional(),
     previousLocations: z.array(z.object({
       latitude: z.number(),
@@ -153,6 +197,21 @@ export const analyzeFraudSchema = z.object({
       location: z.any().optional(),
       deviceInfo: z.string().optional()
     })).optional(),
+    locationVerification: z.object({
+      locationType: z.enum(['site', 'home', 'alternate']).nullable(),
+      zone: z.enum(['inside', 'buffer', 'outside']).nullable(),
+      distanceMeters: z.number().nullable(),
+      expectedWorkMode: z.enum(['onsite', 'remote']),
+      workModeMismatch: z.boolean()
+    }).optional(),
+    scheduleContext: z.object({
+      localDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+      localHour: z.number().int().min(0).max(23),
+      isWorkDay: z.boolean(),
+      holidayName: z.string().nullable(),
+      hasScheduledShift: z.boolean(),
+      timezone: z.string().optional()
+    }).optional(),
     metadata: z.any().optional()
   })
 });
@@ -200,6 +259,8 @@ export const healthCheckResponseSchema = z.object({
 export const aiSchemas = {
   encodeFaceSchema,
   compareFacesSchema,
+  identifyFaceSchema,
+  verifyLivenessSchema,
   analyzeFraudSchema,
   modelInfoSchema,
   faceEncodingResponseSchema,
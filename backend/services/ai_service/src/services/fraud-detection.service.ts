@@ -51,6 +51,7 @@ export interface FraudAnalysisData {
   ipAddress?: string;
   workMode: 'onsite' | 'remote' | 'hybrid';
   expectedLocation?: string;
+  verificationMethod?: 'face' | 'qr' | 'nfc'; // Proof of presence used for the clock-in; face when missing
   faceSimilarity?: number;
   previousLocations?: Array<{
     latitude: number;
@@ -58,6 +59,21 @@ export interface FraudAnalysisData {
     timestamp: string;
   }>;
   previousDevices?: string[];
+  locationVerification?: {
+    locationType: 'site' | 'home' | 'alternate' | null;
+    zone: 'inside' | 'buffer' | 'outside' | null;
+    distanceMeters: number | null;
+    expectedWorkMode: 'onsite' | 'remote';
+    workModeMismatch: boolean;
+  };
+  scheduleContext?: {
+    localDate: string;
+    localHour: number;
+    isWorkDay: boolean;
+    holidayName: string | null;
+    hasScheduledShift: boolean;
+    timezone?: string;
+  };
   attendanceHistory?: Array<{
     clockInTime: string;
     location?: any;
@@ -192,6 +208,13 @@ export class FraudDetectionService {
    * Check for location-based anomalies
    */
   private checkLocationAnomaly(data: FraudAnalysisData): boolean {
+    // The attendance service has already verified the location against the company's
+    // geofences (onsite) or the employee's home or approved alternate location (remote)
+    const verification = data.locationVerification;
+    if (verification) {
+      return verification.zone === 'outside' || verification.workModeMismatch;
+    }
+
     if (!data.location || data.workMode === 'remote') {
       return false;
     }
@@ -215,20 +238,25 @@ export class FraudDetectionService {
    * Check for time-based anomalies
    */
   private checkTimeAnomaly(data: FraudAnalysisData): boolean {
-    const clockInTime = new Date(data.clockInTime);
-    const hour = clockInTime.getHours();
-    
+    const context = data.scheduleContext;
+
+    // A clock-in that matches a scheduled shift is expected, whatever the day or hour
+    if (context?.hasScheduledShift) {
+      return false;
+    }
+
+    // Prefer the company-local hour; fall back to server time when no context is sent
+    const hour = context ? context.localHour : new Date(data.clockInTime).getHours();
+
     // Check for unusual clock-in times
     // Outside normal business hours (6 AM - 10 PM)
     if (hour < 6 || hour > 22) {
       return true;
     }
 
-    // Check for weekend attendance (if not expected)
-    const dayOfWeek = clockInTime.getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      // 30% chance of weekend anomaly
-      return Math.random() < 0.3;
+    // Unscheduled work on a company holiday or non-work day
+    if (context && (context.holidayName || !context.isWorkDay)) {
+      return true;
     }
 
     return false;
@@ -317,6 +345,10 @@ export class FraudDetectionService {
       riskScore += 10; // Remote work without location
     }
 
+    if (data.verificationMethod === 'nfc') {
+      riskScore += 10; // A badge proves who holds it, not who the holder is
+    }
+
     // Add some randomness to make it more realistic
     riskScore += (Math.random() - 0.5) * 10;
     
@@ -341,7 +373,8 @@ export class FraudDetectionService {
       timestamp: new Date().toISOString(),
       userId: data.userId,
       companyId: data.companyId,
-      attendanceId: data.attendanceId
+      attendanceId: data.attendanceId,
+      verificationMethod: data.verificationMethod ?? 'face'
     };
 
     if (detectionResults.locationAnomaly) {
@@ -349,7 +382,8 @@ export class FraudDetectionService {
         detected: true,
         location: data.location,
         expectedLocation: data.expectedLocation,
-        workMode: data.workMode
+        workMode: data.workMode,
+        verification: data.locationVerification
       };
     }
 
@@ -357,8 +391,11 @@ export class FraudDetectionService {
       evidence.timeAnomaly = {
         detected: true,
         clockInTime: data.clockInTime,
-        hour: new Date(data.clockInTime).getHours(),
-        dayOfWeek: new Date(data.clockInTime).getDay()
+        hour: data.scheduleContext?.localHour ?? new Date(data.clockInTime).getHours(),
+        dayOfWeek: new Date(data.clockInTime).getDay(),
+        localDate: data.scheduleContext?.localDate,
+        isWorkDay: data.scheduleContext?.isWorkDay,
+        holidayName: data.scheduleContext?.holidayName
       };
     }
 
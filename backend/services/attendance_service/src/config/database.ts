@@ -31,6 +31,11 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
+// Listen for NOTIFY messages on a channel (used to fan real-time events out to every instance)
+export async function listen(channel: string, onNotify: (payload: string) => void): Promise<{ unlisten: () => Promise<void> }> {
+  return client.listen(channel, onNotify);
+}
+
 // Close database connection
 export async function closeConnection(): Promise<void> {
   try {
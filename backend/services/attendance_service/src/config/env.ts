@@ -32,6 +32,7 @@ export const env = {
   GEMINI_API_KEY: process.env['GEMINI_API_KEY'],
   ARCFACE_ENABLED: process.env['ARCFACE_ENABLED'] === 'true',
   FRAUD_DETECTION_ENABLED: process.env['FRAUD_DETECTION_ENABLED'] === 'true',
+  VERIFICATION_TTL_MINUTES: parseInt(process.env['VERIFICATION_TTL_MINUTES'] || '10', 10), // Pre-verifications must be attached to a clock-in within this time
   
   // File upload configuration
   MAX_FILE_SIZE: parseInt(process.env['MAX_FILE_SIZE'] || '10485760', 10), // 10MB
@@ -45,6 +46,19 @@ export const env = {
   AWS_SECRET_ACCESS_KEY: process.env['AWS_SECRET_ACCESS_KEY'],
   AWS_REGION: process.env['AWS_REGION'] || 'us-east-1',
   AWS_S3_BUCKET: process.env['AWS_S3_BUCKET'],
+  AWS_S3_ENDPOINT: process.env['AWS_S3_ENDPOINT'], // S3-compatible storage such as MinIO
+  AWS_S3_FORCE_PATH_STYLE: process.env['AWS_S3_FORCE_PATH_STYLE'] === 'true',
+  
+  // Photo storage (local filesystem or S3; records only keep the object key)
+  STORAGE_DRIVER: (process.env['STORAGE_DRIVER'] === 's3' ? 's3' : 'local') as 'local' | 's3',
+  UPLOAD_PATH: process.env['UPLOAD_PATH'] || './uploads', // Local driver root
+  STORAGE_PUBLIC_URL: process.env['STORAGE_PUBLIC_URL'] || '', // Base of local signed URLs; relative when empty
+  STORAGE_SIGNING_SECRET: process.env['STORAGE_SIGNING_SECRET'] || process.env['JWT_SECRET'] || 'your-super-secret-jwt-key-at-least-32-characters-long',
+  PHOTO_URL_TTL_SECONDS: parseInt(process.env['PHOTO_URL_TTL_SECONDS'] || '300', 10),
+  
+  // Moves base64 photos saved before object storage out of attendance_records
+  ENABLE_PHOTO_MIGRATION: process.env['ENABLE_PHOTO_MIGRATION'] !== 'false',
+  PHOTO_MIGRATION_CRON: process.env['PHOTO_MIGRATION_CRON'] || '*/10 * * * *',
   
   // Logging configuration
   LOG_LEVEL: process.env['LOG_LEVEL'] || 'info',
@@ -65,6 +79,38 @@ export const env = {
   ENABLE_NOTIFICATIONS: process.env['ENABLE_NOTIFICATIONS'] === 'true',
   NOTIFICATION_SERVICE_URL: process.env['NOTIFICATION_SERVICE_URL'] || 'http://notification-service:3005',
   
+  // Auto clock-out of sessions left open (grace and opt-out are per company in the attendance policy)
+  ENABLE_AUTO_CLOCK_OUT: process.env['ENABLE_AUTO_CLOCK_OUT'] !== 'false',
+  AUTO_CLOCK_OUT_CRON: process.env['AUTO_CLOCK_OUT_CRON'] || '*/15 * * * *',
+  
+  // Daily attendance status roll-up (lateness, absence, leave and holidays per employee and day)
+  ENABLE_DAILY_STATUS_ROLLUP: process.env['ENABLE_DAILY_STATUS_ROLLUP'] !== 'false',
+  DAILY_STATUS_CRON: process.env['DAILY_STATUS_CRON'] || '5 * * * *',
+  
+  // Biometric purge (retention days and legal holds are per company; dry run only logs what would go)
+  ENABLE_BIOMETRIC_PURGE: process.env['ENABLE_BIOMETRIC_PURGE'] !== 'false',
+  BIOMETRIC_PURGE_CRON: process.env['BIOMETRIC_PURGE_CRON'] || '30 3 * * *',
+  BIOMETRIC_PURGE_DRY_RUN: process.env['BIOMETRIC_PURGE_DRY_RUN'] === 'true',
+  
+  // Idempotency-Key on clock-in/clock-out (responses replayed for the TTL; a key stuck processing is freed after the lock)
+  IDEMPOTENCY_KEY_TTL_HOURS: parseInt(process.env['IDEMPOTENCY_KEY_TTL_HOURS'] || '24', 10),
+  IDEMPOTENCY_LOCK_SECONDS: parseInt(process.env['IDEMPOTENCY_LOCK_SECONDS'] || '120', 10),
+  IDEMPOTENCY_CLEANUP_CRON: process.env['IDEMPOTENCY_CLEANUP_CRON'] || '0 * * * *',
+  
+  // Offline punch sync (punches synced later than the delay, or with a GPS fix this far from the capture, are flagged)
+  OFFLINE_SYNC_MAX_DELAY_HOURS: parseInt(process.env['OFFLINE_SYNC_MAX_DELAY_HOURS'] || '72', 10),
+  OFFLINE_GPS_MAX_AGE_MINUTES: parseInt(process.env['OFFLINE_GPS_MAX_AGE_MINUTES'] || '10', 10),
+  OFFLINE_CLOCK_SKEW_SECONDS: parseInt(process.env['OFFLINE_CLOCK_SKEW_SECONDS'] || '300', 10), // Device clock ahead of ours by more is rejected
+  OFFLINE_SYNC_MAX_PUNCHES: parseInt(process.env['OFFLINE_SYNC_MAX_PUNCHES'] || '20', 10),
+  
+  // Kiosks (a second punch by the same employee within the cooldown is ignored; PINs lock after too many misses)
+  KIOSK_TOGGLE_COOLDOWN_SECONDS: parseInt(process.env['KIOSK_TOGGLE_COOLDOWN_SECONDS'] || '60', 10),
+  KIOSK_PIN_MAX_ATTEMPTS: parseInt(process.env['KIOSK_PIN_MAX_ATTEMPTS'] || '5', 10),
+  KIOSK_PIN_LOCK_MINUTES: parseInt(process.env['KIOSK_PIN_LOCK_MINUTES'] || '15', 10),
+  
+  // Site QR codes (a new code every step; the previous one is still accepted)
+  QR_CODE_STEP_SECONDS: parseInt(process.env['QR_CODE_STEP_SECONDS'] || '30', 10),
+  
   // Monitoring and metrics
   ENABLE_METRICS: process.env['ENABLE_METRICS'] === 'true',
   METRICS_PORT: parseInt(process.env['METRICS_PORT'] || '9090', 10),
@@ -0,0 +1,141 @@
+// Bundled public holiday presets.
+// Each holiday is a rule evaluated per year; add a new entry to support another country or region.
+
+export type HolidayRule =
+  | { type: 'fixed'; month: number; day: number }
+  | { type: 'nth_weekday'; month: number; weekday: number; n: number } // Monday=1; n = -1 for the last one
+  | { type: 'weekday_on_or_before'; month: number; day: number; weekday: number } // e.g., Monday on or before May 24
+  | { type: 'easter'; offset: number }; // Days from Western Easter Sunday
+
+export interface HolidayPresetEntry {
+  name: string;
+  rule: HolidayRule;
+  // How a date falling on a weekend is moved:
+  // nearest_weekday = Saturday to Friday, Sunday to Monday; next_weekday = following free weekday
+  observed?: 'nearest_weekday' | 'next_weekday';
+}
+
+export interface HolidayPreset {
+  code: string;
+  name: string;
+  countryCode: string;
+  holidays: HolidayPresetEntry[];
+}
+
+export const holidayPresets: Record<string, HolidayPreset> = {
+  us_federal: {
+    code: 'us_federal',
+    name: 'United States - Federal',
+    countryCode: 'US',
+    holidays: [
+      { name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 }, observed: 'nearest_weekday' },
+      { name: 'Martin Luther King Jr. Day', rule: { type: 'nth_weekday', month: 1, weekday: 1, n: 3 } },
+      { name: "Washington's Birthday", rule: { type: 'nth_weekday', month: 2, weekday: 1, n: 3 } },
+      { name: 'Memorial Day', rule: { type: 'nth_weekday', month: 5, weekday: 1, n: -1 } },
+      { name: 'Juneteenth', rule: { type: 'fixed', month: 6, day: 19 }, observed: 'nearest_weekday' },
+      { name: 'Independence Day', rule: { type: 'fixed', month: 7, day: 4 }, observed: 'nearest_weekday' },
+      { name: 'Labor Day', rule: { type: 'nth_weekday', month: 9, weekday: 1, n: 1 } },
+      { name: 'Columbus Day', rule: { type: 'nth_weekday', month: 10, weekday: 1, n: 2 } },
+      { name: 'Veterans Day', rule: { type: 'fixed', month: 11, day: 11 }, observed: 'nearest_weekday' },
+      { name: 'Thanksgiving Day', rule: { type: 'nth_weekday', month: 11, weekday: 4, n: 4 } },
+      { name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 }, observed: 'nearest_weekday' }
+    ]
+  },
+
+  gb_england: {
+    code: 'gb_england',
+    name: 'United Kingdom - England and Wales',
+    countryCode: 'GB',
+    holidays: [
+      { name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 }, observed: 'next_weekday' },
+      { name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+      { name: 'Easter Monday', rule: { type: 'easter', offset: 1 } },
+      { name: 'Early May Bank Holiday', rule: { type: 'nth_weekday', month: 5, weekday: 1, n: 1 } },
+      { name: 'Spring Bank Holiday', rule: { type: 'nth_weekday', month: 5, weekday: 1, n: -1 } },
+      { name: 'Summer Bank Holiday', rule: { type: 'nth_weekday', month: 8, weekday: 1, n: -1 } },
+      { name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 }, observed: 'next_weekday' },
+      { name: 'Boxing Day', rule: { type: 'fixed', month: 12, day: 26 }, observed: 'next_weekday' }
+    ]
+  },
+
+  ca_federal: {
+    code: 'ca_federal',
+    name: 'Canada - Federal',
+    countryCode: 'CA',
+    holidays: [
+      { name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 }, observed: 'next_weekday' },
+      { name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+      { name: 'Victoria Day', rule: { type: 'weekday_on_or_before', month: 5, day: 24, weekday: 1 } },
+      { name: 'Canada Day', rule: { type: 'fixed', month: 7, day: 1 }, observed: 'next_weekday' },
+      { name: 'Labour Day', rule: { type: 'nth_weekday', month: 9, weekday: 1, n: 1 } },
+      { name: 'National Day for Truth and Reconciliation', rule: { type: 'fixed', month: 9, day: 30 }, observed: 'next_weekday' },
+      { name: 'Thanksgiving', rule: { type: 'nth_weekday', month: 10, weekday: 1, n: 2 } },
+      { name: 'Remembrance Day', rule: { type: 'fixed', month: 11, day: 11 }, observed: 'next_weekday' },
+      { name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 }, observed: 'next_weekday' },
+      { name: 'Boxing Day', rule: { type: 'fixed', month: 12, day: 26 }, observed: 'next_weekday' }
+    ]
+  },
+
+  au_national: {
+    code: 'au_national',
+    name: 'Australia - National',
+    countryCode: 'AU',
+    holidays: [
+      { name: "New Year's Day", rule: { type: 'fixed', month: 1, day: 1 }, observed: 'next_weekday' },
+      { name: 'Australia Day', rule: { type: 'fixed', month: 1, day: 26 }, observed: 'next_weekday' },
+      { name: 'Good Friday', rule: { type: 'easter', offset: -2 } },
+      { name: 'Easter Monday', rule: { type: 'easter', offset: 1 } },
+      { name: 'Anzac Day', rule: { type: 'fixed', month: 4, day: 25 } },
+      { name: "King's Birthday", rule: { type: 'nth_weekday', month: 6, weekday: 1, n: 2 } },
+      { name: 'Christmas Day', rule: { type: 'fixed', month: 12, day: 25 }, observed: 'next_weekday' },
+      { name: 'Boxing Day', rule: { type: 'fixed', month: 12, day: 26 }, observed: 'next_weekday' }
+    ]
+  },
+
+  de_national: {
+    code: 'de_national',
+    name: 'Germany - National',
+    countryCode: 'DE',
+    holidays: [
+      { name: 'Neujahr', rule: { type: 'fixed', month: 1, day: 1 } },
+      { name: 'Karfreitag', rule: { type: 'easter', offset: -2 } },
+      { name: 'Ostermontag', rule: { type: 'easter', offset: 1 } },
+      { name: 'Tag der Arbeit', rule: { type: 'fixed', month: 5, day: 1 } },
+      { name: 'Christi Himmelfahrt', rule: { type: 'easter', offset: 39 } },
+      { name: 'Pfingstmontag', rule: { type: 'easter', offset: 50 } },
+      { name: 'Tag der Deutschen Einheit', rule: { type: 'fixed', month: 10, day: 3 } },
+      { name: '1. Weihnachtstag', rule: { type: 'fixed', month: 12, day: 25 } },
+      { name: '2. Weihnachtstag', rule: { type: 'fixed', month: 12, day: 26 } }
+    ]
+  },
+
+  fr_national: {
+    code: 'fr_national',
+    name: 'France - National',
+    countryCode: 'FR',
+    holidays: [
+      { name: "Jour de l'an", rule: { type: 'fixed', month: 1, day: 1 } },
+      { name: 'Lundi de Pâques', rule: { type: 'easter', offset: 1 } },
+      { name: 'Fête du Travail', rule: { type: 'fixed', month: 5, day: 1 } },
+      { name: 'Victoire 1945', rule: { type: 'fixed', month: 5, day: 8 } },
+      { name: 'Ascension', rule: { type: 'easter', offset: 39 } },
+      { name: 'Lundi de Pentecôte', rule: { type: 'easter', offset: 50 } },
+      { name: 'Fête nationale', rule: { type: 'fixed', month: 7, day: 14 } },
+      { name: 'Assomption', rule: { type: 'fixed', month: 8, day: 15 } },
+      { name: 'Toussaint', rule: { type: 'fixed', month: 11, day: 1 } },
+      { name: 'Armistice 1918', rule: { type: 'fixed', month: 11, day: 11 } },
+      { name: 'Noël', rule: { type: 'fixed', month: 12, day: 25 } }
+    ]
+  },
+
+  in_national: {
+    code: 'in_national',
+    name: 'India - National',
+    countryCode: 'IN',
+    holidays: [
+      { name: 'Republic Day', rule: { type: 'fixed', month: 1, day: 26 } },
+      { name: 'Independence Day', rule: { type: 'fixed', month: 8, day: 15 } },
+      { name: 'Gandhi Jayanti', rule: { type: 'fixed', month: 10, day: 2 } }
+    ]
+  }
+};
@@ -0,0 +1,168 @@
+// Payroll export formats.
+// Each format is a declarative column mapping; add a new entry to support another payroll provider.
+
+export type PayrollField =
+  | 'employeeCode'
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'email'
+  | 'department'
+  | 'companyCode'
+  | 'periodStart'
+  | 'periodEnd'
+  | 'workedHours'
+  | 'regularHours'
+  | 'overtimeHours'
+  | 'doubleTimeHours'
+  | 'breakHours'
+  | 'nightHours'
+  | 'weekendHours'
+  | 'holidayHours'
+  | 'paidLeaveHours'
+  | 'unpaidLeaveHours'
+  | 'earningCode' // Earnings layout only
+  | 'hours'; // Earnings layout only
+
+export type PayrollHoursField = Extract<
+  PayrollField,
+  'workedHours' | 'regularHours' | 'overtimeHours' | 'doubleTimeHours' | 'breakHours' | 'nightHours' | 'weekendHours' | 'holidayHours'
+  | 'paidLeaveHours' | 'unpaidLeaveHours'
+>;
+
+export interface PayrollColumn {
+  header: string;
+  field?: PayrollField;
+  value?: string; // Constant value when no field is set
+  width?: number; // Fixed-width formats only
+  align?: 'left' | 'right';
+  padChar?: string;
+}
+
+export interface PayrollEarning {
+  code: string;
+  field: PayrollHoursField;
+}
+
+export interface PayrollFormat {
+  id: string;
+  name: string;
+  description: string;
+  type: 'delimited' | 'fixed-width';
+  delimiter?: string;
+  includeHeader: boolean;
+  extension: string;
+  mimeType: string;
+  dateFormat: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'YYYYMMDD';
+  hoursDecimals: number;
+  layout: 'employee' | 'earnings'; // One row per employee, or one row per employee and earning code
+  earnings?: PayrollEarning[];
+  columns: PayrollColumn[];
+}
+
+export const payrollFormats: Record<string, PayrollFormat> = {
+  generic_csv: {
+    id: 'generic_csv',
+    name: 'Generic CSV',
+    description: 'All hour buckets, one row per employee',
+    type: 'delimited',
+    delimiter: ',',
+    includeHeader: true,
+    extension: 'csv',
+    mimeType: 'text/csv',
+    dateFormat: 'YYYY-MM-DD',
+    hoursDecimals: 2,
+    layout: 'employee',
+    columns: [
+      { header: 'Employee ID', field: 'employeeCode' },
+      { header: 'First Name', field: 'firstName' },
+      { header: 'Last Name', field: 'lastName' },
+      { header: 'Email', field: 'email' },
+      { header: 'Department', field: 'department' },
+      { header: 'Period Start', field: 'periodStart' },
+      { header: 'Period End', field: 'periodEnd' },
+      { header: 'Regular Hours', field: 'regularHours' },
+      { header: 'Overtime Hours', field: 'overtimeHours' },
+      { header: 'Double Time Hours', field: 'doubleTimeHours' },
+      { header: 'Break Hours', field: 'breakHours' },
+      { header: 'Night Hours', field: 'nightHours' },
+      { header: 'Weekend Hours', field: 'weekendHours' },
+      { header: 'Holiday Hours', field: 'holidayHours' },
+      { header: 'Paid Leave Hours', field: 'paidLeaveHours' },
+      { header: 'Unpaid Leave Hours', field: 'unpaidLeaveHours' },
+      { header: 'Total Hours', field: 'workedHours' }
+    ]
+  },
+
+  adp_fixed_width: {
+    id: 'adp_fixed_width',
+    name: 'ADP-style fixed width',
+    description: 'Company code, file number and hours in fixed-width columns',
+    type: 'fixed-width',
+    includeHeader: false,
+    extension: 'txt',
+    mimeType: 'text/plain',
+    dateFormat: 'YYYYMMDD',
+    hoursDecimals: 2,
+    layout: 'employee',
+    columns: [
+      { header: 'Co Code', field: 'companyCode', width: 3 },
+      { header: 'File #', field: 'employeeCode', width: 6, align: 'right', padChar: '0' },
+      { header: 'Period End', field: 'periodEnd', width: 8 },
+      { header: 'Reg Hours', field: 'regularHours', width: 8, align: 'right' },
+      { header: 'O/T Hours', field: 'overtimeHours', width: 8, align: 'right' },
+      { header: 'D/T Hours', field: 'doubleTimeHours', width: 8, align: 'right' },
+      { header: 'Employee Name', field: 'fullName', width: 30 }
+    ]
+  },
+
+  gusto_csv: {
+    id: 'gusto_csv',
+    name: 'Gusto-style hours CSV',
+    description: 'Regular, overtime, double overtime and paid time off hours per employee',
+    type: 'delimited',
+    delimiter: ',',
+    includeHeader: true,
+    extension: 'csv',
+    mimeType: 'text/csv',
+    dateFormat: 'YYYY-MM-DD',
+    hoursDecimals: 2,
+    layout: 'employee',
+    columns: [
+      { header: 'employee_id', field: 'employeeCode' },
+      { header: 'first_name', field: 'firstName' },
+      { header: 'last_name', field: 'lastName' },
+      { header: 'regular_hours', field: 'regularHours' },
+      { header: 'overtime_hours', field: 'overtimeHours' },
+      { header: 'double_overtime_hours', field: 'doubleTimeHours' },
+      { header: 'pto_hours', field: 'paidLeaveHours' }
+    ]
+  },
+
+  quickbooks_csv: {
+    id: 'quickbooks_csv',
+    name: 'QuickBooks-style time activities',
+    description: 'One row per employee and payroll item',
+    type: 'delimited',
+    delimiter: ',',
+    includeHeader: true,
+    extension: 'csv',
+    mimeType: 'text/csv',
+    dateFormat: 'MM/DD/YYYY',
+    hoursDecimals: 2,
+    layout: 'earnings',
+    earnings: [
+      { code: 'Hourly Regular', field: 'regularHours' },
+      { code: 'Hourly Overtime (x1.5)', field: 'overtimeHours' },
+      { code: 'Hourly Double Time (x2)', field: 'doubleTimeHours' },
+      { code: 'Paid Time Off', field: 'paidLeaveHours' }
+    ],
+    columns: [
+      { header: 'Employee', field: 'fullName' },
+      { header: 'Employee ID', field: 'employeeCode' },
+      { header: 'Payroll Item', field: 'earningCode' },
+      { header: 'Hours', field: 'hours' },
+      { header: 'Date', field: 'periodEnd' }
+    ]
+  }
+};
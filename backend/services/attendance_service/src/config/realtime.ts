@@ -0,0 +1,180 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { env } from './env';
+import { listen } from './database';
+import { verifyAccessToken, AuthenticatedUser } from '../middleware/auth.middleware';
+import { RealtimeService, AttendanceEventMessage, LiveScope, ATTENDANCE_EVENTS_CHANNEL, rooms } from '../services/realtime.service';
+import { realtimeSchemas } from '../schemas/realtime.schemas';
+import { logger } from '../utils/logger';
+
+export interface RealtimeServer {
+  stop(): Promise<void>;
+}
+
+interface LiveSocketData {
+  user: AuthenticatedUser & { companyId: string };
+  scopeRoom: string | null;
+}
+
+type LiveSocket = Socket<Record<string, any>, Record<string, any>, Record<string, never>, LiveSocketData>;
+type Ack = (response: unknown) => void;
+
+const realtimeService = new RealtimeService();
+
+/**
+ * Start the live channel on the HTTP server (socket.io at /api/attendance/live).
+ * Events are published with NOTIFY, so every instance hears every change and delivers it to its own sockets.
+ */
+export async function startRealtimeServer(server: HttpServer): Promise<RealtimeServer | null> {
+  const io = new Server(server, {
+    path: '/api/attendance/live',
+    cors: {
+      origin: env.FRONTEND_URL,
+      credentials: true
+    }
+  });
+
+  let listener: { unlisten: () => Promise<void> };
+  try {
+    listener = await listen(ATTENDANCE_EVENTS_CHANNEL, payload => relay(io, payload));
+  } catch (error) {
+    // Clients get a clean rejection instead of a channel that never sends anything
+    logger.error('Failed to listen for attendance events, live channel disabled:', error);
+    io.use((_socket, next) => next(new Error('LIVE_CHANNEL_UNAVAILABLE')));
+    return null;
+  }
+
+  io.use(authenticateSocket);
+  io.on('connection', onConnection);
+
+  logger.info('Live channel started', {
+    service: 'attendance-service',
+    path: '/api/attendance/live'
+  });
+
+  return {
+    // Leaves the HTTP server to the caller's own shutdown
+    async stop() {
+      await listener.unlisten();
+      io.disconnectSockets(true);
+    }
+  };
+}
+
+/**
+ * Accept the same JWT as the REST API, from the handshake's auth.token or an Authorization header.
+ * The socket is closed when the token expires.
+ */
+function authenticateSocket(socket: LiveSocket, next: (error?: Error) => void): void {
+  const authToken = socket.handshake.auth['token'];
+  const header = socket.handshake.headers['authorization'];
+  const token = typeof authToken === 'string' ? authToken.replace(/^Bearer /, '') : header?.split(' ')[1];
+
+  if (!token) {
+    next(new Error('MISSING_TOKEN'));
+    return;
+  }
+
+  try {
+    const { user, expiresAt } = verifyAccessToken(token);
+
+    if (!user.companyId) {
+      next(new Error('VALIDATION_ERROR'));
+      return;
+    }
+
+    socket.data.user = { ...user, companyId: user.companyId };
+    socket.data.scopeRoom = null;
+
+    if (expiresAt) {
+      const timer = setTimeout(() => socket.disconnect(true), Math.max(expiresAt.getTime() - Date.now(), 0));
+      socket.on('disconnect', () => clearTimeout(timer));
+    }
+
+    next();
+  } catch (error) {
+    logger.warn('Invalid live channel token:', {
+      service: 'attendance-service',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ip: socket.handshake.address
+    });
+    next(new Error('INVALID_TOKEN'));
+  }
+}
+
+function onConnection(socket: LiveSocket): void {
+  const { user } = socket.data;
+
+  // Everyone follows their own record; wider scopes need a subscribe
+  socket.join(rooms.user(user.userId));
+
+  socket.on('subscribe', async (payload: unknown, ack?: Ack) => {
+    const reply: Ack = typeof ack === 'function' ? ack : () => undefined;
+
+    try {
+      const parsed = realtimeSchemas.subscribe.safeParse(payload ?? {});
+      if (!parsed.success) {
+        reply({
+          success: false,
+          message: parsed.error.errors[0]?.message ?? 'Invalid subscription',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const scope: LiveScope = {
+        ...(parsed.data.department && { department: parsed.data.department }),
+        ...(parsed.data.teamId && { teamId: parsed.data.teamId })
+      };
+      const isAdmin = user.role === 'company_admin' || user.role === 'company_super_admin' || user.role === 'platform_admin';
+
+      const room = await realtimeService.resolveScopeRoom({ userId: user.userId, companyId: user.companyId, isAdmin }, scope);
+      if (!room.success) {
+        reply(room);
+        return;
+      }
+
+      // One scope per socket: a new subscribe replaces the previous one
+      if (socket.data.scopeRoom) {
+        socket.leave(socket.data.scopeRoom);
+      }
+      socket.join(room.data!);
+      socket.data.scopeRoom = room.data!;
+
+      // Start from who is in right now, then apply events
+      const whosIn = await realtimeService.getWhosIn(user.companyId, scope);
+      reply(whosIn.success
+        ? { success: true, data: { scope, clockedIn: whosIn.data } }
+        : whosIn);
+    } catch (error) {
+      logger.error('Live subscribe error:', error);
+      reply({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  socket.on('unsubscribe', (ack?: Ack) => {
+    if (socket.data.scopeRoom) {
+      socket.leave(socket.data.scopeRoom);
+      socket.data.scopeRoom = null;
+    }
+    if (typeof ack === 'function') {
+      ack({ success: true });
+    }
+  });
+}
+
+function relay(io: Server, payload: string): void {
+  try {
+    const { rooms: targets, event } = JSON.parse(payload) as AttendanceEventMessage;
+    io.to(targets).emit('attendance', event);
+  } catch (error) {
+    logger.warn('Invalid attendance event payload', {
+      service: 'attendance-service',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
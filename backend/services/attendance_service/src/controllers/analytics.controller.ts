@@ -0,0 +1,668 @@
+import { Response } from 'express';
+import { AnalyticsService, AnalyticsFilters, AnalyticsReportType } from '../services/analytics.service';
+import { DailyStatusService, DailyStatusFilters, DailyStatus } from '../services/dailyStatus.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class AnalyticsController {
+  private readonly analyticsService = new AnalyticsService();
+  private readonly dailyStatusService = new DailyStatusService();
+
+  /**
+   * Get worked and productive time, desktop activity and trends for a company
+   * GET /api/attendance/analytics/productivity/:companyId
+   */
+  async getProductivityAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getProductivityAnalytics(companyId, this.getFilters(req));
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get productivity analytics controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's worked and productive time, desktop activity and trends
+   * GET /api/attendance/analytics/productivity/user/:userId
+   */
+  async getUserProductivity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.analyticsService.getProductivityAnalytics(companyId, { ...this.getFilters(req), userId });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user productivity controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get attendance and punctuality rates, statuses and session stats for a company
+   * GET /api/attendance/analytics/attendance/:companyId
+   */
+  async getAttendanceAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getAttendanceAnalytics(companyId, this.getFilters(req));
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get attendance analytics controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's attendance and punctuality rates with their daily statuses
+   * GET /api/attendance/analytics/attendance/user/:userId
+   */
+  async getUserAttendance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.analyticsService.getAttendanceAnalytics(companyId, { ...this.getFilters(req), userId });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user attendance controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get fraud assessments by risk level, the review backlog and the riskiest employees
+   * GET /api/attendance/analytics/fraud/:companyId
+   */
+  async getFraudAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getFraudAnalytics(companyId, this.getFilters(req));
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud analytics controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a scorecard per employee: attendance, punctuality, productivity and risk
+   * GET /api/attendance/analytics/performance/:companyId
+   */
+  async getPerformanceAnalytics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { limit } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getPerformanceAnalytics(
+        companyId,
+        this.getFilters(req),
+        limit ? Number(limit) : undefined
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get performance analytics controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the company dashboard: today's statuses, who is clocked in, pending reviews and the last week
+   * GET /api/attendance/analytics/dashboard/:companyId
+   */
+  async getDashboardData(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { date, department, teamId } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getDashboardData(companyId, {
+        ...(date ? { date: date as string } : {}),
+        ...(department ? { department: department as string } : {}),
+        ...(teamId ? { teamId: teamId as string } : {})
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get dashboard data controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's dashboard: today's status, open session, week, month and pending requests
+   * GET /api/attendance/analytics/dashboard/user/:userId
+   */
+  async getUserDashboard(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { companyId } = req.user!;
+      const { date } = req.query;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.analyticsService.getUserDashboard(companyId, userId, date as string | undefined);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user dashboard controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the generated report history
+   * GET /api/attendance/analytics/reports/:companyId
+   */
+  async getReports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { reportType, limit } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getReports(
+        companyId,
+        reportType as AnalyticsReportType | undefined,
+        limit ? Number(limit) : undefined
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get reports controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Download a generated report
+   * GET /api/attendance/analytics/reports/:companyId/:reportId/download
+   */
+  async downloadReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, reportId } = req.params;
+
+      if (!companyId || !reportId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.analyticsService.getReport(companyId, reportId);
+
+      if (!result.success || !result.data) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.setHeader('Content-Type', `${result.data.mimeType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${result.data.fileName}"`);
+      res.send(result.data.content);
+    } catch (error) {
+      logger.error('Download report controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Generate an attendance, productivity, fraud or performance report
+   * POST /api/attendance/analytics/reports/generate
+   */
+  async generateReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.analyticsService.generateReport(companyId, userId, {
+        ...req.body,
+        format: req.body.format ?? 'csv'
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Generate report controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the daily attendance status of each employee
+   * GET /api/attendance/analytics/daily-status/:companyId
+   */
+  async getDailyStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate, userId, status, department } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const filters: DailyStatusFilters = {
+        startDate: startDate as string,
+        endDate: endDate as string
+      };
+      if (userId) filters.userId = userId as string;
+      if (status) filters.status = status as DailyStatus;
+      if (department) filters.department = department as string;
+
+      const result = await this.dailyStatusService.getSummaries(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get daily status controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get employee counts per daily status for each date
+   * GET /api/attendance/analytics/daily-status/:companyId/summary
+   */
+  async getDailyStatusSummary(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate, department } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.dailyStatusService.getStatusCounts(
+        companyId,
+        startDate as string,
+        endDate as string,
+        department as string | undefined
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get daily status summary controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's daily attendance status
+   * GET /api/attendance/analytics/daily-status/user/:userId
+   */
+  async getUserDailyStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { startDate, endDate, status } = req.query;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: DailyStatusFilters = {
+        startDate: startDate as string,
+        endDate: endDate as string,
+        userId
+      };
+      if (status) filters.status = status as DailyStatus;
+
+      const result = await this.dailyStatusService.getSummaries(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user daily status controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Recompute daily attendance status for a date range, e.g. after approving corrections or leave
+   * POST /api/attendance/analytics/daily-status/recompute
+   */
+  async recomputeDailyStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate, userId } = req.body;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.dailyStatusService.rollUp(companyId, startDate, endDate, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Recompute daily status controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Date range, department and team from the query string
+   */
+  private getFilters(req: AuthenticatedRequest): AnalyticsFilters {
+    const { startDate, endDate, department, teamId } = req.query;
+
+    const filters: AnalyticsFilters = {
+      startDate: startDate as string,
+      endDate: endDate as string
+    };
+    if (department) filters.department = department as string;
+    if (teamId) filters.teamId = teamId as string;
+
+    return filters;
+  }
+
+  /**
+   * Company analytics are limited to the caller's own company, except for platform admins
+   */
+  private canAccessCompany(req: AuthenticatedRequest, companyId: string): boolean {
+    const { role, companyId: tokenCompanyId } = req.user!;
+    return role === 'platform_admin' || companyId === tokenCompanyId;
+  }
+
+  private denyCompanyAccess(res: Response): void {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied',
+      error: 'ACCESS_DENIED'
+    });
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'REPORT_TOO_LARGE') return 413;
+    return 400;
+  }
+}
@@ -1,19 +1,32 @@
 import { Response } from 'express';
 import { AttendanceService } from '../services/attendance.service';
+import { HolidayService } from '../services/holiday.service';
+import { WorkLocationService } from '../services/workLocation.service';
+import { FraudService, FraudAction } from '../services/fraud.service';
+import { VerificationService, AiVerificationResult } from '../services/verification.service';
+import { PhotoService } from '../services/photo.service';
+import { ClockInMethodService, ClockInMethod, QrCodeCheck, NfcBadge } from '../services/clockInMethod.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import axios from 'axios';
 
 export class AttendanceController {
   private readonly attendanceService = new AttendanceService();
+  private readonly holidayService = new HolidayService();
+  private readonly workLocationService = new WorkLocationService();
+  private readonly fraudService = new FraudService();
+  private readonly verificationService = new VerificationService();
+  private readonly photoService = new PhotoService();
+  private readonly clockInMethodService = new ClockInMethodService();
 
   /**
-   * Clock in with photo verification
+   * Clock in with photo verification, or a site QR code / NFC badge where the policy allows it
    * POST /api/attendance/clock-in
    */
   async clockIn(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { userId, companyId, workMode, location, deviceInfo, userAgent } = req.body;
+      const { userId, companyId, workMode, location, deviceInfo, userAgent, verificationId, verificationMethod, qrCode, nfcBadgeId } = req.body;
+      const method: ClockInMethod = verificationMethod ?? 'face';
       const photo = req.file;
       const ipAddress = req.ip || 'unknown';
 
@@ -22,16 +35,17 @@ export class AttendanceController {
         userId,
         companyId,
         workMode,
+        verificationMethod: method,
         hasPhoto: !!photo,
         location,
         deviceInfo
       });
 
       // Validate required fields
-      if (!photo) {
+      if (!photo && method === 'face') {
         res.status(400).json({
           success: false,
-          message: 'Photo is required for clock-in',
+          message: 'Photo is required for face verification',
           error: 'MISSING_PHOTO'
         });
         return;
@@ -46,147 +60,343 @@ export class AttendanceController {
         return;
       }
 
-      // Convert photo to base64 for AI service
-      const photoBase64 = `data:${photo.mimetype};base64,${photo.buffer.toString('base64')}`;
+      // A site QR code or badge proves where the punch happened, not who made it, so nobody punches for someone else with one
+      if (method !== 'face' && userId !== req.user!.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'QR code and badge clock-ins can only be made by the employee',
+          error: 'ACCESS_DENIED'
+        });
+        return;
+      }
 
-      // Get user's stored face encoding from Auth Service
-      let storedEncoding: number[] | null = null;
-      try {
-        const authServiceResponse = await axios.get(
-          `${process.env['AUTH_SERVICE_URL'] || 'http://auth-service:3001'}/api/auth/face-encoding/${userId}`,
-          {
-            headers: {
-              'Authorization': req.headers.authorization || ''
-            }
+      // One open record per user. Checked before the face/AI calls; the unique index catches concurrent clock-ins.
+      const openRecord = await this.attendanceService.getOpenAttendanceRecord(userId);
+      if (openRecord) {
+        res.status(409).json({
+          success: false,
+          message: 'Already clocked in',
+          error: 'ALREADY_CLOCKED_IN',
+          data: {
+            attendanceId: openRecord.id,
+            clockInTime: openRecord.clockInTime
           }
-        );
+        });
+        return;
+      }
 
-        if (authServiceResponse.data.success && authServiceResponse.data.data?.encoding) {
-          storedEncoding = authServiceResponse.data.data.encoding;
+      // A pre-verification must belong to the employee, have passed, and not be expired or already used
+      const clockInTime = new Date();
+      let preVerification: AiVerificationResult | null = null;
+      if (verificationId) {
+        const verification = await this.verificationService.getUsableVerification(verificationId, userId, companyId, clockInTime);
+
+        if (!verification.success) {
+          res.status(400).json(verification);
+          return;
         }
-      } catch (error) {
-        logger.warn('Failed to get stored face encoding', {
+
+        preVerification = verification.data!;
+      }
+
+      // Verify the location: company geofences onsite, the home or an approved alternate location remote
+      const locationCheck = await this.workLocationService.verifyClockIn(companyId, userId, workMode, location, clockInTime);
+
+      if (locationCheck.action === 'reject') {
+        logger.warn('Clock-in rejected by location check', {
           service: 'attendance-service',
           userId,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          companyId,
+          reason: locationCheck.reason,
+          locationId: locationCheck.locationId,
+          distanceMeters: locationCheck.distanceMeters
+        });
+
+        res.status(403).json({
+          success: false,
+          message: locationCheck.message,
+          error: locationCheck.reason,
+          data: locationCheck
         });
+        return;
       }
 
-      if (!storedEncoding) {
-        res.status(400).json({
+      // A QR code names its site; otherwise the site is the geofence the employee is at, if any
+      let qrCheck: QrCodeCheck | null = null;
+      if (method === 'qr') {
+        qrCheck = await this.clockInMethodService.verifyQrCode(companyId, qrCode, clockInTime);
+
+        if (!qrCheck.valid) {
+          res.status(403).json({
+            success: false,
+            message: qrCheck.reason === 'EXPIRED_QR_CODE' ? 'QR code has expired. Please scan the current code.' : 'Invalid QR code',
+            error: qrCheck.reason
+          });
+          return;
+        }
+
+        if (locationCheck.effectiveWorkMode !== 'onsite') {
+          res.status(400).json({
+            success: false,
+            message: 'QR codes can only be used for onsite clock-in',
+            error: 'QR_REQUIRES_ONSITE'
+          });
+          return;
+        }
+
+        // GPS pointing at another site means the code was scanned somewhere else (e.g. a forwarded photo)
+        if (locationCheck.locationId && locationCheck.locationId !== qrCheck.geofenceId) {
+          res.status(403).json({
+            success: false,
+            message: 'QR code belongs to a different site than your location',
+            error: 'QR_SITE_MISMATCH',
+            data: {
+              qrGeofenceId: qrCheck.geofenceId,
+              locationGeofenceId: locationCheck.locationId
+            }
+          });
+          return;
+        }
+      }
+
+      const siteId = qrCheck?.geofenceId
+        ?? (locationCheck.locationType === 'site' && locationCheck.zone !== 'outside' ? locationCheck.locationId : null);
+      const allowedMethods = await this.clockInMethodService.getAllowedMethods(companyId, siteId);
+
+      if (!allowedMethods.includes(method)) {
+        res.status(403).json({
           success: false,
-          message: 'No face encoding found for user. Please register your face first.',
-          error: 'NO_FACE_ENCODING'
+          message: `${method.toUpperCase()} clock-in is not allowed here`,
+          error: 'METHOD_NOT_ALLOWED',
+          data: {
+            allowedMethods,
+            geofenceId: siteId
+          }
         });
         return;
       }
 
-      // Generate new face encoding from clock-in photo
-      let newEncoding: number[] | null = null;
+      let badge: NfcBadge | null = null;
+      if (method === 'nfc') {
+        badge = await this.clockInMethodService.verifyBadge(companyId, userId, nfcBadgeId);
+
+        if (!badge) {
+          res.status(403).json({
+            success: false,
+            message: 'Badge is not registered to you',
+            error: 'INVALID_BADGE'
+          });
+          return;
+        }
+      }
+
       let faceSimilarity = 0;
       let faceVerificationSuccess = false;
 
-      try {
-        const aiServiceResponse = await axios.post(
-          `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/encode-face`,
-          {
-            image: photoBase64,
-            userId,
-            companyId,
-            metadata: {
-              requestSource: 'attendance-service',
-              operation: 'clock-in',
-              timestamp: new Date().toISOString()
+      if (method === 'face') {
+        // Convert photo to base64 for AI service
+        const photoBase64 = `data:${photo!.mimetype};base64,${photo!.buffer.toString('base64')}`;
+
+        // Get user's stored face encoding from Auth Service
+        let storedEncoding: number[] | null = null;
+        try {
+          const authServiceResponse = await axios.get(
+            `${process.env['AUTH_SERVICE_URL'] || 'http://auth-service:3001'}/api/auth/face-encoding/${userId}`,
+            {
+              headers: {
+                'Authorization': req.headers.authorization || ''
+              }
             }
+          );
+
+          if (authServiceResponse.data.success && authServiceResponse.data.data?.encoding) {
+            storedEncoding = authServiceResponse.data.data.encoding;
           }
-        );
+        } catch (error) {
+          logger.warn('Failed to get stored face encoding', {
+            service: 'attendance-service',
+            userId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
 
-        if (aiServiceResponse.data.success) {
-          newEncoding = aiServiceResponse.data.data.encoding;
-          
-          // Compare faces
-          const comparisonResponse = await axios.post(
-            `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/compare-faces`,
+        if (!storedEncoding) {
+          res.status(400).json({
+            success: false,
+            message: 'No face encoding found for user. Please register your face first.',
+            error: 'NO_FACE_ENCODING'
+          });
+          return;
+        }
+
+        // Generate new face encoding from clock-in photo
+        let newEncoding: number[] | null = null;
+
+        try {
+          const aiServiceResponse = await axios.post(
+            `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/encode-face`,
             {
-              encoding1: storedEncoding,
-              encoding2: newEncoding,
+              image: photoBase64,
               userId,
               companyId,
-              attendanceId: null, // Will be set after creating attendance record
               metadata: {
                 requestSource: 'attendance-service',
-                operation: 'clock-in-verification'
+                operation: 'clock-in',
+                timestamp: new Date().toISOString()
               }
             }
           );
 
-          if (comparisonResponse.data.success) {
-            faceSimilarity = comparisonResponse.data.data.similarity;
-            faceVerificationSuccess = comparisonResponse.data.data.isMatch;
+          if (aiServiceResponse.data.success) {
+            newEncoding = aiServiceResponse.data.data.encoding;
+          
+            // Compare faces
+            const comparisonResponse = await axios.post(
+              `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/compare-faces`,
+              {
+                encoding1: storedEncoding,
+                encoding2: newEncoding,
+                userId,
+                companyId,
+                attendanceId: null, // Will be set after creating attendance record
+                metadata: {
+                  requestSource: 'attendance-service',
+                  operation: 'clock-in-verification'
+                }
+              }
+            );
+
+            if (comparisonResponse.data.success) {
+              faceSimilarity = comparisonResponse.data.data.similarity;
+              faceVerificationSuccess = comparisonResponse.data.data.isMatch;
+            }
           }
+        } catch (error) {
+          logger.error('AI service communication error during clock-in:', error);
+          res.status(500).json({
+            success: false,
+            message: 'Face verification failed',
+            error: 'AI_SERVICE_ERROR'
+          });
+          return;
+        }
+
+        if (!faceVerificationSuccess) {
+          res.status(400).json({
+            success: false,
+            message: 'Face verification failed. Please try again.',
+            error: 'FACE_VERIFICATION_FAILED',
+            data: {
+              faceSimilarity,
+              threshold: 0.6
+            }
+          });
+          return;
         }
-      } catch (error) {
-        logger.error('AI service communication error during clock-in:', error);
-        res.status(500).json({
-          success: false,
-          message: 'Face verification failed',
-          error: 'AI_SERVICE_ERROR'
-        });
-        return;
       }
 
-      if (!faceVerificationSuccess) {
-        res.status(400).json({
-          success: false,
-          message: 'Face verification failed. Please try again.',
-          error: 'FACE_VERIFICATION_FAILED',
-          data: {
-            faceSimilarity,
-            threshold: 0.6
-          }
-        });
-        return;
+      // Only the storage key goes into the record; QR and NFC clock-ins may come without a photo
+      let photoKey: string | null = null;
+      if (photo) {
+        try {
+          photoKey = await this.photoService.storeAttendancePhoto(companyId, userId, 'clock-in', photo, clockInTime);
+        } catch (error) {
+          logger.error('Failed to store clock-in photo:', error);
+          res.status(500).json({
+            success: false,
+            message: 'Failed to store photo',
+            error: 'PHOTO_STORAGE_ERROR'
+          });
+          return;
+        }
       }
 
       // Create attendance record
       const attendanceData = {
         userId,
         companyId,
-        clockInTime: new Date(),
+        clockInTime,
         workMode,
         location,
         deviceInfo,
         userAgent,
         ipAddress,
-        photoUrl: photoBase64,
-        faceSimilarity,
-        livenessScore: 0.95, // Mock liveness score
+        ...(photoKey && { photoKey }),
+        ...(method === 'face' && {
+          faceSimilarity,
+          livenessScore: 0.95 // Mock liveness score
+        }),
         activityScore: 0.85, // Mock activity score
         productivityScore: 0.80, // Mock productivity score
+        ...(locationCheck.zone && { geofenceZone: locationCheck.zone }),
+        ...(locationCheck.distanceMeters !== null && { geofenceDistanceMeters: locationCheck.distanceMeters }),
+        ...(locationCheck.locationType && { locationType: locationCheck.locationType }),
+        ...(locationCheck.locationType === 'site' && locationCheck.locationId && { geofenceId: locationCheck.locationId }),
+        ...(locationCheck.locationType === 'alternate' && locationCheck.locationId && { alternateLocationId: locationCheck.locationId }),
+        ...(qrCheck?.geofenceId && { geofenceId: qrCheck.geofenceId, locationType: 'site' as const }), // Without a GPS fix the QR code places the employee
+        expectedWorkMode: locationCheck.expectedWorkMode,
+        ...(locationCheck.workModeScheduleId && { workModeScheduleId: locationCheck.workModeScheduleId }),
+        workModeMismatch: locationCheck.workModeMismatch,
+        flagged: locationCheck.action === 'flag',
         overallRiskScore: 0, // Will be updated after fraud analysis
         aiProcessingTime: 0, // Will be updated after fraud analysis
         verificationMetadata: {
-          faceVerification: {
-            success: faceVerificationSuccess,
-            similarity: faceSimilarity,
-            threshold: 0.6
-          },
-          livenessVerification: {
-            success: true,
-            score: 0.95
-          }
+          method,
+          ...(method === 'face' && {
+            faceVerification: {
+              success: faceVerificationSuccess,
+              similarity: faceSimilarity,
+              threshold: 0.6
+            },
+            livenessVerification: {
+              success: true,
+              score: 0.95
+            }
+          }),
+          ...(qrCheck && {
+            qrCode: {
+              geofenceId: qrCheck.geofenceId,
+              step: qrCheck.step
+            }
+          }),
+          ...(badge && {
+            nfcBadge: {
+              badgeId: badge.id,
+              label: badge.label
+            }
+          }),
+          ...(preVerification && {
+            preVerification: {
+              verificationId: preVerification.id,
+              verificationType: preVerification.verificationType,
+              confidenceScore: preVerification.confidenceScore,
+              verifiedAt: preVerification.createdAt
+            }
+          })
         }
       };
 
       const result = await this.attendanceService.createAttendanceRecord(attendanceData);
 
       if (!result.success) {
-        res.status(400).json(result);
+        if (photoKey) {
+          await this.photoService.deletePhoto(photoKey);
+        }
+        res.status(result.error === 'ALREADY_CLOCKED_IN' ? 409 : 400).json(result);
         return;
       }
 
+      if (preVerification) {
+        await this.verificationService.attachToAttendance(preVerification.id, result.data?.id!);
+      }
+
       // Perform fraud analysis
+      let fraudAction: FraudAction = 'allow';
       try {
+        // Company-local day context (with the site's holidays) so the time check can tell scheduled work from off-hours clock-ins
+        const holidaySiteId = await this.holidayService.getEmployeeSiteId(companyId, userId, result.data?.geofenceId);
+        const dayContext = await this.holidayService.getDayContext(companyId, attendanceData.clockInTime, holidaySiteId);
+
         const fraudAnalysisResponse = await axios.post(
           `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/analyze-fraud`,
           {
@@ -199,7 +409,20 @@ export class AttendanceController {
             userAgent,
             ipAddress,
             workMode,
-            faceSimilarity,
+            expectedLocation: locationCheck.locationName ?? undefined,
+            verificationMethod: method,
+            ...(method === 'face' && { faceSimilarity }),
+            locationVerification: {
+              locationType: locationCheck.locationType,
+              zone: locationCheck.zone,
+              distanceMeters: locationCheck.distanceMeters,
+              expectedWorkMode: locationCheck.expectedWorkMode,
+              workModeMismatch: locationCheck.workModeMismatch
+            },
+            scheduleContext: {
+              ...dayContext,
+              hasScheduledShift: !!result.data?.scheduledStart
+            },
             metadata: {
               requestSource: 'attendance-service',
               operation: 'clock-in-fraud-analysis'
@@ -209,32 +432,69 @@ export class AttendanceController {
 
         if (fraudAnalysisResponse.data.success) {
           const fraudData = fraudAnalysisResponse.data.data;
+
+          // Store the assessment and let the company's prevention settings decide: allow, flag for review or block
+          const assessment = await this.fraudService.recordAssessment(companyId, result.data?.id!, {
+            riskScore: fraudData.riskScore,
+            riskLevel: fraudData.riskLevel,
+            isFraudulent: fraudData.isFraudulent,
+            detectionResults: fraudData.metadata.detectionResults,
+            flags: fraudData.metadata.flags,
+            evidence: fraudData.metadata.evidence,
+            ...(method === 'face' && { faceSimilarity })
+          });
+          // Without a stored assessment nothing is blocked, but risky clock-ins still go to review
+          const action: FraudAction = assessment.data?.action
+            ?? (this.fraudService.getRiskLevel(fraudData.riskScore) === 'LOW' ? 'allow' : 'flag');
           
           // Update attendance record with fraud analysis results
           await this.attendanceService.updateAttendanceFraudAnalysis(
             result.data?.id!,
             {
               overallRiskScore: fraudData.riskScore,
+              fraudAction: action,
               fraudDetectionResults: {
                 riskScore: fraudData.riskScore,
                 riskLevel: fraudData.riskLevel,
                 isFraudulent: fraudData.isFraudulent,
                 detectionResults: fraudData.metadata.detectionResults,
                 flags: fraudData.metadata.flags,
-                evidence: fraudData.metadata.evidence
+                evidence: fraudData.metadata.evidence,
+                action
               }
             }
           );
+          fraudAction = action;
         }
       } catch (error) {
         logger.error('Fraud analysis failed during clock-in:', error);
         // Don't fail the clock-in if fraud analysis fails
       }
 
+      if (fraudAction === 'block') {
+        logger.warn('Clock-in blocked by fraud prevention', {
+          service: 'attendance-service',
+          userId,
+          companyId,
+          attendanceId: result.data?.id
+        });
+
+        res.status(403).json({
+          success: false,
+          message: 'Clock-in blocked for security review. Please contact your administrator.',
+          error: 'CLOCK_IN_BLOCKED',
+          data: {
+            attendanceId: result.data?.id
+          }
+        });
+        return;
+      }
+
       logger.info('Clock-in completed successfully', {
         service: 'attendance-service',
         userId,
         attendanceId: result.data?.id,
+        verificationMethod: method,
         faceSimilarity,
         workMode
       });
@@ -244,10 +504,13 @@ export class AttendanceController {
         message: 'Clock-in successful',
         data: {
           ...result.data,
-          faceVerification: {
-            success: faceVerificationSuccess,
-            similarity: faceSimilarity
-          }
+          verificationMethod: method,
+          ...(method === 'face' && {
+            faceVerification: {
+              success: faceVerificationSuccess,
+              similarity: faceSimilarity
+            }
+          })
         }
       });
 
@@ -308,8 +571,8 @@ export class AttendanceController {
         return;
       }
 
-      // Verify the user owns this attendance record
-      if (attendanceRecord.data.userId !== userId) {
+      // Verify the user owns this attendance record, in the company the punch was authorized for
+      if (attendanceRecord.data.userId !== userId || attendanceRecord.data.companyId !== companyId) {
         res.status(403).json({
           success: false,
           message: 'Access denied',
@@ -404,10 +667,24 @@ export class AttendanceController {
         }
       }
 
+      const clockOutTime = new Date();
+      let clockOutPhotoKey: string;
+      try {
+        clockOutPhotoKey = await this.photoService.storeAttendancePhoto(companyId, userId, 'clock-out', photo, clockOutTime);
+      } catch (error) {
+        logger.error('Failed to store clock-out photo:', error);
+        res.status(500).json({
+          success: false,
+          message: 'Failed to store photo',
+          error: 'PHOTO_STORAGE_ERROR'
+        });
+        return;
+      }
+
       // Update attendance record with clock-out
       const clockOutData = {
-        clockOutTime: new Date(),
-        clockOutPhotoUrl: photoBase64,
+        clockOutTime,
+        clockOutPhotoKey,
         faceSimilarityClockOut: faceSimilarity,
         livenessScoreClockOut: 0.95, // Mock liveness score
         verificationMetadataClockOut: {
@@ -426,6 +703,7 @@ export class AttendanceController {
       const result = await this.attendanceService.updateAttendanceClockOut(attendanceId, clockOutData);
 
       if (!result.success) {
+        await this.photoService.deletePhoto(clockOutPhotoKey);
         res.status(400).json(result);
         return;
       }
@@ -574,7 +852,7 @@ export class AttendanceController {
   async getCompanyAttendance(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { companyId } = req.user!;
-      const { page = 1, limit = 20, date, workMode, status } = req.query;
+      const { page = 1, limit = 20, date, workMode, status, verificationMethod } = req.query;
 
       if (!companyId) {
         res.status(400).json({
@@ -591,7 +869,8 @@ export class AttendanceController {
         Number(limit),
         date as string,
         workMode as string,
-        status as string
+        status as string,
+        verificationMethod as string
       );
 
       res.json(result);
@@ -0,0 +1,132 @@
+import { Response } from 'express';
+import { BreakService } from '../services/break.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class BreakController {
+  private readonly breakService = new BreakService();
+
+  /**
+   * Start a break on the employee's current attendance record
+   * POST /api/attendance/:attendanceId/breaks/start
+   */
+  async startBreak(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { attendanceId } = req.params;
+
+      if (!companyId || !attendanceId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.breakService.startBreak(attendanceId, userId, companyId, {
+        breakType: req.body.breakType || 'unpaid',
+        notes: req.body.notes
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Start break controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * End the break in progress on the employee's current attendance record
+   * POST /api/attendance/:attendanceId/breaks/end
+   */
+  async endBreak(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { attendanceId } = req.params;
+
+      if (!companyId || !attendanceId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.breakService.endBreak(attendanceId, userId, companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('End break controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the breaks and break totals for an attendance record
+   * GET /api/attendance/:attendanceId/breaks
+   */
+  async getBreaks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId, role } = req.user!;
+      const { attendanceId } = req.params;
+
+      if (!companyId || !attendanceId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Admins can view any record in their company, employees only their own
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.breakService.getBreaks(
+        attendanceId,
+        companyId,
+        isAdmin ? undefined : userId
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get breaks controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'BREAK_ALREADY_ACTIVE' || error === 'NO_ACTIVE_BREAK') return 409;
+    return 400;
+  }
+}
@@ -0,0 +1,271 @@
+import { Response } from 'express';
+import { ClockInMethodService } from '../services/clockInMethod.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class ClockInMethodController {
+  private readonly clockInMethodService = new ClockInMethodService();
+
+  /**
+   * Get the clock-in methods accepted at a site
+   * GET /api/attendance/clock-in-methods/sites/:geofenceId
+   */
+  async getSiteMethods(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.getSiteMethods(companyId, geofenceId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get site clock-in methods controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Override (or reset to the company policy) the clock-in methods of a site
+   * PUT /api/attendance/clock-in-methods/sites/:geofenceId
+   */
+  async updateSiteMethods(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { clockInMethods } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.updateSiteMethods(companyId, geofenceId, clockInMethods, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update site clock-in methods controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the QR code currently displayed at a site
+   * GET /api/attendance/clock-in-methods/sites/:geofenceId/qr-code
+   */
+  async getQrCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.getQrCode(companyId, geofenceId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get site QR code controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Rotate a site's QR secret
+   * POST /api/attendance/clock-in-methods/sites/:geofenceId/qr-code/rotate
+   */
+  async rotateQrCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { userId, companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.rotateQrSecret(companyId, geofenceId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Rotate site QR code controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * List NFC badges
+   * GET /api/attendance/clock-in-methods/badges
+   */
+  async getBadges(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.getBadges(companyId, userId as string | undefined);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get NFC badges controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Register an NFC badge to an employee
+   * POST /api/attendance/clock-in-methods/badges
+   */
+  async registerBadge(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, badgeUid, label } = req.body;
+      const { userId: registeredBy, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.registerBadge(companyId, {
+        userId,
+        badgeUid,
+        ...(label !== undefined && { label })
+      }, registeredBy);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Register NFC badge controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate an NFC badge
+   * DELETE /api/attendance/clock-in-methods/badges/:badgeId
+   */
+  async deactivateBadge(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { badgeId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!badgeId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.clockInMethodService.deactivateBadge(companyId, badgeId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Deactivate NFC badge controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND' || error === 'GEOFENCE_NOT_FOUND' || error === 'USER_NOT_FOUND') return 404;
+    if (error === 'BADGE_ALREADY_REGISTERED') return 409;
+    return 400;
+  }
+}
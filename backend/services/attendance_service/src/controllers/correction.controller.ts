@@ -0,0 +1,319 @@
+import { Response } from 'express';
+import { CorrectionService, CorrectionRequestFilters, CorrectionRequest } from '../services/correction.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class CorrectionController {
+  private readonly correctionService = new CorrectionService();
+
+  /**
+   * Request a correction of an attendance record
+   * POST /api/attendance/corrections
+   */
+  async requestCorrection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.correctionService.requestCorrection(companyId, userId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Request correction controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's correction requests
+   * GET /api/attendance/corrections/me
+   */
+  async getMyRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: CorrectionRequestFilters = { userId };
+      if (status) filters.status = status as CorrectionRequest['status'];
+
+      const result = await this.correctionService.getRequests(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get my correction requests controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get correction requests
+   * GET /api/attendance/corrections
+   */
+  async getRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, attendanceId, status } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: CorrectionRequestFilters = {};
+      if (userId) filters.userId = userId as string;
+      if (attendanceId) filters.attendanceId = attendanceId as string;
+      if (status) filters.status = status as CorrectionRequest['status'];
+
+      const result = await this.correctionService.getRequests(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get correction requests controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a correction request
+   * GET /api/attendance/corrections/:requestId
+   */
+  async getRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees only see their own corrections
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const result = await this.correctionService.getRequest(companyId, requestId, isAdmin ? undefined : userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get correction request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Approve a correction request and apply it
+   * POST /api/attendance/corrections/:requestId/approve
+   */
+  async approveRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { notes } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.correctionService.approveRequest(companyId, requestId, userId, notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Approve correction request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reject a correction request
+   * POST /api/attendance/corrections/:requestId/reject
+   */
+  async rejectRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { reason } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.correctionService.rejectRequest(companyId, requestId, userId, reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reject correction request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Cancel a pending correction request
+   * POST /api/attendance/corrections/:requestId/cancel
+   */
+  async cancelRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.correctionService.cancelRequest(companyId, requestId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Cancel correction request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the applied corrections of an attendance record
+   * GET /api/attendance/corrections/history/:attendanceId
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees only see their own corrections
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const result = await this.correctionService.getHistory(companyId, attendanceId, isAdmin ? undefined : userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get correction history controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'INVALID_STATUS' || error === 'DUPLICATE_REQUEST' || error === 'RECORD_LOCKED') return 409;
+    if (error === 'PERIOD_LOCKED' || error === 'OVERLAPPING_ATTENDANCE') return 409;
+    return 400;
+  }
+}
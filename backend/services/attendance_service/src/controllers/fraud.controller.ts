@@ -0,0 +1,726 @@
+import { Response } from 'express';
+import { FraudService, FraudFlagFilters, FlagResolution, ReviewQueueFilters } from '../services/fraud.service';
+import { AttendanceService } from '../services/attendance.service';
+import { HolidayService } from '../services/holiday.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import axios from 'axios';
+
+const MAX_PAGE_SIZE = 100;
+
+export class FraudController {
+  private readonly fraudService = new FraudService();
+  private readonly attendanceService = new AttendanceService();
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Get fraud analytics, review queue state and prevention settings for a company
+   * GET /api/attendance/fraud/dashboard/:companyId
+   */
+  async getFraudDashboard(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.fraudService.getDashboard(companyId, {
+        startDate: startDate as string,
+        endDate: endDate as string
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud dashboard controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the fraud review queue, highest risk first
+   * GET /api/attendance/fraud/alerts/:companyId
+   */
+  async getFraudAlerts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { page = 1, limit = 20, status, riskLevel, assignedTo, unassigned, startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const filters: ReviewQueueFilters = {
+        page: Math.max(Number(page), 1),
+        limit: Math.min(Math.max(Number(limit), 1), MAX_PAGE_SIZE),
+        ...(status && { status: status as NonNullable<ReviewQueueFilters['status']> }),
+        ...(riskLevel && { riskLevel: riskLevel as NonNullable<ReviewQueueFilters['riskLevel']> }),
+        ...(assignedTo && { assignedTo: assignedTo as string }),
+        ...(unassigned === 'true' && { unassigned: true }),
+        ...(startDate && { startDate: startDate as string }),
+        ...(endDate && { endDate: endDate as string })
+      };
+
+      const result = await this.fraudService.getReviewQueue(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud alerts controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Assign a pending fraud review to a reviewer
+   * PUT /api/attendance/fraud/alerts/:resultId/assign
+   */
+  async assignReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { resultId } = req.params;
+      const { reviewerId } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!resultId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.assignReview(companyId, resultId, reviewerId ?? null, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Assign fraud review controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Confirm a flagged or blocked clock-in as legitimate or fraudulent
+   * PUT /api/attendance/fraud/alerts/:resultId/review
+   */
+  async reviewAssessment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { resultId } = req.params;
+      const { decision, notes } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!resultId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.reviewAssessment(companyId, resultId, userId, decision, notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Review fraud assessment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get recurring fraud patterns for a company
+   * GET /api/attendance/fraud/patterns/:companyId
+   */
+  async getFraudPatterns(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.fraudService.getPatterns(companyId, {
+        startDate: startDate as string,
+        endDate: endDate as string
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud patterns controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the fraud assessments and flags of an attendance record
+   * GET /api/attendance/fraud/analysis/:attendanceId
+   */
+  async getFraudAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.getAttendanceAnalysis(companyId, attendanceId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud analysis controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Re-run the AI fraud analysis of an attendance record. Re-analysis can flag a record, never block it.
+   * POST /api/attendance/fraud/analyze
+   */
+  async analyzeFraud(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.body;
+      const { companyId } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const existing = await this.fraudService.getAttendanceAnalysis(companyId, attendanceId);
+
+      if (!existing.success || !existing.data) {
+        res.status(this.getErrorStatus(existing.error)).json(existing);
+        return;
+      }
+
+      const record = existing.data.attendance;
+
+      if (record.lockedAt) {
+        res.status(409).json({
+          success: false,
+          message: 'Attendance record is locked by an approved timesheet',
+          error: 'RECORD_LOCKED'
+        });
+        return;
+      }
+
+      const siteId = await this.holidayService.getEmployeeSiteId(companyId, record.userId, record.geofenceId);
+      const dayContext = await this.holidayService.getDayContext(companyId, record.clockInTime, siteId);
+      const faceSimilarity = record.faceSimilarityScore !== null ? Number(record.faceSimilarityScore) : undefined;
+
+      const fraudAnalysisResponse = await axios.post(
+        `${process.env['AI_SERVICE_URL'] || 'http://ai-service:3004'}/api/ai/analyze-fraud`,
+        {
+          userId: record.userId,
+          companyId,
+          attendanceId,
+          clockInTime: record.clockInTime.toISOString(),
+          location: record.location,
+          deviceInfo: record.deviceInfo,
+          userAgent: record.userAgent,
+          workMode: record.workMode,
+          faceSimilarity,
+          locationVerification: {
+            locationType: record.locationType,
+            zone: record.geofenceZone,
+            distanceMeters: record.geofenceDistanceMeters,
+            expectedWorkMode: record.expectedWorkMode,
+            workModeMismatch: record.workModeMismatch
+          },
+          scheduleContext: {
+            ...dayContext,
+            hasScheduledShift: !!record.scheduledStart
+          },
+          metadata: {
+            requestSource: 'attendance-service',
+            operation: 'fraud-reanalysis'
+          }
+        }
+      );
+
+      if (!fraudAnalysisResponse.data.success) {
+        res.status(502).json({
+          success: false,
+          message: 'Fraud analysis failed',
+          error: 'AI_SERVICE_ERROR'
+        });
+        return;
+      }
+
+      const fraudData = fraudAnalysisResponse.data.data;
+      const assessment = await this.fraudService.recordAssessment(
+        companyId,
+        attendanceId,
+        {
+          riskScore: fraudData.riskScore,
+          riskLevel: fraudData.riskLevel,
+          isFraudulent: fraudData.isFraudulent,
+          detectionResults: fraudData.metadata.detectionResults,
+          flags: fraudData.metadata.flags,
+          evidence: fraudData.metadata.evidence,
+          ...(faceSimilarity !== undefined && { faceSimilarity })
+        },
+        { allowBlock: false }
+      );
+
+      if (!assessment.success || !assessment.data) {
+        res.status(this.getErrorStatus(assessment.error)).json(assessment);
+        return;
+      }
+
+      await this.attendanceService.updateAttendanceFraudAnalysis(attendanceId, {
+        overallRiskScore: fraudData.riskScore,
+        fraudAction: assessment.data.action,
+        fraudDetectionResults: {
+          riskScore: fraudData.riskScore,
+          riskLevel: fraudData.riskLevel,
+          isFraudulent: fraudData.isFraudulent,
+          detectionResults: fraudData.metadata.detectionResults,
+          flags: fraudData.metadata.flags,
+          evidence: fraudData.metadata.evidence,
+          action: assessment.data.action
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Fraud analysis completed',
+        data: assessment.data
+      });
+    } catch (error) {
+      logger.error('Analyze fraud controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's fraud risk profile
+   * GET /api/attendance/fraud/risk/:userId
+   */
+  async getRiskAssessment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.getRiskAssessment(companyId, userId, {
+        startDate: startDate as string,
+        endDate: endDate as string
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get risk assessment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Preview the risk level and action the company's prevention settings give a risk score
+   * POST /api/attendance/fraud/risk/calculate
+   */
+  async calculateRisk(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { riskScore } = req.body;
+      const { companyId } = req.user!;
+
+      if (riskScore === undefined || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.calculateRisk(companyId, riskScore);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Calculate risk controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get attendance flags for a company
+   * GET /api/attendance/fraud/flags/:companyId
+   */
+  async getFraudFlags(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { page = 1, limit = 20, status, flagType, severity, userId, startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const filters: FraudFlagFilters = {
+        page: Math.max(Number(page), 1),
+        limit: Math.min(Math.max(Number(limit), 1), MAX_PAGE_SIZE),
+        ...(status && { status: status as NonNullable<FraudFlagFilters['status']> }),
+        ...(flagType && { flagType: flagType as string }),
+        ...(severity && { severity: severity as string }),
+        ...(userId && { userId: userId as string }),
+        ...(startDate && { startDate: startDate as string }),
+        ...(endDate && { endDate: endDate as string })
+      };
+
+      const result = await this.fraudService.getFlags(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud flags controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Confirm a fraud flag
+   * PUT /api/attendance/fraud/flags/:flagId/resolve
+   */
+  async resolveFraudFlag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.closeFlag(req, res, 'resolved');
+  }
+
+  /**
+   * Dismiss a fraud flag as a false positive
+   * PUT /api/attendance/fraud/flags/:flagId/ignore
+   */
+  async ignoreFraudFlag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.closeFlag(req, res, 'ignored');
+  }
+
+  /**
+   * Get the company's prevention settings and what they did over the period
+   * GET /api/attendance/fraud/prevention/:companyId
+   */
+  async getPreventionMetrics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.fraudService.getPreventionMetrics(companyId, {
+        startDate: startDate as string,
+        endDate: endDate as string
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get prevention metrics controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update the risk levels that flag or block a clock-in
+   * POST /api/attendance/fraud/prevention/update
+   */
+  async updatePreventionSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId: bodyCompanyId, isEnabled, flagRiskLevel, blockRiskLevel, defaultReviewerId } = req.body;
+      const { userId } = req.user!;
+      const companyId = bodyCompanyId ?? req.user!.companyId;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.fraudService.updatePreventionSettings(companyId, {
+        ...(isEnabled !== undefined && { isEnabled }),
+        ...(flagRiskLevel !== undefined && { flagRiskLevel }),
+        ...(blockRiskLevel !== undefined && { blockRiskLevel }),
+        ...(defaultReviewerId !== undefined && { defaultReviewerId })
+      }, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update prevention settings controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get daily fraud assessments by risk level and action
+   * GET /api/attendance/fraud/trends/:companyId
+   */
+  async getFraudTrends(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (!this.canAccessCompany(req, companyId)) {
+        this.denyCompanyAccess(res);
+        return;
+      }
+
+      const result = await this.fraudService.getTrends(companyId, {
+        startDate: startDate as string,
+        endDate: endDate as string
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get fraud trends controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private async closeFlag(req: AuthenticatedRequest, res: Response, resolution: FlagResolution): Promise<void> {
+    try {
+      const { flagId } = req.params;
+      const { notes } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!flagId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.fraudService.closeFlag(companyId, flagId, userId, resolution, notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Close fraud flag controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private canAccessCompany(req: AuthenticatedRequest, companyId: string): boolean {
+    const { role, companyId: tokenCompanyId } = req.user!;
+    return role === 'platform_admin' || companyId === tokenCompanyId;
+  }
+
+  private denyCompanyAccess(res: Response): void {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied',
+      error: 'ACCESS_DENIED'
+    });
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'ALREADY_REVIEWED' || error === 'FLAG_ALREADY_CLOSED' || error === 'RECORD_LOCKED') return 409;
+    return 400;
+  }
+}
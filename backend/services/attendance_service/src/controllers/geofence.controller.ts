@@ -0,0 +1,509 @@
+import { Response } from 'express';
+import { GeofenceService } from '../services/geofence.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class GeofenceController {
+  private readonly geofenceService = new GeofenceService();
+
+  /**
+   * Get geofences
+   * GET /api/attendance/geofences
+   */
+  async getGeofences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.getGeofences(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get geofences controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a geofence
+   * GET /api/attendance/geofences/:geofenceId
+   */
+  async getGeofence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.getGeofence(companyId, geofenceId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get geofence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a geofence
+   * POST /api/attendance/geofences
+   */
+  async createGeofence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.createGeofence(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create geofence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a geofence
+   * PUT /api/attendance/geofences/:geofenceId
+   */
+  async updateGeofence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.updateGeofence(companyId, geofenceId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update geofence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a geofence
+   * DELETE /api/attendance/geofences/:geofenceId
+   */
+  async deleteGeofence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geofenceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!geofenceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.deleteGeofence(companyId, geofenceId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete geofence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create polygon geofences from GeoJSON
+   * POST /api/attendance/geofences/import
+   */
+  async importGeoJson(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { geojson, ...options } = req.body;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.importGeoJson(companyId, geojson, options);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Import GeoJSON geofences controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Test a coordinate against the company's sites
+   * POST /api/attendance/geofences/test
+   */
+  async testLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { latitude, longitude, userId } = req.body;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.testLocation(companyId, { latitude, longitude }, userId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Test geofence location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get site groups
+   * GET /api/attendance/geofences/groups
+   */
+  async getSiteGroups(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.getSiteGroups(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get site groups controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a site group
+   * POST /api/attendance/geofences/groups
+   */
+  async createSiteGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.createSiteGroup(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create site group controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a site group
+   * PUT /api/attendance/geofences/groups/:siteGroupId
+   */
+  async updateSiteGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { siteGroupId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!siteGroupId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.updateSiteGroup(companyId, siteGroupId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update site group controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a site group
+   * DELETE /api/attendance/geofences/groups/:siteGroupId
+   */
+  async deleteSiteGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { siteGroupId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!siteGroupId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.deleteSiteGroup(companyId, siteGroupId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete site group controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get site assignments
+   * GET /api/attendance/geofences/assignments
+   */
+  async getAssignments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.getAssignments(companyId, userId as string | undefined);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get site assignments controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Assign an employee to a site or site group
+   * POST /api/attendance/geofences/assignments
+   */
+  async createAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.createAssignment(companyId, req.body, userId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : result.error === 'DUPLICATE_ASSIGNMENT' ? 409 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create site assignment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Remove a site assignment
+   * DELETE /api/attendance/geofences/assignments/:assignmentId
+   */
+  async deleteAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { assignmentId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!assignmentId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.geofenceService.deleteAssignment(companyId, assignmentId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete site assignment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
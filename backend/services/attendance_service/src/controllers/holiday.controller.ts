@@ -0,0 +1,470 @@
+import { Response } from 'express';
+import { HolidayService } from '../services/holiday.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class HolidayController {
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Get the bundled holiday presets
+   * GET /api/attendance/holidays/presets
+   */
+  async getPresets(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: this.holidayService.getPresets()
+      });
+    } catch (error) {
+      logger.error('Get holiday presets controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the holidays that apply in a date range
+   * GET /api/attendance/holidays
+   */
+  async getHolidays(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate, geofenceId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId || !startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.getHolidays(
+        companyId,
+        startDate as string,
+        endDate as string,
+        geofenceId as string | undefined
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get holidays controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get holiday calendars
+   * GET /api/attendance/holidays/calendars
+   */
+  async getCalendars(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.getCalendars(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get holiday calendars controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a holiday calendar
+   * POST /api/attendance/holidays/calendars
+   */
+  async createCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.createCalendar(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create holiday calendar controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a holiday calendar
+   * GET /api/attendance/holidays/calendars/:calendarId
+   */
+  async getCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.getCalendar(companyId, calendarId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get holiday calendar controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a holiday calendar
+   * PUT /api/attendance/holidays/calendars/:calendarId
+   */
+  async updateCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.updateCalendar(companyId, calendarId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update holiday calendar controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a holiday calendar
+   * DELETE /api/attendance/holidays/calendars/:calendarId
+   */
+  async deleteCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.deleteCalendar(companyId, calendarId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete holiday calendar controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the holidays in a calendar
+   * GET /api/attendance/holidays/calendars/:calendarId/holidays
+   */
+  async getCalendarHolidays(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { year } = req.query;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.getCalendarHolidays(companyId, calendarId, year ? parseInt(year as string) : undefined);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get calendar holidays controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Add a holiday to a calendar
+   * POST /api/attendance/holidays/calendars/:calendarId/holidays
+   */
+  async addHoliday(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.addHoliday(companyId, calendarId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Add holiday controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a holiday
+   * PUT /api/attendance/holidays/calendars/:calendarId/holidays/:holidayId
+   */
+  async updateHoliday(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId, holidayId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !holidayId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.updateHoliday(companyId, calendarId, holidayId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update holiday controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Delete a holiday
+   * DELETE /api/attendance/holidays/calendars/:calendarId/holidays/:holidayId
+   */
+  async deleteHoliday(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId, holidayId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !holidayId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.deleteHoliday(companyId, calendarId, holidayId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete holiday controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Add a country preset's holidays to a calendar
+   * POST /api/attendance/holidays/calendars/:calendarId/presets
+   */
+  async applyPreset(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { preset, years } = req.body;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId || !preset || !years) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.applyPreset(companyId, calendarId, preset, years);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Apply holiday preset controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Import holidays from an iCalendar (.ics) file
+   * POST /api/attendance/holidays/calendars/:calendarId/import
+   */
+  async importIcal(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { calendarId } = req.params;
+      const { content, replaceExisting, untilYear } = req.body;
+      const { companyId } = req.user!;
+
+      if (!calendarId || !companyId || !content) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.holidayService.importIcal(companyId, calendarId, content, {
+        replaceExisting: replaceExisting === true,
+        ...(untilYear !== undefined && { untilYear })
+      });
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Import iCal holidays controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
@@ -0,0 +1,386 @@
+import { Response } from 'express';
+import { KioskService, KioskAuditLogFilters } from '../services/kiosk.service';
+import { ClockInMethodService } from '../services/clockInMethod.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { KioskRequest } from '../middleware/kiosk.middleware';
+
+const MAX_PAGE_SIZE = 100;
+
+export class KioskController {
+  private readonly kioskService = new KioskService();
+  private readonly clockInMethodService = new ClockInMethodService();
+
+  /**
+   * Register a kiosk at a company site
+   * POST /api/attendance/kiosks
+   */
+  async registerKiosk(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { name, geofenceId, pinFallbackEnabled } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.registerKiosk(companyId, {
+        name,
+        geofenceId,
+        ...(pinFallbackEnabled !== undefined && { pinFallbackEnabled })
+      }, userId, req.ip);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Register kiosk controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * List the company's kiosks
+   * GET /api/attendance/kiosks
+   */
+  async getKiosks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.getKiosks(companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get kiosks controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a kiosk
+   * PATCH /api/attendance/kiosks/:kioskId
+   */
+  async updateKiosk(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { kioskId } = req.params;
+      const { name, geofenceId, pinFallbackEnabled, isActive } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!kioskId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.updateKiosk(companyId, kioskId, {
+        ...(name !== undefined && { name }),
+        ...(geofenceId !== undefined && { geofenceId }),
+        ...(pinFallbackEnabled !== undefined && { pinFallbackEnabled }),
+        ...(isActive !== undefined && { isActive })
+      }, userId, req.ip);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update kiosk controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Issue a new kiosk key
+   * POST /api/attendance/kiosks/:kioskId/rotate-key
+   */
+  async rotateKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { kioskId } = req.params;
+      const { userId, companyId } = req.user!;
+
+      if (!kioskId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.rotateSecret(companyId, kioskId, userId, req.ip);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Rotate kiosk key controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a kiosk's audit log
+   * GET /api/attendance/kiosks/:kioskId/audit-logs
+   */
+  async getAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { kioskId } = req.params;
+      const { page = 1, limit = 50, event, userId, startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!kioskId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: KioskAuditLogFilters = {
+        page: Math.max(Number(page), 1),
+        limit: Math.min(Math.max(Number(limit), 1), MAX_PAGE_SIZE),
+        ...(event && { event: event as NonNullable<KioskAuditLogFilters['event']> }),
+        ...(userId && { userId: userId as string }),
+        ...(startDate && { startDate: new Date(startDate as string) }),
+        ...(endDate && { endDate: new Date(endDate as string) })
+      };
+
+      const result = await this.kioskService.getAuditLogs(companyId, kioskId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get kiosk audit logs controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Set the signed-in employee's kiosk PIN
+   * PUT /api/attendance/kiosks/pin
+   */
+  async setPin(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { pin } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.setPin(companyId, userId, pin);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Set kiosk PIN controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Remove an employee's kiosk PIN, e.g. after a lockout
+   * DELETE /api/attendance/kiosks/pins/:userId
+   */
+  async clearPin(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.kioskService.clearPin(companyId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Clear kiosk PIN controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the calling kiosk's own settings
+   * GET /api/attendance/kiosk/me
+   */
+  async getCurrentKiosk(req: KioskRequest, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: req.kiosk
+    });
+  }
+
+  /**
+   * Get the QR code for the kiosk's site
+   * GET /api/attendance/kiosk/qr-code
+   */
+  async getQrCode(req: KioskRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, geofenceId } = req.kiosk!;
+
+      const result = await this.clockInMethodService.getQrCode(companyId, geofenceId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get kiosk QR code controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Identify the employee by face and clock them in or out
+   * POST /api/attendance/kiosk/punch
+   */
+  async punchByFace(req: KioskRequest, res: Response): Promise<void> {
+    try {
+      const photo = req.file!;
+
+      const result = await this.kioskService.punchByFace(req.kiosk!, photo, req.ip);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(result.data?.action === 'clock_in' ? 201 : 200).json(result);
+    } catch (error) {
+      logger.error('Kiosk face punch controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Clock in or out with employee ID and PIN
+   * POST /api/attendance/kiosk/punch/pin
+   */
+  async punchByPin(req: KioskRequest, res: Response): Promise<void> {
+    try {
+      const { employeeId, pin } = req.body;
+      const photo = req.file!;
+
+      const result = await this.kioskService.punchByPin(req.kiosk!, employeeId, pin, photo, req.ip);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(result.data?.action === 'clock_in' ? 201 : 200).json(result);
+    } catch (error) {
+      logger.error('Kiosk PIN punch controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND' || error === 'GEOFENCE_NOT_FOUND') return 404;
+    if (error === 'RECENT_PUNCH' || error === 'ALREADY_CLOCKED_IN' || error === 'ALREADY_CLOCKED_OUT') return 409;
+    if (error === 'FACE_NOT_IDENTIFIED') return 422;
+    if (error === 'INVALID_PIN') return 401;
+    if (error === 'PIN_LOCKED') return 423;
+    if (error === 'PIN_FALLBACK_DISABLED' || error === 'METHOD_NOT_ALLOWED' || error === 'CLOCK_IN_BLOCKED') return 403;
+    if (error === 'FACE_CHECK_UNAVAILABLE') return 503;
+    if (error === 'PHOTO_STORAGE_ERROR') return 500;
+    return 400;
+  }
+}
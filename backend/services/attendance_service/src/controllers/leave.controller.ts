@@ -0,0 +1,613 @@
+import { Response } from 'express';
+import { LeaveService, LeaveRequestFilters, LeaveRequest } from '../services/leave.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class LeaveController {
+  private readonly leaveService = new LeaveService();
+
+  /**
+   * Get leave types
+   * GET /api/attendance/leave/types
+   */
+  async getLeaveTypes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.getLeaveTypes(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get leave types controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a leave type
+   * POST /api/attendance/leave/types
+   */
+  async createLeaveType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.createLeaveType(companyId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create leave type controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a leave type
+   * GET /api/attendance/leave/types/:leaveTypeId
+   */
+  async getLeaveType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { leaveTypeId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!leaveTypeId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.getLeaveType(companyId, leaveTypeId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get leave type controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a leave type
+   * PUT /api/attendance/leave/types/:leaveTypeId
+   */
+  async updateLeaveType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { leaveTypeId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!leaveTypeId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.updateLeaveType(companyId, leaveTypeId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update leave type controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a leave type
+   * DELETE /api/attendance/leave/types/:leaveTypeId
+   */
+  async deleteLeaveType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { leaveTypeId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!leaveTypeId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.deleteLeaveType(companyId, leaveTypeId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete leave type controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's leave balances
+   * GET /api/attendance/leave/balances
+   */
+  async getMyBalances(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { year } = req.query;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.getBalances(companyId, userId, year ? parseInt(year as string) : undefined);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get my leave balances controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's leave balances
+   * GET /api/attendance/leave/balances/user/:userId
+   */
+  async getUserBalances(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { year } = req.query;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.getBalances(companyId, userId, year ? parseInt(year as string) : undefined);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user leave balances controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Manually adjust an employee's leave balance
+   * POST /api/attendance/leave/balances/adjust
+   */
+  async adjustBalance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId: adjustedBy } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.adjustBalance(companyId, req.body, adjustedBy);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Adjust leave balance controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Request time off for the current user
+   * POST /api/attendance/leave/requests
+   */
+  async createRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.createRequest(companyId, userId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create leave request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get company leave requests
+   * GET /api/attendance/leave/requests
+   */
+  async getRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, leaveTypeId, status, startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: LeaveRequestFilters = {};
+      if (userId) filters.userId = userId as string;
+      if (leaveTypeId) filters.leaveTypeId = leaveTypeId as string;
+      if (status) filters.status = status as LeaveRequest['status'];
+      if (startDate) filters.startDate = startDate as string;
+      if (endDate) filters.endDate = endDate as string;
+
+      const result = await this.leaveService.getRequests(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get leave requests controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's leave requests
+   * GET /api/attendance/leave/requests/me
+   */
+  async getMyRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status, startDate, endDate } = req.query;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: LeaveRequestFilters = { userId };
+      if (status) filters.status = status as LeaveRequest['status'];
+      if (startDate) filters.startDate = startDate as string;
+      if (endDate) filters.endDate = endDate as string;
+
+      const result = await this.leaveService.getRequests(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get my leave requests controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a leave request
+   * GET /api/attendance/leave/requests/:requestId
+   */
+  async getRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Admins can view any request in their company, employees only their own
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.leaveService.getRequest(companyId, requestId, isAdmin ? undefined : userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get leave request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Approve a leave request at the next approval level
+   * POST /api/attendance/leave/requests/:requestId/approve
+   */
+  async approveRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId: approverId, role } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.approveRequest(companyId, requestId, approverId, role, req.body.notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Approve leave request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reject a leave request
+   * POST /api/attendance/leave/requests/:requestId/reject
+   */
+  async rejectRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId: reviewerId } = req.user!;
+      const { reason } = req.body;
+
+      if (!requestId || !companyId || !reason) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.leaveService.rejectRequest(companyId, requestId, reviewerId, reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reject leave request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Cancel a leave request
+   * POST /api/attendance/leave/requests/:requestId/cancel
+   */
+  async cancelRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!requestId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees can cancel their own requests, admins any request in their company
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.leaveService.cancelRequest(companyId, requestId, userId, isAdmin);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Cancel leave request controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the company leave calendar
+   * GET /api/attendance/leave/calendar
+   */
+  async getCalendar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate, includePending } = req.query;
+      const { companyId, role } = req.user!;
+
+      if (!companyId || !startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Pending requests are only shown to admins
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.leaveService.getCalendar(
+        companyId,
+        startDate as string,
+        endDate as string,
+        isAdmin && includePending === 'true'
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get leave calendar controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'INVALID_STATUS' || error === 'DUPLICATE_CODE' || error === 'OVERLAPPING_REQUEST' || error === 'RECORD_LOCKED') return 409;
+    return 400;
+  }
+}
@@ -0,0 +1,226 @@
+import { Response } from 'express';
+import { OfflinePunchService, OfflinePunchFilters, SignedPunch } from '../services/offlinePunch.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+const MAX_PAGE_SIZE = 100;
+
+export class OfflinePunchController {
+  private readonly offlinePunchService = new OfflinePunchService();
+
+  /**
+   * Register the signing key of the employee's device
+   * POST /api/attendance/offline/devices
+   */
+  async registerDeviceKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { deviceId, algorithm, publicKey } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.offlinePunchService.registerDeviceKey(companyId, userId, { deviceId, algorithm, publicKey });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Register device key controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * List device keys: the employee's own, or any employee's for admins
+   * GET /api/attendance/offline/devices
+   */
+  async getDeviceKeys(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId: requestedUserId, includeRevoked } = req.query;
+      const { userId, companyId, role } = req.user!;
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Admins see the whole company unless they ask for one employee
+      const filterUserId = isAdmin ? requestedUserId as string | undefined : userId;
+
+      const result = await this.offlinePunchService.getDeviceKeys(companyId, {
+        ...(filterUserId && { userId: filterUserId }),
+        ...(includeRevoked === 'true' && { includeRevoked: true })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get device keys controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Revoke a device key: the employee's own, or any in the company for admins
+   * DELETE /api/attendance/offline/devices/:deviceKeyId
+   */
+  async revokeDeviceKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { deviceKeyId } = req.params;
+      const { userId, companyId, role } = req.user!;
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      if (!deviceKeyId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = isAdmin
+        ? await this.offlinePunchService.revokeDeviceKey(companyId, deviceKeyId, userId)
+        : await this.offlinePunchService.revokeDeviceKey(companyId, deviceKeyId, userId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Revoke device key controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Sync punches captured while offline, with their photos
+   * POST /api/attendance/offline/sync
+   */
+  async syncPunches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Shape checked by the route schema
+      const punches = JSON.parse(req.body.punches) as SignedPunch[];
+
+      const result = await this.offlinePunchService.syncPunches({
+        companyId,
+        userId,
+        authorization: req.headers.authorization || '',
+        punches,
+        photos: files.map(file => ({ buffer: file.buffer, mimetype: file.mimetype })),
+        ...(req.ip && { ipAddress: req.ip }),
+        ...(req.get('User-Agent') && { userAgent: req.get('User-Agent')! })
+      });
+
+      if (!result.success) {
+        res.status(500).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Sync offline punches controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * List synced offline punches for review
+   * GET /api/attendance/offline/punches
+   */
+  async getPunches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, userId, status, startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: OfflinePunchFilters = {
+        page: Math.max(Number(page), 1),
+        limit: Math.min(Math.max(Number(limit), 1), MAX_PAGE_SIZE),
+        ...(userId && { userId: userId as string }),
+        ...(status && { status: status as NonNullable<OfflinePunchFilters['status']> }),
+        ...(startDate && { startDate: new Date(startDate as string) }),
+        ...(endDate && { endDate: new Date(endDate as string) })
+      };
+
+      const result = await this.offlinePunchService.getPunches(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get offline punches controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'DEVICE_KEY_EXISTS' || error === 'KEY_ALREADY_REVOKED') return 409;
+    return 400;
+  }
+}
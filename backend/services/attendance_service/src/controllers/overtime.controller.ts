@@ -0,0 +1,336 @@
+import { Response } from 'express';
+import { OvertimeService } from '../services/overtime.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class OvertimeController {
+  private readonly overtimeService = new OvertimeService();
+
+  /**
+   * Get overtime rule sets
+   * GET /api/attendance/overtime/rule-sets
+   */
+  async getRuleSets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.getRuleSets(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get overtime rule sets controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an overtime rule set
+   * GET /api/attendance/overtime/rule-sets/:ruleSetId
+   */
+  async getRuleSet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ruleSetId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!ruleSetId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.getRuleSet(companyId, ruleSetId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get overtime rule set controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create an overtime rule set
+   * POST /api/attendance/overtime/rule-sets
+   */
+  async createRuleSet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.createRuleSet(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create overtime rule set controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update an overtime rule set
+   * PUT /api/attendance/overtime/rule-sets/:ruleSetId
+   */
+  async updateRuleSet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ruleSetId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!ruleSetId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.updateRuleSet(companyId, ruleSetId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update overtime rule set controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate an overtime rule set
+   * DELETE /api/attendance/overtime/rule-sets/:ruleSetId
+   */
+  async deleteRuleSet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ruleSetId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!ruleSetId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.deleteRuleSet(companyId, ruleSetId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete overtime rule set controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the overtime result for an attendance record
+   * GET /api/attendance/overtime/records/:attendanceId
+   */
+  async getRecordResult(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.getRecordResult(companyId, attendanceId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get overtime result controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Recalculate overtime for an attendance record
+   * POST /api/attendance/overtime/records/:attendanceId/calculate
+   */
+  async calculateRecord(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.calculateForRecord(companyId, attendanceId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Calculate overtime controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get overtime totals for a pay period
+   * GET /api/attendance/overtime/periods
+   */
+  async getPeriodSummaries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { periodStart, periodEnd, userId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId || !periodStart || !periodEnd) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.getPeriodSummaries(
+        companyId,
+        periodStart as string,
+        periodEnd as string,
+        userId as string | undefined
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get overtime period summaries controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Recalculate overtime for a pay period
+   * POST /api/attendance/overtime/periods/calculate
+   */
+  async calculatePeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { periodStart, periodEnd, userId } = req.body;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.overtimeService.calculatePeriod(companyId, periodStart, periodEnd, userId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Calculate overtime period controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import { Response } from 'express';
+import { PayrollService } from '../services/payroll.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class PayrollController {
+  private readonly payrollService = new PayrollService();
+
+  /**
+   * Get available payroll export formats
+   * GET /api/attendance/payroll/formats
+   */
+  async getFormats(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: this.payrollService.getFormats()
+      });
+    } catch (error) {
+      logger.error('Get payroll formats controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Preview a payroll export without saving it
+   * GET /api/attendance/payroll/preview
+   */
+  async previewExport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId, format } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId || !payPeriodId || !format) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.previewExport(companyId, payPeriodId as string, format as string);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Preview payroll export controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a payroll export from approved timesheets
+   * POST /api/attendance/payroll/exports
+   */
+  async createExport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId, format } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.createExport(companyId, payPeriodId, format, userId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create payroll export controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get payroll export history
+   * GET /api/attendance/payroll/exports
+   */
+  async getExports(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.getExports(companyId, payPeriodId as string | undefined);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get payroll exports controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Download a generated payroll file
+   * GET /api/attendance/payroll/exports/:exportId/download
+   */
+  async downloadExport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { exportId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!exportId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.getExport(companyId, exportId);
+
+      if (!result.success || !result.data) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.setHeader('Content-Type', `${result.data.mimeType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${result.data.fileName}"`);
+      res.send(result.data.content);
+    } catch (error) {
+      logger.error('Download payroll export controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get payroll employee ID mappings
+   * GET /api/attendance/payroll/mappings
+   */
+  async getEmployeeMappings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { format } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.getEmployeeMappings(companyId, format as string | undefined);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get payroll employee mappings controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Set a payroll employee ID mapping
+   * PUT /api/attendance/payroll/mappings
+   */
+  async upsertEmployeeMapping(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.upsertEmployeeMapping(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Upsert payroll employee mapping controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Delete a payroll employee ID mapping
+   * DELETE /api/attendance/payroll/mappings/:mappingId
+   */
+  async deleteEmployeeMapping(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { mappingId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!mappingId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.payrollService.deleteEmployeeMapping(companyId, mappingId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete payroll employee mapping controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
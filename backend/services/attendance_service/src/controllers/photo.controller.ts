@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { PhotoService } from '../services/photo.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class PhotoController {
+  private readonly photoService = new PhotoService();
+
+  /**
+   * Get short-lived URLs for an attendance record's clock-in and clock-out photos
+   * GET /api/attendance/photos/:attendanceId
+   */
+  async getAttendancePhotos(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { attendanceId } = req.params;
+      const { userId, companyId, role } = req.user!;
+
+      if (!attendanceId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees only see their own photos
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const result = await this.photoService.getAttendancePhotos(attendanceId, { userId, companyId, isAdmin });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.json(result);
+    } catch (error) {
+      logger.error('Get attendance photos controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Serve a photo through a signed URL (local storage driver)
+   * GET /api/attendance/photos/file?key=...&expires=...&signature=...
+   */
+  async getSignedPhoto(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, expires, signature } = req.query;
+
+      if (!key || !expires || !signature) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.photoService.getSignedPhoto(key as string, Number(expires), signature as string);
+
+      if (!result.success || !result.data) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      // The frontend loads these in <img> tags from its own origin
+      res.set({
+        'Content-Type': result.data.contentType,
+        'Cache-Control': 'private, no-store',
+        'Cross-Origin-Resource-Policy': 'cross-origin'
+      });
+      res.send(result.data.body);
+    } catch (error) {
+      logger.error('Get signed photo controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'INVALID_SIGNATURE') return 403;
+    return 400;
+  }
+}
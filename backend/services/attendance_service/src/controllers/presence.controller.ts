@@ -0,0 +1,74 @@
+import { Response } from 'express';
+import { PresenceService, PresenceFilters, PresenceState } from '../services/presence.service';
+import { RealtimeService, LiveScope } from '../services/realtime.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class PresenceController {
+  private readonly presenceService = new PresenceService();
+  private readonly realtimeService = new RealtimeService();
+
+  /**
+   * Get where every employee in the company, a department or a team is right now
+   * GET /api/attendance/presence
+   */
+  async getPresence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { department, teamId, geofenceId, state, format } = req.query;
+      const { userId, companyId, role } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Same scopes as the live channel, so the board and its updates always agree
+      const scope: LiveScope = {
+        ...(department && { department: department as string }),
+        ...(teamId && { teamId: teamId as string })
+      };
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const access = await this.realtimeService.resolveScopeRoom({ userId, companyId, isAdmin }, scope);
+      if (!access.success) {
+        res.status(this.getErrorStatus(access.error)).json(access);
+        return;
+      }
+
+      const filters: PresenceFilters = { ...scope };
+      if (geofenceId) filters.geofenceId = geofenceId as string;
+      if (state) filters.state = state as PresenceState;
+
+      const result = await this.presenceService.getPresence(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      if (format === 'compact') {
+        res.json({ success: true, data: this.presenceService.toCompact(result.data!) });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get presence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED' || error === 'ADMIN_ACCESS_REQUIRED') return 403;
+    return 400;
+  }
+}
@@ -0,0 +1,237 @@
+import { Response } from 'express';
+import { RetentionService } from '../services/retention.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class RetentionController {
+  private readonly retentionService = new RetentionService();
+
+  /**
+   * Get the company's biometric retention policy
+   * GET /api/attendance/retention/policy
+   */
+  async getPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.getPolicy(companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get retention policy controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create or update the company's biometric retention policy
+   * PUT /api/attendance/retention/policy
+   */
+  async updatePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { isEnabled, photoRetentionDays, verificationRetentionDays, encodingRetentionDays } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.updatePolicy(companyId, {
+        ...(isEnabled !== undefined && { isEnabled }),
+        ...(photoRetentionDays !== undefined && { photoRetentionDays }),
+        ...(verificationRetentionDays !== undefined && { verificationRetentionDays }),
+        ...(encodingRetentionDays !== undefined && { encodingRetentionDays })
+      }, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update retention policy controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Dry run of the next purge: photos, verification results and face encodings past retention
+   * GET /api/attendance/retention/report
+   */
+  async getReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.getReport(companyId, req.headers.authorization!);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get retention report controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the company's legal holds
+   * GET /api/attendance/retention/legal-holds
+   */
+  async getLegalHolds(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, status } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.getLegalHolds(companyId, {
+        ...(userId && { userId: userId as string }),
+        ...(status && { status: status as 'active' | 'released' | 'all' })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get legal holds controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Place a legal hold on an employee's biometric data
+   * POST /api/attendance/retention/legal-holds
+   */
+  async placeLegalHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, reason } = req.body;
+      const { userId: placedBy, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.placeLegalHold(companyId, userId, reason, placedBy);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Place legal hold controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Release a legal hold
+   * PUT /api/attendance/retention/legal-holds/:holdId/release
+   */
+  async releaseLegalHold(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { holdId } = req.params;
+      const { notes } = req.body;
+      const { userId, companyId } = req.user!;
+
+      if (!holdId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.retentionService.releaseLegalHold(companyId, holdId, userId, notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Release legal hold controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'LEGAL_HOLD_EXISTS' || error === 'LEGAL_HOLD_RELEASED') return 409;
+    return 400;
+  }
+}
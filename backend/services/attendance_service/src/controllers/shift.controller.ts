@@ -0,0 +1,554 @@
+import { Response } from 'express';
+import { ShiftService } from '../services/shift.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class ShiftController {
+  private readonly shiftService = new ShiftService();
+
+  /**
+   * Get shift templates
+   * GET /api/attendance/shifts/templates
+   */
+  async getTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getTemplates(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift templates controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a shift template
+   * GET /api/attendance/shifts/templates/:templateId
+   */
+  async getTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getTemplate(companyId, templateId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a shift template
+   * POST /api/attendance/shifts/templates
+   */
+  async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.createTemplate(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create shift template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a shift template
+   * PUT /api/attendance/shifts/templates/:templateId
+   */
+  async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.updateTemplate(companyId, templateId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update shift template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a shift template
+   * DELETE /api/attendance/shifts/templates/:templateId
+   */
+  async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.deleteTemplate(companyId, templateId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete shift template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get shift rotations
+   * GET /api/attendance/shifts/rotations
+   */
+  async getRotations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getRotations(companyId, includeInactive === 'true');
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift rotations controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a shift rotation
+   * GET /api/attendance/shifts/rotations/:rotationId
+   */
+  async getRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { rotationId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!rotationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getRotation(companyId, rotationId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift rotation controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a shift rotation
+   * POST /api/attendance/shifts/rotations
+   */
+  async createRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.createRotation(companyId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create shift rotation controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a shift rotation
+   * PUT /api/attendance/shifts/rotations/:rotationId
+   */
+  async updateRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { rotationId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!rotationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.updateRotation(companyId, rotationId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update shift rotation controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a shift rotation
+   * DELETE /api/attendance/shifts/rotations/:rotationId
+   */
+  async deleteRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { rotationId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!rotationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.deleteRotation(companyId, rotationId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete shift rotation controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get shift assignments
+   * GET /api/attendance/shifts/assignments
+   */
+  async getAssignments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, activeOn } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getAssignments(companyId, {
+        ...(userId && { userId: userId as string }),
+        ...(activeOn && { activeOn: activeOn as string })
+      });
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift assignments controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Assign a shift template or rotation to an employee
+   * POST /api/attendance/shifts/assignments
+   */
+  async createAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId: createdBy } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.createAssignment(companyId, createdBy, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create shift assignment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a shift assignment
+   * PUT /api/attendance/shifts/assignments/:assignmentId
+   */
+  async updateAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { assignmentId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!assignmentId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.updateAssignment(companyId, assignmentId, req.body);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update shift assignment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Delete a shift assignment
+   * DELETE /api/attendance/shifts/assignments/:assignmentId
+   */
+  async deleteAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { assignmentId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!assignmentId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.deleteAssignment(companyId, assignmentId);
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete shift assignment controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's resolved shift schedule
+   * GET /api/attendance/shifts/schedule/:userId
+   */
+  async getSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.shiftService.getScheduledShifts(
+        userId,
+        companyId,
+        startDate as string,
+        endDate as string
+      );
+
+      if (!result.success) {
+        res.status(result.error === 'NOT_FOUND' ? 404 : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get shift schedule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
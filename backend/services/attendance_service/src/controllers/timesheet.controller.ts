@@ -0,0 +1,422 @@
+import { Response } from 'express';
+import { TimesheetService, TimesheetFilters, Timesheet } from '../services/timesheet.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class TimesheetController {
+  private readonly timesheetService = new TimesheetService();
+
+  /**
+   * Get pay periods
+   * GET /api/attendance/timesheets/periods
+   */
+  async getPayPeriods(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { limit = '12' } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.getPayPeriods(companyId, parseInt(limit as string));
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get pay periods controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current pay period
+   * GET /api/attendance/timesheets/periods/current
+   */
+  async getCurrentPayPeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.ensurePayPeriod(companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get current pay period controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create the pay period containing a date
+   * POST /api/attendance/timesheets/periods
+   */
+  async createPayPeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.ensurePayPeriod(companyId, req.body.date);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create pay period controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Generate draft timesheets for a pay period
+   * POST /api/attendance/timesheets/periods/:payPeriodId/generate
+   */
+  async generateTimesheets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!payPeriodId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.generateTimesheets(companyId, payPeriodId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Generate timesheets controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Submit the current user's timesheet for a pay period
+   * POST /api/attendance/timesheets/periods/:payPeriodId/submit
+   */
+  async submitTimesheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId } = req.params;
+      const { companyId, userId } = req.user!;
+
+      if (!payPeriodId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.submitTimesheet(companyId, userId, payPeriodId, req.body.notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Submit timesheet controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get company timesheets
+   * GET /api/attendance/timesheets
+   */
+  async getTimesheets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { payPeriodId, userId, status } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: TimesheetFilters = {};
+      if (payPeriodId) filters.payPeriodId = payPeriodId as string;
+      if (userId) filters.userId = userId as string;
+      if (status) filters.status = status as Timesheet['status'];
+
+      const result = await this.timesheetService.getTimesheets(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get timesheets controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's timesheets
+   * GET /api/attendance/timesheets/user/:userId
+   */
+  async getUserTimesheets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { payPeriodId } = req.query;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: TimesheetFilters = { userId };
+      if (payPeriodId) filters.payPeriodId = payPeriodId as string;
+
+      const result = await this.timesheetService.getTimesheets(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user timesheets controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a timesheet
+   * GET /api/attendance/timesheets/:timesheetId
+   */
+  async getTimesheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { timesheetId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!timesheetId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Admins can view any timesheet in their company, employees only their own
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.timesheetService.getTimesheet(companyId, timesheetId, isAdmin ? undefined : userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get timesheet controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Approve a submitted timesheet
+   * POST /api/attendance/timesheets/:timesheetId/approve
+   */
+  async approveTimesheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { timesheetId } = req.params;
+      const { companyId, userId: reviewerId } = req.user!;
+
+      if (!timesheetId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.approveTimesheet(companyId, timesheetId, reviewerId, req.body.notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Approve timesheet controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reject a submitted timesheet
+   * POST /api/attendance/timesheets/:timesheetId/reject
+   */
+  async rejectTimesheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { timesheetId } = req.params;
+      const { companyId, userId: reviewerId } = req.user!;
+      const { reason } = req.body;
+
+      if (!timesheetId || !companyId || !reason) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.rejectTimesheet(companyId, timesheetId, reviewerId, reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reject timesheet controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reopen an approved timesheet and unlock its records
+   * POST /api/attendance/timesheets/:timesheetId/reopen
+   */
+  async reopenTimesheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { timesheetId } = req.params;
+      const { companyId, userId: reviewerId } = req.user!;
+      const { reason } = req.body;
+
+      if (!timesheetId || !companyId || !reason) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.timesheetService.reopenTimesheet(companyId, timesheetId, reviewerId, reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reopen timesheet controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'INVALID_STATUS' || error === 'TIMESHEET_CHANGED') return 409;
+    return 400;
+  }
+}
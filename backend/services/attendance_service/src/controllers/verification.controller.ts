@@ -0,0 +1,338 @@
+import { Response } from 'express';
+import { VerificationService } from '../services/verification.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class VerificationController {
+  private readonly verificationService = new VerificationService();
+
+  /**
+   * Compare a photo with the employee's registered face
+   * POST /api/attendance/verification/face
+   */
+  async verifyFace(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const photo = req.file;
+
+      if (!companyId || !photo) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyFace(
+        userId,
+        companyId,
+        `data:${photo.mimetype};base64,${photo.buffer.toString('base64')}`,
+        req.headers.authorization || ''
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify face controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check for recent desktop activity from the employee
+   * POST /api/attendance/verification/activity
+   */
+  async verifyActivity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyActivity(userId, companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify activity controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check a location as a clock-in in the given work mode would be checked
+   * POST /api/attendance/verification/location
+   */
+  async verifyLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { workMode, location } = req.body;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyLocation(userId, companyId, workMode, location);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check a burst of camera frames for a live face
+   * POST /api/attendance/verification/liveness
+   */
+  async verifyLiveness(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const frames = Array.isArray(req.files) ? req.files : [];
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      if (frames.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'At least one frame is required',
+          error: 'MISSING_FILE'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyLiveness(
+        userId,
+        companyId,
+        frames.map(frame => `data:${frame.mimetype};base64,${frame.buffer.toString('base64')}`)
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify liveness controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Face, liveness, location and device checks in one verification
+   * POST /api/attendance/verification/comprehensive
+   */
+  async comprehensiveVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { workMode, location, deviceId, deviceInfo, userAgent } = req.body;
+      const photo = req.file;
+
+      if (!companyId || !photo) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyComprehensive(userId, companyId, {
+        photo: `data:${photo.mimetype};base64,${photo.buffer.toString('base64')}`,
+        authorization: req.headers.authorization || '',
+        workMode,
+        ...(location && { location }),
+        ...((deviceId || deviceInfo || userAgent) && {
+          device: {
+            ...(deviceId && { deviceId }),
+            ...(deviceInfo && { deviceInfo }),
+            ...(userAgent && { userAgent })
+          }
+        })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Comprehensive verification controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check whether the device is one the employee has used before
+   * POST /api/attendance/verification/device
+   */
+  async verifyDevice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { deviceId, deviceInfo, userAgent } = req.body;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyDevice(userId, companyId, {
+        ...(deviceId && { deviceId }),
+        ...(deviceInfo && { deviceInfo }),
+        ...(userAgent && { userAgent })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify device controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Check a location against the company geofences
+   * POST /api/attendance/verification/geofence
+   */
+  async verifyGeofence(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, companyId } = req.user!;
+      const { location, geofenceId } = req.body;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.verificationService.verifyGeofence(userId, companyId, location, geofenceId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Verify geofence controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get a verification and, for comprehensive verifications, its steps
+   * GET /api/attendance/verification/results/:verificationId
+   */
+  async getVerificationResults(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { verificationId } = req.params;
+      const { userId, companyId, role } = req.user!;
+
+      if (!verificationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees only see their own verifications
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const result = await this.verificationService.getVerification(verificationId, { userId, companyId, isAdmin });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get verification results controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    return 400;
+  }
+}
@@ -0,0 +1,311 @@
+import { Response } from 'express';
+import { WorkLocationService, AlternateWorkLocation } from '../services/workLocation.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class WorkLocationController {
+  private readonly workLocationService = new WorkLocationService();
+
+  /**
+   * Get the current user's home location and work mode
+   * GET /api/attendance/work-locations/home
+   */
+  async getMyHomeLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.getHomeLocation(companyId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get home location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get an employee's home location and work mode
+   * GET /api/attendance/work-locations/home/:userId
+   */
+  async getUserHomeLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!userId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.getHomeLocation(companyId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get user home location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Request a temporary alternate work location
+   * POST /api/attendance/work-locations/alternates
+   */
+  async requestAlternateLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.requestAlternateLocation(companyId, userId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Request alternate location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's alternate locations
+   * GET /api/attendance/work-locations/alternates/me
+   */
+  async getMyAlternateLocations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.getAlternateLocations(companyId, {
+        userId,
+        ...(status && { status: status as AlternateWorkLocation['status'] })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get my alternate locations controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get alternate location requests
+   * GET /api/attendance/work-locations/alternates
+   */
+  async getAlternateLocations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, status } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.getAlternateLocations(companyId, {
+        ...(userId && { userId: userId as string }),
+        ...(status && { status: status as AlternateWorkLocation['status'] })
+      });
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get alternate locations controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Approve an alternate location
+   * POST /api/attendance/work-locations/alternates/:locationId/approve
+   */
+  async approveAlternateLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { locationId } = req.params;
+      const { notes } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!locationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.reviewAlternateLocation(companyId, locationId, userId, 'approved', notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Approve alternate location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reject an alternate location
+   * POST /api/attendance/work-locations/alternates/:locationId/reject
+   */
+  async rejectAlternateLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { locationId } = req.params;
+      const { reason } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!locationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workLocationService.reviewAlternateLocation(companyId, locationId, userId, 'rejected', reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reject alternate location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Cancel an alternate location
+   * POST /api/attendance/work-locations/alternates/:locationId/cancel
+   */
+  async cancelAlternateLocation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { locationId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!locationId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees can cancel their own locations, admins any location in their company
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+      const result = await this.workLocationService.cancelAlternateLocation(companyId, locationId, userId, isAdmin);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Cancel alternate location controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'INVALID_STATUS' || error === 'OVERLAPPING_REQUEST') return 409;
+    return 400;
+  }
+}
@@ -0,0 +1,606 @@
+import { Response } from 'express';
+import { WorkModeService, WorkModeScheduleFilters, WorkModeSchedule } from '../services/workMode.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class WorkModeController {
+  private readonly workModeService = new WorkModeService();
+
+  /**
+   * Get the current user's work mode templates
+   * GET /api/attendance/work-modes/templates
+   */
+  async getMyTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.getTemplates(companyId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get work mode templates controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a weekly work mode template
+   * POST /api/attendance/work-modes/templates
+   */
+  async createTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.createTemplate(companyId, userId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create work mode template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a work mode template
+   * PUT /api/attendance/work-modes/templates/:templateId
+   */
+  async updateTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { companyId, userId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.updateTemplate(companyId, templateId, userId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update work mode template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a work mode template
+   * DELETE /api/attendance/work-modes/templates/:templateId
+   */
+  async deleteTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { companyId, userId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.deleteTemplate(companyId, templateId, userId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete work mode template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Plan days from a work mode template
+   * POST /api/attendance/work-modes/templates/:templateId/apply
+   */
+  async applyTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const { startDate, endDate } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!templateId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.applyTemplate(companyId, templateId, userId, startDate, endDate);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Apply work mode template controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Plan work modes for individual days
+   * POST /api/attendance/work-modes/schedules
+   */
+  async planSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.planSchedule(companyId, userId, req.body.days);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Plan work mode schedule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get the current user's planned work modes
+   * GET /api/attendance/work-modes/schedules/me
+   */
+  async getMySchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status, startDate, endDate } = req.query;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: WorkModeScheduleFilters = { userId };
+      if (status) filters.status = status as WorkModeSchedule['status'];
+      if (startDate) filters.startDate = startDate as string;
+      if (endDate) filters.endDate = endDate as string;
+
+      const result = await this.workModeService.getSchedules(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get my work mode schedules controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get planned work modes
+   * GET /api/attendance/work-modes/schedules
+   */
+  async getSchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, status, startDate, endDate } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const filters: WorkModeScheduleFilters = {};
+      if (userId) filters.userId = userId as string;
+      if (status) filters.status = status as WorkModeSchedule['status'];
+      if (startDate) filters.startDate = startDate as string;
+      if (endDate) filters.endDate = endDate as string;
+
+      const result = await this.workModeService.getSchedules(companyId, filters);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get work mode schedules controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Approve pending work mode days
+   * POST /api/attendance/work-modes/schedules/approve
+   */
+  async approveSchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { scheduleIds, notes } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.reviewSchedules(companyId, scheduleIds, userId, 'approved', notes);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Approve work mode schedules controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reject pending work mode days
+   * POST /api/attendance/work-modes/schedules/reject
+   */
+  async rejectSchedules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { scheduleIds, reason } = req.body;
+      const { companyId, userId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.reviewSchedules(companyId, scheduleIds, userId, 'rejected', reason);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Reject work mode schedules controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Cancel a planned work mode day
+   * POST /api/attendance/work-modes/schedules/:scheduleId/cancel
+   */
+  async cancelSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const { companyId, userId, role } = req.user!;
+
+      if (!scheduleId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      // Employees can cancel their own days, admins any day in their company
+      const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+
+      const result = await this.workModeService.cancelSchedule(companyId, scheduleId, userId, isAdmin);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Cancel work mode schedule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get remote capacity rules
+   * GET /api/attendance/work-modes/capacity-rules
+   */
+  async getCapacityRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.getCapacityRules(companyId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get capacity rules controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Create a remote capacity rule
+   * POST /api/attendance/work-modes/capacity-rules
+   */
+  async createCapacityRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.createCapacityRule(companyId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error('Create capacity rule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Update a remote capacity rule
+   * PUT /api/attendance/work-modes/capacity-rules/:ruleId
+   */
+  async updateCapacityRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!ruleId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.updateCapacityRule(companyId, ruleId, req.body);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Update capacity rule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Deactivate a remote capacity rule
+   * DELETE /api/attendance/work-modes/capacity-rules/:ruleId
+   */
+  async deleteCapacityRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const { companyId } = req.user!;
+
+      if (!ruleId || !companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required parameters',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.deleteCapacityRule(companyId, ruleId);
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Delete capacity rule controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Get remote capacity usage per day
+   * GET /api/attendance/work-modes/capacity
+   */
+  async getCapacity(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate, department } = req.query;
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing company ID',
+          error: 'VALIDATION_ERROR'
+        });
+        return;
+      }
+
+      const result = await this.workModeService.getCapacity(
+        companyId,
+        startDate as string,
+        endDate as string,
+        department as string | undefined
+      );
+
+      if (!result.success) {
+        res.status(this.getErrorStatus(result.error)).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get remote capacity controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  private getErrorStatus(error?: string): number {
+    if (error === 'NOT_FOUND') return 404;
+    if (error === 'ACCESS_DENIED') return 403;
+    if (error === 'INVALID_STATUS' || error === 'DUPLICATE_RULE' || error === 'CAPACITY_EXCEEDED') return 409;
+    return 400;
+  }
+}
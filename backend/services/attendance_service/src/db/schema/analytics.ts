@@ -0,0 +1,32 @@
+import { pgTable, uuid, varchar, text, timestamp, integer, date, jsonb } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+
+// Analytics reports (history of generated report files)
+export const analyticsReports = pgTable('analytics_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  reportType: text('report_type', { enum: ['attendance', 'productivity', 'fraud', 'performance'] }).notNull(),
+  format: text('format', { enum: ['json', 'csv'] }).notNull(),
+  startDate: date('start_date', { mode: 'string' }).notNull(),
+  endDate: date('end_date', { mode: 'string' }).notNull(),
+  filters: jsonb('filters').notNull().default('{}'), // department, teamId, userId
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  content: text('content').notNull(), // Generated file, kept for re-download
+  rowCount: integer('row_count').notNull().default(0),
+  generatedBy: uuid('generated_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const analyticsReportsRelations = relations(analyticsReports, ({ one }) => ({
+  company: one(companies, {
+    fields: [analyticsReports.companyId],
+    references: [companies.id],
+  }),
+  generator: one(users, {
+    fields: [analyticsReports.generatedBy],
+    references: [users.id],
+  }),
+}));
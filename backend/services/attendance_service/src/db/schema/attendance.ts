@@ -1,4 +1,4 @@
-import { pgTable, uuid, timestamp, text, json, integer, boolean, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, timestamp, text, json, jsonb, integer, boolean, decimal, varchar } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Attendance Records Table
@@ -37,73 +37,93 @@ export const attendanceRecords = pgTable('attendance_records', {
   deviceInfo: text('device_info'),
   location: json('location'),
   
+  // Location verification (geofences for onsite, home or alternate location for remote)
+  geofenceId: uuid('geofence_id'), // Matched geofence, or the nearest one when out of zone
+  geofenceDistanceMeters: integer('geofence_distance_meters'), // From the circle center (site, home or alternate location), or the polygon edge (0 inside)
+  geofenceZone: text('geofence_zone', { enum: ['inside', 'buffer', 'outside'] }),
+  locationType: text('location_type', { enum: ['site', 'home', 'alternate'] }), // What the location was verified against
+  alternateLocationId: uuid('alternate_location_id'),
+  expectedWorkMode: text('expected_work_mode', { enum: ['onsite', 'remote'] }), // From the approved work mode schedule, or the employee's work mode
+  workModeScheduleId: uuid('work_mode_schedule_id'), // Approved schedule the clock-in was compared against
+  workModeMismatch: boolean('work_mode_mismatch').notNull().default(false),
+  
+  // Shift matching
+  shiftAssignmentId: uuid('shift_assignment_id'),
+  shiftTemplateId: uuid('shift_template_id'),
+  scheduledStart: timestamp('scheduled_start', { withTimezone: true }),
+  scheduledEnd: timestamp('scheduled_end', { withTimezone: true }),
+  lateMinutes: integer('late_minutes').default(0),
+  earlyLeaveMinutes: integer('early_leave_minutes').default(0),
+  
   // Time tracking
   productiveTime: integer('productive_time').default(0), // in minutes
   breakTime: integer('break_time').default(0), // in minutes
+  paidBreakTime: integer('paid_break_time').default(0), // in minutes
+  unpaidBreakTime: integer('unpaid_break_time').default(0), // in minutes
+  workedMinutes: integer('worked_minutes'), // clock-out minus clock-in, less unpaid breaks
   distractionTime: integer('distraction_time').default(0), // in minutes
   
   // Activity proof
   workApplications: json('work_applications'),
   activityProof: json('activity_proof'),
   
-  // Photos
+  // Photos (object storage keys; the URL columns only hold base64 photos not yet moved to storage)
+  photoKey: text('photo_key'),
+  clockOutPhotoKey: text('clock_out_photo_key'),
   photoUrl: text('photo_url'),
   clockOutPhotoUrl: text('clock_out_photo_url'),
+  photosPurgedAt: timestamp('photos_purged_at', { withTimezone: true }), // Removed under the company's retention policy
   
   // Status and approval
-  status: text('status', { enum: ['active', 'completed', 'flagged', 'approved', 'rejected'] }).default('active'),
+  status: text('status', { enum: ['active', 'completed', 'auto_closed', 'flagged', 'approved', 'rejected'] }).default('active'),
   approvedBy: uuid('approved_by'),
   approvedAt: timestamp('approved_at', { withTimezone: true }),
   rejectionReason: text('rejection_reason'),
   
+  // Automatic clock-out of sessions left open
+  autoClosedAt: timestamp('auto_closed_at', { withTimezone: true }),
+  autoCloseReason: text('auto_close_reason'),
+  
+  // Offline punches: the record's times are when the punch was captured, these are when the server got it
+  clockInSource: text('clock_in_source', { enum: ['online', 'offline'] }).notNull().default('online'),
+  clockInReceivedAt: timestamp('clock_in_received_at', { withTimezone: true }),
+  clockOutSource: text('clock_out_source', { enum: ['online', 'offline'] }),
+  clockOutReceivedAt: timestamp('clock_out_received_at', { withTimezone: true }),
+  
+  // Timesheet locking
+  timesheetId: uuid('timesheet_id'), // Approved timesheet that locked this record
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
-// AI Verification Results Table
+// AI Verification Results Table (standalone verification steps, attachable to a clock-in)
 export const aiVerificationResults = pgTable('ai_verification_results', {
   id: uuid('id').primaryKey().defaultRandom(),
-  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  attendanceId: uuid('attendance_id').references(() => attendanceRecords.id, { onDelete: 'cascade' }), // Set once attached to a clock-in
   userId: uuid('user_id').notNull(),
   companyId: uuid('company_id').notNull(),
+  parentId: uuid('parent_id'), // Comprehensive verification this step was part of
   
   // Verification type
-  verificationType: text('verification_type', { enum: ['face', 'liveness', 'activity', 'location'] }).notNull(),
+  verificationType: text('verification_type', {
+    enum: ['face', 'liveness', 'activity', 'location', 'device', 'geofence', 'comprehensive']
+  }).notNull(),
+  aiService: varchar('ai_service', { length: 50 }).notNull(), // arcface, or attendance_service for checks made here
   
   // Results
   success: boolean('success').notNull(),
-  confidence: decimal('confidence', { precision: 5, scale: 2 }),
-  score: decimal('score', { precision: 5, scale: 2 }),
-  
-  // Metadata
-  metadata: json('metadata'),
+  confidenceScore: decimal('confidence_score', { precision: 5, scale: 2 }), // 0-100
+  inputData: jsonb('input_data'), // Input sent to the check, without images
+  outputData: jsonb('output_data'), // Check result
   processingTime: integer('processing_time'), // in milliseconds
+  errorMessage: text('error_message'), // Set when the check could not run
   
-  // Timestamps
-  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-});
-
-// Fraud Detection Results Table
-export const fraudDetectionResults = pgTable('fraud_detection_results', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
-  userId: uuid('user_id').notNull(),
-  companyId: uuid('company_id').notNull(),
-  
-  // Risk assessment
-  riskScore: decimal('risk_score', { precision: 5, scale: 2 }).notNull(),
-  riskLevel: text('risk_level', { enum: ['low', 'medium', 'high', 'critical'] }).notNull(),
-  isFraudulent: boolean('is_fraudulent').notNull().default(false),
-  
-  // Detection results
-  detectionResults: json('detection_results').notNull(),
-  flags: json('flags'),
-  evidence: json('evidence'),
-  
-  // Processing metadata
-  processingTime: integer('processing_time'), // in milliseconds
-  modelVersion: text('model_version'),
+  // Attaching to a clock-in
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
   
   // Timestamps
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -112,7 +132,6 @@ export const fraudDetectionResults = pgTable('fraud_detection_results', {
 // Define relations
 export const attendanceRecordsRelations = relations(attendanceRecords, ({ many }) => ({
   aiVerificationResults: many(aiVerificationResults),
-  fraudDetectionResults: many(fraudDetectionResults),
 }));
 
 export const aiVerificationResultsRelations = relations(aiVerificationResults, ({ one }) => ({
@@ -121,10 +140,3 @@ export const aiVerificationResultsRelations = relations(aiVerificationResults, (
     references: [attendanceRecords.id],
   }),
 }));
-
-export const fraudDetectionResultsRelations = relations(fraudDetectionResults, ({ one }) => ({
-  attendanceRecord: one(attendanceRecords, {
-    fields: [fraudDetectionResults.attendanceId],
-    references: [attendanceRecords.id],
-  }),
-}));
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, unique, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, boolean, timestamp, unique, integer, time, jsonb, decimal } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Companies table (shared across services)
@@ -29,6 +29,7 @@ export const users = pgTable('users', {
   password: varchar('password', { length: 255 }).notNull(),
   firstName: varchar('first_name', { length: 100 }).notNull(),
   lastName: varchar('last_name', { length: 100 }).notNull(),
+  employeeId: varchar('employee_id', { length: 100 }), // Company's internal employee ID
   phone: varchar('phone', { length: 20 }),
   position: varchar('position', { length: 100 }),
   department: varchar('department', { length: 100 }),
@@ -36,6 +37,16 @@ export const users = pgTable('users', {
   salary: integer('salary'),
   profilePhotoUrl: varchar('profile_photo_url', { length: 500 }),
   role: varchar('role', { length: 50 }).notNull().default('user'),
+  
+  // Work mode and home location (managed by the auth service)
+  workMode: varchar('work_mode', { length: 20 }).default('onsite'), // remote, hybrid, onsite
+  hybridRemoteDays: integer('hybrid_remote_days').default(0), // Number of remote days per week
+  preferredRemoteDays: jsonb('preferred_remote_days').default('[]'), // Remote weekdays for hybrid users, Monday=1
+  homeAddress: text('home_address'),
+  homeLatitude: decimal('home_latitude', { precision: 10, scale: 8 }),
+  homeLongitude: decimal('home_longitude', { precision: 11, scale: 8 }),
+  homeGeofenceRadius: integer('home_geofence_radius').default(100), // Radius in meters
+  
   isActive: boolean('is_active').notNull().default(true),
   isVerified: boolean('is_verified').notNull().default(false),
   lastLogin: timestamp('last_login', { withTimezone: true }),
@@ -44,6 +55,48 @@ export const users = pgTable('users', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Company settings (shared across services)
+export const companySettings = pgTable('company_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  workHoursStart: time('work_hours_start').notNull().default('09:00:00'),
+  workHoursEnd: time('work_hours_end').notNull().default('17:00:00'),
+  workDays: jsonb('work_days').notNull().default('[1,2,3,4,5]'), // Monday=1, Sunday=7
+  timezone: varchar('timezone', { length: 50 }).notNull().default('UTC'),
+  allowRemoteWork: boolean('allow_remote_work').notNull().default(false),
+  lateToleranceMinutes: integer('late_tolerance_minutes').notNull().default(15),
+  autoApproveAttendance: boolean('auto_approve_attendance').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  companySettingsUnique: unique('company_settings_company_id_unique').on(table.companyId),
+}));
+
+// Audit logs (shared across services)
+export const auditLogs = pgTable('audit_logs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id'),
+  companyId: uuid('company_id').references(() => companies.id),
+  action: varchar('action', { length: 100 }).notNull(),
+  resourceType: varchar('resource_type', { length: 100 }).notNull(),
+  resourceId: uuid('resource_id'),
+  oldValues: jsonb('old_values'),
+  newValues: jsonb('new_values'),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Face encodings (managed by the auth service; read here for kiosk identification)
+export const faceEncodingHistory = pgTable('face_encoding_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  encodingData: text('encoding_data').notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+});
+
 // Relations
 export const companiesRelations = relations(companies, ({ many }) => ({
   users: many(users),
@@ -0,0 +1,28 @@
+import { pgTable, uuid, text, boolean, timestamp, integer } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { attendanceRecords } from './attendance';
+
+// Attendance breaks (exact break intervals within an attendance record)
+export const attendanceBreaks = pgTable('attendance_breaks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  companyId: uuid('company_id').notNull(),
+  breakType: text('break_type', { enum: ['paid', 'unpaid'] }).notNull(),
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }),
+  durationMinutes: integer('duration_minutes'),
+  exceedsLimit: boolean('exceeds_limit').notNull().default(false), // Break pushed the record over the company maximum
+  autoEnded: boolean('auto_ended').notNull().default(false), // Closed by clock-out rather than the employee
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const attendanceBreaksRelations = relations(attendanceBreaks, ({ one }) => ({
+  attendanceRecord: one(attendanceRecords, {
+    fields: [attendanceBreaks.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+}));
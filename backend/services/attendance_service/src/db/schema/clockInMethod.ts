@@ -0,0 +1,56 @@
+import { pgTable, uuid, varchar, boolean, timestamp, jsonb, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { geofenceSettings } from './geofence';
+
+// Per-site clock-in settings: allowed methods and the secret behind the site's rotating QR code
+export const siteClockInSettings = pgTable('site_clock_in_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  geofenceId: uuid('geofence_id').notNull().unique().references(() => geofenceSettings.id, { onDelete: 'cascade' }),
+  clockInMethods: jsonb('clock_in_methods'), // e.g. ["qr", "nfc"]; null falls back to the company policy
+  qrSecret: varchar('qr_secret', { length: 64 }), // HMAC key for the site's QR codes; created on first display
+  qrRotatedAt: timestamp('qr_rotated_at', { withTimezone: true }),
+  updatedBy: uuid('updated_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// NFC badges registered to employees
+export const nfcBadges = pgTable('nfc_badges', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  badgeUid: varchar('badge_uid', { length: 64 }).notNull(), // Tag UID as upper-case hex without separators
+  label: varchar('label', { length: 255 }), // e.g., "Visitor badge 12"
+  isActive: boolean('is_active').notNull().default(true),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  registeredBy: uuid('registered_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  nfcBadgesCompanyUidUnique: unique('nfc_badges_company_uid_unique').on(table.companyId, table.badgeUid),
+}));
+
+// Relations
+export const siteClockInSettingsRelations = relations(siteClockInSettings, ({ one }) => ({
+  company: one(companies, {
+    fields: [siteClockInSettings.companyId],
+    references: [companies.id],
+  }),
+  geofence: one(geofenceSettings, {
+    fields: [siteClockInSettings.geofenceId],
+    references: [geofenceSettings.id],
+  }),
+}));
+
+export const nfcBadgesRelations = relations(nfcBadges, ({ one }) => ({
+  company: one(companies, {
+    fields: [nfcBadges.companyId],
+    references: [companies.id],
+  }),
+  user: one(users, {
+    fields: [nfcBadges.userId],
+    references: [users.id],
+  }),
+}));
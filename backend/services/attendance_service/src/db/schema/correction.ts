@@ -0,0 +1,61 @@
+import { pgTable, uuid, text, timestamp } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { attendanceRecords } from './attendance';
+
+// Correction requests (missed clock-out or wrong clock-in/out time on an attendance record)
+export const attendanceCorrectionRequests = pgTable('attendance_correction_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  requestedClockInTime: timestamp('requested_clock_in_time', { withTimezone: true }), // NULL = keep the recorded time
+  requestedClockOutTime: timestamp('requested_clock_out_time', { withTimezone: true }),
+  reason: text('reason').notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected', 'cancelled'] }).notNull().default('pending'),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  reviewNotes: text('review_notes'), // Approval notes or rejection reason
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Correction history (original values of every applied correction)
+export const attendanceCorrectionHistory = pgTable('attendance_correction_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  correctionRequestId: uuid('correction_request_id').references(() => attendanceCorrectionRequests.id, { onDelete: 'set null' }),
+  userId: uuid('user_id').notNull(), // Employee the record belongs to
+  originalClockInTime: timestamp('original_clock_in_time', { withTimezone: true }).notNull(),
+  originalClockOutTime: timestamp('original_clock_out_time', { withTimezone: true }),
+  originalStatus: text('original_status'),
+  correctedClockInTime: timestamp('corrected_clock_in_time', { withTimezone: true }).notNull(),
+  correctedClockOutTime: timestamp('corrected_clock_out_time', { withTimezone: true }),
+  reason: text('reason').notNull(),
+  approvedBy: uuid('approved_by').notNull().references(() => users.id),
+  approvedAt: timestamp('approved_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const attendanceCorrectionRequestsRelations = relations(attendanceCorrectionRequests, ({ one }) => ({
+  attendanceRecord: one(attendanceRecords, {
+    fields: [attendanceCorrectionRequests.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+  user: one(users, {
+    fields: [attendanceCorrectionRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+export const attendanceCorrectionHistoryRelations = relations(attendanceCorrectionHistory, ({ one }) => ({
+  attendanceRecord: one(attendanceRecords, {
+    fields: [attendanceCorrectionHistory.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+  correctionRequest: one(attendanceCorrectionRequests, {
+    fields: [attendanceCorrectionHistory.correctionRequestId],
+    references: [attendanceCorrectionRequests.id],
+  }),
+}));
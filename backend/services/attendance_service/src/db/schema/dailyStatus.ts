@@ -0,0 +1,61 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, date, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { shiftTemplates } from './shift';
+import { leaveRequests } from './leave';
+
+// Daily attendance summaries (one status per employee and company-local date, recomputed by the roll-up)
+export const dailyAttendanceSummaries = pgTable('daily_attendance_summaries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  date: date('date', { mode: 'string' }).notNull(), // Company-local date
+  status: text('status', {
+    enum: ['present', 'late', 'early_leave', 'remote', 'absent', 'on_leave', 'holiday', 'off', 'scheduled']
+  }).notNull(), // scheduled = expected to work, but the day is not over yet
+  department: varchar('department', { length: 100 }), // Snapshot of users.department at roll-up time
+  workMode: text('work_mode', { enum: ['onsite', 'remote', 'hybrid'] }), // Of the first clock-in
+
+  // Expected hours (shift, or company work hours on work days)
+  shiftTemplateId: uuid('shift_template_id').references(() => shiftTemplates.id, { onDelete: 'set null' }),
+  expectedStart: timestamp('expected_start', { withTimezone: true }),
+  expectedEnd: timestamp('expected_end', { withTimezone: true }),
+  expectedMinutes: integer('expected_minutes').notNull().default(0),
+
+  // Actual hours
+  firstClockIn: timestamp('first_clock_in', { withTimezone: true }),
+  lastClockOut: timestamp('last_clock_out', { withTimezone: true }),
+  workedMinutes: integer('worked_minutes').notNull().default(0),
+  lateMinutes: integer('late_minutes').notNull().default(0), // Past the expected start, only counted beyond the tolerance
+  earlyLeaveMinutes: integer('early_leave_minutes').notNull().default(0),
+  isLate: boolean('is_late').notNull().default(false),
+  isEarlyLeave: boolean('is_early_leave').notNull().default(false),
+  recordCount: integer('record_count').notNull().default(0),
+
+  // Leave and holidays
+  leaveRequestId: uuid('leave_request_id').references(() => leaveRequests.id, { onDelete: 'set null' }),
+  leaveMinutes: integer('leave_minutes').notNull().default(0),
+  holidayName: varchar('holiday_name', { length: 255 }),
+
+  computedAt: timestamp('computed_at', { withTimezone: true }).notNull().defaultNow(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  dailyAttendanceSummariesUserDateUnique: unique('daily_attendance_summaries_user_id_date_key').on(table.userId, table.date),
+}));
+
+// Relations
+export const dailyAttendanceSummariesRelations = relations(dailyAttendanceSummaries, ({ one }) => ({
+  user: one(users, {
+    fields: [dailyAttendanceSummaries.userId],
+    references: [users.id],
+  }),
+  shiftTemplate: one(shiftTemplates, {
+    fields: [dailyAttendanceSummaries.shiftTemplateId],
+    references: [shiftTemplates.id],
+  }),
+  leaveRequest: one(leaveRequests, {
+    fields: [dailyAttendanceSummaries.leaveRequestId],
+    references: [leaveRequests.id],
+  }),
+}));
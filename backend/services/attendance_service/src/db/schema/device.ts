@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, decimal, jsonb, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, boolean, timestamp, decimal, jsonb, integer, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { users, companies } from './auth';
 
@@ -30,7 +30,9 @@ export const deviceFingerprints = pgTable('device_fingerprints', {
   
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => ({
+  deviceFingerprintsUserHashUnique: unique('device_fingerprints_user_id_fingerprint_hash_key').on(table.userId, table.fingerprintHash),
+}));
 
 // Relations
 export const deviceFingerprintsRelations = relations(deviceFingerprints, ({ one }) => ({
@@ -1,6 +1,7 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, decimal, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, boolean, timestamp, decimal, jsonb, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
-import { attendanceRecords, users } from './attendance';
+import { attendanceRecords } from './attendance';
+import { companies, users } from './auth';
 
 // Fraud detection results
 export const fraudDetectionResults = pgTable('fraud_detection_results', {
@@ -24,15 +25,53 @@ export const fraudDetectionResults = pgTable('fraud_detection_results', {
   riskFactors: jsonb('risk_factors'),
   evidence: jsonb('evidence'),
   
+  // Prevention action taken on the clock-in (from the company's prevention settings)
+  action: text('action', { enum: ['allow', 'flag', 'block'] }).notNull().default('allow'),
+  
   // Review status
   requiresManualReview: boolean('requires_manual_review').default(false),
+  assignedTo: uuid('assigned_to').references(() => users.id),
+  assignedAt: timestamp('assigned_at', { withTimezone: true }),
   reviewedBy: uuid('reviewed_by').references(() => users.id),
   reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  reviewDecision: text('review_decision', { enum: ['legitimate', 'fraudulent'] }),
   reviewNotes: text('review_notes'),
   
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Attendance flags (one per suspicious finding on a clock-in)
+export const attendanceFlags = pgTable('attendance_flags', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  fraudResultId: uuid('fraud_result_id').references(() => fraudDetectionResults.id, { onDelete: 'set null' }),
+  flagType: varchar('flag_type', { length: 100 }).notNull(), // location_anomaly, device_anomaly, time_anomaly, etc.
+  severity: varchar('severity', { length: 20 }).notNull().default('medium'), // low, medium, high, critical
+  description: text('description').notNull(),
+  evidence: jsonb('evidence'),
+  isResolved: boolean('is_resolved').notNull().default(false),
+  resolution: text('resolution', { enum: ['resolved', 'ignored'] }), // resolved = confirmed, ignored = false positive
+  resolvedBy: uuid('resolved_by').references(() => users.id),
+  resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+  resolutionNotes: text('resolution_notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
+// Fraud prevention settings (one row per company; defaults apply without one)
+export const fraudPreventionSettings = pgTable('fraud_prevention_settings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  isEnabled: boolean('is_enabled').notNull().default(true), // Off = record assessments, never flag or block
+  flagRiskLevel: text('flag_risk_level', { enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] }).notNull().default('MEDIUM'),
+  blockRiskLevel: text('block_risk_level', { enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] }), // NULL = never block
+  defaultReviewerId: uuid('default_reviewer_id').references(() => users.id, { onDelete: 'set null' }), // Assigned to new review items
+  updatedBy: uuid('updated_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  fraudPreventionSettingsCompanyUnique: unique('fraud_prevention_settings_company_id_key').on(table.companyId),
+}));
+
 // Relations
 export const fraudDetectionResultsRelations = relations(fraudDetectionResults, ({ one }) => ({
   attendance: one(attendanceRecords, {
@@ -44,3 +83,14 @@ export const fraudDetectionResultsRelations = relations(fraudDetectionResults, (
     references: [users.id],
   }),
 }));
+
+export const attendanceFlagsRelations = relations(attendanceFlags, ({ one }) => ({
+  attendance: one(attendanceRecords, {
+    fields: [attendanceFlags.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+  fraudResult: one(fraudDetectionResults, {
+    fields: [attendanceFlags.fraudResultId],
+    references: [fraudDetectionResults.id],
+  }),
+}));
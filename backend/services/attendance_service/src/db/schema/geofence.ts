@@ -1,16 +1,30 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, decimal, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, boolean, timestamp, decimal, integer, jsonb } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
-import { companies } from './auth';
+import { companies, users } from './auth';
+
+// Site groups (e.g., "All Cairo branches")
+export const geofenceSiteGroups = pgTable('geofence_site_groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
 
 // Geofence settings (Company's attendance locations)
 export const geofenceSettings = pgTable('geofence_settings', {
   id: uuid('id').primaryKey().defaultRandom(),
   companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  siteGroupId: uuid('site_group_id').references(() => geofenceSiteGroups.id, { onDelete: 'set null' }),
   name: varchar('name', { length: 255 }).notNull(), // e.g., "Main Office", "Branch Office"
   description: text('description'),
-  latitude: decimal('latitude', { precision: 10, scale: 8 }).notNull(),
+  shape: text('shape', { enum: ['circle', 'polygon'] }).notNull().default('circle'),
+  latitude: decimal('latitude', { precision: 10, scale: 8 }).notNull(), // Circle center, or the polygon's reference point
   longitude: decimal('longitude', { precision: 11, scale: 8 }).notNull(),
-  radiusMeters: integer('radius_meters').notNull().default(350),
+  radiusMeters: integer('radius_meters').notNull().default(350), // Circles only
+  boundary: jsonb('boundary'), // GeoJSON Polygon or MultiPolygon for polygon geofences
   bufferZoneMeters: integer('buffer_zone_meters').default(50),
   allowedDeviationMeters: integer('allowed_deviation_meters').default(10),
   masterPhotoUrl: varchar('master_photo_url', { length: 500 }), // Reference photo of the location
@@ -19,10 +33,48 @@ export const geofenceSettings = pgTable('geofence_settings', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Geofence assignments (employees restricted to a site or a site group)
+export const geofenceAssignments = pgTable('geofence_assignments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  geofenceId: uuid('geofence_id').references(() => geofenceSettings.id, { onDelete: 'cascade' }), // Exactly one of geofenceId / siteGroupId
+  siteGroupId: uuid('site_group_id').references(() => geofenceSiteGroups.id, { onDelete: 'cascade' }),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Relations
+export const geofenceSiteGroupsRelations = relations(geofenceSiteGroups, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [geofenceSiteGroups.companyId],
+    references: [companies.id],
+  }),
+  geofences: many(geofenceSettings),
+}));
+
 export const geofenceSettingsRelations = relations(geofenceSettings, ({ one }) => ({
   company: one(companies, {
     fields: [geofenceSettings.companyId],
     references: [companies.id],
   }),
+  siteGroup: one(geofenceSiteGroups, {
+    fields: [geofenceSettings.siteGroupId],
+    references: [geofenceSiteGroups.id],
+  }),
+}));
+
+export const geofenceAssignmentsRelations = relations(geofenceAssignments, ({ one }) => ({
+  user: one(users, {
+    fields: [geofenceAssignments.userId],
+    references: [users.id],
+  }),
+  geofence: one(geofenceSettings, {
+    fields: [geofenceAssignments.geofenceId],
+    references: [geofenceSettings.id],
+  }),
+  siteGroup: one(geofenceSiteGroups, {
+    fields: [geofenceAssignments.siteGroupId],
+    references: [geofenceSiteGroups.id],
+  }),
 }));
@@ -0,0 +1,52 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, date, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies } from './auth';
+import { geofenceSettings } from './geofence';
+
+// Holiday calendars (company-wide, or scoped to one location)
+export const holidayCalendars = pgTable('holiday_calendars', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  geofenceId: uuid('geofence_id').references(() => geofenceSettings.id, { onDelete: 'cascade' }), // Null = applies to the whole company
+  name: varchar('name', { length: 255 }).notNull(), // e.g., "US Federal", "Berlin Office"
+  description: text('description'),
+  countryCode: varchar('country_code', { length: 2 }), // ISO 3166-1 alpha-2, informational
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Holidays (one per calendar and local date)
+export const holidays = pgTable('holidays', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  calendarId: uuid('calendar_id').notNull().references(() => holidayCalendars.id, { onDelete: 'cascade' }),
+  date: date('date', { mode: 'string' }).notNull(), // Local date
+  name: varchar('name', { length: 255 }).notNull(),
+  source: text('source', { enum: ['manual', 'preset', 'ical'] }).notNull().default('manual'),
+  externalUid: varchar('external_uid', { length: 255 }), // iCal UID of imported events
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  holidaysCalendarDateUnique: unique('holidays_calendar_date_unique').on(table.calendarId, table.date),
+}));
+
+// Relations
+export const holidayCalendarsRelations = relations(holidayCalendars, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [holidayCalendars.companyId],
+    references: [companies.id],
+  }),
+  geofence: one(geofenceSettings, {
+    fields: [holidayCalendars.geofenceId],
+    references: [geofenceSettings.id],
+  }),
+  holidays: many(holidays),
+}));
+
+export const holidaysRelations = relations(holidays, ({ one }) => ({
+  calendar: one(holidayCalendars, {
+    fields: [holidays.calendarId],
+    references: [holidayCalendars.id],
+  }),
+}));
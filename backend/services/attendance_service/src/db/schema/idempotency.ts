@@ -0,0 +1,21 @@
+import { pgTable, uuid, varchar, text, timestamp, integer, jsonb, unique } from 'drizzle-orm/pg-core';
+import { companies, users } from './auth';
+
+// Idempotency keys for clock-in/clock-out (Idempotency-Key header), holding the first response for replays
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // The caller; keys are scoped per user
+  endpoint: text('endpoint', { enum: ['clock-in', 'clock-out'] }).notNull(),
+  key: varchar('key', { length: 255 }).notNull(),
+  requestHash: varchar('request_hash', { length: 64 }).notNull(), // sha256 of the body and photo; a reused key with another request is rejected
+  status: text('status', { enum: ['processing', 'completed'] }).notNull().default('processing'),
+  responseStatus: integer('response_status'),
+  responseBody: jsonb('response_body'),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }).notNull(), // A processing key past this is taken over (the first request died)
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  idempotencyKeysUserEndpointKeyUnique: unique('idempotency_keys_user_id_endpoint_key_key').on(table.userId, table.endpoint, table.key),
+}));
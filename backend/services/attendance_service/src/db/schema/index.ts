@@ -5,3 +5,23 @@ export * from './activity';
 export * from './device';
 export * from './geofence';
 export * from './auth';
+export * from './shift';
+export * from './policy';
+export * from './break';
+export * from './overtime';
+export * from './timesheet';
+export * from './payroll';
+export * from './leave';
+export * from './holiday';
+export * from './workLocation';
+export * from './workMode';
+export * from './correction';
+export * from './notification';
+export * from './dailyStatus';
+export * from './team';
+export * from './analytics';
+export * from './retention';
+export * from './idempotency';
+export * from './offline';
+export * from './kiosk';
+export * from './clockInMethod';
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, jsonb, decimal } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { geofenceSettings } from './geofence';
+import { attendanceRecords } from './attendance';
+
+// Shared clock-in tablets, each registered to a company site
+export const kioskDevices = pgTable('kiosk_devices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  geofenceId: uuid('geofence_id').notNull().references(() => geofenceSettings.id, { onDelete: 'restrict' }), // Site the kiosk is mounted at
+  name: varchar('name', { length: 255 }).notNull(), // e.g., "Gate 2 tablet"
+  secretHash: varchar('secret_hash', { length: 64 }).notNull(), // SHA-256 of the kiosk secret; the secret is shown once
+  pinFallbackEnabled: boolean('pin_fallback_enabled').notNull().default(true),
+  isActive: boolean('is_active').notNull().default(true),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }),
+  createdBy: uuid('created_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Kiosk PINs, the fallback when the face isn't identified (one per employee)
+export const kioskPins = pgTable('kiosk_pins', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  pinHash: varchar('pin_hash', { length: 255 }).notNull(), // bcrypt
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Everything a kiosk did, including punches that identified nobody
+export const kioskAuditLogs = pgTable('kiosk_audit_logs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  kioskId: uuid('kiosk_id').notNull().references(() => kioskDevices.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }), // Identified employee, if any
+  event: text('event', {
+    enum: [
+      'kiosk_registered', 'kiosk_updated', 'secret_rotated',
+      'clock_in', 'clock_out', 'punch_rejected',
+      'face_not_identified', 'pin_failed', 'pin_locked'
+    ]
+  }).notNull(),
+  method: text('method', { enum: ['face', 'pin'] }),
+  attendanceId: uuid('attendance_id').references(() => attendanceRecords.id, { onDelete: 'set null' }),
+  similarity: decimal('similarity', { precision: 5, scale: 4 }),
+  reason: text('reason'), // Error code for rejections
+  details: jsonb('details'),
+  actorId: uuid('actor_id').references(() => users.id), // Admin, for kiosk management events
+  ipAddress: text('ip_address'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const kioskDevicesRelations = relations(kioskDevices, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [kioskDevices.companyId],
+    references: [companies.id],
+  }),
+  geofence: one(geofenceSettings, {
+    fields: [kioskDevices.geofenceId],
+    references: [geofenceSettings.id],
+  }),
+  auditLogs: many(kioskAuditLogs),
+}));
+
+export const kioskAuditLogsRelations = relations(kioskAuditLogs, ({ one }) => ({
+  kiosk: one(kioskDevices, {
+    fields: [kioskAuditLogs.kioskId],
+    references: [kioskDevices.id],
+  }),
+}));
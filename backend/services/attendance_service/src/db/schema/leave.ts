@@ -0,0 +1,108 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, jsonb, date, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+
+// Leave types (per-company time-off categories and accrual rules)
+export const leaveTypes = pgTable('leave_types', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  code: varchar('code', { length: 20 }).notNull(), // e.g., "PTO", "SICK"
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  color: varchar('color', { length: 7 }), // Hex color for the leave calendar
+  isPaid: boolean('is_paid').notNull().default(true),
+  approvalLevels: integer('approval_levels').notNull().default(1), // 1 = admin, 2 = admin then super admin
+  allowNegativeBalance: boolean('allow_negative_balance').notNull().default(false),
+
+  // Accrual (minutes)
+  accrualMethod: text('accrual_method', { enum: ['none', 'monthly', 'per_hours_worked'] }).notNull().default('none'),
+  accrualMinutes: integer('accrual_minutes').notNull().default(0), // Earned per month, or per block of worked time
+  accrualPerWorkedMinutes: integer('accrual_per_worked_minutes'), // Block size for per_hours_worked, e.g., 1800 for every 30h
+  maxBalanceMinutes: integer('max_balance_minutes'), // Accrual stops at this balance (null = no cap)
+  carryOverCapMinutes: integer('carry_over_cap_minutes'), // Unused balance carried into the next year (null = no cap)
+
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  leaveTypesCompanyCodeUnique: unique('leave_types_company_code_unique').on(table.companyId, table.code),
+}));
+
+// Leave balances (one per employee, leave type and calendar year)
+export const leaveBalances = pgTable('leave_balances', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  leaveTypeId: uuid('leave_type_id').notNull().references(() => leaveTypes.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+
+  // Minutes; available = opening + accrued + adjustment - used
+  openingMinutes: integer('opening_minutes').notNull().default(0), // Carried over from the previous year
+  accruedMinutes: integer('accrued_minutes').notNull().default(0),
+  usedMinutes: integer('used_minutes').notNull().default(0), // Approved requests
+  adjustmentMinutes: integer('adjustment_minutes').notNull().default(0), // Manual admin corrections
+
+  accruedAt: timestamp('accrued_at', { withTimezone: true }).defaultNow().notNull(), // Last accrual recalculation
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  leaveBalancesUserTypeYearUnique: unique('leave_balances_user_type_year_unique').on(table.userId, table.leaveTypeId, table.year),
+}));
+
+// Leave requests
+export const leaveRequests = pgTable('leave_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  leaveTypeId: uuid('leave_type_id').notNull().references(() => leaveTypes.id),
+  startDate: date('start_date', { mode: 'string' }).notNull(), // Local dates, inclusive
+  endDate: date('end_date', { mode: 'string' }).notNull(),
+  halfDay: boolean('half_day').notNull().default(false), // Single-day requests only
+  totalMinutes: integer('total_minutes').notNull(),
+  days: jsonb('days').notNull().default('[]'), // [{ date, minutes }] for each work day covered
+  reason: text('reason'),
+  status: text('status', { enum: ['pending', 'approved', 'rejected', 'cancelled'] }).notNull().default('pending'),
+
+  // Approval chain
+  requiredApprovals: integer('required_approvals').notNull().default(1), // Copied from the leave type
+  approvals: jsonb('approvals').notNull().default('[]'), // [{ level, approvedBy, approvedAt, notes }]
+  rejectedBy: uuid('rejected_by').references(() => users.id),
+  rejectionReason: text('rejection_reason'),
+  decidedAt: timestamp('decided_at', { withTimezone: true }),
+  cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const leaveTypesRelations = relations(leaveTypes, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [leaveTypes.companyId],
+    references: [companies.id],
+  }),
+  balances: many(leaveBalances),
+  requests: many(leaveRequests),
+}));
+
+export const leaveBalancesRelations = relations(leaveBalances, ({ one }) => ({
+  leaveType: one(leaveTypes, {
+    fields: [leaveBalances.leaveTypeId],
+    references: [leaveTypes.id],
+  }),
+  user: one(users, {
+    fields: [leaveBalances.userId],
+    references: [users.id],
+  }),
+}));
+
+export const leaveRequestsRelations = relations(leaveRequests, ({ one }) => ({
+  leaveType: one(leaveTypes, {
+    fields: [leaveRequests.leaveTypeId],
+    references: [leaveTypes.id],
+  }),
+  user: one(users, {
+    fields: [leaveRequests.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,17 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { companies, users } from './auth';
+
+// Notifications table (shared across services)
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').references(() => companies.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 100 }).notNull(), // attendance_flagged, late_clock_in, etc.
+  title: varchar('title', { length: 255 }).notNull(),
+  message: text('message').notNull(),
+  data: jsonb('data'),
+  isRead: boolean('is_read').notNull().default(false),
+  readAt: timestamp('read_at', { withTimezone: true }),
+  priority: varchar('priority', { length: 20 }).notNull().default('normal'), // low, normal, high, urgent
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
@@ -0,0 +1,66 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, jsonb } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { attendanceRecords, aiVerificationResults } from './attendance';
+
+// Device keys for offline punches (public key registered by the app; the private key never leaves the device)
+export const offlineDeviceKeys = pgTable('offline_device_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  deviceId: varchar('device_id', { length: 255 }).notNull(), // App install ID; one active key per user and device
+  algorithm: text('algorithm', { enum: ['ed25519', 'ecdsa-p256'] }).notNull(),
+  publicKey: text('public_key').notNull(), // SPKI PEM
+  lastCounter: integer('last_counter').notNull().default(0), // Highest counter synced
+  lastCapturedAt: timestamp('last_captured_at', { withTimezone: true }), // Capture time of that punch
+  registeredAt: timestamp('registered_at', { withTimezone: true }).defaultNow().notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedBy: uuid('revoked_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Offline punches as received, with what the sync made of them
+export const offlinePunches = pgTable('offline_punches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  deviceKeyId: uuid('device_key_id').notNull().references(() => offlineDeviceKeys.id, { onDelete: 'cascade' }),
+  batchId: uuid('batch_id').notNull(), // Punches synced in the same request
+  punchType: text('punch_type', { enum: ['clock-in', 'clock-out'] }).notNull(),
+  counter: integer('counter').notNull(), // Device's monotonic counter
+  capturedAt: timestamp('captured_at', { withTimezone: true }).notNull(), // Device clock, when the punch was made
+  receivedAt: timestamp('received_at', { withTimezone: true }).notNull(), // Server clock, when the batch arrived
+  workMode: text('work_mode', { enum: ['onsite', 'remote', 'hybrid'] }),
+  location: jsonb('location'), // GPS fix: latitude, longitude, accuracy, fixedAt
+  envelope: text('envelope').notNull(), // Signed payload exactly as received (base64)
+  signature: text('signature').notNull(),
+  signatureValid: boolean('signature_valid').notNull(),
+  photoKey: text('photo_key'),
+  status: text('status', { enum: ['accepted', 'flagged', 'rejected'] }).notNull(),
+  flags: jsonb('flags').notNull().default([]), // LATE_SYNC, OUT_OF_ORDER, COUNTER_GAP, ...
+  rejectionReason: text('rejection_reason'),
+  attendanceId: uuid('attendance_id').references(() => attendanceRecords.id, { onDelete: 'set null' }),
+  faceVerificationId: uuid('face_verification_id').references(() => aiVerificationResults.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const offlineDeviceKeysRelations = relations(offlineDeviceKeys, ({ one, many }) => ({
+  user: one(users, {
+    fields: [offlineDeviceKeys.userId],
+    references: [users.id],
+  }),
+  punches: many(offlinePunches),
+}));
+
+export const offlinePunchesRelations = relations(offlinePunches, ({ one }) => ({
+  deviceKey: one(offlineDeviceKeys, {
+    fields: [offlinePunches.deviceKeyId],
+    references: [offlineDeviceKeys.id],
+  }),
+  attendance: one(attendanceRecords, {
+    fields: [offlinePunches.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+}));
@@ -0,0 +1,114 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, jsonb, date, decimal, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { attendanceRecords } from './attendance';
+
+// Overtime rule sets (per-company jurisdiction rules)
+export const overtimeRuleSets = pgTable('overtime_rule_sets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(), // e.g., "California", "FLSA"
+  description: text('description'),
+  isDefault: boolean('is_default').notNull().default(false), // Rule set applied to the company's records
+
+  // Thresholds (null disables the rule)
+  dailyOvertimeAfterMinutes: integer('daily_overtime_after_minutes'), // e.g., 480 for >8h/day
+  dailyDoubleTimeAfterMinutes: integer('daily_double_time_after_minutes'), // e.g., 720 for >12h/day
+  weeklyOvertimeAfterMinutes: integer('weekly_overtime_after_minutes'), // e.g., 2400 for >40h/week
+  weekStartsOn: integer('week_starts_on').notNull().default(1), // Monday=1, Sunday=7
+
+  // Premium windows
+  nightStart: varchar('night_start', { length: 5 }), // HH:MM in company timezone
+  nightEnd: varchar('night_end', { length: 5 }), // HH:MM, earlier than start when crossing midnight
+  weekendDays: jsonb('weekend_days').notNull().default('[6,7]'), // Monday=1, Sunday=7
+  holidayDates: jsonb('holiday_dates').notNull().default('[]'), // YYYY-MM-DD local dates
+
+  // Pay multipliers
+  overtimeMultiplier: decimal('overtime_multiplier', { precision: 4, scale: 2 }).notNull().default('1.50'),
+  doubleTimeMultiplier: decimal('double_time_multiplier', { precision: 4, scale: 2 }).notNull().default('2.00'),
+  nightMultiplier: decimal('night_multiplier', { precision: 4, scale: 2 }).notNull().default('1.00'),
+  weekendMultiplier: decimal('weekend_multiplier', { precision: 4, scale: 2 }).notNull().default('1.00'),
+  holidayMultiplier: decimal('holiday_multiplier', { precision: 4, scale: 2 }).notNull().default('1.00'),
+
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Overtime results (minute classification per attendance record)
+export const overtimeResults = pgTable('overtime_results', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  attendanceId: uuid('attendance_id').notNull().references(() => attendanceRecords.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  ruleSetId: uuid('rule_set_id').references(() => overtimeRuleSets.id, { onDelete: 'set null' }),
+  workDate: date('work_date', { mode: 'string' }).notNull(), // Local date of clock-in
+
+  // Exclusive buckets (sum to workedMinutes)
+  workedMinutes: integer('worked_minutes').notNull().default(0),
+  regularMinutes: integer('regular_minutes').notNull().default(0),
+  dailyOvertimeMinutes: integer('daily_overtime_minutes').notNull().default(0),
+  dailyDoubleTimeMinutes: integer('daily_double_time_minutes').notNull().default(0),
+  weeklyOvertimeMinutes: integer('weekly_overtime_minutes').notNull().default(0),
+
+  // Premiums (overlap the buckets above)
+  nightMinutes: integer('night_minutes').notNull().default(0),
+  weekendMinutes: integer('weekend_minutes').notNull().default(0),
+  holidayMinutes: integer('holiday_minutes').notNull().default(0),
+
+  calculatedAt: timestamp('calculated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  overtimeResultsAttendanceUnique: unique('overtime_results_attendance_unique').on(table.attendanceId),
+}));
+
+// Overtime period summaries (per employee totals for a pay period)
+export const overtimePeriodSummaries = pgTable('overtime_period_summaries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  periodStart: date('period_start', { mode: 'string' }).notNull(),
+  periodEnd: date('period_end', { mode: 'string' }).notNull(),
+  recordCount: integer('record_count').notNull().default(0),
+  workedMinutes: integer('worked_minutes').notNull().default(0),
+  regularMinutes: integer('regular_minutes').notNull().default(0),
+  dailyOvertimeMinutes: integer('daily_overtime_minutes').notNull().default(0),
+  dailyDoubleTimeMinutes: integer('daily_double_time_minutes').notNull().default(0),
+  weeklyOvertimeMinutes: integer('weekly_overtime_minutes').notNull().default(0),
+  nightMinutes: integer('night_minutes').notNull().default(0),
+  weekendMinutes: integer('weekend_minutes').notNull().default(0),
+  holidayMinutes: integer('holiday_minutes').notNull().default(0),
+  calculatedAt: timestamp('calculated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  overtimePeriodSummariesUnique: unique('overtime_period_summaries_user_period_unique').on(table.userId, table.periodStart, table.periodEnd),
+}));
+
+// Relations
+export const overtimeRuleSetsRelations = relations(overtimeRuleSets, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [overtimeRuleSets.companyId],
+    references: [companies.id],
+  }),
+  results: many(overtimeResults),
+}));
+
+export const overtimeResultsRelations = relations(overtimeResults, ({ one }) => ({
+  attendanceRecord: one(attendanceRecords, {
+    fields: [overtimeResults.attendanceId],
+    references: [attendanceRecords.id],
+  }),
+  ruleSet: one(overtimeRuleSets, {
+    fields: [overtimeResults.ruleSetId],
+    references: [overtimeRuleSets.id],
+  }),
+}));
+
+export const overtimePeriodSummariesRelations = relations(overtimePeriodSummaries, ({ one }) => ({
+  user: one(users, {
+    fields: [overtimePeriodSummaries.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,50 @@
+import { pgTable, uuid, varchar, text, timestamp, integer, jsonb, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+import { payPeriods } from './timesheet';
+
+// Payroll employee mappings (provider-specific employee IDs, overriding users.employee_id)
+export const payrollEmployeeMappings = pgTable('payroll_employee_mappings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  format: varchar('format', { length: 50 }).notNull(), // Payroll format ID, e.g., "adp_fixed_width"
+  externalEmployeeId: varchar('external_employee_id', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  payrollEmployeeMappingsUnique: unique('payroll_employee_mappings_user_format_unique').on(table.userId, table.format),
+}));
+
+// Payroll exports (history of generated payroll files)
+export const payrollExports = pgTable('payroll_exports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  payPeriodId: uuid('pay_period_id').notNull().references(() => payPeriods.id, { onDelete: 'cascade' }),
+  format: varchar('format', { length: 50 }).notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 100 }).notNull(),
+  content: text('content').notNull(), // Generated file, kept for re-download
+  rowCount: integer('row_count').notNull().default(0),
+  employeeCount: integer('employee_count').notNull().default(0),
+  timesheetIds: jsonb('timesheet_ids').notNull().default('[]'),
+  totals: jsonb('totals'), // Summed minutes per bucket
+  warnings: jsonb('warnings').notNull().default('[]'),
+  exportedBy: uuid('exported_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const payrollEmployeeMappingsRelations = relations(payrollEmployeeMappings, ({ one }) => ({
+  user: one(users, {
+    fields: [payrollEmployeeMappings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const payrollExportsRelations = relations(payrollExports, ({ one }) => ({
+  payPeriod: one(payPeriods, {
+    fields: [payrollExports.payPeriodId],
+    references: [payPeriods.id],
+  }),
+}));
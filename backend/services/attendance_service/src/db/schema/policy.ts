@@ -0,0 +1,47 @@
+import { pgTable, uuid, integer, text, varchar, date, timestamp, boolean, jsonb, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies } from './auth';
+
+// Attendance policies (per-company attendance rules)
+export const attendancePolicies = pgTable('attendance_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  
+  // Breaks
+  maxBreakMinutes: integer('max_break_minutes').notNull().default(60), // Total break time allowed per attendance record
+  maxPaidBreakMinutes: integer('max_paid_break_minutes').notNull().default(30), // Paid break time beyond this counts as unpaid
+  
+  // Pay periods
+  payPeriodFrequency: text('pay_period_frequency', { enum: ['weekly', 'biweekly', 'monthly'] }).notNull().default('biweekly'),
+  payPeriodAnchorDate: date('pay_period_anchor_date', { mode: 'string' }).notNull().default('2024-01-01'), // First day of any weekly/biweekly period
+  
+  // Payroll export
+  payrollCompanyCode: varchar('payroll_company_code', { length: 20 }), // Company code expected by the payroll provider
+  
+  // Leave
+  standardWorkdayMinutes: integer('standard_workday_minutes').notNull().default(480), // Leave charged per full work day
+  
+  // Geofencing
+  geofenceEnforcement: text('geofence_enforcement', { enum: ['flag', 'reject'] }).notNull().default('flag'), // Onsite clock-ins outside every geofence
+  
+  // Clock-in verification
+  clockInMethods: jsonb('clock_in_methods').notNull().default(['face']), // Accepted proof of presence: face, qr, nfc; sites can override
+  
+  // Automatic clock-out
+  autoClockOutEnabled: boolean('auto_clock_out_enabled').notNull().default(true),
+  autoClockOutGraceMinutes: integer('auto_clock_out_grace_minutes').notNull().default(120), // Past shift end (or a standard workday without a shift)
+  autoClockOutCorrectionRequest: boolean('auto_clock_out_correction_request').notNull().default(false), // Open a correction request for review
+  
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  attendancePoliciesCompanyUnique: unique('attendance_policies_company_unique').on(table.companyId),
+}));
+
+// Relations
+export const attendancePoliciesRelations = relations(attendancePolicies, ({ one }) => ({
+  company: one(companies, {
+    fields: [attendancePolicies.companyId],
+    references: [companies.id],
+  }),
+}));
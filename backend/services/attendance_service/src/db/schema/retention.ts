@@ -0,0 +1,41 @@
+import { pgTable, uuid, text, boolean, timestamp, integer, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { users, companies } from './auth';
+
+// Biometric retention policy (one per company, shared with the auth service, which purges face encodings)
+export const biometricRetentionPolicies = pgTable('biometric_retention_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  isEnabled: boolean('is_enabled').notNull().default(true), // Off = nothing is purged
+  photoRetentionDays: integer('photo_retention_days').notNull().default(30), // Clock-in/clock-out photos, from clock-in
+  verificationRetentionDays: integer('verification_retention_days').notNull().default(30), // Face, liveness and other verification results
+  encodingRetentionDays: integer('encoding_retention_days').notNull().default(30), // Face encodings, after employment ends or the encoding is replaced
+  updatedBy: uuid('updated_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  biometricRetentionPoliciesCompanyUnique: unique('biometric_retention_policies_company_id_key').on(table.companyId),
+}));
+
+// Legal holds: while one is active nothing of the employee's biometric data is purged
+export const biometricLegalHolds = pgTable('biometric_legal_holds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason').notNull(),
+  placedBy: uuid('placed_by').notNull().references(() => users.id),
+  placedAt: timestamp('placed_at', { withTimezone: true }).defaultNow().notNull(),
+  releasedBy: uuid('released_by').references(() => users.id),
+  releasedAt: timestamp('released_at', { withTimezone: true }),
+  releaseNotes: text('release_notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const biometricLegalHoldsRelations = relations(biometricLegalHolds, ({ one }) => ({
+  user: one(users, {
+    fields: [biometricLegalHolds.userId],
+    references: [users.id],
+  }),
+}));
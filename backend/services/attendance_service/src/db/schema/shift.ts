@@ -0,0 +1,78 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, jsonb, date } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies } from './auth';
+
+// Shift templates (reusable working-hour definitions)
+export const shiftTemplates = pgTable('shift_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(), // e.g., "Morning", "Night"
+  description: text('description'),
+  startTime: varchar('start_time', { length: 5 }).notNull(), // HH:MM in company timezone
+  endTime: varchar('end_time', { length: 5 }).notNull(), // HH:MM, earlier than start for overnight shifts
+  isOvernight: boolean('is_overnight').notNull().default(false),
+  breakMinutes: integer('break_minutes').notNull().default(60),
+  graceInMinutes: integer('grace_in_minutes').notNull().default(15), // Late clock-in tolerance
+  graceOutMinutes: integer('grace_out_minutes').notNull().default(15), // Early clock-out tolerance
+  earlyClockInMinutes: integer('early_clock_in_minutes').notNull().default(60), // How early a clock-in still matches
+  workDays: jsonb('work_days').notNull().default('[1,2,3,4,5]'), // Monday=1, Sunday=7
+  color: varchar('color', { length: 7 }),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Shift rotations (repeating cycles of templates and days off)
+export const shiftRotations = pgTable('shift_rotations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  pattern: jsonb('pattern').notNull(), // One entry per cycle day: template ID or null for a day off
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Shift assignments (which template or rotation an employee works)
+export const shiftAssignments = pgTable('shift_assignments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull(),
+  shiftTemplateId: uuid('shift_template_id').references(() => shiftTemplates.id, { onDelete: 'cascade' }),
+  rotationId: uuid('rotation_id').references(() => shiftRotations.id, { onDelete: 'cascade' }),
+  effectiveFrom: date('effective_from', { mode: 'string' }).notNull(), // Also day 0 of a rotation cycle
+  effectiveTo: date('effective_to', { mode: 'string' }),
+  notes: text('notes'),
+  createdBy: uuid('created_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const shiftTemplatesRelations = relations(shiftTemplates, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [shiftTemplates.companyId],
+    references: [companies.id],
+  }),
+  assignments: many(shiftAssignments),
+}));
+
+export const shiftRotationsRelations = relations(shiftRotations, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [shiftRotations.companyId],
+    references: [companies.id],
+  }),
+  assignments: many(shiftAssignments),
+}));
+
+export const shiftAssignmentsRelations = relations(shiftAssignments, ({ one }) => ({
+  template: one(shiftTemplates, {
+    fields: [shiftAssignments.shiftTemplateId],
+    references: [shiftTemplates.id],
+  }),
+  rotation: one(shiftRotations, {
+    fields: [shiftAssignments.rotationId],
+    references: [shiftRotations.id],
+  }),
+}));
@@ -0,0 +1,30 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, unique } from 'drizzle-orm/pg-core';
+import { companies, users } from './auth';
+
+// Teams (shared across services, managed by the user service)
+export const teams = pgTable('teams', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  managerId: uuid('manager_id').references(() => users.id),
+  color: varchar('color', { length: 7 }).default('#3B82F6'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  companyTeamUnique: unique('company_team_unique').on(table.companyId, table.name),
+}));
+
+// User-Team relationships (shared across services)
+export const userTeams = pgTable('user_teams', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  teamId: uuid('team_id').notNull().references(() => teams.id, { onDelete: 'cascade' }),
+  roleInTeam: varchar('role_in_team', { length: 50 }).notNull().default('member'), // member, lead, manager
+  joinedAt: timestamp('joined_at', { withTimezone: true }).defaultNow().notNull(),
+  leftAt: timestamp('left_at', { withTimezone: true }),
+  isActive: boolean('is_active').notNull().default(true),
+}, (table) => ({
+  userTeamUnique: unique('user_team_unique').on(table.userId, table.teamId),
+}));
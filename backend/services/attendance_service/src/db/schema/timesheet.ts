@@ -0,0 +1,75 @@
+import { pgTable, uuid, text, timestamp, integer, jsonb, date, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+
+// Pay periods (generated per company from the attendance policy frequency)
+export const payPeriods = pgTable('pay_periods', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  frequency: text('frequency', { enum: ['weekly', 'biweekly', 'monthly'] }).notNull(),
+  startDate: date('start_date', { mode: 'string' }).notNull(), // Local dates, inclusive
+  endDate: date('end_date', { mode: 'string' }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  payPeriodsCompanyStartUnique: unique('pay_periods_company_start_unique').on(table.companyId, table.startDate),
+}));
+
+// Timesheets (one per employee per pay period)
+export const timesheets = pgTable('timesheets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  payPeriodId: uuid('pay_period_id').notNull().references(() => payPeriods.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['draft', 'submitted', 'approved', 'rejected'] }).notNull().default('draft'),
+
+  // Totals (minutes)
+  recordCount: integer('record_count').notNull().default(0),
+  workedMinutes: integer('worked_minutes').notNull().default(0),
+  breakMinutes: integer('break_minutes').notNull().default(0),
+  regularMinutes: integer('regular_minutes').notNull().default(0),
+  overtimeMinutes: integer('overtime_minutes').notNull().default(0), // Daily and weekly overtime
+  doubleTimeMinutes: integer('double_time_minutes').notNull().default(0),
+  nightMinutes: integer('night_minutes').notNull().default(0),
+  weekendMinutes: integer('weekend_minutes').notNull().default(0),
+  holidayMinutes: integer('holiday_minutes').notNull().default(0),
+  lateMinutes: integer('late_minutes').notNull().default(0),
+  earlyLeaveMinutes: integer('early_leave_minutes').notNull().default(0),
+  leaveMinutes: integer('leave_minutes').notNull().default(0), // Approved leave, paid and unpaid
+  paidLeaveMinutes: integer('paid_leave_minutes').notNull().default(0),
+  attendanceIds: jsonb('attendance_ids').notNull().default('[]'), // Records included in the totals
+
+  // Workflow
+  submittedAt: timestamp('submitted_at', { withTimezone: true }),
+  employeeNotes: text('employee_notes'),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  reviewNotes: text('review_notes'),
+  lockedAt: timestamp('locked_at', { withTimezone: true }), // Set on approval
+
+  calculatedAt: timestamp('calculated_at', { withTimezone: true }).defaultNow().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  timesheetsUserPeriodUnique: unique('timesheets_user_period_unique').on(table.userId, table.payPeriodId),
+}));
+
+// Relations
+export const payPeriodsRelations = relations(payPeriods, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [payPeriods.companyId],
+    references: [companies.id],
+  }),
+  timesheets: many(timesheets),
+}));
+
+export const timesheetsRelations = relations(timesheets, ({ one }) => ({
+  payPeriod: one(payPeriods, {
+    fields: [timesheets.payPeriodId],
+    references: [payPeriods.id],
+  }),
+  user: one(users, {
+    fields: [timesheets.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,36 @@
+import { pgTable, uuid, varchar, text, timestamp, decimal, integer, date } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+
+// Temporary alternate work locations for remote work (e.g., working from a relative's home for a week)
+export const alternateWorkLocations = pgTable('alternate_work_locations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  address: text('address'),
+  latitude: decimal('latitude', { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal('longitude', { precision: 11, scale: 8 }).notNull(),
+  radiusMeters: integer('radius_meters').notNull().default(100),
+  startDate: date('start_date', { mode: 'string' }).notNull(), // Local dates, inclusive
+  endDate: date('end_date', { mode: 'string' }).notNull(),
+  reason: text('reason').notNull(),
+  status: text('status', { enum: ['pending', 'approved', 'rejected', 'cancelled'] }).notNull().default('pending'),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  reviewNotes: text('review_notes'), // Approval notes or rejection reason
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const alternateWorkLocationsRelations = relations(alternateWorkLocations, ({ one }) => ({
+  company: one(companies, {
+    fields: [alternateWorkLocations.companyId],
+    references: [companies.id],
+  }),
+  user: one(users, {
+    fields: [alternateWorkLocations.userId],
+    references: [users.id],
+  }),
+}));
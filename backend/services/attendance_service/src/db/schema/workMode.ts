@@ -0,0 +1,77 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp, integer, date, jsonb, unique } from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { companies, users } from './auth';
+
+// Work mode templates (recurring weekly patterns, e.g. {"monday": "onsite", "tuesday": "remote"})
+export const workModeTemplates = pgTable('work_mode_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  templateName: varchar('template_name', { length: 255 }).notNull(),
+  isActive: boolean('is_active').default(true),
+  schedulePattern: jsonb('schedule_pattern').notNull(), // Weekday name -> onsite | remote; missing days are not planned
+  startDate: date('start_date', { mode: 'string' }).notNull(),
+  endDate: date('end_date', { mode: 'string' }), // NULL = open-ended
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+// Work mode schedules (one planned work mode per employee and local date)
+export const workModeSchedules = pgTable('work_mode_schedules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  scheduleDate: date('schedule_date', { mode: 'string' }).notNull(),
+  workMode: varchar('work_mode', { length: 20 }).notNull(), // onsite, remote
+  locationType: varchar('location_type', { length: 50 }), // office, home, client_site, travel
+  expectedLocation: jsonb('expected_location'),
+  status: text('status', { enum: ['pending', 'approved', 'rejected', 'cancelled'] }).notNull().default('pending'),
+  isApproved: boolean('is_approved').default(false), // Kept in sync with status
+  approvedBy: uuid('approved_by').references(() => users.id), // Reviewer, for approvals and rejections
+  approvedAt: timestamp('approved_at', { withTimezone: true }),
+  templateId: uuid('template_id').references(() => workModeTemplates.id, { onDelete: 'set null' }),
+  notes: text('notes'),
+  reviewNotes: text('review_notes'), // Approval notes or rejection reason
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  workModeSchedulesUserDateUnique: unique('work_mode_schedules_user_id_schedule_date_key').on(table.userId, table.scheduleDate),
+}));
+
+// Remote capacity rules (e.g. at most 60% of a department remote on any day)
+export const workModeCapacityRules = pgTable('work_mode_capacity_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  department: varchar('department', { length: 100 }), // Matches users.department; NULL = whole company
+  maxRemotePercent: integer('max_remote_percent').notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Relations
+export const workModeTemplatesRelations = relations(workModeTemplates, ({ one, many }) => ({
+  user: one(users, {
+    fields: [workModeTemplates.userId],
+    references: [users.id],
+  }),
+  schedules: many(workModeSchedules),
+}));
+
+export const workModeSchedulesRelations = relations(workModeSchedules, ({ one }) => ({
+  user: one(users, {
+    fields: [workModeSchedules.userId],
+    references: [users.id],
+  }),
+  template: one(workModeTemplates, {
+    fields: [workModeSchedules.templateId],
+    references: [workModeTemplates.id],
+  }),
+}));
+
+export const workModeCapacityRulesRelations = relations(workModeCapacityRules, ({ one }) => ({
+  company: one(companies, {
+    fields: [workModeCapacityRules.companyId],
+    references: [companies.id],
+  }),
+}));
@@ -10,9 +10,37 @@ import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import { handleUploadError } from './middleware/upload.middleware';
 import { testConnection, closeConnection } from './config/database';
+import { startAutoClockOutJob } from './jobs/autoClockOut.job';
+import { startDailyStatusJob } from './jobs/dailyStatus.job';
+import { startPhotoMigrationJob } from './jobs/photoMigration.job';
+import { startBiometricPurgeJob } from './jobs/biometricPurge.job';
+import { startIdempotencyCleanupJob } from './jobs/idempotencyCleanup.job';
+import { startRealtimeServer } from './config/realtime';
 
 // Import routes
 import attendanceRoutes from './routes/attendance.routes';
+import shiftRoutes from './routes/shift.routes';
+import policyRoutes from './routes/policy.routes';
+import breakRoutes from './routes/break.routes';
+import overtimeRoutes from './routes/overtime.routes';
+import timesheetRoutes from './routes/timesheet.routes';
+import payrollRoutes from './routes/payroll.routes';
+import leaveRoutes from './routes/leave.routes';
+import holidayRoutes from './routes/holiday.routes';
+import geofenceRoutes from './routes/geofence.routes';
+import workLocationRoutes from './routes/workLocation.routes';
+import workModeRoutes from './routes/workMode.routes';
+import correctionRoutes from './routes/correction.routes';
+import analyticsRoutes from './routes/analytics.routes';
+import fraudRoutes from './routes/fraud.routes';
+import verificationRoutes from './routes/verification.routes';
+import photoRoutes from './routes/photo.routes';
+import retentionRoutes from './routes/retention.routes';
+import offlinePunchRoutes from './routes/offlinePunch.routes';
+import kioskRoutes from './routes/kiosk.routes';
+import kioskPunchRoutes from './routes/kioskPunch.routes';
+import clockInMethodRoutes from './routes/clockInMethod.routes';
+import presenceRoutes from './routes/presence.routes';
 
 // Load environment variables
 config();
@@ -35,7 +63,8 @@ app.use(cors({
   origin: env.FRONTEND_URL,
   credentials: true,
   methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'],
-  allowedHeaders: ['Origin', 'X-Requested-With', 'Content-Type', 'Accept', 'Authorization'],
+  allowedHeaders: ['Origin', 'X-Requested-With', 'Content-Type', 'Accept', 'Authorization', 'Idempotency-Key', 'X-Kiosk-Key'],
+  exposedHeaders: ['Idempotent-Replayed', 'Retry-After'],
 }));
 
 // Rate limiting
@@ -48,6 +77,8 @@ const limiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  // A kiosk punches for a whole site from one IP; it is authenticated by its key, and PINs lock on their own
+  skip: (req) => req.path.startsWith('/api/attendance/kiosk/'),
 });
 
 app.use(limiter);
@@ -92,6 +123,28 @@ app.get('/health', async (_req, res) => {
 });
 
 // API routes
+app.use('/api/attendance/shifts', shiftRoutes);
+app.use('/api/attendance/policy', policyRoutes);
+app.use('/api/attendance/overtime', overtimeRoutes);
+app.use('/api/attendance/timesheets', timesheetRoutes);
+app.use('/api/attendance/payroll', payrollRoutes);
+app.use('/api/attendance/leave', leaveRoutes);
+app.use('/api/attendance/holidays', holidayRoutes);
+app.use('/api/attendance/geofences', geofenceRoutes);
+app.use('/api/attendance/work-locations', workLocationRoutes);
+app.use('/api/attendance/work-modes', workModeRoutes);
+app.use('/api/attendance/corrections', correctionRoutes);
+app.use('/api/attendance/analytics', analyticsRoutes);
+app.use('/api/attendance/fraud', fraudRoutes);
+app.use('/api/attendance/verification', verificationRoutes);
+app.use('/api/attendance/photos', photoRoutes);
+app.use('/api/attendance/retention', retentionRoutes);
+app.use('/api/attendance/offline', offlinePunchRoutes);
+app.use('/api/attendance/kiosks', kioskRoutes);
+app.use('/api/attendance/kiosk', kioskPunchRoutes);
+app.use('/api/attendance/clock-in-methods', clockInMethodRoutes);
+app.use('/api/attendance/presence', presenceRoutes);
+app.use('/api/attendance/:attendanceId/breaks', breakRoutes);
 app.use('/api/attendance', attendanceRoutes);
 
 // Error handling middleware
@@ -116,9 +169,22 @@ async function startServer() {
       logger.info(`🔒 Fraud Detection: ${env.FRAUD_DETECTION_ENABLED ? 'Enabled' : 'Disabled'}`);
     });
 
+    const autoClockOutJob = startAutoClockOutJob();
+    const dailyStatusJob = startDailyStatusJob();
+    const photoMigrationJob = startPhotoMigrationJob();
+    const biometricPurgeJob = startBiometricPurgeJob();
+    const idempotencyCleanupJob = startIdempotencyCleanupJob();
+    const realtimeServer = await startRealtimeServer(server);
+
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       logger.info(`${signal} received, shutting down gracefully`);
+      autoClockOutJob?.stop();
+      dailyStatusJob?.stop();
+      photoMigrationJob?.stop();
+      biometricPurgeJob?.stop();
+      idempotencyCleanupJob?.stop();
+      await realtimeServer?.stop();
       
       server.close(async () => {
         logger.info('HTTP server closed');
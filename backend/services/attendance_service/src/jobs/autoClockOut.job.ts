@@ -0,0 +1,48 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { AutoClockOutService } from '../services/autoClockOut.service';
+
+const autoClockOutService = new AutoClockOutService();
+let running = false;
+
+/**
+ * Schedule the auto clock-out run. Every instance may schedule it; records are claimed one by one.
+ */
+export function startAutoClockOutJob(): ScheduledTask | null {
+  if (!env.ENABLE_AUTO_CLOCK_OUT) {
+    logger.info('Auto clock-out job disabled', { service: 'attendance-service' });
+    return null;
+  }
+
+  if (!cron.validate(env.AUTO_CLOCK_OUT_CRON)) {
+    logger.error('Invalid AUTO_CLOCK_OUT_CRON expression, auto clock-out job not started', {
+      service: 'attendance-service',
+      cron: env.AUTO_CLOCK_OUT_CRON
+    });
+    return null;
+  }
+
+  const task = cron.schedule(env.AUTO_CLOCK_OUT_CRON, async () => {
+    // Skip a tick while the previous run on this instance is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await autoClockOutService.run();
+    } catch (error) {
+      logger.error('Auto clock-out job failed:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Auto clock-out job scheduled', {
+    service: 'attendance-service',
+    cron: env.AUTO_CLOCK_OUT_CRON
+  });
+
+  return task;
+}
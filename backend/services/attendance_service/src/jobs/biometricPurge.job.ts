@@ -0,0 +1,50 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { RetentionService } from '../services/retention.service';
+
+const retentionService = new RetentionService();
+let running = false;
+
+/**
+ * Schedule the purge of attendance photos and verification results past each company's retention policy.
+ * Face encodings are purged by the auth service on its own schedule.
+ */
+export function startBiometricPurgeJob(): ScheduledTask | null {
+  if (!env.ENABLE_BIOMETRIC_PURGE) {
+    logger.info('Biometric purge job disabled', { service: 'attendance-service' });
+    return null;
+  }
+
+  if (!cron.validate(env.BIOMETRIC_PURGE_CRON)) {
+    logger.error('Invalid BIOMETRIC_PURGE_CRON expression, biometric purge job not started', {
+      service: 'attendance-service',
+      cron: env.BIOMETRIC_PURGE_CRON
+    });
+    return null;
+  }
+
+  const task = cron.schedule(env.BIOMETRIC_PURGE_CRON, async () => {
+    // Skip a tick while the previous run on this instance is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await retentionService.runPurge(env.BIOMETRIC_PURGE_DRY_RUN);
+    } catch (error) {
+      logger.error('Biometric purge job failed:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Biometric purge job scheduled', {
+    service: 'attendance-service',
+    cron: env.BIOMETRIC_PURGE_CRON,
+    dryRun: env.BIOMETRIC_PURGE_DRY_RUN
+  });
+
+  return task;
+}
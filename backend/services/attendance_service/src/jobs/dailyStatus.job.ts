@@ -0,0 +1,48 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { DailyStatusService } from '../services/dailyStatus.service';
+
+const dailyStatusService = new DailyStatusService();
+let running = false;
+
+/**
+ * Schedule the daily status roll-up of yesterday and today. Summaries are upserted, so overlapping runs are harmless.
+ */
+export function startDailyStatusJob(): ScheduledTask | null {
+  if (!env.ENABLE_DAILY_STATUS_ROLLUP) {
+    logger.info('Daily status job disabled', { service: 'attendance-service' });
+    return null;
+  }
+
+  if (!cron.validate(env.DAILY_STATUS_CRON)) {
+    logger.error('Invalid DAILY_STATUS_CRON expression, daily status job not started', {
+      service: 'attendance-service',
+      cron: env.DAILY_STATUS_CRON
+    });
+    return null;
+  }
+
+  const task = cron.schedule(env.DAILY_STATUS_CRON, async () => {
+    // Skip a tick while the previous run on this instance is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await dailyStatusService.runScheduled();
+    } catch (error) {
+      logger.error('Daily status job failed:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Daily status job scheduled', {
+    service: 'attendance-service',
+    cron: env.DAILY_STATUS_CRON
+  });
+
+  return task;
+}
@@ -0,0 +1,44 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { IdempotencyService } from '../services/idempotency.service';
+
+const idempotencyService = new IdempotencyService();
+let running = false;
+
+/**
+ * Schedule removing clock-in/clock-out idempotency keys past IDEMPOTENCY_KEY_TTL_HOURS.
+ * Expired keys are already ignored on reuse, this only keeps the table small.
+ */
+export function startIdempotencyCleanupJob(): ScheduledTask | null {
+  if (!cron.validate(env.IDEMPOTENCY_CLEANUP_CRON)) {
+    logger.error('Invalid IDEMPOTENCY_CLEANUP_CRON expression, idempotency cleanup job not started', {
+      service: 'attendance-service',
+      cron: env.IDEMPOTENCY_CLEANUP_CRON
+    });
+    return null;
+  }
+
+  const task = cron.schedule(env.IDEMPOTENCY_CLEANUP_CRON, async () => {
+    // Skip a tick while the previous run on this instance is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await idempotencyService.deleteExpired();
+    } catch (error) {
+      logger.error('Idempotency cleanup job failed:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Idempotency cleanup job scheduled', {
+    service: 'attendance-service',
+    cron: env.IDEMPOTENCY_CLEANUP_CRON
+  });
+
+  return task;
+}
@@ -0,0 +1,51 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { PhotoService } from '../services/photo.service';
+
+const BATCH_SIZE = 100;
+
+const photoService = new PhotoService();
+let running = false;
+
+/**
+ * Schedule moving base64 photos saved before object storage out of attendance_records.
+ * Each run moves one batch and does nothing once none are left.
+ */
+export function startPhotoMigrationJob(): ScheduledTask | null {
+  if (!env.ENABLE_PHOTO_MIGRATION) {
+    logger.info('Photo migration job disabled', { service: 'attendance-service' });
+    return null;
+  }
+
+  if (!cron.validate(env.PHOTO_MIGRATION_CRON)) {
+    logger.error('Invalid PHOTO_MIGRATION_CRON expression, photo migration job not started', {
+      service: 'attendance-service',
+      cron: env.PHOTO_MIGRATION_CRON
+    });
+    return null;
+  }
+
+  const task = cron.schedule(env.PHOTO_MIGRATION_CRON, async () => {
+    // Skip a tick while the previous run on this instance is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await photoService.migrateLegacyPhotos(BATCH_SIZE);
+    } catch (error) {
+      logger.error('Photo migration job failed:', error);
+    } finally {
+      running = false;
+    }
+  });
+
+  logger.info('Photo migration job scheduled', {
+    service: 'attendance-service',
+    cron: env.PHOTO_MIGRATION_CRON
+  });
+
+  return task;
+}
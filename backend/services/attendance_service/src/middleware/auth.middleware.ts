@@ -10,6 +10,26 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+export type AuthenticatedUser = NonNullable<AuthenticatedRequest['user']>;
+
+/**
+ * Verify an access token and return its user and expiry. Throws if the token is invalid or expired.
+ * Shared by the REST API and the real-time channel so both accept exactly the same tokens.
+ */
+export function verifyAccessToken(token: string): { user: AuthenticatedUser; expiresAt: Date | null } {
+  const jwtSecret = process.env['JWT_SECRET'] || 'your-super-secret-jwt-key-at-least-32-characters-long';
+  const decoded = jwt.verify(token, jwtSecret) as any;
+
+  return {
+    user: {
+      userId: decoded.userId,
+      role: decoded.role,
+      companyId: decoded.companyId
+    },
+    expiresAt: typeof decoded.exp === 'number' ? new Date(decoded.exp * 1000) : null
+  };
+}
+
 export function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -24,14 +44,7 @@ export function authenticateToken(req: AuthenticatedRequest, res: Response, next
   }
 
   try {
-    const jwtSecret = process.env['JWT_SECRET'] || 'your-super-secret-jwt-key-at-least-32-characters-long';
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    req.user = {
-      userId: decoded.userId,
-      role: decoded.role,
-      companyId: decoded.companyId
-    };
+    req.user = verifyAccessToken(token).user;
 
     next();
   } catch (error) {
@@ -82,6 +95,36 @@ export function requireUserAccess(req: AuthenticatedRequest, res: Response, next
   return;
 }
 
+// Punches name the employee in the body: it must be the caller, or an admin of the same company
+export function requirePunchAccess(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  const { userId, companyId } = req.body;
+  const { userId: tokenUserId, role, companyId: tokenCompanyId } = req.user!;
+
+  const isAdmin = role === 'company_admin' || role === 'company_super_admin' || role === 'platform_admin';
+  const sameCompany = companyId === tokenCompanyId || role === 'platform_admin';
+
+  if (sameCompany && (userId === tokenUserId || isAdmin)) {
+    next();
+    return;
+  }
+
+  logger.warn('Access denied for punch', {
+    service: 'attendance-service',
+    requestedUserId: userId,
+    requestedCompanyId: companyId,
+    tokenUserId,
+    role,
+    companyId: tokenCompanyId
+  });
+
+  res.status(403).json({
+    success: false,
+    message: 'Access denied',
+    error: 'ACCESS_DENIED'
+  });
+  return;
+}
+
 export function requireAdminAccess(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
   const { role } = req.user!;
 
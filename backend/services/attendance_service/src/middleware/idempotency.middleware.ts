@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { IdempotencyService, IdempotentEndpoint } from '../services/idempotency.service';
+import { AuthenticatedRequest } from './auth.middleware';
+import { logger } from '../utils/logger';
+
+const idempotencyService = new IdempotencyService();
+
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/; // Printable ASCII, e.g. a UUID
+
+/**
+ * Fingerprint of the request body and uploaded photo, so a key can't be reused for a different clock-in
+ */
+function hashRequest(req: AuthenticatedRequest): string {
+  const hash = crypto.createHash('sha256');
+  const body = req.body ?? {};
+
+  for (const field of Object.keys(body).sort()) {
+    hash.update(`${field}=${JSON.stringify(body[field])}\n`);
+  }
+
+  if (req.file) {
+    hash.update(req.file.buffer);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Honour an Idempotency-Key header: the first request is processed and its response stored,
+ * retries with the same key get that response back without running the handler (or its face/AI calls) again.
+ * Requests without the header are processed as usual. Server errors aren't stored, so they can be retried.
+ * Goes after upload and validation, so the hash covers the parsed body and photo.
+ */
+export function idempotent(endpoint: IdempotentEndpoint) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    const { userId, companyId } = req.user!;
+
+    if (!VALID_KEY.test(key) || !companyId) {
+      res.status(400).json({
+        success: false,
+        message: 'Idempotency-Key must be 1-255 printable characters',
+        error: 'VALIDATION_ERROR'
+      });
+      return;
+    }
+
+    let claim;
+    try {
+      claim = await idempotencyService.claim({ companyId, userId, endpoint, key, requestHash: hashRequest(req) });
+    } catch (error) {
+      logger.error('Idempotency middleware error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: 'INTERNAL_ERROR'
+      });
+      return;
+    }
+
+    if (claim.state === 'replay') {
+      logger.info('Replaying idempotent response', {
+        service: 'attendance-service',
+        userId,
+        endpoint,
+        key
+      });
+
+      res.set('Idempotent-Replayed', 'true');
+      res.status(claim.responseStatus).json(claim.responseBody);
+      return;
+    }
+
+    if (claim.state === 'in_progress') {
+      res.set('Retry-After', '2');
+      res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed',
+        error: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+      });
+      return;
+    }
+
+    if (claim.state === 'mismatch') {
+      res.status(422).json({
+        success: false,
+        message: 'Idempotency-Key was already used for a different request',
+        error: 'IDEMPOTENCY_KEY_MISMATCH'
+      });
+      return;
+    }
+
+    // Store the response before it is sent, so a retry right after it sees the result
+    const claimId = claim.id;
+    let settled = false;
+    const send = res.json.bind(res);
+
+    res.json = (body: unknown) => {
+      if (settled) {
+        return send(body);
+      }
+      settled = true;
+
+      const store = res.statusCode >= 500
+        ? idempotencyService.release(claimId)
+        : idempotencyService.complete(claimId, res.statusCode, body);
+
+      store
+        .catch(error => logger.error('Failed to store idempotent response:', error))
+        .finally(() => send(body));
+
+      return res;
+    };
+
+    // The handler keeps going if the client disconnects, so its response is still stored for the retry.
+    // A key whose process died stays locked for IDEMPOTENCY_LOCK_SECONDS, then a retry takes it over.
+    next();
+  };
+}
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { KioskService, KioskDevice } from '../services/kiosk.service';
+import { logger } from '../utils/logger';
+
+const kioskService = new KioskService();
+
+export interface KioskRequest extends Request {
+  kiosk?: KioskDevice;
+}
+
+/**
+ * Authenticate a kiosk by its X-Kiosk-Key header. Kiosks act for the company, not for a user,
+ * so kiosk routes never accept user tokens and user routes never accept kiosk keys.
+ */
+export async function authenticateKiosk(req: KioskRequest, res: Response, next: NextFunction): Promise<void> {
+  const kioskKey = req.get('X-Kiosk-Key');
+
+  if (!kioskKey) {
+    res.status(401).json({
+      success: false,
+      message: 'Kiosk key required',
+      error: 'MISSING_KIOSK_KEY'
+    });
+    return;
+  }
+
+  try {
+    const kiosk = await kioskService.authenticate(kioskKey);
+
+    if (!kiosk) {
+      logger.warn('Invalid kiosk key', {
+        service: 'attendance-service',
+        ip: req.ip
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'Invalid or disabled kiosk',
+        error: 'INVALID_KIOSK_KEY'
+      });
+      return;
+    }
+
+    req.kiosk = kiosk;
+    next();
+  } catch (error) {
+    logger.error('Kiosk authentication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: 'INTERNAL_ERROR'
+    });
+  }
+}
@@ -82,6 +82,16 @@ export function validateImageFile(req: Request, res: Response, next: NextFunctio
   next();
 }
 
+// Middleware to validate an image file only if one was sent
+export function validateOptionalImageFile(req: Request, res: Response, next: NextFunction): void {
+  if (!req.file) {
+    next();
+    return;
+  }
+
+  validateImageFile(req, res, next);
+}
+
 // Error handler for upload errors
 export function handleUploadError(error: Error, _req: Request, res: Response, _next: NextFunction): void {
   if (error instanceof multer.MulterError) {
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AnalyticsController } from '../controllers/analytics.controller';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, requireAdminAccess, requireUserAccess } from '../middleware/auth.middleware';
 import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
 import { analyticsSchemas } from '../schemas/analytics.schemas';
 
@@ -15,14 +15,16 @@ router.get(
   '/productivity/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getProductivityAnalyticsQuery),
-  analyticsController.getProductivityAnalytics
+  requireAdminAccess,
+  analyticsController.getProductivityAnalytics.bind(analyticsController)
 );
 
 router.get(
   '/productivity/user/:userId',
   validateParams(analyticsSchemas.userIdParams),
   validateQuery(analyticsSchemas.getUserProductivityQuery),
-  analyticsController.getUserProductivity
+  requireUserAccess,
+  analyticsController.getUserProductivity.bind(analyticsController)
 );
 
 // Attendance analytics
@@ -30,14 +32,16 @@ router.get(
   '/attendance/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getAttendanceAnalyticsQuery),
-  analyticsController.getAttendanceAnalytics
+  requireAdminAccess,
+  analyticsController.getAttendanceAnalytics.bind(analyticsController)
 );
 
 router.get(
   '/attendance/user/:userId',
   validateParams(analyticsSchemas.userIdParams),
   validateQuery(analyticsSchemas.getUserAttendanceQuery),
-  analyticsController.getUserAttendance
+  requireUserAccess,
+  analyticsController.getUserAttendance.bind(analyticsController)
 );
 
 // Fraud analytics
@@ -45,7 +49,8 @@ router.get(
   '/fraud/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getFraudAnalyticsQuery),
-  analyticsController.getFraudAnalytics
+  requireAdminAccess,
+  analyticsController.getFraudAnalytics.bind(analyticsController)
 );
 
 // Performance analytics
@@ -53,7 +58,8 @@ router.get(
   '/performance/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getPerformanceAnalyticsQuery),
-  analyticsController.getPerformanceAnalytics
+  requireAdminAccess,
+  analyticsController.getPerformanceAnalytics.bind(analyticsController)
 );
 
 // Dashboard data
@@ -61,14 +67,48 @@ router.get(
   '/dashboard/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getDashboardDataQuery),
-  analyticsController.getDashboardData
+  requireAdminAccess,
+  analyticsController.getDashboardData.bind(analyticsController)
 );
 
 router.get(
   '/dashboard/user/:userId',
   validateParams(analyticsSchemas.userIdParams),
   validateQuery(analyticsSchemas.getUserDashboardQuery),
-  analyticsController.getUserDashboard
+  requireUserAccess,
+  analyticsController.getUserDashboard.bind(analyticsController)
+);
+
+// Daily attendance status (the user route comes first so "user" is not taken for a company ID)
+router.get(
+  '/daily-status/user/:userId',
+  validateParams(analyticsSchemas.userIdParams),
+  validateQuery(analyticsSchemas.userDailyStatusQuery),
+  requireUserAccess,
+  analyticsController.getUserDailyStatus.bind(analyticsController)
+);
+
+router.get(
+  '/daily-status/:companyId',
+  validateParams(analyticsSchemas.companyIdParams),
+  validateQuery(analyticsSchemas.dailyStatusQuery),
+  requireAdminAccess,
+  analyticsController.getDailyStatus.bind(analyticsController)
+);
+
+router.get(
+  '/daily-status/:companyId/summary',
+  validateParams(analyticsSchemas.companyIdParams),
+  validateQuery(analyticsSchemas.dailyStatusSummaryQuery),
+  requireAdminAccess,
+  analyticsController.getDailyStatusSummary.bind(analyticsController)
+);
+
+router.post(
+  '/daily-status/recompute',
+  validateRequest(analyticsSchemas.recomputeDailyStatus),
+  requireAdminAccess,
+  analyticsController.recomputeDailyStatus.bind(analyticsController)
 );
 
 // Reports
@@ -76,13 +116,22 @@ router.get(
   '/reports/:companyId',
   validateParams(analyticsSchemas.companyIdParams),
   validateQuery(analyticsSchemas.getReportsQuery),
-  analyticsController.getReports
+  requireAdminAccess,
+  analyticsController.getReports.bind(analyticsController)
+);
+
+router.get(
+  '/reports/:companyId/:reportId/download',
+  validateParams(analyticsSchemas.reportParams),
+  requireAdminAccess,
+  analyticsController.downloadReport.bind(analyticsController)
 );
 
 router.post(
   '/reports/generate',
   validateRequest(analyticsSchemas.generateReport),
-  analyticsController.generateReport
+  requireAdminAccess,
+  analyticsController.generateReport.bind(analyticsController)
 );
 
 export default router;
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { AttendanceController } from '../controllers/attendance.controller';
-import { authenticateToken, requireUserAccess, requireAdminAccess } from '../middleware/auth.middleware';
+import { authenticateToken, requireUserAccess, requireAdminAccess, requirePunchAccess } from '../middleware/auth.middleware';
 import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
-import { uploadSingle, requireFile, validateImageFile } from '../middleware/upload.middleware';
+import { uploadSingle, requireFile, validateImageFile, validateOptionalImageFile } from '../middleware/upload.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
 import { attendanceSchemas } from '../schemas/attendance.schemas';
 
 const router = Router();
@@ -12,12 +13,15 @@ const attendanceController = new AttendanceController();
 router.use(authenticateToken);
 
 // Core attendance endpoints
+// The photo is required for face verification and optional with a QR code or NFC badge.
+// Employees punch for themselves; admins may punch for others in their company, with face verification only.
 router.post(
   '/clock-in',
   uploadSingle('photo'),
-  requireFile,
-  validateImageFile,
+  validateOptionalImageFile,
   validateRequest(attendanceSchemas.clockIn),
+  requirePunchAccess,
+  idempotent('clock-in'),
   attendanceController.clockIn.bind(attendanceController)
 );
 
@@ -27,6 +31,8 @@ router.post(
   requireFile,
   validateImageFile,
   validateRequest(attendanceSchemas.clockOut),
+  requirePunchAccess,
+  idempotent('clock-out'),
   attendanceController.clockOut.bind(attendanceController)
 );
 
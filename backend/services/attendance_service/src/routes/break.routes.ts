@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { BreakController } from '../controllers/break.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { validateRequest, validateParams } from '../middleware/validation.middleware';
+import { breakSchemas } from '../schemas/break.schemas';
+
+// Mounted under /api/attendance/:attendanceId/breaks
+const router = Router({ mergeParams: true });
+const breakController = new BreakController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Break tracking (owner checks are done in the service)
+router.post(
+  '/start',
+  validateParams(breakSchemas.attendanceIdParams),
+  validateRequest(breakSchemas.startBreak),
+  breakController.startBreak.bind(breakController)
+);
+
+router.post(
+  '/end',
+  validateParams(breakSchemas.attendanceIdParams),
+  breakController.endBreak.bind(breakController)
+);
+
+router.get(
+  '/',
+  validateParams(breakSchemas.attendanceIdParams),
+  breakController.getBreaks.bind(breakController)
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { ClockInMethodController } from '../controllers/clockInMethod.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { clockInMethodSchemas } from '../schemas/clockInMethod.schemas';
+
+const router = Router();
+const clockInMethodController = new ClockInMethodController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Site methods (readable by employees so the app knows what to offer)
+router.get(
+  '/sites/:geofenceId',
+  validateParams(clockInMethodSchemas.geofenceIdParams),
+  clockInMethodController.getSiteMethods.bind(clockInMethodController)
+);
+
+router.put(
+  '/sites/:geofenceId',
+  validateParams(clockInMethodSchemas.geofenceIdParams),
+  validateRequest(clockInMethodSchemas.updateSiteMethods),
+  requireAdminAccess,
+  clockInMethodController.updateSiteMethods.bind(clockInMethodController)
+);
+
+// Site QR codes, for the screen at the site
+router.get(
+  '/sites/:geofenceId/qr-code',
+  validateParams(clockInMethodSchemas.geofenceIdParams),
+  requireAdminAccess,
+  clockInMethodController.getQrCode.bind(clockInMethodController)
+);
+
+router.post(
+  '/sites/:geofenceId/qr-code/rotate',
+  validateParams(clockInMethodSchemas.geofenceIdParams),
+  requireAdminAccess,
+  clockInMethodController.rotateQrCode.bind(clockInMethodController)
+);
+
+// NFC badges
+router.get(
+  '/badges',
+  validateQuery(clockInMethodSchemas.getBadgesQuery),
+  requireAdminAccess,
+  clockInMethodController.getBadges.bind(clockInMethodController)
+);
+
+router.post(
+  '/badges',
+  validateRequest(clockInMethodSchemas.registerBadge),
+  requireAdminAccess,
+  clockInMethodController.registerBadge.bind(clockInMethodController)
+);
+
+router.delete(
+  '/badges/:badgeId',
+  validateParams(clockInMethodSchemas.badgeIdParams),
+  requireAdminAccess,
+  clockInMethodController.deactivateBadge.bind(clockInMethodController)
+);
+
+export default router;
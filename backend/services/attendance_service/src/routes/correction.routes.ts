@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { CorrectionController } from '../controllers/correction.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { correctionSchemas } from '../schemas/correction.schemas';
+
+const router = Router();
+const correctionController = new CorrectionController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+router.post(
+  '/',
+  validateRequest(correctionSchemas.requestCorrection),
+  correctionController.requestCorrection.bind(correctionController)
+);
+
+router.get(
+  '/me',
+  validateQuery(correctionSchemas.getMyRequestsQuery),
+  correctionController.getMyRequests.bind(correctionController)
+);
+
+router.get(
+  '/',
+  validateQuery(correctionSchemas.getRequestsQuery),
+  requireAdminAccess,
+  correctionController.getRequests.bind(correctionController)
+);
+
+router.get(
+  '/history/:attendanceId',
+  validateParams(correctionSchemas.attendanceIdParams),
+  correctionController.getHistory.bind(correctionController)
+);
+
+router.get(
+  '/:requestId',
+  validateParams(correctionSchemas.requestIdParams),
+  correctionController.getRequest.bind(correctionController)
+);
+
+router.post(
+  '/:requestId/approve',
+  validateParams(correctionSchemas.requestIdParams),
+  validateRequest(correctionSchemas.approveRequest),
+  requireAdminAccess,
+  correctionController.approveRequest.bind(correctionController)
+);
+
+router.post(
+  '/:requestId/reject',
+  validateParams(correctionSchemas.requestIdParams),
+  validateRequest(correctionSchemas.rejectRequest),
+  requireAdminAccess,
+  correctionController.rejectRequest.bind(correctionController)
+);
+
+router.post(
+  '/:requestId/cancel',
+  validateParams(correctionSchemas.requestIdParams),
+  correctionController.cancelRequest.bind(correctionController)
+);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { FraudController } from '../controllers/fraud.controller';
-import { authenticateToken } from '../middleware/auth.middleware';
+import { authenticateToken, requireAdminAccess, requireSuperAdminAccess } from '../middleware/auth.middleware';
 import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
 import { fraudSchemas } from '../schemas/fraud.schemas';
 
@@ -15,34 +15,56 @@ router.get(
   '/dashboard/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getFraudDashboardQuery),
-  fraudController.getFraudDashboard
+  requireAdminAccess,
+  fraudController.getFraudDashboard.bind(fraudController)
 );
 
 router.get(
   '/alerts/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getFraudAlertsQuery),
-  fraudController.getFraudAlerts
+  requireAdminAccess,
+  fraudController.getFraudAlerts.bind(fraudController)
+);
+
+// Review queue
+router.put(
+  '/alerts/:resultId/assign',
+  validateParams(fraudSchemas.resultIdParams),
+  validateRequest(fraudSchemas.assignReview),
+  requireAdminAccess,
+  fraudController.assignReview.bind(fraudController)
+);
+
+router.put(
+  '/alerts/:resultId/review',
+  validateParams(fraudSchemas.resultIdParams),
+  validateRequest(fraudSchemas.reviewAssessment),
+  requireAdminAccess,
+  fraudController.reviewAssessment.bind(fraudController)
 );
 
 router.get(
   '/patterns/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getFraudPatternsQuery),
-  fraudController.getFraudPatterns
+  requireAdminAccess,
+  fraudController.getFraudPatterns.bind(fraudController)
 );
 
 // Fraud analysis
 router.get(
   '/analysis/:attendanceId',
   validateParams(fraudSchemas.attendanceIdParams),
-  fraudController.getFraudAnalysis
+  requireAdminAccess,
+  fraudController.getFraudAnalysis.bind(fraudController)
 );
 
 router.post(
   '/analyze',
   validateRequest(fraudSchemas.analyzeFraud),
-  fraudController.analyzeFraud
+  requireAdminAccess,
+  fraudController.analyzeFraud.bind(fraudController)
 );
 
 // Risk assessment
@@ -50,13 +72,15 @@ router.get(
   '/risk/:userId',
   validateParams(fraudSchemas.userIdParams),
   validateQuery(fraudSchemas.getRiskAssessmentQuery),
-  fraudController.getRiskAssessment
+  requireAdminAccess,
+  fraudController.getRiskAssessment.bind(fraudController)
 );
 
 router.post(
   '/risk/calculate',
   validateRequest(fraudSchemas.calculateRisk),
-  fraudController.calculateRisk
+  requireAdminAccess,
+  fraudController.calculateRisk.bind(fraudController)
 );
 
 // Fraud flags management
@@ -64,21 +88,24 @@ router.get(
   '/flags/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getFraudFlagsQuery),
-  fraudController.getFraudFlags
+  requireAdminAccess,
+  fraudController.getFraudFlags.bind(fraudController)
 );
 
 router.put(
   '/flags/:flagId/resolve',
   validateParams(fraudSchemas.flagIdParams),
   validateRequest(fraudSchemas.resolveFraudFlag),
-  fraudController.resolveFraudFlag
+  requireAdminAccess,
+  fraudController.resolveFraudFlag.bind(fraudController)
 );
 
 router.put(
   '/flags/:flagId/ignore',
   validateParams(fraudSchemas.flagIdParams),
   validateRequest(fraudSchemas.ignoreFraudFlag),
-  fraudController.ignoreFraudFlag
+  requireAdminAccess,
+  fraudController.ignoreFraudFlag.bind(fraudController)
 );
 
 // Fraud prevention
@@ -86,13 +113,15 @@ router.get(
   '/prevention/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getPreventionMetricsQuery),
-  fraudController.getPreventionMetrics
+  requireAdminAccess,
+  fraudController.getPreventionMetrics.bind(fraudController)
 );
 
 router.post(
   '/prevention/update',
   validateRequest(fraudSchemas.updatePreventionSettings),
-  fraudController.updatePreventionSettings
+  requireSuperAdminAccess,
+  fraudController.updatePreventionSettings.bind(fraudController)
 );
 
 // Fraud trends
@@ -100,7 +129,8 @@ router.get(
   '/trends/:companyId',
   validateParams(fraudSchemas.companyIdParams),
   validateQuery(fraudSchemas.getFraudTrendsQuery),
-  fraudController.getFraudTrends
+  requireAdminAccess,
+  fraudController.getFraudTrends.bind(fraudController)
 );
 
 export default router;
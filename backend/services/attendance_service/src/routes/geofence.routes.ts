@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { GeofenceController } from '../controllers/geofence.controller';
+import { authenticateToken, requireAdminAccess, requireSuperAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { geofenceSchemas } from '../schemas/geofence.schemas';
+
+const router = Router();
+const geofenceController = new GeofenceController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Site groups
+router.get(
+  '/groups',
+  validateQuery(geofenceSchemas.listGeofencesQuery),
+  geofenceController.getSiteGroups.bind(geofenceController)
+);
+
+router.post(
+  '/groups',
+  validateRequest(geofenceSchemas.createSiteGroup),
+  requireSuperAdminAccess,
+  geofenceController.createSiteGroup.bind(geofenceController)
+);
+
+router.put(
+  '/groups/:siteGroupId',
+  validateParams(geofenceSchemas.siteGroupIdParams),
+  validateRequest(geofenceSchemas.updateSiteGroup),
+  requireSuperAdminAccess,
+  geofenceController.updateSiteGroup.bind(geofenceController)
+);
+
+router.delete(
+  '/groups/:siteGroupId',
+  validateParams(geofenceSchemas.siteGroupIdParams),
+  requireSuperAdminAccess,
+  geofenceController.deleteSiteGroup.bind(geofenceController)
+);
+
+// Employee site assignments
+router.get(
+  '/assignments',
+  validateQuery(geofenceSchemas.assignmentsQuery),
+  requireAdminAccess,
+  geofenceController.getAssignments.bind(geofenceController)
+);
+
+router.post(
+  '/assignments',
+  validateRequest(geofenceSchemas.createAssignment),
+  requireAdminAccess,
+  geofenceController.createAssignment.bind(geofenceController)
+);
+
+router.delete(
+  '/assignments/:assignmentId',
+  validateParams(geofenceSchemas.assignmentIdParams),
+  requireAdminAccess,
+  geofenceController.deleteAssignment.bind(geofenceController)
+);
+
+// GeoJSON import and coordinate testing
+router.post(
+  '/import',
+  validateRequest(geofenceSchemas.importGeoJson),
+  requireSuperAdminAccess,
+  geofenceController.importGeoJson.bind(geofenceController)
+);
+
+router.post(
+  '/test',
+  validateRequest(geofenceSchemas.testLocation),
+  requireAdminAccess,
+  geofenceController.testLocation.bind(geofenceController)
+);
+
+// Everyone in the company can see where onsite clock-in is allowed
+router.get(
+  '/',
+  validateQuery(geofenceSchemas.listGeofencesQuery),
+  geofenceController.getGeofences.bind(geofenceController)
+);
+
+router.get(
+  '/:geofenceId',
+  validateParams(geofenceSchemas.geofenceIdParams),
+  geofenceController.getGeofence.bind(geofenceController)
+);
+
+// Super admin management
+router.post(
+  '/',
+  validateRequest(geofenceSchemas.createGeofence),
+  requireSuperAdminAccess,
+  geofenceController.createGeofence.bind(geofenceController)
+);
+
+router.put(
+  '/:geofenceId',
+  validateParams(geofenceSchemas.geofenceIdParams),
+  validateRequest(geofenceSchemas.updateGeofence),
+  requireSuperAdminAccess,
+  geofenceController.updateGeofence.bind(geofenceController)
+);
+
+router.delete(
+  '/:geofenceId',
+  validateParams(geofenceSchemas.geofenceIdParams),
+  requireSuperAdminAccess,
+  geofenceController.deleteGeofence.bind(geofenceController)
+);
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { HolidayController } from '../controllers/holiday.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { holidaySchemas } from '../schemas/holiday.schemas';
+
+const router = Router();
+const holidayController = new HolidayController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Holidays that apply to a date range (company-wide plus an optional location)
+router.get(
+  '/',
+  validateQuery(holidaySchemas.holidaysQuery),
+  holidayController.getHolidays.bind(holidayController)
+);
+
+router.get(
+  '/presets',
+  holidayController.getPresets.bind(holidayController)
+);
+
+// Calendars
+router.get(
+  '/calendars',
+  validateQuery(holidaySchemas.listCalendarsQuery),
+  holidayController.getCalendars.bind(holidayController)
+);
+
+router.post(
+  '/calendars',
+  validateRequest(holidaySchemas.createCalendar),
+  requireAdminAccess,
+  holidayController.createCalendar.bind(holidayController)
+);
+
+router.get(
+  '/calendars/:calendarId',
+  validateParams(holidaySchemas.calendarIdParams),
+  holidayController.getCalendar.bind(holidayController)
+);
+
+router.put(
+  '/calendars/:calendarId',
+  validateParams(holidaySchemas.calendarIdParams),
+  validateRequest(holidaySchemas.updateCalendar),
+  requireAdminAccess,
+  holidayController.updateCalendar.bind(holidayController)
+);
+
+router.delete(
+  '/calendars/:calendarId',
+  validateParams(holidaySchemas.calendarIdParams),
+  requireAdminAccess,
+  holidayController.deleteCalendar.bind(holidayController)
+);
+
+// Holidays in a calendar
+router.get(
+  '/calendars/:calendarId/holidays',
+  validateParams(holidaySchemas.calendarIdParams),
+  validateQuery(holidaySchemas.calendarHolidaysQuery),
+  holidayController.getCalendarHolidays.bind(holidayController)
+);
+
+router.post(
+  '/calendars/:calendarId/holidays',
+  validateParams(holidaySchemas.calendarIdParams),
+  validateRequest(holidaySchemas.addHoliday),
+  requireAdminAccess,
+  holidayController.addHoliday.bind(holidayController)
+);
+
+router.put(
+  '/calendars/:calendarId/holidays/:holidayId',
+  validateParams(holidaySchemas.holidayIdParams),
+  validateRequest(holidaySchemas.updateHoliday),
+  requireAdminAccess,
+  holidayController.updateHoliday.bind(holidayController)
+);
+
+router.delete(
+  '/calendars/:calendarId/holidays/:holidayId',
+  validateParams(holidaySchemas.holidayIdParams),
+  requireAdminAccess,
+  holidayController.deleteHoliday.bind(holidayController)
+);
+
+// Presets and iCal import
+router.post(
+  '/calendars/:calendarId/presets',
+  validateParams(holidaySchemas.calendarIdParams),
+  validateRequest(holidaySchemas.applyPreset),
+  requireAdminAccess,
+  holidayController.applyPreset.bind(holidayController)
+);
+
+router.post(
+  '/calendars/:calendarId/import',
+  validateParams(holidaySchemas.calendarIdParams),
+  validateRequest(holidaySchemas.importIcal),
+  requireAdminAccess,
+  holidayController.importIcal.bind(holidayController)
+);
+
+export default router;
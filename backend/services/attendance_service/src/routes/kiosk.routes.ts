@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { KioskController } from '../controllers/kiosk.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { kioskSchemas } from '../schemas/kiosk.schemas';
+
+const router = Router();
+const kioskController = new KioskController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Employee's own PIN for the kiosk fallback
+router.put(
+  '/pin',
+  validateRequest(kioskSchemas.setPin),
+  kioskController.setPin.bind(kioskController)
+);
+
+router.delete(
+  '/pins/:userId',
+  validateParams(kioskSchemas.userIdParams),
+  requireAdminAccess,
+  kioskController.clearPin.bind(kioskController)
+);
+
+// Kiosk management
+router.get(
+  '/',
+  requireAdminAccess,
+  kioskController.getKiosks.bind(kioskController)
+);
+
+router.post(
+  '/',
+  validateRequest(kioskSchemas.registerKiosk),
+  requireAdminAccess,
+  kioskController.registerKiosk.bind(kioskController)
+);
+
+router.patch(
+  '/:kioskId',
+  validateParams(kioskSchemas.kioskIdParams),
+  validateRequest(kioskSchemas.updateKiosk),
+  requireAdminAccess,
+  kioskController.updateKiosk.bind(kioskController)
+);
+
+router.post(
+  '/:kioskId/rotate-key',
+  validateParams(kioskSchemas.kioskIdParams),
+  requireAdminAccess,
+  kioskController.rotateKey.bind(kioskController)
+);
+
+router.get(
+  '/:kioskId/audit-logs',
+  validateParams(kioskSchemas.kioskIdParams),
+  validateQuery(kioskSchemas.getAuditLogsQuery),
+  requireAdminAccess,
+  kioskController.getAuditLogs.bind(kioskController)
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { KioskController } from '../controllers/kiosk.controller';
+import { authenticateKiosk } from '../middleware/kiosk.middleware';
+import { validateRequest } from '../middleware/validation.middleware';
+import { uploadSingle, requireFile, validateImageFile } from '../middleware/upload.middleware';
+import { kioskSchemas } from '../schemas/kiosk.schemas';
+
+const router = Router();
+const kioskController = new KioskController();
+
+// Kiosk key authentication for all routes (no user token)
+router.use(authenticateKiosk);
+
+router.get(
+  '/me',
+  kioskController.getCurrentKiosk.bind(kioskController)
+);
+
+// The site's rotating QR code, for kiosks that double as the QR display
+router.get(
+  '/qr-code',
+  kioskController.getQrCode.bind(kioskController)
+);
+
+// Punches: the kiosk toggles clock-in/clock-out for whoever it identifies
+router.post(
+  '/punch',
+  uploadSingle('photo'),
+  requireFile,
+  validateImageFile,
+  kioskController.punchByFace.bind(kioskController)
+);
+
+router.post(
+  '/punch/pin',
+  uploadSingle('photo'),
+  requireFile,
+  validateImageFile,
+  validateRequest(kioskSchemas.pinPunch),
+  kioskController.punchByPin.bind(kioskController)
+);
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import { LeaveController } from '../controllers/leave.controller';
+import { authenticateToken, requireUserAccess, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { leaveSchemas } from '../schemas/leave.schemas';
+
+const router = Router();
+const leaveController = new LeaveController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Leave types
+router.get(
+  '/types',
+  validateQuery(leaveSchemas.listTypesQuery),
+  leaveController.getLeaveTypes.bind(leaveController)
+);
+
+router.post(
+  '/types',
+  validateRequest(leaveSchemas.createLeaveType),
+  requireAdminAccess,
+  leaveController.createLeaveType.bind(leaveController)
+);
+
+router.get(
+  '/types/:leaveTypeId',
+  validateParams(leaveSchemas.leaveTypeIdParams),
+  leaveController.getLeaveType.bind(leaveController)
+);
+
+router.put(
+  '/types/:leaveTypeId',
+  validateParams(leaveSchemas.leaveTypeIdParams),
+  validateRequest(leaveSchemas.updateLeaveType),
+  requireAdminAccess,
+  leaveController.updateLeaveType.bind(leaveController)
+);
+
+router.delete(
+  '/types/:leaveTypeId',
+  validateParams(leaveSchemas.leaveTypeIdParams),
+  requireAdminAccess,
+  leaveController.deleteLeaveType.bind(leaveController)
+);
+
+// Balances
+router.get(
+  '/balances',
+  validateQuery(leaveSchemas.balancesQuery),
+  leaveController.getMyBalances.bind(leaveController)
+);
+
+router.get(
+  '/balances/user/:userId',
+  validateParams(leaveSchemas.userIdParams),
+  validateQuery(leaveSchemas.balancesQuery),
+  requireUserAccess,
+  leaveController.getUserBalances.bind(leaveController)
+);
+
+router.post(
+  '/balances/adjust',
+  validateRequest(leaveSchemas.adjustBalance),
+  requireAdminAccess,
+  leaveController.adjustBalance.bind(leaveController)
+);
+
+// Requests
+router.post(
+  '/requests',
+  validateRequest(leaveSchemas.createRequest),
+  leaveController.createRequest.bind(leaveController)
+);
+
+router.get(
+  '/requests',
+  validateQuery(leaveSchemas.getRequestsQuery),
+  requireAdminAccess,
+  leaveController.getRequests.bind(leaveController)
+);
+
+router.get(
+  '/requests/me',
+  validateQuery(leaveSchemas.getMyRequestsQuery),
+  leaveController.getMyRequests.bind(leaveController)
+);
+
+router.get(
+  '/requests/:requestId',
+  validateParams(leaveSchemas.requestIdParams),
+  leaveController.getRequest.bind(leaveController)
+);
+
+router.post(
+  '/requests/:requestId/approve',
+  validateParams(leaveSchemas.requestIdParams),
+  validateRequest(leaveSchemas.approveRequest),
+  requireAdminAccess,
+  leaveController.approveRequest.bind(leaveController)
+);
+
+router.post(
+  '/requests/:requestId/reject',
+  validateParams(leaveSchemas.requestIdParams),
+  validateRequest(leaveSchemas.rejectRequest),
+  requireAdminAccess,
+  leaveController.rejectRequest.bind(leaveController)
+);
+
+router.post(
+  '/requests/:requestId/cancel',
+  validateParams(leaveSchemas.requestIdParams),
+  leaveController.cancelRequest.bind(leaveController)
+);
+
+// Calendar
+router.get(
+  '/calendar',
+  validateQuery(leaveSchemas.calendarQuery),
+  leaveController.getCalendar.bind(leaveController)
+);
+
+export default router;
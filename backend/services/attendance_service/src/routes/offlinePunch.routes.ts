@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { OfflinePunchController } from '../controllers/offlinePunch.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { uploadMultiple } from '../middleware/upload.middleware';
+import { offlinePunchSchemas } from '../schemas/offlinePunch.schemas';
+import { env } from '../config/env';
+
+const router = Router();
+const offlinePunchController = new OfflinePunchController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Device signing keys
+router.post(
+  '/devices',
+  validateRequest(offlinePunchSchemas.registerDeviceKey),
+  offlinePunchController.registerDeviceKey.bind(offlinePunchController)
+);
+
+router.get(
+  '/devices',
+  validateQuery(offlinePunchSchemas.getDeviceKeysQuery),
+  offlinePunchController.getDeviceKeys.bind(offlinePunchController)
+);
+
+router.delete(
+  '/devices/:deviceKeyId',
+  validateParams(offlinePunchSchemas.deviceKeyIdParams),
+  offlinePunchController.revokeDeviceKey.bind(offlinePunchController)
+);
+
+// Batch sync of punches captured offline
+router.post(
+  '/sync',
+  uploadMultiple('photos', env.OFFLINE_SYNC_MAX_PUNCHES),
+  validateRequest(offlinePunchSchemas.syncPunches),
+  offlinePunchController.syncPunches.bind(offlinePunchController)
+);
+
+// Review
+router.get(
+  '/punches',
+  validateQuery(offlinePunchSchemas.getPunchesQuery),
+  requireAdminAccess,
+  offlinePunchController.getPunches.bind(offlinePunchController)
+);
+
+export default router;
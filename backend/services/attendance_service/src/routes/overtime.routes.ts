@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { OvertimeController } from '../controllers/overtime.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { overtimeSchemas } from '../schemas/overtime.schemas';
+
+const router = Router();
+const overtimeController = new OvertimeController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Overtime rule sets
+router.get(
+  '/rule-sets',
+  validateQuery(overtimeSchemas.listQuery),
+  requireAdminAccess,
+  overtimeController.getRuleSets.bind(overtimeController)
+);
+
+router.post(
+  '/rule-sets',
+  validateRequest(overtimeSchemas.createRuleSet),
+  requireAdminAccess,
+  overtimeController.createRuleSet.bind(overtimeController)
+);
+
+router.get(
+  '/rule-sets/:ruleSetId',
+  validateParams(overtimeSchemas.ruleSetIdParams),
+  requireAdminAccess,
+  overtimeController.getRuleSet.bind(overtimeController)
+);
+
+router.put(
+  '/rule-sets/:ruleSetId',
+  validateParams(overtimeSchemas.ruleSetIdParams),
+  validateRequest(overtimeSchemas.updateRuleSet),
+  requireAdminAccess,
+  overtimeController.updateRuleSet.bind(overtimeController)
+);
+
+router.delete(
+  '/rule-sets/:ruleSetId',
+  validateParams(overtimeSchemas.ruleSetIdParams),
+  requireAdminAccess,
+  overtimeController.deleteRuleSet.bind(overtimeController)
+);
+
+// Per-record results
+router.get(
+  '/records/:attendanceId',
+  validateParams(overtimeSchemas.attendanceIdParams),
+  requireAdminAccess,
+  overtimeController.getRecordResult.bind(overtimeController)
+);
+
+router.post(
+  '/records/:attendanceId/calculate',
+  validateParams(overtimeSchemas.attendanceIdParams),
+  requireAdminAccess,
+  overtimeController.calculateRecord.bind(overtimeController)
+);
+
+// Pay period totals
+router.get(
+  '/periods',
+  validateQuery(overtimeSchemas.periodQuery),
+  requireAdminAccess,
+  overtimeController.getPeriodSummaries.bind(overtimeController)
+);
+
+router.post(
+  '/periods/calculate',
+  validateRequest(overtimeSchemas.calculatePeriod),
+  requireAdminAccess,
+  overtimeController.calculatePeriod.bind(overtimeController)
+);
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { PayrollController } from '../controllers/payroll.controller';
+import { authenticateToken, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { payrollSchemas } from '../schemas/payroll.schemas';
+
+const router = Router();
+const payrollController = new PayrollController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Formats and preview
+router.get(
+  '/formats',
+  requireAdminAccess,
+  payrollController.getFormats.bind(payrollController)
+);
+
+router.get(
+  '/preview',
+  validateQuery(payrollSchemas.previewQuery),
+  requireAdminAccess,
+  payrollController.previewExport.bind(payrollController)
+);
+
+// Export history
+router.get(
+  '/exports',
+  validateQuery(payrollSchemas.getExportsQuery),
+  requireAdminAccess,
+  payrollController.getExports.bind(payrollController)
+);
+
+router.post(
+  '/exports',
+  validateRequest(payrollSchemas.createExport),
+  requireAdminAccess,
+  payrollController.createExport.bind(payrollController)
+);
+
+router.get(
+  '/exports/:exportId/download',
+  validateParams(payrollSchemas.exportIdParams),
+  requireAdminAccess,
+  payrollController.downloadExport.bind(payrollController)
+);
+
+// Employee ID mappings
+router.get(
+  '/mappings',
+  validateQuery(payrollSchemas.getMappingsQuery),
+  requireAdminAccess,
+  payrollController.getEmployeeMappings.bind(payrollController)
+);
+
+router.put(
+  '/mappings',
+  validateRequest(payrollSchemas.upsertMapping),
+  requireAdminAccess,
+  payrollController.upsertEmployeeMapping.bind(payrollController)
+);
+
+router.delete(
+  '/mappings/:mappingId',
+  validateParams(payrollSchemas.mappingIdParams),
+  requireAdminAccess,
+  payrollController.deleteEmployeeMapping.bind(payrollController)
+);
+
+export default router;
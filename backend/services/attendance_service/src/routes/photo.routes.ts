@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { PhotoController } from '../controllers/photo.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { validateQuery, validateParams } from '../middleware/validation.middleware';
+import { photoSchemas } from '../schemas/photo.schemas';
+
+const router = Router();
+const photoController = new PhotoController();
+
+// Signed photo links (local storage driver); the signature stands in for the token
+router.get(
+  '/file',
+  validateQuery(photoSchemas.signedPhotoQuery),
+  photoController.getSignedPhoto.bind(photoController)
+);
+
+// Apply authentication to all other routes
+router.use(authenticateToken);
+
+router.get(
+  '/:attendanceId',
+  validateParams(photoSchemas.attendanceIdParams),
+  photoController.getAttendancePhotos.bind(photoController)
+);
+
+export default router;
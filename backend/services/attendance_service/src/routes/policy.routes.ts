@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { PolicyController } from '../controllers/policy.controller';
+import { authenticateToken, requireAdminAccess, requireSuperAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validation.middleware';
+import { policySchemas } from '../schemas/policy.schemas';
+
+const router = Router();
+const policyController = new PolicyController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  requireAdminAccess,
+  policyController.getPolicy.bind(policyController)
+);
+
+router.put(
+  '/',
+  validateRequest(policySchemas.updatePolicy),
+  requireSuperAdminAccess,
+  policyController.updatePolicy.bind(policyController)
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { PresenceController } from '../controllers/presence.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { validateQuery } from '../middleware/validation.middleware';
+import { presenceSchemas } from '../schemas/presence.schemas';
+
+const router = Router();
+const presenceController = new PresenceController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Presence board (admins, and team leads for their own teams)
+router.get(
+  '/',
+  validateQuery(presenceSchemas.getPresenceQuery),
+  presenceController.getPresence.bind(presenceController)
+);
+
+export default router;
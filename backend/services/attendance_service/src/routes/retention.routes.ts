@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { RetentionController } from '../controllers/retention.controller';
+import { authenticateToken, requireAdminAccess, requireSuperAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { retentionSchemas } from '../schemas/retention.schemas';
+
+const router = Router();
+const retentionController = new RetentionController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Retention policy
+router.get(
+  '/policy',
+  requireAdminAccess,
+  retentionController.getPolicy.bind(retentionController)
+);
+
+router.put(
+  '/policy',
+  validateRequest(retentionSchemas.updatePolicy),
+  requireSuperAdminAccess,
+  retentionController.updatePolicy.bind(retentionController)
+);
+
+// Purge dry run
+router.get(
+  '/report',
+  requireAdminAccess,
+  retentionController.getReport.bind(retentionController)
+);
+
+// Legal holds
+router.get(
+  '/legal-holds',
+  validateQuery(retentionSchemas.getLegalHoldsQuery),
+  requireAdminAccess,
+  retentionController.getLegalHolds.bind(retentionController)
+);
+
+router.post(
+  '/legal-holds',
+  validateRequest(retentionSchemas.placeLegalHold),
+  requireSuperAdminAccess,
+  retentionController.placeLegalHold.bind(retentionController)
+);
+
+router.put(
+  '/legal-holds/:holdId/release',
+  validateParams(retentionSchemas.holdIdParams),
+  validateRequest(retentionSchemas.releaseLegalHold),
+  requireSuperAdminAccess,
+  retentionController.releaseLegalHold.bind(retentionController)
+);
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { ShiftController } from '../controllers/shift.controller';
+import { authenticateToken, requireUserAccess, requireAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { shiftSchemas } from '../schemas/shift.schemas';
+
+const router = Router();
+const shiftController = new ShiftController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Shift templates
+router.get(
+  '/templates',
+  validateQuery(shiftSchemas.listQuery),
+  requireAdminAccess,
+  shiftController.getTemplates.bind(shiftController)
+);
+
+router.post(
+  '/templates',
+  validateRequest(shiftSchemas.createTemplate),
+  requireAdminAccess,
+  shiftController.createTemplate.bind(shiftController)
+);
+
+router.get(
+  '/templates/:templateId',
+  validateParams(shiftSchemas.templateIdParams),
+  requireAdminAccess,
+  shiftController.getTemplate.bind(shiftController)
+);
+
+router.put(
+  '/templates/:templateId',
+  validateParams(shiftSchemas.templateIdParams),
+  validateRequest(shiftSchemas.updateTemplate),
+  requireAdminAccess,
+  shiftController.updateTemplate.bind(shiftController)
+);
+
+router.delete(
+  '/templates/:templateId',
+  validateParams(shiftSchemas.templateIdParams),
+  requireAdminAccess,
+  shiftController.deleteTemplate.bind(shiftController)
+);
+
+// Shift rotations
+router.get(
+  '/rotations',
+  validateQuery(shiftSchemas.listQuery),
+  requireAdminAccess,
+  shiftController.getRotations.bind(shiftController)
+);
+
+router.post(
+  '/rotations',
+  validateRequest(shiftSchemas.createRotation),
+  requireAdminAccess,
+  shiftController.createRotation.bind(shiftController)
+);
+
+router.get(
+  '/rotations/:rotationId',
+  validateParams(shiftSchemas.rotationIdParams),
+  requireAdminAccess,
+  shiftController.getRotation.bind(shiftController)
+);
+
+router.put(
+  '/rotations/:rotationId',
+  validateParams(shiftSchemas.rotationIdParams),
+  validateRequest(shiftSchemas.updateRotation),
+  requireAdminAccess,
+  shiftController.updateRotation.bind(shiftController)
+);
+
+router.delete(
+  '/rotations/:rotationId',
+  validateParams(shiftSchemas.rotationIdParams),
+  requireAdminAccess,
+  shiftController.deleteRotation.bind(shiftController)
+);
+
+// Shift assignments
+router.get(
+  '/assignments',
+  validateQuery(shiftSchemas.getAssignmentsQuery),
+  requireAdminAccess,
+  shiftController.getAssignments.bind(shiftController)
+);
+
+router.post(
+  '/assignments',
+  validateRequest(shiftSchemas.createAssignment),
+  requireAdminAccess,
+  shiftController.createAssignment.bind(shiftController)
+);
+
+router.put(
+  '/assignments/:assignmentId',
+  validateParams(shiftSchemas.assignmentIdParams),
+  validateRequest(shiftSchemas.updateAssignment),
+  requireAdminAccess,
+  shiftController.updateAssignment.bind(shiftController)
+);
+
+router.delete(
+  '/assignments/:assignmentId',
+  validateParams(shiftSchemas.assignmentIdParams),
+  requireAdminAccess,
+  shiftController.deleteAssignment.bind(shiftController)
+);
+
+// Resolved schedule (employees can view their own)
+router.get(
+  '/schedule/:userId',
+  validateParams(shiftSchemas.userIdParams),
+  validateQuery(shiftSchemas.getScheduleQuery),
+  requireUserAccess,
+  shiftController.getSchedule.bind(shiftController)
+);
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { TimesheetController } from '../controllers/timesheet.controller';
+import {
+  authenticateToken,
+  requireUserAccess,
+  requireAdminAccess,
+  requireSuperAdminAccess
+} from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { timesheetSchemas } from '../schemas/timesheet.schemas';
+
+const router = Router();
+const timesheetController = new TimesheetController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Pay periods
+router.get(
+  '/periods',
+  validateQuery(timesheetSchemas.getPayPeriodsQuery),
+  requireAdminAccess,
+  timesheetController.getPayPeriods.bind(timesheetController)
+);
+
+router.get(
+  '/periods/current',
+  timesheetController.getCurrentPayPeriod.bind(timesheetController)
+);
+
+router.post(
+  '/periods',
+  validateRequest(timesheetSchemas.createPayPeriod),
+  requireAdminAccess,
+  timesheetController.createPayPeriod.bind(timesheetController)
+);
+
+router.post(
+  '/periods/:payPeriodId/generate',
+  validateParams(timesheetSchemas.payPeriodIdParams),
+  requireAdminAccess,
+  timesheetController.generateTimesheets.bind(timesheetController)
+);
+
+// Employees submit their own timesheet
+router.post(
+  '/periods/:payPeriodId/submit',
+  validateParams(timesheetSchemas.payPeriodIdParams),
+  validateRequest(timesheetSchemas.submitTimesheet),
+  timesheetController.submitTimesheet.bind(timesheetController)
+);
+
+// Timesheets
+router.get(
+  '/',
+  validateQuery(timesheetSchemas.getTimesheetsQuery),
+  requireAdminAccess,
+  timesheetController.getTimesheets.bind(timesheetController)
+);
+
+router.get(
+  '/user/:userId',
+  validateParams(timesheetSchemas.userIdParams),
+  validateQuery(timesheetSchemas.getUserTimesheetsQuery),
+  requireUserAccess,
+  timesheetController.getUserTimesheets.bind(timesheetController)
+);
+
+router.get(
+  '/:timesheetId',
+  validateParams(timesheetSchemas.timesheetIdParams),
+  timesheetController.getTimesheet.bind(timesheetController)
+);
+
+router.post(
+  '/:timesheetId/approve',
+  validateParams(timesheetSchemas.timesheetIdParams),
+  validateRequest(timesheetSchemas.approveTimesheet),
+  requireAdminAccess,
+  timesheetController.approveTimesheet.bind(timesheetController)
+);
+
+router.post(
+  '/:timesheetId/reject',
+  validateParams(timesheetSchemas.timesheetIdParams),
+  validateRequest(timesheetSchemas.rejectTimesheet),
+  requireAdminAccess,
+  timesheetController.rejectTimesheet.bind(timesheetController)
+);
+
+router.post(
+  '/:timesheetId/reopen',
+  validateParams(timesheetSchemas.timesheetIdParams),
+  validateRequest(timesheetSchemas.reopenTimesheet),
+  requireSuperAdminAccess,
+  timesheetController.reopenTimesheet.bind(timesheetController)
+);
+
+export default router;
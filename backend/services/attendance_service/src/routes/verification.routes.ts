@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { VerificationController } from '../controllers/verification.controller';
-import { authenticateToken, requireUserAccess } from '../middleware/auth.middleware';
+import { authenticateToken } from '../middleware/auth.middleware';
 import { validateRequest, validateParams } from '../middleware/validation.middleware';
-import { uploadSingle, requireFile, validateImageFile } from '../middleware/upload.middleware';
+import { uploadSingle, uploadMultiple, requireFile, validateImageFile } from '../middleware/upload.middleware';
 import { verificationSchemas } from '../schemas/verification.schemas';
 
 const router = Router();
@@ -18,27 +18,26 @@ router.post(
   requireFile,
   validateImageFile,
   validateRequest(verificationSchemas.verifyFace),
-  verificationController.verifyFace
+  verificationController.verifyFace.bind(verificationController)
 );
 
 router.post(
   '/activity',
   validateRequest(verificationSchemas.verifyActivity),
-  verificationController.verifyActivity
+  verificationController.verifyActivity.bind(verificationController)
 );
 
 router.post(
   '/location',
   validateRequest(verificationSchemas.verifyLocation),
-  verificationController.verifyLocation
+  verificationController.verifyLocation.bind(verificationController)
 );
 
 router.post(
   '/liveness',
-  uploadSingle('video'),
-  requireFile,
+  uploadMultiple('frames', 5),
   validateRequest(verificationSchemas.verifyLiveness),
-  verificationController.verifyLiveness
+  verificationController.verifyLiveness.bind(verificationController)
 );
 
 // Multi-factor verification
@@ -48,28 +47,28 @@ router.post(
   requireFile,
   validateImageFile,
   validateRequest(verificationSchemas.comprehensiveVerification),
-  verificationController.comprehensiveVerification
+  verificationController.comprehensiveVerification.bind(verificationController)
 );
 
 // Device verification
 router.post(
   '/device',
   validateRequest(verificationSchemas.verifyDevice),
-  verificationController.verifyDevice
+  verificationController.verifyDevice.bind(verificationController)
 );
 
 // Geofence verification
 router.post(
   '/geofence',
   validateRequest(verificationSchemas.verifyGeofence),
-  verificationController.verifyGeofence
+  verificationController.verifyGeofence.bind(verificationController)
 );
 
 // Verification results
 router.get(
   '/results/:verificationId',
   validateParams(verificationSchemas.verificationIdParams),
-  verificationController.getVerificationResults
+  verificationController.getVerificationResults.bind(verificationController)
 );
 
 export default router;
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { WorkLocationController } from '../controllers/workLocation.controller';
+import { authenticateToken, requireAdminAccess, requireUserAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { workLocationSchemas } from '../schemas/workLocation.schemas';
+
+const router = Router();
+const workLocationController = new WorkLocationController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Home location used to verify remote clock-ins
+router.get(
+  '/home',
+  workLocationController.getMyHomeLocation.bind(workLocationController)
+);
+
+router.get(
+  '/home/:userId',
+  validateParams(workLocationSchemas.userIdParams),
+  requireUserAccess,
+  workLocationController.getUserHomeLocation.bind(workLocationController)
+);
+
+// Temporary alternate locations
+router.post(
+  '/alternates',
+  validateRequest(workLocationSchemas.requestAlternate),
+  workLocationController.requestAlternateLocation.bind(workLocationController)
+);
+
+router.get(
+  '/alternates/me',
+  validateQuery(workLocationSchemas.getMyAlternatesQuery),
+  workLocationController.getMyAlternateLocations.bind(workLocationController)
+);
+
+router.get(
+  '/alternates',
+  validateQuery(workLocationSchemas.getAlternatesQuery),
+  requireAdminAccess,
+  workLocationController.getAlternateLocations.bind(workLocationController)
+);
+
+router.post(
+  '/alternates/:locationId/approve',
+  validateParams(workLocationSchemas.locationIdParams),
+  validateRequest(workLocationSchemas.approveAlternate),
+  requireAdminAccess,
+  workLocationController.approveAlternateLocation.bind(workLocationController)
+);
+
+router.post(
+  '/alternates/:locationId/reject',
+  validateParams(workLocationSchemas.locationIdParams),
+  validateRequest(workLocationSchemas.rejectAlternate),
+  requireAdminAccess,
+  workLocationController.rejectAlternateLocation.bind(workLocationController)
+);
+
+router.post(
+  '/alternates/:locationId/cancel',
+  validateParams(workLocationSchemas.locationIdParams),
+  workLocationController.cancelAlternateLocation.bind(workLocationController)
+);
+
+export default router;
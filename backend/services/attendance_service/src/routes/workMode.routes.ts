@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { WorkModeController } from '../controllers/workMode.controller';
+import { authenticateToken, requireAdminAccess, requireSuperAdminAccess } from '../middleware/auth.middleware';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { workModeSchemas } from '../schemas/workMode.schemas';
+
+const router = Router();
+const workModeController = new WorkModeController();
+
+// Apply authentication to all routes
+router.use(authenticateToken);
+
+// Weekly templates (each employee manages their own)
+router.get(
+  '/templates',
+  workModeController.getMyTemplates.bind(workModeController)
+);
+
+router.post(
+  '/templates',
+  validateRequest(workModeSchemas.createTemplate),
+  workModeController.createTemplate.bind(workModeController)
+);
+
+router.put(
+  '/templates/:templateId',
+  validateParams(workModeSchemas.templateIdParams),
+  validateRequest(workModeSchemas.updateTemplate),
+  workModeController.updateTemplate.bind(workModeController)
+);
+
+router.delete(
+  '/templates/:templateId',
+  validateParams(workModeSchemas.templateIdParams),
+  workModeController.deleteTemplate.bind(workModeController)
+);
+
+router.post(
+  '/templates/:templateId/apply',
+  validateParams(workModeSchemas.templateIdParams),
+  validateRequest(workModeSchemas.applyTemplate),
+  workModeController.applyTemplate.bind(workModeController)
+);
+
+// Planned days
+router.post(
+  '/schedules',
+  validateRequest(workModeSchemas.planSchedule),
+  workModeController.planSchedule.bind(workModeController)
+);
+
+router.get(
+  '/schedules/me',
+  validateQuery(workModeSchemas.getMySchedulesQuery),
+  workModeController.getMySchedules.bind(workModeController)
+);
+
+router.get(
+  '/schedules',
+  validateQuery(workModeSchemas.getSchedulesQuery),
+  requireAdminAccess,
+  workModeController.getSchedules.bind(workModeController)
+);
+
+router.post(
+  '/schedules/approve',
+  validateRequest(workModeSchemas.approveSchedules),
+  requireAdminAccess,
+  workModeController.approveSchedules.bind(workModeController)
+);
+
+router.post(
+  '/schedules/reject',
+  validateRequest(workModeSchemas.rejectSchedules),
+  requireAdminAccess,
+  workModeController.rejectSchedules.bind(workModeController)
+);
+
+router.post(
+  '/schedules/:scheduleId/cancel',
+  validateParams(workModeSchemas.scheduleIdParams),
+  workModeController.cancelSchedule.bind(workModeController)
+);
+
+// Remote capacity
+router.get(
+  '/capacity',
+  validateQuery(workModeSchemas.capacityQuery),
+  requireAdminAccess,
+  workModeController.getCapacity.bind(workModeController)
+);
+
+router.get(
+  '/capacity-rules',
+  requireAdminAccess,
+  workModeController.getCapacityRules.bind(workModeController)
+);
+
+router.post(
+  '/capacity-rules',
+  validateRequest(workModeSchemas.createCapacityRule),
+  requireSuperAdminAccess,
+  workModeController.createCapacityRule.bind(workModeController)
+);
+
+router.put(
+  '/capacity-rules/:ruleId',
+  validateParams(workModeSchemas.ruleIdParams),
+  validateRequest(workModeSchemas.updateCapacityRule),
+  requireSuperAdminAccess,
+  workModeController.updateCapacityRule.bind(workModeController)
+);
+
+router.delete(
+  '/capacity-rules/:ruleId',
+  validateParams(workModeSchemas.ruleIdParams),
+  requireSuperAdminAccess,
+  workModeController.deleteCapacityRule.bind(workModeController)
+);
+
+export default router;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const dailyStatus = z.enum(['present', 'late', 'early_leave', 'remote', 'absent', 'on_leave', 'holiday', 'off', 'scheduled']);
+const department = z.string().min(1).max(100);
+const teamId = z.string().uuid('Invalid teamId format');
+const reportType = z.enum(['attendance', 'productivity', 'fraud', 'performance']);
+
+const dateRange = {
+  startDate: localDate,
+  endDate: localDate
+};
+
+const validDateRange = {
+  message: 'startDate must be before endDate',
+  path: ['endDate']
+};
+
+export const analyticsSchemas = {
+  // Params schemas
+  companyIdParams: z.object({
+    companyId: z.string().uuid('Invalid companyId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  reportParams: z.object({
+    companyId: z.string().uuid('Invalid companyId format'),
+    reportId: z.string().uuid('Invalid reportId format')
+  }),
+
+  // Query schemas
+  getProductivityAnalyticsQuery: z.object({
+    ...dateRange,
+    department: department.optional(),
+    teamId: teamId.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getUserProductivityQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getAttendanceAnalyticsQuery: z.object({
+    ...dateRange,
+    department: department.optional(),
+    teamId: teamId.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getUserAttendanceQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getFraudAnalyticsQuery: z.object({
+    ...dateRange,
+    department: department.optional(),
+    teamId: teamId.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getPerformanceAnalyticsQuery: z.object({
+    ...dateRange,
+    department: department.optional(),
+    teamId: teamId.optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getDashboardDataQuery: z.object({
+    date: localDate.optional(),
+    department: department.optional(),
+    teamId: teamId.optional()
+  }),
+
+  getUserDashboardQuery: z.object({
+    date: localDate.optional()
+  }),
+
+  getReportsQuery: z.object({
+    reportType: reportType.optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional()
+  }),
+
+  dailyStatusQuery: z.object({
+    ...dateRange,
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: dailyStatus.optional(),
+    department: department.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  userDailyStatusQuery: z.object({
+    ...dateRange,
+    status: dailyStatus.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  dailyStatusSummaryQuery: z.object({
+    ...dateRange,
+    department: department.optional()
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  // Body schemas
+  generateReport: z.object({
+    body: z.object({
+      reportType,
+      format: z.enum(['json', 'csv']).optional(), // Defaults to csv
+      ...dateRange,
+      department: department.optional(),
+      teamId: teamId.optional(),
+      userId: z.string().uuid('Invalid userId format').optional()
+    }).refine(body => body.startDate <= body.endDate, validDateRange)
+  }),
+
+  recomputeDailyStatus: z.object({
+    body: z.object({
+      ...dateRange,
+      userId: z.string().uuid('Invalid userId format').optional()
+    }).refine(body => body.startDate <= body.endDate, validDateRange)
+  })
+};
@@ -15,7 +15,17 @@ export const clockInSchema = z.object({
       address: z.string().optional()
     }).optional(),
     deviceInfo: z.string().optional(),
-    userAgent: z.string().optional()
+    userAgent: z.string().optional(),
+    verificationId: z.string().uuid('Invalid verificationId format').optional(), // From /api/attendance/verification
+    verificationMethod: z.enum(['face', 'qr', 'nfc']).optional(), // Defaults to face
+    qrCode: z.string().max(200).optional(), // Scanned from the site's display
+    nfcBadgeId: z.string().regex(/^[0-9A-Fa-f]{2}([\s:-]?[0-9A-Fa-f]{2}){1,31}$/, 'Badge UID must be hex bytes').optional()
+  }).refine(body => body.verificationMethod !== 'qr' || !!body.qrCode, {
+    message: 'qrCode is required for QR verification',
+    path: ['qrCode']
+  }).refine(body => body.verificationMethod !== 'nfc' || !!body.nfcBadgeId, {
+    message: 'nfcBadgeId is required for NFC verification',
+    path: ['nfcBadgeId']
   })
 });
 
@@ -60,7 +70,8 @@ export const getCompanyAttendanceQuerySchema = z.object({
     limit: z.string().regex(/^\d+$/).transform(Number).optional(),
     date: z.string().datetime().optional(),
     workMode: z.enum(['onsite', 'remote', 'hybrid']).optional(),
-    status: z.enum(['active', 'completed', 'flagged', 'approved', 'rejected']).optional()
+    status: z.enum(['active', 'completed', 'auto_closed', 'flagged', 'approved', 'rejected']).optional(),
+    verificationMethod: z.enum(['face', 'qr', 'nfc', 'pin']).optional() // How the clock-in was verified (pin: kiosk fallback)
   })
 });
 
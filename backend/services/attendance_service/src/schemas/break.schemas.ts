@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const breakSchemas = {
+  // Params schemas
+  attendanceIdParams: z.object({
+    attendanceId: z.string().uuid('Invalid attendanceId format')
+  }),
+
+  // Body schemas
+  startBreak: z.object({
+    body: z.object({
+      breakType: z.enum(['paid', 'unpaid']).default('unpaid'),
+      notes: z.string().max(500).optional()
+    })
+  })
+};
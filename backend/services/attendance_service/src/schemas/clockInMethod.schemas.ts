@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const clockInMethods = z.array(z.enum(['face', 'qr', 'nfc'])).min(1)
+  .refine(methods => new Set(methods).size === methods.length, { message: 'Clock-in methods must be unique' });
+
+export const clockInMethodSchemas = {
+  // Params schemas
+  geofenceIdParams: z.object({
+    geofenceId: z.string().uuid('Invalid geofenceId format')
+  }),
+
+  badgeIdParams: z.object({
+    badgeId: z.string().uuid('Invalid badgeId format')
+  }),
+
+  // Query schemas
+  getBadgesQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional()
+  }),
+
+  // Body schemas
+  updateSiteMethods: z.object({
+    body: z.object({
+      clockInMethods: clockInMethods.nullable() // null removes the override
+    })
+  }),
+
+  registerBadge: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      badgeUid: z.string().regex(/^[0-9A-Fa-f]{2}([\s:-]?[0-9A-Fa-f]{2}){1,31}$/, 'Badge UID must be hex bytes'),
+      label: z.string().max(255).optional()
+    })
+  })
+};
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+const status = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+
+export const correctionSchemas = {
+  // Params schemas
+  requestIdParams: z.object({
+    requestId: z.string().uuid('Invalid requestId format')
+  }),
+
+  attendanceIdParams: z.object({
+    attendanceId: z.string().uuid('Invalid attendanceId format')
+  }),
+
+  // Query schemas
+  getRequestsQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    attendanceId: z.string().uuid('Invalid attendanceId format').optional(),
+    status: status.optional()
+  }),
+
+  getMyRequestsQuery: z.object({
+    status: status.optional()
+  }),
+
+  // Body schemas
+  requestCorrection: z.object({
+    body: z.object({
+      attendanceId: z.string().uuid('Invalid attendanceId format'),
+      clockInTime: z.string().datetime({ offset: true }).optional(),
+      clockOutTime: z.string().datetime({ offset: true }).optional(),
+      reason: z.string().min(1, 'Reason is required').max(1000)
+    }).refine(body => !!body.clockInTime || !!body.clockOutTime, {
+      message: 'clockInTime or clockOutTime is required',
+      path: ['clockOutTime']
+    })
+  }),
+
+  approveRequest: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  rejectRequest: z.object({
+    body: z.object({
+      reason: z.string().min(1, 'Rejection reason is required').max(500)
+    })
+  })
+};
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const riskLevel = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+const numeric = (field: string) => z.string().regex(/^\d+$/, `${field} must be a number`);
+const notes = z.string().max(1000);
+
+const dateRange = {
+  startDate: localDate,
+  endDate: localDate
+};
+
+const optionalDateRange = {
+  startDate: localDate.optional(),
+  endDate: localDate.optional()
+};
+
+const validDateRange = {
+  message: 'startDate must be before endDate',
+  path: ['endDate']
+};
+
+const completeDateRange = {
+  message: 'startDate and endDate must be given together',
+  path: ['endDate']
+};
+
+export const fraudSchemas = {
+  // Params schemas
+  companyIdParams: z.object({
+    companyId: z.string().uuid('Invalid companyId format')
+  }),
+
+  attendanceIdParams: z.object({
+    attendanceId: z.string().uuid('Invalid attendanceId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  flagIdParams: z.object({
+    flagId: z.string().uuid('Invalid flagId format')
+  }),
+
+  resultIdParams: z.object({
+    resultId: z.string().uuid('Invalid resultId format')
+  }),
+
+  // Query schemas
+  getFraudDashboardQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getFraudAlertsQuery: z.object({
+    ...optionalDateRange,
+    status: z.enum(['pending', 'reviewed', 'all']).optional(),
+    riskLevel: riskLevel.optional(),
+    assignedTo: z.string().uuid('Invalid assignedTo format').optional(),
+    unassigned: z.enum(['true', 'false']).optional(),
+    page: numeric('Page').optional(),
+    limit: numeric('Limit').optional()
+  })
+    .refine(query => !query.startDate === !query.endDate, completeDateRange)
+    .refine(query => !query.startDate || !query.endDate || query.startDate <= query.endDate, validDateRange),
+
+  getFraudPatternsQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getRiskAssessmentQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getFraudFlagsQuery: z.object({
+    ...optionalDateRange,
+    status: z.enum(['open', 'resolved', 'ignored', 'all']).optional(),
+    flagType: z.string().min(1).max(100).optional(),
+    severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+    userId: z.string().uuid('Invalid userId format').optional(),
+    page: numeric('Page').optional(),
+    limit: numeric('Limit').optional()
+  })
+    .refine(query => !query.startDate === !query.endDate, completeDateRange)
+    .refine(query => !query.startDate || !query.endDate || query.startDate <= query.endDate, validDateRange),
+
+  getPreventionMetricsQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  getFraudTrendsQuery: z.object({
+    ...dateRange
+  }).refine(query => query.startDate <= query.endDate, validDateRange),
+
+  // Body schemas
+  analyzeFraud: z.object({
+    body: z.object({
+      attendanceId: z.string().uuid('Invalid attendanceId format')
+    })
+  }),
+
+  calculateRisk: z.object({
+    body: z.object({
+      riskScore: z.number().min(0).max(100)
+    })
+  }),
+
+  resolveFraudFlag: z.object({
+    body: z.object({
+      notes: notes.optional()
+    })
+  }),
+
+  ignoreFraudFlag: z.object({
+    body: z.object({
+      notes: notes.optional()
+    })
+  }),
+
+  assignReview: z.object({
+    body: z.object({
+      reviewerId: z.string().uuid('Invalid reviewerId format').nullable() // null = unassign
+    })
+  }),
+
+  reviewAssessment: z.object({
+    body: z.object({
+      decision: z.enum(['legitimate', 'fraudulent']),
+      notes: notes.optional()
+    })
+  }),
+
+  updatePreventionSettings: z.object({
+    body: z.object({
+      companyId: z.string().uuid('Invalid companyId format').optional(), // Platform admins only; defaults to the caller's company
+      isEnabled: z.boolean().optional(),
+      flagRiskLevel: riskLevel.optional(),
+      blockRiskLevel: riskLevel.nullable().optional(), // null = never block
+      defaultReviewerId: z.string().uuid('Invalid defaultReviewerId format').nullable().optional()
+    }).refine(body => (
+      body.isEnabled !== undefined ||
+      body.flagRiskLevel !== undefined ||
+      body.blockRiskLevel !== undefined ||
+      body.defaultReviewerId !== undefined
+    ), {
+      message: 'At least one setting is required'
+    })
+  })
+};
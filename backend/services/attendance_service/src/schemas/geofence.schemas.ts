@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+const meters = z.number().int().min(0).max(100000);
+
+// GeoJSON geometry: [longitude, latitude] positions, closed rings
+const position = z.array(z.number()).min(2).max(3)
+  .refine(([lon = 0, lat = 0]) => lon >= -180 && lon <= 180 && lat >= -90 && lat <= 90, {
+    message: 'Positions must be [longitude, latitude]'
+  });
+
+const ring = z.array(position).min(4, 'A ring needs at least 4 positions')
+  .refine(points => {
+    const first = points[0];
+    const last = points[points.length - 1];
+    return !!first && !!last && first[0] === last[0] && first[1] === last[1];
+  }, { message: 'A ring must end where it starts' });
+
+const polygonCoordinates = z.array(ring).min(1);
+
+const boundary = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonCoordinates }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonCoordinates).min(1) })
+]);
+
+// Geofence body
+const geofenceBody = z.object({
+  name: z.string().min(1, 'Geofence name is required').max(255),
+  description: z.string().max(1000).optional(),
+  siteGroupId: z.string().uuid('Invalid siteGroupId format').nullable().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  radiusMeters: meters.min(1).optional(),
+  boundary: boundary.nullable().optional(),
+  bufferZoneMeters: meters.optional(),
+  allowedDeviationMeters: meters.optional(),
+  masterPhotoUrl: z.string().url('Invalid masterPhotoUrl').max(500).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const siteGroupBody = z.object({
+  name: z.string().min(1, 'Site group name is required').max(255),
+  description: z.string().max(1000).optional(),
+  isActive: z.boolean().optional()
+});
+
+export const geofenceSchemas = {
+  // Params schemas
+  geofenceIdParams: z.object({
+    geofenceId: z.string().uuid('Invalid geofenceId format')
+  }),
+
+  siteGroupIdParams: z.object({
+    siteGroupId: z.string().uuid('Invalid siteGroupId format')
+  }),
+
+  assignmentIdParams: z.object({
+    assignmentId: z.string().uuid('Invalid assignmentId format')
+  }),
+
+  // Query schemas
+  listGeofencesQuery: z.object({
+    includeInactive: z.enum(['true', 'false']).optional()
+  }),
+
+  assignmentsQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional()
+  }),
+
+  // Body schemas
+  createGeofence: z.object({
+    body: geofenceBody.refine(body => !!body.boundary || (body.latitude !== undefined && body.longitude !== undefined), {
+      message: 'Provide latitude and longitude for a circle, or a GeoJSON boundary for a polygon',
+      path: ['boundary']
+    })
+  }),
+
+  updateGeofence: z.object({
+    body: geofenceBody.partial().refine(body => Object.keys(body).length > 0, {
+      message: 'At least one geofence field is required'
+    })
+  }),
+
+  importGeoJson: z.object({
+    body: z.object({
+      geojson: z.object({ type: z.string() }).passthrough(),
+      siteGroupId: z.string().uuid('Invalid siteGroupId format').optional(),
+      bufferZoneMeters: meters.optional(),
+      allowedDeviationMeters: meters.optional()
+    })
+  }),
+
+  testLocation: z.object({
+    body: z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      userId: z.string().uuid('Invalid userId format').optional()
+    })
+  }),
+
+  createSiteGroup: z.object({
+    body: siteGroupBody
+  }),
+
+  updateSiteGroup: z.object({
+    body: siteGroupBody.partial()
+  }),
+
+  createAssignment: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      geofenceId: z.string().uuid('Invalid geofenceId format').optional(),
+      siteGroupId: z.string().uuid('Invalid siteGroupId format').optional()
+    }).refine(body => !!body.geofenceId !== !!body.siteGroupId, {
+      message: 'Provide either geofenceId or siteGroupId'
+    })
+  })
+};
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { holidayPresets } from '../config/holidayPresets';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const year = z.number().int().min(2000).max(2100);
+
+// Holiday calendar body
+const calendarBody = z.object({
+  name: z.string().min(1, 'Calendar name is required').max(255),
+  description: z.string().max(1000).optional(),
+  geofenceId: z.string().uuid('Invalid geofenceId format').nullable().optional(),
+  countryCode: z.string().regex(/^[A-Za-z]{2}$/, 'Country code must be 2 letters').nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const holidayBody = z.object({
+  date: localDate,
+  name: z.string().min(1, 'Holiday name is required').max(255)
+});
+
+export const holidaySchemas = {
+  // Params schemas
+  calendarIdParams: z.object({
+    calendarId: z.string().uuid('Invalid calendarId format')
+  }),
+
+  holidayIdParams: z.object({
+    calendarId: z.string().uuid('Invalid calendarId format'),
+    holidayId: z.string().uuid('Invalid holidayId format')
+  }),
+
+  // Query schemas
+  holidaysQuery: z.object({
+    startDate: localDate,
+    endDate: localDate,
+    geofenceId: z.string().uuid('Invalid geofenceId format').optional()
+  }).refine(query => query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate']
+  }),
+
+  listCalendarsQuery: z.object({
+    includeInactive: z.enum(['true', 'false']).optional()
+  }),
+
+  calendarHolidaysQuery: z.object({
+    year: z.string().regex(/^\d{4}$/, 'Year must be in YYYY format').optional()
+  }),
+
+  // Body schemas
+  createCalendar: z.object({
+    body: calendarBody
+  }),
+
+  updateCalendar: z.object({
+    body: calendarBody.partial()
+  }),
+
+  addHoliday: z.object({
+    body: holidayBody
+  }),
+
+  updateHoliday: z.object({
+    body: holidayBody.partial()
+  }),
+
+  applyPreset: z.object({
+    body: z.object({
+      preset: z.string().refine(preset => preset in holidayPresets, {
+        message: `Preset must be one of: ${Object.keys(holidayPresets).join(', ')}`
+      }),
+      years: z.array(year).min(1).max(10)
+    })
+  }),
+
+  importIcal: z.object({
+    body: z.object({
+      content: z.string().min(1, 'iCalendar content is required').max(2 * 1024 * 1024),
+      replaceExisting: z.boolean().optional(),
+      untilYear: year.optional()
+    })
+  })
+};
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+export const kioskSchemas = {
+  // Params schemas
+  kioskIdParams: z.object({
+    kioskId: z.string().uuid('Invalid kioskId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  // Query schemas
+  getAuditLogsQuery: z.object({
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional(),
+    event: z.enum([
+      'kiosk_registered', 'kiosk_updated', 'secret_rotated',
+      'clock_in', 'clock_out', 'punch_rejected',
+      'face_not_identified', 'pin_failed', 'pin_locked'
+    ]).optional(),
+    userId: z.string().uuid('Invalid userId format').optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional()
+  }),
+
+  // Body schemas
+  registerKiosk: z.object({
+    body: z.object({
+      name: z.string().min(1).max(255),
+      geofenceId: z.string().uuid('Invalid geofenceId format'),
+      pinFallbackEnabled: z.boolean().optional()
+    })
+  }),
+
+  updateKiosk: z.object({
+    body: z.object({
+      name: z.string().min(1).max(255).optional(),
+      geofenceId: z.string().uuid('Invalid geofenceId format').optional(),
+      pinFallbackEnabled: z.boolean().optional(),
+      isActive: z.boolean().optional()
+    })
+  }),
+
+  setPin: z.object({
+    body: z.object({
+      pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits')
+    })
+  }),
+
+  pinPunch: z.object({
+    body: z.object({
+      employeeId: z.string().min(1).max(100),
+      pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits')
+    })
+  })
+};
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const balanceMinutes = z.number().int().min(0).max(366 * 24 * 60);
+const year = z.string().regex(/^\d{4}$/, 'Year must be in YYYY format');
+
+// Leave type body
+const leaveTypeBody = z.object({
+  code: z.string().min(1, 'Leave type code is required').max(20),
+  name: z.string().min(1, 'Leave type name is required').max(255),
+  description: z.string().max(1000).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #1E90FF').nullable().optional(),
+  isPaid: z.boolean().optional(),
+  approvalLevels: z.number().int().min(1).max(2).optional(),
+  allowNegativeBalance: z.boolean().optional(),
+  accrualMethod: z.enum(['none', 'monthly', 'per_hours_worked']).optional(),
+  accrualMinutes: balanceMinutes.optional(),
+  accrualPerWorkedMinutes: z.number().int().min(1).max(366 * 24 * 60).nullable().optional(),
+  maxBalanceMinutes: balanceMinutes.nullable().optional(),
+  carryOverCapMinutes: balanceMinutes.nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+const dateRange = {
+  startDate: localDate,
+  endDate: localDate
+};
+
+export const leaveSchemas = {
+  // Params schemas
+  leaveTypeIdParams: z.object({
+    leaveTypeId: z.string().uuid('Invalid leaveTypeId format')
+  }),
+
+  requestIdParams: z.object({
+    requestId: z.string().uuid('Invalid requestId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  // Query schemas
+  listTypesQuery: z.object({
+    includeInactive: z.enum(['true', 'false']).optional()
+  }),
+
+  balancesQuery: z.object({
+    year: year.optional()
+  }),
+
+  getRequestsQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    leaveTypeId: z.string().uuid('Invalid leaveTypeId format').optional(),
+    status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+    startDate: localDate.optional(),
+    endDate: localDate.optional()
+  }),
+
+  getMyRequestsQuery: z.object({
+    status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+    startDate: localDate.optional(),
+    endDate: localDate.optional()
+  }),
+
+  calendarQuery: z.object({
+    ...dateRange,
+    includePending: z.enum(['true', 'false']).optional()
+  }).refine(query => query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate']
+  }),
+
+  // Body schemas
+  createLeaveType: z.object({
+    body: leaveTypeBody.refine(body => body.accrualMethod !== 'per_hours_worked' || !!body.accrualPerWorkedMinutes, {
+      message: 'accrualPerWorkedMinutes is required for per_hours_worked accrual',
+      path: ['accrualPerWorkedMinutes']
+    })
+  }),
+
+  updateLeaveType: z.object({
+    body: leaveTypeBody.partial()
+  }),
+
+  adjustBalance: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      leaveTypeId: z.string().uuid('Invalid leaveTypeId format'),
+      year: z.number().int().min(2000).max(2100),
+      minutes: z.number().int().min(-366 * 24 * 60).max(366 * 24 * 60).refine(minutes => minutes !== 0, {
+        message: 'Adjustment cannot be zero'
+      }),
+      reason: z.string().min(1, 'Adjustment reason is required').max(500)
+    })
+  }),
+
+  createRequest: z.object({
+    body: z.object({
+      leaveTypeId: z.string().uuid('Invalid leaveTypeId format'),
+      ...dateRange,
+      halfDay: z.boolean().optional(),
+      reason: z.string().max(1000).optional()
+    }).refine(body => body.startDate <= body.endDate, {
+      message: 'startDate must be before endDate',
+      path: ['endDate']
+    })
+  }),
+
+  approveRequest: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  rejectRequest: z.object({
+    body: z.object({
+      reason: z.string().min(1, 'Rejection reason is required').max(500)
+    })
+  })
+};
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { env } from '../config/env';
+
+const signedPunch = z.object({
+  envelope: z.string().min(1).max(8192), // Base64 of the signed JSON payload
+  signature: z.string().min(1).max(512) // Base64
+});
+
+// Multipart forms carry the punches as a JSON string next to the photos
+const signedPunches = z.string().refine(value => {
+  try {
+    return z.array(signedPunch).min(1).max(env.OFFLINE_SYNC_MAX_PUNCHES).safeParse(JSON.parse(value)).success;
+  } catch {
+    return false;
+  }
+}, { message: `punches must be a JSON array of 1-${env.OFFLINE_SYNC_MAX_PUNCHES} { envelope, signature } objects` });
+
+export const offlinePunchSchemas = {
+  // Params schemas
+  deviceKeyIdParams: z.object({
+    deviceKeyId: z.string().uuid('Invalid deviceKeyId format')
+  }),
+
+  // Query schemas
+  getDeviceKeysQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    includeRevoked: z.enum(['true', 'false']).optional()
+  }),
+
+  getPunchesQuery: z.object({
+    page: z.string().regex(/^\d+$/).optional(),
+    limit: z.string().regex(/^\d+$/).optional(),
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: z.enum(['accepted', 'flagged', 'rejected']).optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional()
+  }),
+
+  // Body schemas
+  registerDeviceKey: z.object({
+    body: z.object({
+      deviceId: z.string().min(1).max(255),
+      algorithm: z.enum(['ed25519', 'ecdsa-p256']),
+      publicKey: z.string().min(1).max(4096) // SPKI, PEM or base64 DER
+    })
+  }),
+
+  syncPunches: z.object({
+    body: z.object({
+      punches: signedPunches
+    })
+  })
+};
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const threshold = z.number().int().min(0).max(7 * 24 * 60).nullable();
+const multiplier = z.number().min(0).max(10);
+
+// Overtime rule set body
+const ruleSetBody = z.object({
+  name: z.string().min(1, 'Rule set name is required').max(255),
+  description: z.string().max(1000).optional(),
+  isDefault: z.boolean().optional(),
+  dailyOvertimeAfterMinutes: threshold.optional(),
+  dailyDoubleTimeAfterMinutes: threshold.optional(),
+  weeklyOvertimeAfterMinutes: threshold.optional(),
+  weekStartsOn: z.number().int().min(1).max(7).optional(),
+  nightStart: timeOfDay.nullable().optional(),
+  nightEnd: timeOfDay.nullable().optional(),
+  weekendDays: z.array(z.number().int().min(1).max(7)).max(7).optional(),
+  holidayDates: z.array(localDate).max(366).optional(),
+  overtimeMultiplier: multiplier.optional(),
+  doubleTimeMultiplier: multiplier.optional(),
+  nightMultiplier: multiplier.optional(),
+  weekendMultiplier: multiplier.optional(),
+  holidayMultiplier: multiplier.optional(),
+  isActive: z.boolean().optional()
+});
+
+const periodFields = {
+  periodStart: localDate,
+  periodEnd: localDate,
+  userId: z.string().uuid('Invalid userId format').optional()
+};
+
+export const overtimeSchemas = {
+  // Params schemas
+  ruleSetIdParams: z.object({
+    ruleSetId: z.string().uuid('Invalid ruleSetId format')
+  }),
+
+  attendanceIdParams: z.object({
+    attendanceId: z.string().uuid('Invalid attendanceId format')
+  }),
+
+  // Query schemas
+  listQuery: z.object({
+    includeInactive: z.enum(['true', 'false']).optional()
+  }),
+
+  periodQuery: z.object(periodFields).refine(query => query.periodStart <= query.periodEnd, {
+    message: 'periodStart must be before periodEnd',
+    path: ['periodEnd']
+  }),
+
+  // Body schemas
+  createRuleSet: z.object({
+    body: ruleSetBody.refine(body => !!body.nightStart === !!body.nightEnd, {
+      message: 'nightStart and nightEnd must be set together',
+      path: ['nightEnd']
+    })
+  }),
+
+  updateRuleSet: z.object({
+    body: ruleSetBody.partial()
+  }),
+
+  calculatePeriod: z.object({
+    body: z.object(periodFields).refine(body => body.periodStart <= body.periodEnd, {
+      message: 'periodStart must be before periodEnd',
+      path: ['periodEnd']
+    })
+  })
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { payrollFormats } from '../config/payrollFormats';
+
+const formatId = z.string().refine(format => format in payrollFormats, {
+  message: `Format must be one of: ${Object.keys(payrollFormats).join(', ')}`
+});
+
+export const payrollSchemas = {
+  // Params schemas
+  exportIdParams: z.object({
+    exportId: z.string().uuid('Invalid exportId format')
+  }),
+
+  mappingIdParams: z.object({
+    mappingId: z.string().uuid('Invalid mappingId format')
+  }),
+
+  // Query schemas
+  previewQuery: z.object({
+    payPeriodId: z.string().uuid('Invalid payPeriodId format'),
+    format: formatId
+  }),
+
+  getExportsQuery: z.object({
+    payPeriodId: z.string().uuid('Invalid payPeriodId format').optional()
+  }),
+
+  getMappingsQuery: z.object({
+    format: formatId.optional()
+  }),
+
+  // Body schemas
+  createExport: z.object({
+    body: z.object({
+      payPeriodId: z.string().uuid('Invalid payPeriodId format'),
+      format: formatId
+    })
+  }),
+
+  upsertMapping: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      format: formatId,
+      externalEmployeeId: z.string().min(1, 'External employee ID is required').max(100)
+    })
+  })
+};
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const photoSchemas = {
+  // Params schemas
+  attendanceIdParams: z.object({
+    attendanceId: z.string().uuid('Invalid attendanceId format')
+  }),
+
+  // Query schemas
+  signedPhotoQuery: z.object({
+    key: z.string().min(1).max(500),
+    expires: z.string().regex(/^\d+$/, 'Expires must be a number'),
+    signature: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid signature')
+  })
+};
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+const minutes = z.number().int().min(0).max(24 * 60);
+const clockInMethods = z.array(z.enum(['face', 'qr', 'nfc'])).min(1)
+  .refine(methods => new Set(methods).size === methods.length, { message: 'Clock-in methods must be unique' });
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const policySchemas = {
+  // Body schemas
+  updatePolicy: z.object({
+    body: z.object({
+      maxBreakMinutes: minutes.optional(),
+      maxPaidBreakMinutes: minutes.optional(),
+      payPeriodFrequency: z.enum(['weekly', 'biweekly', 'monthly']).optional(),
+      payPeriodAnchorDate: localDate.optional(),
+      payrollCompanyCode: z.string().max(20).nullable().optional(),
+      standardWorkdayMinutes: minutes.min(1).optional(),
+      geofenceEnforcement: z.enum(['flag', 'reject']).optional(),
+      clockInMethods: clockInMethods.optional(),
+      autoClockOutEnabled: z.boolean().optional(),
+      autoClockOutGraceMinutes: minutes.optional(),
+      autoClockOutCorrectionRequest: z.boolean().optional()
+    }).refine(body => Object.keys(body).length > 0, {
+      message: 'At least one policy field is required'
+    })
+  })
+};
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+const presenceState = z.enum(['onsite', 'remote', 'on_break', 'on_leave', 'late', 'not_in', 'clocked_out', 'absent', 'off']);
+
+export const presenceSchemas = {
+  // Query schemas
+  getPresenceQuery: z.object({
+    department: z.string().min(1).max(100).optional(),
+    teamId: z.string().uuid('Invalid teamId format').optional(),
+    geofenceId: z.string().uuid('Invalid geofenceId format').optional(),
+    state: presenceState.optional(),
+    format: z.enum(['full', 'compact']).optional()
+  }).refine(query => !(query.department && query.teamId), {
+    message: 'Filter by a department or a team, not both'
+  })
+};
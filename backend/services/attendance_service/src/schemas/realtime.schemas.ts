@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const realtimeSchemas = {
+  // Socket message schemas
+  subscribe: z.object({
+    department: z.string().min(1).max(100).optional(),
+    teamId: z.string().uuid('Invalid teamId format').optional()
+  }).refine(scope => !(scope.department && scope.teamId), {
+    message: 'Subscribe to a department or a team, not both'
+  })
+};
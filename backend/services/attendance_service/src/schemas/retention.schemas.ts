@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const retentionDays = z.number().int().min(1).max(3650);
+
+export const retentionSchemas = {
+  // Params schemas
+  holdIdParams: z.object({
+    holdId: z.string().uuid('Invalid holdId format')
+  }),
+
+  // Query schemas
+  getLegalHoldsQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: z.enum(['active', 'released', 'all']).optional()
+  }),
+
+  // Body schemas
+  updatePolicy: z.object({
+    body: z.object({
+      isEnabled: z.boolean().optional(),
+      photoRetentionDays: retentionDays.optional(),
+      verificationRetentionDays: retentionDays.optional(),
+      encodingRetentionDays: retentionDays.optional()
+    })
+  }),
+
+  placeLegalHold: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      reason: z.string().min(1).max(1000)
+    })
+  }),
+
+  releaseLegalHold: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  })
+};
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const workDays = z.array(z.number().int().min(1).max(7)).min(1).max(7);
+const minutes = z.number().int().min(0).max(24 * 60);
+
+// Shift template body
+const shiftTemplateBody = z.object({
+  name: z.string().min(1, 'Shift name is required').max(255),
+  description: z.string().max(1000).optional(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  breakMinutes: minutes.optional(),
+  graceInMinutes: minutes.optional(),
+  graceOutMinutes: minutes.optional(),
+  earlyClockInMinutes: minutes.optional(),
+  workDays: workDays.optional(),
+  color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid color format').optional(),
+  isActive: z.boolean().optional()
+});
+
+// Shift rotation body
+const shiftRotationBody = z.object({
+  name: z.string().min(1, 'Rotation name is required').max(255),
+  description: z.string().max(1000).optional(),
+  pattern: z.array(z.string().uuid('Invalid shift template ID').nullable())
+    .min(1, 'Rotation pattern must contain at least one day')
+    .max(366),
+  isActive: z.boolean().optional()
+});
+
+export const shiftSchemas = {
+  // Params schemas
+  templateIdParams: z.object({
+    templateId: z.string().uuid('Invalid templateId format')
+  }),
+
+  rotationIdParams: z.object({
+    rotationId: z.string().uuid('Invalid rotationId format')
+  }),
+
+  assignmentIdParams: z.object({
+    assignmentId: z.string().uuid('Invalid assignmentId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  // Query schemas
+  listQuery: z.object({
+    includeInactive: z.enum(['true', 'false']).optional()
+  }),
+
+  getAssignmentsQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    activeOn: localDate.optional()
+  }),
+
+  getScheduleQuery: z.object({
+    startDate: localDate,
+    endDate: localDate
+  }).refine(query => query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate']
+  }),
+
+  // Body schemas
+  createTemplate: z.object({
+    body: shiftTemplateBody
+  }),
+
+  updateTemplate: z.object({
+    body: shiftTemplateBody.partial()
+  }),
+
+  createRotation: z.object({
+    body: shiftRotationBody
+  }),
+
+  updateRotation: z.object({
+    body: shiftRotationBody.partial()
+  }),
+
+  createAssignment: z.object({
+    body: z.object({
+      userId: z.string().uuid('Invalid userId format'),
+      shiftTemplateId: z.string().uuid('Invalid shiftTemplateId format').optional(),
+      rotationId: z.string().uuid('Invalid rotationId format').optional(),
+      effectiveFrom: localDate,
+      effectiveTo: localDate.optional(),
+      notes: z.string().max(1000).optional()
+    }).refine(body => !!body.shiftTemplateId !== !!body.rotationId, {
+      message: 'Exactly one of shiftTemplateId or rotationId is required',
+      path: ['shiftTemplateId']
+    }).refine(body => !body.effectiveTo || body.effectiveFrom <= body.effectiveTo, {
+      message: 'effectiveTo must be on or after effectiveFrom',
+      path: ['effectiveTo']
+    })
+  }),
+
+  updateAssignment: z.object({
+    body: z.object({
+      shiftTemplateId: z.string().uuid('Invalid shiftTemplateId format').optional(),
+      rotationId: z.string().uuid('Invalid rotationId format').optional(),
+      effectiveFrom: localDate.optional(),
+      effectiveTo: localDate.optional(),
+      notes: z.string().max(1000).optional()
+    }).refine(body => !(body.shiftTemplateId && body.rotationId), {
+      message: 'Provide either shiftTemplateId or rotationId, not both',
+      path: ['shiftTemplateId']
+    })
+  })
+};
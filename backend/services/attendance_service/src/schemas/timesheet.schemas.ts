@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const timesheetSchemas = {
+  // Params schemas
+  payPeriodIdParams: z.object({
+    payPeriodId: z.string().uuid('Invalid payPeriodId format')
+  }),
+
+  timesheetIdParams: z.object({
+    timesheetId: z.string().uuid('Invalid timesheetId format')
+  }),
+
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  // Query schemas
+  getPayPeriodsQuery: z.object({
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional()
+  }),
+
+  getTimesheetsQuery: z.object({
+    payPeriodId: z.string().uuid('Invalid payPeriodId format').optional(),
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: z.enum(['draft', 'submitted', 'approved', 'rejected']).optional()
+  }),
+
+  getUserTimesheetsQuery: z.object({
+    payPeriodId: z.string().uuid('Invalid payPeriodId format').optional()
+  }),
+
+  // Body schemas
+  createPayPeriod: z.object({
+    body: z.object({
+      date: localDate.optional()
+    })
+  }),
+
+  submitTimesheet: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  approveTimesheet: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  rejectTimesheet: z.object({
+    body: z.object({
+      reason: z.string().min(1, 'Rejection reason is required').max(500)
+    })
+  }),
+
+  reopenTimesheet: z.object({
+    body: z.object({
+      reason: z.string().min(1, 'Reopen reason is required').max(500)
+    })
+  })
+};
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+const workMode = z.enum(['onsite', 'remote', 'hybrid'], {
+  errorMap: () => ({ message: 'Work mode must be onsite, remote, or hybrid' })
+});
+
+const location = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().positive().optional(),
+  address: z.string().optional()
+});
+
+const device = {
+  deviceId: z.string().min(1).max(255).optional(),
+  deviceInfo: z.string().max(1000).optional(),
+  userAgent: z.string().max(1000).optional()
+};
+
+export const verificationSchemas = {
+  // Params schemas
+  verificationIdParams: z.object({
+    verificationId: z.string().uuid('Invalid verificationId format')
+  }),
+
+  // Body schemas (the employee and company come from the token)
+  verifyFace: z.object({
+    body: z.object({})
+  }),
+
+  verifyActivity: z.object({
+    body: z.object({})
+  }),
+
+  verifyLocation: z.object({
+    body: z.object({
+      workMode,
+      location: location.optional()
+    })
+  }),
+
+  verifyLiveness: z.object({
+    body: z.object({})
+  }),
+
+  comprehensiveVerification: z.object({
+    body: z.object({
+      workMode,
+      location: location.optional(),
+      ...device
+    })
+  }),
+
+  verifyDevice: z.object({
+    body: z.object({
+      ...device
+    }).refine(body => !!body.deviceId || !!body.deviceInfo || !!body.userAgent, {
+      message: 'deviceId, deviceInfo or userAgent is required'
+    })
+  }),
+
+  verifyGeofence: z.object({
+    body: z.object({
+      location,
+      geofenceId: z.string().uuid('Invalid geofenceId format').optional()
+    })
+  })
+};
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const status = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+
+export const workLocationSchemas = {
+  // Params schemas
+  userIdParams: z.object({
+    userId: z.string().uuid('Invalid userId format')
+  }),
+
+  locationIdParams: z.object({
+    locationId: z.string().uuid('Invalid locationId format')
+  }),
+
+  // Query schemas
+  getAlternatesQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: status.optional()
+  }),
+
+  getMyAlternatesQuery: z.object({
+    status: status.optional()
+  }),
+
+  // Body schemas
+  requestAlternate: z.object({
+    body: z.object({
+      name: z.string().min(1, 'Location name is required').max(255),
+      address: z.string().max(1000).optional(),
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      radiusMeters: z.number().int().min(10).max(5000).optional(),
+      startDate: localDate,
+      endDate: localDate,
+      reason: z.string().min(1, 'Reason is required').max(1000)
+    }).refine(body => body.startDate <= body.endDate, {
+      message: 'startDate must be before endDate',
+      path: ['endDate']
+    })
+  }),
+
+  approveAlternate: z.object({
+    body: z.object({
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  rejectAlternate: z.object({
+    body: z.object({
+      reason: z.string().min(1, 'Rejection reason is required').max(500)
+    })
+  })
+};
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+const plannedWorkMode = z.enum(['onsite', 'remote']);
+const status = z.enum(['pending', 'approved', 'rejected', 'cancelled']);
+const scheduleIds = z.array(z.string().uuid('Invalid scheduleId format')).min(1, 'At least one schedule is required').max(500);
+
+// Weekly pattern, e.g. { "monday": "onsite", "tuesday": "remote" }
+const schedulePattern = z.object({
+  monday: plannedWorkMode.optional(),
+  tuesday: plannedWorkMode.optional(),
+  wednesday: plannedWorkMode.optional(),
+  thursday: plannedWorkMode.optional(),
+  friday: plannedWorkMode.optional(),
+  saturday: plannedWorkMode.optional(),
+  sunday: plannedWorkMode.optional()
+}).strict().refine(pattern => Object.values(pattern).some(Boolean), {
+  message: 'The pattern must plan at least one weekday'
+});
+
+const dateRange = {
+  startDate: localDate,
+  endDate: localDate
+};
+
+export const workModeSchemas = {
+  // Params schemas
+  templateIdParams: z.object({
+    templateId: z.string().uuid('Invalid templateId format')
+  }),
+
+  scheduleIdParams: z.object({
+    scheduleId: z.string().uuid('Invalid scheduleId format')
+  }),
+
+  ruleIdParams: z.object({
+    ruleId: z.string().uuid('Invalid ruleId format')
+  }),
+
+  // Query schemas
+  getSchedulesQuery: z.object({
+    userId: z.string().uuid('Invalid userId format').optional(),
+    status: status.optional(),
+    startDate: localDate.optional(),
+    endDate: localDate.optional()
+  }),
+
+  getMySchedulesQuery: z.object({
+    status: status.optional(),
+    startDate: localDate.optional(),
+    endDate: localDate.optional()
+  }),
+
+  capacityQuery: z.object({
+    ...dateRange,
+    department: z.string().min(1).max(100).optional()
+  }).refine(query => query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate']
+  }),
+
+  // Body schemas
+  createTemplate: z.object({
+    body: z.object({
+      templateName: z.string().min(1, 'Template name is required').max(255),
+      schedulePattern,
+      startDate: localDate,
+      endDate: localDate.nullable().optional()
+    }).refine(body => !body.endDate || body.startDate <= body.endDate, {
+      message: 'startDate must be before endDate',
+      path: ['endDate']
+    })
+  }),
+
+  updateTemplate: z.object({
+    body: z.object({
+      templateName: z.string().min(1).max(255).optional(),
+      schedulePattern: schedulePattern.optional(),
+      startDate: localDate.optional(),
+      endDate: localDate.nullable().optional()
+    })
+  }),
+
+  applyTemplate: z.object({
+    body: z.object(dateRange).refine(body => body.startDate <= body.endDate, {
+      message: 'startDate must be before endDate',
+      path: ['endDate']
+    })
+  }),
+
+  planSchedule: z.object({
+    body: z.object({
+      days: z.array(z.object({
+        date: localDate,
+        workMode: plannedWorkMode,
+        locationType: z.enum(['office', 'home', 'client_site', 'travel']).optional(),
+        notes: z.string().max(1000).optional()
+      })).min(1, 'At least one day is required').max(92)
+    })
+  }),
+
+  approveSchedules: z.object({
+    body: z.object({
+      scheduleIds,
+      notes: z.string().max(1000).optional()
+    })
+  }),
+
+  rejectSchedules: z.object({
+    body: z.object({
+      scheduleIds,
+      reason: z.string().min(1, 'Rejection reason is required').max(500)
+    })
+  }),
+
+  createCapacityRule: z.object({
+    body: z.object({
+      department: z.string().min(1).max(100).nullable().optional(),
+      maxRemotePercent: z.number().int().min(0).max(100)
+    })
+  }),
+
+  updateCapacityRule: z.object({
+    body: z.object({
+      department: z.string().min(1).max(100).nullable().optional(),
+      maxRemotePercent: z.number().int().min(0).max(100).optional()
+    })
+  })
+};
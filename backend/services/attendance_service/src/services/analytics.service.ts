@@ -0,0 +1,1395 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { users } from '../db/schema/auth';
+import { activityMonitoring } from '../db/schema/activity';
+import { fraudDetectionResults } from '../db/schema/fraud';
+import { dailyAttendanceSummaries } from '../db/schema/dailyStatus';
+import { teams, userTeams } from '../db/schema/team';
+import { attendanceCorrectionRequests } from '../db/schema/correction';
+import { leaveRequests } from '../db/schema/leave';
+import { workModeSchedules } from '../db/schema/workMode';
+import { analyticsReports } from '../db/schema/analytics';
+import { logger } from '../utils/logger';
+import { ShiftService } from './shift.service';
+import { DailyStatus, DailyAttendanceSummary } from './dailyStatus.service';
+import { getLocalDateString, getIsoWeekday, addDaysToDateString, daysBetweenDateStrings, zonedTimeToUtc } from '../utils/helpers';
+import { eq, and, asc, desc, gte, lt, lte, isNull, sql, SQL } from 'drizzle-orm';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+export type AnalyticsReport = typeof analyticsReports.$inferSelect;
+export type AnalyticsReportSummary = Omit<AnalyticsReport, 'content'>;
+export type AnalyticsReportType = AnalyticsReport['reportType'];
+export type AnalyticsReportFormat = AnalyticsReport['format'];
+
+export interface AnalyticsFilters {
+  startDate: string;
+  endDate: string;
+  department?: string;
+  teamId?: string;
+  userId?: string;
+}
+
+export interface AnalyticsPeriod {
+  startDate: string;
+  endDate: string;
+  timezone: string;
+}
+
+export interface ProductivitySummary {
+  sessions: number;
+  employees: number;
+  workedMinutes: number;
+  productiveMinutes: number;
+  breakMinutes: number;
+  distractionMinutes: number;
+  productiveRatio: number | null; // Productive share of worked minutes, in percent
+  avgProductivityScore: number | null;
+  avgActivityScore: number | null;
+}
+
+export interface ActivitySummary {
+  sessions: number;
+  sessionMinutes: number;
+  productiveMinutes: number;
+  idleMinutes: number;
+  distractionMinutes: number;
+  focusMinutes: number;
+  applicationSwitches: number;
+  avgEngagementScore: number | null;
+  avgPresenceScore: number | null;
+}
+
+export interface ProductivityTrendPoint {
+  date: string;
+  sessions: number;
+  workedMinutes: number;
+  productiveMinutes: number;
+  avgProductivityScore: number | null;
+}
+
+export interface DepartmentProductivity {
+  department: string | null;
+  employees: number;
+  workedMinutes: number;
+  productiveMinutes: number;
+  avgProductivityScore: number | null;
+}
+
+export interface ProductivityAnalytics {
+  period: AnalyticsPeriod;
+  summary: ProductivitySummary;
+  activity: ActivitySummary;
+  trend: ProductivityTrendPoint[];
+  byDepartment?: DepartmentProductivity[];
+}
+
+export interface AttendanceRates {
+  employeeDays: number;
+  counts: Partial<Record<DailyStatus, number>>;
+  attendanceRate: number | null; // Attended share of days employees were expected, in percent
+  punctualityRate: number | null; // On-time share of attended days, in percent
+  lateMinutes: number;
+  earlyLeaveMinutes: number;
+  workedMinutes: number;
+}
+
+export interface AttendanceRecordStats {
+  sessions: number;
+  remoteSessions: number;
+  autoClosed: number;
+  flagged: number;
+  outsideGeofence: number;
+  workModeMismatches: number;
+}
+
+export interface AttendanceTrendPoint {
+  date: string;
+  counts: Partial<Record<DailyStatus, number>>;
+  attendanceRate: number | null;
+}
+
+export interface DepartmentAttendance {
+  department: string | null;
+  employeeDays: number;
+  attendanceRate: number | null;
+  punctualityRate: number | null;
+  absentDays: number;
+  lateDays: number;
+}
+
+export interface AttendanceAnalytics {
+  period: AnalyticsPeriod;
+  summary: AttendanceRates;
+  records: AttendanceRecordStats;
+  trend: AttendanceTrendPoint[];
+  byDepartment?: DepartmentAttendance[];
+  days?: DailyAttendanceSummary[];
+}
+
+export interface FraudRiskUser {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  department: string | null;
+  assessed: number;
+  highRisk: number;
+  avgRiskScore: number | null;
+}
+
+export interface FraudAnalytics {
+  period: AnalyticsPeriod;
+  summary: {
+    assessed: number;
+    avgRiskScore: number | null;
+    byRiskLevel: Record<string, number>;
+    requiringReview: number;
+    pendingReview: number;
+    reviewed: number;
+  };
+  records: Pick<AttendanceRecordStats, 'flagged' | 'outsideGeofence' | 'workModeMismatches'>;
+  trend: { date: string; assessed: number; highRisk: number; avgRiskScore: number | null }[];
+  topRiskUsers: FraudRiskUser[];
+}
+
+export interface EmployeePerformance {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  employeeId: string | null;
+  department: string | null;
+  sessions: number;
+  workedMinutes: number;
+  attendedDays: number;
+  lateDays: number;
+  absentDays: number;
+  attendanceRate: number | null;
+  punctualityRate: number | null;
+  avgProductivityScore: number | null;
+  avgActivityScore: number | null;
+  highRiskAssessments: number;
+  performanceScore: number | null; // Mean of attendance rate, punctuality rate and productivity score
+}
+
+export interface PerformanceAnalytics {
+  period: AnalyticsPeriod;
+  averages: {
+    attendanceRate: number | null;
+    punctualityRate: number | null;
+    avgProductivityScore: number | null;
+    performanceScore: number | null;
+  };
+  employees: EmployeePerformance[];
+}
+
+export interface DashboardData {
+  date: string;
+  timezone: string;
+  today: {
+    total: number;
+    counts: Partial<Record<DailyStatus, number>>;
+    attendanceRate: number | null;
+    clockedIn: number;
+  };
+  pending: {
+    corrections: number;
+    leaveRequests: number;
+    workModeSchedules: number;
+    fraudReviews: number;
+  };
+  trend: AttendanceTrendPoint[];
+  productivity: ProductivitySummary;
+}
+
+export interface UserDashboardData {
+  date: string;
+  timezone: string;
+  today: DailyAttendanceSummary | null;
+  openSession: { id: string; clockInTime: Date; workMode: string } | null;
+  week: AttendanceRates;
+  month: AttendanceRates;
+  pending: {
+    corrections: number;
+    leaveRequests: number;
+  };
+  recent: DailyAttendanceSummary[];
+}
+
+export interface GenerateReportData {
+  reportType: AnalyticsReportType;
+  format: AnalyticsReportFormat;
+  startDate: string;
+  endDate: string;
+  department?: string;
+  teamId?: string;
+  userId?: string;
+}
+
+export interface AnalyticsServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type ReportRow = Record<string, string | number | boolean | null>;
+type StatusCountRow = { status: DailyStatus; count: number };
+
+const MAX_RANGE_DAYS = 366;
+const TREND_DAYS = 7;
+const TOP_RISK_USERS = 10;
+const MAX_REPORT_ROWS = 50000;
+const ATTENDED_STATUSES: DailyStatus[] = ['present', 'late', 'early_leave', 'remote'];
+const HIGH_RISK_LEVELS = ['HIGH', 'CRITICAL'];
+
+export class AnalyticsService {
+  private readonly shiftService = new ShiftService();
+
+  /**
+   * Worked and productive time from attendance records, plus desktop activity, over a date range
+   */
+  async getProductivityAnalytics(
+    companyId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsServiceResult<ProductivityAnalytics>> {
+    try {
+      const invalid = await this.validateFilters(companyId, filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const period = await this.getPeriod(companyId, filters);
+      const recordConditions = this.recordConditions(companyId, period, filters);
+
+      const analytics: ProductivityAnalytics = {
+        period,
+        summary: await this.getProductivitySummary(recordConditions),
+        activity: await this.getActivitySummary(companyId, period, filters),
+        trend: await this.getProductivityTrend(recordConditions, period.timezone)
+      };
+
+      if (!filters.userId) {
+        analytics.byDepartment = await this.getProductivityByDepartment(recordConditions);
+      }
+
+      return {
+        success: true,
+        data: analytics
+      };
+
+    } catch (error) {
+      logger.error('Failed to get productivity analytics:', error);
+      return {
+        success: false,
+        message: 'Failed to get productivity analytics',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Attendance rates and statuses from the daily summaries, plus session stats from attendance records
+   */
+  async getAttendanceAnalytics(
+    companyId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsServiceResult<AttendanceAnalytics>> {
+    try {
+      const invalid = await this.validateFilters(companyId, filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const period = await this.getPeriod(companyId, filters);
+      const summaryConditions = this.summaryConditions(companyId, filters.startDate, filters.endDate, filters);
+
+      const analytics: AttendanceAnalytics = {
+        period,
+        summary: await this.getAttendanceRates(summaryConditions),
+        records: await this.getRecordStats(this.recordConditions(companyId, period, filters)),
+        trend: await this.getAttendanceTrend(summaryConditions)
+      };
+
+      if (filters.userId) {
+        analytics.days = await db
+          .select()
+          .from(dailyAttendanceSummaries)
+          .where(and(...summaryConditions))
+          .orderBy(asc(dailyAttendanceSummaries.date));
+      } else {
+        analytics.byDepartment = await this.getAttendanceByDepartment(summaryConditions);
+      }
+
+      return {
+        success: true,
+        data: analytics
+      };
+
+    } catch (error) {
+      logger.error('Failed to get attendance analytics:', error);
+      return {
+        success: false,
+        message: 'Failed to get attendance analytics',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Fraud assessments by risk level, review backlog and the employees with the riskiest clock-ins
+   */
+  async getFraudAnalytics(
+    companyId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsServiceResult<FraudAnalytics>> {
+    try {
+      const invalid = await this.validateFilters(companyId, filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const period = await this.getPeriod(companyId, filters);
+      const recordConditions = this.recordConditions(companyId, period, filters);
+      const riskLevel = sql<string>`upper(${fraudDetectionResults.riskLevel})`;
+      const riskScore = sql`${fraudDetectionResults.overallRiskScore}::float8`;
+      const isHighRisk = sql`${riskLevel} in (${sql.join(HIGH_RISK_LEVELS.map(level => sql`${level}`), sql`, `)})`;
+
+      const levels = await db
+        .select({
+          riskLevel,
+          assessed: sql<number>`count(*)::int`,
+          riskScoreTotal: sql<number>`coalesce(sum(${riskScore}), 0)::float8`,
+          requiringReview: sql<number>`count(*) filter (where ${fraudDetectionResults.requiresManualReview} = true)::int`,
+          pendingReview: sql<number>`count(*) filter (where ${fraudDetectionResults.requiresManualReview} = true and ${fraudDetectionResults.reviewedAt} is null)::int`,
+          reviewed: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewedAt} is not null)::int`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...recordConditions))
+        .groupBy(sql`1`);
+
+      const assessed = levels.reduce((total, level) => total + level.assessed, 0);
+      const riskScoreTotal = levels.reduce((total, level) => total + level.riskScoreTotal, 0);
+
+      const trend = await db
+        .select({
+          date: this.localDate(attendanceRecords.clockInTime, period.timezone),
+          assessed: sql<number>`count(*)::int`,
+          highRisk: sql<number>`count(*) filter (where ${isHighRisk})::int`,
+          avgRiskScore: this.average(riskScore)
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...recordConditions))
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+
+      const topRiskUsers = await db
+        .select({
+          userId: attendanceRecords.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department,
+          assessed: sql<number>`count(*)::int`,
+          highRisk: sql<number>`count(*) filter (where ${isHighRisk})::int`,
+          avgRiskScore: this.average(riskScore)
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .innerJoin(users, eq(attendanceRecords.userId, users.id))
+        .where(and(...recordConditions))
+        .groupBy(attendanceRecords.userId, users.firstName, users.lastName, users.department)
+        .orderBy(desc(sql`count(*) filter (where ${isHighRisk})`), desc(sql`avg(${riskScore})`))
+        .limit(TOP_RISK_USERS);
+
+      const records = await this.getRecordStats(recordConditions);
+
+      return {
+        success: true,
+        data: {
+          period,
+          summary: {
+            assessed,
+            avgRiskScore: assessed > 0 ? this.round(riskScoreTotal / assessed) : null,
+            byRiskLevel: Object.fromEntries(levels.map(level => [level.riskLevel, level.assessed])),
+            requiringReview: levels.reduce((total, level) => total + level.requiringReview, 0),
+            pendingReview: levels.reduce((total, level) => total + level.pendingReview, 0),
+            reviewed: levels.reduce((total, level) => total + level.reviewed, 0)
+          },
+          records: {
+            flagged: records.flagged,
+            outsideGeofence: records.outsideGeofence,
+            workModeMismatches: records.workModeMismatches
+          },
+          trend,
+          topRiskUsers
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud analytics:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud analytics',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Per-employee scorecard: attendance, punctuality, productivity and risk, best performers first
+   */
+  async getPerformanceAnalytics(
+    companyId: string,
+    filters: AnalyticsFilters,
+    limit?: number
+  ): Promise<AnalyticsServiceResult<PerformanceAnalytics>> {
+    try {
+      const invalid = await this.validateFilters(companyId, filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const period = await this.getPeriod(companyId, filters);
+      const employees = await this.getEmployeePerformance(companyId, period, filters);
+
+      return {
+        success: true,
+        data: {
+          period,
+          averages: {
+            attendanceRate: this.mean(employees.map(employee => employee.attendanceRate)),
+            punctualityRate: this.mean(employees.map(employee => employee.punctualityRate)),
+            avgProductivityScore: this.mean(employees.map(employee => employee.avgProductivityScore)),
+            performanceScore: this.mean(employees.map(employee => employee.performanceScore))
+          },
+          employees: limit ? employees.slice(0, limit) : employees
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get performance analytics:', error);
+      return {
+        success: false,
+        message: 'Failed to get performance analytics',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Company dashboard for one local date (today by default): statuses, who is clocked in,
+   * what is waiting for review, and the last seven days
+   */
+  async getDashboardData(
+    companyId: string,
+    filters: { date?: string; department?: string; teamId?: string }
+  ): Promise<AnalyticsServiceResult<DashboardData>> {
+    try {
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const date = filters.date ?? getLocalDateString(new Date(), timezone);
+      const trendStart = addDaysToDateString(date, -(TREND_DAYS - 1));
+      const scope: AnalyticsFilters = { startDate: trendStart, endDate: date };
+      if (filters.department) scope.department = filters.department;
+      if (filters.teamId) scope.teamId = filters.teamId;
+
+      const invalid = await this.validateFilters(companyId, scope);
+      if (invalid) {
+        return invalid;
+      }
+
+      const todayCounts = await this.getStatusCounts(this.summaryConditions(companyId, date, date, scope));
+
+      const [openSessions] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(attendanceRecords)
+        .where(and(
+          eq(attendanceRecords.companyId, companyId),
+          isNull(attendanceRecords.clockOutTime),
+          ...this.userScope(attendanceRecords.userId, scope)
+        ));
+
+      const [pendingCorrections] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(attendanceCorrectionRequests)
+        .where(and(
+          eq(attendanceCorrectionRequests.companyId, companyId),
+          eq(attendanceCorrectionRequests.status, 'pending'),
+          ...this.userScope(attendanceCorrectionRequests.userId, scope)
+        ));
+
+      const [pendingLeave] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(leaveRequests)
+        .where(and(
+          eq(leaveRequests.companyId, companyId),
+          eq(leaveRequests.status, 'pending'),
+          ...this.userScope(leaveRequests.userId, scope)
+        ));
+
+      const [pendingSchedules] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(workModeSchedules)
+        .where(and(
+          eq(workModeSchedules.companyId, companyId),
+          eq(workModeSchedules.status, 'pending'),
+          gte(workModeSchedules.scheduleDate, date),
+          ...this.userScope(workModeSchedules.userId, scope)
+        ));
+
+      const [pendingFraudReviews] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(
+          eq(attendanceRecords.companyId, companyId),
+          eq(fraudDetectionResults.requiresManualReview, true),
+          isNull(fraudDetectionResults.reviewedAt),
+          ...this.userScope(attendanceRecords.userId, scope)
+        ));
+
+      const period: AnalyticsPeriod = { startDate: trendStart, endDate: date, timezone };
+      const todayTotal = todayCounts.reduce((total, row) => total + row.count, 0);
+      const todayByStatus = this.toCounts(todayCounts);
+
+      return {
+        success: true,
+        data: {
+          date,
+          timezone,
+          today: {
+            total: todayTotal,
+            counts: todayByStatus,
+            attendanceRate: this.getAttendanceRate(todayByStatus),
+            clockedIn: openSessions?.count ?? 0
+          },
+          pending: {
+            corrections: pendingCorrections?.count ?? 0,
+            leaveRequests: pendingLeave?.count ?? 0,
+            workModeSchedules: pendingSchedules?.count ?? 0,
+            fraudReviews: pendingFraudReviews?.count ?? 0
+          },
+          trend: await this.getAttendanceTrend(this.summaryConditions(companyId, trendStart, date, scope)),
+          productivity: await this.getProductivitySummary(this.recordConditions(companyId, period, scope))
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get dashboard data:', error);
+      return {
+        success: false,
+        message: 'Failed to get dashboard data',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Employee dashboard for one local date (today by default): today's status, the open session,
+   * the current week and month, and open requests
+   */
+  async getUserDashboard(
+    companyId: string,
+    userId: string,
+    date?: string
+  ): Promise<AnalyticsServiceResult<UserDashboardData>> {
+    try {
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const day = date ?? getLocalDateString(new Date(), timezone);
+      const weekStart = addDaysToDateString(day, 1 - getIsoWeekday(day));
+      const monthStart = `${day.slice(0, 8)}01`;
+      const scope = { userId };
+
+      const [today] = await db
+        .select()
+        .from(dailyAttendanceSummaries)
+        .where(and(...this.summaryConditions(companyId, day, day, scope)))
+        .limit(1);
+
+      const [openSession] = await db
+        .select({
+          id: attendanceRecords.id,
+          clockInTime: attendanceRecords.clockInTime,
+          workMode: attendanceRecords.workMode
+        })
+        .from(attendanceRecords)
+        .where(and(
+          eq(attendanceRecords.companyId, companyId),
+          eq(attendanceRecords.userId, userId),
+          isNull(attendanceRecords.clockOutTime)
+        ))
+        .orderBy(desc(attendanceRecords.clockInTime))
+        .limit(1);
+
+      const [pendingCorrections] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(attendanceCorrectionRequests)
+        .where(and(
+          eq(attendanceCorrectionRequests.companyId, companyId),
+          eq(attendanceCorrectionRequests.userId, userId),
+          eq(attendanceCorrectionRequests.status, 'pending')
+        ));
+
+      const [pendingLeave] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(leaveRequests)
+        .where(and(
+          eq(leaveRequests.companyId, companyId),
+          eq(leaveRequests.userId, userId),
+          eq(leaveRequests.status, 'pending')
+        ));
+
+      const recent = await db
+        .select()
+        .from(dailyAttendanceSummaries)
+        .where(and(...this.summaryConditions(companyId, addDaysToDateString(day, -(TREND_DAYS - 1)), day, scope)))
+        .orderBy(desc(dailyAttendanceSummaries.date));
+
+      return {
+        success: true,
+        data: {
+          date: day,
+          timezone,
+          today: today ?? null,
+          openSession: openSession ?? null,
+          week: await this.getAttendanceRates(this.summaryConditions(companyId, weekStart, day, scope)),
+          month: await this.getAttendanceRates(this.summaryConditions(companyId, monthStart, day, scope)),
+          pending: {
+            corrections: pendingCorrections?.count ?? 0,
+            leaveRequests: pendingLeave?.count ?? 0
+          },
+          recent
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get user dashboard:', error);
+      return {
+        success: false,
+        message: 'Failed to get user dashboard',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Generate a report file and record it in the report history
+   */
+  async generateReport(
+    companyId: string,
+    generatedBy: string,
+    data: GenerateReportData
+  ): Promise<AnalyticsServiceResult<AnalyticsReportSummary>> {
+    try {
+      const filters: AnalyticsFilters = { startDate: data.startDate, endDate: data.endDate };
+      if (data.department) filters.department = data.department;
+      if (data.teamId) filters.teamId = data.teamId;
+      if (data.userId) filters.userId = data.userId;
+
+      const invalid = await this.validateFilters(companyId, filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const period = await this.getPeriod(companyId, filters);
+      const rows = await this.getReportRows(companyId, data.reportType, period, filters);
+
+      if (rows.length > MAX_REPORT_ROWS) {
+        return {
+          success: false,
+          message: `Reports are limited to ${MAX_REPORT_ROWS} rows, narrow the date range or filters`,
+          error: 'REPORT_TOO_LARGE'
+        };
+      }
+
+      const { department, teamId, userId } = filters;
+      const [created] = await db.insert(analyticsReports).values({
+        companyId,
+        reportType: data.reportType,
+        format: data.format,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        filters: { department, teamId, userId },
+        fileName: `${data.reportType}-report-${data.startDate}-to-${data.endDate}.${data.format}`,
+        mimeType: data.format === 'csv' ? 'text/csv' : 'application/json',
+        content: data.format === 'csv' ? this.renderCsv(rows) : JSON.stringify(rows),
+        rowCount: rows.length,
+        generatedBy
+      }).returning();
+
+      if (!created) {
+        return {
+          success: false,
+          message: 'Failed to generate report',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Analytics report generated', {
+        service: 'attendance-service',
+        companyId,
+        reportId: created.id,
+        reportType: created.reportType,
+        format: created.format,
+        rowCount: created.rowCount
+      });
+
+      const { content: _content, ...summary } = created;
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: summary
+      };
+
+    } catch (error) {
+      logger.error('Failed to generate report:', error);
+      return {
+        success: false,
+        message: 'Failed to generate report',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the report history for a company, newest first
+   */
+  async getReports(
+    companyId: string,
+    reportType?: AnalyticsReportType,
+    limit: number = 50
+  ): Promise<AnalyticsServiceResult<AnalyticsReportSummary[]>> {
+    try {
+      const whereConditions = [eq(analyticsReports.companyId, companyId)];
+
+      if (reportType) {
+        whereConditions.push(eq(analyticsReports.reportType, reportType));
+      }
+
+      const reports = await db
+        .select({
+          id: analyticsReports.id,
+          companyId: analyticsReports.companyId,
+          reportType: analyticsReports.reportType,
+          format: analyticsReports.format,
+          startDate: analyticsReports.startDate,
+          endDate: analyticsReports.endDate,
+          filters: analyticsReports.filters,
+          fileName: analyticsReports.fileName,
+          mimeType: analyticsReports.mimeType,
+          rowCount: analyticsReports.rowCount,
+          generatedBy: analyticsReports.generatedBy,
+          createdAt: analyticsReports.createdAt
+        })
+        .from(analyticsReports)
+        .where(and(...whereConditions))
+        .orderBy(desc(analyticsReports.createdAt))
+        .limit(limit);
+
+      return {
+        success: true,
+        data: reports
+      };
+
+    } catch (error) {
+      logger.error('Failed to get reports:', error);
+      return {
+        success: false,
+        message: 'Failed to get reports',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a report including its file content
+   */
+  async getReport(companyId: string, reportId: string): Promise<AnalyticsServiceResult<AnalyticsReport>> {
+    try {
+      const [report] = await db
+        .select()
+        .from(analyticsReports)
+        .where(
+          and(
+            eq(analyticsReports.id, reportId),
+            eq(analyticsReports.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!report) {
+        return {
+          success: false,
+          message: 'Report not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: report
+      };
+
+    } catch (error) {
+      logger.error('Failed to get report:', error);
+      return {
+        success: false,
+        message: 'Failed to get report',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Reject over-long ranges and teams from another company
+   */
+  private async validateFilters(
+    companyId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsServiceResult<never> | null> {
+    if (daysBetweenDateStrings(filters.startDate, filters.endDate) + 1 > MAX_RANGE_DAYS) {
+      return {
+        success: false,
+        message: `Analytics can cover at most ${MAX_RANGE_DAYS} days`,
+        error: 'INVALID_DATE_RANGE'
+      };
+    }
+
+    if (filters.teamId) {
+      const [team] = await db
+        .select({ id: teams.id })
+        .from(teams)
+        .where(and(eq(teams.id, filters.teamId), eq(teams.companyId, companyId)))
+        .limit(1);
+
+      if (!team) {
+        return {
+          success: false,
+          message: 'Team not found',
+          error: 'NOT_FOUND'
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private async getPeriod(companyId: string, filters: AnalyticsFilters): Promise<AnalyticsPeriod> {
+    return {
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      timezone: await this.shiftService.getCompanyTimezone(companyId)
+    };
+  }
+
+  /**
+   * Limit a user ID column to one employee, a department (current, from users) or a team's active members
+   */
+  private userScope(column: AnyPgColumn, filters: Pick<AnalyticsFilters, 'department' | 'teamId' | 'userId'>): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.userId) {
+      conditions.push(eq(column, filters.userId));
+    }
+
+    if (filters.department) {
+      conditions.push(sql`${column} in (select ${users.id} from ${users} where ${users.department} = ${filters.department})`);
+    }
+
+    if (filters.teamId) {
+      conditions.push(sql`${column} in (select ${userTeams.userId} from ${userTeams} where ${userTeams.teamId} = ${filters.teamId} and ${userTeams.isActive} = true)`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Non-rejected attendance records clocked in on the company-local dates of the period
+   */
+  private recordConditions(companyId: string, period: AnalyticsPeriod, filters: AnalyticsFilters): SQL[] {
+    return [
+      eq(attendanceRecords.companyId, companyId),
+      gte(attendanceRecords.clockInTime, zonedTimeToUtc(period.startDate, '00:00', period.timezone)),
+      lt(attendanceRecords.clockInTime, zonedTimeToUtc(addDaysToDateString(period.endDate, 1), '00:00', period.timezone)),
+      sql`${attendanceRecords.status} is distinct from 'rejected'`,
+      ...this.userScope(attendanceRecords.userId, filters)
+    ];
+  }
+
+  private summaryConditions(companyId: string, startDate: string, endDate: string, filters: Partial<AnalyticsFilters>): SQL[] {
+    return [
+      eq(dailyAttendanceSummaries.companyId, companyId),
+      gte(dailyAttendanceSummaries.date, startDate),
+      lte(dailyAttendanceSummaries.date, endDate),
+      ...this.userScope(dailyAttendanceSummaries.userId, filters)
+    ];
+  }
+
+  private async getProductivitySummary(recordConditions: SQL[]): Promise<ProductivitySummary> {
+    const [row] = await db
+      .select({
+        sessions: sql<number>`count(*)::int`,
+        employees: sql<number>`count(distinct ${attendanceRecords.userId})::int`,
+        workedMinutes: sql<number>`coalesce(sum(${attendanceRecords.workedMinutes}), 0)::int`,
+        productiveMinutes: sql<number>`coalesce(sum(${attendanceRecords.productiveTime}), 0)::int`,
+        breakMinutes: sql<number>`coalesce(sum(${attendanceRecords.breakTime}), 0)::int`,
+        distractionMinutes: sql<number>`coalesce(sum(${attendanceRecords.distractionTime}), 0)::int`,
+        avgProductivityScore: this.average(sql`${attendanceRecords.productivityScore}::float8`),
+        avgActivityScore: this.average(sql`${attendanceRecords.activityScore}::float8`)
+      })
+      .from(attendanceRecords)
+      .where(and(...recordConditions));
+
+    const summary = row ?? {
+      sessions: 0,
+      employees: 0,
+      workedMinutes: 0,
+      productiveMinutes: 0,
+      breakMinutes: 0,
+      distractionMinutes: 0,
+      avgProductivityScore: null,
+      avgActivityScore: null
+    };
+
+    return {
+      ...summary,
+      productiveRatio: this.percent(summary.productiveMinutes, summary.workedMinutes)
+    };
+  }
+
+  /**
+   * Desktop activity sessions started on the company-local dates of the period
+   */
+  private async getActivitySummary(companyId: string, period: AnalyticsPeriod, filters: AnalyticsFilters): Promise<ActivitySummary> {
+    const [row] = await db
+      .select({
+        sessions: sql<number>`count(*)::int`,
+        sessionMinutes: sql<number>`coalesce(sum(${activityMonitoring.sessionDuration}), 0)::int`,
+        productiveMinutes: sql<number>`coalesce(sum(${activityMonitoring.productiveTime}), 0)::int`,
+        idleMinutes: sql<number>`coalesce(sum(${activityMonitoring.idleTime}), 0)::int`,
+        distractionMinutes: sql<number>`coalesce(sum(${activityMonitoring.distractionTime}), 0)::int`,
+        focusMinutes: sql<number>`coalesce(sum(${activityMonitoring.focusTime}), 0)::int`,
+        applicationSwitches: sql<number>`coalesce(sum(${activityMonitoring.applicationSwitches}), 0)::int`,
+        avgEngagementScore: this.average(sql`${activityMonitoring.engagementScore}::float8`),
+        avgPresenceScore: this.average(sql`${activityMonitoring.presenceScore}::float8`)
+      })
+      .from(activityMonitoring)
+      .where(and(
+        eq(activityMonitoring.companyId, companyId),
+        gte(activityMonitoring.sessionStart, zonedTimeToUtc(period.startDate, '00:00', period.timezone)),
+        lt(activityMonitoring.sessionStart, zonedTimeToUtc(addDaysToDateString(period.endDate, 1), '00:00', period.timezone)),
+        ...this.userScope(activityMonitoring.userId, filters)
+      ));
+
+    return row ?? {
+      sessions: 0,
+      sessionMinutes: 0,
+      productiveMinutes: 0,
+      idleMinutes: 0,
+      distractionMinutes: 0,
+      focusMinutes: 0,
+      applicationSwitches: 0,
+      avgEngagementScore: null,
+      avgPresenceScore: null
+    };
+  }
+
+  private async getProductivityTrend(recordConditions: SQL[], timezone: string): Promise<ProductivityTrendPoint[]> {
+    return db
+      .select({
+        date: this.localDate(attendanceRecords.clockInTime, timezone),
+        sessions: sql<number>`count(*)::int`,
+        workedMinutes: sql<number>`coalesce(sum(${attendanceRecords.workedMinutes}), 0)::int`,
+        productiveMinutes: sql<number>`coalesce(sum(${attendanceRecords.productiveTime}), 0)::int`,
+        avgProductivityScore: this.average(sql`${attendanceRecords.productivityScore}::float8`)
+      })
+      .from(attendanceRecords)
+      .where(and(...recordConditions))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+  }
+
+  private async getProductivityByDepartment(recordConditions: SQL[]): Promise<DepartmentProductivity[]> {
+    return db
+      .select({
+        department: users.department,
+        employees: sql<number>`count(distinct ${attendanceRecords.userId})::int`,
+        workedMinutes: sql<number>`coalesce(sum(${attendanceRecords.workedMinutes}), 0)::int`,
+        productiveMinutes: sql<number>`coalesce(sum(${attendanceRecords.productiveTime}), 0)::int`,
+        avgProductivityScore: this.average(sql`${attendanceRecords.productivityScore}::float8`)
+      })
+      .from(attendanceRecords)
+      .innerJoin(users, eq(attendanceRecords.userId, users.id))
+      .where(and(...recordConditions))
+      .groupBy(users.department)
+      .orderBy(asc(users.department));
+  }
+
+  private async getStatusCounts(summaryConditions: SQL[]): Promise<StatusCountRow[]> {
+    return db
+      .select({
+        status: dailyAttendanceSummaries.status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(dailyAttendanceSummaries)
+      .where(and(...summaryConditions))
+      .groupBy(dailyAttendanceSummaries.status);
+  }
+
+  private async getAttendanceRates(summaryConditions: SQL[]): Promise<AttendanceRates> {
+    const counts = this.toCounts(await this.getStatusCounts(summaryConditions));
+
+    const [totals] = await db
+      .select({
+        employeeDays: sql<number>`count(*)::int`,
+        lateMinutes: sql<number>`coalesce(sum(${dailyAttendanceSummaries.lateMinutes}), 0)::int`,
+        earlyLeaveMinutes: sql<number>`coalesce(sum(${dailyAttendanceSummaries.earlyLeaveMinutes}), 0)::int`,
+        workedMinutes: sql<number>`coalesce(sum(${dailyAttendanceSummaries.workedMinutes}), 0)::int`
+      })
+      .from(dailyAttendanceSummaries)
+      .where(and(...summaryConditions));
+
+    return {
+      employeeDays: totals?.employeeDays ?? 0,
+      counts,
+      attendanceRate: this.getAttendanceRate(counts),
+      punctualityRate: this.getPunctualityRate(counts),
+      lateMinutes: totals?.lateMinutes ?? 0,
+      earlyLeaveMinutes: totals?.earlyLeaveMinutes ?? 0,
+      workedMinutes: totals?.workedMinutes ?? 0
+    };
+  }
+
+  private async getAttendanceTrend(summaryConditions: SQL[]): Promise<AttendanceTrendPoint[]> {
+    const rows = await db
+      .select({
+        date: dailyAttendanceSummaries.date,
+        status: dailyAttendanceSummaries.status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(dailyAttendanceSummaries)
+      .where(and(...summaryConditions))
+      .groupBy(dailyAttendanceSummaries.date, dailyAttendanceSummaries.status)
+      .orderBy(asc(dailyAttendanceSummaries.date));
+
+    const byDate = new Map<string, Partial<Record<DailyStatus, number>>>();
+    for (const row of rows) {
+      const counts = byDate.get(row.date) ?? {};
+      counts[row.status] = row.count;
+      byDate.set(row.date, counts);
+    }
+
+    return [...byDate.entries()].map(([date, counts]) => ({
+      date,
+      counts,
+      attendanceRate: this.getAttendanceRate(counts)
+    }));
+  }
+
+  private async getAttendanceByDepartment(summaryConditions: SQL[]): Promise<DepartmentAttendance[]> {
+    const rows = await db
+      .select({
+        department: dailyAttendanceSummaries.department,
+        status: dailyAttendanceSummaries.status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(dailyAttendanceSummaries)
+      .where(and(...summaryConditions))
+      .groupBy(dailyAttendanceSummaries.department, dailyAttendanceSummaries.status)
+      .orderBy(asc(dailyAttendanceSummaries.department));
+
+    const byDepartment = new Map<string | null, Partial<Record<DailyStatus, number>>>();
+    for (const row of rows) {
+      const counts = byDepartment.get(row.department) ?? {};
+      counts[row.status] = row.count;
+      byDepartment.set(row.department, counts);
+    }
+
+    return [...byDepartment.entries()].map(([department, counts]) => ({
+      department,
+      employeeDays: Object.values(counts).reduce((total, count) => total + count, 0),
+      attendanceRate: this.getAttendanceRate(counts),
+      punctualityRate: this.getPunctualityRate(counts),
+      absentDays: counts.absent ?? 0,
+      lateDays: counts.late ?? 0
+    }));
+  }
+
+  private async getRecordStats(recordConditions: SQL[]): Promise<AttendanceRecordStats> {
+    const [row] = await db
+      .select({
+        sessions: sql<number>`count(*)::int`,
+        remoteSessions: sql<number>`count(*) filter (where ${attendanceRecords.workMode} = 'remote')::int`,
+        autoClosed: sql<number>`count(*) filter (where ${attendanceRecords.autoClosedAt} is not null)::int`,
+        flagged: sql<number>`count(*) filter (where ${attendanceRecords.status} = 'flagged')::int`,
+        outsideGeofence: sql<number>`count(*) filter (where ${attendanceRecords.geofenceZone} = 'outside')::int`,
+        workModeMismatches: sql<number>`count(*) filter (where ${attendanceRecords.workModeMismatch} = true)::int`
+      })
+      .from(attendanceRecords)
+      .where(and(...recordConditions));
+
+    return row ?? { sessions: 0, remoteSessions: 0, autoClosed: 0, flagged: 0, outsideGeofence: 0, workModeMismatches: 0 };
+  }
+
+  /**
+   * One scorecard per active employee in scope, merged from records, daily summaries and fraud assessments
+   */
+  private async getEmployeePerformance(
+    companyId: string,
+    period: AnalyticsPeriod,
+    filters: AnalyticsFilters
+  ): Promise<EmployeePerformance[]> {
+    const recordConditions = this.recordConditions(companyId, period, filters);
+
+    const employees = await db
+      .select({
+        userId: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        employeeId: users.employeeId,
+        department: users.department
+      })
+      .from(users)
+      .where(and(
+        eq(users.companyId, companyId),
+        eq(users.isActive, true),
+        ...this.userScope(users.id, filters)
+      ))
+      .orderBy(asc(users.lastName), asc(users.firstName));
+
+    const recordRows = await db
+      .select({
+        userId: attendanceRecords.userId,
+        sessions: sql<number>`count(*)::int`,
+        workedMinutes: sql<number>`coalesce(sum(${attendanceRecords.workedMinutes}), 0)::int`,
+        avgProductivityScore: this.average(sql`${attendanceRecords.productivityScore}::float8`),
+        avgActivityScore: this.average(sql`${attendanceRecords.activityScore}::float8`)
+      })
+      .from(attendanceRecords)
+      .where(and(...recordConditions))
+      .groupBy(attendanceRecords.userId);
+
+    const statusRows = await db
+      .select({
+        userId: dailyAttendanceSummaries.userId,
+        status: dailyAttendanceSummaries.status,
+        count: sql<number>`count(*)::int`
+      })
+      .from(dailyAttendanceSummaries)
+      .where(and(...this.summaryConditions(companyId, period.startDate, period.endDate, filters)))
+      .groupBy(dailyAttendanceSummaries.userId, dailyAttendanceSummaries.status);
+
+    const riskRows = await db
+      .select({
+        userId: attendanceRecords.userId,
+        highRisk: sql<number>`count(*)::int`
+      })
+      .from(fraudDetectionResults)
+      .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+      .where(and(
+        ...recordConditions,
+        sql`upper(${fraudDetectionResults.riskLevel}) in (${sql.join(HIGH_RISK_LEVELS.map(level => sql`${level}`), sql`, `)})`
+      ))
+      .groupBy(attendanceRecords.userId);
+
+    const records = new Map(recordRows.map(row => [row.userId, row]));
+    const risks = new Map(riskRows.map(row => [row.userId, row.highRisk]));
+    const statuses = new Map<string, Partial<Record<DailyStatus, number>>>();
+    for (const row of statusRows) {
+      const counts = statuses.get(row.userId) ?? {};
+      counts[row.status] = row.count;
+      statuses.set(row.userId, counts);
+    }
+
+    return employees
+      .map(employee => {
+        const record = records.get(employee.userId);
+        const counts = statuses.get(employee.userId) ?? {};
+        const attendanceRate = this.getAttendanceRate(counts);
+        const punctualityRate = this.getPunctualityRate(counts);
+        const avgProductivityScore = record?.avgProductivityScore ?? null;
+
+        return {
+          ...employee,
+          sessions: record?.sessions ?? 0,
+          workedMinutes: record?.workedMinutes ?? 0,
+          attendedDays: this.getAttendedDays(counts),
+          lateDays: counts.late ?? 0,
+          absentDays: counts.absent ?? 0,
+          attendanceRate,
+          punctualityRate,
+          avgProductivityScore,
+          avgActivityScore: record?.avgActivityScore ?? null,
+          highRiskAssessments: risks.get(employee.userId) ?? 0,
+          performanceScore: this.mean([attendanceRate, punctualityRate, avgProductivityScore])
+        };
+      })
+      .sort((a, b) => (b.performanceScore ?? -1) - (a.performanceScore ?? -1));
+  }
+
+  /**
+   * Flat rows for a report type
+   */
+  private async getReportRows(
+    companyId: string,
+    reportType: AnalyticsReportType,
+    period: AnalyticsPeriod,
+    filters: AnalyticsFilters
+  ): Promise<ReportRow[]> {
+    const recordConditions = this.recordConditions(companyId, period, filters);
+
+    switch (reportType) {
+      case 'attendance': {
+        const rows = await db
+          .select({
+            date: dailyAttendanceSummaries.date,
+            employeeId: users.employeeId,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            department: dailyAttendanceSummaries.department,
+            status: dailyAttendanceSummaries.status,
+            firstClockIn: dailyAttendanceSummaries.firstClockIn,
+            lastClockOut: dailyAttendanceSummaries.lastClockOut,
+            expectedMinutes: dailyAttendanceSummaries.expectedMinutes,
+            workedMinutes: dailyAttendanceSummaries.workedMinutes,
+            lateMinutes: dailyAttendanceSummaries.lateMinutes,
+            earlyLeaveMinutes: dailyAttendanceSummaries.earlyLeaveMinutes,
+            leaveMinutes: dailyAttendanceSummaries.leaveMinutes,
+            holidayName: dailyAttendanceSummaries.holidayName
+          })
+          .from(dailyAttendanceSummaries)
+          .innerJoin(users, eq(dailyAttendanceSummaries.userId, users.id))
+          .where(and(...this.summaryConditions(companyId, period.startDate, period.endDate, filters)))
+          .orderBy(asc(dailyAttendanceSummaries.date), asc(users.lastName), asc(users.firstName))
+          .limit(MAX_REPORT_ROWS + 1);
+
+        return rows.map(row => ({
+          ...row,
+          firstClockIn: row.firstClockIn?.toISOString() ?? null,
+          lastClockOut: row.lastClockOut?.toISOString() ?? null
+        }));
+      }
+
+      case 'productivity':
+        return db
+          .select({
+            employeeId: users.employeeId,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            department: users.department,
+            sessions: sql<number>`count(*)::int`,
+            workedMinutes: sql<number>`coalesce(sum(${attendanceRecords.workedMinutes}), 0)::int`,
+            productiveMinutes: sql<number>`coalesce(sum(${attendanceRecords.productiveTime}), 0)::int`,
+            breakMinutes: sql<number>`coalesce(sum(${attendanceRecords.breakTime}), 0)::int`,
+            distractionMinutes: sql<number>`coalesce(sum(${attendanceRecords.distractionTime}), 0)::int`,
+            avgProductivityScore: this.average(sql`${attendanceRecords.productivityScore}::float8`),
+            avgActivityScore: this.average(sql`${attendanceRecords.activityScore}::float8`)
+          })
+          .from(attendanceRecords)
+          .innerJoin(users, eq(attendanceRecords.userId, users.id))
+          .where(and(...recordConditions))
+          .groupBy(users.id, users.employeeId, users.firstName, users.lastName, users.department)
+          .orderBy(asc(users.lastName), asc(users.firstName))
+          .limit(MAX_REPORT_ROWS + 1);
+
+      case 'fraud': {
+        const rows = await db
+          .select({
+            attendanceId: attendanceRecords.id,
+            clockInTime: attendanceRecords.clockInTime,
+            employeeId: users.employeeId,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            department: users.department,
+            riskLevel: sql<string>`upper(${fraudDetectionResults.riskLevel})`,
+            riskScore: sql<number>`${fraudDetectionResults.overallRiskScore}::float8`,
+            requiresManualReview: fraudDetectionResults.requiresManualReview,
+            reviewedAt: fraudDetectionResults.reviewedAt,
+            recordStatus: attendanceRecords.status
+          })
+          .from(fraudDetectionResults)
+          .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+          .innerJoin(users, eq(attendanceRecords.userId, users.id))
+          .where(and(...recordConditions))
+          .orderBy(asc(attendanceRecords.clockInTime))
+          .limit(MAX_REPORT_ROWS + 1);
+
+        return rows.map(row => ({
+          ...row,
+          clockInTime: row.clockInTime.toISOString(),
+          reviewedAt: row.reviewedAt?.toISOString() ?? null
+        }));
+      }
+
+      case 'performance':
+        return (await this.getEmployeePerformance(companyId, period, filters)).map(({ userId: _userId, ...row }) => row);
+    }
+  }
+
+  private renderCsv(rows: ReportRow[]): string {
+    const [first] = rows;
+    if (!first) {
+      return '';
+    }
+
+    const columns = Object.keys(first);
+    const lines = [
+      columns.join(','),
+      ...rows.map(row => columns.map(column => this.escapeCsv(row[column])).join(','))
+    ];
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  // Quote values containing commas, quotes or line breaks
+  private escapeCsv(value: string | number | boolean | null | undefined): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    const text = String(value);
+    if (text.includes(',') || text.includes('"') || /[\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  private localDate(column: AnyPgColumn, timezone: string): SQL<string> {
+    return sql<string>`to_char(${column} at time zone ${timezone}, 'YYYY-MM-DD')`;
+  }
+
+  private average(expression: SQL): SQL<number | null> {
+    return sql<number | null>`round(avg(${expression})::numeric, 2)::float8`;
+  }
+
+  private toCounts(rows: StatusCountRow[]): Partial<Record<DailyStatus, number>> {
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  private getAttendedDays(counts: Partial<Record<DailyStatus, number>>): number {
+    return ATTENDED_STATUSES.reduce((total, status) => total + (counts[status] ?? 0), 0);
+  }
+
+  private getAttendanceRate(counts: Partial<Record<DailyStatus, number>>): number | null {
+    const attended = this.getAttendedDays(counts);
+    return this.percent(attended, attended + (counts.absent ?? 0));
+  }
+
+  private getPunctualityRate(counts: Partial<Record<DailyStatus, number>>): number | null {
+    const attended = this.getAttendedDays(counts);
+    return this.percent(attended - (counts.late ?? 0), attended);
+  }
+
+  private percent(part: number, whole: number): number | null {
+    return whole > 0 ? this.round((part / whole) * 100) : null;
+  }
+
+  private mean(values: (number | null)[]): number | null {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? this.round(present.reduce((total, value) => total + value, 0) / present.length) : null;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,7 +1,13 @@
 import { db } from '../config/database';
 import { attendanceRecords } from '../db/schema/attendance';
+import { attendanceCorrectionHistory } from '../db/schema/correction';
 import { logger } from '../utils/logger';
-import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
+import { ShiftService, ShiftMatch } from './shift.service';
+import { BreakService } from './break.service';
+import { OvertimeService } from './overtime.service';
+import { RealtimeService } from './realtime.service';
+import { calculateWorkHours } from '../utils/helpers';
+import { eq, and, asc, desc, gte, lte, inArray, isNull, sql } from 'drizzle-orm';
 
 export interface AttendanceRecord {
   id: string;
@@ -26,16 +32,39 @@ export interface AttendanceRecord {
   deviceInfo?: string | null;
   productiveTime?: number;
   breakTime?: number;
+  paidBreakTime?: number | null;
+  unpaidBreakTime?: number | null;
+  workedMinutes?: number | null;
   distractionTime?: number;
   workApplications?: any;
   activityProof?: any;
-  photoUrl?: string | null;
+  photoKey?: string | null;
+  clockOutPhotoKey?: string | null;
+  photoUrl?: string | null; // Legacy base64 photo, until moved to storage
   clockOutPhotoUrl?: string | null;
   location?: any;
-  status: 'active' | 'completed' | 'flagged' | 'approved' | 'rejected' | null;
+  geofenceId?: string | null;
+  geofenceDistanceMeters?: number | null;
+  geofenceZone?: 'inside' | 'buffer' | 'outside' | null;
+  shiftAssignmentId?: string | null;
+  shiftTemplateId?: string | null;
+  scheduledStart?: Date | null;
+  scheduledEnd?: Date | null;
+  lateMinutes?: number | null;
+  earlyLeaveMinutes?: number | null;
+  status: 'active' | 'completed' | 'auto_closed' | 'flagged' | 'approved' | 'rejected' | null;
   approvedBy?: string | null;
   approvedAt?: Date | null;
   rejectionReason?: string | null;
+  autoClosedAt?: Date | null;
+  autoCloseReason?: string | null;
+  clockInSource?: 'online' | 'offline';
+  clockInReceivedAt?: Date | null;
+  clockOutSource?: 'online' | 'offline' | null;
+  clockOutReceivedAt?: Date | null;
+  timesheetId?: string | null;
+  lockedAt?: Date | null;
+  corrections?: Array<typeof attendanceCorrectionHistory.$inferSelect>; // Applied corrections, oldest first
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,7 +78,7 @@ export interface CreateAttendanceData {
   deviceInfo?: string;
   userAgent?: string;
   ipAddress?: string;
-  photoUrl?: string;
+  photoKey?: string; // Storage key of the clock-in photo
   faceSimilarity?: number;
   livenessScore?: number;
   activityScore?: number;
@@ -57,16 +86,31 @@ export interface CreateAttendanceData {
   overallRiskScore?: number;
   aiProcessingTime?: number;
   verificationMetadata?: any;
+  geofenceId?: string;
+  geofenceDistanceMeters?: number;
+  geofenceZone?: 'inside' | 'buffer' | 'outside';
+  locationType?: 'site' | 'home' | 'alternate';
+  alternateLocationId?: string;
+  expectedWorkMode?: 'onsite' | 'remote';
+  workModeScheduleId?: string;
+  workModeMismatch?: boolean;
+  flagged?: boolean; // Accepted for review by the location check
+  clockInSource?: 'online' | 'offline';
+  clockInReceivedAt?: Date; // Offline punches: when the server got it (clockInTime is when it was captured)
 }
 
 export interface UpdateAttendanceData {
   clockOutTime?: Date;
-  clockOutPhotoUrl?: string;
+  clockOutPhotoKey?: string; // Storage key of the clock-out photo
   faceSimilarityClockOut?: number;
   livenessScoreClockOut?: number;
   verificationMetadataClockOut?: any;
   overallRiskScore?: number;
   fraudDetectionResults?: any;
+  fraudAction?: 'allow' | 'flag' | 'block'; // From the company's fraud prevention settings
+  clockOutSource?: 'online' | 'offline';
+  clockOutReceivedAt?: Date; // Offline punches: when the server got it (clockOutTime is when it was captured)
+  flagged?: boolean; // Clock-out accepted for review (offline checks)
 }
 
 export interface AttendanceResult {
@@ -92,6 +136,11 @@ export interface AttendanceListResult {
 }
 
 export class AttendanceService {
+  private readonly shiftService = new ShiftService();
+  private readonly breakService = new BreakService();
+  private readonly overtimeService = new OvertimeService();
+  private readonly realtimeService = new RealtimeService();
+
   /**
    * Create a new attendance record
    */
@@ -104,6 +153,8 @@ export class AttendanceService {
         workMode: data.workMode
       });
 
+      const shift = await this.findShiftForClockIn(data.userId, data.companyId, data.clockInTime);
+
       const [record] = await db.insert(attendanceRecords).values({
         id: crypto.randomUUID(),
         userId: data.userId,
@@ -114,7 +165,7 @@ export class AttendanceService {
         deviceInfo: data.deviceInfo || null,
         userAgent: data.userAgent || null,
         deviceFingerprint: data.ipAddress || null,
-        photoUrl: data.photoUrl || null,
+        photoKey: data.photoKey || null,
         faceSimilarityScore: data.faceSimilarity?.toString() || null,
         livenessScore: data.livenessScore?.toString() || null,
         activityScore: data.activityScore?.toString() || null,
@@ -122,7 +173,22 @@ export class AttendanceService {
         overallRiskScore: data.overallRiskScore?.toString() || '0',
         aiProcessingTime: data.aiProcessingTime || 0,
         verificationMetadata: data.verificationMetadata,
-        status: 'active',
+        geofenceId: data.geofenceId || null,
+        geofenceDistanceMeters: data.geofenceDistanceMeters ?? null,
+        geofenceZone: data.geofenceZone || null,
+        locationType: data.locationType || null,
+        alternateLocationId: data.alternateLocationId || null,
+        expectedWorkMode: data.expectedWorkMode || null,
+        workModeScheduleId: data.workModeScheduleId || null,
+        workModeMismatch: data.workModeMismatch ?? false,
+        shiftAssignmentId: shift?.assignmentId || null,
+        shiftTemplateId: shift?.templateId || null,
+        scheduledStart: shift?.scheduledStart || null,
+        scheduledEnd: shift?.scheduledEnd || null,
+        lateMinutes: shift?.lateMinutes ?? 0,
+        status: data.flagged ? 'flagged' : 'active',
+        clockInSource: data.clockInSource ?? 'online',
+        clockInReceivedAt: data.clockInReceivedAt ?? data.clockInTime,
         createdAt: new Date(),
         updatedAt: new Date()
       }).returning();
@@ -140,9 +206,16 @@ export class AttendanceService {
       logger.info('Attendance record created successfully', {
         service: 'attendance-service',
         attendanceId: createdRecord.id,
-        userId: data.userId
+        userId: data.userId,
+        shiftTemplateId: createdRecord.shiftTemplateId,
+        lateMinutes: createdRecord.lateMinutes
       });
 
+      await this.realtimeService.publishAttendanceEvent('clock_in', createdRecord);
+      if (createdRecord.status === 'flagged') {
+        await this.realtimeService.publishAttendanceEvent('flagged', createdRecord);
+      }
+
       return {
         success: true,
         message: 'Attendance record created successfully',
@@ -150,6 +223,15 @@ export class AttendanceService {
       };
 
     } catch (error) {
+      // One open record per user (idx_attendance_records_one_open_per_user): a concurrent clock-in got there first
+      if ((error as { code?: string }).code === '23505') {
+        return {
+          success: false,
+          message: 'Already clocked in',
+          error: 'ALREADY_CLOCKED_IN'
+        };
+      }
+
       logger.error('Failed to create attendance record:', error);
       return {
         success: false,
@@ -204,27 +286,79 @@ export class AttendanceService {
       });
 
       const clockOutTime = data.clockOutTime || new Date();
-      
-      const [record] = await db
+
+      const [existing] = await db
+        .select({
+          shiftTemplateId: attendanceRecords.shiftTemplateId,
+          scheduledEnd: attendanceRecords.scheduledEnd,
+          lockedAt: attendanceRecords.lockedAt
+        })
+        .from(attendanceRecords)
+        .where(eq(attendanceRecords.id, attendanceId))
+        .limit(1);
+
+      if (!existing) {
+        return { success: false, message: 'Attendance record not found', error: 'NOT_FOUND' };
+      }
+
+      const earlyLeaveMinutes = existing.shiftTemplateId && existing.scheduledEnd
+        ? await this.shiftService.calculateEarlyLeaveMinutes(existing.shiftTemplateId, existing.scheduledEnd, clockOutTime)
+        : 0;
+
+      // Claim the record first, as the auto clock-out does: only the clock-out that closes it touches its breaks
+      const [claimed] = await db
         .update(attendanceRecords)
         .set({
           clockOutTime,
-          clockOutPhotoUrl: data.clockOutPhotoUrl || null,
+          earlyLeaveMinutes,
+          clockOutPhotoKey: data.clockOutPhotoKey || null,
           faceSimilarityScoreClockOut: data.faceSimilarityClockOut?.toString() || null,
           livenessScoreClockOut: data.livenessScoreClockOut?.toString() || null,
           verificationMetadataClockOut: data.verificationMetadataClockOut,
-          status: 'completed',
+          clockOutSource: data.clockOutSource ?? 'online',
+          clockOutReceivedAt: data.clockOutReceivedAt ?? clockOutTime,
+          // Only an active record becomes completed; a flagged one stays flagged for review
+          status: data.flagged
+            ? 'flagged'
+            : sql`CASE WHEN ${attendanceRecords.status} = 'active' THEN 'completed' ELSE ${attendanceRecords.status} END`,
           updatedAt: new Date()
         })
+        .where(
+          and(
+            eq(attendanceRecords.id, attendanceId),
+            isNull(attendanceRecords.clockOutTime),
+            isNull(attendanceRecords.lockedAt)
+          )
+        )
+        .returning({
+          companyId: attendanceRecords.companyId,
+          clockInTime: attendanceRecords.clockInTime
+        });
+
+      // Locked by an approved timesheet, or a concurrent clock-out (or the auto clock-out) closed it first
+      if (!claimed) {
+        return existing.lockedAt || await this.isRecordLocked(attendanceId)
+          ? this.lockedResult()
+          : { success: false, message: 'Already clocked out', error: 'ALREADY_CLOCKED_OUT' };
+      }
+
+      // Close any open break and total paid/unpaid break time for the record
+      const breakSummary = await this.breakService.rollUpBreaks(attendanceId, claimed.companyId, clockOutTime);
+      const workedMinutes = Math.round(calculateWorkHours(claimed.clockInTime, clockOutTime, breakSummary.unpaidMinutes) * 60);
+
+      const [record] = await db
+        .update(attendanceRecords)
+        .set({
+          breakTime: breakSummary.totalMinutes,
+          paidBreakTime: breakSummary.paidMinutes,
+          unpaidBreakTime: breakSummary.unpaidMinutes,
+          workedMinutes
+        })
         .where(eq(attendanceRecords.id, attendanceId))
         .returning();
 
       if (!record) {
-        return {
-          success: false,
-          message: 'Attendance record not found',
-          error: 'NOT_FOUND'
-        };
+        return { success: false, message: 'Attendance record not found', error: 'NOT_FOUND' };
       }
 
       // Calculate work duration
@@ -235,9 +369,18 @@ export class AttendanceService {
       logger.info('Attendance record updated with clock-out', {
         service: 'attendance-service',
         attendanceId,
-        workDuration: workDuration / (1000 * 60 * 60) // Convert to hours
+        workDuration: workDuration / (1000 * 60 * 60), // Convert to hours
+        workedMinutes,
+        earlyLeaveMinutes
       });
 
+      await this.calculateOvertime(record.companyId, attendanceId);
+
+      await this.realtimeService.publishAttendanceEvent('clock_out', record);
+      if (record.status === 'flagged') {
+        await this.realtimeService.publishAttendanceEvent('flagged', record);
+      }
+
       return {
         success: true,
         message: 'Attendance record updated successfully',
@@ -265,12 +408,23 @@ export class AttendanceService {
         riskScore: data.overallRiskScore
       });
 
+      if (await this.isRecordLocked(attendanceId)) {
+        return this.lockedResult();
+      }
+
       const [record] = await db
         .update(attendanceRecords)
         .set({
           overallRiskScore: data.overallRiskScore?.toString() || null,
           fraudDetectionResults: data.fraudDetectionResults,
-          status: data.overallRiskScore && data.overallRiskScore > 60 ? 'flagged' : 'active',
+          // Allowed clock-ins keep the status set at clock-in, including a location flag
+          ...(data.fraudAction === 'flag' && { status: 'flagged' as const }),
+          // A blocked clock-in is closed on the spot so it never counts as worked time
+          ...(data.fraudAction === 'block' && {
+            status: 'rejected' as const,
+            clockOutTime: sql`${attendanceRecords.clockInTime}`,
+            rejectionReason: 'Clock-in blocked by fraud prevention'
+          }),
           updatedAt: new Date()
         })
         .where(eq(attendanceRecords.id, attendanceId))
@@ -284,6 +438,10 @@ export class AttendanceService {
         };
       }
 
+      if (data.fraudAction === 'flag' || data.fraudAction === 'block') {
+        await this.realtimeService.publishAttendanceEvent(data.fraudAction === 'flag' ? 'flagged' : 'rejected', record);
+      }
+
       return {
         success: true,
         message: 'Attendance record updated with fraud analysis',
@@ -301,7 +459,65 @@ export class AttendanceService {
   }
 
   /**
-   * Get current attendance status for a user
+   * Get the user's open attendance record (clocked in, not clocked out), if any.
+   * Rejected records don't count: rejection doesn't clock the user out.
+   */
+  async getOpenAttendanceRecord(userId: string): Promise<{ id: string; clockInTime: Date } | null> {
+    const [record] = await db
+      .select({
+        id: attendanceRecords.id,
+        clockInTime: attendanceRecords.clockInTime
+      })
+      .from(attendanceRecords)
+      .where(
+        and(
+          eq(attendanceRecords.userId, userId),
+          isNull(attendanceRecords.clockOutTime),
+          sql`${attendanceRecords.status} IS DISTINCT FROM 'rejected'`
+        )
+      )
+      .limit(1);
+
+    return record ?? null;
+  }
+
+  /**
+   * Get a closed, non-rejected record of the user that overlaps the interval from start to end
+   * (or that contains start when there is no end yet), if any
+   */
+  async getOverlappingRecord(
+    userId: string,
+    start: Date,
+    end: Date | null,
+    excludeId?: string
+  ): Promise<{ id: string; clockInTime: Date; clockOutTime: Date | null } | null> {
+    const conditions = [
+      eq(attendanceRecords.userId, userId),
+      sql`${attendanceRecords.status} IS DISTINCT FROM 'rejected'`,
+      sql`${attendanceRecords.clockOutTime} > ${start}`,
+      end ? sql`${attendanceRecords.clockInTime} < ${end}` : lte(attendanceRecords.clockInTime, start)
+    ];
+
+    if (excludeId) {
+      conditions.push(sql`${attendanceRecords.id} <> ${excludeId}`);
+    }
+
+    const [record] = await db
+      .select({
+        id: attendanceRecords.id,
+        clockInTime: attendanceRecords.clockInTime,
+        clockOutTime: attendanceRecords.clockOutTime
+      })
+      .from(attendanceRecords)
+      .where(and(...conditions))
+      .orderBy(asc(attendanceRecords.clockInTime))
+      .limit(1);
+
+    return record ?? null;
+  }
+
+  /**
+   * Get current attendance status for a user: their open record, the same one that blocks a second clock-in
    */
   async getCurrentAttendanceStatus(userId: string, companyId: string): Promise<AttendanceResult> {
     try {
@@ -312,7 +528,8 @@ export class AttendanceService {
           and(
             eq(attendanceRecords.userId, userId),
             eq(attendanceRecords.companyId, companyId),
-            eq(attendanceRecords.status, 'active')
+            isNull(attendanceRecords.clockOutTime),
+            sql`${attendanceRecords.status} IS DISTINCT FROM 'rejected'`
           )
         )
         .orderBy(desc(attendanceRecords.clockInTime))
@@ -389,11 +606,15 @@ export class AttendanceService {
 
       const total = totalCount[0]?.count || 0;
       const totalPages = Math.ceil(total / limit);
+      const corrections = await this.getCorrections(records.map(record => record.id));
 
       return {
         success: true,
         data: {
-          records: records as unknown as AttendanceRecord[],
+          records: records.map(record => ({
+            ...record,
+            corrections: corrections.filter(correction => correction.attendanceId === record.id)
+          })) as unknown as AttendanceRecord[],
           pagination: {
             page,
             limit,
@@ -469,7 +690,8 @@ export class AttendanceService {
     limit: number = 20,
     date?: string,
     workMode?: string,
-    status?: string
+    status?: string,
+    verificationMethod?: string
   ): Promise<AttendanceListResult> {
     try {
       const offset = (page - 1) * limit;
@@ -495,6 +717,11 @@ export class AttendanceService {
         whereConditions.push(eq(attendanceRecords.status, status as any));
       }
 
+      // Records from before QR/NFC clock-in carry no method and were all face-verified
+      if (verificationMethod) {
+        whereConditions.push(sql`coalesce(${attendanceRecords.verificationMetadata}->>'method', 'face') = ${verificationMethod}`);
+      }
+
       const [records, totalCount] = await Promise.all([
         db
           .select()
@@ -620,6 +847,10 @@ export class AttendanceService {
         approverId
       });
 
+      if (await this.isRecordLocked(attendanceId)) {
+        return this.lockedResult();
+      }
+
       const [record] = await db
         .update(attendanceRecords)
         .set({
@@ -650,6 +881,8 @@ export class AttendanceService {
         approverId
       });
 
+      await this.realtimeService.publishAttendanceEvent('approved', record);
+
       return {
         success: true,
         message: 'Attendance record approved successfully',
@@ -683,6 +916,10 @@ export class AttendanceService {
         reason
       });
 
+      if (await this.isRecordLocked(attendanceId)) {
+        return this.lockedResult();
+      }
+
       const [record] = await db
         .update(attendanceRecords)
         .set({
@@ -715,6 +952,8 @@ export class AttendanceService {
         reason
       });
 
+      await this.realtimeService.publishAttendanceEvent('rejected', record);
+
       return {
         success: true,
         message: 'Attendance record rejected successfully',
@@ -730,4 +969,248 @@ export class AttendanceService {
       };
     }
   }
-}
+
+  /**
+   * Replace a record's clock-in/out times and recalculate shift matching, breaks and worked time.
+   * Runs in the caller's transaction; recalculate overtime with calculateOvertime once it has committed.
+   */
+  async applyCorrection(
+    attendanceId: string,
+    clockInTime: Date,
+    clockOutTime: Date | null,
+    tx: typeof db
+  ): Promise<AttendanceResult> {
+    try {
+      const [existing] = await tx
+        .select()
+        .from(attendanceRecords)
+        .where(eq(attendanceRecords.id, attendanceId))
+        .limit(1);
+
+      if (!existing) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (existing.lockedAt) {
+        return this.lockedResult();
+      }
+
+      // A moved clock-in may fall into a different shift
+      const clockInChanged = existing.clockInTime.getTime() !== clockInTime.getTime();
+      const shift = clockInChanged
+        ? await this.findShiftForClockIn(existing.userId, existing.companyId, clockInTime)
+        : null;
+      const shiftTemplateId = clockInChanged ? shift?.templateId || null : existing.shiftTemplateId;
+      const scheduledEnd = clockInChanged ? shift?.scheduledEnd || null : existing.scheduledEnd;
+
+      const earlyLeaveMinutes = clockOutTime && shiftTemplateId && scheduledEnd
+        ? await this.shiftService.calculateEarlyLeaveMinutes(shiftTemplateId, scheduledEnd, clockOutTime)
+        : 0;
+      const breakSummary = clockOutTime
+        ? await this.breakService.rollUpBreaks(attendanceId, existing.companyId, clockOutTime, tx)
+        : null;
+
+      const [record] = await tx
+        .update(attendanceRecords)
+        .set({
+          clockInTime,
+          clockOutTime,
+          ...(clockInChanged && {
+            shiftAssignmentId: shift?.assignmentId || null,
+            shiftTemplateId,
+            scheduledStart: shift?.scheduledStart || null,
+            scheduledEnd,
+            lateMinutes: shift?.lateMinutes ?? 0
+          }),
+          earlyLeaveMinutes,
+          breakTime: breakSummary?.totalMinutes || 0,
+          paidBreakTime: breakSummary?.paidMinutes || 0,
+          unpaidBreakTime: breakSummary?.unpaidMinutes || 0,
+          workedMinutes: clockOutTime
+            ? Math.round(calculateWorkHours(clockInTime, clockOutTime, breakSummary?.unpaidMinutes || 0) * 60)
+            : null,
+          // A reviewed correction resolves an automatic clock-out
+          ...(clockOutTime && (existing.status === 'active' || existing.status === 'auto_closed') && { status: 'completed' as const }),
+          updatedAt: new Date()
+        })
+        .where(and(eq(attendanceRecords.id, attendanceId), isNull(attendanceRecords.lockedAt)))
+        .returning();
+
+      if (!record) {
+        return this.lockedResult();
+      }
+
+      logger.info('Attendance record corrected', {
+        service: 'attendance-service',
+        attendanceId,
+        clockInTime,
+        clockOutTime
+      });
+
+      return {
+        success: true,
+        message: 'Attendance record corrected successfully',
+        data: record as unknown as AttendanceRecord
+      };
+
+    } catch (error) {
+      logger.error('Failed to correct attendance record:', error);
+      return {
+        success: false,
+        message: 'Failed to correct attendance record',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Close a session left open. Only one caller can close a given record, so concurrent job runs are safe.
+   */
+  async autoCloseRecord(attendanceId: string, clockOutTime: Date, reason: string): Promise<AttendanceResult> {
+    try {
+      const closedAt = new Date();
+
+      // Claim the record: the clock-out is only set while it is still missing
+      const [claimed] = await db
+        .update(attendanceRecords)
+        .set({
+          clockOutTime,
+          autoClosedAt: closedAt,
+          autoCloseReason: reason,
+          status: sql`CASE WHEN ${attendanceRecords.status} = 'active' THEN 'auto_closed' ELSE ${attendanceRecords.status} END`,
+          updatedAt: closedAt
+        })
+        .where(
+          and(
+            eq(attendanceRecords.id, attendanceId),
+            isNull(attendanceRecords.clockOutTime),
+            isNull(attendanceRecords.lockedAt)
+          )
+        )
+        .returning({
+          companyId: attendanceRecords.companyId,
+          clockInTime: attendanceRecords.clockInTime
+        });
+
+      if (!claimed) {
+        return {
+          success: false,
+          message: 'Attendance record is already closed',
+          error: 'ALREADY_CLOSED'
+        };
+      }
+
+      const breakSummary = await this.breakService.rollUpBreaks(attendanceId, claimed.companyId, clockOutTime);
+
+      const [record] = await db
+        .update(attendanceRecords)
+        .set({
+          earlyLeaveMinutes: 0,
+          breakTime: breakSummary.totalMinutes,
+          paidBreakTime: breakSummary.paidMinutes,
+          unpaidBreakTime: breakSummary.unpaidMinutes,
+          workedMinutes: Math.round(calculateWorkHours(claimed.clockInTime, clockOutTime, breakSummary.unpaidMinutes) * 60)
+        })
+        .where(eq(attendanceRecords.id, attendanceId))
+        .returning();
+
+      logger.info('Attendance record automatically closed', {
+        service: 'attendance-service',
+        attendanceId,
+        clockOutTime,
+        reason
+      });
+
+      await this.calculateOvertime(claimed.companyId, attendanceId);
+
+      if (record) {
+        await this.realtimeService.publishAttendanceEvent('clock_out', record);
+      }
+
+      return {
+        success: true,
+        message: 'Attendance record automatically closed',
+        data: record as unknown as AttendanceRecord
+      };
+
+    } catch (error) {
+      logger.error('Failed to auto-close attendance record:', error);
+      return {
+        success: false,
+        message: 'Failed to auto-close attendance record',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Applied corrections for a page of records
+   */
+  private async getCorrections(attendanceIds: string[]) {
+    if (attendanceIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(attendanceCorrectionHistory)
+      .where(inArray(attendanceCorrectionHistory.attendanceId, attendanceIds))
+      .orderBy(asc(attendanceCorrectionHistory.approvedAt));
+  }
+
+  /**
+   * Check whether an approved timesheet has locked the record
+   */
+  private async isRecordLocked(attendanceId: string): Promise<boolean> {
+    const [record] = await db
+      .select({ lockedAt: attendanceRecords.lockedAt })
+      .from(attendanceRecords)
+      .where(eq(attendanceRecords.id, attendanceId))
+      .limit(1);
+
+    return !!record?.lockedAt;
+  }
+
+  private lockedResult(): AttendanceResult {
+    return {
+      success: false,
+      message: 'Attendance record is locked by an approved timesheet',
+      error: 'RECORD_LOCKED'
+    };
+  }
+
+  /**
+   * Match a clock-in to the employee's assigned shift without blocking the clock-in
+   */
+  private async findShiftForClockIn(userId: string, companyId: string, clockInTime: Date): Promise<ShiftMatch | null> {
+    try {
+      return await this.shiftService.matchClockIn(userId, companyId, clockInTime);
+    } catch (error) {
+      logger.warn('Failed to match clock-in to a shift', {
+        service: 'attendance-service',
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Classify the record's minutes for payroll; clock-out still succeeds if this fails
+   */
+  async calculateOvertime(companyId: string, attendanceId: string): Promise<void> {
+    const result = await this.overtimeService.calculateForRecord(companyId, attendanceId);
+
+    if (!result.success && result.error !== 'NO_RULE_SET') {
+      logger.warn('Failed to calculate overtime at clock-out', {
+        service: 'attendance-service',
+        attendanceId,
+        error: result.error
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { logger } from '../utils/logger';
+import { AttendanceService } from './attendance.service';
+import { CorrectionService } from './correction.service';
+import { NotificationService } from './notification.service';
+import { PolicyService, AttendancePolicy } from './policy.service';
+import { and, asc, isNull } from 'drizzle-orm';
+
+export interface AutoClockOutSummary {
+  checked: number;
+  closed: number;
+  skipped: number; // Closed by another instance or a late clock-out meanwhile
+  failed: number;
+}
+
+type OpenRecord = {
+  id: string;
+  userId: string;
+  companyId: string;
+  clockInTime: Date;
+  scheduledEnd: Date | null;
+};
+
+export class AutoClockOutService {
+  private readonly attendanceService = new AttendanceService();
+  private readonly correctionService = new CorrectionService();
+  private readonly notificationService = new NotificationService();
+  private readonly policyService = new PolicyService();
+
+  /**
+   * Close every session still open past its shift end (or a standard workday without a shift) plus the company's grace.
+   * Safe to repeat and to run on several instances at once: each record can only be closed once.
+   */
+  async run(now: Date = new Date()): Promise<AutoClockOutSummary> {
+    const summary: AutoClockOutSummary = { checked: 0, closed: 0, skipped: 0, failed: 0 };
+
+    const openRecords = await db
+      .select({
+        id: attendanceRecords.id,
+        userId: attendanceRecords.userId,
+        companyId: attendanceRecords.companyId,
+        clockInTime: attendanceRecords.clockInTime,
+        scheduledEnd: attendanceRecords.scheduledEnd
+      })
+      .from(attendanceRecords)
+      .where(
+        and(
+          isNull(attendanceRecords.clockOutTime),
+          isNull(attendanceRecords.lockedAt)
+        )
+      )
+      .orderBy(asc(attendanceRecords.clockInTime));
+
+    const policies = new Map<string, AttendancePolicy>();
+
+    for (const record of openRecords) {
+      summary.checked++;
+
+      try {
+        let policy = policies.get(record.companyId);
+        if (!policy) {
+          policy = await this.policyService.getPolicy(record.companyId);
+          policies.set(record.companyId, policy);
+        }
+
+        if (!policy.autoClockOutEnabled) {
+          continue;
+        }
+
+        const { clockOutTime, reason } = this.getAutoClockOut(record, policy);
+        if (now.getTime() < clockOutTime.getTime() + policy.autoClockOutGraceMinutes * 60 * 1000) {
+          continue;
+        }
+
+        const result = await this.attendanceService.autoCloseRecord(record.id, clockOutTime, reason);
+
+        if (!result.success) {
+          if (result.error === 'ALREADY_CLOSED') {
+            summary.skipped++;
+          } else {
+            summary.failed++;
+          }
+          continue;
+        }
+
+        summary.closed++;
+        await this.followUp(record, clockOutTime, reason, policy);
+
+      } catch (error) {
+        summary.failed++;
+        logger.error('Failed to auto clock-out attendance record:', error);
+      }
+    }
+
+    if (summary.closed > 0 || summary.failed > 0) {
+      logger.info('Auto clock-out run finished', {
+        service: 'attendance-service',
+        ...summary
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Clock-out time for a session left open: the scheduled shift end, or one standard workday after clock-in
+   */
+  private getAutoClockOut(record: OpenRecord, policy: AttendancePolicy): { clockOutTime: Date; reason: string } {
+    if (record.scheduledEnd && record.scheduledEnd > record.clockInTime) {
+      return {
+        clockOutTime: record.scheduledEnd,
+        reason: `No clock-out within ${policy.autoClockOutGraceMinutes} minutes of the scheduled shift end`
+      };
+    }
+
+    return {
+      clockOutTime: new Date(record.clockInTime.getTime() + policy.standardWorkdayMinutes * 60 * 1000),
+      reason: `No shift scheduled and no clock-out within ${policy.autoClockOutGraceMinutes} minutes of a standard workday`
+    };
+  }
+
+  /**
+   * Tell the employee and, if the company wants it, open a correction request for review
+   */
+  private async followUp(record: OpenRecord, clockOutTime: Date, reason: string, policy: AttendancePolicy): Promise<void> {
+    await this.notificationService.notify({
+      companyId: record.companyId,
+      userId: record.userId,
+      type: 'attendance_auto_closed',
+      title: 'You were clocked out automatically',
+      message: `Your session from ${record.clockInTime.toISOString()} was closed at ${clockOutTime.toISOString()}. ` +
+        'Request a correction if you worked different hours.',
+      data: {
+        attendanceId: record.id,
+        clockOutTime: clockOutTime.toISOString(),
+        reason
+      },
+      priority: 'high'
+    });
+
+    if (!policy.autoClockOutCorrectionRequest) {
+      return;
+    }
+
+    const correction = await this.correctionService.requestCorrection(record.companyId, record.userId, {
+      attendanceId: record.id,
+      clockOutTime: clockOutTime.toISOString(),
+      reason: `Automatic clock-out: ${reason}`
+    });
+
+    if (!correction.success) {
+      logger.warn('Failed to open correction request for auto-closed record', {
+        service: 'attendance-service',
+        attendanceId: record.id,
+        error: correction.error
+      });
+    }
+  }
+}
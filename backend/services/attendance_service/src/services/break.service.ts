@@ -0,0 +1,380 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { attendanceBreaks } from '../db/schema/break';
+import { logger } from '../utils/logger';
+import { PolicyService, AttendancePolicy } from './policy.service';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+
+export type AttendanceBreak = typeof attendanceBreaks.$inferSelect;
+
+export interface StartBreakData {
+  breakType: 'paid' | 'unpaid';
+  notes?: string;
+}
+
+export interface BreakSummary {
+  breakCount: number;
+  totalMinutes: number;
+  paidMinutes: number;
+  unpaidMinutes: number;
+}
+
+export interface BreakResult {
+  success: boolean;
+  message?: string;
+  data?: AttendanceBreak;
+  error?: string;
+}
+
+export interface BreakListResult {
+  success: boolean;
+  message?: string;
+  data?: {
+    breaks: AttendanceBreak[];
+    summary: BreakSummary;
+  };
+  error?: string;
+}
+
+export class BreakService {
+  private readonly policyService = new PolicyService();
+
+  /**
+   * Start a break on an active attendance record
+   */
+  async startBreak(
+    attendanceId: string,
+    userId: string,
+    companyId: string,
+    data: StartBreakData
+  ): Promise<BreakResult> {
+    try {
+      const recordCheck = await this.getOwnedActiveRecord(attendanceId, userId, companyId);
+      if (!recordCheck.success) {
+        return recordCheck;
+      }
+
+      const breaks = await this.listBreaks(attendanceId);
+
+      if (breaks.some(existing => !existing.endTime)) {
+        return {
+          success: false,
+          message: 'A break is already in progress',
+          error: 'BREAK_ALREADY_ACTIVE'
+        };
+      }
+
+      const policy = await this.policyService.getPolicy(companyId);
+      const usedMinutes = breaks.reduce((sum, existing) => sum + (existing.durationMinutes || 0), 0);
+
+      if (usedMinutes >= policy.maxBreakMinutes) {
+        return {
+          success: false,
+          message: `Maximum break time of ${policy.maxBreakMinutes} minutes reached`,
+          error: 'BREAK_LIMIT_REACHED'
+        };
+      }
+
+      const [created] = await db.insert(attendanceBreaks).values({
+        attendanceId,
+        userId,
+        companyId,
+        breakType: data.breakType,
+        startTime: new Date(),
+        notes: data.notes || null
+      }).returning();
+
+      if (!created) {
+        return {
+          success: false,
+          message: 'Failed to start break',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Break started', {
+        service: 'attendance-service',
+        attendanceId,
+        breakId: created.id,
+        breakType: data.breakType
+      });
+
+      return {
+        success: true,
+        message: 'Break started successfully',
+        data: created
+      };
+
+    } catch (error) {
+      // One open break per record (idx_attendance_breaks_one_open): a concurrent start got there first
+      if ((error as { code?: string }).code === '23505') {
+        return {
+          success: false,
+          message: 'A break is already in progress',
+          error: 'BREAK_ALREADY_ACTIVE'
+        };
+      }
+
+      logger.error('Failed to start break:', error);
+      return {
+        success: false,
+        message: 'Failed to start break',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * End the break currently in progress on an attendance record
+   */
+  async endBreak(attendanceId: string, userId: string, companyId: string): Promise<BreakResult> {
+    try {
+      const recordCheck = await this.getOwnedActiveRecord(attendanceId, userId, companyId);
+      if (!recordCheck.success) {
+        return recordCheck;
+      }
+
+      const breaks = await this.listBreaks(attendanceId);
+      const activeBreak = breaks.find(existing => !existing.endTime);
+
+      if (!activeBreak) {
+        return {
+          success: false,
+          message: 'No break in progress',
+          error: 'NO_ACTIVE_BREAK'
+        };
+      }
+
+      const policy = await this.policyService.getPolicy(companyId);
+      const ended = await this.closeBreak(activeBreak, breaks, new Date(), policy, false);
+
+      logger.info('Break ended', {
+        service: 'attendance-service',
+        attendanceId,
+        breakId: ended.id,
+        durationMinutes: ended.durationMinutes,
+        exceedsLimit: ended.exceedsLimit
+      });
+
+      return {
+        success: true,
+        message: ended.exceedsLimit
+          ? 'Break ended. Maximum break time exceeded.'
+          : 'Break ended successfully',
+        data: ended
+      };
+
+    } catch (error) {
+      logger.error('Failed to end break:', error);
+      return {
+        success: false,
+        message: 'Failed to end break',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the breaks taken during an attendance record.
+   * When userId is given, only that employee's own record is accessible.
+   */
+  async getBreaks(attendanceId: string, companyId: string, userId?: string): Promise<BreakListResult> {
+    try {
+      const [record] = await db
+        .select({ userId: attendanceRecords.userId })
+        .from(attendanceRecords)
+        .where(
+          and(
+            eq(attendanceRecords.id, attendanceId),
+            eq(attendanceRecords.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!record) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (userId && record.userId !== userId) {
+        return {
+          success: false,
+          message: 'Access denied',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const [breaks, policy] = await Promise.all([
+        this.listBreaks(attendanceId),
+        this.policyService.getPolicy(companyId)
+      ]);
+
+      return {
+        success: true,
+        data: {
+          breaks,
+          summary: this.summarizeBreaks(breaks, policy)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get breaks:', error);
+      return {
+        success: false,
+        message: 'Failed to get breaks',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Close any open break at clock-out and total the record's break time. Pass a transaction to run inside it.
+   */
+  async rollUpBreaks(attendanceId: string, companyId: string, clockOutTime: Date, executor: typeof db = db): Promise<BreakSummary> {
+    const [breaks, policy] = await Promise.all([
+      this.listBreaks(attendanceId, executor),
+      this.policyService.getPolicy(companyId)
+    ]);
+
+    const activeBreak = breaks.find(existing => !existing.endTime);
+
+    if (activeBreak) {
+      const ended = await this.closeBreak(activeBreak, breaks, clockOutTime, policy, true, executor);
+      breaks.splice(breaks.indexOf(activeBreak), 1, ended);
+
+      logger.info('Open break closed at clock-out', {
+        service: 'attendance-service',
+        attendanceId,
+        breakId: ended.id
+      });
+    }
+
+    return this.summarizeBreaks(breaks, policy);
+  }
+
+  /**
+   * Total break minutes, counting paid time over the company allowance as unpaid
+   */
+  private summarizeBreaks(breaks: AttendanceBreak[], policy: AttendancePolicy): BreakSummary {
+    const completed = breaks.filter(existing => existing.endTime);
+
+    const rawPaidMinutes = completed
+      .filter(existing => existing.breakType === 'paid')
+      .reduce((sum, existing) => sum + (existing.durationMinutes || 0), 0);
+    const rawUnpaidMinutes = completed
+      .filter(existing => existing.breakType === 'unpaid')
+      .reduce((sum, existing) => sum + (existing.durationMinutes || 0), 0);
+
+    const paidMinutes = Math.min(rawPaidMinutes, policy.maxPaidBreakMinutes);
+
+    return {
+      breakCount: completed.length,
+      totalMinutes: rawPaidMinutes + rawUnpaidMinutes,
+      paidMinutes,
+      unpaidMinutes: rawUnpaidMinutes + (rawPaidMinutes - paidMinutes)
+    };
+  }
+
+  /**
+   * Record the end of a break and whether it pushed the record over the maximum
+   */
+  private async closeBreak(
+    activeBreak: AttendanceBreak,
+    breaks: AttendanceBreak[],
+    endTime: Date,
+    policy: AttendancePolicy,
+    autoEnded: boolean,
+    executor: typeof db = db
+  ): Promise<AttendanceBreak> {
+    const durationMinutes = Math.max(
+      0,
+      Math.round((endTime.getTime() - activeBreak.startTime.getTime()) / (1000 * 60))
+    );
+    const previousMinutes = breaks
+      .filter(existing => existing.id !== activeBreak.id)
+      .reduce((sum, existing) => sum + (existing.durationMinutes || 0), 0);
+
+    const [ended] = await executor
+      .update(attendanceBreaks)
+      .set({
+        endTime,
+        durationMinutes,
+        exceedsLimit: previousMinutes + durationMinutes > policy.maxBreakMinutes,
+        autoEnded,
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(attendanceBreaks.id, activeBreak.id),
+          isNull(attendanceBreaks.endTime)
+        )
+      )
+      .returning();
+
+    if (!ended) {
+      throw new Error('Break was already ended');
+    }
+
+    return ended;
+  }
+
+  private async listBreaks(attendanceId: string, executor: typeof db = db): Promise<AttendanceBreak[]> {
+    return executor
+      .select()
+      .from(attendanceBreaks)
+      .where(eq(attendanceBreaks.attendanceId, attendanceId))
+      .orderBy(asc(attendanceBreaks.startTime));
+  }
+
+  /**
+   * Ensure the attendance record exists, belongs to the employee and is not clocked out
+   */
+  private async getOwnedActiveRecord(
+    attendanceId: string,
+    userId: string,
+    companyId: string
+  ): Promise<BreakResult> {
+    const [record] = await db
+      .select({
+        userId: attendanceRecords.userId,
+        clockOutTime: attendanceRecords.clockOutTime
+      })
+      .from(attendanceRecords)
+      .where(
+        and(
+          eq(attendanceRecords.id, attendanceId),
+          eq(attendanceRecords.companyId, companyId)
+        )
+      )
+      .limit(1);
+
+    if (!record) {
+      return {
+        success: false,
+        message: 'Attendance record not found',
+        error: 'NOT_FOUND'
+      };
+    }
+
+    if (record.userId !== userId) {
+      return {
+        success: false,
+        message: 'Access denied',
+        error: 'ACCESS_DENIED'
+      };
+    }
+
+    if (record.clockOutTime) {
+      return {
+        success: false,
+        message: 'Already clocked out',
+        error: 'ALREADY_CLOCKED_OUT'
+      };
+    }
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,545 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { siteClockInSettings, nfcBadges } from '../db/schema/clockInMethod';
+import { geofenceSettings } from '../db/schema/geofence';
+import { users } from '../db/schema/auth';
+import { logger } from '../utils/logger';
+import { PolicyService } from './policy.service';
+import { eq, and, desc, isNull, SQL } from 'drizzle-orm';
+
+export type ClockInMethod = 'face' | 'qr' | 'nfc';
+export type NfcBadge = typeof nfcBadges.$inferSelect;
+
+export interface SiteClockInMethods {
+  geofenceId: string;
+  clockInMethods: ClockInMethod[] | null; // Site override; null uses the company policy
+  effectiveMethods: ClockInMethod[];
+}
+
+export interface SiteQrCode {
+  geofenceId: string;
+  code: string; // "<geofenceId>.<step>.<signature>", the QR code's content
+  validFrom: Date;
+  expiresAt: Date; // When the next code replaces it; it is still accepted for one more step
+  stepSeconds: number;
+}
+
+export interface QrCodeCheck {
+  valid: boolean;
+  geofenceId?: string;
+  step?: number;
+  reason?: 'INVALID_QR_CODE' | 'EXPIRED_QR_CODE';
+}
+
+export interface RegisterBadgeData {
+  userId: string;
+  badgeUid: string;
+  label?: string;
+}
+
+export interface ClockInMethodServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export class ClockInMethodService {
+  private readonly policyService = new PolicyService();
+
+  /**
+   * Methods accepted for a clock-in at a site (or anywhere, without one): the site's override, else the company policy
+   */
+  async getAllowedMethods(companyId: string, geofenceId: string | null): Promise<ClockInMethod[]> {
+    if (geofenceId) {
+      const [settings] = await db
+        .select({ clockInMethods: siteClockInSettings.clockInMethods })
+        .from(siteClockInSettings)
+        .where(and(eq(siteClockInSettings.geofenceId, geofenceId), eq(siteClockInSettings.companyId, companyId)))
+        .limit(1);
+
+      if (settings?.clockInMethods) {
+        return settings.clockInMethods as ClockInMethod[];
+      }
+    }
+
+    const policy = await this.policyService.getPolicy(companyId);
+    return policy.clockInMethods as ClockInMethod[];
+  }
+
+  /**
+   * Get the clock-in methods for a site
+   */
+  async getSiteMethods(companyId: string, geofenceId: string): Promise<ClockInMethodServiceResult<SiteClockInMethods>> {
+    try {
+      if (!(await this.siteExists(companyId, geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      const [settings] = await db
+        .select({ clockInMethods: siteClockInSettings.clockInMethods })
+        .from(siteClockInSettings)
+        .where(eq(siteClockInSettings.geofenceId, geofenceId))
+        .limit(1);
+
+      return {
+        success: true,
+        data: {
+          geofenceId,
+          clockInMethods: (settings?.clockInMethods as ClockInMethod[] | null | undefined) ?? null,
+          effectiveMethods: await this.getAllowedMethods(companyId, geofenceId)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get site clock-in methods:', error);
+      return {
+        success: false,
+        message: 'Failed to get site clock-in methods',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Set or clear (null) a site's clock-in methods
+   */
+  async updateSiteMethods(
+    companyId: string,
+    geofenceId: string,
+    clockInMethods: ClockInMethod[] | null,
+    updatedBy: string
+  ): Promise<ClockInMethodServiceResult<SiteClockInMethods>> {
+    try {
+      if (!(await this.siteExists(companyId, geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      logger.info('Updating site clock-in methods', {
+        service: 'attendance-service',
+        companyId,
+        geofenceId,
+        clockInMethods
+      });
+
+      await db
+        .insert(siteClockInSettings)
+        .values({ companyId, geofenceId, clockInMethods, updatedBy })
+        .onConflictDoUpdate({
+          target: siteClockInSettings.geofenceId,
+          set: {
+            clockInMethods,
+            updatedBy,
+            updatedAt: new Date()
+          }
+        });
+
+      return {
+        success: true,
+        message: 'Site clock-in methods updated successfully',
+        data: {
+          geofenceId,
+          clockInMethods,
+          effectiveMethods: await this.getAllowedMethods(companyId, geofenceId)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to update site clock-in methods:', error);
+      return {
+        success: false,
+        message: 'Failed to update site clock-in methods',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the QR code to display at a site right now
+   */
+  async getQrCode(companyId: string, geofenceId: string): Promise<ClockInMethodServiceResult<SiteQrCode>> {
+    try {
+      if (!(await this.siteExists(companyId, geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      const secret = await this.getQrSecret(companyId, geofenceId);
+
+      return {
+        success: true,
+        data: this.toQrCode(geofenceId, secret, new Date())
+      };
+
+    } catch (error) {
+      logger.error('Failed to get site QR code:', error);
+      return {
+        success: false,
+        message: 'Failed to get site QR code',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Replace a site's QR secret, invalidating every code shown so far
+   */
+  async rotateQrSecret(companyId: string, geofenceId: string, updatedBy: string): Promise<ClockInMethodServiceResult<SiteQrCode>> {
+    try {
+      if (!(await this.siteExists(companyId, geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      const now = new Date();
+      const secret = crypto.randomBytes(32).toString('hex');
+
+      await db
+        .insert(siteClockInSettings)
+        .values({ companyId, geofenceId, qrSecret: secret, qrRotatedAt: now, updatedBy })
+        .onConflictDoUpdate({
+          target: siteClockInSettings.geofenceId,
+          set: {
+            qrSecret: secret,
+            qrRotatedAt: now,
+            updatedBy,
+            updatedAt: now
+          }
+        });
+
+      logger.info('Site QR secret rotated', {
+        service: 'attendance-service',
+        companyId,
+        geofenceId,
+        updatedBy
+      });
+
+      return {
+        success: true,
+        message: 'Site QR code rotated successfully',
+        data: this.toQrCode(geofenceId, secret, now)
+      };
+
+    } catch (error) {
+      logger.error('Failed to rotate site QR secret:', error);
+      return {
+        success: false,
+        message: 'Failed to rotate site QR code',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Check a scanned QR code: it must be signed for an active company site and be the current or previous step
+   */
+  async verifyQrCode(companyId: string, code: string, now: Date): Promise<QrCodeCheck> {
+    const [geofenceId, stepText, signature] = code.trim().split('.');
+    if (!geofenceId || !stepText || !signature || !/^[0-9a-f-]{36}$/i.test(geofenceId) || !/^\d+$/.test(stepText)) {
+      return { valid: false, reason: 'INVALID_QR_CODE' };
+    }
+
+    const step = Number(stepText);
+    const currentStep = this.getStep(now);
+    if (step > currentStep) {
+      return { valid: false, reason: 'INVALID_QR_CODE' };
+    }
+
+    const [site] = await db
+      .select({ qrSecret: siteClockInSettings.qrSecret })
+      .from(siteClockInSettings)
+      .innerJoin(geofenceSettings, eq(siteClockInSettings.geofenceId, geofenceSettings.id))
+      .where(
+        and(
+          eq(siteClockInSettings.geofenceId, geofenceId),
+          eq(siteClockInSettings.companyId, companyId),
+          eq(geofenceSettings.isActive, true)
+        )
+      )
+      .limit(1);
+
+    if (!site?.qrSecret) {
+      return { valid: false, reason: 'INVALID_QR_CODE' };
+    }
+
+    const expected = Buffer.from(this.sign(site.qrSecret, geofenceId, step));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+      return { valid: false, reason: 'INVALID_QR_CODE' };
+    }
+
+    // Checked after the signature so an old but genuine code is reported as expired, not forged
+    if (step < currentStep - 1) {
+      return { valid: false, geofenceId, step, reason: 'EXPIRED_QR_CODE' };
+    }
+
+    return { valid: true, geofenceId, step };
+  }
+
+  /**
+   * Register an NFC badge to an employee
+   */
+  async registerBadge(companyId: string, data: RegisterBadgeData, registeredBy: string): Promise<ClockInMethodServiceResult<NfcBadge>> {
+    try {
+      const badgeUid = this.normalizeBadgeUid(data.badgeUid);
+
+      const [employee] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, data.userId), eq(users.companyId, companyId), eq(users.isActive, true)))
+        .limit(1);
+
+      if (!employee) {
+        return {
+          success: false,
+          message: 'Employee not found',
+          error: 'USER_NOT_FOUND'
+        };
+      }
+
+      const [existing] = await db
+        .select()
+        .from(nfcBadges)
+        .where(and(eq(nfcBadges.companyId, companyId), eq(nfcBadges.badgeUid, badgeUid)))
+        .limit(1);
+
+      if (existing?.isActive) {
+        return {
+          success: false,
+          message: 'Badge is already registered',
+          error: 'BADGE_ALREADY_REGISTERED'
+        };
+      }
+
+      // A deactivated badge can be handed to someone else
+      const [badge] = existing
+        ? await db
+          .update(nfcBadges)
+          .set({
+            userId: data.userId,
+            label: data.label ?? null,
+            isActive: true,
+            lastUsedAt: null,
+            registeredBy,
+            updatedAt: new Date()
+          })
+          .where(eq(nfcBadges.id, existing.id))
+          .returning()
+        : await db
+          .insert(nfcBadges)
+          .values({
+            companyId,
+            userId: data.userId,
+            badgeUid,
+            label: data.label ?? null,
+            registeredBy
+          })
+          .returning();
+
+      if (!badge) {
+        return {
+          success: false,
+          message: 'Failed to register badge',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('NFC badge registered', {
+        service: 'attendance-service',
+        companyId,
+        badgeId: badge.id,
+        userId: data.userId
+      });
+
+      return {
+        success: true,
+        message: 'Badge registered successfully',
+        data: badge
+      };
+
+    } catch (error) {
+      logger.error('Failed to register NFC badge:', error);
+      return {
+        success: false,
+        message: 'Failed to register badge',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * List the company's NFC badges
+   */
+  async getBadges(companyId: string, userId?: string): Promise<ClockInMethodServiceResult<NfcBadge[]>> {
+    try {
+      const conditions: SQL[] = [eq(nfcBadges.companyId, companyId)];
+      if (userId) {
+        conditions.push(eq(nfcBadges.userId, userId));
+      }
+
+      const badges = await db
+        .select()
+        .from(nfcBadges)
+        .where(and(...conditions))
+        .orderBy(desc(nfcBadges.createdAt));
+
+      return {
+        success: true,
+        data: badges
+      };
+
+    } catch (error) {
+      logger.error('Failed to get NFC badges:', error);
+      return {
+        success: false,
+        message: 'Failed to get badges',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a lost or returned badge
+   */
+  async deactivateBadge(companyId: string, badgeId: string): Promise<ClockInMethodServiceResult<NfcBadge>> {
+    try {
+      const [badge] = await db
+        .update(nfcBadges)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(eq(nfcBadges.id, badgeId), eq(nfcBadges.companyId, companyId)))
+        .returning();
+
+      if (!badge) {
+        return {
+          success: false,
+          message: 'Badge not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Badge deactivated successfully',
+        data: badge
+      };
+
+    } catch (error) {
+      logger.error('Failed to deactivate NFC badge:', error);
+      return {
+        success: false,
+        message: 'Failed to deactivate badge',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Resolve a scanned badge to the employee's active badge, or null if it isn't theirs
+   */
+  async verifyBadge(companyId: string, userId: string, badgeUid: string): Promise<NfcBadge | null> {
+    const [badge] = await db
+      .update(nfcBadges)
+      .set({ lastUsedAt: new Date() })
+      .where(
+        and(
+          eq(nfcBadges.companyId, companyId),
+          eq(nfcBadges.userId, userId),
+          eq(nfcBadges.badgeUid, this.normalizeBadgeUid(badgeUid)),
+          eq(nfcBadges.isActive, true)
+        )
+      )
+      .returning();
+
+    return badge ?? null;
+  }
+
+  private async getQrSecret(companyId: string, geofenceId: string): Promise<string> {
+    const now = new Date();
+
+    // Created on first display; a concurrent first display keeps whichever secret landed first
+    await db
+      .insert(siteClockInSettings)
+      .values({ companyId, geofenceId, qrSecret: crypto.randomBytes(32).toString('hex'), qrRotatedAt: now })
+      .onConflictDoUpdate({
+        target: siteClockInSettings.geofenceId,
+        set: {
+          qrSecret: crypto.randomBytes(32).toString('hex'),
+          qrRotatedAt: now,
+          updatedAt: now
+        },
+        where: isNull(siteClockInSettings.qrSecret)
+      });
+
+    const [settings] = await db
+      .select({ qrSecret: siteClockInSettings.qrSecret })
+      .from(siteClockInSettings)
+      .where(eq(siteClockInSettings.geofenceId, geofenceId))
+      .limit(1);
+
+    if (!settings?.qrSecret) {
+      throw new Error('Failed to initialize site QR secret');
+    }
+
+    return settings.qrSecret;
+  }
+
+  private toQrCode(geofenceId: string, secret: string, now: Date): SiteQrCode {
+    const stepMs = env.QR_CODE_STEP_SECONDS * 1000;
+    const step = this.getStep(now);
+
+    return {
+      geofenceId,
+      code: `${geofenceId}.${step}.${this.sign(secret, geofenceId, step)}`,
+      validFrom: new Date(step * stepMs),
+      expiresAt: new Date((step + 1) * stepMs),
+      stepSeconds: env.QR_CODE_STEP_SECONDS
+    };
+  }
+
+  private getStep(time: Date): number {
+    return Math.floor(time.getTime() / (env.QR_CODE_STEP_SECONDS * 1000));
+  }
+
+  private sign(secret: string, geofenceId: string, step: number): string {
+    return crypto
+      .createHmac('sha256', Buffer.from(secret, 'hex'))
+      .update(`${geofenceId}.${step}`)
+      .digest('base64url');
+  }
+
+  // Readers report UIDs as "04:A2:...", "04-a2-..." or "04A2..."
+  private normalizeBadgeUid(badgeUid: string): string {
+    return badgeUid.replace(/[\s:-]/g, '').toUpperCase();
+  }
+
+  private async siteExists(companyId: string, geofenceId: string): Promise<boolean> {
+    const [site] = await db
+      .select({ id: geofenceSettings.id })
+      .from(geofenceSettings)
+      .where(
+        and(
+          eq(geofenceSettings.id, geofenceId),
+          eq(geofenceSettings.companyId, companyId),
+          eq(geofenceSettings.isActive, true)
+        )
+      )
+      .limit(1);
+
+    return !!site;
+  }
+}
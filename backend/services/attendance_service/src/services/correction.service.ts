@@ -0,0 +1,624 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { attendanceCorrectionRequests, attendanceCorrectionHistory } from '../db/schema/correction';
+import { logger } from '../utils/logger';
+import { AttendanceService } from './attendance.service';
+import { TimesheetService } from './timesheet.service';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { TransactionRollbackError } from 'drizzle-orm/errors';
+
+export type CorrectionRequest = typeof attendanceCorrectionRequests.$inferSelect;
+export type CorrectionHistoryEntry = typeof attendanceCorrectionHistory.$inferSelect;
+
+export interface CorrectionRequestData {
+  attendanceId: string;
+  clockInTime?: string;
+  clockOutTime?: string;
+  reason: string;
+}
+
+export interface CorrectionRequestFilters {
+  userId?: string;
+  attendanceId?: string;
+  status?: CorrectionRequest['status'];
+}
+
+export interface CorrectionServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export class CorrectionService {
+  private readonly attendanceService = new AttendanceService();
+  private readonly timesheetService = new TimesheetService();
+
+  /**
+   * Propose a corrected clock-in and/or clock-out time for one of the employee's records
+   */
+  async requestCorrection(
+    companyId: string,
+    userId: string,
+    data: CorrectionRequestData
+  ): Promise<CorrectionServiceResult<CorrectionRequest>> {
+    try {
+      const [record] = await db
+        .select({
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          lockedAt: attendanceRecords.lockedAt
+        })
+        .from(attendanceRecords)
+        .where(
+          and(
+            eq(attendanceRecords.id, data.attendanceId),
+            eq(attendanceRecords.userId, userId),
+            eq(attendanceRecords.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!record) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (record.lockedAt) {
+        return {
+          success: false,
+          message: 'Attendance record is locked by an approved timesheet',
+          error: 'RECORD_LOCKED'
+        };
+      }
+
+      const clockInTime = data.clockInTime ? new Date(data.clockInTime) : record.clockInTime;
+      const clockOutTime = data.clockOutTime ? new Date(data.clockOutTime) : record.clockOutTime;
+      const timeError = this.validateTimes(clockInTime, clockOutTime);
+
+      if (timeError) {
+        return {
+          success: false,
+          message: timeError,
+          error: 'INVALID_TIME_RANGE'
+        };
+      }
+
+      const conflict = await this.checkConflicts(companyId, userId, data.attendanceId, clockInTime, clockOutTime);
+      if (conflict) {
+        return conflict;
+      }
+
+      const [pending] = await db
+        .select({ id: attendanceCorrectionRequests.id })
+        .from(attendanceCorrectionRequests)
+        .where(
+          and(
+            eq(attendanceCorrectionRequests.attendanceId, data.attendanceId),
+            eq(attendanceCorrectionRequests.status, 'pending')
+          )
+        )
+        .limit(1);
+
+      if (pending) {
+        return {
+          success: false,
+          message: 'A correction is already pending for this attendance record',
+          error: 'DUPLICATE_REQUEST'
+        };
+      }
+
+      const [request] = await db.insert(attendanceCorrectionRequests).values({
+        companyId,
+        userId,
+        attendanceId: data.attendanceId,
+        requestedClockInTime: data.clockInTime ? clockInTime : null,
+        requestedClockOutTime: data.clockOutTime ? clockOutTime : null,
+        reason: data.reason
+      }).returning();
+
+      if (!request) {
+        return {
+          success: false,
+          message: 'Failed to request correction',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Attendance correction requested', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        attendanceId: data.attendanceId,
+        requestId: request.id
+      });
+
+      return {
+        success: true,
+        message: 'Correction requested successfully',
+        data: request
+      };
+
+    } catch (error) {
+      logger.error('Failed to request correction:', error);
+      return {
+        success: false,
+        message: 'Failed to request correction',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get correction requests
+   */
+  async getRequests(
+    companyId: string,
+    filters: CorrectionRequestFilters = {}
+  ): Promise<CorrectionServiceResult<CorrectionRequest[]>> {
+    try {
+      const whereConditions = [eq(attendanceCorrectionRequests.companyId, companyId)];
+
+      if (filters.userId) {
+        whereConditions.push(eq(attendanceCorrectionRequests.userId, filters.userId));
+      }
+
+      if (filters.attendanceId) {
+        whereConditions.push(eq(attendanceCorrectionRequests.attendanceId, filters.attendanceId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(attendanceCorrectionRequests.status, filters.status));
+      }
+
+      const requests = await db
+        .select()
+        .from(attendanceCorrectionRequests)
+        .where(and(...whereConditions))
+        .orderBy(desc(attendanceCorrectionRequests.createdAt));
+
+      return {
+        success: true,
+        data: requests
+      };
+
+    } catch (error) {
+      logger.error('Failed to get correction requests:', error);
+      return {
+        success: false,
+        message: 'Failed to get correction requests',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single correction request, optionally restricted to its owner
+   */
+  async getRequest(companyId: string, requestId: string, userId?: string): Promise<CorrectionServiceResult<CorrectionRequest>> {
+    try {
+      const whereConditions = [
+        eq(attendanceCorrectionRequests.id, requestId),
+        eq(attendanceCorrectionRequests.companyId, companyId)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(attendanceCorrectionRequests.userId, userId));
+      }
+
+      const [request] = await db
+        .select()
+        .from(attendanceCorrectionRequests)
+        .where(and(...whereConditions))
+        .limit(1);
+
+      if (!request) {
+        return {
+          success: false,
+          message: 'Correction request not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: request
+      };
+
+    } catch (error) {
+      logger.error('Failed to get correction request:', error);
+      return {
+        success: false,
+        message: 'Failed to get correction request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Approve a pending correction, apply it to the attendance record and keep the original values in the history
+   */
+  async approveRequest(
+    companyId: string,
+    requestId: string,
+    reviewerId: string,
+    notes?: string
+  ): Promise<CorrectionServiceResult<CorrectionRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const request = existing.data;
+
+      if (request.status !== 'pending') {
+        return {
+          success: false,
+          message: `Correction request is already ${request.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      if (request.userId === reviewerId) {
+        return {
+          success: false,
+          message: 'You cannot approve your own correction request',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const [record] = await db
+        .select({
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          status: attendanceRecords.status
+        })
+        .from(attendanceRecords)
+        .where(eq(attendanceRecords.id, request.attendanceId))
+        .limit(1);
+
+      if (!record) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      // The record may have changed since the request, e.g. a later clock-out
+      const clockInTime = request.requestedClockInTime ?? record.clockInTime;
+      const clockOutTime = request.requestedClockOutTime ?? record.clockOutTime;
+      const timeError = this.validateTimes(clockInTime, clockOutTime);
+
+      if (timeError) {
+        return {
+          success: false,
+          message: timeError,
+          error: 'INVALID_TIME_RANGE'
+        };
+      }
+
+      const conflict = await this.checkConflicts(companyId, request.userId, request.attendanceId, clockInTime, clockOutTime);
+      if (conflict) {
+        return conflict;
+      }
+
+      // Claim, apply and audit together: a failed step leaves the request pending and the record untouched
+      const now = new Date();
+      let failure: CorrectionServiceResult<CorrectionRequest> | null = null;
+      let approved: CorrectionRequest | undefined;
+
+      try {
+        approved = await db.transaction(async (tx) => {
+          const [claimed] = await tx
+            .update(attendanceCorrectionRequests)
+            .set({
+              status: 'approved',
+              reviewedBy: reviewerId,
+              reviewedAt: now,
+              reviewNotes: notes || null,
+              updatedAt: now
+            })
+            .where(
+              and(
+                eq(attendanceCorrectionRequests.id, requestId),
+                eq(attendanceCorrectionRequests.status, 'pending')
+              )
+            )
+            .returning();
+
+          if (!claimed) {
+            failure = {
+              success: false,
+              message: 'Only pending correction requests can be approved',
+              error: 'INVALID_STATUS'
+            };
+            tx.rollback();
+          }
+
+          const applied = await this.attendanceService.applyCorrection(request.attendanceId, clockInTime, clockOutTime, tx);
+
+          if (!applied.success) {
+            failure = {
+              success: false,
+              message: applied.message || 'Failed to apply correction',
+              error: applied.error || 'DATABASE_ERROR'
+            };
+            tx.rollback();
+          }
+
+          await tx.insert(attendanceCorrectionHistory).values({
+            companyId,
+            attendanceId: request.attendanceId,
+            correctionRequestId: requestId,
+            userId: request.userId,
+            originalClockInTime: record.clockInTime,
+            originalClockOutTime: record.clockOutTime,
+            originalStatus: record.status,
+            correctedClockInTime: clockInTime,
+            correctedClockOutTime: clockOutTime,
+            reason: request.reason,
+            approvedBy: reviewerId,
+            approvedAt: now
+          });
+
+          return claimed;
+        });
+      } catch (error) {
+        if (!(error instanceof TransactionRollbackError)) {
+          throw error;
+        }
+      }
+
+      if (failure || !approved) {
+        return failure ?? {
+          success: false,
+          message: 'Failed to apply correction',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      // Overtime reads the committed record
+      if (clockOutTime) {
+        await this.attendanceService.calculateOvertime(companyId, request.attendanceId);
+      }
+
+      logger.info('Attendance correction approved', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        attendanceId: request.attendanceId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: 'Correction approved and applied successfully',
+        data: approved
+      };
+
+    } catch (error) {
+      logger.error('Failed to approve correction request:', error);
+      return {
+        success: false,
+        message: 'Failed to approve correction request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Reject a pending correction
+   */
+  async rejectRequest(
+    companyId: string,
+    requestId: string,
+    reviewerId: string,
+    reason: string
+  ): Promise<CorrectionServiceResult<CorrectionRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      if (existing.data.userId === reviewerId) {
+        return {
+          success: false,
+          message: 'You cannot reject your own correction request',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const [rejected] = await db
+        .update(attendanceCorrectionRequests)
+        .set({
+          status: 'rejected',
+          reviewedBy: reviewerId,
+          reviewedAt: new Date(),
+          reviewNotes: reason,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(attendanceCorrectionRequests.id, requestId),
+            eq(attendanceCorrectionRequests.status, 'pending')
+          )
+        )
+        .returning();
+
+      if (!rejected) {
+        return {
+          success: false,
+          message: 'Only pending correction requests can be rejected',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info('Attendance correction rejected', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: 'Correction request rejected successfully',
+        data: rejected
+      };
+
+    } catch (error) {
+      logger.error('Failed to reject correction request:', error);
+      return {
+        success: false,
+        message: 'Failed to reject correction request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Cancel one of the employee's pending corrections
+   */
+  async cancelRequest(companyId: string, requestId: string, userId: string): Promise<CorrectionServiceResult<CorrectionRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId, userId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const [cancelled] = await db
+        .update(attendanceCorrectionRequests)
+        .set({
+          status: 'cancelled',
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(attendanceCorrectionRequests.id, requestId),
+            eq(attendanceCorrectionRequests.status, 'pending')
+          )
+        )
+        .returning();
+
+      if (!cancelled) {
+        return {
+          success: false,
+          message: 'Only pending correction requests can be cancelled',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info('Attendance correction cancelled', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        userId
+      });
+
+      return {
+        success: true,
+        message: 'Correction request cancelled successfully',
+        data: cancelled
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel correction request:', error);
+      return {
+        success: false,
+        message: 'Failed to cancel correction request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Applied corrections of one attendance record, oldest first
+   */
+  async getHistory(
+    companyId: string,
+    attendanceId: string,
+    userId?: string
+  ): Promise<CorrectionServiceResult<CorrectionHistoryEntry[]>> {
+    try {
+      const whereConditions = [
+        eq(attendanceCorrectionHistory.attendanceId, attendanceId),
+        eq(attendanceCorrectionHistory.companyId, companyId)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(attendanceCorrectionHistory.userId, userId));
+      }
+
+      const history = await db
+        .select()
+        .from(attendanceCorrectionHistory)
+        .where(and(...whereConditions))
+        .orderBy(asc(attendanceCorrectionHistory.approvedAt));
+
+      return {
+        success: true,
+        data: history
+      };
+
+    } catch (error) {
+      logger.error('Failed to get correction history:', error);
+      return {
+        success: false,
+        message: 'Failed to get correction history',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Corrected times must not reach into an approved pay period or overlap the employee's other records
+   */
+  private async checkConflicts(
+    companyId: string,
+    userId: string,
+    attendanceId: string,
+    clockInTime: Date,
+    clockOutTime: Date | null
+  ): Promise<CorrectionServiceResult<never> | null> {
+    const lockedIn = await this.timesheetService.isPeriodLocked(companyId, userId, clockInTime);
+    const lockedOut = !lockedIn && clockOutTime
+      ? await this.timesheetService.isPeriodLocked(companyId, userId, clockOutTime)
+      : false;
+
+    if (lockedIn || lockedOut) {
+      return {
+        success: false,
+        message: 'Corrected times fall in a pay period whose timesheet is already approved',
+        error: 'PERIOD_LOCKED'
+      };
+    }
+
+    if (await this.attendanceService.getOverlappingRecord(userId, clockInTime, clockOutTime, attendanceId)) {
+      return {
+        success: false,
+        message: 'Corrected times overlap another attendance record',
+        error: 'OVERLAPPING_ATTENDANCE'
+      };
+    }
+
+    return null;
+  }
+
+  private validateTimes(clockInTime: Date, clockOutTime: Date | null): string | null {
+    if (clockInTime.getTime() > Date.now() || (clockOutTime && clockOutTime.getTime() > Date.now())) {
+      return 'Corrected times cannot be in the future';
+    }
+
+    if (clockOutTime && clockOutTime <= clockInTime) {
+      return 'Clock-out must be after clock-in';
+    }
+
+    return null;
+  }
+}
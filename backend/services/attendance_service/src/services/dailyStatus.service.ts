@@ -0,0 +1,591 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { companies, companySettings, users } from '../db/schema/auth';
+import { dailyAttendanceSummaries } from '../db/schema/dailyStatus';
+import { logger } from '../utils/logger';
+import { ShiftService, ShiftInstance } from './shift.service';
+import { LeaveService } from './leave.service';
+import { HolidayService } from './holiday.service';
+import { getLocalDateString, getIsoWeekday, addDaysToDateString, daysBetweenDateStrings, zonedTimeToUtc } from '../utils/helpers';
+import { eq, and, asc, gte, lt, lte, ne, sql } from 'drizzle-orm';
+
+export type DailyAttendanceSummary = typeof dailyAttendanceSummaries.$inferSelect;
+export type DailyStatus = DailyAttendanceSummary['status'];
+
+export interface DailyStatusFilters {
+  startDate: string;
+  endDate: string;
+  userId?: string;
+  status?: DailyStatus;
+  department?: string;
+}
+
+export interface DailyStatusCounts {
+  date: string;
+  total: number;
+  counts: Partial<Record<DailyStatus, number>>;
+}
+
+export interface DailyStatusRollUp {
+  startDate: string;
+  endDate: string;
+  employees: number;
+  summaries: number;
+}
+
+export interface DailyStatusRunSummary {
+  companies: number;
+  summaries: number;
+  failed: number;
+}
+
+export interface DailyStatusServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type SummaryRow = typeof dailyAttendanceSummaries.$inferInsert;
+
+export type CompanyDay = {
+  timezone: string;
+  workDays: number[];
+  workHoursStart: string;
+  workHoursEnd: string;
+  lateToleranceMinutes: number;
+};
+
+type DayRecord = {
+  clockInTime: Date;
+  clockOutTime: Date | null;
+  workMode: 'onsite' | 'remote' | 'hybrid';
+  locationType: 'site' | 'home' | 'alternate' | null;
+  workedMinutes: number | null;
+  geofenceId: string | null;
+};
+
+type DayLeave = { requestId: string; minutes: number };
+
+const MAX_ROLLUP_DAYS = 31;
+const MAX_REPORT_DAYS = 92;
+const UPSERT_CHUNK_SIZE = 500;
+
+export class DailyStatusService {
+  private readonly shiftService = new ShiftService();
+  private readonly leaveService = new LeaveService();
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Recompute the daily status of every active employee (or one) for each company-local date in range
+   */
+  async rollUp(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    userId?: string,
+    now: Date = new Date()
+  ): Promise<DailyStatusServiceResult<DailyStatusRollUp>> {
+    try {
+      if (daysBetweenDateStrings(startDate, endDate) + 1 > MAX_ROLLUP_DAYS) {
+        return {
+          success: false,
+          message: `Daily status can be recomputed for at most ${MAX_ROLLUP_DAYS} days at a time`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const userConditions = [
+        eq(users.companyId, companyId),
+        eq(users.isActive, true)
+      ];
+
+      if (userId) {
+        userConditions.push(eq(users.id, userId));
+      }
+
+      const employees = await db
+        .select({ id: users.id, department: users.department, hireDate: users.hireDate })
+        .from(users)
+        .where(and(...userConditions));
+
+      if (userId && employees.length === 0) {
+        return {
+          success: false,
+          message: 'Employee not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const company = await this.getCompanyDay(companyId);
+      const rangeStart = zonedTimeToUtc(startDate, '00:00', company.timezone);
+      const rangeEnd = zonedTimeToUtc(addDaysToDateString(endDate, 1), '00:00', company.timezone);
+
+      const recordConditions = [
+        eq(attendanceRecords.companyId, companyId),
+        gte(attendanceRecords.clockInTime, rangeStart),
+        lt(attendanceRecords.clockInTime, rangeEnd),
+        ne(attendanceRecords.status, 'rejected')
+      ];
+
+      if (userId) {
+        recordConditions.push(eq(attendanceRecords.userId, userId));
+      }
+
+      const records = await db
+        .select({
+          userId: attendanceRecords.userId,
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          workMode: attendanceRecords.workMode,
+          locationType: attendanceRecords.locationType,
+          workedMinutes: attendanceRecords.workedMinutes,
+          geofenceId: attendanceRecords.geofenceId
+        })
+        .from(attendanceRecords)
+        .where(and(...recordConditions))
+        .orderBy(asc(attendanceRecords.clockInTime));
+
+      // Records belong to the local date they were clocked in on, overnight shifts included
+      const recordsByDay = new Map<string, DayRecord[]>();
+      for (const record of records) {
+        const key = `${record.userId}:${getLocalDateString(record.clockInTime, company.timezone)}`;
+        const dayRecords = recordsByDay.get(key) ?? [];
+        dayRecords.push(record);
+        recordsByDay.set(key, dayRecords);
+      }
+
+      const leaveByDay = new Map<string, DayLeave>();
+      for (const day of await this.leaveService.getApprovedLeaveDays(companyId, startDate, endDate, userId)) {
+        const key = `${day.userId}:${day.date}`;
+        const existing = leaveByDay.get(key);
+        leaveByDay.set(key, {
+          requestId: existing?.requestId ?? day.requestId,
+          minutes: (existing?.minutes ?? 0) + day.minutes
+        });
+      }
+
+      // Holidays of the site worked at that day, otherwise the employee's home site (company-wide calendars always apply)
+      const homeSiteIds = await this.holidayService.getHomeSiteIds(companyId, employees.map(employee => employee.id));
+      const holidaysBySite = new Map<string, Map<string, string>>();
+      const getHolidayName = async (date: string, siteId: string | undefined): Promise<string | null> => {
+        const key = siteId ?? '';
+        if (!holidaysBySite.has(key)) {
+          holidaysBySite.set(key, await this.holidayService.getHolidayDates(companyId, startDate, endDate, siteId));
+        }
+        return holidaysBySite.get(key)!.get(date) ?? null;
+      };
+
+      const rows: SummaryRow[] = [];
+
+      for (const employee of employees) {
+        const shiftsResult = await this.shiftService.getScheduledShifts(employee.id, companyId, startDate, endDate);
+        if (!shiftsResult.success) {
+          throw new Error(shiftsResult.message || 'Failed to get scheduled shifts');
+        }
+
+        const shiftsByDate = new Map<string, ShiftInstance>();
+        for (const shift of shiftsResult.data || []) {
+          if (!shiftsByDate.has(shift.date)) {
+            shiftsByDate.set(shift.date, shift);
+          }
+        }
+
+        const hireDate = employee.hireDate ? getLocalDateString(employee.hireDate, company.timezone) : null;
+
+        for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+          if (hireDate && date < hireDate) {
+            continue;
+          }
+
+          const key = `${employee.id}:${date}`;
+          const dayRecords = recordsByDay.get(key) ?? [];
+          const siteId = dayRecords.find(record => record.geofenceId)?.geofenceId ?? homeSiteIds.get(employee.id);
+
+          rows.push({
+            companyId,
+            userId: employee.id,
+            date,
+            department: employee.department,
+            ...this.computeDay(
+              date,
+              company,
+              shiftsByDate.get(date) ?? null,
+              dayRecords,
+              leaveByDay.get(key) ?? null,
+              await getHolidayName(date, siteId),
+              now
+            ),
+            computedAt: now
+          });
+        }
+      }
+
+      for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+        await this.upsertSummaries(rows.slice(i, i + UPSERT_CHUNK_SIZE));
+      }
+
+      logger.info('Daily attendance status rolled up', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        startDate,
+        endDate,
+        summaries: rows.length
+      });
+
+      return {
+        success: true,
+        message: 'Daily attendance status recomputed successfully',
+        data: {
+          startDate,
+          endDate,
+          employees: employees.length,
+          summaries: rows.length
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to roll up daily attendance status:', error);
+      return {
+        success: false,
+        message: 'Failed to roll up daily attendance status',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Roll up yesterday and today (company-local) for every active company. Used by the scheduled job.
+   */
+  async runScheduled(now: Date = new Date()): Promise<DailyStatusRunSummary> {
+    const summary: DailyStatusRunSummary = { companies: 0, summaries: 0, failed: 0 };
+
+    const activeCompanies = await db
+      .select({ id: companies.id })
+      .from(companies)
+      .where(eq(companies.isActive, true));
+
+    for (const company of activeCompanies) {
+      summary.companies++;
+
+      try {
+        const today = getLocalDateString(now, await this.shiftService.getCompanyTimezone(company.id));
+        const result = await this.rollUp(company.id, addDaysToDateString(today, -1), today, undefined, now);
+
+        if (!result.success) {
+          summary.failed++;
+          continue;
+        }
+
+        summary.summaries += result.data?.summaries ?? 0;
+
+      } catch (error) {
+        summary.failed++;
+        logger.error('Failed to roll up daily attendance status for company:', error);
+      }
+    }
+
+    if (summary.failed > 0) {
+      logger.warn('Daily status roll-up finished with failures', {
+        service: 'attendance-service',
+        ...summary
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Get daily summaries, oldest date first
+   */
+  async getSummaries(
+    companyId: string,
+    filters: DailyStatusFilters
+  ): Promise<DailyStatusServiceResult<DailyAttendanceSummary[]>> {
+    try {
+      if (daysBetweenDateStrings(filters.startDate, filters.endDate) + 1 > MAX_REPORT_DAYS) {
+        return {
+          success: false,
+          message: `Daily status can be shown for at most ${MAX_REPORT_DAYS} days`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const whereConditions = [
+        eq(dailyAttendanceSummaries.companyId, companyId),
+        gte(dailyAttendanceSummaries.date, filters.startDate),
+        lte(dailyAttendanceSummaries.date, filters.endDate)
+      ];
+
+      if (filters.userId) {
+        whereConditions.push(eq(dailyAttendanceSummaries.userId, filters.userId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(dailyAttendanceSummaries.status, filters.status));
+      }
+
+      if (filters.department) {
+        whereConditions.push(eq(dailyAttendanceSummaries.department, filters.department));
+      }
+
+      const summaries = await db
+        .select()
+        .from(dailyAttendanceSummaries)
+        .where(and(...whereConditions))
+        .orderBy(asc(dailyAttendanceSummaries.date), asc(dailyAttendanceSummaries.userId));
+
+      return {
+        success: true,
+        data: summaries
+      };
+
+    } catch (error) {
+      logger.error('Failed to get daily attendance summaries:', error);
+      return {
+        success: false,
+        message: 'Failed to get daily attendance summaries',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Count employees per status for each date in range
+   */
+  async getStatusCounts(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    department?: string
+  ): Promise<DailyStatusServiceResult<DailyStatusCounts[]>> {
+    try {
+      if (daysBetweenDateStrings(startDate, endDate) + 1 > MAX_REPORT_DAYS) {
+        return {
+          success: false,
+          message: `Daily status can be shown for at most ${MAX_REPORT_DAYS} days`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const whereConditions = [
+        eq(dailyAttendanceSummaries.companyId, companyId),
+        gte(dailyAttendanceSummaries.date, startDate),
+        lte(dailyAttendanceSummaries.date, endDate)
+      ];
+
+      if (department) {
+        whereConditions.push(eq(dailyAttendanceSummaries.department, department));
+      }
+
+      const rows = await db
+        .select({
+          date: dailyAttendanceSummaries.date,
+          status: dailyAttendanceSummaries.status,
+          count: sql<number>`count(*)::int`
+        })
+        .from(dailyAttendanceSummaries)
+        .where(and(...whereConditions))
+        .groupBy(dailyAttendanceSummaries.date, dailyAttendanceSummaries.status)
+        .orderBy(asc(dailyAttendanceSummaries.date));
+
+      const byDate = new Map<string, DailyStatusCounts>();
+      for (const row of rows) {
+        const day = byDate.get(row.date) ?? { date: row.date, total: 0, counts: {} };
+        day.counts[row.status] = row.count;
+        day.total += row.count;
+        byDate.set(row.date, day);
+      }
+
+      return {
+        success: true,
+        data: [...byDate.values()]
+      };
+
+    } catch (error) {
+      logger.error('Failed to get daily status counts:', error);
+      return {
+        success: false,
+        message: 'Failed to get daily status counts',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Work days, work hours, late tolerance and timezone from the company settings
+   */
+  async getCompanyDay(companyId: string): Promise<CompanyDay> {
+    const [settings] = await db
+      .select({
+        workDays: companySettings.workDays,
+        workHoursStart: companySettings.workHoursStart,
+        workHoursEnd: companySettings.workHoursEnd,
+        lateToleranceMinutes: companySettings.lateToleranceMinutes
+      })
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId))
+      .limit(1);
+
+    return {
+      timezone: await this.shiftService.getCompanyTimezone(companyId),
+      workDays: (settings?.workDays as number[] | undefined) ?? [1, 2, 3, 4, 5],
+      workHoursStart: settings?.workHoursStart ?? '09:00:00',
+      workHoursEnd: settings?.workHoursEnd ?? '17:00:00',
+      lateToleranceMinutes: settings?.lateToleranceMinutes ?? 15
+    };
+  }
+
+  /**
+   * Status of one employee on one local date.
+   * Expected hours come from the scheduled shift, or the company work hours on work days that are not holidays.
+   * Days with records are late, early_leave, remote or present (in that order); days without are
+   * on_leave, holiday, scheduled (still to come), absent or off.
+   */
+  private computeDay(
+    date: string,
+    company: CompanyDay,
+    shift: ShiftInstance | null,
+    records: DayRecord[],
+    leave: DayLeave | null,
+    holidayName: string | null,
+    now: Date
+  ): Omit<SummaryRow, 'companyId' | 'userId' | 'date' | 'department'> {
+    let expectedStart: Date | null = null;
+    let expectedEnd: Date | null = null;
+    let expectedMinutes = 0;
+
+    if (shift) {
+      expectedStart = shift.scheduledStart;
+      expectedEnd = shift.scheduledEnd;
+      expectedMinutes = Math.max(Math.round((expectedEnd.getTime() - expectedStart.getTime()) / 60000) - shift.breakMinutes, 0);
+    } else if (company.workDays.includes(getIsoWeekday(date)) && !holidayName) {
+      expectedStart = zonedTimeToUtc(date, company.workHoursStart, company.timezone);
+      expectedEnd = zonedTimeToUtc(date, company.workHoursEnd, company.timezone);
+      expectedMinutes = Math.max(Math.round((expectedEnd.getTime() - expectedStart.getTime()) / 60000), 0);
+    }
+
+    const base = {
+      shiftTemplateId: shift?.templateId ?? null,
+      expectedStart,
+      expectedEnd,
+      expectedMinutes,
+      leaveRequestId: leave?.requestId ?? null,
+      leaveMinutes: leave?.minutes ?? 0,
+      holidayName
+    };
+
+    const [first] = records;
+    if (!first) {
+      let status: DailyStatus = 'off';
+      if (leave) {
+        status = 'on_leave';
+      } else if (holidayName) {
+        status = 'holiday';
+      } else if (expectedEnd) {
+        status = now < expectedEnd ? 'scheduled' : 'absent';
+      }
+
+      return {
+        ...base,
+        status,
+        workMode: null,
+        firstClockIn: null,
+        lastClockOut: null,
+        workedMinutes: 0,
+        lateMinutes: 0,
+        earlyLeaveMinutes: 0,
+        isLate: false,
+        isEarlyLeave: false,
+        recordCount: 0
+      };
+    }
+
+    const hasOpenRecord = records.some(record => !record.clockOutTime);
+    const lastClockOut = hasOpenRecord
+      ? null
+      : records.reduce<Date | null>((latest, record) =>
+        record.clockOutTime && (!latest || record.clockOutTime > latest) ? record.clockOutTime : latest, null);
+
+    // Partial-day leave explains a late start or early finish, so neither is flagged
+    let lateMinutes = 0;
+    let earlyLeaveMinutes = 0;
+
+    if (!leave && expectedStart) {
+      const tolerance = shift ? Math.max(shift.graceInMinutes, company.lateToleranceMinutes) : company.lateToleranceMinutes;
+      const minutesLate = Math.floor((first.clockInTime.getTime() - expectedStart.getTime()) / 60000);
+      lateMinutes = minutesLate > tolerance ? minutesLate : 0;
+    }
+
+    if (!leave && expectedEnd && lastClockOut) {
+      const grace = shift ? shift.graceOutMinutes : company.lateToleranceMinutes;
+      const minutesEarly = Math.floor((expectedEnd.getTime() - lastClockOut.getTime()) / 60000);
+      earlyLeaveMinutes = minutesEarly > grace ? minutesEarly : 0;
+    }
+
+    const isRemote = records.every(record =>
+      record.workMode === 'remote' || record.locationType === 'home' || record.locationType === 'alternate');
+
+    let status: DailyStatus = 'present';
+    if (lateMinutes > 0) {
+      status = 'late';
+    } else if (earlyLeaveMinutes > 0) {
+      status = 'early_leave';
+    } else if (isRemote) {
+      status = 'remote';
+    }
+
+    return {
+      ...base,
+      status,
+      workMode: first.workMode,
+      firstClockIn: first.clockInTime,
+      lastClockOut,
+      workedMinutes: records.reduce((total, record) => total + (record.workedMinutes ?? 0), 0),
+      lateMinutes,
+      earlyLeaveMinutes,
+      isLate: lateMinutes > 0,
+      isEarlyLeave: earlyLeaveMinutes > 0,
+      recordCount: records.length
+    };
+  }
+
+  /**
+   * Insert or replace summaries, one per employee and date
+   */
+  private async upsertSummaries(rows: SummaryRow[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    await db
+      .insert(dailyAttendanceSummaries)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [dailyAttendanceSummaries.userId, dailyAttendanceSummaries.date],
+        set: {
+          status: sql`excluded.status`,
+          department: sql`excluded.department`,
+          workMode: sql`excluded.work_mode`,
+          shiftTemplateId: sql`excluded.shift_template_id`,
+          expectedStart: sql`excluded.expected_start`,
+          expectedEnd: sql`excluded.expected_end`,
+          expectedMinutes: sql`excluded.expected_minutes`,
+          firstClockIn: sql`excluded.first_clock_in`,
+          lastClockOut: sql`excluded.last_clock_out`,
+          workedMinutes: sql`excluded.worked_minutes`,
+          lateMinutes: sql`excluded.late_minutes`,
+          earlyLeaveMinutes: sql`excluded.early_leave_minutes`,
+          isLate: sql`excluded.is_late`,
+          isEarlyLeave: sql`excluded.is_early_leave`,
+          recordCount: sql`excluded.record_count`,
+          leaveRequestId: sql`excluded.leave_request_id`,
+          leaveMinutes: sql`excluded.leave_minutes`,
+          holidayName: sql`excluded.holiday_name`,
+          computedAt: sql`excluded.computed_at`,
+          updatedAt: new Date()
+        }
+      });
+  }
+}
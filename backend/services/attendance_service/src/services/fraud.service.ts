@@ -0,0 +1,1485 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { users } from '../db/schema/auth';
+import { fraudDetectionResults, attendanceFlags, fraudPreventionSettings } from '../db/schema/fraud';
+import { logger } from '../utils/logger';
+import { AnalyticsService, FraudAnalytics } from './analytics.service';
+import { ShiftService } from './shift.service';
+import { NotificationService } from './notification.service';
+import { addDaysToDateString, daysBetweenDateStrings, zonedTimeToUtc } from '../utils/helpers';
+import { eq, and, asc, desc, gte, lt, ne, isNull, isNotNull, sql, SQL } from 'drizzle-orm';
+
+export type FraudDetectionResult = typeof fraudDetectionResults.$inferSelect;
+export type AttendanceFlag = typeof attendanceFlags.$inferSelect;
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type FraudAction = 'allow' | 'flag' | 'block';
+export type ReviewDecision = 'legitimate' | 'fraudulent';
+export type FlagResolution = 'resolved' | 'ignored';
+
+export interface FraudPreventionConfig {
+  companyId: string;
+  isEnabled: boolean;
+  flagRiskLevel: RiskLevel;
+  blockRiskLevel: RiskLevel | null;
+  defaultReviewerId: string | null;
+  updatedBy: string | null;
+  updatedAt: Date | null; // null = company defaults, never saved
+}
+
+export interface UpdatePreventionSettingsData {
+  isEnabled?: boolean;
+  flagRiskLevel?: RiskLevel;
+  blockRiskLevel?: RiskLevel | null;
+  defaultReviewerId?: string | null;
+}
+
+/**
+ * Result of the AI service fraud analysis for one clock-in
+ */
+export interface FraudAssessmentInput {
+  riskScore: number;
+  riskLevel?: string; // Lowercase from the AI service; derived from the score when missing
+  isFraudulent?: boolean;
+  detectionResults?: Record<string, boolean>;
+  flags?: string[];
+  evidence?: Record<string, unknown>;
+  faceSimilarity?: number;
+}
+
+export interface FraudAssessment {
+  result: FraudDetectionResult;
+  flags: AttendanceFlag[];
+  action: FraudAction;
+}
+
+export interface FraudDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface ReviewQueueFilters extends Partial<FraudDateRange> {
+  status?: 'pending' | 'reviewed' | 'all';
+  riskLevel?: RiskLevel;
+  assignedTo?: string;
+  unassigned?: boolean;
+  page: number;
+  limit: number;
+}
+
+export interface FraudFlagFilters extends Partial<FraudDateRange> {
+  status?: 'open' | 'resolved' | 'ignored' | 'all';
+  flagType?: string;
+  severity?: string;
+  userId?: string;
+  page: number;
+  limit: number;
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  attendanceId: string;
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  department: string | null;
+  clockInTime: Date;
+  attendanceStatus: string | null;
+  overallRiskScore: number;
+  riskLevel: string;
+  action: FraudAction;
+  flags: unknown;
+  openFlags: number;
+  assignedTo: string | null;
+  assignedAt: Date | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewDecision: ReviewDecision | null;
+  reviewNotes: string | null;
+  createdAt: Date;
+}
+
+export interface ReviewQueueStats {
+  pending: number;
+  unassigned: number;
+  critical: number;
+  oldestPendingAt: Date | null;
+}
+
+export interface FraudDashboard extends FraudAnalytics {
+  queue: ReviewQueueStats;
+  actions: Partial<Record<FraudAction, number>>;
+  settings: FraudPreventionConfig;
+}
+
+export interface FraudServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+const RISK_LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const MAX_RANGE_DAYS = 366;
+const REPEAT_OFFENDER_MIN_FLAGGED = 2;
+const TOP_PATTERN_USERS = 10;
+
+// Same cut-offs as the AI service fraud model
+const RISK_SCORE_THRESHOLDS: { level: RiskLevel; minScore: number }[] = [
+  { level: 'CRITICAL', minScore: 90 },
+  { level: 'HIGH', minScore: 80 },
+  { level: 'MEDIUM', minScore: 60 }
+];
+
+// Human-readable descriptions for the AI service detection results
+const FLAG_DESCRIPTIONS: Record<string, string> = {
+  locationAnomaly: 'Clock-in location does not match the expected work location',
+  timeAnomaly: 'Clock-in at an unusual time for this employee',
+  deviceAnomaly: 'Clock-in from an unrecognised device',
+  behavioralAnomaly: 'Unusual behaviour compared to the employee\'s history',
+  patternAnomaly: 'Attendance pattern differs from the employee\'s history'
+};
+
+const DEFAULT_SETTINGS: Omit<FraudPreventionConfig, 'companyId'> = {
+  isEnabled: true,
+  flagRiskLevel: 'MEDIUM',
+  blockRiskLevel: null, // Blocking is opt-in
+  defaultReviewerId: null,
+  updatedBy: null,
+  updatedAt: null
+};
+
+export class FraudService {
+  private readonly analyticsService = new AnalyticsService();
+  private readonly shiftService = new ShiftService();
+  private readonly notificationService = new NotificationService();
+
+  /**
+   * Store the fraud analysis of a clock-in, open a flag per detected anomaly and decide what happens to the clock-in.
+   * Re-analysis of an existing record passes allowBlock = false: a clock-in is never blocked after the fact.
+   */
+  async recordAssessment(
+    companyId: string,
+    attendanceId: string,
+    assessment: FraudAssessmentInput,
+    options: { allowBlock?: boolean } = {}
+  ): Promise<FraudServiceResult<FraudAssessment>> {
+    try {
+      const settings = await this.loadSettings(companyId);
+      const riskLevel = this.normalizeRiskLevel(assessment.riskLevel) ?? this.getRiskLevel(assessment.riskScore);
+      let action = this.decideAction(riskLevel, settings);
+
+      if (action === 'block' && options.allowBlock === false) {
+        action = 'flag';
+      }
+
+      const needsReview = action !== 'allow';
+      const detectionResults = assessment.detectionResults ?? {};
+      const evidence = assessment.evidence ?? {};
+
+      const saved = await db.transaction(async (tx) => {
+        const [result] = await tx
+          .insert(fraudDetectionResults)
+          .values({
+            attendanceId,
+            overallRiskScore: assessment.riskScore.toString(),
+            riskLevel,
+            faceComparisonResult: assessment.faceSimilarity !== undefined ? { similarity: assessment.faceSimilarity } : null,
+            locationVerificationResult: this.detectionResult(detectionResults, evidence, 'locationAnomaly'),
+            deviceAnalysisResult: this.detectionResult(detectionResults, evidence, 'deviceAnomaly'),
+            behavioralAnalysisResult: {
+              timeAnomaly: this.detectionResult(detectionResults, evidence, 'timeAnomaly'),
+              behavioralAnomaly: this.detectionResult(detectionResults, evidence, 'behavioralAnomaly'),
+              patternAnomaly: this.detectionResult(detectionResults, evidence, 'patternAnomaly')
+            },
+            flags: assessment.flags ?? [],
+            riskFactors: detectionResults,
+            evidence,
+            action,
+            requiresManualReview: needsReview,
+            ...(needsReview && settings.defaultReviewerId && {
+              assignedTo: settings.defaultReviewerId,
+              assignedAt: new Date()
+            })
+          })
+          .returning();
+
+        // One flag per detected anomaly, so each can be resolved or dismissed on its own
+        const anomalies = Object.entries(detectionResults).filter(([, detected]) => detected === true);
+        const flags = anomalies.length > 0
+          ? await tx
+            .insert(attendanceFlags)
+            .values(anomalies.map(([key]) => ({
+              attendanceId,
+              fraudResultId: result!.id,
+              flagType: this.toFlagType(key),
+              severity: riskLevel.toLowerCase(),
+              description: FLAG_DESCRIPTIONS[key] ?? `Fraud check failed: ${this.toFlagType(key)}`,
+              evidence: (evidence[key] as Record<string, unknown> | undefined) ?? null
+            })))
+            .returning()
+          : [];
+
+        return { result: result!, flags };
+      });
+
+      logger.info('Fraud assessment recorded', {
+        service: 'attendance-service',
+        companyId,
+        attendanceId,
+        riskScore: assessment.riskScore,
+        riskLevel,
+        action,
+        flags: saved.flags.length
+      });
+
+      if (needsReview && settings.defaultReviewerId) {
+        await this.notifyReviewer(companyId, settings.defaultReviewerId, saved.result);
+      }
+
+      return {
+        success: true,
+        data: { ...saved, action }
+      };
+
+    } catch (error) {
+      logger.error('Failed to record fraud assessment:', error);
+      return {
+        success: false,
+        message: 'Failed to record fraud assessment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Preview the risk level and action the company's prevention settings give a risk score
+   */
+  async calculateRisk(
+    companyId: string,
+    riskScore: number
+  ): Promise<FraudServiceResult<{ riskScore: number; riskLevel: RiskLevel; action: FraudAction; settings: FraudPreventionConfig }>> {
+    try {
+      const settings = await this.loadSettings(companyId);
+      const riskLevel = this.getRiskLevel(riskScore);
+
+      return {
+        success: true,
+        data: {
+          riskScore,
+          riskLevel,
+          action: this.decideAction(riskLevel, settings),
+          settings
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to calculate risk:', error);
+      return {
+        success: false,
+        message: 'Failed to calculate risk',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Fraud analytics for the period plus the state of the review queue and the prevention settings
+   */
+  async getDashboard(companyId: string, range: FraudDateRange): Promise<FraudServiceResult<FraudDashboard>> {
+    try {
+      const analytics = await this.analyticsService.getFraudAnalytics(companyId, range);
+      if (!analytics.success || !analytics.data) {
+        return {
+          success: false,
+          message: analytics.message ?? 'Failed to get fraud dashboard',
+          error: analytics.error ?? 'Unknown error'
+        };
+      }
+
+      const [queue] = await db
+        .select({
+          pending: sql<number>`count(*)::int`,
+          unassigned: sql<number>`count(*) filter (where ${fraudDetectionResults.assignedTo} is null)::int`,
+          critical: sql<number>`count(*) filter (where upper(${fraudDetectionResults.riskLevel}) = 'CRITICAL')::int`,
+          oldestPendingAt: sql<Date | null>`min(${fraudDetectionResults.createdAt})`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(eq(attendanceRecords.companyId, companyId), ...this.pendingConditions()));
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const actions = await db
+        .select({
+          action: fraudDetectionResults.action,
+          count: sql<number>`count(*)::int`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(eq(attendanceRecords.companyId, companyId), ...this.rangeConditions(range, timezone)))
+        .groupBy(fraudDetectionResults.action);
+
+      return {
+        success: true,
+        data: {
+          ...analytics.data,
+          queue: {
+            pending: queue?.pending ?? 0,
+            unassigned: queue?.unassigned ?? 0,
+            critical: queue?.critical ?? 0,
+            oldestPendingAt: queue?.oldestPendingAt ? new Date(queue.oldestPendingAt) : null
+          },
+          actions: Object.fromEntries(actions.map(row => [row.action, row.count])),
+          settings: await this.loadSettings(companyId)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud dashboard:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud dashboard',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Review queue: highest risk first, then oldest first within a risk level
+   */
+  async getReviewQueue(companyId: string, filters: ReviewQueueFilters): Promise<FraudServiceResult<ReviewQueueItem[]>> {
+    try {
+      const invalid = this.validateRange(filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const conditions: SQL[] = [eq(attendanceRecords.companyId, companyId)];
+      const status = filters.status ?? 'pending';
+
+      if (status === 'pending') {
+        conditions.push(...this.pendingConditions());
+      } else if (status === 'reviewed') {
+        conditions.push(isNotNull(fraudDetectionResults.reviewedAt));
+      }
+
+      if (filters.riskLevel) {
+        conditions.push(sql`upper(${fraudDetectionResults.riskLevel}) = ${filters.riskLevel}`);
+      }
+
+      if (filters.assignedTo) {
+        conditions.push(eq(fraudDetectionResults.assignedTo, filters.assignedTo));
+      } else if (filters.unassigned) {
+        conditions.push(isNull(fraudDetectionResults.assignedTo));
+      }
+
+      if (filters.startDate && filters.endDate) {
+        const timezone = await this.shiftService.getCompanyTimezone(companyId);
+        conditions.push(...this.rangeConditions({ startDate: filters.startDate, endDate: filters.endDate }, timezone));
+      }
+
+      const offset = (filters.page - 1) * filters.limit;
+
+      const rows = await db
+        .select({
+          id: fraudDetectionResults.id,
+          attendanceId: fraudDetectionResults.attendanceId,
+          userId: attendanceRecords.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department,
+          clockInTime: attendanceRecords.clockInTime,
+          attendanceStatus: attendanceRecords.status,
+          overallRiskScore: sql<number>`${fraudDetectionResults.overallRiskScore}::float8`,
+          riskLevel: fraudDetectionResults.riskLevel,
+          action: fraudDetectionResults.action,
+          flags: fraudDetectionResults.flags,
+          openFlags: sql<number>`(select count(*) from ${attendanceFlags} where ${attendanceFlags.attendanceId} = ${fraudDetectionResults.attendanceId} and ${attendanceFlags.isResolved} = false)::int`,
+          assignedTo: fraudDetectionResults.assignedTo,
+          assignedAt: fraudDetectionResults.assignedAt,
+          reviewedBy: fraudDetectionResults.reviewedBy,
+          reviewedAt: fraudDetectionResults.reviewedAt,
+          reviewDecision: fraudDetectionResults.reviewDecision,
+          reviewNotes: fraudDetectionResults.reviewNotes,
+          createdAt: fraudDetectionResults.createdAt
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .leftJoin(users, eq(attendanceRecords.userId, users.id))
+        .where(and(...conditions))
+        .orderBy(desc(fraudDetectionResults.overallRiskScore), asc(fraudDetectionResults.createdAt))
+        .limit(filters.limit)
+        .offset(offset);
+
+      const [countRow] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions));
+
+      const total = countRow?.count ?? 0;
+
+      return {
+        success: true,
+        data: rows,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud review queue:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud review queue',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Assign a pending review to a reviewer of the same company, or unassign it with reviewerId = null
+   */
+  async assignReview(
+    companyId: string,
+    resultId: string,
+    reviewerId: string | null,
+    assignedBy: string
+  ): Promise<FraudServiceResult<FraudDetectionResult>> {
+    try {
+      const existing = await this.findResult(companyId, resultId);
+      if (!existing) {
+        return {
+          success: false,
+          message: 'Fraud assessment not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (existing.result.reviewedAt) {
+        return {
+          success: false,
+          message: 'Fraud assessment has already been reviewed',
+          error: 'ALREADY_REVIEWED'
+        };
+      }
+
+      if (reviewerId && !(await this.isCompanyUser(companyId, reviewerId))) {
+        return {
+          success: false,
+          message: 'Reviewer not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [result] = await db
+        .update(fraudDetectionResults)
+        .set({
+          assignedTo: reviewerId,
+          assignedAt: reviewerId ? new Date() : null,
+          requiresManualReview: true
+        })
+        .where(and(eq(fraudDetectionResults.id, resultId), isNull(fraudDetectionResults.reviewedAt)))
+        .returning();
+
+      if (!result) {
+        return {
+          success: false,
+          message: 'Fraud assessment has already been reviewed',
+          error: 'ALREADY_REVIEWED'
+        };
+      }
+
+      logger.info('Fraud review assigned', {
+        service: 'attendance-service',
+        companyId,
+        resultId,
+        reviewerId,
+        assignedBy
+      });
+
+      if (reviewerId && reviewerId !== assignedBy) {
+        await this.notifyReviewer(companyId, reviewerId, result);
+      }
+
+      return {
+        success: true,
+        message: reviewerId ? 'Fraud review assigned' : 'Fraud review unassigned',
+        data: result
+      };
+
+    } catch (error) {
+      logger.error('Failed to assign fraud review:', error);
+      return {
+        success: false,
+        message: 'Failed to assign fraud review',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Record the reviewer's decision. Legitimate clears the record's flag (or un-blocks it),
+   * fraudulent rejects the record; open flags on the record are closed to match.
+   */
+  async reviewAssessment(
+    companyId: string,
+    resultId: string,
+    reviewerId: string,
+    decision: ReviewDecision,
+    notes?: string
+  ): Promise<FraudServiceResult<FraudDetectionResult>> {
+    try {
+      const existing = await this.findResult(companyId, resultId);
+      if (!existing) {
+        return {
+          success: false,
+          message: 'Fraud assessment not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (existing.result.reviewedAt) {
+        return {
+          success: false,
+          message: 'Fraud assessment has already been reviewed',
+          error: 'ALREADY_REVIEWED'
+        };
+      }
+
+      if (existing.lockedAt) {
+        return this.lockedResult();
+      }
+
+      const result = await db.transaction(tx => this.applyReview(tx, existing.result, decision, reviewerId, notes));
+
+      if (!result) {
+        return {
+          success: false,
+          message: 'Fraud assessment has already been reviewed',
+          error: 'ALREADY_REVIEWED'
+        };
+      }
+
+      logger.info('Fraud assessment reviewed', {
+        service: 'attendance-service',
+        companyId,
+        resultId,
+        attendanceId: result.attendanceId,
+        reviewerId,
+        decision
+      });
+
+      return {
+        success: true,
+        message: decision === 'fraudulent' ? 'Clock-in confirmed as fraudulent' : 'Clock-in confirmed as legitimate',
+        data: result
+      };
+
+    } catch (error) {
+      logger.error('Failed to review fraud assessment:', error);
+      return {
+        success: false,
+        message: 'Failed to review fraud assessment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Fraud assessments and flags of one attendance record, latest first
+   */
+  async getAttendanceAnalysis(
+    companyId: string,
+    attendanceId: string
+  ): Promise<FraudServiceResult<{ attendance: typeof attendanceRecords.$inferSelect; assessments: FraudDetectionResult[]; flags: AttendanceFlag[] }>> {
+    try {
+      const [attendance] = await db
+        .select()
+        .from(attendanceRecords)
+        .where(and(eq(attendanceRecords.id, attendanceId), eq(attendanceRecords.companyId, companyId)))
+        .limit(1);
+
+      if (!attendance) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const assessments = await db
+        .select()
+        .from(fraudDetectionResults)
+        .where(eq(fraudDetectionResults.attendanceId, attendanceId))
+        .orderBy(desc(fraudDetectionResults.createdAt));
+
+      const flags = await db
+        .select()
+        .from(attendanceFlags)
+        .where(eq(attendanceFlags.attendanceId, attendanceId))
+        .orderBy(desc(attendanceFlags.createdAt));
+
+      return {
+        success: true,
+        data: { attendance, assessments, flags }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud analysis:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud analysis',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * An employee's risk profile over the period: averages, levels, flag types, review outcomes and recent assessments
+   */
+  async getRiskAssessment(companyId: string, userId: string, range: FraudDateRange): Promise<FraudServiceResult<{
+    userId: string;
+    period: FraudDateRange & { timezone: string };
+    assessed: number;
+    avgRiskScore: number | null;
+    maxRiskScore: number | null;
+    currentRiskLevel: RiskLevel | null;
+    byRiskLevel: Record<string, number>;
+    byAction: Record<string, number>;
+    byFlagType: Record<string, number>;
+    confirmedFraudulent: number;
+    confirmedLegitimate: number;
+    recent: FraudDetectionResult[];
+  }>> {
+    try {
+      const invalid = this.validateRange(range);
+      if (invalid) {
+        return invalid;
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const conditions = [
+        eq(attendanceRecords.companyId, companyId),
+        eq(attendanceRecords.userId, userId),
+        ...this.rangeConditions(range, timezone)
+      ];
+
+      const [summary] = await db
+        .select({
+          assessed: sql<number>`count(*)::int`,
+          avgRiskScore: sql<number | null>`round(avg(${fraudDetectionResults.overallRiskScore})::numeric, 2)::float8`,
+          maxRiskScore: sql<number | null>`max(${fraudDetectionResults.overallRiskScore})::float8`,
+          confirmedFraudulent: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewDecision} = 'fraudulent')::int`,
+          confirmedLegitimate: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewDecision} = 'legitimate')::int`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions));
+
+      const levels = await db
+        .select({
+          riskLevel: sql<string>`upper(${fraudDetectionResults.riskLevel})`,
+          count: sql<number>`count(*)::int`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .groupBy(sql`1`);
+
+      const actions = await db
+        .select({
+          action: fraudDetectionResults.action,
+          count: sql<number>`count(*)::int`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .groupBy(fraudDetectionResults.action);
+
+      const flagTypes = await db
+        .select({
+          flagType: attendanceFlags.flagType,
+          count: sql<number>`count(*)::int`
+        })
+        .from(attendanceFlags)
+        .innerJoin(attendanceRecords, eq(attendanceFlags.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .groupBy(attendanceFlags.flagType);
+
+      const recent = await db
+        .select({ result: fraudDetectionResults })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .orderBy(desc(fraudDetectionResults.createdAt))
+        .limit(10);
+
+      const avgRiskScore = summary?.avgRiskScore ?? null;
+
+      return {
+        success: true,
+        data: {
+          userId,
+          period: { ...range, timezone },
+          assessed: summary?.assessed ?? 0,
+          avgRiskScore,
+          maxRiskScore: summary?.maxRiskScore ?? null,
+          currentRiskLevel: avgRiskScore !== null ? this.getRiskLevel(avgRiskScore) : null,
+          byRiskLevel: Object.fromEntries(levels.map(row => [row.riskLevel, row.count])),
+          byAction: Object.fromEntries(actions.map(row => [row.action, row.count])),
+          byFlagType: Object.fromEntries(flagTypes.map(row => [row.flagType, row.count])),
+          confirmedFraudulent: summary?.confirmedFraudulent ?? 0,
+          confirmedLegitimate: summary?.confirmedLegitimate ?? 0,
+          recent: recent.map(row => row.result)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get risk assessment:', error);
+      return {
+        success: false,
+        message: 'Failed to get risk assessment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Recurring fraud patterns: flag types, local clock-in hours of risky clock-ins and repeat offenders
+   */
+  async getPatterns(companyId: string, range: FraudDateRange): Promise<FraudServiceResult<{
+    period: FraudDateRange & { timezone: string };
+    flagTypes: { flagType: string; severity: string; count: number; open: number; ignored: number }[];
+    riskyHours: { hour: number; count: number; avgRiskScore: number | null }[];
+    repeatUsers: { userId: string; firstName: string | null; lastName: string | null; department: string | null; flagged: number; avgRiskScore: number | null }[];
+  }>> {
+    try {
+      const invalid = this.validateRange(range);
+      if (invalid) {
+        return invalid;
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const conditions = [eq(attendanceRecords.companyId, companyId), ...this.rangeConditions(range, timezone)];
+
+      const flagTypes = await db
+        .select({
+          flagType: attendanceFlags.flagType,
+          severity: attendanceFlags.severity,
+          count: sql<number>`count(*)::int`,
+          open: sql<number>`count(*) filter (where ${attendanceFlags.isResolved} = false)::int`,
+          ignored: sql<number>`count(*) filter (where ${attendanceFlags.resolution} = 'ignored')::int`
+        })
+        .from(attendanceFlags)
+        .innerJoin(attendanceRecords, eq(attendanceFlags.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .groupBy(attendanceFlags.flagType, attendanceFlags.severity)
+        .orderBy(desc(sql`count(*)`));
+
+      const riskyHours = await db
+        .select({
+          hour: sql<number>`extract(hour from ${attendanceRecords.clockInTime} at time zone ${timezone})::int`,
+          count: sql<number>`count(*)::int`,
+          avgRiskScore: sql<number | null>`round(avg(${fraudDetectionResults.overallRiskScore})::numeric, 2)::float8`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(...conditions, ne(fraudDetectionResults.action, 'allow')))
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+
+      const repeatUsers = await db
+        .select({
+          userId: attendanceRecords.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department,
+          flagged: sql<number>`count(*)::int`,
+          avgRiskScore: sql<number | null>`round(avg(${fraudDetectionResults.overallRiskScore})::numeric, 2)::float8`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .leftJoin(users, eq(attendanceRecords.userId, users.id))
+        .where(and(...conditions, ne(fraudDetectionResults.action, 'allow')))
+        .groupBy(attendanceRecords.userId, users.firstName, users.lastName, users.department)
+        .having(sql`count(*) >= ${REPEAT_OFFENDER_MIN_FLAGGED}`)
+        .orderBy(desc(sql`count(*)`))
+        .limit(TOP_PATTERN_USERS);
+
+      return {
+        success: true,
+        data: {
+          period: { ...range, timezone },
+          flagTypes,
+          riskyHours,
+          repeatUsers
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud patterns:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud patterns',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Daily assessments by risk level and action taken
+   */
+  async getTrends(companyId: string, range: FraudDateRange): Promise<FraudServiceResult<{
+    period: FraudDateRange & { timezone: string };
+    trend: { date: string; assessed: number; low: number; medium: number; high: number; critical: number; flagged: number; blocked: number; avgRiskScore: number | null }[];
+  }>> {
+    try {
+      const invalid = this.validateRange(range);
+      if (invalid) {
+        return invalid;
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const riskLevel = sql`upper(${fraudDetectionResults.riskLevel})`;
+
+      const trend = await db
+        .select({
+          date: sql<string>`to_char(${attendanceRecords.clockInTime} at time zone ${timezone}, 'YYYY-MM-DD')`,
+          assessed: sql<number>`count(*)::int`,
+          low: sql<number>`count(*) filter (where ${riskLevel} = 'LOW')::int`,
+          medium: sql<number>`count(*) filter (where ${riskLevel} = 'MEDIUM')::int`,
+          high: sql<number>`count(*) filter (where ${riskLevel} = 'HIGH')::int`,
+          critical: sql<number>`count(*) filter (where ${riskLevel} = 'CRITICAL')::int`,
+          flagged: sql<number>`count(*) filter (where ${fraudDetectionResults.action} = 'flag')::int`,
+          blocked: sql<number>`count(*) filter (where ${fraudDetectionResults.action} = 'block')::int`,
+          avgRiskScore: sql<number | null>`round(avg(${fraudDetectionResults.overallRiskScore})::numeric, 2)::float8`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(eq(attendanceRecords.companyId, companyId), ...this.rangeConditions(range, timezone)))
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+
+      return {
+        success: true,
+        data: {
+          period: { ...range, timezone },
+          trend
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud trends:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud trends',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Attendance flags of a company, open flags of the riskiest severity first
+   */
+  async getFlags(companyId: string, filters: FraudFlagFilters): Promise<FraudServiceResult<(AttendanceFlag & { userId: string; clockInTime: Date })[]>> {
+    try {
+      const invalid = this.validateRange(filters);
+      if (invalid) {
+        return invalid;
+      }
+
+      const conditions: SQL[] = [eq(attendanceRecords.companyId, companyId)];
+      const status = filters.status ?? 'open';
+
+      if (status === 'open') {
+        conditions.push(eq(attendanceFlags.isResolved, false));
+      } else if (status !== 'all') {
+        conditions.push(eq(attendanceFlags.resolution, status));
+      }
+
+      if (filters.flagType) {
+        conditions.push(eq(attendanceFlags.flagType, filters.flagType));
+      }
+
+      if (filters.severity) {
+        conditions.push(eq(attendanceFlags.severity, filters.severity));
+      }
+
+      if (filters.userId) {
+        conditions.push(eq(attendanceRecords.userId, filters.userId));
+      }
+
+      if (filters.startDate && filters.endDate) {
+        const timezone = await this.shiftService.getCompanyTimezone(companyId);
+        conditions.push(...this.rangeConditions({ startDate: filters.startDate, endDate: filters.endDate }, timezone));
+      }
+
+      const offset = (filters.page - 1) * filters.limit;
+      const severityRank = sql`case ${attendanceFlags.severity} when 'critical' then 4 when 'high' then 3 when 'medium' then 2 else 1 end`;
+
+      const rows = await db
+        .select({
+          flag: attendanceFlags,
+          userId: attendanceRecords.userId,
+          clockInTime: attendanceRecords.clockInTime
+        })
+        .from(attendanceFlags)
+        .innerJoin(attendanceRecords, eq(attendanceFlags.attendanceId, attendanceRecords.id))
+        .where(and(...conditions))
+        .orderBy(desc(severityRank), desc(attendanceFlags.createdAt))
+        .limit(filters.limit)
+        .offset(offset);
+
+      const [countRow] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(attendanceFlags)
+        .innerJoin(attendanceRecords, eq(attendanceFlags.attendanceId, attendanceRecords.id))
+        .where(and(...conditions));
+
+      const total = countRow?.count ?? 0;
+
+      return {
+        success: true,
+        data: rows.map(row => ({ ...row.flag, userId: row.userId, clockInTime: row.clockInTime })),
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud flags:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud flags',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Close a flag as confirmed (resolved) or as a false positive (ignored). Closing the last open flag
+   * of a record completes its pending review: fraudulent if any flag was confirmed, legitimate otherwise.
+   */
+  async closeFlag(
+    companyId: string,
+    flagId: string,
+    userId: string,
+    resolution: FlagResolution,
+    notes?: string
+  ): Promise<FraudServiceResult<{ flag: AttendanceFlag; review: FraudDetectionResult | null }>> {
+    try {
+      const [existing] = await db
+        .select({
+          flag: attendanceFlags,
+          lockedAt: attendanceRecords.lockedAt
+        })
+        .from(attendanceFlags)
+        .innerJoin(attendanceRecords, eq(attendanceFlags.attendanceId, attendanceRecords.id))
+        .where(and(eq(attendanceFlags.id, flagId), eq(attendanceRecords.companyId, companyId)))
+        .limit(1);
+
+      if (!existing) {
+        return {
+          success: false,
+          message: 'Fraud flag not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (existing.flag.isResolved) {
+        return {
+          success: false,
+          message: 'Fraud flag is already closed',
+          error: 'FLAG_ALREADY_CLOSED'
+        };
+      }
+
+      const attendanceId = existing.flag.attendanceId;
+      const otherFlags = await db
+        .select({ isResolved: attendanceFlags.isResolved, resolution: attendanceFlags.resolution })
+        .from(attendanceFlags)
+        .where(and(eq(attendanceFlags.attendanceId, attendanceId), ne(attendanceFlags.id, flagId)));
+
+      // Only the last open flag completes the review
+      const pending = otherFlags.every(flag => flag.isResolved)
+        ? await this.findPendingResult(attendanceId)
+        : null;
+      const decision: ReviewDecision | null = pending
+        ? (resolution === 'resolved' || otherFlags.some(flag => flag.resolution === 'resolved') ? 'fraudulent' : 'legitimate')
+        : null;
+
+      if (pending && existing.lockedAt) {
+        return this.lockedResult();
+      }
+
+      const closed = await db.transaction(async (tx) => {
+        const [flag] = await tx
+          .update(attendanceFlags)
+          .set({
+            isResolved: true,
+            resolution,
+            resolvedBy: userId,
+            resolvedAt: new Date(),
+            resolutionNotes: notes || null
+          })
+          .where(and(eq(attendanceFlags.id, flagId), eq(attendanceFlags.isResolved, false)))
+          .returning();
+
+        if (!flag) {
+          return null;
+        }
+
+        const review = pending && decision
+          ? await this.applyReview(tx, pending, decision, userId, notes)
+          : null;
+
+        return { flag, review };
+      });
+
+      if (!closed) {
+        return {
+          success: false,
+          message: 'Fraud flag is already closed',
+          error: 'FLAG_ALREADY_CLOSED'
+        };
+      }
+
+      logger.info('Fraud flag closed', {
+        service: 'attendance-service',
+        companyId,
+        flagId,
+        attendanceId,
+        resolution,
+        userId,
+        reviewDecision: closed.review?.reviewDecision
+      });
+
+      return {
+        success: true,
+        message: resolution === 'resolved' ? 'Fraud flag resolved' : 'Fraud flag ignored',
+        data: closed
+      };
+
+    } catch (error) {
+      logger.error('Failed to close fraud flag:', error);
+      return {
+        success: false,
+        message: 'Failed to close fraud flag',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Prevention settings with what they did over the period: actions taken, review turnaround and false positives
+   */
+  async getPreventionMetrics(companyId: string, range: FraudDateRange): Promise<FraudServiceResult<{
+    settings: FraudPreventionConfig;
+    period: FraudDateRange & { timezone: string };
+    assessed: number;
+    actions: Partial<Record<FraudAction, number>>;
+    reviewed: number;
+    confirmedFraudulent: number;
+    confirmedLegitimate: number;
+    falsePositiveRate: number | null; // Legitimate share of reviewed flags and blocks, in percent
+    avgReviewHours: number | null;
+    pendingReview: number;
+  }>> {
+    try {
+      const invalid = this.validateRange(range);
+      if (invalid) {
+        return invalid;
+      }
+
+      const settings = await this.loadSettings(companyId);
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+
+      const [row] = await db
+        .select({
+          assessed: sql<number>`count(*)::int`,
+          allowed: sql<number>`count(*) filter (where ${fraudDetectionResults.action} = 'allow')::int`,
+          flagged: sql<number>`count(*) filter (where ${fraudDetectionResults.action} = 'flag')::int`,
+          blocked: sql<number>`count(*) filter (where ${fraudDetectionResults.action} = 'block')::int`,
+          reviewed: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewedAt} is not null)::int`,
+          confirmedFraudulent: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewDecision} = 'fraudulent')::int`,
+          confirmedLegitimate: sql<number>`count(*) filter (where ${fraudDetectionResults.reviewDecision} = 'legitimate')::int`,
+          pendingReview: sql<number>`count(*) filter (where ${fraudDetectionResults.requiresManualReview} = true and ${fraudDetectionResults.reviewedAt} is null)::int`,
+          avgReviewHours: sql<number | null>`round((avg(extract(epoch from (${fraudDetectionResults.reviewedAt} - ${fraudDetectionResults.createdAt}))) / 3600)::numeric, 2)::float8`
+        })
+        .from(fraudDetectionResults)
+        .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+        .where(and(eq(attendanceRecords.companyId, companyId), ...this.rangeConditions(range, timezone)));
+
+      const confirmedFraudulent = row?.confirmedFraudulent ?? 0;
+      const confirmedLegitimate = row?.confirmedLegitimate ?? 0;
+      const decided = confirmedFraudulent + confirmedLegitimate;
+
+      return {
+        success: true,
+        data: {
+          settings,
+          period: { ...range, timezone },
+          assessed: row?.assessed ?? 0,
+          actions: {
+            allow: row?.allowed ?? 0,
+            flag: row?.flagged ?? 0,
+            block: row?.blocked ?? 0
+          },
+          reviewed: row?.reviewed ?? 0,
+          confirmedFraudulent,
+          confirmedLegitimate,
+          falsePositiveRate: decided > 0 ? Math.round((confirmedLegitimate / decided) * 10000) / 100 : null,
+          avgReviewHours: row?.avgReviewHours ?? null,
+          pendingReview: row?.pendingReview ?? 0
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud prevention metrics:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud prevention metrics',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the company's prevention settings, or the defaults when none were saved
+   */
+  async getPreventionSettings(companyId: string): Promise<FraudServiceResult<FraudPreventionConfig>> {
+    try {
+      return {
+        success: true,
+        data: await this.loadSettings(companyId)
+      };
+
+    } catch (error) {
+      logger.error('Failed to get fraud prevention settings:', error);
+      return {
+        success: false,
+        message: 'Failed to get fraud prevention settings',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create or update the company's prevention settings. Applies to clock-ins from now on.
+   */
+  async updatePreventionSettings(
+    companyId: string,
+    data: UpdatePreventionSettingsData,
+    updatedBy: string
+  ): Promise<FraudServiceResult<FraudPreventionConfig>> {
+    try {
+      const current = await this.loadSettings(companyId);
+      const next = {
+        isEnabled: data.isEnabled ?? current.isEnabled,
+        flagRiskLevel: data.flagRiskLevel ?? current.flagRiskLevel,
+        blockRiskLevel: data.blockRiskLevel !== undefined ? data.blockRiskLevel : current.blockRiskLevel,
+        defaultReviewerId: data.defaultReviewerId !== undefined ? data.defaultReviewerId : current.defaultReviewerId
+      };
+
+      if (next.blockRiskLevel && this.rank(next.blockRiskLevel) < this.rank(next.flagRiskLevel)) {
+        return {
+          success: false,
+          message: 'Block risk level cannot be below the flag risk level',
+          error: 'INVALID_SETTINGS'
+        };
+      }
+
+      if (next.defaultReviewerId && !(await this.isCompanyUser(companyId, next.defaultReviewerId))) {
+        return {
+          success: false,
+          message: 'Default reviewer not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const now = new Date();
+      const [saved] = await db
+        .insert(fraudPreventionSettings)
+        .values({
+          companyId,
+          ...next,
+          updatedBy,
+          updatedAt: now
+        })
+        .onConflictDoUpdate({
+          target: fraudPreventionSettings.companyId,
+          set: {
+            isEnabled: sql`excluded.is_enabled`,
+            flagRiskLevel: sql`excluded.flag_risk_level`,
+            blockRiskLevel: sql`excluded.block_risk_level`,
+            defaultReviewerId: sql`excluded.default_reviewer_id`,
+            updatedBy: sql`excluded.updated_by`,
+            updatedAt: sql`excluded.updated_at`
+          }
+        })
+        .returning();
+
+      logger.info('Fraud prevention settings updated', {
+        service: 'attendance-service',
+        companyId,
+        updatedBy,
+        ...next
+      });
+
+      return {
+        success: true,
+        message: 'Fraud prevention settings updated',
+        data: this.toConfig(companyId, saved!)
+      };
+
+    } catch (error) {
+      logger.error('Failed to update fraud prevention settings:', error);
+      return {
+        success: false,
+        message: 'Failed to update fraud prevention settings',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Map a 0-100 risk score to a risk level
+   */
+  getRiskLevel(riskScore: number): RiskLevel {
+    return RISK_SCORE_THRESHOLDS.find(threshold => riskScore >= threshold.minScore)?.level ?? 'LOW';
+  }
+
+  /**
+   * Complete a pending review: store the decision, update the record and close its open flags to match
+   */
+  private async applyReview(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    pending: FraudDetectionResult,
+    decision: ReviewDecision,
+    reviewerId: string,
+    notes?: string
+  ): Promise<FraudDetectionResult | null> {
+    const now = new Date();
+
+    const [result] = await tx
+      .update(fraudDetectionResults)
+      .set({
+        requiresManualReview: true,
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        reviewDecision: decision,
+        reviewNotes: notes || null
+      })
+      .where(and(eq(fraudDetectionResults.id, pending.id), isNull(fraudDetectionResults.reviewedAt)))
+      .returning();
+
+    if (!result) {
+      return null;
+    }
+
+    if (decision === 'fraudulent') {
+      await tx
+        .update(attendanceRecords)
+        .set({
+          status: 'rejected',
+          rejectionReason: notes || 'Confirmed as fraudulent in fraud review',
+          clockOutTime: sql`coalesce(${attendanceRecords.clockOutTime}, ${now})`,
+          updatedAt: now
+        })
+        .where(and(eq(attendanceRecords.id, pending.attendanceId), isNull(attendanceRecords.lockedAt)));
+    } else {
+      // A blocked clock-in was closed on the spot, so it comes back as a completed (zero-length) session
+      await tx
+        .update(attendanceRecords)
+        .set({
+          status: sql`case when ${attendanceRecords.clockOutTime} is null then 'active' else 'completed' end`,
+          rejectionReason: null,
+          updatedAt: now
+        })
+        .where(
+          and(
+            eq(attendanceRecords.id, pending.attendanceId),
+            isNull(attendanceRecords.lockedAt),
+            sql`${attendanceRecords.status} in ('flagged', 'rejected')`
+          )
+        );
+    }
+
+    await tx
+      .update(attendanceFlags)
+      .set({
+        isResolved: true,
+        resolution: decision === 'fraudulent' ? 'resolved' : 'ignored',
+        resolvedBy: reviewerId,
+        resolvedAt: now,
+        resolutionNotes: notes || null
+      })
+      .where(and(eq(attendanceFlags.attendanceId, pending.attendanceId), eq(attendanceFlags.isResolved, false)));
+
+    return result;
+  }
+
+  private async loadSettings(companyId: string): Promise<FraudPreventionConfig> {
+    const [settings] = await db
+      .select()
+      .from(fraudPreventionSettings)
+      .where(eq(fraudPreventionSettings.companyId, companyId))
+      .limit(1);
+
+    return settings ? this.toConfig(companyId, settings) : { companyId, ...DEFAULT_SETTINGS };
+  }
+
+  private toConfig(companyId: string, settings: typeof fraudPreventionSettings.$inferSelect): FraudPreventionConfig {
+    return {
+      companyId,
+      isEnabled: settings.isEnabled,
+      flagRiskLevel: settings.flagRiskLevel,
+      blockRiskLevel: settings.blockRiskLevel,
+      defaultReviewerId: settings.defaultReviewerId,
+      updatedBy: settings.updatedBy,
+      updatedAt: settings.updatedAt
+    };
+  }
+
+  private decideAction(riskLevel: RiskLevel, settings: FraudPreventionConfig): FraudAction {
+    if (!settings.isEnabled) {
+      return 'allow';
+    }
+
+    if (settings.blockRiskLevel && this.rank(riskLevel) >= this.rank(settings.blockRiskLevel)) {
+      return 'block';
+    }
+
+    return this.rank(riskLevel) >= this.rank(settings.flagRiskLevel) ? 'flag' : 'allow';
+  }
+
+  private rank(riskLevel: RiskLevel): number {
+    return RISK_LEVELS.indexOf(riskLevel);
+  }
+
+  private normalizeRiskLevel(riskLevel?: string): RiskLevel | null {
+    const normalized = riskLevel?.toUpperCase();
+    return RISK_LEVELS.find(level => level === normalized) ?? null;
+  }
+
+  private toFlagType(detectionKey: string): string {
+    return detectionKey.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+  }
+
+  private detectionResult(
+    detectionResults: Record<string, boolean>,
+    evidence: Record<string, unknown>,
+    key: string
+  ): { detected: boolean; evidence: unknown } | null {
+    return key in detectionResults
+      ? { detected: detectionResults[key] === true, evidence: evidence[key] ?? null }
+      : null;
+  }
+
+  private pendingConditions(): SQL[] {
+    return [
+      eq(fraudDetectionResults.requiresManualReview, true),
+      isNull(fraudDetectionResults.reviewedAt)
+    ];
+  }
+
+  /**
+   * Attendance records clocked in on the company-local dates of the range
+   */
+  private rangeConditions(range: FraudDateRange, timezone: string): SQL[] {
+    return [
+      gte(attendanceRecords.clockInTime, zonedTimeToUtc(range.startDate, '00:00', timezone)),
+      lt(attendanceRecords.clockInTime, zonedTimeToUtc(addDaysToDateString(range.endDate, 1), '00:00', timezone))
+    ];
+  }
+
+  private validateRange(range: Partial<FraudDateRange>): FraudServiceResult<never> | null {
+    if (range.startDate && range.endDate && daysBetweenDateStrings(range.startDate, range.endDate) + 1 > MAX_RANGE_DAYS) {
+      return {
+        success: false,
+        message: `Fraud analytics can cover at most ${MAX_RANGE_DAYS} days`,
+        error: 'INVALID_DATE_RANGE'
+      };
+    }
+
+    return null;
+  }
+
+  private async findResult(
+    companyId: string,
+    resultId: string
+  ): Promise<{ result: FraudDetectionResult; lockedAt: Date | null } | null> {
+    const [row] = await db
+      .select({
+        result: fraudDetectionResults,
+        lockedAt: attendanceRecords.lockedAt
+      })
+      .from(fraudDetectionResults)
+      .innerJoin(attendanceRecords, eq(fraudDetectionResults.attendanceId, attendanceRecords.id))
+      .where(and(eq(fraudDetectionResults.id, resultId), eq(attendanceRecords.companyId, companyId)))
+      .limit(1);
+
+    return row ?? null;
+  }
+
+  /**
+   * Latest assessment of a record still waiting for review
+   */
+  private async findPendingResult(attendanceId: string): Promise<FraudDetectionResult | null> {
+    const [result] = await db
+      .select()
+      .from(fraudDetectionResults)
+      .where(and(eq(fraudDetectionResults.attendanceId, attendanceId), ...this.pendingConditions()))
+      .orderBy(desc(fraudDetectionResults.createdAt))
+      .limit(1);
+
+    return result ?? null;
+  }
+
+  private async isCompanyUser(companyId: string, userId: string): Promise<boolean> {
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, userId), eq(users.companyId, companyId)))
+      .limit(1);
+
+    return !!user;
+  }
+
+  private lockedResult(): FraudServiceResult<never> {
+    return {
+      success: false,
+      message: 'Attendance record is locked by an approved timesheet',
+      error: 'RECORD_LOCKED'
+    };
+  }
+
+  private async notifyReviewer(companyId: string, reviewerId: string, result: FraudDetectionResult): Promise<void> {
+    await this.notificationService.notify({
+      companyId,
+      userId: reviewerId,
+      type: 'fraud_review_assigned',
+      title: 'Clock-in assigned to you for fraud review',
+      message: `A ${result.riskLevel.toLowerCase()} risk clock-in (score ${result.overallRiskScore}) is waiting for your review.`,
+      data: {
+        fraudResultId: result.id,
+        attendanceId: result.attendanceId,
+        riskLevel: result.riskLevel,
+        action: result.action
+      },
+      priority: result.riskLevel === 'CRITICAL' || result.riskLevel === 'HIGH' ? 'high' : 'normal'
+    });
+  }
+}
@@ -0,0 +1,998 @@
+import { db } from '../config/database';
+import { users } from '../db/schema/auth';
+import { geofenceSettings, geofenceSiteGroups, geofenceAssignments } from '../db/schema/geofence';
+import { logger } from '../utils/logger';
+import { PolicyService } from './policy.service';
+import {
+  calculateDistance,
+  isGeoJsonBoundary,
+  isPointInPolygon,
+  distanceToPolygonEdge,
+  getPolygonCenter,
+  GeoJsonBoundary
+} from '../utils/helpers';
+import { eq, and, or, asc, inArray } from 'drizzle-orm';
+
+export type Geofence = typeof geofenceSettings.$inferSelect;
+export type GeofenceSiteGroup = typeof geofenceSiteGroups.$inferSelect;
+export type GeofenceAssignment = typeof geofenceAssignments.$inferSelect;
+
+export interface GeofenceData {
+  name: string;
+  description?: string;
+  siteGroupId?: string | null;
+  latitude?: number; // Required for circles; defaults to the polygon's center
+  longitude?: number;
+  radiusMeters?: number;
+  boundary?: GeoJsonBoundary | null; // Makes the geofence a polygon; null turns it back into a circle
+  bufferZoneMeters?: number;
+  allowedDeviationMeters?: number;
+  masterPhotoUrl?: string | null;
+  isActive?: boolean;
+}
+
+export interface GeofenceSiteGroupData {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface GeofenceAssignmentData {
+  userId: string;
+  geofenceId?: string;
+  siteGroupId?: string;
+}
+
+export interface GeoJsonImportOptions {
+  siteGroupId?: string;
+  bufferZoneMeters?: number;
+  allowedDeviationMeters?: number;
+}
+
+export interface GeoJsonImportResult {
+  geofences: Geofence[];
+  warnings: string[];
+}
+
+export interface GeofenceLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeofenceMatch {
+  geofenceId: string;
+  geofenceName: string;
+  shape: Geofence['shape'];
+  siteGroupId: string | null;
+  distanceMeters: number; // From the circle center, or from the polygon edge (0 inside)
+  zone: 'inside' | 'buffer' | 'outside';
+}
+
+export interface GeofenceLocationTest {
+  match: GeofenceMatch | null;
+  sites: GeofenceMatch[]; // Every candidate site, best first
+  assignedOnly: boolean; // True when the user's site assignments limited the candidates
+}
+
+export interface GeofenceEnforcement {
+  action: 'allow' | 'flag' | 'reject';
+  zone: GeofenceMatch['zone'] | null; // Null when the company has no active geofences
+  match: GeofenceMatch | null; // Null when no location was submitted
+}
+
+export interface GeofenceServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+const MAX_IMPORTED_SITES = 500;
+
+export class GeofenceService {
+  private readonly policyService = new PolicyService();
+
+  /**
+   * Create a geofence
+   */
+  async createGeofence(companyId: string, data: GeofenceData): Promise<GeofenceServiceResult<Geofence>> {
+    try {
+      if (data.siteGroupId && !await this.isCompanySiteGroup(companyId, data.siteGroupId)) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const { latitude, longitude, boundary, ...rest } = data;
+      const center = boundary ? getPolygonCenter(boundary) : null;
+      const centerLatitude = latitude ?? center?.latitude;
+      const centerLongitude = longitude ?? center?.longitude;
+
+      if (centerLatitude === undefined || centerLongitude === undefined) {
+        return {
+          success: false,
+          message: 'A circle geofence needs a latitude and longitude',
+          error: 'VALIDATION_ERROR'
+        };
+      }
+
+      const [geofence] = await db.insert(geofenceSettings).values({
+        ...rest,
+        shape: boundary ? 'polygon' : 'circle',
+        boundary: boundary ?? null,
+        latitude: centerLatitude.toString(),
+        longitude: centerLongitude.toString(),
+        companyId
+      }).returning();
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: 'Failed to create geofence',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Geofence created', {
+        service: 'attendance-service',
+        companyId,
+        geofenceId: geofence.id,
+        shape: geofence.shape
+      });
+
+      return {
+        success: true,
+        message: 'Geofence created successfully',
+        data: geofence
+      };
+
+    } catch (error) {
+      logger.error('Failed to create geofence:', error);
+      return {
+        success: false,
+        message: 'Failed to create geofence',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get geofences for a company
+   */
+  async getGeofences(companyId: string, includeInactive: boolean = false): Promise<GeofenceServiceResult<Geofence[]>> {
+    try {
+      const geofences = await this.listGeofences(companyId, includeInactive);
+
+      return {
+        success: true,
+        data: geofences
+      };
+
+    } catch (error) {
+      logger.error('Failed to get geofences:', error);
+      return {
+        success: false,
+        message: 'Failed to get geofences',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single geofence
+   */
+  async getGeofence(companyId: string, geofenceId: string): Promise<GeofenceServiceResult<Geofence>> {
+    try {
+      const [geofence] = await db
+        .select()
+        .from(geofenceSettings)
+        .where(
+          and(
+            eq(geofenceSettings.id, geofenceId),
+            eq(geofenceSettings.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: geofence
+      };
+
+    } catch (error) {
+      logger.error('Failed to get geofence:', error);
+      return {
+        success: false,
+        message: 'Failed to get geofence',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a geofence
+   */
+  async updateGeofence(
+    companyId: string,
+    geofenceId: string,
+    data: Partial<GeofenceData>
+  ): Promise<GeofenceServiceResult<Geofence>> {
+    try {
+      if (data.siteGroupId && !await this.isCompanySiteGroup(companyId, data.siteGroupId)) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const { latitude, longitude, boundary, ...rest } = data;
+      // A new polygon moves the reference point unless one is given
+      const center = boundary ? getPolygonCenter(boundary) : null;
+      const centerLatitude = latitude ?? center?.latitude;
+      const centerLongitude = longitude ?? center?.longitude;
+
+      const [geofence] = await db
+        .update(geofenceSettings)
+        .set({
+          ...rest,
+          ...(boundary !== undefined && { boundary, shape: boundary ? 'polygon' : 'circle' }),
+          ...(centerLatitude !== undefined && { latitude: centerLatitude.toString() }),
+          ...(centerLongitude !== undefined && { longitude: centerLongitude.toString() }),
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(geofenceSettings.id, geofenceId),
+            eq(geofenceSettings.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Geofence updated', {
+        service: 'attendance-service',
+        companyId,
+        geofenceId
+      });
+
+      return {
+        success: true,
+        message: 'Geofence updated successfully',
+        data: geofence
+      };
+
+    } catch (error) {
+      logger.error('Failed to update geofence:', error);
+      return {
+        success: false,
+        message: 'Failed to update geofence',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a geofence; past attendance keeps its reference
+   */
+  async deleteGeofence(companyId: string, geofenceId: string): Promise<GeofenceServiceResult<Geofence>> {
+    try {
+      const [geofence] = await db
+        .update(geofenceSettings)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(geofenceSettings.id, geofenceId),
+            eq(geofenceSettings.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Geofence deactivated', {
+        service: 'attendance-service',
+        companyId,
+        geofenceId
+      });
+
+      return {
+        success: true,
+        message: 'Geofence deactivated successfully',
+        data: geofence
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete geofence:', error);
+      return {
+        success: false,
+        message: 'Failed to delete geofence',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create geofences from a GeoJSON FeatureCollection, Feature or geometry.
+   * Each Polygon or MultiPolygon becomes a polygon geofence named after its "name" property.
+   */
+  async importGeoJson(
+    companyId: string,
+    geojson: any,
+    options: GeoJsonImportOptions = {}
+  ): Promise<GeofenceServiceResult<GeoJsonImportResult>> {
+    try {
+      if (options.siteGroupId && !await this.isCompanySiteGroup(companyId, options.siteGroupId)) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const features: any[] = geojson?.type === 'FeatureCollection'
+        ? (Array.isArray(geojson.features) ? geojson.features : [])
+        : geojson?.type === 'Feature'
+          ? [geojson]
+          : [{ type: 'Feature', geometry: geojson, properties: {} }];
+
+      if (features.length > MAX_IMPORTED_SITES) {
+        return {
+          success: false,
+          message: `GeoJSON import is limited to ${MAX_IMPORTED_SITES} features`,
+          error: 'INVALID_GEOJSON'
+        };
+      }
+
+      const warnings: string[] = [];
+      const values: (typeof geofenceSettings.$inferInsert)[] = [];
+
+      features.forEach((feature, index) => {
+        const properties = feature?.properties || {};
+        const name = String(properties.name || properties.title || `Site ${index + 1}`).slice(0, 255);
+
+        if (!isGeoJsonBoundary(feature?.geometry)) {
+          warnings.push(`Skipped feature "${name}": geometry must be a valid Polygon or MultiPolygon`);
+          return;
+        }
+
+        const center = getPolygonCenter(feature.geometry);
+        values.push({
+          companyId,
+          name,
+          description: typeof properties.description === 'string' ? properties.description : null,
+          siteGroupId: options.siteGroupId ?? null,
+          shape: 'polygon',
+          boundary: feature.geometry,
+          latitude: center.latitude.toString(),
+          longitude: center.longitude.toString(),
+          ...(options.bufferZoneMeters !== undefined && { bufferZoneMeters: options.bufferZoneMeters }),
+          ...(options.allowedDeviationMeters !== undefined && { allowedDeviationMeters: options.allowedDeviationMeters })
+        });
+      });
+
+      if (values.length === 0) {
+        return {
+          success: false,
+          message: 'No polygon features found in the GeoJSON',
+          error: 'INVALID_GEOJSON'
+        };
+      }
+
+      const created = await db.insert(geofenceSettings).values(values).returning();
+
+      logger.info('Geofences imported from GeoJSON', {
+        service: 'attendance-service',
+        companyId,
+        imported: created.length,
+        skipped: warnings.length
+      });
+
+      return {
+        success: true,
+        message: `Imported ${created.length} geofences`,
+        data: {
+          geofences: created,
+          warnings
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to import GeoJSON geofences:', error);
+      return {
+        success: false,
+        message: 'Failed to import GeoJSON geofences',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create a site group
+   */
+  async createSiteGroup(companyId: string, data: GeofenceSiteGroupData): Promise<GeofenceServiceResult<GeofenceSiteGroup>> {
+    try {
+      const [siteGroup] = await db.insert(geofenceSiteGroups).values({
+        ...data,
+        companyId
+      }).returning();
+
+      if (!siteGroup) {
+        return {
+          success: false,
+          message: 'Failed to create site group',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Site group created', {
+        service: 'attendance-service',
+        companyId,
+        siteGroupId: siteGroup.id
+      });
+
+      return {
+        success: true,
+        message: 'Site group created successfully',
+        data: siteGroup
+      };
+
+    } catch (error) {
+      logger.error('Failed to create site group:', error);
+      return {
+        success: false,
+        message: 'Failed to create site group',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get site groups for a company
+   */
+  async getSiteGroups(companyId: string, includeInactive: boolean = false): Promise<GeofenceServiceResult<GeofenceSiteGroup[]>> {
+    try {
+      const whereConditions = [eq(geofenceSiteGroups.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(geofenceSiteGroups.isActive, true));
+      }
+
+      const siteGroups = await db
+        .select()
+        .from(geofenceSiteGroups)
+        .where(and(...whereConditions))
+        .orderBy(asc(geofenceSiteGroups.name));
+
+      return {
+        success: true,
+        data: siteGroups
+      };
+
+    } catch (error) {
+      logger.error('Failed to get site groups:', error);
+      return {
+        success: false,
+        message: 'Failed to get site groups',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a site group
+   */
+  async updateSiteGroup(
+    companyId: string,
+    siteGroupId: string,
+    data: Partial<GeofenceSiteGroupData>
+  ): Promise<GeofenceServiceResult<GeofenceSiteGroup>> {
+    try {
+      const [siteGroup] = await db
+        .update(geofenceSiteGroups)
+        .set({
+          ...data,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(geofenceSiteGroups.id, siteGroupId),
+            eq(geofenceSiteGroups.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!siteGroup) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Site group updated', {
+        service: 'attendance-service',
+        companyId,
+        siteGroupId
+      });
+
+      return {
+        success: true,
+        message: 'Site group updated successfully',
+        data: siteGroup
+      };
+
+    } catch (error) {
+      logger.error('Failed to update site group:', error);
+      return {
+        success: false,
+        message: 'Failed to update site group',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a site group; its geofences stay active, but assignments to the group stop applying
+   */
+  async deleteSiteGroup(companyId: string, siteGroupId: string): Promise<GeofenceServiceResult<GeofenceSiteGroup>> {
+    try {
+      const [siteGroup] = await db
+        .update(geofenceSiteGroups)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(geofenceSiteGroups.id, siteGroupId),
+            eq(geofenceSiteGroups.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!siteGroup) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Site group deactivated', {
+        service: 'attendance-service',
+        companyId,
+        siteGroupId
+      });
+
+      return {
+        success: true,
+        message: 'Site group deactivated successfully',
+        data: siteGroup
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete site group:', error);
+      return {
+        success: false,
+        message: 'Failed to delete site group',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Assign an employee to a site or a site group
+   */
+  async createAssignment(
+    companyId: string,
+    data: GeofenceAssignmentData,
+    createdBy: string
+  ): Promise<GeofenceServiceResult<GeofenceAssignment>> {
+    try {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(
+          and(
+            eq(users.id, data.userId),
+            eq(users.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (data.geofenceId && !await this.isCompanyGeofence(companyId, data.geofenceId)) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (data.siteGroupId && !await this.isCompanySiteGroup(companyId, data.siteGroupId)) {
+        return {
+          success: false,
+          message: 'Site group not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [existing] = await db
+        .select({ id: geofenceAssignments.id })
+        .from(geofenceAssignments)
+        .where(
+          and(
+            eq(geofenceAssignments.userId, data.userId),
+            data.geofenceId
+              ? eq(geofenceAssignments.geofenceId, data.geofenceId)
+              : eq(geofenceAssignments.siteGroupId, data.siteGroupId!)
+          )
+        )
+        .limit(1);
+
+      if (existing) {
+        return {
+          success: false,
+          message: 'User is already assigned to this site',
+          error: 'DUPLICATE_ASSIGNMENT'
+        };
+      }
+
+      const [assignment] = await db.insert(geofenceAssignments).values({
+        companyId,
+        userId: data.userId,
+        geofenceId: data.geofenceId ?? null,
+        siteGroupId: data.siteGroupId ?? null,
+        createdBy
+      }).returning();
+
+      if (!assignment) {
+        return {
+          success: false,
+          message: 'Failed to create site assignment',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Site assignment created', {
+        service: 'attendance-service',
+        companyId,
+        userId: data.userId,
+        geofenceId: data.geofenceId,
+        siteGroupId: data.siteGroupId
+      });
+
+      return {
+        success: true,
+        message: 'Site assignment created successfully',
+        data: assignment
+      };
+
+    } catch (error) {
+      logger.error('Failed to create site assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to create site assignment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get site assignments, optionally for one employee
+   */
+  async getAssignments(companyId: string, userId?: string): Promise<GeofenceServiceResult<GeofenceAssignment[]>> {
+    try {
+      const whereConditions = [eq(geofenceAssignments.companyId, companyId)];
+
+      if (userId) {
+        whereConditions.push(eq(geofenceAssignments.userId, userId));
+      }
+
+      const assignments = await db
+        .select()
+        .from(geofenceAssignments)
+        .where(and(...whereConditions))
+        .orderBy(asc(geofenceAssignments.createdAt));
+
+      return {
+        success: true,
+        data: assignments
+      };
+
+    } catch (error) {
+      logger.error('Failed to get site assignments:', error);
+      return {
+        success: false,
+        message: 'Failed to get site assignments',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Remove a site assignment
+   */
+  async deleteAssignment(companyId: string, assignmentId: string): Promise<GeofenceServiceResult<GeofenceAssignment>> {
+    try {
+      const [assignment] = await db
+        .delete(geofenceAssignments)
+        .where(
+          and(
+            eq(geofenceAssignments.id, assignmentId),
+            eq(geofenceAssignments.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!assignment) {
+        return {
+          success: false,
+          message: 'Site assignment not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Site assignment removed', {
+        service: 'attendance-service',
+        companyId,
+        assignmentId
+      });
+
+      return {
+        success: true,
+        message: 'Site assignment removed successfully',
+        data: assignment
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete site assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to delete site assignment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Test a coordinate against every candidate site, as a clock-in by the user would be evaluated
+   */
+  async testLocation(
+    companyId: string,
+    location: GeofenceLocation,
+    userId?: string
+  ): Promise<GeofenceServiceResult<GeofenceLocationTest>> {
+    try {
+      const { geofences, assignedOnly } = await this.getCandidateGeofences(companyId, userId);
+      const sites = this.evaluateLocation(geofences, location);
+
+      return {
+        success: true,
+        data: {
+          match: sites[0] ?? null,
+          sites,
+          assignedOnly
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to test geofence location:', error);
+      return {
+        success: false,
+        message: 'Failed to test geofence location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Find the best geofence for a location. Returns null when there are no candidate geofences.
+   * Employees with site assignments are only matched against their sites.
+   */
+  async matchLocation(companyId: string, location: GeofenceLocation, userId?: string): Promise<GeofenceMatch | null> {
+    const { geofences } = await this.getCandidateGeofences(companyId, userId);
+    return this.evaluateLocation(geofences, location)[0] ?? null;
+  }
+
+  /**
+   * Decide what happens to an onsite clock-in at a location under the company's geofence policy.
+   * Companies without active geofences are not enforced; a missing location counts as outside.
+   */
+  async enforceClockIn(companyId: string, userId: string, location?: GeofenceLocation): Promise<GeofenceEnforcement> {
+    if (!location) {
+      const { geofences } = await this.getCandidateGeofences(companyId, userId);
+      if (geofences.length === 0) {
+        return { action: 'allow', zone: null, match: null };
+      }
+
+      const policy = await this.policyService.getPolicy(companyId);
+      return { action: policy.geofenceEnforcement, zone: 'outside', match: null };
+    }
+
+    const match = await this.matchLocation(companyId, location, userId);
+    if (!match || match.zone !== 'outside') {
+      return { action: 'allow', zone: match?.zone ?? null, match };
+    }
+
+    const policy = await this.policyService.getPolicy(companyId);
+    return { action: policy.geofenceEnforcement, zone: 'outside', match };
+  }
+
+  /**
+   * Evaluate a location against geofences, best first.
+   * Inside the circle or polygon is "inside"; within the buffer zone plus the allowed GPS deviation past its edge is "buffer".
+   */
+  private evaluateLocation(geofences: Geofence[], location: GeofenceLocation): GeofenceMatch[] {
+    const evaluated = geofences.map(geofence => {
+      const tolerance = (geofence.bufferZoneMeters ?? 0) + (geofence.allowedDeviationMeters ?? 0);
+      let distance: number;
+      let margin: number; // Meters past the edge; negative when inside
+
+      if (geofence.shape === 'polygon' && isGeoJsonBoundary(geofence.boundary)) {
+        const edgeDistance = distanceToPolygonEdge(location.latitude, location.longitude, geofence.boundary);
+        const inside = isPointInPolygon(location.latitude, location.longitude, geofence.boundary);
+        distance = inside ? 0 : edgeDistance;
+        margin = inside ? -edgeDistance : edgeDistance;
+      } else {
+        distance = calculateDistance(
+          location.latitude,
+          location.longitude,
+          parseFloat(geofence.latitude),
+          parseFloat(geofence.longitude)
+        );
+        margin = distance - geofence.radiusMeters;
+      }
+
+      const match: GeofenceMatch = {
+        geofenceId: geofence.id,
+        geofenceName: geofence.name,
+        shape: geofence.shape,
+        siteGroupId: geofence.siteGroupId,
+        distanceMeters: Math.round(distance),
+        zone: margin <= 0 ? 'inside' : margin <= tolerance ? 'buffer' : 'outside'
+      };
+
+      return { match, margin };
+    });
+
+    // Prefer the geofence the location is deepest inside (or least outside)
+    return evaluated
+      .sort((a, b) => a.margin - b.margin)
+      .map(({ match }) => match);
+  }
+
+  /**
+   * Active geofences a user can clock in at: their assigned sites and site groups, or every company site when unassigned
+   */
+  private async getCandidateGeofences(
+    companyId: string,
+    userId?: string
+  ): Promise<{ geofences: Geofence[]; assignedOnly: boolean }> {
+    if (userId) {
+      const assignments = await db
+        .select({
+          geofenceId: geofenceAssignments.geofenceId,
+          siteGroupId: geofenceAssignments.siteGroupId,
+          siteGroupActive: geofenceSiteGroups.isActive
+        })
+        .from(geofenceAssignments)
+        .leftJoin(geofenceSiteGroups, eq(geofenceAssignments.siteGroupId, geofenceSiteGroups.id))
+        .where(
+          and(
+            eq(geofenceAssignments.userId, userId),
+            eq(geofenceAssignments.companyId, companyId)
+          )
+        );
+
+      const geofenceIds = assignments.map(a => a.geofenceId).filter((id): id is string => !!id);
+      const siteGroupIds = assignments
+        .filter(a => a.siteGroupActive)
+        .map(a => a.siteGroupId)
+        .filter((id): id is string => !!id);
+
+      if (geofenceIds.length > 0 || siteGroupIds.length > 0) {
+        const siteConditions = [
+          ...(geofenceIds.length > 0 ? [inArray(geofenceSettings.id, geofenceIds)] : []),
+          ...(siteGroupIds.length > 0 ? [inArray(geofenceSettings.siteGroupId, siteGroupIds)] : [])
+        ];
+
+        const assigned = await db
+          .select()
+          .from(geofenceSettings)
+          .where(
+            and(
+              eq(geofenceSettings.companyId, companyId),
+              eq(geofenceSettings.isActive, true),
+              or(...siteConditions)
+            )
+          );
+
+        // Assignments to sites that have all been deactivated fall back to every company site
+        if (assigned.length > 0) {
+          return { geofences: assigned, assignedOnly: true };
+        }
+      }
+    }
+
+    return { geofences: await this.listGeofences(companyId, false), assignedOnly: false };
+  }
+
+  private async isCompanyGeofence(companyId: string, geofenceId: string): Promise<boolean> {
+    const [geofence] = await db
+      .select({ id: geofenceSettings.id })
+      .from(geofenceSettings)
+      .where(
+        and(
+          eq(geofenceSettings.id, geofenceId),
+          eq(geofenceSettings.companyId, companyId)
+        )
+      )
+      .limit(1);
+
+    return !!geofence;
+  }
+
+  private async isCompanySiteGroup(companyId: string, siteGroupId: string): Promise<boolean> {
+    const [siteGroup] = await db
+      .select({ id: geofenceSiteGroups.id })
+      .from(geofenceSiteGroups)
+      .where(
+        and(
+          eq(geofenceSiteGroups.id, siteGroupId),
+          eq(geofenceSiteGroups.companyId, companyId)
+        )
+      )
+      .limit(1);
+
+    return !!siteGroup;
+  }
+
+  private async listGeofences(companyId: string, includeInactive: boolean): Promise<Geofence[]> {
+    const whereConditions = [eq(geofenceSettings.companyId, companyId)];
+
+    if (!includeInactive) {
+      whereConditions.push(eq(geofenceSettings.isActive, true));
+    }
+
+    return db
+      .select()
+      .from(geofenceSettings)
+      .where(and(...whereConditions))
+      .orderBy(asc(geofenceSettings.name));
+  }
+}
@@ -0,0 +1,954 @@
+import { db } from '../config/database';
+import { holidayPresets, HolidayPreset, HolidayRule } from '../config/holidayPresets';
+import { companySettings } from '../db/schema/auth';
+import { geofenceSettings, geofenceAssignments } from '../db/schema/geofence';
+import { holidayCalendars, holidays } from '../db/schema/holiday';
+import { logger } from '../utils/logger';
+import { parseIcsEvents, expandOccurrences, isYearlyRule } from '../utils/ical';
+import { ShiftService } from './shift.service';
+import {
+  getLocalDateString,
+  getIsoWeekday,
+  getTimezoneOffsetMinutes,
+  addDaysToDateString,
+  daysBetweenDateStrings
+} from '../utils/helpers';
+import { eq, and, or, asc, gte, lte, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
+
+export interface HolidayCalendarData {
+  name: string;
+  description?: string;
+  geofenceId?: string | null;
+  countryCode?: string | null;
+  isActive?: boolean;
+}
+
+export interface HolidayData {
+  date: string;
+  name: string;
+}
+
+export interface HolidayImportOptions {
+  replaceExisting?: boolean;
+  untilYear?: number; // Last year yearly-recurring events are expanded to
+}
+
+export interface HolidayImportResult {
+  imported: number;
+  warnings: string[];
+}
+
+export interface HolidayPresetSummary {
+  code: string;
+  name: string;
+  countryCode: string;
+  holidays: string[];
+}
+
+export interface ResolvedHoliday {
+  date: string;
+  name: string;
+  calendarId: string;
+  calendarName: string;
+  geofenceId: string | null;
+}
+
+export interface HolidayDayContext {
+  timezone: string;
+  localDate: string;
+  localHour: number;
+  isWorkDay: boolean;
+  holidayName: string | null;
+}
+
+export interface HolidayServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type HolidayEntry = HolidayData & { externalUid?: string | null };
+
+const MAX_IMPORTED_DATES = 2000;
+const MAX_EVENT_DAYS = 31;
+
+export class HolidayService {
+  private readonly shiftService = new ShiftService();
+
+  /**
+   * Create a holiday calendar for the whole company or one location
+   */
+  async createCalendar(companyId: string, data: HolidayCalendarData): Promise<HolidayServiceResult<HolidayCalendar>> {
+    try {
+      if (data.geofenceId && !await this.isCompanyGeofence(companyId, data.geofenceId)) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [calendar] = await db.insert(holidayCalendars).values({
+        ...data,
+        countryCode: data.countryCode?.toUpperCase() ?? null,
+        companyId
+      }).returning();
+
+      if (!calendar) {
+        return {
+          success: false,
+          message: 'Failed to create holiday calendar',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Holiday calendar created', {
+        service: 'attendance-service',
+        companyId,
+        calendarId: calendar.id,
+        geofenceId: calendar.geofenceId
+      });
+
+      return {
+        success: true,
+        message: 'Holiday calendar created successfully',
+        data: calendar
+      };
+
+    } catch (error) {
+      logger.error('Failed to create holiday calendar:', error);
+      return {
+        success: false,
+        message: 'Failed to create holiday calendar',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get holiday calendars for a company
+   */
+  async getCalendars(companyId: string, includeInactive: boolean = false): Promise<HolidayServiceResult<HolidayCalendar[]>> {
+    try {
+      const whereConditions = [eq(holidayCalendars.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(holidayCalendars.isActive, true));
+      }
+
+      const calendars = await db
+        .select()
+        .from(holidayCalendars)
+        .where(and(...whereConditions))
+        .orderBy(asc(holidayCalendars.name));
+
+      return {
+        success: true,
+        data: calendars
+      };
+
+    } catch (error) {
+      logger.error('Failed to get holiday calendars:', error);
+      return {
+        success: false,
+        message: 'Failed to get holiday calendars',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single holiday calendar
+   */
+  async getCalendar(companyId: string, calendarId: string): Promise<HolidayServiceResult<HolidayCalendar>> {
+    try {
+      const [calendar] = await db
+        .select()
+        .from(holidayCalendars)
+        .where(
+          and(
+            eq(holidayCalendars.id, calendarId),
+            eq(holidayCalendars.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!calendar) {
+        return {
+          success: false,
+          message: 'Holiday calendar not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: calendar
+      };
+
+    } catch (error) {
+      logger.error('Failed to get holiday calendar:', error);
+      return {
+        success: false,
+        message: 'Failed to get holiday calendar',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a holiday calendar
+   */
+  async updateCalendar(
+    companyId: string,
+    calendarId: string,
+    data: Partial<HolidayCalendarData>
+  ): Promise<HolidayServiceResult<HolidayCalendar>> {
+    try {
+      if (data.geofenceId && !await this.isCompanyGeofence(companyId, data.geofenceId)) {
+        return {
+          success: false,
+          message: 'Geofence not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [calendar] = await db
+        .update(holidayCalendars)
+        .set({
+          ...data,
+          ...(data.countryCode !== undefined && { countryCode: data.countryCode?.toUpperCase() ?? null }),
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(holidayCalendars.id, calendarId),
+            eq(holidayCalendars.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!calendar) {
+        return {
+          success: false,
+          message: 'Holiday calendar not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Holiday calendar updated', {
+        service: 'attendance-service',
+        companyId,
+        calendarId
+      });
+
+      return {
+        success: true,
+        message: 'Holiday calendar updated successfully',
+        data: calendar
+      };
+
+    } catch (error) {
+      logger.error('Failed to update holiday calendar:', error);
+      return {
+        success: false,
+        message: 'Failed to update holiday calendar',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a holiday calendar; its holidays stop applying but are kept
+   */
+  async deleteCalendar(companyId: string, calendarId: string): Promise<HolidayServiceResult<HolidayCalendar>> {
+    try {
+      const [calendar] = await db
+        .update(holidayCalendars)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(holidayCalendars.id, calendarId),
+            eq(holidayCalendars.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!calendar) {
+        return {
+          success: false,
+          message: 'Holiday calendar not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Holiday calendar deactivated', {
+        service: 'attendance-service',
+        companyId,
+        calendarId
+      });
+
+      return {
+        success: true,
+        message: 'Holiday calendar deactivated successfully',
+        data: calendar
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete holiday calendar:', error);
+      return {
+        success: false,
+        message: 'Failed to delete holiday calendar',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the holidays in a calendar, optionally for one year
+   */
+  async getCalendarHolidays(companyId: string, calendarId: string, year?: number): Promise<HolidayServiceResult<Holiday[]>> {
+    try {
+      const whereConditions = [
+        eq(holidays.calendarId, calendarId),
+        eq(holidays.companyId, companyId)
+      ];
+
+      if (year) {
+        whereConditions.push(gte(holidays.date, `${year}-01-01`), lte(holidays.date, `${year}-12-31`));
+      }
+
+      const calendarHolidays = await db
+        .select()
+        .from(holidays)
+        .where(and(...whereConditions))
+        .orderBy(asc(holidays.date));
+
+      return {
+        success: true,
+        data: calendarHolidays
+      };
+
+    } catch (error) {
+      logger.error('Failed to get calendar holidays:', error);
+      return {
+        success: false,
+        message: 'Failed to get calendar holidays',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Add a holiday to a calendar, replacing any holiday already on that date
+   */
+  async addHoliday(companyId: string, calendarId: string, data: HolidayData): Promise<HolidayServiceResult<Holiday>> {
+    try {
+      const calendarResult = await this.getCalendar(companyId, calendarId);
+      if (!calendarResult.success) {
+        return {
+          success: false,
+          message: calendarResult.message || 'Holiday calendar not found',
+          error: calendarResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const [holiday] = await db
+        .insert(holidays)
+        .values({
+          companyId,
+          calendarId,
+          date: data.date,
+          name: data.name,
+          source: 'manual'
+        })
+        .onConflictDoUpdate({
+          target: [holidays.calendarId, holidays.date],
+          set: {
+            name: data.name,
+            source: 'manual',
+            externalUid: null,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      if (!holiday) {
+        return {
+          success: false,
+          message: 'Failed to add holiday',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Holiday added successfully',
+        data: holiday
+      };
+
+    } catch (error) {
+      logger.error('Failed to add holiday:', error);
+      return {
+        success: false,
+        message: 'Failed to add holiday',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a holiday's date or name
+   */
+  async updateHoliday(
+    companyId: string,
+    calendarId: string,
+    holidayId: string,
+    data: Partial<HolidayData>
+  ): Promise<HolidayServiceResult<Holiday>> {
+    try {
+      const [holiday] = await db
+        .update(holidays)
+        .set({
+          ...data,
+          source: 'manual',
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(holidays.id, holidayId),
+            eq(holidays.calendarId, calendarId),
+            eq(holidays.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!holiday) {
+        return {
+          success: false,
+          message: 'Holiday not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Holiday updated successfully',
+        data: holiday
+      };
+
+    } catch (error) {
+      logger.error('Failed to update holiday:', error);
+      return {
+        success: false,
+        message: 'Failed to update holiday',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Remove a holiday from a calendar
+   */
+  async deleteHoliday(companyId: string, calendarId: string, holidayId: string): Promise<HolidayServiceResult<Holiday>> {
+    try {
+      const [holiday] = await db
+        .delete(holidays)
+        .where(
+          and(
+            eq(holidays.id, holidayId),
+            eq(holidays.calendarId, calendarId),
+            eq(holidays.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!holiday) {
+        return {
+          success: false,
+          message: 'Holiday not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Holiday deleted successfully',
+        data: holiday
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete holiday:', error);
+      return {
+        success: false,
+        message: 'Failed to delete holiday',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * List the bundled country presets
+   */
+  getPresets(): HolidayPresetSummary[] {
+    return Object.values(holidayPresets).map(preset => ({
+      code: preset.code,
+      name: preset.name,
+      countryCode: preset.countryCode,
+      holidays: preset.holidays.map(holiday => holiday.name)
+    }));
+  }
+
+  /**
+   * Fill a calendar with a preset's holidays for the given years
+   */
+  async applyPreset(
+    companyId: string,
+    calendarId: string,
+    presetCode: string,
+    years: number[]
+  ): Promise<HolidayServiceResult<HolidayImportResult>> {
+    try {
+      const preset = holidayPresets[presetCode];
+      if (!preset) {
+        return {
+          success: false,
+          message: `Unknown holiday preset: ${presetCode}`,
+          error: 'INVALID_PRESET'
+        };
+      }
+
+      const calendarResult = await this.getCalendar(companyId, calendarId);
+      if (!calendarResult.success) {
+        return {
+          success: false,
+          message: calendarResult.message || 'Holiday calendar not found',
+          error: calendarResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const entries = years.flatMap(year => this.generatePresetHolidays(preset, year));
+      const imported = await this.upsertHolidays(companyId, calendarId, entries, 'preset');
+
+      logger.info('Holiday preset applied', {
+        service: 'attendance-service',
+        companyId,
+        calendarId,
+        preset: presetCode,
+        years,
+        imported
+      });
+
+      return {
+        success: true,
+        message: `${imported} holidays added from ${preset.name}`,
+        data: { imported, warnings: [] }
+      };
+
+    } catch (error) {
+      logger.error('Failed to apply holiday preset:', error);
+      return {
+        success: false,
+        message: 'Failed to apply holiday preset',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Import all-day events from an iCalendar (.ics) file into a calendar.
+   * Yearly recurring events are expanded; other recurrence rules import their first occurrence only.
+   */
+  async importIcal(
+    companyId: string,
+    calendarId: string,
+    content: string,
+    options: HolidayImportOptions = {}
+  ): Promise<HolidayServiceResult<HolidayImportResult>> {
+    try {
+      const calendarResult = await this.getCalendar(companyId, calendarId);
+      if (!calendarResult.success) {
+        return {
+          success: false,
+          message: calendarResult.message || 'Holiday calendar not found',
+          error: calendarResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const { events, warnings } = parseIcsEvents(content);
+      if (events.length === 0) {
+        return {
+          success: false,
+          message: warnings[0] || 'No events found in the iCalendar file',
+          error: 'INVALID_ICAL'
+        };
+      }
+
+      const currentYear = Number(getLocalDateString(new Date(), await this.shiftService.getCompanyTimezone(companyId)).slice(0, 4));
+      const untilYear = options.untilYear ?? currentYear + 2;
+      const entries: HolidayEntry[] = [];
+
+      for (const event of events) {
+        const occurrences = expandOccurrences(event, untilYear);
+
+        if (event.rrule && !isYearlyRule(event.rrule)) {
+          warnings.push(`Imported only the first occurrence of "${event.summary}"; its recurrence rule is not supported`);
+        }
+
+        for (const occurrence of occurrences) {
+          const days = Math.min(daysBetweenDateStrings(occurrence.startDate, occurrence.endDate) + 1, MAX_EVENT_DAYS);
+          if (days < daysBetweenDateStrings(occurrence.startDate, occurrence.endDate) + 1) {
+            warnings.push(`"${event.summary}" spans more than ${MAX_EVENT_DAYS} days; only the first ${MAX_EVENT_DAYS} were imported`);
+          }
+
+          for (let offset = 0; offset < days; offset++) {
+            entries.push({
+              date: addDaysToDateString(occurrence.startDate, offset),
+              name: event.summary.slice(0, 255),
+              externalUid: event.uid?.slice(0, 255) ?? null
+            });
+          }
+        }
+      }
+
+      if (entries.length > MAX_IMPORTED_DATES) {
+        warnings.push(`Only the first ${MAX_IMPORTED_DATES} of ${entries.length} holiday dates were imported`);
+        entries.length = MAX_IMPORTED_DATES;
+      }
+
+      if (options.replaceExisting) {
+        await db
+          .delete(holidays)
+          .where(
+            and(
+              eq(holidays.calendarId, calendarId),
+              eq(holidays.source, 'ical')
+            )
+          );
+      }
+
+      const imported = await this.upsertHolidays(companyId, calendarId, entries, 'ical');
+
+      logger.info('Holiday calendar imported from iCal', {
+        service: 'attendance-service',
+        companyId,
+        calendarId,
+        events: events.length,
+        imported,
+        warnings: warnings.length
+      });
+
+      return {
+        success: true,
+        message: `${imported} holidays imported`,
+        data: { imported, warnings }
+      };
+
+    } catch (error) {
+      logger.error('Failed to import iCal holidays:', error);
+      return {
+        success: false,
+        message: 'Failed to import iCal holidays',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the holidays that apply in a date range: company-wide calendars, plus the
+   * location's calendars when a geofence is given
+   */
+  async getHolidays(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    geofenceId?: string
+  ): Promise<HolidayServiceResult<ResolvedHoliday[]>> {
+    try {
+      const locationCondition = geofenceId
+        ? or(isNull(holidayCalendars.geofenceId), eq(holidayCalendars.geofenceId, geofenceId))
+        : isNull(holidayCalendars.geofenceId);
+
+      const resolved = await db
+        .select({
+          date: holidays.date,
+          name: holidays.name,
+          calendarId: holidayCalendars.id,
+          calendarName: holidayCalendars.name,
+          geofenceId: holidayCalendars.geofenceId
+        })
+        .from(holidays)
+        .innerJoin(holidayCalendars, eq(holidays.calendarId, holidayCalendars.id))
+        .where(
+          and(
+            eq(holidayCalendars.companyId, companyId),
+            eq(holidayCalendars.isActive, true),
+            locationCondition,
+            gte(holidays.date, startDate),
+            lte(holidays.date, endDate)
+          )
+        )
+        .orderBy(asc(holidays.date), asc(holidayCalendars.name));
+
+      return {
+        success: true,
+        data: resolved
+      };
+
+    } catch (error) {
+      logger.error('Failed to get holidays:', error);
+      return {
+        success: false,
+        message: 'Failed to get holidays',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Holiday names by local date for a range, for overtime, leave and absence calculations
+   */
+  async getHolidayDates(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    geofenceId?: string
+  ): Promise<Map<string, string>> {
+    const result = await this.getHolidays(companyId, startDate, endDate, geofenceId);
+    if (!result.success) {
+      throw new Error(result.message || 'Failed to get holidays');
+    }
+
+    const dates = new Map<string, string>();
+    for (const holiday of result.data || []) {
+      if (!dates.has(holiday.date)) {
+        dates.set(holiday.date, holiday.name);
+      }
+    }
+
+    return dates;
+  }
+
+  /**
+   * Describe the company-local day of an instant: local date and hour, work day and holiday
+   */
+  async getDayContext(companyId: string, at: Date, geofenceId?: string): Promise<HolidayDayContext> {
+    const timezone = await this.shiftService.getCompanyTimezone(companyId);
+    const localDate = getLocalDateString(at, timezone);
+    const localHour = new Date(at.getTime() + getTimezoneOffsetMinutes(at, timezone) * 60 * 1000).getUTCHours();
+
+    const [settings] = await db
+      .select({ workDays: companySettings.workDays })
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId))
+      .limit(1);
+
+    const workDays = (settings?.workDays as number[] | undefined) ?? [1, 2, 3, 4, 5];
+    const holidayDates = await this.getHolidayDates(companyId, localDate, localDate, geofenceId);
+
+    return {
+      timezone,
+      localDate,
+      localHour,
+      isWorkDay: workDays.includes(getIsoWeekday(localDate)),
+      holidayName: holidayDates.get(localDate) ?? null
+    };
+  }
+
+  /**
+   * The site whose location calendars apply to an employee: the site the punch was matched to,
+   * otherwise the employee's home site
+   */
+  async getEmployeeSiteId(companyId: string, userId: string, geofenceId?: string | null): Promise<string | undefined> {
+    if (geofenceId) {
+      return geofenceId;
+    }
+
+    return (await this.getHomeSiteIds(companyId, [userId])).get(userId);
+  }
+
+  /**
+   * Home site per employee: their earliest direct site assignment. Employees assigned only to
+   * site groups, or not at all, have none and follow the company-wide calendars.
+   */
+  async getHomeSiteIds(companyId: string, userIds?: string[]): Promise<Map<string, string>> {
+    const conditions = [
+      eq(geofenceAssignments.companyId, companyId),
+      isNotNull(geofenceAssignments.geofenceId)
+    ];
+
+    if (userIds) {
+      if (userIds.length === 0) {
+        return new Map();
+      }
+      conditions.push(inArray(geofenceAssignments.userId, userIds));
+    }
+
+    const assignments = await db
+      .select({ userId: geofenceAssignments.userId, geofenceId: geofenceAssignments.geofenceId })
+      .from(geofenceAssignments)
+      .where(and(...conditions))
+      .orderBy(asc(geofenceAssignments.createdAt));
+
+    const sites = new Map<string, string>();
+    for (const assignment of assignments) {
+      if (assignment.geofenceId && !sites.has(assignment.userId)) {
+        sites.set(assignment.userId, assignment.geofenceId);
+      }
+    }
+
+    return sites;
+  }
+
+  /**
+   * Insert or rename holidays, one per calendar and date
+   */
+  private async upsertHolidays(
+    companyId: string,
+    calendarId: string,
+    entries: HolidayEntry[],
+    source: Holiday['source']
+  ): Promise<number> {
+    // Postgres rejects one statement updating the same row twice, so keep the first entry per date
+    const byDate = new Map<string, HolidayEntry>();
+    for (const entry of entries) {
+      if (!byDate.has(entry.date)) {
+        byDate.set(entry.date, entry);
+      }
+    }
+
+    if (byDate.size === 0) {
+      return 0;
+    }
+
+    const rows = await db
+      .insert(holidays)
+      .values([...byDate.values()].map(entry => ({
+        companyId,
+        calendarId,
+        date: entry.date,
+        name: entry.name,
+        source,
+        externalUid: entry.externalUid ?? null
+      })))
+      .onConflictDoUpdate({
+        target: [holidays.calendarId, holidays.date],
+        set: {
+          name: sql`excluded.name`,
+          source: sql`excluded.source`,
+          externalUid: sql`excluded.external_uid`,
+          updatedAt: new Date()
+        }
+      })
+      .returning({ id: holidays.id });
+
+    return rows.length;
+  }
+
+  /**
+   * Concrete dates of a preset's holidays in one year, with weekend dates moved to their observed day
+   */
+  private generatePresetHolidays(preset: HolidayPreset, year: number): HolidayData[] {
+    const generated: HolidayData[] = [];
+    const taken = new Set<string>();
+
+    const actualDates = preset.holidays.map(holiday => this.resolveRule(holiday.rule, year));
+    actualDates.forEach(date => taken.add(date));
+
+    preset.holidays.forEach((holiday, index) => {
+      const date = actualDates[index]!;
+      const weekday = getIsoWeekday(date);
+
+      if (!holiday.observed || weekday < 6) {
+        generated.push({ date, name: holiday.name });
+        return;
+      }
+
+      let observed = date;
+      if (holiday.observed === 'nearest_weekday') {
+        observed = addDaysToDateString(date, weekday === 6 ? -1 : 1);
+      } else {
+        do {
+          observed = addDaysToDateString(observed, 1);
+        } while (getIsoWeekday(observed) >= 6 || taken.has(observed));
+      }
+
+      taken.add(observed);
+      generated.push({ date: observed, name: `${holiday.name} (observed)` });
+    });
+
+    return generated;
+  }
+
+  private resolveRule(rule: HolidayRule, year: number): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    switch (rule.type) {
+      case 'fixed':
+        return `${year}-${pad(rule.month)}-${pad(rule.day)}`;
+
+      case 'nth_weekday': {
+        if (rule.n > 0) {
+          const first = `${year}-${pad(rule.month)}-01`;
+          const offset = (rule.weekday - getIsoWeekday(first) + 7) % 7;
+          return addDaysToDateString(first, offset + (rule.n - 1) * 7);
+        }
+
+        const last = addDaysToDateString(new Date(Date.UTC(year, rule.month, 1)).toISOString().slice(0, 10), -1);
+        const offset = (getIsoWeekday(last) - rule.weekday + 7) % 7;
+        return addDaysToDateString(last, -offset);
+      }
+
+      case 'weekday_on_or_before': {
+        const date = `${year}-${pad(rule.month)}-${pad(rule.day)}`;
+        const offset = (getIsoWeekday(date) - rule.weekday + 7) % 7;
+        return addDaysToDateString(date, -offset);
+      }
+
+      case 'easter':
+        return addDaysToDateString(this.getEasterSunday(year), rule.offset);
+    }
+  }
+
+  // Western Easter Sunday (anonymous Gregorian algorithm)
+  private getEasterSunday(year: number): string {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private async isCompanyGeofence(companyId: string, geofenceId: string): Promise<boolean> {
+    const [geofence] = await db
+      .select({ id: geofenceSettings.id })
+      .from(geofenceSettings)
+      .where(
+        and(
+          eq(geofenceSettings.id, geofenceId),
+          eq(geofenceSettings.companyId, companyId)
+        )
+      )
+      .limit(1);
+
+    return !!geofence;
+  }
+}
@@ -0,0 +1,167 @@
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { idempotencyKeys } from '../db/schema/idempotency';
+import { logger } from '../utils/logger';
+import { eq, and, or, lt } from 'drizzle-orm';
+
+export type IdempotentEndpoint = 'clock-in' | 'clock-out';
+
+export interface IdempotentRequest {
+  companyId: string;
+  userId: string;
+  endpoint: IdempotentEndpoint;
+  key: string;
+  requestHash: string;
+}
+
+/**
+ * What to do with a request carrying an Idempotency-Key:
+ * - started: first time (or taken over from a request that died); process it and complete or release the key
+ * - replay: send the stored response again
+ * - in_progress: the first request is still being processed
+ * - mismatch: the key was already used for a different request
+ */
+export type IdempotencyClaim =
+  | { state: 'started'; id: string }
+  | { state: 'replay'; responseStatus: number; responseBody: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+export class IdempotencyService {
+  /**
+   * Claim a key for a request. The unique (user, endpoint, key) row makes concurrent retries race safely:
+   * only one of them inserts or takes over the row, the others see it.
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + env.IDEMPOTENCY_LOCK_SECONDS * 1000);
+    const expiresAt = new Date(now.getTime() + env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+    const [inserted] = await db
+      .insert(idempotencyKeys)
+      .values({
+        companyId: request.companyId,
+        userId: request.userId,
+        endpoint: request.endpoint,
+        key: request.key,
+        requestHash: request.requestHash,
+        lockedUntil,
+        expiresAt
+      })
+      .onConflictDoNothing()
+      .returning({ id: idempotencyKeys.id });
+
+    if (inserted) {
+      return { state: 'started', id: inserted.id };
+    }
+
+    // Take over an expired key, or one whose request never finished
+    const [takenOver] = await db
+      .update(idempotencyKeys)
+      .set({
+        companyId: request.companyId,
+        requestHash: request.requestHash,
+        status: 'processing',
+        responseStatus: null,
+        responseBody: null,
+        lockedUntil,
+        completedAt: null,
+        expiresAt,
+        createdAt: now
+      })
+      .where(
+        and(
+          eq(idempotencyKeys.userId, request.userId),
+          eq(idempotencyKeys.endpoint, request.endpoint),
+          eq(idempotencyKeys.key, request.key),
+          or(
+            lt(idempotencyKeys.expiresAt, now),
+            and(
+              eq(idempotencyKeys.status, 'processing'),
+              eq(idempotencyKeys.requestHash, request.requestHash),
+              lt(idempotencyKeys.lockedUntil, now)
+            )
+          )
+        )
+      )
+      .returning({ id: idempotencyKeys.id });
+
+    if (takenOver) {
+      return { state: 'started', id: takenOver.id };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(
+        and(
+          eq(idempotencyKeys.userId, request.userId),
+          eq(idempotencyKeys.endpoint, request.endpoint),
+          eq(idempotencyKeys.key, request.key)
+        )
+      )
+      .limit(1);
+
+    // Released between the insert and the select: let the client retry
+    if (!existing) {
+      return { state: 'in_progress' };
+    }
+
+    if (existing.requestHash !== request.requestHash) {
+      return { state: 'mismatch' };
+    }
+
+    if (existing.status === 'completed' && existing.responseStatus !== null) {
+      return {
+        state: 'replay',
+        responseStatus: existing.responseStatus,
+        responseBody: existing.responseBody
+      };
+    }
+
+    return { state: 'in_progress' };
+  }
+
+  /**
+   * Store the response of a claimed key for replays
+   */
+  async complete(id: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({
+        status: 'completed',
+        responseStatus,
+        responseBody,
+        completedAt: new Date()
+      })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  /**
+   * Forget a claimed key whose request failed on our side, so a retry is processed again
+   */
+  async release(id: string): Promise<void> {
+    await db
+      .delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.id, id), eq(idempotencyKeys.status, 'processing')));
+  }
+
+  /**
+   * Remove expired keys. Returns the number removed.
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const deleted = await db
+      .delete(idempotencyKeys)
+      .where(lt(idempotencyKeys.expiresAt, now))
+      .returning({ id: idempotencyKeys.id });
+
+    if (deleted.length > 0) {
+      logger.info('Expired idempotency keys removed', {
+        service: 'attendance-service',
+        count: deleted.length
+      });
+    }
+
+    return deleted.length;
+  }
+}
@@ -0,0 +1,1069 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import bcrypt from 'bcryptjs';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { kioskDevices, kioskPins, kioskAuditLogs } from '../db/schema/kiosk';
+import { attendanceRecords } from '../db/schema/attendance';
+import { geofenceSettings } from '../db/schema/geofence';
+import { users, faceEncodingHistory } from '../db/schema/auth';
+import { logger } from '../utils/logger';
+import { AttendanceService } from './attendance.service';
+import { WorkLocationService, ClockInLocationCheck } from './workLocation.service';
+import { PhotoService, PhotoUpload } from './photo.service';
+import { ClockInMethodService } from './clockInMethod.service';
+import { FraudService, FraudAction } from './fraud.service';
+import { HolidayService } from './holiday.service';
+import { eq, and, or, gt, gte, lt, lte, desc, isNull, sql, SQL } from 'drizzle-orm';
+
+type KioskRow = typeof kioskDevices.$inferSelect;
+export type KioskDevice = Omit<KioskRow, 'secretHash'>;
+export type KioskAuditLog = typeof kioskAuditLogs.$inferSelect;
+export type KioskAuditEvent = KioskAuditLog['event'];
+export type KioskPunchMethod = NonNullable<KioskAuditLog['method']>;
+
+export interface RegisterKioskData {
+  name: string;
+  geofenceId: string;
+  pinFallbackEnabled?: boolean;
+}
+
+export interface UpdateKioskData {
+  name?: string;
+  geofenceId?: string;
+  pinFallbackEnabled?: boolean;
+  isActive?: boolean;
+}
+
+export interface KioskCredentials {
+  kiosk: KioskDevice;
+  kioskKey: string; // "<kioskId>.<secret>", sent as X-Kiosk-Key; only returned here
+}
+
+export interface KioskAuditLogFilters {
+  page: number;
+  limit: number;
+  event?: KioskAuditEvent;
+  userId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface KioskPunchResult {
+  action: 'clock_in' | 'clock_out';
+  attendanceId: string;
+  method: KioskPunchMethod;
+  similarity: number | null;
+  flagged: boolean;
+  time: Date;
+  employee: {
+    userId: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface KioskServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+interface KioskEmployee {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface AuditFields {
+  userId?: string;
+  method?: KioskPunchMethod;
+  attendanceId?: string;
+  similarity?: number;
+  reason?: string;
+  details?: Record<string, unknown>;
+  actorId?: string;
+  ipAddress?: string;
+}
+
+const MAX_CANDIDATES = 2000; // The AI service's limit per identification request
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Compared against when the employee has no PIN, so the response time doesn't tell which IDs do
+const DUMMY_PIN_HASH = bcrypt.hashSync('00000000', env.BCRYPT_ROUNDS);
+
+export class KioskService {
+  private readonly attendanceService = new AttendanceService();
+  private readonly workLocationService = new WorkLocationService();
+  private readonly photoService = new PhotoService();
+  private readonly clockInMethodService = new ClockInMethodService();
+  private readonly fraudService = new FraudService();
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Register a kiosk at one of the company's sites. The returned key is the kiosk's only credential.
+   */
+  async registerKiosk(companyId: string, data: RegisterKioskData, actorId: string, ipAddress?: string): Promise<KioskServiceResult<KioskCredentials>> {
+    try {
+      if (!(await this.siteExists(companyId, data.geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      const secret = crypto.randomBytes(32).toString('base64url');
+
+      const [kiosk] = await db
+        .insert(kioskDevices)
+        .values({
+          companyId,
+          geofenceId: data.geofenceId,
+          name: data.name,
+          secretHash: this.hashSecret(secret),
+          pinFallbackEnabled: data.pinFallbackEnabled ?? true,
+          createdBy: actorId
+        })
+        .returning();
+
+      await this.audit(kiosk!, 'kiosk_registered', {
+        actorId,
+        details: { name: data.name, geofenceId: data.geofenceId },
+        ...(ipAddress && { ipAddress })
+      });
+
+      logger.info('Kiosk registered', {
+        service: 'attendance-service',
+        companyId,
+        kioskId: kiosk!.id,
+        geofenceId: data.geofenceId,
+        createdBy: actorId
+      });
+
+      return {
+        success: true,
+        message: 'Kiosk registered. Store the kiosk key now, it is not shown again.',
+        data: {
+          kiosk: this.toKiosk(kiosk!),
+          kioskKey: `${kiosk!.id}.${secret}`
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to register kiosk:', error);
+      return {
+        success: false,
+        message: 'Failed to register kiosk',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * List the company's kiosks
+   */
+  async getKiosks(companyId: string): Promise<KioskServiceResult<KioskDevice[]>> {
+    try {
+      const kiosks = await db
+        .select()
+        .from(kioskDevices)
+        .where(eq(kioskDevices.companyId, companyId))
+        .orderBy(kioskDevices.name);
+
+      return {
+        success: true,
+        data: kiosks.map(kiosk => this.toKiosk(kiosk))
+      };
+
+    } catch (error) {
+      logger.error('Failed to get kiosks:', error);
+      return {
+        success: false,
+        message: 'Failed to get kiosks',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Rename, move, enable or disable a kiosk. A disabled kiosk's key stops working.
+   */
+  async updateKiosk(companyId: string, kioskId: string, data: UpdateKioskData, actorId: string, ipAddress?: string): Promise<KioskServiceResult<KioskDevice>> {
+    try {
+      if (data.geofenceId && !(await this.siteExists(companyId, data.geofenceId))) {
+        return {
+          success: false,
+          message: 'Site not found',
+          error: 'GEOFENCE_NOT_FOUND'
+        };
+      }
+
+      const [kiosk] = await db
+        .update(kioskDevices)
+        .set({
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.geofenceId !== undefined && { geofenceId: data.geofenceId }),
+          ...(data.pinFallbackEnabled !== undefined && { pinFallbackEnabled: data.pinFallbackEnabled }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          updatedAt: new Date()
+        })
+        .where(and(eq(kioskDevices.id, kioskId), eq(kioskDevices.companyId, companyId)))
+        .returning();
+
+      if (!kiosk) {
+        return {
+          success: false,
+          message: 'Kiosk not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      await this.audit(kiosk, 'kiosk_updated', {
+        actorId,
+        details: { ...data },
+        ...(ipAddress && { ipAddress })
+      });
+
+      return {
+        success: true,
+        message: 'Kiosk updated',
+        data: this.toKiosk(kiosk)
+      };
+
+    } catch (error) {
+      logger.error('Failed to update kiosk:', error);
+      return {
+        success: false,
+        message: 'Failed to update kiosk',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Issue a new kiosk key; the old one stops working immediately
+   */
+  async rotateSecret(companyId: string, kioskId: string, actorId: string, ipAddress?: string): Promise<KioskServiceResult<KioskCredentials>> {
+    try {
+      const secret = crypto.randomBytes(32).toString('base64url');
+
+      const [kiosk] = await db
+        .update(kioskDevices)
+        .set({
+          secretHash: this.hashSecret(secret),
+          updatedAt: new Date()
+        })
+        .where(and(eq(kioskDevices.id, kioskId), eq(kioskDevices.companyId, companyId)))
+        .returning();
+
+      if (!kiosk) {
+        return {
+          success: false,
+          message: 'Kiosk not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      await this.audit(kiosk, 'secret_rotated', {
+        actorId,
+        ...(ipAddress && { ipAddress })
+      });
+
+      logger.info('Kiosk key rotated', {
+        service: 'attendance-service',
+        companyId,
+        kioskId,
+        rotatedBy: actorId
+      });
+
+      return {
+        success: true,
+        message: 'Kiosk key rotated. Store the new key now, it is not shown again.',
+        data: {
+          kiosk: this.toKiosk(kiosk),
+          kioskKey: `${kiosk.id}.${secret}`
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to rotate kiosk key:', error);
+      return {
+        success: false,
+        message: 'Failed to rotate kiosk key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Resolve a kiosk key to an active kiosk, or null
+   */
+  async authenticate(kioskKey: string): Promise<KioskDevice | null> {
+    const [kioskId, secret] = kioskKey.split('.');
+    if (!kioskId || !secret || !/^[0-9a-f-]{36}$/i.test(kioskId)) {
+      return null;
+    }
+
+    const [kiosk] = await db
+      .select()
+      .from(kioskDevices)
+      .where(and(eq(kioskDevices.id, kioskId), eq(kioskDevices.isActive, true)))
+      .limit(1);
+
+    if (!kiosk) {
+      return null;
+    }
+
+    const expected = Buffer.from(kiosk.secretHash, 'hex');
+    const given = Buffer.from(this.hashSecret(secret), 'hex');
+    if (!crypto.timingSafeEqual(expected, given)) {
+      return null;
+    }
+
+    await db
+      .update(kioskDevices)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(kioskDevices.id, kiosk.id));
+
+    return this.toKiosk(kiosk);
+  }
+
+  /**
+   * Get a kiosk's audit log, newest first
+   */
+  async getAuditLogs(companyId: string, kioskId: string, filters: KioskAuditLogFilters): Promise<KioskServiceResult<KioskAuditLog[]>> {
+    try {
+      const conditions: SQL[] = [
+        eq(kioskAuditLogs.companyId, companyId),
+        eq(kioskAuditLogs.kioskId, kioskId)
+      ];
+
+      if (filters.event) {
+        conditions.push(eq(kioskAuditLogs.event, filters.event));
+      }
+
+      if (filters.userId) {
+        conditions.push(eq(kioskAuditLogs.userId, filters.userId));
+      }
+
+      if (filters.startDate) {
+        conditions.push(gte(kioskAuditLogs.createdAt, filters.startDate));
+      }
+
+      if (filters.endDate) {
+        conditions.push(lte(kioskAuditLogs.createdAt, filters.endDate));
+      }
+
+      const offset = (filters.page - 1) * filters.limit;
+
+      const logs = await db
+        .select()
+        .from(kioskAuditLogs)
+        .where(and(...conditions))
+        .orderBy(desc(kioskAuditLogs.createdAt))
+        .limit(filters.limit)
+        .offset(offset);
+
+      const [countRow] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(kioskAuditLogs)
+        .where(and(...conditions));
+
+      const total = countRow?.count ?? 0;
+
+      return {
+        success: true,
+        data: logs,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get kiosk audit logs:', error);
+      return {
+        success: false,
+        message: 'Failed to get kiosk audit logs',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Set or change the employee's kiosk PIN
+   */
+  async setPin(companyId: string, userId: string, pin: string): Promise<KioskServiceResult<{ updatedAt: Date }>> {
+    try {
+      if (!PIN_PATTERN.test(pin)) {
+        return {
+          success: false,
+          message: 'PIN must be 4 to 8 digits',
+          error: 'VALIDATION_ERROR'
+        };
+      }
+
+      const pinHash = await bcrypt.hash(pin, env.BCRYPT_ROUNDS);
+      const now = new Date();
+
+      await db
+        .insert(kioskPins)
+        .values({ companyId, userId, pinHash })
+        .onConflictDoUpdate({
+          target: kioskPins.userId,
+          set: {
+            companyId: sql`excluded.company_id`,
+            pinHash: sql`excluded.pin_hash`,
+            failedAttempts: 0,
+            lockedUntil: null,
+            updatedAt: now
+          }
+        });
+
+      logger.info('Kiosk PIN set', {
+        service: 'attendance-service',
+        companyId,
+        userId
+      });
+
+      return {
+        success: true,
+        message: 'Kiosk PIN set',
+        data: { updatedAt: now }
+      };
+
+    } catch (error) {
+      logger.error('Failed to set kiosk PIN:', error);
+      return {
+        success: false,
+        message: 'Failed to set kiosk PIN',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Remove an employee's kiosk PIN (also clears a lockout); they can set a new one
+   */
+  async clearPin(companyId: string, userId: string): Promise<KioskServiceResult<null>> {
+    try {
+      const deleted = await db
+        .delete(kioskPins)
+        .where(and(eq(kioskPins.companyId, companyId), eq(kioskPins.userId, userId)))
+        .returning({ id: kioskPins.id });
+
+      if (deleted.length === 0) {
+        return {
+          success: false,
+          message: 'No kiosk PIN set for this employee',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Kiosk PIN removed',
+        data: null
+      };
+
+    } catch (error) {
+      logger.error('Failed to clear kiosk PIN:', error);
+      return {
+        success: false,
+        message: 'Failed to clear kiosk PIN',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Identify the employee in the photo among the company's active face encodings (1:N),
+   * then clock them in, or out when they are clocked in
+   */
+  async punchByFace(kiosk: KioskDevice, photo: PhotoUpload, ipAddress?: string): Promise<KioskServiceResult<KioskPunchResult>> {
+    try {
+      const candidates = await this.loadCandidates(kiosk.companyId);
+
+      let identification;
+      try {
+        const response = await axios.post(`${env.AI_SERVICE_URL}/api/ai/identify-face`, {
+          image: `data:${photo.mimetype};base64,${photo.buffer.toString('base64')}`,
+          candidates,
+          companyId: kiosk.companyId,
+          metadata: {
+            kioskId: kiosk.id,
+            timestamp: new Date().toISOString()
+          }
+        });
+        identification = response.data.data;
+      } catch (error) {
+        logger.error('AI service communication error during kiosk identification:', error);
+        return {
+          success: false,
+          message: 'Face identification is unavailable. Use your PIN.',
+          error: 'FACE_CHECK_UNAVAILABLE'
+        };
+      }
+
+      if (!identification?.match) {
+        await this.audit(kiosk, 'face_not_identified', {
+          reason: identification?.ambiguous ? 'AMBIGUOUS_MATCH' : 'NO_MATCH',
+          details: { candidatesSearched: identification?.candidatesSearched ?? candidates.length },
+          ...(typeof identification?.bestSimilarity === 'number' && { similarity: identification.bestSimilarity }),
+          ...(ipAddress && { ipAddress })
+        });
+
+        return {
+          success: false,
+          message: kiosk.pinFallbackEnabled ? 'Face not recognized. Try again or use your PIN.' : 'Face not recognized. Try again.',
+          error: 'FACE_NOT_IDENTIFIED'
+        };
+      }
+
+      const employee = await this.getEmployee(kiosk.companyId, eq(users.id, identification.match.userId));
+      if (!employee) {
+        return {
+          success: false,
+          message: 'Face not recognized. Try again.',
+          error: 'FACE_NOT_IDENTIFIED'
+        };
+      }
+
+      return await this.togglePunch(kiosk, employee, 'face', identification.match.similarity, photo, ipAddress, {
+        candidatesSearched: identification.candidatesSearched,
+        runnerUpSimilarity: identification.runnerUp?.similarity ?? null
+      });
+
+    } catch (error) {
+      logger.error('Failed to process kiosk face punch:', error);
+      return {
+        success: false,
+        message: 'Failed to process punch',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Clock in or out with employee ID and PIN. The photo is still stored as evidence,
+   * and the punch is flagged for review since no face was matched.
+   */
+  async punchByPin(kiosk: KioskDevice, employeeId: string, pin: string, photo: PhotoUpload, ipAddress?: string): Promise<KioskServiceResult<KioskPunchResult>> {
+    try {
+      if (!kiosk.pinFallbackEnabled) {
+        return {
+          success: false,
+          message: 'PIN punches are disabled on this kiosk',
+          error: 'PIN_FALLBACK_DISABLED'
+        };
+      }
+
+      const employee = await this.getEmployee(kiosk.companyId, eq(users.employeeId, employeeId));
+      const [pinRow] = employee
+        ? await db.select().from(kioskPins).where(eq(kioskPins.userId, employee.userId)).limit(1)
+        : [];
+
+      // Same answer for unknown employees and wrong PINs, so IDs can't be probed
+      if (!employee || !pinRow) {
+        await bcrypt.compare(pin, DUMMY_PIN_HASH);
+        await this.audit(kiosk, 'pin_failed', {
+          method: 'pin',
+          reason: 'INVALID_PIN',
+          details: { employeeId },
+          ...(employee && { userId: employee.userId }),
+          ...(ipAddress && { ipAddress })
+        });
+        return this.invalidPin();
+      }
+
+      // Count the attempt before checking the PIN, atomically, so parallel guesses can't all get in under the limit
+      const now = new Date();
+      const [attempt] = await db
+        .update(kioskPins)
+        .set({ failedAttempts: sql`${kioskPins.failedAttempts} + 1`, updatedAt: now })
+        .where(
+          and(
+            eq(kioskPins.id, pinRow.id),
+            or(isNull(kioskPins.lockedUntil), lte(kioskPins.lockedUntil, now)),
+            lt(kioskPins.failedAttempts, env.KIOSK_PIN_MAX_ATTEMPTS)
+          )
+        )
+        .returning({ failedAttempts: kioskPins.failedAttempts });
+
+      if (!attempt) {
+        return {
+          success: false,
+          message: 'Too many wrong PINs. Try again later or ask an administrator.',
+          error: 'PIN_LOCKED'
+        };
+      }
+
+      if (!(await bcrypt.compare(pin, pinRow.pinHash))) {
+        const { failedAttempts } = attempt;
+        const locked = failedAttempts >= env.KIOSK_PIN_MAX_ATTEMPTS;
+
+        if (locked) {
+          await db
+            .update(kioskPins)
+            .set({
+              failedAttempts: 0,
+              lockedUntil: new Date(now.getTime() + env.KIOSK_PIN_LOCK_MINUTES * 60 * 1000),
+              updatedAt: now
+            })
+            .where(eq(kioskPins.id, pinRow.id));
+        }
+
+        await this.audit(kiosk, locked ? 'pin_locked' : 'pin_failed', {
+          userId: employee.userId,
+          method: 'pin',
+          reason: 'INVALID_PIN',
+          details: { failedAttempts },
+          ...(ipAddress && { ipAddress })
+        });
+        return this.invalidPin();
+      }
+
+      await db
+        .update(kioskPins)
+        .set({ failedAttempts: 0, lockedUntil: null, updatedAt: now })
+        .where(eq(kioskPins.id, pinRow.id));
+
+      return await this.togglePunch(kiosk, employee, 'pin', null, photo, ipAddress, {});
+
+    } catch (error) {
+      logger.error('Failed to process kiosk PIN punch:', error);
+      return {
+        success: false,
+        message: 'Failed to process punch',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Clock the identified employee out if they have an open record, otherwise in
+   */
+  private async togglePunch(
+    kiosk: KioskDevice,
+    employee: KioskEmployee,
+    method: KioskPunchMethod,
+    similarity: number | null,
+    photo: PhotoUpload,
+    ipAddress: string | undefined,
+    details: Record<string, unknown>
+  ): Promise<KioskServiceResult<KioskPunchResult>> {
+    const now = new Date();
+    const { userId } = employee;
+
+    // Looking at the camera twice would otherwise clock straight back out
+    const [latest] = await db
+      .select({
+        clockInTime: attendanceRecords.clockInTime,
+        clockOutTime: attendanceRecords.clockOutTime
+      })
+      .from(attendanceRecords)
+      .where(eq(attendanceRecords.userId, userId))
+      .orderBy(desc(attendanceRecords.clockInTime))
+      .limit(1);
+
+    const lastPunchAt = latest ? (latest.clockOutTime ?? latest.clockInTime) : null;
+    if (lastPunchAt && now.getTime() - lastPunchAt.getTime() < env.KIOSK_TOGGLE_COOLDOWN_SECONDS * 1000) {
+      return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, 'RECENT_PUNCH',
+        latest!.clockOutTime ? 'Already clocked out' : 'Already clocked in');
+    }
+
+    const openRecord = await this.attendanceService.getOpenAttendanceRecord(userId);
+    const action = openRecord ? 'clock_out' : 'clock_in';
+
+    // The site's clock-in methods apply to a face clock-in at the kiosk like anywhere else. PIN isn't one of
+    // those methods: the kiosk's own PIN fallback setting allows it, and PIN punches are always flagged.
+    if (!openRecord && method === 'face') {
+      const allowedMethods = await this.clockInMethodService.getAllowedMethods(kiosk.companyId, kiosk.geofenceId);
+      if (!allowedMethods.includes('face')) {
+        return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, 'METHOD_NOT_ALLOWED', 'Face clock-in is not allowed at this site');
+      }
+    }
+    const flagged = method === 'pin';
+    const kioskMetadata = {
+      kioskId: kiosk.id,
+      kioskName: kiosk.name,
+      geofenceId: kiosk.geofenceId,
+      method,
+      similarity,
+      ...details
+    };
+
+    let photoKey: string;
+    try {
+      photoKey = await this.photoService.storeAttendancePhoto(kiosk.companyId, userId, openRecord ? 'clock-out' : 'clock-in', photo, now);
+    } catch (error) {
+      logger.error('Failed to store kiosk photo:', error);
+      return {
+        success: false,
+        message: 'Failed to store photo',
+        error: 'PHOTO_STORAGE_ERROR'
+      };
+    }
+
+    let attendanceId: string;
+    let recordFlagged = flagged;
+
+    if (openRecord) {
+      const result = await this.attendanceService.updateAttendanceClockOut(openRecord.id, {
+        clockOutTime: now,
+        clockOutPhotoKey: photoKey,
+        ...(similarity !== null && { faceSimilarityClockOut: similarity }),
+        flagged,
+        verificationMetadataClockOut: { method, kiosk: kioskMetadata }
+      });
+
+      if (!result.success) {
+        await this.photoService.deletePhoto(photoKey);
+        return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, result.error ?? 'UPDATE_FAILED', result.message ?? 'Clock-out failed');
+      }
+
+      attendanceId = openRecord.id;
+    } else {
+      const site = await this.getSiteLocation(kiosk.geofenceId);
+      const locationCheck = await this.workLocationService.verifyClockIn(kiosk.companyId, userId, 'onsite', site ?? undefined, now);
+
+      // E.g. the employee isn't assigned to this kiosk's site
+      if (locationCheck.action === 'reject') {
+        await this.photoService.deletePhoto(photoKey);
+        return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, locationCheck.reason ?? 'LOCATION_REJECTED',
+          locationCheck.message ?? 'Clock-in is not allowed at this site');
+      }
+
+      recordFlagged = flagged || locationCheck.action === 'flag';
+
+      const result = await this.attendanceService.createAttendanceRecord({
+        userId,
+        companyId: kiosk.companyId,
+        clockInTime: now,
+        workMode: 'onsite',
+        ...(site && { location: site }),
+        deviceInfo: `kiosk:${kiosk.id}`,
+        ...(ipAddress && { ipAddress }),
+        photoKey,
+        ...(similarity !== null && { faceSimilarity: similarity }),
+        geofenceId: kiosk.geofenceId,
+        ...(locationCheck.zone && { geofenceZone: locationCheck.zone }),
+        ...(locationCheck.distanceMeters !== null && { geofenceDistanceMeters: locationCheck.distanceMeters }),
+        locationType: 'site',
+        expectedWorkMode: locationCheck.expectedWorkMode,
+        ...(locationCheck.workModeScheduleId && { workModeScheduleId: locationCheck.workModeScheduleId }),
+        workModeMismatch: locationCheck.workModeMismatch,
+        flagged: recordFlagged,
+        verificationMetadata: {
+          method,
+          kiosk: kioskMetadata,
+          ...(locationCheck.action === 'flag' && { locationFlag: locationCheck.reason })
+        }
+      });
+
+      if (!result.success || !result.data) {
+        await this.photoService.deletePhoto(photoKey);
+        return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, result.error ?? 'CREATE_FAILED', result.message ?? 'Clock-in failed');
+      }
+
+      attendanceId = result.data.id;
+
+      const fraudAction = await this.analyzeFraud(kiosk, employee, attendanceId, method, similarity, site, now, ipAddress, locationCheck, !!result.data.scheduledStart);
+      if (fraudAction === 'block') {
+        logger.warn('Kiosk clock-in blocked by fraud prevention', {
+          service: 'attendance-service',
+          companyId: kiosk.companyId,
+          kioskId: kiosk.id,
+          userId,
+          attendanceId
+        });
+        return this.rejectPunch(kiosk, employee, method, similarity, ipAddress, 'CLOCK_IN_BLOCKED',
+          'Clock-in blocked for security review. Please contact your administrator.');
+      }
+
+      recordFlagged = recordFlagged || fraudAction === 'flag';
+    }
+
+    await this.audit(kiosk, action, {
+      userId,
+      method,
+      attendanceId,
+      ...(similarity !== null && { similarity }),
+      ...(recordFlagged && { details: { flagged: true } }),
+      ...(ipAddress && { ipAddress })
+    });
+
+    logger.info('Kiosk punch recorded', {
+      service: 'attendance-service',
+      companyId: kiosk.companyId,
+      kioskId: kiosk.id,
+      userId,
+      attendanceId,
+      action,
+      method
+    });
+
+    return {
+      success: true,
+      message: action === 'clock_in' ? `Welcome, ${employee.firstName}. Clocked in.` : `Goodbye, ${employee.firstName}. Clocked out.`,
+      data: {
+        action,
+        attendanceId,
+        method,
+        similarity,
+        flagged: recordFlagged,
+        time: now,
+        employee
+      }
+    };
+  }
+
+  /**
+   * Run the clock-in fraud analysis and store it, as for a clock-in from the app. Fails open when the AI service is down.
+   */
+  private async analyzeFraud(
+    kiosk: KioskDevice,
+    employee: KioskEmployee,
+    attendanceId: string,
+    method: KioskPunchMethod,
+    similarity: number | null,
+    site: { latitude: number; longitude: number } | null,
+    clockInTime: Date,
+    ipAddress: string | undefined,
+    locationCheck: ClockInLocationCheck,
+    hasScheduledShift: boolean
+  ): Promise<FraudAction> {
+    try {
+      const siteId = await this.holidayService.getEmployeeSiteId(kiosk.companyId, employee.userId, kiosk.geofenceId);
+      const dayContext = await this.holidayService.getDayContext(kiosk.companyId, clockInTime, siteId);
+
+      const fraudAnalysisResponse = await axios.post(`${env.AI_SERVICE_URL}/api/ai/analyze-fraud`, {
+        userId: employee.userId,
+        companyId: kiosk.companyId,
+        attendanceId,
+        clockInTime: clockInTime.toISOString(),
+        location: site ?? undefined,
+        deviceInfo: `kiosk:${kiosk.id}`,
+        ipAddress,
+        workMode: 'onsite',
+        expectedLocation: locationCheck.locationName ?? undefined,
+        verificationMethod: method,
+        ...(similarity !== null && { faceSimilarity: similarity }),
+        locationVerification: {
+          locationType: locationCheck.locationType,
+          zone: locationCheck.zone,
+          distanceMeters: locationCheck.distanceMeters,
+          expectedWorkMode: locationCheck.expectedWorkMode,
+          workModeMismatch: locationCheck.workModeMismatch
+        },
+        scheduleContext: {
+          ...dayContext,
+          hasScheduledShift
+        },
+        metadata: {
+          requestSource: 'attendance-service',
+          operation: 'kiosk-clock-in-fraud-analysis',
+          kioskId: kiosk.id
+        }
+      });
+
+      if (!fraudAnalysisResponse.data.success) {
+        return 'allow';
+      }
+
+      const fraudData = fraudAnalysisResponse.data.data;
+      const assessment = await this.fraudService.recordAssessment(kiosk.companyId, attendanceId, {
+        riskScore: fraudData.riskScore,
+        riskLevel: fraudData.riskLevel,
+        isFraudulent: fraudData.isFraudulent,
+        detectionResults: fraudData.metadata.detectionResults,
+        flags: fraudData.metadata.flags,
+        evidence: fraudData.metadata.evidence,
+        ...(similarity !== null && { faceSimilarity: similarity })
+      });
+      const action: FraudAction = assessment.data?.action
+        ?? (this.fraudService.getRiskLevel(fraudData.riskScore) === 'LOW' ? 'allow' : 'flag');
+
+      await this.attendanceService.updateAttendanceFraudAnalysis(attendanceId, {
+        overallRiskScore: fraudData.riskScore,
+        fraudAction: action,
+        fraudDetectionResults: {
+          riskScore: fraudData.riskScore,
+          riskLevel: fraudData.riskLevel,
+          isFraudulent: fraudData.isFraudulent,
+          detectionResults: fraudData.metadata.detectionResults,
+          flags: fraudData.metadata.flags,
+          evidence: fraudData.metadata.evidence,
+          action
+        }
+      });
+
+      return action;
+
+    } catch (error) {
+      logger.error('Fraud analysis failed during kiosk clock-in:', error);
+      return 'allow';
+    }
+  }
+
+  private async rejectPunch(
+    kiosk: KioskDevice,
+    employee: KioskEmployee,
+    method: KioskPunchMethod,
+    similarity: number | null,
+    ipAddress: string | undefined,
+    reason: string,
+    message: string
+  ): Promise<KioskServiceResult<never>> {
+    await this.audit(kiosk, 'punch_rejected', {
+      userId: employee.userId,
+      method,
+      reason,
+      ...(similarity !== null && { similarity }),
+      ...(ipAddress && { ipAddress })
+    });
+
+    return {
+      success: false,
+      message,
+      error: reason
+    };
+  }
+
+  /**
+   * Active face encodings of the company's active employees
+   */
+  private async loadCandidates(companyId: string): Promise<{ userId: string; encoding: number[] }[]> {
+    const now = new Date();
+
+    const rows = await db
+      .select({
+        userId: faceEncodingHistory.userId,
+        encodingData: faceEncodingHistory.encodingData
+      })
+      .from(faceEncodingHistory)
+      .innerJoin(users, eq(faceEncodingHistory.userId, users.id))
+      .where(
+        and(
+          eq(users.companyId, companyId),
+          eq(users.isActive, true),
+          eq(faceEncodingHistory.isActive, true),
+          or(isNull(faceEncodingHistory.expiresAt), gt(faceEncodingHistory.expiresAt, now))
+        )
+      )
+      .orderBy(desc(faceEncodingHistory.createdAt))
+      .limit(MAX_CANDIDATES + 1);
+
+    if (rows.length > MAX_CANDIDATES) {
+      logger.warn('Too many face encodings for kiosk identification, searching the newest only', {
+        service: 'attendance-service',
+        companyId,
+        limit: MAX_CANDIDATES
+      });
+    }
+
+    return rows
+      .slice(0, MAX_CANDIDATES)
+      .map(row => ({ userId: row.userId, encoding: this.parseEncoding(row.encodingData) }))
+      .filter((candidate): candidate is { userId: string; encoding: number[] } => candidate.encoding !== null);
+  }
+
+  /**
+   * Encodings are stored as text: a JSON array, or a Postgres array literal
+   */
+  private parseEncoding(value: string): number[] | null {
+    const numbers = value.trim().replace(/^[[{]|[\]}]$/g, '').split(',').map(Number);
+    return numbers.length > 1 && numbers.every(Number.isFinite) ? numbers : null;
+  }
+
+  private async getEmployee(companyId: string, match: SQL): Promise<KioskEmployee | null> {
+    const [employee] = await db
+      .select({
+        userId: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName
+      })
+      .from(users)
+      .where(and(match, eq(users.companyId, companyId), eq(users.isActive, true)))
+      .limit(1);
+
+    return employee ?? null;
+  }
+
+  private async getSiteLocation(geofenceId: string): Promise<{ latitude: number; longitude: number } | null> {
+    const [site] = await db
+      .select({
+        latitude: geofenceSettings.latitude,
+        longitude: geofenceSettings.longitude
+      })
+      .from(geofenceSettings)
+      .where(eq(geofenceSettings.id, geofenceId))
+      .limit(1);
+
+    return site ? { latitude: Number(site.latitude), longitude: Number(site.longitude) } : null;
+  }
+
+  private async siteExists(companyId: string, geofenceId: string): Promise<boolean> {
+    const [site] = await db
+      .select({ id: geofenceSettings.id })
+      .from(geofenceSettings)
+      .where(
+        and(
+          eq(geofenceSettings.id, geofenceId),
+          eq(geofenceSettings.companyId, companyId),
+          eq(geofenceSettings.isActive, true)
+        )
+      )
+      .limit(1);
+
+    return !!site;
+  }
+
+  private async audit(kiosk: Pick<KioskRow, 'id' | 'companyId'>, event: KioskAuditEvent, fields: AuditFields): Promise<void> {
+    try {
+      await db.insert(kioskAuditLogs).values({
+        kioskId: kiosk.id,
+        companyId: kiosk.companyId,
+        event,
+        userId: fields.userId ?? null,
+        method: fields.method ?? null,
+        attendanceId: fields.attendanceId ?? null,
+        similarity: fields.similarity !== undefined ? fields.similarity.toFixed(4) : null,
+        reason: fields.reason ?? null,
+        details: fields.details ?? null,
+        actorId: fields.actorId ?? null,
+        ipAddress: fields.ipAddress ?? null
+      });
+    } catch (error) {
+      // The punch itself already happened; don't turn it into an error
+      logger.error('Failed to write kiosk audit log:', error);
+    }
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private toKiosk(row: KioskRow): KioskDevice {
+    const { secretHash: _secretHash, ...kiosk } = row;
+    return kiosk;
+  }
+
+  private invalidPin(): KioskServiceResult<never> {
+    return {
+      success: false,
+      message: 'Employee ID or PIN is incorrect',
+      error: 'INVALID_PIN'
+    };
+  }
+}
@@ -0,0 +1,1359 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { companySettings, users } from '../db/schema/auth';
+import { leaveTypes, leaveBalances, leaveRequests } from '../db/schema/leave';
+import { payPeriods, timesheets } from '../db/schema/timesheet';
+import { logger } from '../utils/logger';
+import { PolicyService } from './policy.service';
+import { ShiftService } from './shift.service';
+import { HolidayService } from './holiday.service';
+import {
+  calculateWorkHours,
+  getLocalDateString,
+  getIsoWeekday,
+  addDaysToDateString,
+  zonedTimeToUtc
+} from '../utils/helpers';
+import { eq, and, asc, desc, gte, lt, lte, ne, inArray, isNotNull, sql } from 'drizzle-orm';
+
+export type LeaveType = typeof leaveTypes.$inferSelect;
+export type LeaveBalance = typeof leaveBalances.$inferSelect;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+
+export interface LeaveTypeData {
+  code: string;
+  name: string;
+  description?: string;
+  color?: string | null;
+  isPaid?: boolean;
+  approvalLevels?: number;
+  allowNegativeBalance?: boolean;
+  accrualMethod?: LeaveType['accrualMethod'];
+  accrualMinutes?: number;
+  accrualPerWorkedMinutes?: number | null;
+  maxBalanceMinutes?: number | null;
+  carryOverCapMinutes?: number | null;
+  isActive?: boolean;
+}
+
+export interface LeaveRequestData {
+  leaveTypeId: string;
+  startDate: string;
+  endDate: string;
+  halfDay?: boolean;
+  reason?: string;
+}
+
+export interface LeaveBalanceAdjustmentData {
+  userId: string;
+  leaveTypeId: string;
+  year: number;
+  minutes: number;
+  reason: string;
+}
+
+export interface LeaveRequestFilters {
+  userId?: string;
+  leaveTypeId?: string;
+  status?: LeaveRequest['status'];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface LeaveDay {
+  date: string;
+  minutes: number;
+}
+
+export interface LeaveApproval {
+  level: number;
+  approvedBy: string;
+  approvedAt: string;
+  notes: string | null;
+}
+
+export interface LeaveBalanceSummary extends LeaveBalance {
+  leaveTypeCode: string;
+  leaveTypeName: string;
+  isPaid: boolean;
+  availableMinutes: number;
+  pendingMinutes: number;
+}
+
+export interface ApprovedLeaveDay extends LeaveDay {
+  requestId: string;
+  userId: string;
+  leaveTypeId: string;
+  isPaid: boolean;
+}
+
+export interface LeaveCalendarEntry {
+  requestId: string;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  leaveTypeId: string;
+  leaveTypeName: string;
+  color: string | null;
+  status: LeaveRequest['status'];
+  startDate: string;
+  endDate: string;
+  halfDay: boolean;
+  totalMinutes: number;
+}
+
+export interface LeaveServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export class LeaveService {
+  private readonly policyService = new PolicyService();
+  private readonly shiftService = new ShiftService();
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Create a leave type
+   */
+  async createLeaveType(companyId: string, data: LeaveTypeData): Promise<LeaveServiceResult<LeaveType>> {
+    try {
+      if (await this.isDuplicateCode(companyId, data.code)) {
+        return {
+          success: false,
+          message: `A leave type with code ${data.code} already exists`,
+          error: 'DUPLICATE_CODE'
+        };
+      }
+
+      const [leaveType] = await db.insert(leaveTypes).values({
+        ...data,
+        companyId
+      }).returning();
+
+      if (!leaveType) {
+        return {
+          success: false,
+          message: 'Failed to create leave type',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Leave type created', {
+        service: 'attendance-service',
+        companyId,
+        leaveTypeId: leaveType.id,
+        code: leaveType.code
+      });
+
+      return {
+        success: true,
+        message: 'Leave type created successfully',
+        data: leaveType
+      };
+
+    } catch (error) {
+      logger.error('Failed to create leave type:', error);
+      return {
+        success: false,
+        message: 'Failed to create leave type',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get leave types for a company
+   */
+  async getLeaveTypes(companyId: string, includeInactive: boolean = false): Promise<LeaveServiceResult<LeaveType[]>> {
+    try {
+      const whereConditions = [eq(leaveTypes.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(leaveTypes.isActive, true));
+      }
+
+      const types = await db
+        .select()
+        .from(leaveTypes)
+        .where(and(...whereConditions))
+        .orderBy(asc(leaveTypes.name));
+
+      return {
+        success: true,
+        data: types
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave types:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave types',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single leave type
+   */
+  async getLeaveType(companyId: string, leaveTypeId: string): Promise<LeaveServiceResult<LeaveType>> {
+    try {
+      const [leaveType] = await db
+        .select()
+        .from(leaveTypes)
+        .where(
+          and(
+            eq(leaveTypes.id, leaveTypeId),
+            eq(leaveTypes.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!leaveType) {
+        return {
+          success: false,
+          message: 'Leave type not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: leaveType
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave type:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave type',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a leave type. Requests already submitted keep the approval levels they were created with.
+   */
+  async updateLeaveType(
+    companyId: string,
+    leaveTypeId: string,
+    data: Partial<LeaveTypeData>
+  ): Promise<LeaveServiceResult<LeaveType>> {
+    try {
+      if (data.code && await this.isDuplicateCode(companyId, data.code, leaveTypeId)) {
+        return {
+          success: false,
+          message: `A leave type with code ${data.code} already exists`,
+          error: 'DUPLICATE_CODE'
+        };
+      }
+
+      const [leaveType] = await db
+        .update(leaveTypes)
+        .set({
+          ...data,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(leaveTypes.id, leaveTypeId),
+            eq(leaveTypes.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!leaveType) {
+        return {
+          success: false,
+          message: 'Leave type not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Leave type updated', {
+        service: 'attendance-service',
+        companyId,
+        leaveTypeId
+      });
+
+      return {
+        success: true,
+        message: 'Leave type updated successfully',
+        data: leaveType
+      };
+
+    } catch (error) {
+      logger.error('Failed to update leave type:', error);
+      return {
+        success: false,
+        message: 'Failed to update leave type',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a leave type (balances and past requests are kept)
+   */
+  async deleteLeaveType(companyId: string, leaveTypeId: string): Promise<LeaveServiceResult<LeaveType>> {
+    try {
+      const [leaveType] = await db
+        .update(leaveTypes)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(leaveTypes.id, leaveTypeId),
+            eq(leaveTypes.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!leaveType) {
+        return {
+          success: false,
+          message: 'Leave type not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Leave type deactivated', {
+        service: 'attendance-service',
+        companyId,
+        leaveTypeId
+      });
+
+      return {
+        success: true,
+        message: 'Leave type deactivated successfully',
+        data: leaveType
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete leave type:', error);
+      return {
+        success: false,
+        message: 'Failed to delete leave type',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get an employee's balances for every active leave type, bringing accruals up to date
+   */
+  async getBalances(companyId: string, userId: string, year?: number): Promise<LeaveServiceResult<LeaveBalanceSummary[]>> {
+    try {
+      const balanceYear = year ?? await this.getCurrentYear(companyId);
+
+      const types = await db
+        .select()
+        .from(leaveTypes)
+        .where(
+          and(
+            eq(leaveTypes.companyId, companyId),
+            eq(leaveTypes.isActive, true)
+          )
+        )
+        .orderBy(asc(leaveTypes.name));
+
+      const balances: LeaveBalanceSummary[] = [];
+
+      for (const leaveType of types) {
+        const balance = await this.refreshBalance(companyId, userId, leaveType, balanceYear);
+
+        balances.push({
+          ...balance,
+          leaveTypeCode: leaveType.code,
+          leaveTypeName: leaveType.name,
+          isPaid: leaveType.isPaid,
+          availableMinutes: this.getAvailableMinutes(balance),
+          pendingMinutes: await this.getPendingMinutes(userId, leaveType.id, balanceYear)
+        });
+      }
+
+      return {
+        success: true,
+        data: balances
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave balances:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave balances',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Manually add or remove balance minutes for an employee
+   */
+  async adjustBalance(
+    companyId: string,
+    data: LeaveBalanceAdjustmentData,
+    adjustedBy: string
+  ): Promise<LeaveServiceResult<LeaveBalance>> {
+    try {
+      const typeResult = await this.getLeaveType(companyId, data.leaveTypeId);
+      if (!typeResult.success || !typeResult.data) {
+        return {
+          success: false,
+          message: typeResult.message || 'Leave type not found',
+          error: typeResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const [employee] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(
+          and(
+            eq(users.id, data.userId),
+            eq(users.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!employee) {
+        return {
+          success: false,
+          message: 'Employee not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      await this.refreshBalance(companyId, data.userId, typeResult.data, data.year);
+
+      const [balance] = await db
+        .update(leaveBalances)
+        .set({
+          adjustmentMinutes: sql`${leaveBalances.adjustmentMinutes} + ${data.minutes}`,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(leaveBalances.userId, data.userId),
+            eq(leaveBalances.leaveTypeId, data.leaveTypeId),
+            eq(leaveBalances.year, data.year)
+          )
+        )
+        .returning();
+
+      if (!balance) {
+        return {
+          success: false,
+          message: 'Failed to adjust leave balance',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Leave balance adjusted', {
+        service: 'attendance-service',
+        companyId,
+        userId: data.userId,
+        leaveTypeId: data.leaveTypeId,
+        year: data.year,
+        minutes: data.minutes,
+        reason: data.reason,
+        adjustedBy
+      });
+
+      return {
+        success: true,
+        message: 'Leave balance adjusted successfully',
+        data: balance
+      };
+
+    } catch (error) {
+      logger.error('Failed to adjust leave balance:', error);
+      return {
+        success: false,
+        message: 'Failed to adjust leave balance',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Request time off. The requested minutes are one standard work day per company work day in range, excluding holidays.
+   */
+  async createRequest(companyId: string, userId: string, data: LeaveRequestData): Promise<LeaveServiceResult<LeaveRequest>> {
+    try {
+      const typeResult = await this.getLeaveType(companyId, data.leaveTypeId);
+      if (!typeResult.success || !typeResult.data) {
+        return {
+          success: false,
+          message: typeResult.message || 'Leave type not found',
+          error: typeResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const leaveType = typeResult.data;
+
+      if (!leaveType.isActive) {
+        return {
+          success: false,
+          message: 'Leave type is no longer active',
+          error: 'INACTIVE_LEAVE_TYPE'
+        };
+      }
+
+      if (data.startDate.slice(0, 4) !== data.endDate.slice(0, 4)) {
+        return {
+          success: false,
+          message: 'Leave requests cannot span two calendar years; submit one request per year',
+          error: 'CROSSES_YEAR'
+        };
+      }
+
+      const halfDay = data.halfDay ?? false;
+      if (halfDay && data.startDate !== data.endDate) {
+        return {
+          success: false,
+          message: 'Half-day leave must start and end on the same date',
+          error: 'VALIDATION_ERROR'
+        };
+      }
+
+      const days = await this.getRequestDays(companyId, userId, data.startDate, data.endDate, halfDay);
+      if (days.length === 0) {
+        return {
+          success: false,
+          message: 'The requested dates contain no work days',
+          error: 'NO_WORK_DAYS'
+        };
+      }
+
+      const [overlapping] = await db
+        .select({ id: leaveRequests.id })
+        .from(leaveRequests)
+        .where(
+          and(
+            eq(leaveRequests.userId, userId),
+            inArray(leaveRequests.status, ['pending', 'approved']),
+            lte(leaveRequests.startDate, data.endDate),
+            gte(leaveRequests.endDate, data.startDate)
+          )
+        )
+        .limit(1);
+
+      if (overlapping) {
+        return {
+          success: false,
+          message: 'You already have leave requested for some of these dates',
+          error: 'OVERLAPPING_REQUEST'
+        };
+      }
+
+      const totalMinutes = days.reduce((sum, day) => sum + day.minutes, 0);
+      const year = Number(data.startDate.slice(0, 4));
+
+      if (!leaveType.allowNegativeBalance) {
+        const balance = await this.refreshBalance(companyId, userId, leaveType, year);
+        const available = this.getAvailableMinutes(balance) - await this.getPendingMinutes(userId, leaveType.id, year);
+
+        if (available < totalMinutes) {
+          return {
+            success: false,
+            message: `Insufficient ${leaveType.name} balance: ${totalMinutes} minutes requested, ${Math.max(available, 0)} available`,
+            error: 'INSUFFICIENT_BALANCE'
+          };
+        }
+      }
+
+      const [request] = await db.insert(leaveRequests).values({
+        companyId,
+        userId,
+        leaveTypeId: leaveType.id,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        halfDay,
+        totalMinutes,
+        days,
+        reason: data.reason || null,
+        requiredApprovals: leaveType.approvalLevels
+      }).returning();
+
+      if (!request) {
+        return {
+          success: false,
+          message: 'Failed to create leave request',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Leave requested', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        requestId: request.id,
+        leaveTypeId: leaveType.id,
+        totalMinutes
+      });
+
+      return {
+        success: true,
+        message: 'Leave request submitted successfully',
+        data: request
+      };
+
+    } catch (error) {
+      logger.error('Failed to create leave request:', error);
+      return {
+        success: false,
+        message: 'Failed to create leave request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get leave requests for a company
+   */
+  async getRequests(companyId: string, filters: LeaveRequestFilters = {}): Promise<LeaveServiceResult<LeaveRequest[]>> {
+    try {
+      const whereConditions = [eq(leaveRequests.companyId, companyId)];
+
+      if (filters.userId) {
+        whereConditions.push(eq(leaveRequests.userId, filters.userId));
+      }
+
+      if (filters.leaveTypeId) {
+        whereConditions.push(eq(leaveRequests.leaveTypeId, filters.leaveTypeId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(leaveRequests.status, filters.status));
+      }
+
+      if (filters.startDate) {
+        whereConditions.push(gte(leaveRequests.endDate, filters.startDate));
+      }
+
+      if (filters.endDate) {
+        whereConditions.push(lte(leaveRequests.startDate, filters.endDate));
+      }
+
+      const requests = await db
+        .select()
+        .from(leaveRequests)
+        .where(and(...whereConditions))
+        .orderBy(desc(leaveRequests.startDate));
+
+      return {
+        success: true,
+        data: requests
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave requests:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave requests',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single leave request, optionally restricted to one employee
+   */
+  async getRequest(companyId: string, requestId: string, userId?: string): Promise<LeaveServiceResult<LeaveRequest>> {
+    try {
+      const whereConditions = [
+        eq(leaveRequests.id, requestId),
+        eq(leaveRequests.companyId, companyId)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(leaveRequests.userId, userId));
+      }
+
+      const [request] = await db
+        .select()
+        .from(leaveRequests)
+        .where(and(...whereConditions))
+        .limit(1);
+
+      if (!request) {
+        return {
+          success: false,
+          message: 'Leave request not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: request
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave request:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Record one approval on a pending request. The first level needs an admin, the second a super admin.
+   * The final approval deducts the balance.
+   */
+  async approveRequest(
+    companyId: string,
+    requestId: string,
+    approverId: string,
+    approverRole: string,
+    notes?: string
+  ): Promise<LeaveServiceResult<LeaveRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const request = existing.data;
+
+      if (request.status !== 'pending') {
+        return {
+          success: false,
+          message: 'Only pending leave requests can be approved',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      if (request.userId === approverId) {
+        return {
+          success: false,
+          message: 'You cannot approve your own leave request',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const approvals = (request.approvals as LeaveApproval[]) || [];
+
+      if (approvals.some(approval => approval.approvedBy === approverId)) {
+        return {
+          success: false,
+          message: 'Each approval level requires a different approver',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const level = approvals.length + 1;
+      if (level > 1 && approverRole !== 'company_super_admin' && approverRole !== 'platform_admin') {
+        return {
+          success: false,
+          message: 'This leave request needs a super admin for its next approval',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const isFinal = level >= request.requiredApprovals;
+      const year = Number(request.startDate.slice(0, 4));
+
+      if (isFinal) {
+        const typeResult = await this.getLeaveType(companyId, request.leaveTypeId);
+        if (!typeResult.success || !typeResult.data) {
+          return {
+            success: false,
+            message: typeResult.message || 'Leave type not found',
+            error: typeResult.error || 'NOT_FOUND'
+          };
+        }
+
+        const balance = await this.refreshBalance(companyId, request.userId, typeResult.data, year);
+        if (!typeResult.data.allowNegativeBalance && this.getAvailableMinutes(balance) < request.totalMinutes) {
+          return {
+            success: false,
+            message: 'Insufficient leave balance to approve this request',
+            error: 'INSUFFICIENT_BALANCE'
+          };
+        }
+      }
+
+      const now = new Date();
+      const nextApprovals: LeaveApproval[] = [
+        ...approvals,
+        { level, approvedBy: approverId, approvedAt: now.toISOString(), notes: notes || null }
+      ];
+
+      const approved = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(leaveRequests)
+          .set({
+            approvals: nextApprovals,
+            ...(isFinal && { status: 'approved' as const, decidedAt: now }),
+            updatedAt: now
+          })
+          .where(
+            and(
+              eq(leaveRequests.id, requestId),
+              eq(leaveRequests.status, 'pending')
+            )
+          )
+          .returning();
+
+        if (updated && isFinal) {
+          await tx
+            .update(leaveBalances)
+            .set({
+              usedMinutes: sql`${leaveBalances.usedMinutes} + ${request.totalMinutes}`,
+              updatedAt: now
+            })
+            .where(
+              and(
+                eq(leaveBalances.userId, request.userId),
+                eq(leaveBalances.leaveTypeId, request.leaveTypeId),
+                eq(leaveBalances.year, year)
+              )
+            );
+        }
+
+        return updated;
+      });
+
+      if (!approved) {
+        return {
+          success: false,
+          message: 'Only pending leave requests can be approved',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info(isFinal ? 'Leave request approved' : 'Leave request approval recorded', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        approverId,
+        level,
+        requiredApprovals: request.requiredApprovals
+      });
+
+      return {
+        success: true,
+        message: isFinal
+          ? 'Leave request approved successfully'
+          : `Approval ${level} of ${request.requiredApprovals} recorded`,
+        data: approved
+      };
+
+    } catch (error) {
+      logger.error('Failed to approve leave request:', error);
+      return {
+        success: false,
+        message: 'Failed to approve leave request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Reject a pending leave request at any approval level
+   */
+  async rejectRequest(
+    companyId: string,
+    requestId: string,
+    reviewerId: string,
+    reason: string
+  ): Promise<LeaveServiceResult<LeaveRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      if (existing.data.userId === reviewerId) {
+        return {
+          success: false,
+          message: 'You cannot reject your own leave request; cancel it instead',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const now = new Date();
+      const [request] = await db
+        .update(leaveRequests)
+        .set({
+          status: 'rejected',
+          rejectedBy: reviewerId,
+          rejectionReason: reason,
+          decidedAt: now,
+          updatedAt: now
+        })
+        .where(
+          and(
+            eq(leaveRequests.id, requestId),
+            eq(leaveRequests.status, 'pending')
+          )
+        )
+        .returning();
+
+      if (!request) {
+        return {
+          success: false,
+          message: 'Only pending leave requests can be rejected',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info('Leave request rejected', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: 'Leave request rejected',
+        data: request
+      };
+
+    } catch (error) {
+      logger.error('Failed to reject leave request:', error);
+      return {
+        success: false,
+        message: 'Failed to reject leave request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending or approved request. Approved leave is returned to the balance;
+   * employees can only cancel approved leave before it starts.
+   */
+  async cancelRequest(
+    companyId: string,
+    requestId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<LeaveServiceResult<LeaveRequest>> {
+    try {
+      const existing = await this.getRequest(companyId, requestId, isAdmin ? undefined : userId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const request = existing.data;
+
+      if (request.status !== 'pending' && request.status !== 'approved') {
+        return {
+          success: false,
+          message: `Leave request is already ${request.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      if (request.status === 'approved') {
+        if (!isAdmin && request.startDate <= getLocalDateString(new Date(), await this.shiftService.getCompanyTimezone(companyId))) {
+          return {
+            success: false,
+            message: 'Leave that has already started can only be cancelled by an admin',
+            error: 'INVALID_STATUS'
+          };
+        }
+
+        if (await this.hasApprovedTimesheet(companyId, request.userId, request.startDate, request.endDate)) {
+          return {
+            success: false,
+            message: 'This leave is part of an approved timesheet; reopen the timesheet first',
+            error: 'RECORD_LOCKED'
+          };
+        }
+      }
+
+      const now = new Date();
+      const year = Number(request.startDate.slice(0, 4));
+
+      const cancelled = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(leaveRequests)
+          .set({
+            status: 'cancelled',
+            cancelledAt: now,
+            updatedAt: now
+          })
+          .where(
+            and(
+              eq(leaveRequests.id, requestId),
+              eq(leaveRequests.status, request.status)
+            )
+          )
+          .returning();
+
+        if (updated && request.status === 'approved') {
+          await tx
+            .update(leaveBalances)
+            .set({
+              usedMinutes: sql`${leaveBalances.usedMinutes} - ${request.totalMinutes}`,
+              updatedAt: now
+            })
+            .where(
+              and(
+                eq(leaveBalances.userId, request.userId),
+                eq(leaveBalances.leaveTypeId, request.leaveTypeId),
+                eq(leaveBalances.year, year)
+              )
+            );
+        }
+
+        return updated;
+      });
+
+      if (!cancelled) {
+        return {
+          success: false,
+          message: 'Leave request was changed by someone else; reload and try again',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info('Leave request cancelled', {
+        service: 'attendance-service',
+        companyId,
+        requestId,
+        cancelledBy: userId,
+        wasApproved: request.status === 'approved'
+      });
+
+      return {
+        success: true,
+        message: 'Leave request cancelled successfully',
+        data: cancelled
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel leave request:', error);
+      return {
+        success: false,
+        message: 'Failed to cancel leave request',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get leave overlapping a date range for the company calendar
+   */
+  async getCalendar(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    includePending: boolean = false
+  ): Promise<LeaveServiceResult<LeaveCalendarEntry[]>> {
+    try {
+      const entries = await db
+        .select({
+          requestId: leaveRequests.id,
+          userId: leaveRequests.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          leaveTypeId: leaveRequests.leaveTypeId,
+          leaveTypeName: leaveTypes.name,
+          color: leaveTypes.color,
+          status: leaveRequests.status,
+          startDate: leaveRequests.startDate,
+          endDate: leaveRequests.endDate,
+          halfDay: leaveRequests.halfDay,
+          totalMinutes: leaveRequests.totalMinutes
+        })
+        .from(leaveRequests)
+        .innerJoin(users, eq(leaveRequests.userId, users.id))
+        .innerJoin(leaveTypes, eq(leaveRequests.leaveTypeId, leaveTypes.id))
+        .where(
+          and(
+            eq(leaveRequests.companyId, companyId),
+            inArray(leaveRequests.status, includePending ? ['approved', 'pending'] : ['approved']),
+            lte(leaveRequests.startDate, endDate),
+            gte(leaveRequests.endDate, startDate)
+          )
+        )
+        .orderBy(asc(leaveRequests.startDate), asc(users.lastName));
+
+      return {
+        success: true,
+        data: entries
+      };
+
+    } catch (error) {
+      logger.error('Failed to get leave calendar:', error);
+      return {
+        success: false,
+        message: 'Failed to get leave calendar',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Approved leave days within a date range. Timesheets use these for leave totals, and
+   * days listed here must not be treated as absences.
+   */
+  async getApprovedLeaveDays(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    userId?: string
+  ): Promise<ApprovedLeaveDay[]> {
+    const whereConditions = [
+      eq(leaveRequests.companyId, companyId),
+      eq(leaveRequests.status, 'approved'),
+      lte(leaveRequests.startDate, endDate),
+      gte(leaveRequests.endDate, startDate)
+    ];
+
+    if (userId) {
+      whereConditions.push(eq(leaveRequests.userId, userId));
+    }
+
+    const requests = await db
+      .select({
+        id: leaveRequests.id,
+        userId: leaveRequests.userId,
+        leaveTypeId: leaveRequests.leaveTypeId,
+        days: leaveRequests.days,
+        isPaid: leaveTypes.isPaid
+      })
+      .from(leaveRequests)
+      .innerJoin(leaveTypes, eq(leaveRequests.leaveTypeId, leaveTypes.id))
+      .where(and(...whereConditions));
+
+    return requests.flatMap(request =>
+      ((request.days as LeaveDay[]) || [])
+        .filter(day => day.date >= startDate && day.date <= endDate)
+        .map(day => ({
+          ...day,
+          requestId: request.id,
+          userId: request.userId,
+          leaveTypeId: request.leaveTypeId,
+          isPaid: request.isPaid
+        }))
+    );
+  }
+
+  /**
+   * Bring a balance's accrual up to date, creating the row (with carry-over) on first use
+   */
+  private async refreshBalance(companyId: string, userId: string, leaveType: LeaveType, year: number): Promise<LeaveBalance> {
+    const [existing] = await db
+      .select()
+      .from(leaveBalances)
+      .where(
+        and(
+          eq(leaveBalances.userId, userId),
+          eq(leaveBalances.leaveTypeId, leaveType.id),
+          eq(leaveBalances.year, year)
+        )
+      )
+      .limit(1);
+
+    let openingMinutes = existing?.openingMinutes ?? 0;
+
+    if (!existing) {
+      const [previous] = await db
+        .select({ id: leaveBalances.id })
+        .from(leaveBalances)
+        .where(
+          and(
+            eq(leaveBalances.userId, userId),
+            eq(leaveBalances.leaveTypeId, leaveType.id),
+            eq(leaveBalances.year, year - 1)
+          )
+        )
+        .limit(1);
+
+      if (previous) {
+        const carried = Math.max(this.getAvailableMinutes(await this.refreshBalance(companyId, userId, leaveType, year - 1)), 0);
+        openingMinutes = leaveType.carryOverCapMinutes === null ? carried : Math.min(carried, leaveType.carryOverCapMinutes);
+      }
+    }
+
+    let accruedMinutes = await this.calculateAccrual(companyId, userId, leaveType, year);
+
+    // Accrual stops once the balance reaches the cap
+    if (leaveType.maxBalanceMinutes !== null) {
+      const otherMinutes = openingMinutes + (existing?.adjustmentMinutes ?? 0) - (existing?.usedMinutes ?? 0);
+      accruedMinutes = Math.min(accruedMinutes, Math.max(leaveType.maxBalanceMinutes - otherMinutes, 0));
+    }
+
+    const [balance] = await db
+      .insert(leaveBalances)
+      .values({
+        companyId,
+        userId,
+        leaveTypeId: leaveType.id,
+        year,
+        openingMinutes,
+        accruedMinutes
+      })
+      .onConflictDoUpdate({
+        target: [leaveBalances.userId, leaveBalances.leaveTypeId, leaveBalances.year],
+        set: {
+          accruedMinutes,
+          accruedAt: new Date(),
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+
+    if (!balance) {
+      throw new Error('Failed to update leave balance');
+    }
+
+    return balance;
+  }
+
+  /**
+   * Minutes earned for a year: per elapsed month, or per block of worked time
+   */
+  private async calculateAccrual(companyId: string, userId: string, leaveType: LeaveType, year: number): Promise<number> {
+    if (leaveType.accrualMethod === 'monthly') {
+      const today = getLocalDateString(new Date(), await this.shiftService.getCompanyTimezone(companyId));
+      const currentYear = Number(today.slice(0, 4));
+      const months = year < currentYear ? 12 : year > currentYear ? 0 : Number(today.slice(5, 7));
+
+      return months * leaveType.accrualMinutes;
+    }
+
+    if (leaveType.accrualMethod === 'per_hours_worked' && leaveType.accrualPerWorkedMinutes) {
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+
+      const records = await db
+        .select({
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          breakTime: attendanceRecords.breakTime,
+          workedMinutes: attendanceRecords.workedMinutes
+        })
+        .from(attendanceRecords)
+        .where(
+          and(
+            eq(attendanceRecords.userId, userId),
+            eq(attendanceRecords.companyId, companyId),
+            isNotNull(attendanceRecords.clockOutTime),
+            ne(attendanceRecords.status, 'rejected'),
+            gte(attendanceRecords.clockInTime, zonedTimeToUtc(`${year}-01-01`, '00:00', timeZone)),
+            lt(attendanceRecords.clockInTime, zonedTimeToUtc(`${year + 1}-01-01`, '00:00', timeZone))
+          )
+        );
+
+      const workedMinutes = records.reduce((sum, record) => sum + (
+        record.workedMinutes ??
+        Math.round(calculateWorkHours(record.clockInTime, record.clockOutTime!, record.breakTime || 0) * 60)
+      ), 0);
+
+      return Math.floor(workedMinutes / leaveType.accrualPerWorkedMinutes) * leaveType.accrualMinutes;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Company work days in a date range that are not holidays (company-wide or at the employee's home site),
+   * each charged one standard work day (or half of one)
+   */
+  private async getRequestDays(
+    companyId: string,
+    userId: string,
+    startDate: string,
+    endDate: string,
+    halfDay: boolean
+  ): Promise<LeaveDay[]> {
+    const policy = await this.policyService.getPolicy(companyId);
+
+    const [settings] = await db
+      .select({ workDays: companySettings.workDays })
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId))
+      .limit(1);
+
+    const workDays = (settings?.workDays as number[] | undefined) ?? [1, 2, 3, 4, 5];
+    const siteId = await this.holidayService.getEmployeeSiteId(companyId, userId);
+    const holidayDates = await this.holidayService.getHolidayDates(companyId, startDate, endDate, siteId);
+    const minutes = halfDay ? Math.round(policy.standardWorkdayMinutes / 2) : policy.standardWorkdayMinutes;
+    const days: LeaveDay[] = [];
+
+    for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      if (workDays.includes(getIsoWeekday(date)) && !holidayDates.has(date)) {
+        days.push({ date, minutes });
+      }
+    }
+
+    return days;
+  }
+
+  private async getPendingMinutes(userId: string, leaveTypeId: string, year: number): Promise<number> {
+    const [pending] = await db
+      .select({ minutes: sql<number>`coalesce(sum(${leaveRequests.totalMinutes}), 0)::int` })
+      .from(leaveRequests)
+      .where(
+        and(
+          eq(leaveRequests.userId, userId),
+          eq(leaveRequests.leaveTypeId, leaveTypeId),
+          eq(leaveRequests.status, 'pending'),
+          gte(leaveRequests.startDate, `${year}-01-01`),
+          lte(leaveRequests.startDate, `${year}-12-31`)
+        )
+      );
+
+    return pending?.minutes ?? 0;
+  }
+
+  private async hasApprovedTimesheet(companyId: string, userId: string, startDate: string, endDate: string): Promise<boolean> {
+    const [approved] = await db
+      .select({ id: timesheets.id })
+      .from(timesheets)
+      .innerJoin(payPeriods, eq(timesheets.payPeriodId, payPeriods.id))
+      .where(
+        and(
+          eq(timesheets.companyId, companyId),
+          eq(timesheets.userId, userId),
+          eq(timesheets.status, 'approved'),
+          lte(payPeriods.startDate, endDate),
+          gte(payPeriods.endDate, startDate)
+        )
+      )
+      .limit(1);
+
+    return !!approved;
+  }
+
+  private async isDuplicateCode(companyId: string, code: string, excludeId?: string): Promise<boolean> {
+    const whereConditions = [
+      eq(leaveTypes.companyId, companyId),
+      eq(leaveTypes.code, code)
+    ];
+
+    if (excludeId) {
+      whereConditions.push(ne(leaveTypes.id, excludeId));
+    }
+
+    const [duplicate] = await db
+      .select({ id: leaveTypes.id })
+      .from(leaveTypes)
+      .where(and(...whereConditions))
+      .limit(1);
+
+    return !!duplicate;
+  }
+
+  private async getCurrentYear(companyId: string): Promise<number> {
+    return Number(getLocalDateString(new Date(), await this.shiftService.getCompanyTimezone(companyId)).slice(0, 4));
+  }
+
+  private getAvailableMinutes(balance: LeaveBalance): number {
+    return balance.openingMinutes + balance.accruedMinutes + balance.adjustmentMinutes - balance.usedMinutes;
+  }
+}
@@ -0,0 +1,39 @@
+import { db } from '../config/database';
+import { notifications } from '../db/schema/notification';
+import { logger } from '../utils/logger';
+
+export interface NotificationData {
+  companyId: string;
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  priority?: 'low' | 'normal' | 'high' | 'urgent';
+}
+
+export class NotificationService {
+  /**
+   * Add an in-app notification for a user. Never throws: a failed notification must not undo the action that caused it.
+   */
+  async notify(data: NotificationData): Promise<void> {
+    try {
+      await db.insert(notifications).values({
+        companyId: data.companyId,
+        userId: data.userId,
+        type: data.type,
+        title: data.title,
+        message: data.message,
+        data: data.data ?? null,
+        priority: data.priority ?? 'normal'
+      });
+    } catch (error) {
+      logger.warn('Failed to create notification', {
+        service: 'attendance-service',
+        userId: data.userId,
+        type: data.type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
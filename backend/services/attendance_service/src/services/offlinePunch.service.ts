@@ -0,0 +1,1116 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { z } from 'zod';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { offlineDeviceKeys, offlinePunches } from '../db/schema/offline';
+import { logger } from '../utils/logger';
+import { AttendanceService } from './attendance.service';
+import { HolidayService } from './holiday.service';
+import { WorkLocationService, ClockInLocationCheck } from './workLocation.service';
+import { FraudService, FraudAction } from './fraud.service';
+import { VerificationService } from './verification.service';
+import { PhotoService } from './photo.service';
+import { TimesheetService } from './timesheet.service';
+import { eq, and, desc, gte, lte, isNull, sql, SQL } from 'drizzle-orm';
+
+export type OfflineDeviceKey = typeof offlineDeviceKeys.$inferSelect;
+export type OfflinePunch = typeof offlinePunches.$inferSelect;
+export type OfflineKeyAlgorithm = OfflineDeviceKey['algorithm'];
+export type OfflinePunchType = OfflinePunch['punchType'];
+
+export interface RegisterDeviceKeyData {
+  deviceId: string;
+  algorithm: OfflineKeyAlgorithm;
+  publicKey: string; // SPKI, PEM or base64 DER
+}
+
+export interface SignedPunch {
+  envelope: string; // Base64 of the JSON payload the device signed
+  signature: string; // Base64 signature over the decoded envelope bytes
+}
+
+export interface OfflinePhoto {
+  buffer: Buffer;
+  mimetype: string;
+}
+
+export interface OfflineSyncData {
+  companyId: string;
+  userId: string;
+  authorization: string; // Forwarded to the auth service for the stored face encoding
+  punches: SignedPunch[];
+  photos: OfflinePhoto[]; // Matched to punches by the photo hash in the envelope
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * What the sync made of one punch:
+ * - accepted / flagged: recorded on the attendance record (flagged ones go to review)
+ * - rejected: not recorded; stored with the reason unless the envelope couldn't be trusted at all
+ * - duplicate: synced before, the earlier result is returned
+ * - retry: nothing stored (missing photo, storage error, no open session yet), send it again
+ */
+export interface PunchSyncResult {
+  index: number; // Position in the request
+  deviceId: string | null;
+  counter: number | null;
+  type: OfflinePunchType | null;
+  status: 'accepted' | 'flagged' | 'rejected' | 'duplicate' | 'retry';
+  flags: string[];
+  reason: string | null;
+  punchId: string | null;
+  attendanceId: string | null;
+  capturedAt: Date | null;
+}
+
+export interface OfflineSyncReport {
+  batchId: string;
+  receivedAt: Date;
+  accepted: number;
+  flagged: number;
+  rejected: number;
+  duplicates: number;
+  retry: number;
+  results: PunchSyncResult[];
+}
+
+export interface DeviceKeyFilters {
+  userId?: string;
+  includeRevoked?: boolean;
+}
+
+export interface OfflinePunchFilters {
+  page: number;
+  limit: number;
+  userId?: string;
+  status?: OfflinePunch['status'];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface OfflinePunchServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// The payload the app signs when the punch is made
+const envelopePayloadSchema = z.object({
+  version: z.literal(1),
+  deviceId: z.string().min(1).max(255),
+  userId: z.string().uuid(),
+  companyId: z.string().uuid(),
+  type: z.enum(['clock-in', 'clock-out']),
+  counter: z.number().int().positive(), // Per device key, incremented for every punch
+  capturedAt: z.string().datetime({ offset: true }),
+  workMode: z.enum(['onsite', 'remote', 'hybrid']).optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().nonnegative().optional(), // Meters
+    fixedAt: z.string().datetime({ offset: true }).optional() // When the GPS fix was taken
+  }).optional(),
+  photoSha256: z.string().regex(/^[a-f0-9]{64}$/)
+}).refine(payload => payload.type === 'clock-out' || payload.workMode !== undefined, {
+  message: 'workMode is required for clock-in',
+  path: ['workMode']
+});
+
+type EnvelopePayload = z.infer<typeof envelopePayloadSchema>;
+
+/**
+ * A punch whose envelope decoded and belongs to the caller
+ */
+interface DecodedPunch {
+  index: number;
+  signed: SignedPunch;
+  payloadBytes: Buffer;
+  payload: EnvelopePayload;
+  capturedAt: Date;
+}
+
+interface SyncContext {
+  companyId: string;
+  userId: string;
+  authorization: string;
+  batchId: string;
+  receivedAt: Date;
+  photos: Map<string, OfflinePhoto>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Outcome of the deferred face check: never blocks an offline punch, only flags it
+ */
+interface DeferredFaceCheck {
+  verificationId: string | null;
+  success: boolean;
+  similarity: number;
+  flag: string | null;
+}
+
+const FACE_THRESHOLD = 0.6;
+
+export class OfflinePunchService {
+  private readonly attendanceService = new AttendanceService();
+  private readonly holidayService = new HolidayService();
+  private readonly workLocationService = new WorkLocationService();
+  private readonly fraudService = new FraudService();
+  private readonly verificationService = new VerificationService();
+  private readonly photoService = new PhotoService();
+  private readonly timesheetService = new TimesheetService();
+
+  /**
+   * Register a device public key for the employee. Offline punches from the device must be signed with it.
+   */
+  async registerDeviceKey(companyId: string, userId: string, data: RegisterDeviceKeyData): Promise<OfflinePunchServiceResult<OfflineDeviceKey>> {
+    try {
+      const publicKey = this.parsePublicKey(data.algorithm, data.publicKey);
+      if (!publicKey) {
+        return {
+          success: false,
+          message: `Public key is not a valid ${data.algorithm} SPKI key`,
+          error: 'INVALID_PUBLIC_KEY'
+        };
+      }
+
+      const [existing] = await db
+        .select({ id: offlineDeviceKeys.id })
+        .from(offlineDeviceKeys)
+        .where(
+          and(
+            eq(offlineDeviceKeys.userId, userId),
+            eq(offlineDeviceKeys.deviceId, data.deviceId),
+            isNull(offlineDeviceKeys.revokedAt)
+          )
+        )
+        .limit(1);
+
+      // Replacing a key would let queued punches signed with the old one fail; revoke it explicitly first
+      if (existing) {
+        return {
+          success: false,
+          message: 'An active key is already registered for this device. Revoke it first.',
+          error: 'DEVICE_KEY_EXISTS'
+        };
+      }
+
+      const [key] = await db
+        .insert(offlineDeviceKeys)
+        .values({
+          companyId,
+          userId,
+          deviceId: data.deviceId,
+          algorithm: data.algorithm,
+          publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+        })
+        .returning();
+
+      logger.info('Offline device key registered', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        deviceId: data.deviceId,
+        deviceKeyId: key!.id,
+        algorithm: data.algorithm
+      });
+
+      return {
+        success: true,
+        message: 'Device key registered',
+        data: key!
+      };
+
+    } catch (error) {
+      // Partial unique index on (user_id, device_id) for active keys: a concurrent registration won
+      if ((error as { code?: string }).code === '23505') {
+        return {
+          success: false,
+          message: 'An active key is already registered for this device. Revoke it first.',
+          error: 'DEVICE_KEY_EXISTS'
+        };
+      }
+
+      logger.error('Failed to register offline device key:', error);
+      return {
+        success: false,
+        message: 'Failed to register device key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * List device keys in the company, newest first
+   */
+  async getDeviceKeys(companyId: string, filters: DeviceKeyFilters): Promise<OfflinePunchServiceResult<OfflineDeviceKey[]>> {
+    try {
+      const conditions: SQL[] = [eq(offlineDeviceKeys.companyId, companyId)];
+
+      if (filters.userId) {
+        conditions.push(eq(offlineDeviceKeys.userId, filters.userId));
+      }
+
+      if (!filters.includeRevoked) {
+        conditions.push(isNull(offlineDeviceKeys.revokedAt));
+      }
+
+      const keys = await db
+        .select()
+        .from(offlineDeviceKeys)
+        .where(and(...conditions))
+        .orderBy(desc(offlineDeviceKeys.registeredAt));
+
+      return {
+        success: true,
+        data: keys
+      };
+
+    } catch (error) {
+      logger.error('Failed to get offline device keys:', error);
+      return {
+        success: false,
+        message: 'Failed to get device keys',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Revoke a device key. Punches signed with it are no longer accepted, including ones still queued on the device.
+   * Pass ownerId to only allow revoking the caller's own key.
+   */
+  async revokeDeviceKey(companyId: string, deviceKeyId: string, revokedBy: string, ownerId?: string): Promise<OfflinePunchServiceResult<OfflineDeviceKey>> {
+    try {
+      const [key] = await db
+        .select()
+        .from(offlineDeviceKeys)
+        .where(and(eq(offlineDeviceKeys.id, deviceKeyId), eq(offlineDeviceKeys.companyId, companyId)))
+        .limit(1);
+
+      if (!key || (ownerId && key.userId !== ownerId)) {
+        return {
+          success: false,
+          message: 'Device key not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (key.revokedAt) {
+        return {
+          success: false,
+          message: 'Device key is already revoked',
+          error: 'KEY_ALREADY_REVOKED'
+        };
+      }
+
+      const [revoked] = await db
+        .update(offlineDeviceKeys)
+        .set({
+          revokedAt: new Date(),
+          revokedBy,
+          updatedAt: new Date()
+        })
+        .where(and(eq(offlineDeviceKeys.id, deviceKeyId), isNull(offlineDeviceKeys.revokedAt)))
+        .returning();
+
+      if (!revoked) {
+        return {
+          success: false,
+          message: 'Device key is already revoked',
+          error: 'KEY_ALREADY_REVOKED'
+        };
+      }
+
+      logger.info('Offline device key revoked', {
+        service: 'attendance-service',
+        companyId,
+        deviceKeyId,
+        userId: revoked.userId,
+        revokedBy
+      });
+
+      return {
+        success: true,
+        message: 'Device key revoked',
+        data: revoked
+      };
+
+    } catch (error) {
+      logger.error('Failed to revoke offline device key:', error);
+      return {
+        success: false,
+        message: 'Failed to revoke device key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Sync punches captured offline. Each punch is checked on its own: signature, counter and capture time against
+   * the device key, then the location, face and fraud checks the online clock-in would have run at capture time.
+   * Late, out-of-order or otherwise doubtful punches are recorded but flagged for review.
+   */
+  async syncPunches(data: OfflineSyncData): Promise<OfflinePunchServiceResult<OfflineSyncReport>> {
+    try {
+      const context: SyncContext = {
+        companyId: data.companyId,
+        userId: data.userId,
+        authorization: data.authorization,
+        batchId: crypto.randomUUID(),
+        receivedAt: new Date(),
+        photos: new Map(data.photos.map(photo => [crypto.createHash('sha256').update(photo.buffer).digest('hex'), photo])),
+        ...(data.ipAddress && { ipAddress: data.ipAddress }),
+        ...(data.userAgent && { userAgent: data.userAgent })
+      };
+
+      const results: PunchSyncResult[] = [];
+      const decoded: DecodedPunch[] = [];
+
+      data.punches.forEach((signed, index) => {
+        const punch = this.decodeEnvelope(signed, index);
+        if (!punch) {
+          results.push(this.unstored(index, null, 'rejected', 'INVALID_ENVELOPE'));
+        } else if (punch.payload.userId !== data.userId || punch.payload.companyId !== data.companyId) {
+          results.push(this.unstored(index, punch, 'rejected', 'WRONG_USER'));
+        } else {
+          decoded.push(punch);
+        }
+      });
+
+      const keys = await db
+        .select()
+        .from(offlineDeviceKeys)
+        .where(
+          and(
+            eq(offlineDeviceKeys.userId, data.userId),
+            eq(offlineDeviceKeys.companyId, data.companyId),
+            isNull(offlineDeviceKeys.revokedAt)
+          )
+        );
+      const keysByDevice = new Map(keys.map(key => [key.deviceId, key]));
+
+      // Replay in capture order across devices, so a clock-out on one device follows the clock-in made on another.
+      // Counters only order punches of the same device; a device clock that disagrees with them is flagged OUT_OF_ORDER.
+      decoded.sort((a, b) =>
+        a.capturedAt.getTime() - b.capturedAt.getTime() ||
+        a.payload.deviceId.localeCompare(b.payload.deviceId) ||
+        a.payload.counter - b.payload.counter
+      );
+
+      for (const punch of decoded) {
+        const key = keysByDevice.get(punch.payload.deviceId);
+        if (!key) {
+          results.push(this.unstored(punch.index, punch, 'rejected', 'UNKNOWN_DEVICE'));
+          continue;
+        }
+
+        results.push(await this.processPunch(context, key, punch));
+      }
+
+      results.sort((a, b) => a.index - b.index);
+
+      const report: OfflineSyncReport = {
+        batchId: context.batchId,
+        receivedAt: context.receivedAt,
+        accepted: results.filter(result => result.status === 'accepted').length,
+        flagged: results.filter(result => result.status === 'flagged').length,
+        rejected: results.filter(result => result.status === 'rejected').length,
+        duplicates: results.filter(result => result.status === 'duplicate').length,
+        retry: results.filter(result => result.status === 'retry').length,
+        results
+      };
+
+      logger.info('Offline punches synced', {
+        service: 'attendance-service',
+        companyId: data.companyId,
+        userId: data.userId,
+        batchId: report.batchId,
+        punches: data.punches.length,
+        accepted: report.accepted,
+        flagged: report.flagged,
+        rejected: report.rejected,
+        duplicates: report.duplicates,
+        retry: report.retry
+      });
+
+      return {
+        success: true,
+        message: 'Offline punches synced',
+        data: report
+      };
+
+    } catch (error) {
+      logger.error('Failed to sync offline punches:', error);
+      return {
+        success: false,
+        message: 'Failed to sync offline punches',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * List synced offline punches in the company, newest capture first
+   */
+  async getPunches(companyId: string, filters: OfflinePunchFilters): Promise<OfflinePunchServiceResult<OfflinePunch[]>> {
+    try {
+      const conditions: SQL[] = [eq(offlinePunches.companyId, companyId)];
+
+      if (filters.userId) {
+        conditions.push(eq(offlinePunches.userId, filters.userId));
+      }
+
+      if (filters.status) {
+        conditions.push(eq(offlinePunches.status, filters.status));
+      }
+
+      if (filters.startDate) {
+        conditions.push(gte(offlinePunches.capturedAt, filters.startDate));
+      }
+
+      if (filters.endDate) {
+        conditions.push(lte(offlinePunches.capturedAt, filters.endDate));
+      }
+
+      const offset = (filters.page - 1) * filters.limit;
+
+      const punches = await db
+        .select()
+        .from(offlinePunches)
+        .where(and(...conditions))
+        .orderBy(desc(offlinePunches.capturedAt))
+        .limit(filters.limit)
+        .offset(offset);
+
+      const [countRow] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(offlinePunches)
+        .where(and(...conditions));
+
+      const total = countRow?.count ?? 0;
+
+      return {
+        success: true,
+        data: punches,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages: Math.ceil(total / filters.limit)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get offline punches:', error);
+      return {
+        success: false,
+        message: 'Failed to get offline punches',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async processPunch(context: SyncContext, key: OfflineDeviceKey, punch: DecodedPunch): Promise<PunchSyncResult> {
+    const { payload, capturedAt } = punch;
+
+    // A forged or corrupted envelope is kept as evidence, but never touches the key's counter
+    if (!this.verifySignature(key, punch)) {
+      logger.warn('Offline punch with invalid signature', {
+        service: 'attendance-service',
+        userId: context.userId,
+        deviceKeyId: key.id,
+        counter: payload.counter
+      });
+      return this.storeRejected(context, key, punch, 'INVALID_SIGNATURE', [], false);
+    }
+
+    const [previous] = await db
+      .select()
+      .from(offlinePunches)
+      .where(
+        and(
+          eq(offlinePunches.deviceKeyId, key.id),
+          eq(offlinePunches.counter, payload.counter),
+          eq(offlinePunches.signatureValid, true)
+        )
+      )
+      .limit(1);
+
+    if (previous) {
+      if (previous.envelope === punch.signed.envelope) {
+        return {
+          ...this.toResult(punch, previous),
+          status: 'duplicate'
+        };
+      }
+
+      // Two different punches signed with the same counter: the device (or its key) can't be trusted
+      logger.warn('Offline punch counter reused', {
+        service: 'attendance-service',
+        userId: context.userId,
+        deviceKeyId: key.id,
+        counter: payload.counter,
+        previousPunchId: previous.id
+      });
+      return this.unstored(punch.index, punch, 'rejected', 'COUNTER_REUSED');
+    }
+
+    const skewMs = env.OFFLINE_CLOCK_SKEW_SECONDS * 1000;
+
+    if (capturedAt.getTime() > context.receivedAt.getTime() + skewMs) {
+      return this.advanceAfter(key, punch, await this.storeRejected(context, key, punch, 'FUTURE_TIMESTAMP', []));
+    }
+
+    if (capturedAt.getTime() < key.registeredAt.getTime() - skewMs) {
+      return this.advanceAfter(key, punch, await this.storeRejected(context, key, punch, 'CAPTURED_BEFORE_REGISTRATION', []));
+    }
+
+    const photo = context.photos.get(payload.photoSha256);
+    if (!photo) {
+      return this.unstored(punch.index, punch, 'retry', 'MISSING_PHOTO');
+    }
+
+    const flags = this.getSyncFlags(context, key, punch);
+
+    const result = payload.type === 'clock-in'
+      ? await this.recordClockIn(context, key, punch, photo, flags)
+      : await this.recordClockOut(context, key, punch, photo, flags);
+
+    return this.advanceAfter(key, punch, result);
+  }
+
+  /**
+   * Flags from how the punch reached us: ordering against the key's last synced punch, sync delay and GPS fix
+   */
+  private getSyncFlags(context: SyncContext, key: OfflineDeviceKey, punch: DecodedPunch): string[] {
+    const { payload, capturedAt } = punch;
+    const flags: string[] = [];
+
+    if (payload.counter <= key.lastCounter || (key.lastCapturedAt && capturedAt < key.lastCapturedAt)) {
+      flags.push('OUT_OF_ORDER');
+    } else if (payload.counter > key.lastCounter + 1) {
+      flags.push('COUNTER_GAP'); // Punches missing in between, possibly deleted on the device
+    }
+
+    if (context.receivedAt.getTime() - capturedAt.getTime() > env.OFFLINE_SYNC_MAX_DELAY_HOURS * 60 * 60 * 1000) {
+      flags.push('LATE_SYNC');
+    }
+
+    if (!payload.location) {
+      flags.push('NO_GPS_FIX');
+    } else if (payload.location.fixedAt) {
+      const fixAgeMs = Math.abs(capturedAt.getTime() - new Date(payload.location.fixedAt).getTime());
+      if (fixAgeMs > env.OFFLINE_GPS_MAX_AGE_MINUTES * 60 * 1000) {
+        flags.push('STALE_GPS_FIX');
+      }
+    }
+
+    return flags;
+  }
+
+  private async recordClockIn(
+    context: SyncContext,
+    key: OfflineDeviceKey,
+    punch: DecodedPunch,
+    photo: OfflinePhoto,
+    flags: string[]
+  ): Promise<PunchSyncResult> {
+    const { payload, capturedAt } = punch;
+    const workMode = payload.workMode!;
+    const location = payload.location && { latitude: payload.location.latitude, longitude: payload.location.longitude };
+
+    const openRecord = await this.attendanceService.getOpenAttendanceRecord(context.userId);
+    if (openRecord) {
+      return this.storeRejected(context, key, punch, 'ALREADY_CLOCKED_IN', flags);
+    }
+
+    // A record in an approved pay period would never be totalled or exported
+    if (await this.timesheetService.isPeriodLocked(context.companyId, context.userId, capturedAt)) {
+      return this.storeRejected(context, key, punch, 'PERIOD_LOCKED', flags);
+    }
+
+    // Captured during a session that was already recorded online: the hours would count twice
+    if (await this.attendanceService.getOverlappingRecord(context.userId, capturedAt, null)) {
+      return this.storeRejected(context, key, punch, 'OVERLAPPING_RECORD', flags);
+    }
+
+    // Checked as of the capture time. The employee can't retry from another spot anymore, so a rejection only flags.
+    const locationCheck = await this.workLocationService.verifyClockIn(context.companyId, context.userId, workMode, location, capturedAt);
+    if (locationCheck.action !== 'allow' && locationCheck.reason) {
+      flags.push(locationCheck.reason);
+    }
+
+    const face = await this.checkFace(context, photo);
+    if (face.flag) {
+      flags.push(face.flag);
+    }
+
+    let photoKey: string;
+    try {
+      photoKey = await this.photoService.storeAttendancePhoto(context.companyId, context.userId, 'clock-in', photo, capturedAt);
+    } catch (error) {
+      logger.error('Failed to store offline clock-in photo:', error);
+      return this.unstored(punch.index, punch, 'retry', 'PHOTO_STORAGE_ERROR');
+    }
+
+    const result = await this.attendanceService.createAttendanceRecord({
+      userId: context.userId,
+      companyId: context.companyId,
+      clockInTime: capturedAt,
+      workMode,
+      location: payload.location,
+      deviceInfo: `offline:${payload.deviceId}`,
+      ...(context.userAgent && { userAgent: context.userAgent }),
+      ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      photoKey,
+      faceSimilarity: face.similarity,
+      ...(locationCheck.zone && { geofenceZone: locationCheck.zone }),
+      ...(locationCheck.distanceMeters !== null && { geofenceDistanceMeters: locationCheck.distanceMeters }),
+      ...(locationCheck.locationType && { locationType: locationCheck.locationType }),
+      ...(locationCheck.locationType === 'site' && locationCheck.locationId && { geofenceId: locationCheck.locationId }),
+      ...(locationCheck.locationType === 'alternate' && locationCheck.locationId && { alternateLocationId: locationCheck.locationId }),
+      expectedWorkMode: locationCheck.expectedWorkMode,
+      ...(locationCheck.workModeScheduleId && { workModeScheduleId: locationCheck.workModeScheduleId }),
+      workModeMismatch: locationCheck.workModeMismatch,
+      flagged: flags.length > 0,
+      overallRiskScore: 0,
+      aiProcessingTime: 0,
+      clockInSource: 'offline',
+      clockInReceivedAt: context.receivedAt,
+      verificationMetadata: {
+        method: 'face',
+        faceVerification: {
+          success: face.success,
+          similarity: face.similarity,
+          threshold: FACE_THRESHOLD,
+          verificationId: face.verificationId
+        },
+        offlinePunch: this.toMetadata(context, punch, flags)
+      }
+    });
+
+    if (!result.success || !result.data) {
+      await this.photoService.deletePhoto(photoKey);
+      if (result.error === 'ALREADY_CLOCKED_IN') {
+        return this.storeRejected(context, key, punch, 'ALREADY_CLOCKED_IN', flags);
+      }
+      return this.unstored(punch.index, punch, 'retry', 'INTERNAL_ERROR');
+    }
+
+    const attendanceId = result.data.id;
+
+    if (face.verificationId) {
+      await this.verificationService.attachToAttendance(face.verificationId, attendanceId);
+    }
+
+    const fraudAction = await this.analyzeFraud(context, attendanceId, payload, capturedAt, face.similarity, locationCheck, !!result.data.scheduledStart);
+    if (fraudAction === 'flag') {
+      flags.push('FRAUD_REVIEW');
+    }
+
+    return this.storePunch(context, key, punch, {
+      status: flags.length > 0 ? 'flagged' : 'accepted',
+      flags,
+      photoKey,
+      attendanceId,
+      faceVerificationId: face.verificationId
+    });
+  }
+
+  private async recordClockOut(
+    context: SyncContext,
+    key: OfflineDeviceKey,
+    punch: DecodedPunch,
+    photo: OfflinePhoto,
+    flags: string[]
+  ): Promise<PunchSyncResult> {
+    const { capturedAt } = punch;
+
+    // The clock-in may still be on another device that hasn't synced; storing a rejection would make this a duplicate later
+    const openRecord = await this.attendanceService.getOpenAttendanceRecord(context.userId);
+    if (!openRecord) {
+      return this.unstored(punch.index, punch, 'retry', 'NO_OPEN_ATTENDANCE');
+    }
+
+    if (capturedAt <= openRecord.clockInTime) {
+      return this.storeRejected(context, key, punch, 'CLOCK_OUT_BEFORE_CLOCK_IN', flags);
+    }
+
+    // The record belongs to the period of its clock-in
+    if (await this.timesheetService.isPeriodLocked(context.companyId, context.userId, openRecord.clockInTime)) {
+      return this.storeRejected(context, key, punch, 'PERIOD_LOCKED', flags);
+    }
+
+    // The session would run into another record, e.g. an offline clock-in synced after later online punches
+    if (await this.attendanceService.getOverlappingRecord(context.userId, openRecord.clockInTime, capturedAt, openRecord.id)) {
+      return this.storeRejected(context, key, punch, 'OVERLAPPING_RECORD', flags);
+    }
+
+    const face = await this.checkFace(context, photo);
+    if (face.flag) {
+      flags.push(face.flag);
+    }
+
+    let photoKey: string;
+    try {
+      photoKey = await this.photoService.storeAttendancePhoto(context.companyId, context.userId, 'clock-out', photo, capturedAt);
+    } catch (error) {
+      logger.error('Failed to store offline clock-out photo:', error);
+      return this.unstored(punch.index, punch, 'retry', 'PHOTO_STORAGE_ERROR');
+    }
+
+    const result = await this.attendanceService.updateAttendanceClockOut(openRecord.id, {
+      clockOutTime: capturedAt,
+      clockOutPhotoKey: photoKey,
+      faceSimilarityClockOut: face.similarity,
+      clockOutSource: 'offline',
+      clockOutReceivedAt: context.receivedAt,
+      flagged: flags.length > 0,
+      verificationMetadataClockOut: {
+        faceVerification: {
+          success: face.success,
+          similarity: face.similarity,
+          threshold: FACE_THRESHOLD,
+          verificationId: face.verificationId
+        },
+        offlinePunch: this.toMetadata(context, punch, flags)
+      }
+    });
+
+    if (!result.success) {
+      await this.photoService.deletePhoto(photoKey);
+      return this.storeRejected(context, key, punch, result.error ?? 'UPDATE_FAILED', flags);
+    }
+
+    if (face.verificationId) {
+      await this.verificationService.attachToAttendance(face.verificationId, openRecord.id);
+    }
+
+    return this.storePunch(context, key, punch, {
+      status: flags.length > 0 ? 'flagged' : 'accepted',
+      flags,
+      photoKey,
+      attendanceId: openRecord.id,
+      faceVerificationId: face.verificationId
+    });
+  }
+
+  /**
+   * Compare the punch photo with the registered face. Failures flag the punch instead of rejecting it.
+   */
+  private async checkFace(context: SyncContext, photo: OfflinePhoto): Promise<DeferredFaceCheck> {
+    const photoBase64 = `data:${photo.mimetype};base64,${photo.buffer.toString('base64')}`;
+    const verification = await this.verificationService.verifyFace(context.userId, context.companyId, photoBase64, context.authorization);
+
+    if (!verification.success || !verification.data) {
+      return {
+        verificationId: null,
+        success: false,
+        similarity: 0,
+        flag: verification.error === 'NO_FACE_ENCODING' ? 'NO_FACE_ENCODING' : 'FACE_CHECK_UNAVAILABLE'
+      };
+    }
+
+    const outputData = (verification.data.outputData ?? {}) as { similarity?: number };
+    const similarity = typeof outputData.similarity === 'number' ? outputData.similarity : 0;
+
+    return {
+      verificationId: verification.data.id,
+      success: verification.data.success,
+      similarity,
+      flag: verification.data.success
+        ? null
+        : verification.data.errorMessage ? 'FACE_CHECK_UNAVAILABLE' : 'FACE_MISMATCH'
+    };
+  }
+
+  /**
+   * Run the clock-in fraud analysis and store it. An offline clock-in is never blocked afterwards, only flagged.
+   */
+  private async analyzeFraud(
+    context: SyncContext,
+    attendanceId: string,
+    payload: EnvelopePayload,
+    capturedAt: Date,
+    faceSimilarity: number,
+    locationCheck: ClockInLocationCheck,
+    hasScheduledShift: boolean
+  ): Promise<FraudAction> {
+    try {
+      const siteId = await this.holidayService.getEmployeeSiteId(context.companyId, context.userId, locationCheck.locationType === 'site' ? locationCheck.locationId : null);
+      const dayContext = await this.holidayService.getDayContext(context.companyId, capturedAt, siteId);
+
+      const fraudAnalysisResponse = await axios.post(`${env.AI_SERVICE_URL}/api/ai/analyze-fraud`, {
+        userId: context.userId,
+        companyId: context.companyId,
+        attendanceId,
+        clockInTime: capturedAt.toISOString(),
+        location: payload.location,
+        deviceInfo: `offline:${payload.deviceId}`,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        workMode: payload.workMode,
+        expectedLocation: locationCheck.locationName ?? undefined,
+        faceSimilarity,
+        locationVerification: {
+          locationType: locationCheck.locationType,
+          zone: locationCheck.zone,
+          distanceMeters: locationCheck.distanceMeters,
+          expectedWorkMode: locationCheck.expectedWorkMode,
+          workModeMismatch: locationCheck.workModeMismatch
+        },
+        scheduleContext: {
+          ...dayContext,
+          hasScheduledShift
+        },
+        metadata: {
+          requestSource: 'attendance-service',
+          operation: 'offline-clock-in-fraud-analysis',
+          receivedAt: context.receivedAt.toISOString()
+        }
+      });
+
+      if (!fraudAnalysisResponse.data.success) {
+        return 'allow';
+      }
+
+      const fraudData = fraudAnalysisResponse.data.data;
+      const assessment = await this.fraudService.recordAssessment(context.companyId, attendanceId, {
+        riskScore: fraudData.riskScore,
+        riskLevel: fraudData.riskLevel,
+        isFraudulent: fraudData.isFraudulent,
+        detectionResults: fraudData.metadata.detectionResults,
+        flags: fraudData.metadata.flags,
+        evidence: fraudData.metadata.evidence,
+        faceSimilarity
+      }, { allowBlock: false });
+      const action: FraudAction = assessment.data?.action
+        ?? (this.fraudService.getRiskLevel(fraudData.riskScore) === 'LOW' ? 'allow' : 'flag');
+
+      await this.attendanceService.updateAttendanceFraudAnalysis(attendanceId, {
+        overallRiskScore: fraudData.riskScore,
+        fraudAction: action,
+        fraudDetectionResults: {
+          riskScore: fraudData.riskScore,
+          riskLevel: fraudData.riskLevel,
+          isFraudulent: fraudData.isFraudulent,
+          detectionResults: fraudData.metadata.detectionResults,
+          flags: fraudData.metadata.flags,
+          evidence: fraudData.metadata.evidence,
+          action
+        }
+      });
+
+      return action;
+
+    } catch (error) {
+      logger.error('Fraud analysis failed during offline clock-in:', error);
+      return 'allow';
+    }
+  }
+
+  private async storeRejected(
+    context: SyncContext,
+    key: OfflineDeviceKey,
+    punch: DecodedPunch,
+    reason: string,
+    flags: string[],
+    signatureValid: boolean = true
+  ): Promise<PunchSyncResult> {
+    return this.storePunch(context, key, punch, {
+      status: 'rejected',
+      flags,
+      rejectionReason: reason,
+      signatureValid
+    });
+  }
+
+  private async storePunch(
+    context: SyncContext,
+    key: OfflineDeviceKey,
+    punch: DecodedPunch,
+    outcome: {
+      status: OfflinePunch['status'];
+      flags: string[];
+      rejectionReason?: string;
+      signatureValid?: boolean;
+      photoKey?: string;
+      attendanceId?: string;
+      faceVerificationId?: string | null;
+    }
+  ): Promise<PunchSyncResult> {
+    const { payload } = punch;
+
+    // Conflicts on (device_key_id, counter) when the same punch is synced concurrently; that sync reports it
+    const [stored] = await db
+      .insert(offlinePunches)
+      .values({
+        companyId: context.companyId,
+        userId: context.userId,
+        deviceKeyId: key.id,
+        batchId: context.batchId,
+        punchType: payload.type,
+        counter: payload.counter,
+        capturedAt: punch.capturedAt,
+        receivedAt: context.receivedAt,
+        workMode: payload.workMode ?? null,
+        location: payload.location ?? null,
+        envelope: punch.signed.envelope,
+        signature: punch.signed.signature,
+        signatureValid: outcome.signatureValid ?? true,
+        photoKey: outcome.photoKey ?? null,
+        status: outcome.status,
+        flags: outcome.flags,
+        rejectionReason: outcome.rejectionReason ?? null,
+        attendanceId: outcome.attendanceId ?? null,
+        faceVerificationId: outcome.faceVerificationId ?? null
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!stored) {
+      return this.unstored(punch.index, punch, 'duplicate', null);
+    }
+
+    return this.toResult(punch, stored);
+  }
+
+  /**
+   * Move the key's last counter and capture time forward past a signed punch that was stored
+   */
+  private async advanceAfter(key: OfflineDeviceKey, punch: DecodedPunch, result: PunchSyncResult): Promise<PunchSyncResult> {
+    if (!result.punchId) {
+      return result;
+    }
+
+    const [updated] = await db
+      .update(offlineDeviceKeys)
+      .set({
+        lastCounter: sql`greatest(${offlineDeviceKeys.lastCounter}, ${punch.payload.counter})`,
+        lastCapturedAt: sql`greatest(${offlineDeviceKeys.lastCapturedAt}, ${punch.capturedAt})`,
+        updatedAt: new Date()
+      })
+      .where(eq(offlineDeviceKeys.id, key.id))
+      .returning({ lastCounter: offlineDeviceKeys.lastCounter, lastCapturedAt: offlineDeviceKeys.lastCapturedAt });
+
+    // The next punch in the batch is checked against this one
+    if (updated) {
+      key.lastCounter = updated.lastCounter;
+      key.lastCapturedAt = updated.lastCapturedAt;
+    }
+
+    return result;
+  }
+
+  private decodeEnvelope(signed: SignedPunch, index: number): DecodedPunch | null {
+    try {
+      const payloadBytes = Buffer.from(signed.envelope, 'base64');
+      const parsed = envelopePayloadSchema.safeParse(JSON.parse(payloadBytes.toString('utf8')));
+      if (!parsed.success) {
+        return null;
+      }
+
+      return {
+        index,
+        signed,
+        payloadBytes,
+        payload: parsed.data,
+        capturedAt: new Date(parsed.data.capturedAt)
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private verifySignature(key: OfflineDeviceKey, punch: DecodedPunch): boolean {
+    try {
+      const publicKey = crypto.createPublicKey(key.publicKey);
+      const signature = Buffer.from(punch.signed.signature, 'base64');
+
+      if (key.algorithm === 'ed25519') {
+        return crypto.verify(null, punch.payloadBytes, publicKey, signature);
+      }
+
+      // ECDSA P-256 over SHA-256; DER or raw r||s (64 bytes, as WebCrypto produces)
+      return crypto.verify(
+        'sha256',
+        punch.payloadBytes,
+        { key: publicKey, dsaEncoding: signature.length === 64 ? 'ieee-p1363' : 'der' },
+        signature
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private parsePublicKey(algorithm: OfflineKeyAlgorithm, value: string): crypto.KeyObject | null {
+    try {
+      const publicKey = value.includes('-----BEGIN')
+        ? crypto.createPublicKey(value)
+        : crypto.createPublicKey({ key: Buffer.from(value, 'base64'), format: 'der', type: 'spki' });
+
+      if (algorithm === 'ed25519') {
+        return publicKey.asymmetricKeyType === 'ed25519' ? publicKey : null;
+      }
+
+      return publicKey.asymmetricKeyType === 'ec' && publicKey.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+        ? publicKey
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private toMetadata(context: SyncContext, punch: DecodedPunch, flags: string[]): Record<string, unknown> {
+    return {
+      deviceId: punch.payload.deviceId,
+      counter: punch.payload.counter,
+      capturedAt: punch.capturedAt,
+      receivedAt: context.receivedAt,
+      batchId: context.batchId,
+      location: punch.payload.location ?? null,
+      flags: [...flags]
+    };
+  }
+
+  private toResult(punch: DecodedPunch, stored: OfflinePunch): PunchSyncResult {
+    return {
+      index: punch.index,
+      deviceId: punch.payload.deviceId,
+      counter: stored.counter,
+      type: stored.punchType,
+      status: stored.status,
+      flags: (stored.flags as string[] | null) ?? [],
+      reason: stored.rejectionReason,
+      punchId: stored.id,
+      attendanceId: stored.attendanceId,
+      capturedAt: stored.capturedAt
+    };
+  }
+
+  private unstored(index: number, punch: DecodedPunch | null, status: PunchSyncResult['status'], reason: string | null): PunchSyncResult {
+    return {
+      index,
+      deviceId: punch?.payload.deviceId ?? null,
+      counter: punch?.payload.counter ?? null,
+      type: punch?.payload.type ?? null,
+      status,
+      flags: [],
+      reason,
+      punchId: null,
+      attendanceId: null,
+      capturedAt: punch?.capturedAt ?? null
+    };
+  }
+}
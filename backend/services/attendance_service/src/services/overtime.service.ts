@@ -0,0 +1,770 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { overtimeRuleSets, overtimeResults, overtimePeriodSummaries } from '../db/schema/overtime';
+import { logger } from '../utils/logger';
+import { ShiftService } from './shift.service';
+import { HolidayService } from './holiday.service';
+import { classifyRecord, OvertimeMinutes } from '../utils/overtime';
+import {
+  getLocalDateString,
+  getIsoWeekday,
+  addDaysToDateString,
+  zonedTimeToUtc
+} from '../utils/helpers';
+import { eq, and, asc, gte, lt, lte, ne, inArray, notInArray, isNotNull, sql } from 'drizzle-orm';
+
+export type OvertimeRuleSet = typeof overtimeRuleSets.$inferSelect;
+export type OvertimeResult = typeof overtimeResults.$inferSelect;
+export type OvertimePeriodSummary = typeof overtimePeriodSummaries.$inferSelect;
+
+export interface OvertimeRuleSetData {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  dailyOvertimeAfterMinutes?: number | null;
+  dailyDoubleTimeAfterMinutes?: number | null;
+  weeklyOvertimeAfterMinutes?: number | null;
+  weekStartsOn?: number;
+  nightStart?: string | null;
+  nightEnd?: string | null;
+  weekendDays?: number[];
+  holidayDates?: string[];
+  overtimeMultiplier?: number;
+  doubleTimeMultiplier?: number;
+  nightMultiplier?: number;
+  weekendMultiplier?: number;
+  holidayMultiplier?: number;
+  isActive?: boolean;
+}
+
+export interface OvertimeServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export class OvertimeService {
+  private readonly shiftService = new ShiftService();
+  private readonly holidayService = new HolidayService();
+
+  /**
+   * Create an overtime rule set
+   */
+  async createRuleSet(companyId: string, data: OvertimeRuleSetData): Promise<OvertimeServiceResult<OvertimeRuleSet>> {
+    try {
+      logger.info('Creating overtime rule set', {
+        service: 'attendance-service',
+        companyId,
+        name: data.name
+      });
+
+      const ruleSet = await db.transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx
+            .update(overtimeRuleSets)
+            .set({ isDefault: false, updatedAt: new Date() })
+            .where(eq(overtimeRuleSets.companyId, companyId));
+        }
+
+        const [created] = await tx.insert(overtimeRuleSets).values({
+          companyId,
+          ...this.toRuleSetValues(data),
+          name: data.name
+        }).returning();
+
+        return created;
+      });
+
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'Failed to create overtime rule set',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Overtime rule set created successfully',
+        data: ruleSet
+      };
+
+    } catch (error) {
+      logger.error('Failed to create overtime rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to create overtime rule set',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get overtime rule sets for a company
+   */
+  async getRuleSets(companyId: string, includeInactive: boolean = false): Promise<OvertimeServiceResult<OvertimeRuleSet[]>> {
+    try {
+      const whereConditions = [eq(overtimeRuleSets.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(overtimeRuleSets.isActive, true));
+      }
+
+      const ruleSets = await db
+        .select()
+        .from(overtimeRuleSets)
+        .where(and(...whereConditions))
+        .orderBy(asc(overtimeRuleSets.name));
+
+      return {
+        success: true,
+        data: ruleSets
+      };
+
+    } catch (error) {
+      logger.error('Failed to get overtime rule sets:', error);
+      return {
+        success: false,
+        message: 'Failed to get overtime rule sets',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get an overtime rule set by ID
+   */
+  async getRuleSet(companyId: string, ruleSetId: string): Promise<OvertimeServiceResult<OvertimeRuleSet>> {
+    try {
+      const [ruleSet] = await db
+        .select()
+        .from(overtimeRuleSets)
+        .where(
+          and(
+            eq(overtimeRuleSets.id, ruleSetId),
+            eq(overtimeRuleSets.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'Overtime rule set not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: ruleSet
+      };
+
+    } catch (error) {
+      logger.error('Failed to get overtime rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to get overtime rule set',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update an overtime rule set
+   */
+  async updateRuleSet(
+    companyId: string,
+    ruleSetId: string,
+    data: Partial<OvertimeRuleSetData>
+  ): Promise<OvertimeServiceResult<OvertimeRuleSet>> {
+    try {
+      const existing = await this.getRuleSet(companyId, ruleSetId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const ruleSet = await db.transaction(async (tx) => {
+        if (data.isDefault) {
+          await tx
+            .update(overtimeRuleSets)
+            .set({ isDefault: false, updatedAt: new Date() })
+            .where(
+              and(
+                eq(overtimeRuleSets.companyId, companyId),
+                ne(overtimeRuleSets.id, ruleSetId)
+              )
+            );
+        }
+
+        const [updated] = await tx
+          .update(overtimeRuleSets)
+          .set({
+            ...this.toRuleSetValues(data),
+            updatedAt: new Date()
+          })
+          .where(
+            and(
+              eq(overtimeRuleSets.id, ruleSetId),
+              eq(overtimeRuleSets.companyId, companyId)
+            )
+          )
+          .returning();
+
+        return updated;
+      });
+
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'Overtime rule set not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Overtime rule set updated', {
+        service: 'attendance-service',
+        companyId,
+        ruleSetId
+      });
+
+      return {
+        success: true,
+        message: 'Overtime rule set updated successfully',
+        data: ruleSet
+      };
+
+    } catch (error) {
+      logger.error('Failed to update overtime rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to update overtime rule set',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate an overtime rule set (kept for historical results)
+   */
+  async deleteRuleSet(companyId: string, ruleSetId: string): Promise<OvertimeServiceResult<OvertimeRuleSet>> {
+    try {
+      const [ruleSet] = await db
+        .update(overtimeRuleSets)
+        .set({
+          isActive: false,
+          isDefault: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(overtimeRuleSets.id, ruleSetId),
+            eq(overtimeRuleSets.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'Overtime rule set not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Overtime rule set deactivated', {
+        service: 'attendance-service',
+        companyId,
+        ruleSetId
+      });
+
+      return {
+        success: true,
+        message: 'Overtime rule set deactivated successfully',
+        data: ruleSet
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete overtime rule set:', error);
+      return {
+        success: false,
+        message: 'Failed to delete overtime rule set',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Classify a completed attendance record's minutes.
+   * The employee's whole week is recalculated because weekly overtime depends on earlier records.
+   */
+  async calculateForRecord(companyId: string, attendanceId: string): Promise<OvertimeServiceResult<OvertimeResult>> {
+    try {
+      const [record] = await db
+        .select({
+          userId: attendanceRecords.userId,
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          status: attendanceRecords.status
+        })
+        .from(attendanceRecords)
+        .where(
+          and(
+            eq(attendanceRecords.id, attendanceId),
+            eq(attendanceRecords.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!record) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (!record.clockOutTime || record.status === 'rejected') {
+        return {
+          success: false,
+          message: 'Overtime is only calculated for completed attendance records',
+          error: 'NOT_COMPLETED'
+        };
+      }
+
+      const ruleSet = await this.getDefaultRuleSet(companyId);
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'No default overtime rule set configured',
+          error: 'NO_RULE_SET'
+        };
+      }
+
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+      const workDate = getLocalDateString(record.clockInTime, timeZone);
+
+      await this.recalculateWeek(record.userId, companyId, ruleSet, timeZone, workDate);
+
+      const [result] = await db
+        .select()
+        .from(overtimeResults)
+        .where(eq(overtimeResults.attendanceId, attendanceId))
+        .limit(1);
+
+      if (!result) {
+        return {
+          success: false,
+          message: 'Failed to calculate overtime',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Overtime calculated for attendance record', {
+        service: 'attendance-service',
+        attendanceId,
+        ruleSetId: ruleSet.id,
+        workedMinutes: result.workedMinutes
+      });
+
+      return {
+        success: true,
+        message: 'Overtime calculated successfully',
+        data: result
+      };
+
+    } catch (error) {
+      logger.error('Failed to calculate overtime:', error);
+      return {
+        success: false,
+        message: 'Failed to calculate overtime',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the stored overtime result for an attendance record
+   */
+  async getRecordResult(companyId: string, attendanceId: string): Promise<OvertimeServiceResult<OvertimeResult>> {
+    try {
+      const [result] = await db
+        .select()
+        .from(overtimeResults)
+        .where(
+          and(
+            eq(overtimeResults.attendanceId, attendanceId),
+            eq(overtimeResults.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!result) {
+        return {
+          success: false,
+          message: 'Overtime result not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: result
+      };
+
+    } catch (error) {
+      logger.error('Failed to get overtime result:', error);
+      return {
+        success: false,
+        message: 'Failed to get overtime result',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Recalculate every employee's records in a pay period and store per-employee totals
+   */
+  async calculatePeriod(
+    companyId: string,
+    periodStart: string,
+    periodEnd: string,
+    userId?: string
+  ): Promise<OvertimeServiceResult<OvertimePeriodSummary[]>> {
+    try {
+      const ruleSet = await this.getDefaultRuleSet(companyId);
+      if (!ruleSet) {
+        return {
+          success: false,
+          message: 'No default overtime rule set configured',
+          error: 'NO_RULE_SET'
+        };
+      }
+
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+
+      const whereConditions = [
+        eq(attendanceRecords.companyId, companyId),
+        isNotNull(attendanceRecords.clockOutTime),
+        gte(attendanceRecords.clockInTime, zonedTimeToUtc(periodStart, '00:00', timeZone)),
+        lt(attendanceRecords.clockInTime, zonedTimeToUtc(addDaysToDateString(periodEnd, 1), '00:00', timeZone))
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(attendanceRecords.userId, userId));
+      }
+
+      const employees = await db
+        .selectDistinct({ userId: attendanceRecords.userId })
+        .from(attendanceRecords)
+        .where(and(...whereConditions));
+
+      const weekStarts: string[] = [];
+      for (
+        let weekStart = this.getWeekStart(periodStart, ruleSet.weekStartsOn);
+        weekStart <= periodEnd;
+        weekStart = addDaysToDateString(weekStart, 7)
+      ) {
+        weekStarts.push(weekStart);
+      }
+
+      const summaries: OvertimePeriodSummary[] = [];
+
+      for (const employee of employees) {
+        for (const weekStart of weekStarts) {
+          await this.recalculateWeek(employee.userId, companyId, ruleSet, timeZone, weekStart);
+        }
+
+        const [totals] = await db
+          .select({
+            recordCount: sql<number>`count(*)::int`,
+            workedMinutes: sql<number>`coalesce(sum(${overtimeResults.workedMinutes}), 0)::int`,
+            regularMinutes: sql<number>`coalesce(sum(${overtimeResults.regularMinutes}), 0)::int`,
+            dailyOvertimeMinutes: sql<number>`coalesce(sum(${overtimeResults.dailyOvertimeMinutes}), 0)::int`,
+            dailyDoubleTimeMinutes: sql<number>`coalesce(sum(${overtimeResults.dailyDoubleTimeMinutes}), 0)::int`,
+            weeklyOvertimeMinutes: sql<number>`coalesce(sum(${overtimeResults.weeklyOvertimeMinutes}), 0)::int`,
+            nightMinutes: sql<number>`coalesce(sum(${overtimeResults.nightMinutes}), 0)::int`,
+            weekendMinutes: sql<number>`coalesce(sum(${overtimeResults.weekendMinutes}), 0)::int`,
+            holidayMinutes: sql<number>`coalesce(sum(${overtimeResults.holidayMinutes}), 0)::int`
+          })
+          .from(overtimeResults)
+          .where(
+            and(
+              eq(overtimeResults.userId, employee.userId),
+              eq(overtimeResults.companyId, companyId),
+              gte(overtimeResults.workDate, periodStart),
+              lte(overtimeResults.workDate, periodEnd)
+            )
+          );
+
+        const values = {
+          recordCount: totals?.recordCount ?? 0,
+          workedMinutes: totals?.workedMinutes ?? 0,
+          regularMinutes: totals?.regularMinutes ?? 0,
+          dailyOvertimeMinutes: totals?.dailyOvertimeMinutes ?? 0,
+          dailyDoubleTimeMinutes: totals?.dailyDoubleTimeMinutes ?? 0,
+          weeklyOvertimeMinutes: totals?.weeklyOvertimeMinutes ?? 0,
+          nightMinutes: totals?.nightMinutes ?? 0,
+          weekendMinutes: totals?.weekendMinutes ?? 0,
+          holidayMinutes: totals?.holidayMinutes ?? 0,
+          calculatedAt: new Date(),
+          updatedAt: new Date()
+        };
+
+        const [summary] = await db
+          .insert(overtimePeriodSummaries)
+          .values({
+            userId: employee.userId,
+            companyId,
+            periodStart,
+            periodEnd,
+            ...values
+          })
+          .onConflictDoUpdate({
+            target: [overtimePeriodSummaries.userId, overtimePeriodSummaries.periodStart, overtimePeriodSummaries.periodEnd],
+            set: values
+          })
+          .returning();
+
+        if (summary) {
+          summaries.push(summary);
+        }
+      }
+
+      logger.info('Overtime calculated for pay period', {
+        service: 'attendance-service',
+        companyId,
+        periodStart,
+        periodEnd,
+        employeeCount: summaries.length
+      });
+
+      return {
+        success: true,
+        message: 'Pay period overtime calculated successfully',
+        data: summaries
+      };
+
+    } catch (error) {
+      logger.error('Failed to calculate pay period overtime:', error);
+      return {
+        success: false,
+        message: 'Failed to calculate pay period overtime',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get stored overtime totals for a pay period
+   */
+  async getPeriodSummaries(
+    companyId: string,
+    periodStart: string,
+    periodEnd: string,
+    userId?: string
+  ): Promise<OvertimeServiceResult<OvertimePeriodSummary[]>> {
+    try {
+      const whereConditions = [
+        eq(overtimePeriodSummaries.companyId, companyId),
+        eq(overtimePeriodSummaries.periodStart, periodStart),
+        eq(overtimePeriodSummaries.periodEnd, periodEnd)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(overtimePeriodSummaries.userId, userId));
+      }
+
+      const summaries = await db
+        .select()
+        .from(overtimePeriodSummaries)
+        .where(and(...whereConditions));
+
+      return {
+        success: true,
+        data: summaries
+      };
+
+    } catch (error) {
+      logger.error('Failed to get overtime period summaries:', error);
+      return {
+        success: false,
+        message: 'Failed to get overtime period summaries',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the company's active default rule set
+   */
+  private async getDefaultRuleSet(companyId: string): Promise<OvertimeRuleSet | null> {
+    const [ruleSet] = await db
+      .select()
+      .from(overtimeRuleSets)
+      .where(
+        and(
+          eq(overtimeRuleSets.companyId, companyId),
+          eq(overtimeRuleSets.isDefault, true),
+          eq(overtimeRuleSets.isActive, true)
+        )
+      )
+      .limit(1);
+
+    return ruleSet || null;
+  }
+
+  /**
+   * Replace the stored results for one employee's week, in clock-in order.
+   * Records locked by an approved timesheet keep their stored results, which still count toward the running totals.
+   */
+  private async recalculateWeek(
+    userId: string,
+    companyId: string,
+    ruleSet: OvertimeRuleSet,
+    timeZone: string,
+    localDate: string
+  ): Promise<void> {
+    const weekStart = this.getWeekStart(localDate, ruleSet.weekStartsOn);
+    const weekEnd = addDaysToDateString(weekStart, 6);
+
+    const records = await db
+      .select({
+        id: attendanceRecords.id,
+        userId: attendanceRecords.userId,
+        companyId: attendanceRecords.companyId,
+        clockInTime: attendanceRecords.clockInTime,
+        clockOutTime: attendanceRecords.clockOutTime,
+        breakTime: attendanceRecords.breakTime,
+        workedMinutes: attendanceRecords.workedMinutes,
+        geofenceId: attendanceRecords.geofenceId,
+        lockedAt: attendanceRecords.lockedAt
+      })
+      .from(attendanceRecords)
+      .where(
+        and(
+          eq(attendanceRecords.userId, userId),
+          eq(attendanceRecords.companyId, companyId),
+          isNotNull(attendanceRecords.clockOutTime),
+          ne(attendanceRecords.status, 'rejected'),
+          gte(attendanceRecords.clockInTime, zonedTimeToUtc(weekStart, '00:00', timeZone)),
+          lt(attendanceRecords.clockInTime, zonedTimeToUtc(addDaysToDateString(weekEnd, 1), '00:00', timeZone))
+        )
+      )
+      .orderBy(asc(attendanceRecords.clockInTime));
+
+    // Holiday calendars (company-wide, plus the record's site or the employee's home site) apply
+    // in addition to the rule set's own holiday dates
+    const homeSiteId = (await this.holidayService.getHomeSiteIds(companyId, [userId])).get(userId);
+    const holidaysBySite = new Map<string, Set<string>>();
+    for (const siteId of new Set(records.map(record => record.geofenceId ?? homeSiteId ?? ''))) {
+      const calendarHolidays = await this.holidayService.getHolidayDates(companyId, weekStart, weekEnd, siteId || undefined);
+      holidaysBySite.set(siteId, new Set([...((ruleSet.holidayDates as string[]) || []), ...calendarHolidays.keys()]));
+    }
+
+    const lockedIds = records.filter(record => record.lockedAt).map(record => record.id);
+    const lockedResults = new Map<string, OvertimeMinutes>();
+    if (lockedIds.length > 0) {
+      const stored = await db
+        .select()
+        .from(overtimeResults)
+        .where(inArray(overtimeResults.attendanceId, lockedIds));
+
+      for (const result of stored) {
+        lockedResults.set(result.attendanceId, result);
+      }
+    }
+
+    const dailyMinutes = new Map<string, number>();
+    let weeklyMinutes = 0;
+    const results: (typeof overtimeResults.$inferInsert)[] = [];
+
+    for (const record of records) {
+      const workDate = getLocalDateString(record.clockInTime, timeZone);
+      const locked = lockedResults.get(record.id);
+      const minutes = locked ?? classifyRecord(
+        record,
+        ruleSet,
+        timeZone,
+        workDate,
+        holidaysBySite.get(record.geofenceId ?? homeSiteId ?? '') ?? new Set(),
+        dailyMinutes.get(workDate) || 0,
+        weeklyMinutes
+      );
+
+      dailyMinutes.set(workDate, (dailyMinutes.get(workDate) || 0) + minutes.workedMinutes);
+      weeklyMinutes += minutes.regularMinutes + minutes.weeklyOvertimeMinutes;
+
+      if (locked) {
+        continue;
+      }
+
+      results.push({
+        attendanceId: record.id,
+        userId,
+        companyId,
+        ruleSetId: ruleSet.id,
+        workDate,
+        workedMinutes: minutes.workedMinutes,
+        regularMinutes: minutes.regularMinutes,
+        dailyOvertimeMinutes: minutes.dailyOvertimeMinutes,
+        dailyDoubleTimeMinutes: minutes.dailyDoubleTimeMinutes,
+        weeklyOvertimeMinutes: minutes.weeklyOvertimeMinutes,
+        nightMinutes: minutes.nightMinutes,
+        weekendMinutes: minutes.weekendMinutes,
+        holidayMinutes: minutes.holidayMinutes,
+        calculatedAt: new Date()
+      });
+    }
+
+    await db.transaction(async (tx) => {
+      // Drop results for records that were rejected or moved out of the week, but never those of locked records
+      await tx
+        .delete(overtimeResults)
+        .where(
+          and(
+            eq(overtimeResults.userId, userId),
+            eq(overtimeResults.companyId, companyId),
+            gte(overtimeResults.workDate, weekStart),
+            lte(overtimeResults.workDate, weekEnd),
+            ...(lockedResults.size > 0 ? [notInArray(overtimeResults.attendanceId, [...lockedResults.keys()])] : [])
+          )
+        );
+
+      if (results.length > 0) {
+        await tx
+          .delete(overtimeResults)
+          .where(inArray(overtimeResults.attendanceId, results.map(result => result.attendanceId)));
+
+        await tx.insert(overtimeResults).values(results);
+      }
+    });
+  }
+
+  // First day of the week containing a local date
+  private getWeekStart(localDate: string, weekStartsOn: number): string {
+    const offset = (getIsoWeekday(localDate) - weekStartsOn + 7) % 7;
+    return addDaysToDateString(localDate, -offset);
+  }
+
+  private toRuleSetValues(data: Partial<OvertimeRuleSetData>): Partial<typeof overtimeRuleSets.$inferInsert> {
+    const {
+      overtimeMultiplier,
+      doubleTimeMultiplier,
+      nightMultiplier,
+      weekendMultiplier,
+      holidayMultiplier,
+      ...rest
+    } = data;
+
+    return {
+      ...rest,
+      ...(overtimeMultiplier !== undefined && { overtimeMultiplier: overtimeMultiplier.toString() }),
+      ...(doubleTimeMultiplier !== undefined && { doubleTimeMultiplier: doubleTimeMultiplier.toString() }),
+      ...(nightMultiplier !== undefined && { nightMultiplier: nightMultiplier.toString() }),
+      ...(weekendMultiplier !== undefined && { weekendMultiplier: weekendMultiplier.toString() }),
+      ...(holidayMultiplier !== undefined && { holidayMultiplier: holidayMultiplier.toString() })
+    };
+  }
+}
@@ -0,0 +1,635 @@
+import { db } from '../config/database';
+import { payrollFormats, PayrollFormat, PayrollField, PayrollColumn } from '../config/payrollFormats';
+import { users } from '../db/schema/auth';
+import { timesheets } from '../db/schema/timesheet';
+import { payrollEmployeeMappings, payrollExports } from '../db/schema/payroll';
+import { logger } from '../utils/logger';
+import { PolicyService } from './policy.service';
+import { TimesheetService, PayPeriod } from './timesheet.service';
+import { eq, and, ne, desc } from 'drizzle-orm';
+
+export type PayrollExport = typeof payrollExports.$inferSelect;
+export type PayrollExportSummary = Omit<PayrollExport, 'content'>;
+export type PayrollEmployeeMapping = typeof payrollEmployeeMappings.$inferSelect;
+
+export interface PayrollFormatSummary {
+  id: string;
+  name: string;
+  description: string;
+  type: PayrollFormat['type'];
+  extension: string;
+  columns: string[];
+}
+
+export interface PayrollExportPreview {
+  format: string;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  rowCount: number;
+  employeeCount: number;
+  timesheetIds: string[];
+  totals: Record<string, number>;
+  warnings: string[];
+  errors: string[]; // Problems that block the export, e.g. an employee code too long for its fixed-width column
+}
+
+export interface PayrollEmployeeMappingData {
+  userId: string;
+  format: string;
+  externalEmployeeId: string;
+}
+
+export interface PayrollServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type PayrollValues = Partial<Record<PayrollField, string>>;
+
+// Free-text fields may be cut to a fixed-width column; codes, dates and hours must never be
+const TRUNCATABLE_FIELDS: PayrollField[] = ['firstName', 'lastName', 'fullName', 'email', 'department'];
+
+export class PayrollService {
+  private readonly policyService = new PolicyService();
+  private readonly timesheetService = new TimesheetService();
+
+  /**
+   * List the available payroll export formats
+   */
+  getFormats(): PayrollFormatSummary[] {
+    return Object.values(payrollFormats).map(format => ({
+      id: format.id,
+      name: format.name,
+      description: format.description,
+      type: format.type,
+      extension: format.extension,
+      columns: format.columns.map(column => column.header)
+    }));
+  }
+
+  /**
+   * Render a payroll file for a pay period without saving it
+   */
+  async previewExport(
+    companyId: string,
+    payPeriodId: string,
+    formatId: string
+  ): Promise<PayrollServiceResult<PayrollExportPreview>> {
+    try {
+      const format = payrollFormats[formatId];
+      if (!format) {
+        return {
+          success: false,
+          message: `Unknown payroll format: ${formatId}`,
+          error: 'INVALID_FORMAT'
+        };
+      }
+
+      const periodResult = await this.timesheetService.getPayPeriod(companyId, payPeriodId);
+      if (!periodResult.success || !periodResult.data) {
+        return {
+          success: false,
+          message: periodResult.message || 'Pay period not found',
+          error: periodResult.error || 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.buildExport(companyId, periodResult.data, format)
+      };
+
+    } catch (error) {
+      logger.error('Failed to preview payroll export:', error);
+      return {
+        success: false,
+        message: 'Failed to preview payroll export',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Generate a payroll file from approved timesheets and record it in the export history
+   */
+  async createExport(
+    companyId: string,
+    payPeriodId: string,
+    formatId: string,
+    exportedBy: string
+  ): Promise<PayrollServiceResult<PayrollExportSummary>> {
+    try {
+      const preview = await this.previewExport(companyId, payPeriodId, formatId);
+      if (!preview.success || !preview.data) {
+        return {
+          success: false,
+          message: preview.message || 'Failed to create payroll export',
+          error: preview.error || 'EXPORT_ERROR'
+        };
+      }
+
+      if (preview.data.errors.length > 0) {
+        return {
+          success: false,
+          message: `Payroll file can't be generated: ${preview.data.errors.join('; ')}`,
+          error: 'FIELD_OVERFLOW'
+        };
+      }
+
+      if (preview.data.employeeCount === 0) {
+        return {
+          success: false,
+          message: 'No approved timesheets in this pay period',
+          error: 'NO_APPROVED_TIMESHEETS'
+        };
+      }
+
+      const [created] = await db.insert(payrollExports).values({
+        companyId,
+        payPeriodId,
+        format: preview.data.format,
+        fileName: preview.data.fileName,
+        mimeType: preview.data.mimeType,
+        content: preview.data.content,
+        rowCount: preview.data.rowCount,
+        employeeCount: preview.data.employeeCount,
+        timesheetIds: preview.data.timesheetIds,
+        totals: preview.data.totals,
+        warnings: preview.data.warnings,
+        exportedBy
+      }).returning();
+
+      if (!created) {
+        return {
+          success: false,
+          message: 'Failed to create payroll export',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Payroll export created', {
+        service: 'attendance-service',
+        companyId,
+        payPeriodId,
+        exportId: created.id,
+        format: formatId,
+        employeeCount: created.employeeCount
+      });
+
+      const { content: _content, ...summary } = created;
+
+      return {
+        success: true,
+        message: 'Payroll export created successfully',
+        data: summary
+      };
+
+    } catch (error) {
+      logger.error('Failed to create payroll export:', error);
+      return {
+        success: false,
+        message: 'Failed to create payroll export',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the payroll export history for a company
+   */
+  async getExports(companyId: string, payPeriodId?: string): Promise<PayrollServiceResult<PayrollExportSummary[]>> {
+    try {
+      const whereConditions = [eq(payrollExports.companyId, companyId)];
+
+      if (payPeriodId) {
+        whereConditions.push(eq(payrollExports.payPeriodId, payPeriodId));
+      }
+
+      const exports = await db
+        .select({
+          id: payrollExports.id,
+          companyId: payrollExports.companyId,
+          payPeriodId: payrollExports.payPeriodId,
+          format: payrollExports.format,
+          fileName: payrollExports.fileName,
+          mimeType: payrollExports.mimeType,
+          rowCount: payrollExports.rowCount,
+          employeeCount: payrollExports.employeeCount,
+          timesheetIds: payrollExports.timesheetIds,
+          totals: payrollExports.totals,
+          warnings: payrollExports.warnings,
+          exportedBy: payrollExports.exportedBy,
+          createdAt: payrollExports.createdAt
+        })
+        .from(payrollExports)
+        .where(and(...whereConditions))
+        .orderBy(desc(payrollExports.createdAt));
+
+      return {
+        success: true,
+        data: exports
+      };
+
+    } catch (error) {
+      logger.error('Failed to get payroll exports:', error);
+      return {
+        success: false,
+        message: 'Failed to get payroll exports',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a payroll export including its file content
+   */
+  async getExport(companyId: string, exportId: string): Promise<PayrollServiceResult<PayrollExport>> {
+    try {
+      const [payrollExport] = await db
+        .select()
+        .from(payrollExports)
+        .where(
+          and(
+            eq(payrollExports.id, exportId),
+            eq(payrollExports.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!payrollExport) {
+        return {
+          success: false,
+          message: 'Payroll export not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: payrollExport
+      };
+
+    } catch (error) {
+      logger.error('Failed to get payroll export:', error);
+      return {
+        success: false,
+        message: 'Failed to get payroll export',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get provider-specific employee ID mappings
+   */
+  async getEmployeeMappings(companyId: string, format?: string): Promise<PayrollServiceResult<PayrollEmployeeMapping[]>> {
+    try {
+      const whereConditions = [eq(payrollEmployeeMappings.companyId, companyId)];
+
+      if (format) {
+        whereConditions.push(eq(payrollEmployeeMappings.format, format));
+      }
+
+      const mappings = await db
+        .select()
+        .from(payrollEmployeeMappings)
+        .where(and(...whereConditions));
+
+      return {
+        success: true,
+        data: mappings
+      };
+
+    } catch (error) {
+      logger.error('Failed to get payroll employee mappings:', error);
+      return {
+        success: false,
+        message: 'Failed to get payroll employee mappings',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Set the employee ID a payroll format should use for an employee
+   */
+  async upsertEmployeeMapping(
+    companyId: string,
+    data: PayrollEmployeeMappingData
+  ): Promise<PayrollServiceResult<PayrollEmployeeMapping>> {
+    try {
+      if (!payrollFormats[data.format]) {
+        return {
+          success: false,
+          message: `Unknown payroll format: ${data.format}`,
+          error: 'INVALID_FORMAT'
+        };
+      }
+
+      const [employee] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(
+          and(
+            eq(users.id, data.userId),
+            eq(users.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!employee) {
+        return {
+          success: false,
+          message: 'Employee not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [mapping] = await db
+        .insert(payrollEmployeeMappings)
+        .values({
+          companyId,
+          userId: data.userId,
+          format: data.format,
+          externalEmployeeId: data.externalEmployeeId
+        })
+        .onConflictDoUpdate({
+          target: [payrollEmployeeMappings.userId, payrollEmployeeMappings.format],
+          set: {
+            externalEmployeeId: data.externalEmployeeId,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      if (!mapping) {
+        return {
+          success: false,
+          message: 'Failed to save payroll employee mapping',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Payroll employee mapping saved successfully',
+        data: mapping
+      };
+
+    } catch (error) {
+      logger.error('Failed to save payroll employee mapping:', error);
+      return {
+        success: false,
+        message: 'Failed to save payroll employee mapping',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Remove a provider-specific employee ID mapping
+   */
+  async deleteEmployeeMapping(companyId: string, mappingId: string): Promise<PayrollServiceResult<PayrollEmployeeMapping>> {
+    try {
+      const [mapping] = await db
+        .delete(payrollEmployeeMappings)
+        .where(
+          and(
+            eq(payrollEmployeeMappings.id, mappingId),
+            eq(payrollEmployeeMappings.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!mapping) {
+        return {
+          success: false,
+          message: 'Payroll employee mapping not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Payroll employee mapping deleted successfully',
+        data: mapping
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete payroll employee mapping:', error);
+      return {
+        success: false,
+        message: 'Failed to delete payroll employee mapping',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Turn the approved timesheets of a pay period into a payroll file
+   */
+  private async buildExport(companyId: string, payPeriod: PayPeriod, format: PayrollFormat): Promise<PayrollExportPreview> {
+    const approved = await db
+      .select({
+        timesheet: timesheets,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        department: users.department,
+        employeeId: users.employeeId
+      })
+      .from(timesheets)
+      .innerJoin(users, eq(timesheets.userId, users.id))
+      .where(
+        and(
+          eq(timesheets.companyId, companyId),
+          eq(timesheets.payPeriodId, payPeriod.id),
+          eq(timesheets.status, 'approved')
+        )
+      );
+
+    const pending = await db
+      .select({ id: timesheets.id })
+      .from(timesheets)
+      .where(
+        and(
+          eq(timesheets.companyId, companyId),
+          eq(timesheets.payPeriodId, payPeriod.id),
+          ne(timesheets.status, 'approved')
+        )
+      );
+
+    const mappingResult = await this.getEmployeeMappings(companyId, format.id);
+    const externalIds = new Map((mappingResult.data || []).map(mapping => [mapping.userId, mapping.externalEmployeeId]));
+    const policy = await this.policyService.getPolicy(companyId);
+
+    const warnings: string[] = [];
+    const totals: Record<string, number> = {
+      workedMinutes: 0,
+      regularMinutes: 0,
+      overtimeMinutes: 0,
+      doubleTimeMinutes: 0,
+      breakMinutes: 0,
+      nightMinutes: 0,
+      weekendMinutes: 0,
+      holidayMinutes: 0,
+      leaveMinutes: 0,
+      paidLeaveMinutes: 0
+    };
+
+    if (pending.length > 0) {
+      warnings.push(`${pending.length} timesheet(s) in this pay period are not approved and were not exported`);
+    }
+
+    const usesCompanyCode = format.columns.some(column => column.field === 'companyCode');
+    if (usesCompanyCode && !policy.payrollCompanyCode) {
+      warnings.push('No payroll company code is set in the attendance policy');
+    }
+
+    const rows: PayrollValues[] = [];
+
+    for (const entry of approved) {
+      const { timesheet } = entry;
+      const employeeCode = externalIds.get(timesheet.userId) || entry.employeeId || '';
+
+      if (!employeeCode) {
+        warnings.push(`No payroll employee ID for ${entry.firstName} ${entry.lastName}`);
+      }
+
+      for (const key of Object.keys(totals)) {
+        totals[key] = (totals[key] || 0) + Number(timesheet[key as keyof typeof timesheet] || 0);
+      }
+
+      const values: PayrollValues = {
+        employeeCode,
+        firstName: entry.firstName,
+        lastName: entry.lastName,
+        fullName: `${entry.firstName} ${entry.lastName}`,
+        email: entry.email,
+        department: entry.department || '',
+        companyCode: policy.payrollCompanyCode || '',
+        periodStart: this.formatDate(payPeriod.startDate, format.dateFormat),
+        periodEnd: this.formatDate(payPeriod.endDate, format.dateFormat),
+        workedHours: this.formatHours(timesheet.workedMinutes, format.hoursDecimals),
+        regularHours: this.formatHours(timesheet.regularMinutes, format.hoursDecimals),
+        overtimeHours: this.formatHours(timesheet.overtimeMinutes, format.hoursDecimals),
+        doubleTimeHours: this.formatHours(timesheet.doubleTimeMinutes, format.hoursDecimals),
+        breakHours: this.formatHours(timesheet.breakMinutes, format.hoursDecimals),
+        nightHours: this.formatHours(timesheet.nightMinutes, format.hoursDecimals),
+        weekendHours: this.formatHours(timesheet.weekendMinutes, format.hoursDecimals),
+        holidayHours: this.formatHours(timesheet.holidayMinutes, format.hoursDecimals),
+        paidLeaveHours: this.formatHours(timesheet.paidLeaveMinutes, format.hoursDecimals),
+        unpaidLeaveHours: this.formatHours(timesheet.leaveMinutes - timesheet.paidLeaveMinutes, format.hoursDecimals)
+      };
+
+      if (format.layout === 'earnings') {
+        for (const earning of format.earnings || []) {
+          const hours = values[earning.field] || '0';
+          if (Number(hours) > 0) {
+            rows.push({ ...values, earningCode: earning.code, hours });
+          }
+        }
+      } else {
+        rows.push(values);
+      }
+    }
+
+    const errors = format.type === 'fixed-width' ? this.checkWidths(format, rows, warnings) : [];
+
+    const lines = rows.map(row => this.renderLine(format, format.columns.map(column => this.getColumnValue(column, row))));
+    if (format.includeHeader) {
+      lines.unshift(this.renderLine(format, format.columns.map(column => column.header)));
+    }
+
+    return {
+      format: format.id,
+      fileName: `payroll_${format.id}_${payPeriod.startDate}_${payPeriod.endDate}.${format.extension}`,
+      mimeType: format.mimeType,
+      content: lines.length > 0 ? `${lines.join('\r\n')}\r\n` : '',
+      rowCount: rows.length,
+      employeeCount: approved.length,
+      timesheetIds: approved.map(entry => entry.timesheet.id),
+      totals,
+      warnings,
+      errors
+    };
+  }
+
+  /**
+   * Find values longer than their fixed-width column. Free text is truncated with a warning;
+   * anything else would be written wrong, so it is returned as an error.
+   */
+  private checkWidths(format: PayrollFormat, rows: PayrollValues[], warnings: string[]): string[] {
+    const errors: string[] = [];
+
+    for (const row of rows) {
+      for (const column of format.columns) {
+        const value = this.getColumnValue(column, row);
+        if (column.width === undefined || value.length <= column.width) {
+          continue;
+        }
+
+        if (column.field && TRUNCATABLE_FIELDS.includes(column.field)) {
+          warnings.push(`${column.header} of ${row.fullName} was cut to ${column.width} characters`);
+        } else {
+          errors.push(`${column.header} "${value}" of ${row.fullName} is longer than ${column.width} characters`);
+        }
+      }
+    }
+
+    return [...new Set(errors)];
+  }
+
+  private getColumnValue(column: PayrollColumn, row: PayrollValues): string {
+    if (column.field) {
+      return row[column.field] ?? '';
+    }
+    return column.value ?? '';
+  }
+
+  private renderLine(format: PayrollFormat, values: string[]): string {
+    if (format.type === 'fixed-width') {
+      return values.map((value, index) => {
+        const column = format.columns[index]!;
+        const width = column.width ?? value.length;
+        const padChar = column.padChar ?? ' ';
+        const fitted = value.slice(0, width);
+        return column.align === 'right' ? fitted.padStart(width, padChar) : fitted.padEnd(width, padChar);
+      }).join('');
+    }
+
+    const delimiter = format.delimiter ?? ',';
+    return values.map(value => this.escapeDelimited(value, delimiter)).join(delimiter);
+  }
+
+  // Quote values containing the delimiter, quotes or line breaks. Text starting like a formula
+  // (=, +, -, @, tab or carriage return) gets a leading ' so spreadsheets show it instead of running it.
+  private escapeDelimited(value: string, delimiter: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+    if (safe.includes(delimiter) || safe.includes('"') || /[\r\n]/.test(safe)) {
+      return `"${safe.replace(/"/g, '""')}"`;
+    }
+    return safe;
+  }
+
+  private formatHours(minutes: number, decimals: number): string {
+    return (minutes / 60).toFixed(decimals);
+  }
+
+  private formatDate(localDate: string, dateFormat: PayrollFormat['dateFormat']): string {
+    const [year = '', month = '', day = ''] = localDate.split('-');
+
+    switch (dateFormat) {
+      case 'MM/DD/YYYY':
+        return `${month}/${day}/${year}`;
+      case 'YYYYMMDD':
+        return `${year}${month}${day}`;
+      default:
+        return localDate;
+    }
+  }
+}
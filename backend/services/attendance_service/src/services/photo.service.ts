@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { attendanceRecords } from '../db/schema/attendance';
+import { logger } from '../utils/logger';
+import { getStorageDriver, LocalStorageDriver, StoredObject } from './storage.service';
+import { eq, or, like, asc } from 'drizzle-orm';
+
+export type PhotoKind = 'clock-in' | 'clock-out';
+
+export interface PhotoUpload {
+  buffer: Buffer;
+  mimetype: string;
+}
+
+export interface PhotoLink {
+  url: string;
+  expiresAt: Date | null; // null for photos saved before object storage
+}
+
+export interface AttendancePhotos {
+  attendanceId: string;
+  clockIn: PhotoLink | null;
+  clockOut: PhotoLink | null;
+  photosPurgedAt: Date | null; // Set once the retention policy removed the photos
+}
+
+export interface PhotoRequester {
+  userId: string;
+  companyId: string;
+  isAdmin: boolean;
+}
+
+export interface PhotoServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+const DATA_URL = /^data:(image\/[a-z0-9.+-]+);base64,(.+)$/s;
+
+export class PhotoService {
+  /**
+   * Store a clock-in or clock-out photo and return its key. Throws if the storage is unavailable.
+   */
+  async storeAttendancePhoto(companyId: string, userId: string, kind: PhotoKind, photo: PhotoUpload, takenAt: Date): Promise<string> {
+    const year = takenAt.getUTCFullYear();
+    const month = String(takenAt.getUTCMonth() + 1).padStart(2, '0');
+    const extension = EXTENSIONS[photo.mimetype] ?? 'jpg';
+    const key = `attendance/${companyId}/${userId}/${year}/${month}/${crypto.randomUUID()}-${kind}.${extension}`;
+
+    await getStorageDriver().put(key, photo.buffer, photo.mimetype);
+
+    return key;
+  }
+
+  /**
+   * Remove a photo whose record was never saved. Failures are logged, not thrown.
+   */
+  async deletePhoto(key: string): Promise<void> {
+    try {
+      await getStorageDriver().delete(key);
+    } catch (error) {
+      logger.warn('Failed to delete photo', {
+        service: 'attendance-service',
+        key,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Short-lived URLs for a record's photos. Employees get their own, admins any in their company.
+   */
+  async getAttendancePhotos(attendanceId: string, requester: PhotoRequester): Promise<PhotoServiceResult<AttendancePhotos>> {
+    try {
+      const [record] = await db
+        .select({
+          id: attendanceRecords.id,
+          userId: attendanceRecords.userId,
+          companyId: attendanceRecords.companyId,
+          photoKey: attendanceRecords.photoKey,
+          clockOutPhotoKey: attendanceRecords.clockOutPhotoKey,
+          photoUrl: attendanceRecords.photoUrl,
+          clockOutPhotoUrl: attendanceRecords.clockOutPhotoUrl,
+          photosPurgedAt: attendanceRecords.photosPurgedAt
+        })
+        .from(attendanceRecords)
+        .where(eq(attendanceRecords.id, attendanceId))
+        .limit(1);
+
+      if (!record || record.companyId !== requester.companyId || (!requester.isAdmin && record.userId !== requester.userId)) {
+        return {
+          success: false,
+          message: 'Attendance record not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          attendanceId: record.id,
+          clockIn: await this.getPhotoLink(record.photoKey, record.photoUrl),
+          clockOut: await this.getPhotoLink(record.clockOutPhotoKey, record.clockOutPhotoUrl),
+          photosPurgedAt: record.photosPurgedAt
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get attendance photos:', error);
+      return {
+        success: false,
+        message: 'Failed to get attendance photos',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Serve a photo through a signed URL from the local driver
+   */
+  async getSignedPhoto(key: string, expires: number, signature: string): Promise<PhotoServiceResult<StoredObject>> {
+    try {
+      const storage = getStorageDriver();
+
+      if (!(storage instanceof LocalStorageDriver) || !storage.verifySignature(key, expires, signature)) {
+        return {
+          success: false,
+          message: 'Invalid or expired photo link',
+          error: 'INVALID_SIGNATURE'
+        };
+      }
+
+      const photo = await storage.get(key);
+      if (!photo) {
+        return {
+          success: false,
+          message: 'Photo not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: photo
+      };
+
+    } catch (error) {
+      logger.error('Failed to get signed photo:', error);
+      return {
+        success: false,
+        message: 'Failed to get photo',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Move base64 photos saved before object storage into it, oldest records first.
+   * Returns the number of records moved.
+   */
+  async migrateLegacyPhotos(limit: number = 100): Promise<number> {
+    const records = await db
+      .select({
+        id: attendanceRecords.id,
+        userId: attendanceRecords.userId,
+        companyId: attendanceRecords.companyId,
+        clockInTime: attendanceRecords.clockInTime,
+        clockOutTime: attendanceRecords.clockOutTime,
+        photoUrl: attendanceRecords.photoUrl,
+        clockOutPhotoUrl: attendanceRecords.clockOutPhotoUrl
+      })
+      .from(attendanceRecords)
+      .where(or(like(attendanceRecords.photoUrl, 'data:%'), like(attendanceRecords.clockOutPhotoUrl, 'data:%')))
+      .orderBy(asc(attendanceRecords.clockInTime))
+      .limit(limit);
+
+    let moved = 0;
+    for (const record of records) {
+      const update: Partial<typeof attendanceRecords.$inferInsert> = {};
+
+      if (record.photoUrl?.startsWith('data:')) {
+        update.photoKey = await this.moveDataUrl(record, 'clock-in', record.photoUrl, record.clockInTime);
+        update.photoUrl = null;
+      }
+
+      if (record.clockOutPhotoUrl?.startsWith('data:')) {
+        update.clockOutPhotoKey = await this.moveDataUrl(record, 'clock-out', record.clockOutPhotoUrl, record.clockOutTime ?? record.clockInTime);
+        update.clockOutPhotoUrl = null;
+      }
+
+      // Not touching updatedAt: moving the photo isn't a change to the record
+      await db
+        .update(attendanceRecords)
+        .set(update)
+        .where(eq(attendanceRecords.id, record.id));
+
+      moved++;
+    }
+
+    if (moved > 0) {
+      logger.info('Legacy attendance photos moved to storage', {
+        service: 'attendance-service',
+        records: moved
+      });
+    }
+
+    return moved;
+  }
+
+  /**
+   * Upload a base64 data URL and return its key, or null for one that can't be decoded (it's dropped)
+   */
+  private async moveDataUrl(
+    record: { id: string; userId: string; companyId: string },
+    kind: PhotoKind,
+    dataUrl: string,
+    takenAt: Date
+  ): Promise<string | null> {
+    const match = DATA_URL.exec(dataUrl);
+    if (!match) {
+      logger.warn('Dropping undecodable legacy photo', {
+        service: 'attendance-service',
+        attendanceId: record.id,
+        kind
+      });
+      return null;
+    }
+
+    return this.storeAttendancePhoto(record.companyId, record.userId, kind, {
+      mimetype: match[1]!,
+      buffer: Buffer.from(match[2]!, 'base64')
+    }, takenAt);
+  }
+
+  private async getPhotoLink(key: string | null, legacyUrl: string | null): Promise<PhotoLink | null> {
+    if (key) {
+      return {
+        url: await getStorageDriver().getSignedUrl(key, env.PHOTO_URL_TTL_SECONDS),
+        expiresAt: new Date(Date.now() + env.PHOTO_URL_TTL_SECONDS * 1000)
+      };
+    }
+
+    return legacyUrl ? { url: legacyUrl, expiresAt: null } : null;
+  }
+}
@@ -0,0 +1,123 @@
+import { db } from '../config/database';
+import { attendancePolicies } from '../db/schema/policy';
+import { logger } from '../utils/logger';
+import { eq } from 'drizzle-orm';
+
+export type AttendancePolicy = typeof attendancePolicies.$inferSelect;
+
+export type UpdateAttendancePolicyData = Partial<
+  Omit<typeof attendancePolicies.$inferInsert, 'id' | 'companyId' | 'createdAt' | 'updatedAt'>
+>;
+
+export interface AttendancePolicyResult {
+  success: boolean;
+  message?: string;
+  data?: AttendancePolicy;
+  error?: string;
+}
+
+export class PolicyService {
+  /**
+   * Get a company's attendance policy, creating it with defaults on first access
+   */
+  async getPolicy(companyId: string): Promise<AttendancePolicy> {
+    const [existing] = await db
+      .select()
+      .from(attendancePolicies)
+      .where(eq(attendancePolicies.companyId, companyId))
+      .limit(1);
+
+    if (existing) {
+      return existing;
+    }
+
+    await db
+      .insert(attendancePolicies)
+      .values({ companyId })
+      .onConflictDoNothing({ target: attendancePolicies.companyId });
+
+    const [created] = await db
+      .select()
+      .from(attendancePolicies)
+      .where(eq(attendancePolicies.companyId, companyId))
+      .limit(1);
+
+    if (!created) {
+      throw new Error('Failed to initialize attendance policy');
+    }
+
+    return created;
+  }
+
+  /**
+   * Get a company's attendance policy
+   */
+  async getCompanyPolicy(companyId: string): Promise<AttendancePolicyResult> {
+    try {
+      const policy = await this.getPolicy(companyId);
+
+      return {
+        success: true,
+        data: policy
+      };
+
+    } catch (error) {
+      logger.error('Failed to get attendance policy:', error);
+      return {
+        success: false,
+        message: 'Failed to get attendance policy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a company's attendance policy
+   */
+  async updatePolicy(companyId: string, data: UpdateAttendancePolicyData): Promise<AttendancePolicyResult> {
+    try {
+      logger.info('Updating attendance policy', {
+        service: 'attendance-service',
+        companyId,
+        fields: Object.keys(data)
+      });
+
+      const [policy] = await db
+        .insert(attendancePolicies)
+        .values({
+          ...data,
+          companyId
+        })
+        .onConflictDoUpdate({
+          target: attendancePolicies.companyId,
+          set: {
+            ...data,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      if (!policy) {
+        return {
+          success: false,
+          message: 'Failed to update attendance policy',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Attendance policy updated successfully',
+        data: policy
+      };
+
+    } catch (error) {
+      logger.error('Failed to update attendance policy:', error);
+      return {
+        success: false,
+        message: 'Failed to update attendance policy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
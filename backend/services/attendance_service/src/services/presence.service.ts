@@ -0,0 +1,400 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { attendanceBreaks } from '../db/schema/break';
+import { users } from '../db/schema/auth';
+import { userTeams } from '../db/schema/team';
+import { geofenceSettings } from '../db/schema/geofence';
+import { logger } from '../utils/logger';
+import { ShiftService, ShiftInstance } from './shift.service';
+import { LeaveService } from './leave.service';
+import { HolidayService } from './holiday.service';
+import { DailyStatusService, CompanyDay } from './dailyStatus.service';
+import { getLocalDateString, getIsoWeekday, addDaysToDateString, zonedTimeToUtc } from '../utils/helpers';
+import { eq, and, asc, gte, isNull, inArray, or, sql, SQL } from 'drizzle-orm';
+
+type AttendanceRow = typeof attendanceRecords.$inferSelect;
+
+export type PresenceState =
+  | 'onsite'
+  | 'remote'
+  | 'on_break'
+  | 'on_leave'
+  | 'late'
+  | 'not_in'
+  | 'clocked_out'
+  | 'absent'
+  | 'off';
+
+export interface PresenceFilters {
+  department?: string;
+  teamId?: string;
+  geofenceId?: string;
+  state?: PresenceState;
+}
+
+export interface PresenceEntry {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  department: string | null;
+  state: PresenceState;
+  since: Date | null; // Clock-in, break start, clock-out or expected start, depending on the state
+  attendanceId: string | null;
+  workMode: AttendanceRow['workMode'] | null;
+  geofenceId: string | null;
+  geofenceName: string | null;
+  lateMinutes: number;
+  expectedStart: Date | null;
+  expectedEnd: Date | null;
+  leaveRequestId: string | null;
+}
+
+export interface PresenceBoard {
+  date: string;
+  asOf: Date;
+  total: number;
+  counts: Partial<Record<PresenceState, number>>;
+  employees: PresenceEntry[];
+}
+
+// For reception screens: no IDs beyond the employee's, last names shortened to an initial
+export interface CompactPresenceBoard {
+  asOf: Date;
+  total: number;
+  counts: Partial<Record<PresenceState, number>>;
+  sites: { geofenceId: string; name: string; count: number }[];
+  employees: { userId: string; name: string; state: PresenceState; site: string | null; since: Date | null }[];
+}
+
+export interface PresenceServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type PresenceRecord = {
+  id: string;
+  userId: string;
+  clockInTime: Date;
+  clockOutTime: Date | null;
+  workMode: AttendanceRow['workMode'];
+  locationType: AttendanceRow['locationType'];
+  geofenceId: string | null;
+  geofenceName: string | null;
+  lateMinutes: number | null;
+};
+
+type Expectation = {
+  start: Date;
+  end: Date;
+  toleranceMinutes: number;
+};
+
+export class PresenceService {
+  private readonly shiftService = new ShiftService();
+  private readonly leaveService = new LeaveService();
+  private readonly holidayService = new HolidayService();
+  private readonly dailyStatusService = new DailyStatusService();
+
+  /**
+   * Where every active employee in scope is right now.
+   * Counts cover the whole scope; the geofence and state filters only narrow the employee list.
+   */
+  async getPresence(
+    companyId: string,
+    filters: PresenceFilters = {},
+    now: Date = new Date()
+  ): Promise<PresenceServiceResult<PresenceBoard>> {
+    try {
+      const userConditions: SQL[] = [
+        eq(users.companyId, companyId),
+        eq(users.isActive, true)
+      ];
+
+      if (filters.department) {
+        userConditions.push(eq(users.department, filters.department));
+      }
+
+      if (filters.teamId) {
+        userConditions.push(sql`${users.id} in (select ${userTeams.userId} from ${userTeams} where ${userTeams.teamId} = ${filters.teamId} and ${userTeams.isActive} = true)`);
+      }
+
+      const employees = await db
+        .select({
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department
+        })
+        .from(users)
+        .where(and(...userConditions))
+        .orderBy(asc(users.lastName), asc(users.firstName));
+
+      const company = await this.dailyStatusService.getCompanyDay(companyId);
+      const today = getLocalDateString(now, company.timezone);
+      const board: PresenceBoard = { date: today, asOf: now, total: employees.length, counts: {}, employees: [] };
+
+      if (employees.length === 0) {
+        return { success: true, data: board };
+      }
+
+      const employeeIds = employees.map(employee => employee.id);
+
+      // Open records whenever they started (overnight shifts), plus everything clocked in today
+      const records = await db
+        .select({
+          id: attendanceRecords.id,
+          userId: attendanceRecords.userId,
+          clockInTime: attendanceRecords.clockInTime,
+          clockOutTime: attendanceRecords.clockOutTime,
+          workMode: attendanceRecords.workMode,
+          locationType: attendanceRecords.locationType,
+          geofenceId: attendanceRecords.geofenceId,
+          geofenceName: geofenceSettings.name,
+          lateMinutes: attendanceRecords.lateMinutes
+        })
+        .from(attendanceRecords)
+        .leftJoin(geofenceSettings, eq(attendanceRecords.geofenceId, geofenceSettings.id))
+        .where(
+          and(
+            eq(attendanceRecords.companyId, companyId),
+            inArray(attendanceRecords.userId, employeeIds),
+            sql`${attendanceRecords.status} is distinct from 'rejected'`,
+            or(
+              isNull(attendanceRecords.clockOutTime),
+              gte(attendanceRecords.clockInTime, zonedTimeToUtc(today, '00:00', company.timezone))
+            )
+          )
+        )
+        .orderBy(asc(attendanceRecords.clockInTime));
+
+      const recordsByUser = new Map<string, PresenceRecord[]>();
+      for (const record of records) {
+        const userRecords = recordsByUser.get(record.userId) ?? [];
+        userRecords.push(record);
+        recordsByUser.set(record.userId, userRecords);
+      }
+
+      const openRecordIds = records.filter(record => !record.clockOutTime).map(record => record.id);
+      const breakStarts = new Map<string, Date>();
+      if (openRecordIds.length > 0) {
+        const openBreaks = await db
+          .select({ attendanceId: attendanceBreaks.attendanceId, startTime: attendanceBreaks.startTime })
+          .from(attendanceBreaks)
+          .where(and(inArray(attendanceBreaks.attendanceId, openRecordIds), isNull(attendanceBreaks.endTime)));
+
+        for (const openBreak of openBreaks) {
+          breakStarts.set(openBreak.attendanceId, openBreak.startTime);
+        }
+      }
+
+      const leaveByUser = new Map<string, string>();
+      for (const day of await this.leaveService.getApprovedLeaveDays(companyId, today, today)) {
+        if (!leaveByUser.has(day.userId)) {
+          leaveByUser.set(day.userId, day.requestId);
+        }
+      }
+
+      // Holidays of the site the employee is at, otherwise their home site (company-wide calendars always apply)
+      const homeSiteIds = await this.holidayService.getHomeSiteIds(companyId, employeeIds);
+      const holidaysBySite = new Map<string, string | null>();
+
+      for (const employee of employees) {
+        const employeeRecords = recordsByUser.get(employee.id) ?? [];
+        const siteId = employeeRecords.find(record => record.geofenceId)?.geofenceId ?? homeSiteIds.get(employee.id) ?? '';
+        if (!holidaysBySite.has(siteId)) {
+          const holidayDates = await this.holidayService.getHolidayDates(companyId, today, today, siteId || undefined);
+          holidaysBySite.set(siteId, holidayDates.get(today) ?? null);
+        }
+
+        // Yesterday's shifts cover overnight shifts still running this morning
+        const shiftsResult = await this.shiftService.getScheduledShifts(
+          employee.id,
+          companyId,
+          addDaysToDateString(today, -1),
+          today
+        );
+        if (!shiftsResult.success) {
+          throw new Error(shiftsResult.message || 'Failed to get scheduled shifts');
+        }
+
+        const entry: PresenceEntry = {
+          userId: employee.id,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          department: employee.department,
+          ...this.computeState(
+            today,
+            company,
+            this.currentShift(shiftsResult.data || [], today, now),
+            employeeRecords,
+            breakStarts,
+            leaveByUser.get(employee.id) ?? null,
+            holidaysBySite.get(siteId) ?? null,
+            now
+          )
+        };
+
+        board.counts[entry.state] = (board.counts[entry.state] ?? 0) + 1;
+
+        if (filters.geofenceId && entry.geofenceId !== filters.geofenceId) {
+          continue;
+        }
+        if (filters.state && entry.state !== filters.state) {
+          continue;
+        }
+
+        board.employees.push(entry);
+      }
+
+      return {
+        success: true,
+        data: board
+      };
+
+    } catch (error) {
+      logger.error('Failed to get presence:', error);
+      return {
+        success: false,
+        message: 'Failed to get presence',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Reduce a presence board to what a reception screen shows: counts, headcount per site and names
+   */
+  toCompact(board: PresenceBoard): CompactPresenceBoard {
+    const sites = new Map<string, { geofenceId: string; name: string; count: number }>();
+
+    for (const entry of board.employees) {
+      if ((entry.state === 'onsite' || entry.state === 'on_break') && entry.geofenceId) {
+        const site = sites.get(entry.geofenceId) ?? { geofenceId: entry.geofenceId, name: entry.geofenceName ?? '', count: 0 };
+        site.count++;
+        sites.set(entry.geofenceId, site);
+      }
+    }
+
+    return {
+      asOf: board.asOf,
+      total: board.total,
+      counts: board.counts,
+      sites: [...sites.values()].sort((a, b) => a.name.localeCompare(b.name)),
+      employees: board.employees.map(entry => ({
+        userId: entry.userId,
+        name: entry.lastName ? `${entry.firstName} ${entry.lastName.charAt(0)}.` : entry.firstName,
+        state: entry.state,
+        site: entry.state === 'onsite' || entry.state === 'on_break' ? entry.geofenceName : null,
+        since: entry.since
+      }))
+    };
+  }
+
+  /**
+   * The shift running now, otherwise the one starting today
+   */
+  private currentShift(shifts: ShiftInstance[], today: string, now: Date): ShiftInstance | null {
+    return shifts.find(shift => shift.scheduledStart <= now && now < shift.scheduledEnd)
+      ?? shifts.find(shift => shift.date === today)
+      ?? null;
+  }
+
+  /**
+   * State of one employee now. An open record wins (on break, remote or onsite), then clocked out today,
+   * approved leave, and finally the expected start: late once past the tolerance, absent once the day is over.
+   * Expected hours follow the daily status rules: the shift, or company work hours on non-holiday work days.
+   */
+  private computeState(
+    today: string,
+    company: CompanyDay,
+    shift: ShiftInstance | null,
+    records: PresenceRecord[],
+    breakStarts: Map<string, Date>,
+    leaveRequestId: string | null,
+    holidayName: string | null,
+    now: Date
+  ): Omit<PresenceEntry, 'userId' | 'firstName' | 'lastName' | 'department'> {
+    let expectation: Expectation | null = null;
+
+    if (shift) {
+      expectation = {
+        start: shift.scheduledStart,
+        end: shift.scheduledEnd,
+        toleranceMinutes: Math.max(shift.graceInMinutes, company.lateToleranceMinutes)
+      };
+    } else if (company.workDays.includes(getIsoWeekday(today)) && !holidayName) {
+      expectation = {
+        start: zonedTimeToUtc(today, company.workHoursStart, company.timezone),
+        end: zonedTimeToUtc(today, company.workHoursEnd, company.timezone),
+        toleranceMinutes: company.lateToleranceMinutes
+      };
+    }
+
+    const base = {
+      attendanceId: null,
+      workMode: null,
+      geofenceId: null,
+      geofenceName: null,
+      lateMinutes: 0,
+      expectedStart: expectation?.start ?? null,
+      expectedEnd: expectation?.end ?? null,
+      leaveRequestId
+    };
+
+    const open = records.find(record => !record.clockOutTime);
+    if (open) {
+      const breakStart = breakStarts.get(open.id);
+      const isRemote = open.workMode === 'remote' || open.locationType === 'home' || open.locationType === 'alternate';
+
+      let state: PresenceState = 'onsite';
+      if (breakStart) {
+        state = 'on_break';
+      } else if (isRemote) {
+        state = 'remote';
+      }
+
+      return {
+        ...base,
+        state,
+        since: breakStart ?? open.clockInTime,
+        attendanceId: open.id,
+        workMode: open.workMode,
+        geofenceId: isRemote ? null : open.geofenceId,
+        geofenceName: isRemote ? null : open.geofenceName,
+        lateMinutes: open.lateMinutes ?? 0
+      };
+    }
+
+    const last = records[records.length - 1];
+    if (last) {
+      return {
+        ...base,
+        state: 'clocked_out',
+        since: last.clockOutTime,
+        attendanceId: last.id,
+        workMode: last.workMode
+      };
+    }
+
+    if (leaveRequestId) {
+      return { ...base, state: 'on_leave', since: null };
+    }
+
+    if (!expectation) {
+      return { ...base, state: 'off', since: null };
+    }
+
+    if (now >= expectation.end) {
+      return { ...base, state: 'absent', since: expectation.start };
+    }
+
+    const minutesLate = Math.floor((now.getTime() - expectation.start.getTime()) / 60000);
+    if (minutesLate > expectation.toleranceMinutes) {
+      return { ...base, state: 'late', since: expectation.start, lateMinutes: minutesLate };
+    }
+
+    return { ...base, state: 'not_in', since: expectation.start };
+  }
+}
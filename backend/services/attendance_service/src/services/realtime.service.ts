@@ -0,0 +1,262 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { users } from '../db/schema/auth';
+import { teams, userTeams } from '../db/schema/team';
+import { geofenceSettings } from '../db/schema/geofence';
+import { logger } from '../utils/logger';
+import { eq, and, asc, isNull, inArray, sql, SQL } from 'drizzle-orm';
+
+export const ATTENDANCE_EVENTS_CHANNEL = 'attendance_events';
+
+type AttendanceRow = typeof attendanceRecords.$inferSelect;
+
+export type AttendanceEventType = 'clock_in' | 'clock_out' | 'flagged' | 'approved' | 'rejected';
+
+export type AttendanceEventRecord = Pick<
+  AttendanceRow,
+  'id' | 'companyId' | 'userId' | 'status' | 'workMode' | 'clockInTime' | 'clockOutTime' | 'geofenceId'
+>;
+
+export interface AttendanceEvent {
+  type: AttendanceEventType;
+  attendanceId: string;
+  companyId: string;
+  userId: string;
+  status: AttendanceRow['status'];
+  workMode: AttendanceRow['workMode'];
+  clockInTime: Date;
+  clockOutTime: Date | null;
+  geofenceId: string | null;
+  occurredAt: Date;
+  employee: {
+    firstName: string;
+    lastName: string;
+    department: string | null;
+  } | null;
+}
+
+// What goes over NOTIFY: the event and the rooms it is delivered to
+export interface AttendanceEventMessage {
+  rooms: string[];
+  event: AttendanceEvent;
+}
+
+export interface LiveScope {
+  department?: string;
+  teamId?: string;
+}
+
+export interface LiveViewer {
+  userId: string;
+  companyId: string;
+  isAdmin: boolean;
+}
+
+export interface WhosInEntry {
+  attendanceId: string;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  department: string | null;
+  workMode: AttendanceRow['workMode'];
+  status: AttendanceRow['status'];
+  clockInTime: Date;
+  geofenceId: string | null;
+  geofenceName: string | null;
+}
+
+export interface RealtimeServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+// Socket rooms; an event goes to its company, the employee's department and teams, and the employee
+export const rooms = {
+  company: (companyId: string) => `company:${companyId}`,
+  department: (companyId: string, department: string) => `department:${companyId}:${department}`,
+  team: (teamId: string) => `team:${teamId}`,
+  user: (userId: string) => `user:${userId}`
+};
+
+export class RealtimeService {
+  /**
+   * Publish an attendance event to live subscribers on every instance. Never throws: a missed live update
+   * must not undo the change that caused it.
+   */
+  async publishAttendanceEvent(type: AttendanceEventType, record: AttendanceEventRecord): Promise<void> {
+    try {
+      const [employee] = await db
+        .select({
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department
+        })
+        .from(users)
+        .where(eq(users.id, record.userId))
+        .limit(1);
+
+      const memberships = await db
+        .select({ teamId: userTeams.teamId })
+        .from(userTeams)
+        .where(and(eq(userTeams.userId, record.userId), eq(userTeams.isActive, true)));
+
+      const message: AttendanceEventMessage = {
+        rooms: [
+          rooms.company(record.companyId),
+          rooms.user(record.userId),
+          ...(employee?.department ? [rooms.department(record.companyId, employee.department)] : []),
+          ...memberships.map(membership => rooms.team(membership.teamId))
+        ],
+        event: {
+          type,
+          attendanceId: record.id,
+          companyId: record.companyId,
+          userId: record.userId,
+          status: record.status,
+          workMode: record.workMode,
+          clockInTime: record.clockInTime,
+          clockOutTime: record.clockOutTime,
+          geofenceId: record.geofenceId,
+          occurredAt: new Date(),
+          employee: employee ?? null
+        }
+      };
+
+      await db.execute(sql`select pg_notify(${ATTENDANCE_EVENTS_CHANNEL}, ${JSON.stringify(message)})`);
+    } catch (error) {
+      logger.warn('Failed to publish attendance event', {
+        service: 'attendance-service',
+        type,
+        attendanceId: record.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Resolve the room a viewer may follow: admins any company, department or team scope,
+   * team leads and managers their own teams
+   */
+  async resolveScopeRoom(viewer: LiveViewer, scope: LiveScope): Promise<RealtimeServiceResult<string>> {
+    try {
+      if (scope.teamId) {
+        const [team] = await db
+          .select({ id: teams.id, managerId: teams.managerId })
+          .from(teams)
+          .where(and(eq(teams.id, scope.teamId), eq(teams.companyId, viewer.companyId)))
+          .limit(1);
+
+        if (!team) {
+          return {
+            success: false,
+            message: 'Team not found',
+            error: 'NOT_FOUND'
+          };
+        }
+
+        if (!viewer.isAdmin && team.managerId !== viewer.userId && !(await this.leadsTeam(viewer.userId, team.id))) {
+          return {
+            success: false,
+            message: 'Only admins and the team\'s leads can follow a team',
+            error: 'ACCESS_DENIED'
+          };
+        }
+
+        return { success: true, data: rooms.team(team.id) };
+      }
+
+      if (!viewer.isAdmin) {
+        return {
+          success: false,
+          message: 'Admin access required',
+          error: 'ADMIN_ACCESS_REQUIRED'
+        };
+      }
+
+      return {
+        success: true,
+        data: scope.department ? rooms.department(viewer.companyId, scope.department) : rooms.company(viewer.companyId)
+      };
+
+    } catch (error) {
+      logger.error('Failed to resolve live scope:', error);
+      return {
+        success: false,
+        message: 'Failed to resolve live scope',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Everyone clocked in right now (open, non-rejected records), optionally limited to a department or team
+   */
+  async getWhosIn(companyId: string, scope: LiveScope): Promise<RealtimeServiceResult<WhosInEntry[]>> {
+    try {
+      const conditions: SQL[] = [
+        eq(attendanceRecords.companyId, companyId),
+        isNull(attendanceRecords.clockOutTime),
+        sql`${attendanceRecords.status} is distinct from 'rejected'`
+      ];
+
+      if (scope.department) {
+        conditions.push(eq(users.department, scope.department));
+      }
+
+      if (scope.teamId) {
+        conditions.push(sql`${attendanceRecords.userId} in (select ${userTeams.userId} from ${userTeams} where ${userTeams.teamId} = ${scope.teamId} and ${userTeams.isActive} = true)`);
+      }
+
+      const entries = await db
+        .select({
+          attendanceId: attendanceRecords.id,
+          userId: attendanceRecords.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          department: users.department,
+          workMode: attendanceRecords.workMode,
+          status: attendanceRecords.status,
+          clockInTime: attendanceRecords.clockInTime,
+          geofenceId: attendanceRecords.geofenceId,
+          geofenceName: geofenceSettings.name
+        })
+        .from(attendanceRecords)
+        .innerJoin(users, eq(attendanceRecords.userId, users.id))
+        .leftJoin(geofenceSettings, eq(attendanceRecords.geofenceId, geofenceSettings.id))
+        .where(and(...conditions))
+        .orderBy(asc(attendanceRecords.clockInTime));
+
+      return {
+        success: true,
+        data: entries
+      };
+
+    } catch (error) {
+      logger.error('Failed to get who\'s in:', error);
+      return {
+        success: false,
+        message: 'Failed to get who\'s in',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async leadsTeam(userId: string, teamId: string): Promise<boolean> {
+    const [membership] = await db
+      .select({ id: userTeams.id })
+      .from(userTeams)
+      .where(
+        and(
+          eq(userTeams.userId, userId),
+          eq(userTeams.teamId, teamId),
+          eq(userTeams.isActive, true),
+          inArray(userTeams.roleInTeam, ['lead', 'manager'])
+        )
+      )
+      .limit(1);
+
+    return !!membership;
+  }
+}
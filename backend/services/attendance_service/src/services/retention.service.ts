@@ -0,0 +1,664 @@
+import axios from 'axios';
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { attendanceRecords, aiVerificationResults } from '../db/schema/attendance';
+import { biometricRetentionPolicies, biometricLegalHolds } from '../db/schema/retention';
+import { users, auditLogs } from '../db/schema/auth';
+import { logger } from '../utils/logger';
+import { getStorageDriver } from './storage.service';
+import { eq, and, or, lt, desc, inArray, notInArray, isNull, isNotNull, sql, SQL } from 'drizzle-orm';
+
+export type LegalHold = typeof biometricLegalHolds.$inferSelect;
+
+export interface RetentionPolicyConfig {
+  companyId: string;
+  isEnabled: boolean;
+  photoRetentionDays: number;
+  verificationRetentionDays: number;
+  encodingRetentionDays: number;
+  updatedBy: string | null;
+  updatedAt: Date | null; // null = never saved; nothing is purged until a policy is saved
+}
+
+export interface UpdateRetentionPolicyData {
+  isEnabled?: boolean;
+  photoRetentionDays?: number;
+  verificationRetentionDays?: number;
+  encodingRetentionDays?: number;
+}
+
+export interface LegalHoldFilters {
+  userId?: string;
+  status?: 'active' | 'released' | 'all'; // Default active
+}
+
+export interface PurgeReport {
+  companyId: string;
+  dryRun: boolean;
+  photos: {
+    cutoff: Date;
+    records: number;
+    objects: number; // Stored objects; legacy base64 photos count as records only
+    failed: number; // Objects the storage couldn't delete; retried next run
+  };
+  verificationResults: {
+    cutoff: Date;
+    results: number; // Comprehensive verifications count once with their steps
+  };
+  usersOnHold: number;
+}
+
+export interface RetentionReport {
+  policy: RetentionPolicyConfig;
+  attendance: PurgeReport;
+  faceEncodings: unknown | null; // Dry run from the auth service
+  faceEncodingsError?: string;
+}
+
+export interface RetentionServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+const DEFAULT_POLICY: Omit<RetentionPolicyConfig, 'companyId'> = {
+  isEnabled: false,
+  photoRetentionDays: 30,
+  verificationRetentionDays: 30,
+  encodingRetentionDays: 30,
+  updatedBy: null,
+  updatedAt: null
+};
+
+const PURGE_BATCH_SIZE = 200;
+const PURGED_BY = 'retention_policy';
+
+export class RetentionService {
+  /**
+   * Get the company's retention policy, or the (disabled) defaults when none was saved
+   */
+  async getPolicy(companyId: string): Promise<RetentionServiceResult<RetentionPolicyConfig>> {
+    try {
+      return {
+        success: true,
+        data: await this.loadPolicy(companyId)
+      };
+
+    } catch (error) {
+      logger.error('Failed to get retention policy:', error);
+      return {
+        success: false,
+        message: 'Failed to get retention policy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create or update the company's retention policy
+   */
+  async updatePolicy(companyId: string, data: UpdateRetentionPolicyData, updatedBy: string): Promise<RetentionServiceResult<RetentionPolicyConfig>> {
+    try {
+      const current = await this.loadPolicy(companyId);
+      const next = {
+        isEnabled: data.isEnabled ?? (current.updatedAt ? current.isEnabled : true), // Saving a policy turns it on
+        photoRetentionDays: data.photoRetentionDays ?? current.photoRetentionDays,
+        verificationRetentionDays: data.verificationRetentionDays ?? current.verificationRetentionDays,
+        encodingRetentionDays: data.encodingRetentionDays ?? current.encodingRetentionDays
+      };
+
+      const now = new Date();
+      const saved = await db.transaction(async (tx) => {
+        const [policy] = await tx
+          .insert(biometricRetentionPolicies)
+          .values({
+            companyId,
+            ...next,
+            updatedBy,
+            updatedAt: now
+          })
+          .onConflictDoUpdate({
+            target: biometricRetentionPolicies.companyId,
+            set: {
+              isEnabled: sql`excluded.is_enabled`,
+              photoRetentionDays: sql`excluded.photo_retention_days`,
+              verificationRetentionDays: sql`excluded.verification_retention_days`,
+              encodingRetentionDays: sql`excluded.encoding_retention_days`,
+              updatedBy: sql`excluded.updated_by`,
+              updatedAt: sql`excluded.updated_at`
+            }
+          })
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: updatedBy,
+          companyId,
+          action: 'biometric_retention_policy_updated',
+          resourceType: 'biometric_retention_policy',
+          resourceId: policy!.id,
+          oldValues: {
+            isEnabled: current.isEnabled,
+            photoRetentionDays: current.photoRetentionDays,
+            verificationRetentionDays: current.verificationRetentionDays,
+            encodingRetentionDays: current.encodingRetentionDays
+          },
+          newValues: next
+        });
+
+        return policy!;
+      });
+
+      logger.info('Biometric retention policy updated', {
+        service: 'attendance-service',
+        companyId,
+        updatedBy,
+        ...next
+      });
+
+      return {
+        success: true,
+        message: 'Retention policy updated',
+        data: this.toConfig(companyId, saved)
+      };
+
+    } catch (error) {
+      logger.error('Failed to update retention policy:', error);
+      return {
+        success: false,
+        message: 'Failed to update retention policy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Dry run of the purge for one company: what the policy removes on the next run, face encodings included.
+   * Computed for disabled policies too, so a policy can be previewed before it is turned on.
+   */
+  async getReport(companyId: string, authorization: string): Promise<RetentionServiceResult<RetentionReport>> {
+    try {
+      const policy = await this.loadPolicy(companyId);
+      const attendance = await this.purgeCompany(policy, true);
+
+      let faceEncodings: unknown | null = null;
+      let faceEncodingsError: string | undefined;
+      try {
+        const response = await axios.get(`${env.AUTH_SERVICE_URL}/api/auth/biometric-retention/report`, {
+          headers: {
+            'Authorization': authorization
+          }
+        });
+        faceEncodings = response.data.data ?? null;
+      } catch (error) {
+        faceEncodingsError = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('Failed to get face encoding retention report', {
+          service: 'attendance-service',
+          companyId,
+          error: faceEncodingsError
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          policy,
+          attendance,
+          faceEncodings,
+          ...(faceEncodingsError && { faceEncodingsError })
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get retention report:', error);
+      return {
+        success: false,
+        message: 'Failed to get retention report',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Purge photos and verification results past retention for every company with an enabled policy
+   */
+  async runPurge(dryRun: boolean = false): Promise<PurgeReport[]> {
+    const policies = await db
+      .select()
+      .from(biometricRetentionPolicies)
+      .where(eq(biometricRetentionPolicies.isEnabled, true));
+
+    const reports: PurgeReport[] = [];
+    for (const policy of policies) {
+      try {
+        const report = await this.purgeCompany(this.toConfig(policy.companyId, policy), dryRun);
+        reports.push(report);
+
+        if (report.photos.records > 0 || report.verificationResults.results > 0) {
+          logger.info(dryRun ? 'Biometric purge dry run' : 'Biometric data purged', {
+            service: 'attendance-service',
+            ...report
+          });
+        }
+      } catch (error) {
+        logger.error('Failed to purge biometric data for company:', { companyId: policy.companyId, error });
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Place a legal hold on an employee: nothing of theirs is purged until it is released
+   */
+  async placeLegalHold(companyId: string, userId: string, reason: string, placedBy: string): Promise<RetentionServiceResult<LegalHold>> {
+    try {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, userId), eq(users.companyId, companyId)))
+        .limit(1);
+
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const [existing] = await db
+        .select({ id: biometricLegalHolds.id })
+        .from(biometricLegalHolds)
+        .where(and(eq(biometricLegalHolds.userId, userId), isNull(biometricLegalHolds.releasedAt)))
+        .limit(1);
+
+      if (existing) {
+        return {
+          success: false,
+          message: 'User already has an active legal hold',
+          error: 'LEGAL_HOLD_EXISTS'
+        };
+      }
+
+      const hold = await db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(biometricLegalHolds)
+          .values({ companyId, userId, reason, placedBy })
+          .returning();
+
+        await tx.insert(auditLogs).values({
+          userId: placedBy,
+          companyId,
+          action: 'biometric_legal_hold_placed',
+          resourceType: 'biometric_legal_hold',
+          resourceId: created!.id,
+          newValues: { userId, reason }
+        });
+
+        return created!;
+      });
+
+      logger.info('Biometric legal hold placed', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        holdId: hold.id,
+        placedBy
+      });
+
+      return {
+        success: true,
+        message: 'Legal hold placed',
+        data: hold
+      };
+
+    } catch (error) {
+      logger.error('Failed to place legal hold:', error);
+      return {
+        success: false,
+        message: 'Failed to place legal hold',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Release a legal hold; the employee's data is purged on the next run if past retention
+   */
+  async releaseLegalHold(companyId: string, holdId: string, releasedBy: string, notes?: string): Promise<RetentionServiceResult<LegalHold>> {
+    try {
+      const [hold] = await db
+        .select()
+        .from(biometricLegalHolds)
+        .where(and(eq(biometricLegalHolds.id, holdId), eq(biometricLegalHolds.companyId, companyId)))
+        .limit(1);
+
+      if (!hold) {
+        return {
+          success: false,
+          message: 'Legal hold not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (hold.releasedAt) {
+        return {
+          success: false,
+          message: 'Legal hold has already been released',
+          error: 'LEGAL_HOLD_RELEASED'
+        };
+      }
+
+      const now = new Date();
+      const released = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(biometricLegalHolds)
+          .set({
+            releasedBy,
+            releasedAt: now,
+            releaseNotes: notes ?? null,
+            updatedAt: now
+          })
+          .where(and(eq(biometricLegalHolds.id, holdId), isNull(biometricLegalHolds.releasedAt)))
+          .returning();
+
+        if (updated) {
+          await tx.insert(auditLogs).values({
+            userId: releasedBy,
+            companyId,
+            action: 'biometric_legal_hold_released',
+            resourceType: 'biometric_legal_hold',
+            resourceId: holdId,
+            oldValues: { userId: hold.userId, reason: hold.reason },
+            newValues: { notes: notes ?? null }
+          });
+        }
+
+        return updated;
+      });
+
+      if (!released) {
+        return {
+          success: false,
+          message: 'Legal hold has already been released',
+          error: 'LEGAL_HOLD_RELEASED'
+        };
+      }
+
+      logger.info('Biometric legal hold released', {
+        service: 'attendance-service',
+        companyId,
+        userId: hold.userId,
+        holdId,
+        releasedBy
+      });
+
+      return {
+        success: true,
+        message: 'Legal hold released',
+        data: released
+      };
+
+    } catch (error) {
+      logger.error('Failed to release legal hold:', error);
+      return {
+        success: false,
+        message: 'Failed to release legal hold',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the company's legal holds, newest first
+   */
+  async getLegalHolds(companyId: string, filters: LegalHoldFilters): Promise<RetentionServiceResult<LegalHold[]>> {
+    try {
+      const conditions: SQL[] = [eq(biometricLegalHolds.companyId, companyId)];
+      const status = filters.status ?? 'active';
+
+      if (status === 'active') {
+        conditions.push(isNull(biometricLegalHolds.releasedAt));
+      } else if (status === 'released') {
+        conditions.push(isNotNull(biometricLegalHolds.releasedAt));
+      }
+
+      if (filters.userId) {
+        conditions.push(eq(biometricLegalHolds.userId, filters.userId));
+      }
+
+      const holds = await db
+        .select()
+        .from(biometricLegalHolds)
+        .where(and(...conditions))
+        .orderBy(desc(biometricLegalHolds.placedAt));
+
+      return {
+        success: true,
+        data: holds
+      };
+
+    } catch (error) {
+      logger.error('Failed to get legal holds:', error);
+      return {
+        success: false,
+        message: 'Failed to get legal holds',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Count (dry run) or remove one company's photos and verification results past retention.
+   * Every removal writes an audit log entry about the employee whose data it was.
+   */
+  private async purgeCompany(policy: RetentionPolicyConfig, dryRun: boolean): Promise<PurgeReport> {
+    const now = new Date();
+    const photoCutoff = new Date(now.getTime() - policy.photoRetentionDays * 24 * 60 * 60 * 1000);
+    const verificationCutoff = new Date(now.getTime() - policy.verificationRetentionDays * 24 * 60 * 60 * 1000);
+
+    const holds = await db
+      .select({ userId: biometricLegalHolds.userId })
+      .from(biometricLegalHolds)
+      .where(and(eq(biometricLegalHolds.companyId, policy.companyId), isNull(biometricLegalHolds.releasedAt)));
+    const heldUserIds = holds.map(hold => hold.userId);
+
+    const photoConditions = and(
+      eq(attendanceRecords.companyId, policy.companyId),
+      lt(attendanceRecords.clockInTime, photoCutoff),
+      or(
+        isNotNull(attendanceRecords.photoKey),
+        isNotNull(attendanceRecords.clockOutPhotoKey),
+        isNotNull(attendanceRecords.photoUrl),
+        isNotNull(attendanceRecords.clockOutPhotoUrl)
+      ),
+      ...(heldUserIds.length > 0 ? [notInArray(attendanceRecords.userId, heldUserIds)] : [])
+    );
+
+    const verificationConditions = and(
+      eq(aiVerificationResults.companyId, policy.companyId),
+      isNull(aiVerificationResults.parentId), // Steps go with their comprehensive verification
+      lt(aiVerificationResults.createdAt, verificationCutoff),
+      ...(heldUserIds.length > 0 ? [notInArray(aiVerificationResults.userId, heldUserIds)] : [])
+    );
+
+    const report: PurgeReport = {
+      companyId: policy.companyId,
+      dryRun,
+      photos: { cutoff: photoCutoff, records: 0, objects: 0, failed: 0 },
+      verificationResults: { cutoff: verificationCutoff, results: 0 },
+      usersOnHold: heldUserIds.length
+    };
+
+    if (dryRun) {
+      const [photos] = await db
+        .select({
+          records: sql<number>`count(*)::int`,
+          objects: sql<number>`coalesce(sum((${attendanceRecords.photoKey} is not null)::int + (${attendanceRecords.clockOutPhotoKey} is not null)::int), 0)::int`
+        })
+        .from(attendanceRecords)
+        .where(photoConditions);
+
+      const [verifications] = await db
+        .select({ results: sql<number>`count(*)::int` })
+        .from(aiVerificationResults)
+        .where(verificationConditions);
+
+      report.photos.records = photos?.records ?? 0;
+      report.photos.objects = photos?.objects ?? 0;
+      report.verificationResults.results = verifications?.results ?? 0;
+      return report;
+    }
+
+    const audit = {
+      purgedBy: PURGED_BY,
+      photoRetentionDays: policy.photoRetentionDays,
+      verificationRetentionDays: policy.verificationRetentionDays
+    };
+
+    // Photos: delete the objects, then clear the record. A record whose objects couldn't be deleted is kept for the next run.
+    const storage = getStorageDriver();
+    for (;;) {
+      const records = await db
+        .select({
+          id: attendanceRecords.id,
+          userId: attendanceRecords.userId,
+          clockInTime: attendanceRecords.clockInTime,
+          photoKey: attendanceRecords.photoKey,
+          clockOutPhotoKey: attendanceRecords.clockOutPhotoKey,
+          photoUrl: attendanceRecords.photoUrl,
+          clockOutPhotoUrl: attendanceRecords.clockOutPhotoUrl
+        })
+        .from(attendanceRecords)
+        .where(photoConditions)
+        .orderBy(attendanceRecords.clockInTime)
+        .limit(PURGE_BATCH_SIZE);
+
+      let purgedInBatch = 0;
+      for (const record of records) {
+        const keys = [record.photoKey, record.clockOutPhotoKey].filter((key): key is string => !!key);
+
+        try {
+          for (const key of keys) {
+            await storage.delete(key);
+          }
+        } catch (error) {
+          report.photos.failed++;
+          logger.warn('Failed to delete photo during purge', {
+            service: 'attendance-service',
+            attendanceId: record.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          continue;
+        }
+
+        const purgedAt = new Date();
+        await db.transaction(async (tx) => {
+          await tx
+            .update(attendanceRecords)
+            .set({
+              photoKey: null,
+              clockOutPhotoKey: null,
+              photoUrl: null,
+              clockOutPhotoUrl: null,
+              photosPurgedAt: purgedAt
+            })
+            .where(eq(attendanceRecords.id, record.id));
+
+          await tx.insert(auditLogs).values({
+            userId: record.userId,
+            companyId: policy.companyId,
+            action: 'biometric_data_purged',
+            resourceType: 'attendance_photos',
+            resourceId: record.id,
+            oldValues: {
+              clockInTime: record.clockInTime,
+              photoKeys: keys,
+              legacyPhotos: [record.photoUrl, record.clockOutPhotoUrl].filter(url => !!url).length
+            },
+            newValues: { ...audit, purgedAt }
+          });
+        });
+
+        report.photos.records++;
+        report.photos.objects += keys.length;
+        purgedInBatch++;
+      }
+
+      if (records.length < PURGE_BATCH_SIZE || purgedInBatch === 0) {
+        break;
+      }
+    }
+
+    // Verification results (steps are removed with their comprehensive verification)
+    for (;;) {
+      const results = await db
+        .select({
+          id: aiVerificationResults.id,
+          userId: aiVerificationResults.userId,
+          verificationType: aiVerificationResults.verificationType,
+          attendanceId: aiVerificationResults.attendanceId,
+          createdAt: aiVerificationResults.createdAt
+        })
+        .from(aiVerificationResults)
+        .where(verificationConditions)
+        .limit(PURGE_BATCH_SIZE);
+
+      if (results.length === 0) {
+        break;
+      }
+
+      const purgedAt = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(aiVerificationResults)
+          .where(inArray(aiVerificationResults.id, results.map(result => result.id)));
+
+        await tx.insert(auditLogs).values(results.map(result => ({
+          userId: result.userId,
+          companyId: policy.companyId,
+          action: 'biometric_data_purged',
+          resourceType: 'ai_verification_result',
+          resourceId: result.id,
+          oldValues: {
+            verificationType: result.verificationType,
+            attendanceId: result.attendanceId,
+            createdAt: result.createdAt
+          },
+          newValues: { ...audit, purgedAt }
+        })));
+      });
+
+      report.verificationResults.results += results.length;
+
+      if (results.length < PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return report;
+  }
+
+  private async loadPolicy(companyId: string): Promise<RetentionPolicyConfig> {
+    const [policy] = await db
+      .select()
+      .from(biometricRetentionPolicies)
+      .where(eq(biometricRetentionPolicies.companyId, companyId))
+      .limit(1);
+
+    return policy ? this.toConfig(companyId, policy) : { companyId, ...DEFAULT_POLICY };
+  }
+
+  private toConfig(companyId: string, policy: typeof biometricRetentionPolicies.$inferSelect): RetentionPolicyConfig {
+    return {
+      companyId,
+      isEnabled: policy.isEnabled,
+      photoRetentionDays: policy.photoRetentionDays,
+      verificationRetentionDays: policy.verificationRetentionDays,
+      encodingRetentionDays: policy.encodingRetentionDays,
+      updatedBy: policy.updatedBy,
+      updatedAt: policy.updatedAt
+    };
+  }
+}
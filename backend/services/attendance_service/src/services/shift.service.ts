@@ -0,0 +1,1033 @@
+import { db } from '../config/database';
+import { env } from '../config/env';
+import { shiftTemplates, shiftRotations, shiftAssignments } from '../db/schema/shift';
+import { companySettings, users } from '../db/schema/auth';
+import { logger } from '../utils/logger';
+import {
+  getLocalDateString,
+  getIsoWeekday,
+  addDaysToDateString,
+  daysBetweenDateStrings,
+  zonedTimeToUtc
+} from '../utils/helpers';
+import { eq, and, desc, asc, lte, gte, or, isNull, inArray } from 'drizzle-orm';
+
+export type ShiftTemplate = typeof shiftTemplates.$inferSelect;
+export type ShiftRotation = typeof shiftRotations.$inferSelect;
+export type ShiftAssignment = typeof shiftAssignments.$inferSelect;
+
+export interface ShiftTemplateData {
+  name: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes?: number;
+  graceInMinutes?: number;
+  graceOutMinutes?: number;
+  earlyClockInMinutes?: number;
+  workDays?: number[];
+  color?: string;
+  isActive?: boolean;
+}
+
+export interface ShiftRotationData {
+  name: string;
+  description?: string;
+  pattern: (string | null)[];
+  isActive?: boolean;
+}
+
+export interface ShiftAssignmentData {
+  userId: string;
+  shiftTemplateId?: string;
+  rotationId?: string;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  notes?: string;
+}
+
+export interface ShiftAssignmentFilters {
+  userId?: string;
+  activeOn?: string;
+}
+
+export interface ShiftInstance {
+  assignmentId: string;
+  templateId: string;
+  templateName: string;
+  date: string; // Local date the shift starts on
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  isOvernight: boolean;
+  breakMinutes: number;
+  graceInMinutes: number;
+  graceOutMinutes: number;
+  earlyClockInMinutes: number;
+}
+
+export interface ShiftMatch {
+  assignmentId: string;
+  templateId: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  lateMinutes: number;
+}
+
+export interface ShiftServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+export class ShiftService {
+  /**
+   * Create a shift template
+   */
+  async createTemplate(companyId: string, data: ShiftTemplateData): Promise<ShiftServiceResult<ShiftTemplate>> {
+    try {
+      logger.info('Creating shift template', {
+        service: 'attendance-service',
+        companyId,
+        name: data.name
+      });
+
+      const [template] = await db.insert(shiftTemplates).values({
+        companyId,
+        name: data.name,
+        description: data.description || null,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        isOvernight: data.endTime <= data.startTime,
+        breakMinutes: data.breakMinutes ?? 60,
+        graceInMinutes: data.graceInMinutes ?? 15,
+        graceOutMinutes: data.graceOutMinutes ?? 15,
+        earlyClockInMinutes: data.earlyClockInMinutes ?? 60,
+        workDays: data.workDays ?? [1, 2, 3, 4, 5],
+        color: data.color || null,
+        isActive: data.isActive ?? true
+      }).returning();
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Failed to create shift template',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Shift template created successfully',
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to create shift template:', error);
+      return {
+        success: false,
+        message: 'Failed to create shift template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get shift templates for a company
+   */
+  async getTemplates(companyId: string, includeInactive: boolean = false): Promise<ShiftServiceResult<ShiftTemplate[]>> {
+    try {
+      const whereConditions = [eq(shiftTemplates.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(shiftTemplates.isActive, true));
+      }
+
+      const templates = await db
+        .select()
+        .from(shiftTemplates)
+        .where(and(...whereConditions))
+        .orderBy(asc(shiftTemplates.startTime));
+
+      return {
+        success: true,
+        data: templates
+      };
+
+    } catch (error) {
+      logger.error('Failed to get shift templates:', error);
+      return {
+        success: false,
+        message: 'Failed to get shift templates',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a shift template by ID
+   */
+  async getTemplate(companyId: string, templateId: string): Promise<ShiftServiceResult<ShiftTemplate>> {
+    try {
+      const [template] = await db
+        .select()
+        .from(shiftTemplates)
+        .where(
+          and(
+            eq(shiftTemplates.id, templateId),
+            eq(shiftTemplates.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Shift template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to get shift template:', error);
+      return {
+        success: false,
+        message: 'Failed to get shift template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a shift template
+   */
+  async updateTemplate(
+    companyId: string,
+    templateId: string,
+    data: Partial<ShiftTemplateData>
+  ): Promise<ShiftServiceResult<ShiftTemplate>> {
+    try {
+      const existing = await this.getTemplate(companyId, templateId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const startTime = data.startTime ?? existing.data.startTime;
+      const endTime = data.endTime ?? existing.data.endTime;
+
+      const [template] = await db
+        .update(shiftTemplates)
+        .set({
+          ...data,
+          isOvernight: endTime <= startTime,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(shiftTemplates.id, templateId),
+            eq(shiftTemplates.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Shift template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Shift template updated', {
+        service: 'attendance-service',
+        companyId,
+        templateId
+      });
+
+      return {
+        success: true,
+        message: 'Shift template updated successfully',
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to update shift template:', error);
+      return {
+        success: false,
+        message: 'Failed to update shift template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a shift template (kept for historical attendance records)
+   */
+  async deleteTemplate(companyId: string, templateId: string): Promise<ShiftServiceResult<ShiftTemplate>> {
+    try {
+      const [template] = await db
+        .update(shiftTemplates)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(shiftTemplates.id, templateId),
+            eq(shiftTemplates.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Shift template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Shift template deactivated', {
+        service: 'attendance-service',
+        companyId,
+        templateId
+      });
+
+      return {
+        success: true,
+        message: 'Shift template deactivated successfully',
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete shift template:', error);
+      return {
+        success: false,
+        message: 'Failed to delete shift template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create a shift rotation
+   */
+  async createRotation(companyId: string, data: ShiftRotationData): Promise<ShiftServiceResult<ShiftRotation>> {
+    try {
+      const invalidTemplateIds = await this.findInvalidTemplateIds(companyId, data.pattern);
+      if (invalidTemplateIds.length > 0) {
+        return {
+          success: false,
+          message: 'Rotation pattern references unknown shift templates',
+          error: 'INVALID_SHIFT_TEMPLATE'
+        };
+      }
+
+      const [rotation] = await db.insert(shiftRotations).values({
+        companyId,
+        name: data.name,
+        description: data.description || null,
+        pattern: data.pattern,
+        isActive: data.isActive ?? true
+      }).returning();
+
+      if (!rotation) {
+        return {
+          success: false,
+          message: 'Failed to create shift rotation',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Shift rotation created', {
+        service: 'attendance-service',
+        companyId,
+        rotationId: rotation.id,
+        cycleLengthDays: data.pattern.length
+      });
+
+      return {
+        success: true,
+        message: 'Shift rotation created successfully',
+        data: rotation
+      };
+
+    } catch (error) {
+      logger.error('Failed to create shift rotation:', error);
+      return {
+        success: false,
+        message: 'Failed to create shift rotation',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get shift rotations for a company
+   */
+  async getRotations(companyId: string, includeInactive: boolean = false): Promise<ShiftServiceResult<ShiftRotation[]>> {
+    try {
+      const whereConditions = [eq(shiftRotations.companyId, companyId)];
+
+      if (!includeInactive) {
+        whereConditions.push(eq(shiftRotations.isActive, true));
+      }
+
+      const rotations = await db
+        .select()
+        .from(shiftRotations)
+        .where(and(...whereConditions))
+        .orderBy(asc(shiftRotations.name));
+
+      return {
+        success: true,
+        data: rotations
+      };
+
+    } catch (error) {
+      logger.error('Failed to get shift rotations:', error);
+      return {
+        success: false,
+        message: 'Failed to get shift rotations',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a shift rotation by ID
+   */
+  async getRotation(companyId: string, rotationId: string): Promise<ShiftServiceResult<ShiftRotation>> {
+    try {
+      const [rotation] = await db
+        .select()
+        .from(shiftRotations)
+        .where(
+          and(
+            eq(shiftRotations.id, rotationId),
+            eq(shiftRotations.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!rotation) {
+        return {
+          success: false,
+          message: 'Shift rotation not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: rotation
+      };
+
+    } catch (error) {
+      logger.error('Failed to get shift rotation:', error);
+      return {
+        success: false,
+        message: 'Failed to get shift rotation',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a shift rotation
+   */
+  async updateRotation(
+    companyId: string,
+    rotationId: string,
+    data: Partial<ShiftRotationData>
+  ): Promise<ShiftServiceResult<ShiftRotation>> {
+    try {
+      if (data.pattern) {
+        const invalidTemplateIds = await this.findInvalidTemplateIds(companyId, data.pattern);
+        if (invalidTemplateIds.length > 0) {
+          return {
+            success: false,
+            message: 'Rotation pattern references unknown shift templates',
+            error: 'INVALID_SHIFT_TEMPLATE'
+          };
+        }
+      }
+
+      const [rotation] = await db
+        .update(shiftRotations)
+        .set({
+          ...data,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(shiftRotations.id, rotationId),
+            eq(shiftRotations.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!rotation) {
+        return {
+          success: false,
+          message: 'Shift rotation not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Shift rotation updated successfully',
+        data: rotation
+      };
+
+    } catch (error) {
+      logger.error('Failed to update shift rotation:', error);
+      return {
+        success: false,
+        message: 'Failed to update shift rotation',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a shift rotation
+   */
+  async deleteRotation(companyId: string, rotationId: string): Promise<ShiftServiceResult<ShiftRotation>> {
+    try {
+      const [rotation] = await db
+        .update(shiftRotations)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(shiftRotations.id, rotationId),
+            eq(shiftRotations.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!rotation) {
+        return {
+          success: false,
+          message: 'Shift rotation not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Shift rotation deactivated successfully',
+        data: rotation
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete shift rotation:', error);
+      return {
+        success: false,
+        message: 'Failed to delete shift rotation',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Assign a shift template or rotation to an employee
+   */
+  async createAssignment(
+    companyId: string,
+    createdBy: string,
+    data: ShiftAssignmentData
+  ): Promise<ShiftServiceResult<ShiftAssignment>> {
+    try {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.id, data.userId), eq(users.companyId, companyId)))
+        .limit(1);
+
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const validation = await this.validateAssignmentTarget(companyId, data.shiftTemplateId, data.rotationId);
+      if (!validation.success) {
+        return validation;
+      }
+
+      const [assignment] = await db.insert(shiftAssignments).values({
+        companyId,
+        userId: data.userId,
+        shiftTemplateId: data.shiftTemplateId || null,
+        rotationId: data.rotationId || null,
+        effectiveFrom: data.effectiveFrom,
+        effectiveTo: data.effectiveTo || null,
+        notes: data.notes || null,
+        createdBy
+      }).returning();
+
+      if (!assignment) {
+        return {
+          success: false,
+          message: 'Failed to create shift assignment',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Shift assignment created', {
+        service: 'attendance-service',
+        companyId,
+        userId: data.userId,
+        assignmentId: assignment.id
+      });
+
+      return {
+        success: true,
+        message: 'Shift assignment created successfully',
+        data: assignment
+      };
+
+    } catch (error) {
+      logger.error('Failed to create shift assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to create shift assignment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get shift assignments for a company
+   */
+  async getAssignments(
+    companyId: string,
+    filters: ShiftAssignmentFilters = {}
+  ): Promise<ShiftServiceResult<ShiftAssignment[]>> {
+    try {
+      const whereConditions = [eq(shiftAssignments.companyId, companyId)];
+
+      if (filters.userId) {
+        whereConditions.push(eq(shiftAssignments.userId, filters.userId));
+      }
+
+      if (filters.activeOn) {
+        whereConditions.push(lte(shiftAssignments.effectiveFrom, filters.activeOn));
+        whereConditions.push(
+          or(isNull(shiftAssignments.effectiveTo), gte(shiftAssignments.effectiveTo, filters.activeOn))!
+        );
+      }
+
+      const assignments = await db
+        .select()
+        .from(shiftAssignments)
+        .where(and(...whereConditions))
+        .orderBy(desc(shiftAssignments.effectiveFrom));
+
+      return {
+        success: true,
+        data: assignments
+      };
+
+    } catch (error) {
+      logger.error('Failed to get shift assignments:', error);
+      return {
+        success: false,
+        message: 'Failed to get shift assignments',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a shift assignment
+   */
+  async updateAssignment(
+    companyId: string,
+    assignmentId: string,
+    data: Partial<Omit<ShiftAssignmentData, 'userId'>>
+  ): Promise<ShiftServiceResult<ShiftAssignment>> {
+    try {
+      if (data.shiftTemplateId || data.rotationId) {
+        const validation = await this.validateAssignmentTarget(companyId, data.shiftTemplateId, data.rotationId);
+        if (!validation.success) {
+          return validation;
+        }
+      }
+
+      const [assignment] = await db
+        .update(shiftAssignments)
+        .set({
+          ...data,
+          // Switching between a template and a rotation clears the other reference
+          ...(data.shiftTemplateId && { rotationId: null }),
+          ...(data.rotationId && { shiftTemplateId: null }),
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(shiftAssignments.id, assignmentId),
+            eq(shiftAssignments.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!assignment) {
+        return {
+          success: false,
+          message: 'Shift assignment not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Shift assignment updated successfully',
+        data: assignment
+      };
+
+    } catch (error) {
+      logger.error('Failed to update shift assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to update shift assignment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Delete a shift assignment
+   */
+  async deleteAssignment(companyId: string, assignmentId: string): Promise<ShiftServiceResult<ShiftAssignment>> {
+    try {
+      const [assignment] = await db
+        .delete(shiftAssignments)
+        .where(
+          and(
+            eq(shiftAssignments.id, assignmentId),
+            eq(shiftAssignments.companyId, companyId)
+          )
+        )
+        .returning();
+
+      if (!assignment) {
+        return {
+          success: false,
+          message: 'Shift assignment not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Shift assignment deleted', {
+        service: 'attendance-service',
+        companyId,
+        assignmentId
+      });
+
+      return {
+        success: true,
+        message: 'Shift assignment deleted successfully',
+        data: assignment
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete shift assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to delete shift assignment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the resolved shifts an employee is scheduled for between two local dates
+   */
+  async getScheduledShifts(
+    userId: string,
+    companyId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ShiftServiceResult<ShiftInstance[]>> {
+    try {
+      const timezone = await this.getCompanyTimezone(companyId);
+      const shifts = await this.resolveShiftInstances(userId, companyId, startDate, endDate, timezone);
+
+      return {
+        success: true,
+        data: shifts
+      };
+
+    } catch (error) {
+      logger.error('Failed to get scheduled shifts:', error);
+      return {
+        success: false,
+        message: 'Failed to get scheduled shifts',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Match a clock-in time to the employee's scheduled shift
+   */
+  async matchClockIn(userId: string, companyId: string, clockInTime: Date): Promise<ShiftMatch | null> {
+    const timezone = await this.getCompanyTimezone(companyId);
+    const localDate = getLocalDateString(clockInTime, timezone);
+
+    // Yesterday covers overnight shifts, tomorrow covers early clock-ins before midnight
+    const shifts = await this.resolveShiftInstances(
+      userId,
+      companyId,
+      addDaysToDateString(localDate, -1),
+      addDaysToDateString(localDate, 1),
+      timezone
+    );
+
+    const clockIn = clockInTime.getTime();
+    const candidates = shifts.filter(shift =>
+      clockIn >= shift.scheduledStart.getTime() - shift.earlyClockInMinutes * 60 * 1000 &&
+      clockIn <= shift.scheduledEnd.getTime()
+    );
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const [shift] = candidates.sort((a, b) =>
+      Math.abs(clockIn - a.scheduledStart.getTime()) - Math.abs(clockIn - b.scheduledStart.getTime())
+    );
+
+    if (!shift) {
+      return null;
+    }
+
+    const minutesLate = Math.floor((clockIn - shift.scheduledStart.getTime()) / (1000 * 60));
+
+    return {
+      assignmentId: shift.assignmentId,
+      templateId: shift.templateId,
+      scheduledStart: shift.scheduledStart,
+      scheduledEnd: shift.scheduledEnd,
+      lateMinutes: minutesLate > shift.graceInMinutes ? minutesLate : 0
+    };
+  }
+
+  /**
+   * Calculate how many minutes before the scheduled shift end an employee left
+   */
+  async calculateEarlyLeaveMinutes(
+    shiftTemplateId: string,
+    scheduledEnd: Date,
+    clockOutTime: Date
+  ): Promise<number> {
+    const [template] = await db
+      .select({ graceOutMinutes: shiftTemplates.graceOutMinutes })
+      .from(shiftTemplates)
+      .where(eq(shiftTemplates.id, shiftTemplateId))
+      .limit(1);
+
+    const graceOutMinutes = template?.graceOutMinutes ?? 0;
+    const minutesEarly = Math.floor((scheduledEnd.getTime() - clockOutTime.getTime()) / (1000 * 60));
+
+    return minutesEarly > graceOutMinutes ? minutesEarly : 0;
+  }
+
+  /**
+   * Get the company's configured timezone
+   */
+  async getCompanyTimezone(companyId: string): Promise<string> {
+    const [settings] = await db
+      .select({ timezone: companySettings.timezone })
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId))
+      .limit(1);
+
+    return settings?.timezone || env.DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Expand assignments into concrete shift instances for each local date in range.
+   * When assignments overlap, the one with the latest effective date wins.
+   */
+  private async resolveShiftInstances(
+    userId: string,
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    timezone: string
+  ): Promise<ShiftInstance[]> {
+    const assignments = await db
+      .select()
+      .from(shiftAssignments)
+      .where(
+        and(
+          eq(shiftAssignments.userId, userId),
+          eq(shiftAssignments.companyId, companyId),
+          lte(shiftAssignments.effectiveFrom, endDate),
+          or(isNull(shiftAssignments.effectiveTo), gte(shiftAssignments.effectiveTo, startDate))
+        )
+      )
+      .orderBy(desc(shiftAssignments.effectiveFrom), desc(shiftAssignments.createdAt));
+
+    if (assignments.length === 0) {
+      return [];
+    }
+
+    const rotationIds = [...new Set(assignments.map(a => a.rotationId).filter((id): id is string => !!id))];
+    const rotations = rotationIds.length > 0
+      ? await db
+          .select()
+          .from(shiftRotations)
+          .where(and(inArray(shiftRotations.id, rotationIds), eq(shiftRotations.isActive, true)))
+      : [];
+    const rotationMap = new Map(rotations.map(rotation => [rotation.id, rotation]));
+
+    const templateIds = [...new Set([
+      ...assignments.map(a => a.shiftTemplateId),
+      ...rotations.flatMap(rotation => rotation.pattern as (string | null)[])
+    ].filter((id): id is string => !!id))];
+    const templates = templateIds.length > 0
+      ? await db
+          .select()
+          .from(shiftTemplates)
+          .where(and(inArray(shiftTemplates.id, templateIds), eq(shiftTemplates.isActive, true)))
+      : [];
+    const templateMap = new Map(templates.map(template => [template.id, template]));
+
+    const shifts: ShiftInstance[] = [];
+
+    for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      const assignment = assignments.find(a =>
+        a.effectiveFrom <= date && (!a.effectiveTo || a.effectiveTo >= date)
+      );
+
+      if (!assignment) {
+        continue;
+      }
+
+      const template = this.getTemplateForDate(assignment, date, templateMap, rotationMap);
+      if (!template) {
+        continue;
+      }
+
+      shifts.push({
+        assignmentId: assignment.id,
+        templateId: template.id,
+        templateName: template.name,
+        date,
+        scheduledStart: zonedTimeToUtc(date, template.startTime, timezone),
+        scheduledEnd: zonedTimeToUtc(
+          template.isOvernight ? addDaysToDateString(date, 1) : date,
+          template.endTime,
+          timezone
+        ),
+        isOvernight: template.isOvernight,
+        breakMinutes: template.breakMinutes,
+        graceInMinutes: template.graceInMinutes,
+        graceOutMinutes: template.graceOutMinutes,
+        earlyClockInMinutes: template.earlyClockInMinutes
+      });
+    }
+
+    return shifts;
+  }
+
+  /**
+   * Pick the template an assignment schedules on a given local date, if any
+   */
+  private getTemplateForDate(
+    assignment: ShiftAssignment,
+    date: string,
+    templateMap: Map<string, ShiftTemplate>,
+    rotationMap: Map<string, ShiftRotation>
+  ): ShiftTemplate | null {
+    if (assignment.shiftTemplateId) {
+      const template = templateMap.get(assignment.shiftTemplateId);
+      const workDays = (template?.workDays as number[] | undefined) ?? [];
+      return template && workDays.includes(getIsoWeekday(date)) ? template : null;
+    }
+
+    const rotation = assignment.rotationId ? rotationMap.get(assignment.rotationId) : undefined;
+    const pattern = (rotation?.pattern as (string | null)[] | undefined) ?? [];
+
+    if (pattern.length === 0) {
+      return null;
+    }
+
+    const cycleDay = daysBetweenDateStrings(assignment.effectiveFrom, date) % pattern.length;
+    const templateId = pattern[cycleDay];
+
+    return templateId ? templateMap.get(templateId) ?? null : null;
+  }
+
+  /**
+   * Return the template IDs that don't belong to the company
+   */
+  private async findInvalidTemplateIds(companyId: string, ids: (string | null)[]): Promise<string[]> {
+    const templateIds = [...new Set(ids.filter((id): id is string => !!id))];
+
+    if (templateIds.length === 0) {
+      return [];
+    }
+
+    const templates = await db
+      .select({ id: shiftTemplates.id })
+      .from(shiftTemplates)
+      .where(
+        and(
+          inArray(shiftTemplates.id, templateIds),
+          eq(shiftTemplates.companyId, companyId)
+        )
+      );
+
+    const validIds = new Set(templates.map(template => template.id));
+    return templateIds.filter(id => !validIds.has(id));
+  }
+
+  /**
+   * Ensure an assignment points at a template or rotation owned by the company
+   */
+  private async validateAssignmentTarget(
+    companyId: string,
+    shiftTemplateId?: string,
+    rotationId?: string
+  ): Promise<ShiftServiceResult<never>> {
+    if (shiftTemplateId) {
+      const template = await this.getTemplate(companyId, shiftTemplateId);
+      if (!template.success) {
+        return {
+          success: false,
+          message: 'Shift template not found',
+          error: 'INVALID_SHIFT_TEMPLATE'
+        };
+      }
+    }
+
+    if (rotationId) {
+      const rotation = await this.getRotation(companyId, rotationId);
+      if (!rotation.success) {
+        return {
+          success: false,
+          message: 'Shift rotation not found',
+          error: 'INVALID_SHIFT_ROTATION'
+        };
+      }
+    }
+
+    return { success: true };
+  }
+}
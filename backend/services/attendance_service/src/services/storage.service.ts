@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import S3 from 'aws-sdk/clients/s3';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Object storage used for attendance photos. Keys are relative paths such as
+ * attendance/<companyId>/<userId>/2024/03/<uuid>-clock-in.jpg
+ */
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+const VALID_KEY = /^[A-Za-z0-9][A-Za-z0-9/_.-]*$/;
+
+function assertValidKey(key: string): void {
+  if (!VALID_KEY.test(key) || key.split('/').includes('..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Files under UPLOAD_PATH. Signed URLs point at GET /api/attendance/photos/file,
+ * which checks an HMAC of the key and expiry before serving the file.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(
+    private readonly rootPath: string,
+    private readonly signingSecret: string,
+    private readonly publicUrl: string
+  ) {}
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.resolve(key));
+      return {
+        body,
+        contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const query = new URLSearchParams({
+      key,
+      expires: expires.toString(),
+      signature: this.sign(key, expires)
+    });
+
+    return `${this.publicUrl}/api/attendance/photos/file?${query.toString()}`;
+  }
+
+  /**
+   * Check a signed URL's key, expiry (unix seconds) and signature
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootPath, key);
+  }
+}
+
+/**
+ * S3 or an S3-compatible store (MinIO with AWS_S3_ENDPOINT and AWS_S3_FORCE_PATH_STYLE)
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly client: S3;
+
+  constructor(private readonly bucket: string) {
+    this.client = new S3({
+      region: env.AWS_REGION,
+      signatureVersion: 'v4',
+      s3ForcePathStyle: env.AWS_S3_FORCE_PATH_STYLE,
+      ...(env.AWS_S3_ENDPOINT && { endpoint: env.AWS_S3_ENDPOINT }),
+      ...(env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY && {
+        accessKeyId: env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY
+      })
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType
+    }).promise();
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    assertValidKey(key);
+    try {
+      const object = await this.client.getObject({ Bucket: this.bucket, Key: key }).promise();
+      return {
+        body: object.Body as Buffer,
+        contentType: object.ContentType ?? 'application/octet-stream'
+      };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    return this.client.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      Expires: expiresInSeconds
+    });
+  }
+}
+
+let storageDriver: StorageDriver | null = null;
+
+/**
+ * The configured storage driver (STORAGE_DRIVER), created on first use
+ */
+export function getStorageDriver(): StorageDriver {
+  if (storageDriver) {
+    return storageDriver;
+  }
+
+  if (env.STORAGE_DRIVER === 's3') {
+    if (!env.AWS_S3_BUCKET) {
+      throw new Error('AWS_S3_BUCKET is required when STORAGE_DRIVER is s3');
+    }
+    storageDriver = new S3StorageDriver(env.AWS_S3_BUCKET);
+  } else {
+    storageDriver = new LocalStorageDriver(path.resolve(env.UPLOAD_PATH), env.STORAGE_SIGNING_SECRET, env.STORAGE_PUBLIC_URL);
+  }
+
+  logger.info('Storage driver initialized', {
+    service: 'attendance-service',
+    driver: storageDriver.name
+  });
+
+  return storageDriver;
+}
@@ -0,0 +1,894 @@
+import { db } from '../config/database';
+import { attendanceRecords } from '../db/schema/attendance';
+import { payPeriods, timesheets } from '../db/schema/timesheet';
+import { logger } from '../utils/logger';
+import { PolicyService, AttendancePolicy } from './policy.service';
+import { ShiftService } from './shift.service';
+import { OvertimeService, OvertimePeriodSummary } from './overtime.service';
+import { LeaveService } from './leave.service';
+import {
+  calculateWorkHours,
+  getLocalDateString,
+  addDaysToDateString,
+  daysBetweenDateStrings,
+  zonedTimeToUtc
+} from '../utils/helpers';
+import { eq, and, desc, gte, lt, lte, ne, inArray, isNotNull } from 'drizzle-orm';
+
+export type PayPeriod = typeof payPeriods.$inferSelect;
+export type Timesheet = typeof timesheets.$inferSelect;
+
+export interface TimesheetFilters {
+  payPeriodId?: string;
+  userId?: string;
+  status?: Timesheet['status'];
+}
+
+export interface TimesheetServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type TimesheetTotals = Pick<
+  typeof timesheets.$inferInsert,
+  | 'recordCount'
+  | 'workedMinutes'
+  | 'breakMinutes'
+  | 'regularMinutes'
+  | 'overtimeMinutes'
+  | 'doubleTimeMinutes'
+  | 'nightMinutes'
+  | 'weekendMinutes'
+  | 'holidayMinutes'
+  | 'lateMinutes'
+  | 'earlyLeaveMinutes'
+  | 'leaveMinutes'
+  | 'paidLeaveMinutes'
+  | 'attendanceIds'
+>;
+
+export class TimesheetService {
+  private readonly policyService = new PolicyService();
+  private readonly shiftService = new ShiftService();
+  private readonly overtimeService = new OvertimeService();
+  private readonly leaveService = new LeaveService();
+
+  /**
+   * Get the pay period containing a local date, creating it from the company policy if needed
+   */
+  async ensurePayPeriod(companyId: string, localDate?: string): Promise<TimesheetServiceResult<PayPeriod>> {
+    try {
+      const policy = await this.policyService.getPolicy(companyId);
+      const date = localDate || getLocalDateString(new Date(), await this.shiftService.getCompanyTimezone(companyId));
+      const { startDate, endDate } = this.getPeriodBounds(policy, date);
+
+      await db
+        .insert(payPeriods)
+        .values({
+          companyId,
+          frequency: policy.payPeriodFrequency,
+          startDate,
+          endDate
+        })
+        .onConflictDoNothing({ target: [payPeriods.companyId, payPeriods.startDate] });
+
+      const [payPeriod] = await db
+        .select()
+        .from(payPeriods)
+        .where(
+          and(
+            eq(payPeriods.companyId, companyId),
+            eq(payPeriods.startDate, startDate)
+          )
+        )
+        .limit(1);
+
+      if (!payPeriod) {
+        return {
+          success: false,
+          message: 'Failed to create pay period',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      return {
+        success: true,
+        data: payPeriod
+      };
+
+    } catch (error) {
+      logger.error('Failed to create pay period:', error);
+      return {
+        success: false,
+        message: 'Failed to create pay period',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a company's pay periods, most recent first
+   */
+  async getPayPeriods(companyId: string, limit: number = 12): Promise<TimesheetServiceResult<PayPeriod[]>> {
+    try {
+      const periods = await db
+        .select()
+        .from(payPeriods)
+        .where(eq(payPeriods.companyId, companyId))
+        .orderBy(desc(payPeriods.startDate))
+        .limit(limit);
+
+      return {
+        success: true,
+        data: periods
+      };
+
+    } catch (error) {
+      logger.error('Failed to get pay periods:', error);
+      return {
+        success: false,
+        message: 'Failed to get pay periods',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a pay period by ID
+   */
+  async getPayPeriod(companyId: string, payPeriodId: string): Promise<TimesheetServiceResult<PayPeriod>> {
+    try {
+      const [payPeriod] = await db
+        .select()
+        .from(payPeriods)
+        .where(
+          and(
+            eq(payPeriods.id, payPeriodId),
+            eq(payPeriods.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!payPeriod) {
+        return {
+          success: false,
+          message: 'Pay period not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: payPeriod
+      };
+
+    } catch (error) {
+      logger.error('Failed to get pay period:', error);
+      return {
+        success: false,
+        message: 'Failed to get pay period',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create or refresh draft timesheets for every employee with attendance or approved leave in a pay period.
+   * Submitted and approved timesheets are left untouched.
+   */
+  async generateTimesheets(companyId: string, payPeriodId: string): Promise<TimesheetServiceResult<Timesheet[]>> {
+    try {
+      const periodResult = await this.getPayPeriod(companyId, payPeriodId);
+      if (!periodResult.success || !periodResult.data) {
+        return {
+          success: false,
+          message: periodResult.message || 'Pay period not found',
+          error: periodResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const payPeriod = periodResult.data;
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+
+      const employees = await db
+        .selectDistinct({ userId: attendanceRecords.userId })
+        .from(attendanceRecords)
+        .where(
+          and(
+            eq(attendanceRecords.companyId, companyId),
+            isNotNull(attendanceRecords.clockOutTime),
+            ...this.getPeriodConditions(payPeriod, timeZone)
+          )
+        );
+
+      const leaveDays = await this.leaveService.getApprovedLeaveDays(companyId, payPeriod.startDate, payPeriod.endDate);
+      const userIds = new Set([
+        ...employees.map(employee => employee.userId),
+        ...leaveDays.map(day => day.userId)
+      ]);
+
+      const overtimeResult = await this.overtimeService.calculatePeriod(companyId, payPeriod.startDate, payPeriod.endDate);
+      const overtimeByUser = new Map((overtimeResult.data || []).map(summary => [summary.userId, summary]));
+
+      const generated: Timesheet[] = [];
+
+      for (const userId of userIds) {
+        const [existing] = await db
+          .select({ status: timesheets.status })
+          .from(timesheets)
+          .where(
+            and(
+              eq(timesheets.userId, userId),
+              eq(timesheets.payPeriodId, payPeriodId)
+            )
+          )
+          .limit(1);
+
+        if (existing && (existing.status === 'submitted' || existing.status === 'approved')) {
+          continue;
+        }
+
+        const totals = await this.calculateTotals(
+          companyId,
+          userId,
+          payPeriod,
+          timeZone,
+          overtimeByUser.get(userId)
+        );
+
+        const timesheet = await this.upsertTimesheet(companyId, userId, payPeriodId, {
+          ...totals,
+          status: existing?.status ?? 'draft'
+        });
+
+        if (timesheet) {
+          generated.push(timesheet);
+        }
+      }
+
+      logger.info('Timesheets generated', {
+        service: 'attendance-service',
+        companyId,
+        payPeriodId,
+        count: generated.length
+      });
+
+      return {
+        success: true,
+        message: 'Timesheets generated successfully',
+        data: generated
+      };
+
+    } catch (error) {
+      logger.error('Failed to generate timesheets:', error);
+      return {
+        success: false,
+        message: 'Failed to generate timesheets',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get timesheets for a company
+   */
+  async getTimesheets(companyId: string, filters: TimesheetFilters = {}): Promise<TimesheetServiceResult<Timesheet[]>> {
+    try {
+      const whereConditions = [eq(timesheets.companyId, companyId)];
+
+      if (filters.payPeriodId) {
+        whereConditions.push(eq(timesheets.payPeriodId, filters.payPeriodId));
+      }
+
+      if (filters.userId) {
+        whereConditions.push(eq(timesheets.userId, filters.userId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(timesheets.status, filters.status));
+      }
+
+      const results = await db
+        .select()
+        .from(timesheets)
+        .where(and(...whereConditions))
+        .orderBy(desc(timesheets.createdAt));
+
+      return {
+        success: true,
+        data: results
+      };
+
+    } catch (error) {
+      logger.error('Failed to get timesheets:', error);
+      return {
+        success: false,
+        message: 'Failed to get timesheets',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a timesheet by ID.
+   * When userId is given, only that employee's own timesheet is accessible.
+   */
+  async getTimesheet(companyId: string, timesheetId: string, userId?: string): Promise<TimesheetServiceResult<Timesheet>> {
+    try {
+      const [timesheet] = await db
+        .select()
+        .from(timesheets)
+        .where(
+          and(
+            eq(timesheets.id, timesheetId),
+            eq(timesheets.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!timesheet) {
+        return {
+          success: false,
+          message: 'Timesheet not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (userId && timesheet.userId !== userId) {
+        return {
+          success: false,
+          message: 'Access denied',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      return {
+        success: true,
+        data: timesheet
+      };
+
+    } catch (error) {
+      logger.error('Failed to get timesheet:', error);
+      return {
+        success: false,
+        message: 'Failed to get timesheet',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Recalculate an employee's timesheet for a pay period and submit it for approval
+   */
+  async submitTimesheet(
+    companyId: string,
+    userId: string,
+    payPeriodId: string,
+    notes?: string
+  ): Promise<TimesheetServiceResult<Timesheet>> {
+    try {
+      const periodResult = await this.getPayPeriod(companyId, payPeriodId);
+      if (!periodResult.success || !periodResult.data) {
+        return {
+          success: false,
+          message: periodResult.message || 'Pay period not found',
+          error: periodResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const [existing] = await db
+        .select({ status: timesheets.status })
+        .from(timesheets)
+        .where(
+          and(
+            eq(timesheets.userId, userId),
+            eq(timesheets.payPeriodId, payPeriodId)
+          )
+        )
+        .limit(1);
+
+      if (existing && (existing.status === 'submitted' || existing.status === 'approved')) {
+        return {
+          success: false,
+          message: `Timesheet is already ${existing.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      const payPeriod = periodResult.data;
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+      const overtimeResult = await this.overtimeService.calculatePeriod(companyId, payPeriod.startDate, payPeriod.endDate, userId);
+      const totals = await this.calculateTotals(companyId, userId, payPeriod, timeZone, overtimeResult.data?.[0]);
+
+      const timesheet = await this.upsertTimesheet(companyId, userId, payPeriodId, {
+        ...totals,
+        status: 'submitted',
+        submittedAt: new Date(),
+        employeeNotes: notes || null,
+        reviewedBy: null,
+        reviewedAt: null,
+        reviewNotes: null
+      });
+
+      if (!timesheet) {
+        return {
+          success: false,
+          message: 'Failed to submit timesheet',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Timesheet submitted', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        timesheetId: timesheet.id
+      });
+
+      return {
+        success: true,
+        message: 'Timesheet submitted successfully',
+        data: timesheet
+      };
+
+    } catch (error) {
+      logger.error('Failed to submit timesheet:', error);
+      return {
+        success: false,
+        message: 'Failed to submit timesheet',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Approve a submitted timesheet and lock its attendance records.
+   * Records stay editable while a timesheet is submitted, so the totals are recalculated first. When they
+   * changed (a clock-out, correction or late offline punch), the timesheet is refreshed and sent back for
+   * review with TIMESHEET_CHANGED instead of locking a stale snapshot.
+   */
+  async approveTimesheet(
+    companyId: string,
+    timesheetId: string,
+    reviewerId: string,
+    notes?: string
+  ): Promise<TimesheetServiceResult<Timesheet>> {
+    try {
+      const existing = await this.getTimesheet(companyId, timesheetId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      if (existing.data.status !== 'submitted') {
+        return {
+          success: false,
+          message: 'Only submitted timesheets can be approved',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      const periodResult = await this.getPayPeriod(companyId, existing.data.payPeriodId);
+      if (!periodResult.success || !periodResult.data) {
+        return {
+          success: false,
+          message: periodResult.message || 'Pay period not found',
+          error: periodResult.error || 'NOT_FOUND'
+        };
+      }
+
+      const { userId, payPeriodId } = existing.data;
+      const payPeriod = periodResult.data;
+      const timeZone = await this.shiftService.getCompanyTimezone(companyId);
+      const overtimeResult = await this.overtimeService.calculatePeriod(companyId, payPeriod.startDate, payPeriod.endDate, userId);
+      const totals = await this.calculateTotals(companyId, userId, payPeriod, timeZone, overtimeResult.data?.[0]);
+
+      if (this.totalsChanged(existing.data, totals)) {
+        const refreshed = await this.upsertTimesheet(companyId, userId, payPeriodId, totals);
+
+        logger.info('Timesheet totals changed since submission', {
+          service: 'attendance-service',
+          companyId,
+          timesheetId
+        });
+
+        return {
+          success: false,
+          message: 'Attendance changed since the timesheet was submitted. Review the updated totals and approve again.',
+          error: 'TIMESHEET_CHANGED',
+          ...(refreshed && { data: refreshed })
+        };
+      }
+
+      const lockedAt = new Date();
+      const attendanceIds = (totals.attendanceIds as string[]) || [];
+
+      const timesheet = await db.transaction(async (tx) => {
+        // Same records as just totalled, unchanged, or nothing is approved
+        const current = await tx
+          .select({
+            id: attendanceRecords.id,
+            clockInTime: attendanceRecords.clockInTime,
+            clockOutTime: attendanceRecords.clockOutTime,
+            breakTime: attendanceRecords.breakTime,
+            workedMinutes: attendanceRecords.workedMinutes
+          })
+          .from(attendanceRecords)
+          .where(
+            and(
+              eq(attendanceRecords.userId, userId),
+              eq(attendanceRecords.companyId, companyId),
+              isNotNull(attendanceRecords.clockOutTime),
+              ne(attendanceRecords.status, 'rejected'),
+              ...this.getPeriodConditions(payPeriod, timeZone)
+            )
+          );
+
+        if (!this.sameIds(current.map(record => record.id), attendanceIds) || this.sumWorkedMinutes(current) !== totals.workedMinutes) {
+          return 'changed' as const;
+        }
+
+        const [approved] = await tx
+          .update(timesheets)
+          .set({
+            status: 'approved',
+            reviewedBy: reviewerId,
+            reviewedAt: lockedAt,
+            reviewNotes: notes || null,
+            lockedAt,
+            updatedAt: lockedAt
+          })
+          .where(
+            and(
+              eq(timesheets.id, timesheetId),
+              eq(timesheets.status, 'submitted')
+            )
+          )
+          .returning();
+
+        if (approved && attendanceIds.length > 0) {
+          await tx
+            .update(attendanceRecords)
+            .set({
+              timesheetId,
+              lockedAt,
+              updatedAt: lockedAt
+            })
+            .where(
+              and(
+                eq(attendanceRecords.companyId, companyId),
+                inArray(attendanceRecords.id, attendanceIds)
+              )
+            );
+        }
+
+        return approved;
+      });
+
+      if (timesheet === 'changed') {
+        return {
+          success: false,
+          message: 'Attendance changed while the timesheet was being approved. Please try again.',
+          error: 'TIMESHEET_CHANGED'
+        };
+      }
+
+      if (!timesheet) {
+        return {
+          success: false,
+          message: 'Only submitted timesheets can be approved',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info('Timesheet approved and locked', {
+        service: 'attendance-service',
+        companyId,
+        timesheetId,
+        reviewerId,
+        lockedRecords: attendanceIds.length
+      });
+
+      return {
+        success: true,
+        message: 'Timesheet approved successfully',
+        data: timesheet
+      };
+
+    } catch (error) {
+      logger.error('Failed to approve timesheet:', error);
+      return {
+        success: false,
+        message: 'Failed to approve timesheet',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Whether the employee's timesheet for the pay period containing an instant is approved.
+   * Records added to such a period would never be totalled or exported.
+   */
+  async isPeriodLocked(companyId: string, userId: string, at: Date): Promise<boolean> {
+    const localDate = getLocalDateString(at, await this.shiftService.getCompanyTimezone(companyId));
+
+    const [approved] = await db
+      .select({ id: timesheets.id })
+      .from(timesheets)
+      .innerJoin(payPeriods, eq(timesheets.payPeriodId, payPeriods.id))
+      .where(
+        and(
+          eq(timesheets.companyId, companyId),
+          eq(timesheets.userId, userId),
+          eq(timesheets.status, 'approved'),
+          lte(payPeriods.startDate, localDate),
+          gte(payPeriods.endDate, localDate)
+        )
+      )
+      .limit(1);
+
+    return !!approved;
+  }
+
+  /**
+   * Send a submitted timesheet back to the employee
+   */
+  async rejectTimesheet(
+    companyId: string,
+    timesheetId: string,
+    reviewerId: string,
+    reason: string
+  ): Promise<TimesheetServiceResult<Timesheet>> {
+    try {
+      const [timesheet] = await db
+        .update(timesheets)
+        .set({
+          status: 'rejected',
+          reviewedBy: reviewerId,
+          reviewedAt: new Date(),
+          reviewNotes: reason,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(timesheets.id, timesheetId),
+            eq(timesheets.companyId, companyId),
+            eq(timesheets.status, 'submitted')
+          )
+        )
+        .returning();
+
+      if (!timesheet) {
+        const existing = await this.getTimesheet(companyId, timesheetId);
+        return existing.success
+          ? { success: false, message: 'Only submitted timesheets can be rejected', error: 'INVALID_STATUS' }
+          : existing;
+      }
+
+      logger.info('Timesheet rejected', {
+        service: 'attendance-service',
+        companyId,
+        timesheetId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: 'Timesheet rejected successfully',
+        data: timesheet
+      };
+
+    } catch (error) {
+      logger.error('Failed to reject timesheet:', error);
+      return {
+        success: false,
+        message: 'Failed to reject timesheet',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Reopen an approved timesheet as a draft and unlock its attendance records
+   */
+  async reopenTimesheet(
+    companyId: string,
+    timesheetId: string,
+    reviewerId: string,
+    reason: string
+  ): Promise<TimesheetServiceResult<Timesheet>> {
+    try {
+      const timesheet = await db.transaction(async (tx) => {
+        const [reopened] = await tx
+          .update(timesheets)
+          .set({
+            status: 'draft',
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            reviewNotes: reason,
+            lockedAt: null,
+            updatedAt: new Date()
+          })
+          .where(
+            and(
+              eq(timesheets.id, timesheetId),
+              eq(timesheets.companyId, companyId),
+              eq(timesheets.status, 'approved')
+            )
+          )
+          .returning();
+
+        if (reopened) {
+          await tx
+            .update(attendanceRecords)
+            .set({
+              timesheetId: null,
+              lockedAt: null,
+              updatedAt: new Date()
+            })
+            .where(eq(attendanceRecords.timesheetId, timesheetId));
+        }
+
+        return reopened;
+      });
+
+      if (!timesheet) {
+        const existing = await this.getTimesheet(companyId, timesheetId);
+        return existing.success
+          ? { success: false, message: 'Only approved timesheets can be reopened', error: 'INVALID_STATUS' }
+          : existing;
+      }
+
+      logger.info('Timesheet reopened and unlocked', {
+        service: 'attendance-service',
+        companyId,
+        timesheetId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: 'Timesheet reopened successfully',
+        data: timesheet
+      };
+
+    } catch (error) {
+      logger.error('Failed to reopen timesheet:', error);
+      return {
+        success: false,
+        message: 'Failed to reopen timesheet',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Total an employee's completed attendance records and approved leave for a pay period
+   */
+  private async calculateTotals(
+    companyId: string,
+    userId: string,
+    payPeriod: PayPeriod,
+    timeZone: string,
+    overtime?: OvertimePeriodSummary
+  ): Promise<TimesheetTotals> {
+    const records = await db
+      .select({
+        id: attendanceRecords.id,
+        clockInTime: attendanceRecords.clockInTime,
+        clockOutTime: attendanceRecords.clockOutTime,
+        breakTime: attendanceRecords.breakTime,
+        workedMinutes: attendanceRecords.workedMinutes,
+        lateMinutes: attendanceRecords.lateMinutes,
+        earlyLeaveMinutes: attendanceRecords.earlyLeaveMinutes
+      })
+      .from(attendanceRecords)
+      .where(
+        and(
+          eq(attendanceRecords.userId, userId),
+          eq(attendanceRecords.companyId, companyId),
+          isNotNull(attendanceRecords.clockOutTime),
+          ne(attendanceRecords.status, 'rejected'),
+          ...this.getPeriodConditions(payPeriod, timeZone)
+        )
+      );
+
+    const workedMinutes = this.sumWorkedMinutes(records);
+
+    const leaveDays = await this.leaveService.getApprovedLeaveDays(companyId, payPeriod.startDate, payPeriod.endDate, userId);
+
+    return {
+      recordCount: records.length,
+      workedMinutes,
+      breakMinutes: records.reduce((sum, record) => sum + (record.breakTime || 0), 0),
+      regularMinutes: overtime ? overtime.regularMinutes : workedMinutes,
+      overtimeMinutes: overtime ? overtime.dailyOvertimeMinutes + overtime.weeklyOvertimeMinutes : 0,
+      doubleTimeMinutes: overtime?.dailyDoubleTimeMinutes ?? 0,
+      nightMinutes: overtime?.nightMinutes ?? 0,
+      weekendMinutes: overtime?.weekendMinutes ?? 0,
+      holidayMinutes: overtime?.holidayMinutes ?? 0,
+      lateMinutes: records.reduce((sum, record) => sum + (record.lateMinutes || 0), 0),
+      earlyLeaveMinutes: records.reduce((sum, record) => sum + (record.earlyLeaveMinutes || 0), 0),
+      leaveMinutes: leaveDays.reduce((sum, day) => sum + day.minutes, 0),
+      paidLeaveMinutes: leaveDays.reduce((sum, day) => sum + (day.isPaid ? day.minutes : 0), 0),
+      attendanceIds: records.map(record => record.id)
+    };
+  }
+
+  private sumWorkedMinutes(records: { clockInTime: Date; clockOutTime: Date | null; breakTime: number | null; workedMinutes: number | null }[]): number {
+    return records.reduce((sum, record) => sum + (
+      record.workedMinutes ??
+      Math.round(calculateWorkHours(record.clockInTime, record.clockOutTime!, record.breakTime || 0) * 60)
+    ), 0);
+  }
+
+  private totalsChanged(timesheet: Timesheet, totals: TimesheetTotals): boolean {
+    const keys = Object.keys(totals) as (keyof TimesheetTotals)[];
+
+    return keys.some(key => key === 'attendanceIds'
+      ? !this.sameIds((timesheet.attendanceIds as string[]) || [], (totals.attendanceIds as string[]) || [])
+      : timesheet[key] !== totals[key]);
+  }
+
+  private sameIds(a: string[], b: string[]): boolean {
+    const set = new Set(a);
+    return a.length === b.length && b.every(id => set.has(id));
+  }
+
+  private async upsertTimesheet(
+    companyId: string,
+    userId: string,
+    payPeriodId: string,
+    values: Partial<typeof timesheets.$inferInsert>
+  ): Promise<Timesheet | undefined> {
+    const set = {
+      ...values,
+      calculatedAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const [timesheet] = await db
+      .insert(timesheets)
+      .values({
+        companyId,
+        userId,
+        payPeriodId,
+        ...set
+      })
+      .onConflictDoUpdate({
+        target: [timesheets.userId, timesheets.payPeriodId],
+        set
+      })
+      .returning();
+
+    return timesheet;
+  }
+
+  // Records whose clock-in falls on a local date inside the pay period
+  private getPeriodConditions(payPeriod: PayPeriod, timeZone: string) {
+    return [
+      gte(attendanceRecords.clockInTime, zonedTimeToUtc(payPeriod.startDate, '00:00', timeZone)),
+      lt(attendanceRecords.clockInTime, zonedTimeToUtc(addDaysToDateString(payPeriod.endDate, 1), '00:00', timeZone))
+    ];
+  }
+
+  /**
+   * Start and end dates of the pay period containing a local date
+   */
+  private getPeriodBounds(policy: AttendancePolicy, localDate: string): { startDate: string; endDate: string } {
+    if (policy.payPeriodFrequency === 'monthly') {
+      const [year = 1970, month = 1] = localDate.split('-').map(Number);
+      const startDate = `${localDate.slice(0, 7)}-01`;
+      const nextMonth = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+
+      return { startDate, endDate: addDaysToDateString(nextMonth, -1) };
+    }
+
+    const length = policy.payPeriodFrequency === 'weekly' ? 7 : 14;
+    const offset = Math.floor(daysBetweenDateStrings(policy.payPeriodAnchorDate, localDate) / length) * length;
+    const startDate = addDaysToDateString(policy.payPeriodAnchorDate, offset);
+
+    return { startDate, endDate: addDaysToDateString(startDate, length - 1) };
+  }
+}
@@ -0,0 +1,651 @@
+import { db } from '../config/database';
+import { users } from '../db/schema/auth';
+import { alternateWorkLocations } from '../db/schema/workLocation';
+import { logger } from '../utils/logger';
+import { GeofenceService, GeofenceLocation } from './geofence.service';
+import { PolicyService } from './policy.service';
+import { ShiftService } from './shift.service';
+import { WorkModeService, WorkModeSchedule } from './workMode.service';
+import { calculateDistance, getLocalDateString, getIsoWeekday, daysBetweenDateStrings } from '../utils/helpers';
+import { eq, and, desc, gte, lte, inArray } from 'drizzle-orm';
+
+export type AlternateWorkLocation = typeof alternateWorkLocations.$inferSelect;
+
+export interface AlternateWorkLocationData {
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+export interface AlternateWorkLocationFilters {
+  userId?: string;
+  status?: AlternateWorkLocation['status'];
+}
+
+export interface HomeLocation {
+  workMode: 'onsite' | 'remote' | 'hybrid';
+  preferredRemoteDays: number[];
+  homeAddress: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  radiusMeters: number;
+  isRegistered: boolean;
+  expectedWorkModeToday: 'onsite' | 'remote';
+}
+
+export interface ClockInLocationCheck {
+  action: 'allow' | 'flag' | 'reject';
+  reason: string | null; // Error code when the clock-in is flagged or rejected
+  message: string | null;
+  effectiveWorkMode: 'onsite' | 'remote'; // Hybrid clock-ins resolve to the day's expected mode
+  expectedWorkMode: 'onsite' | 'remote';
+  workModeScheduleId: string | null; // Approved schedule that set the expected mode
+  workModeMismatch: boolean;
+  locationType: 'site' | 'home' | 'alternate' | null;
+  locationId: string | null; // Geofence or alternate location
+  locationName: string | null;
+  distanceMeters: number | null;
+  zone: 'inside' | 'buffer' | 'outside' | null;
+}
+
+export interface WorkLocationServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type WorkModeUser = {
+  workMode: string | null;
+  preferredRemoteDays: unknown;
+  homeAddress: string | null;
+  homeLatitude: string | null;
+  homeLongitude: string | null;
+  homeGeofenceRadius: number | null;
+};
+
+const MAX_ALTERNATE_LOCATION_DAYS = 90;
+const WEEKDAY_NAMES = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export class WorkLocationService {
+  private readonly geofenceService = new GeofenceService();
+  private readonly policyService = new PolicyService();
+  private readonly shiftService = new ShiftService();
+  private readonly workModeService = new WorkModeService();
+
+  /**
+   * Get an employee's registered home location and work mode
+   */
+  async getHomeLocation(companyId: string, userId: string): Promise<WorkLocationServiceResult<HomeLocation>> {
+    try {
+      const user = await this.getWorkModeUser(companyId, userId);
+
+      if (!user) {
+        return {
+          success: false,
+          message: 'User not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      const today = getLocalDateString(new Date(), timezone);
+      const schedule = await this.workModeService.getApprovedSchedule(companyId, userId, today);
+      const latitude = user.homeLatitude !== null ? parseFloat(user.homeLatitude) : null;
+      const longitude = user.homeLongitude !== null ? parseFloat(user.homeLongitude) : null;
+
+      return {
+        success: true,
+        data: {
+          workMode: this.normalizeWorkMode(user.workMode),
+          preferredRemoteDays: this.getRemoteWeekdays(user.preferredRemoteDays),
+          homeAddress: user.homeAddress,
+          latitude,
+          longitude,
+          radiusMeters: user.homeGeofenceRadius ?? 100,
+          isRegistered: latitude !== null && longitude !== null,
+          expectedWorkModeToday: this.getExpectedWorkMode(user, today, schedule)
+        }
+      };
+
+    } catch (error) {
+      logger.error('Failed to get home location:', error);
+      return {
+        success: false,
+        message: 'Failed to get home location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Request a temporary alternate work location for remote clock-ins
+   */
+  async requestAlternateLocation(
+    companyId: string,
+    userId: string,
+    data: AlternateWorkLocationData
+  ): Promise<WorkLocationServiceResult<AlternateWorkLocation>> {
+    try {
+      if (daysBetweenDateStrings(data.startDate, data.endDate) + 1 > MAX_ALTERNATE_LOCATION_DAYS) {
+        return {
+          success: false,
+          message: `An alternate location can cover at most ${MAX_ALTERNATE_LOCATION_DAYS} days`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const [overlapping] = await db
+        .select({ id: alternateWorkLocations.id })
+        .from(alternateWorkLocations)
+        .where(
+          and(
+            eq(alternateWorkLocations.userId, userId),
+            eq(alternateWorkLocations.companyId, companyId),
+            inArray(alternateWorkLocations.status, ['pending', 'approved']),
+            lte(alternateWorkLocations.startDate, data.endDate),
+            gte(alternateWorkLocations.endDate, data.startDate)
+          )
+        )
+        .limit(1);
+
+      if (overlapping) {
+        return {
+          success: false,
+          message: 'An alternate location is already requested for these dates',
+          error: 'OVERLAPPING_REQUEST'
+        };
+      }
+
+      const [location] = await db.insert(alternateWorkLocations).values({
+        ...data,
+        latitude: data.latitude.toString(),
+        longitude: data.longitude.toString(),
+        companyId,
+        userId
+      }).returning();
+
+      if (!location) {
+        return {
+          success: false,
+          message: 'Failed to request alternate location',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Alternate work location requested', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        locationId: location.id,
+        startDate: data.startDate,
+        endDate: data.endDate
+      });
+
+      return {
+        success: true,
+        message: 'Alternate location requested successfully',
+        data: location
+      };
+
+    } catch (error) {
+      logger.error('Failed to request alternate location:', error);
+      return {
+        success: false,
+        message: 'Failed to request alternate location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get alternate location requests
+   */
+  async getAlternateLocations(
+    companyId: string,
+    filters: AlternateWorkLocationFilters = {}
+  ): Promise<WorkLocationServiceResult<AlternateWorkLocation[]>> {
+    try {
+      const whereConditions = [eq(alternateWorkLocations.companyId, companyId)];
+
+      if (filters.userId) {
+        whereConditions.push(eq(alternateWorkLocations.userId, filters.userId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(alternateWorkLocations.status, filters.status));
+      }
+
+      const locations = await db
+        .select()
+        .from(alternateWorkLocations)
+        .where(and(...whereConditions))
+        .orderBy(desc(alternateWorkLocations.startDate));
+
+      return {
+        success: true,
+        data: locations
+      };
+
+    } catch (error) {
+      logger.error('Failed to get alternate locations:', error);
+      return {
+        success: false,
+        message: 'Failed to get alternate locations',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Approve or reject a pending alternate location
+   */
+  async reviewAlternateLocation(
+    companyId: string,
+    locationId: string,
+    reviewerId: string,
+    decision: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<WorkLocationServiceResult<AlternateWorkLocation>> {
+    try {
+      const existing = await this.getAlternateLocation(companyId, locationId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      if (existing.data.status !== 'pending') {
+        return {
+          success: false,
+          message: `Alternate location is already ${existing.data.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      if (existing.data.userId === reviewerId) {
+        return {
+          success: false,
+          message: 'You cannot review your own alternate location',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      const [location] = await db
+        .update(alternateWorkLocations)
+        .set({
+          status: decision,
+          reviewedBy: reviewerId,
+          reviewedAt: new Date(),
+          reviewNotes: notes ?? null,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(alternateWorkLocations.id, locationId),
+            eq(alternateWorkLocations.status, 'pending')
+          )
+        )
+        .returning();
+
+      if (!location) {
+        return {
+          success: false,
+          message: 'Alternate location was changed by another request',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      logger.info(`Alternate work location ${decision}`, {
+        service: 'attendance-service',
+        companyId,
+        locationId,
+        reviewerId
+      });
+
+      return {
+        success: true,
+        message: `Alternate location ${decision} successfully`,
+        data: location
+      };
+
+    } catch (error) {
+      logger.error('Failed to review alternate location:', error);
+      return {
+        success: false,
+        message: 'Failed to review alternate location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending or approved alternate location (owner or admin)
+   */
+  async cancelAlternateLocation(
+    companyId: string,
+    locationId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<WorkLocationServiceResult<AlternateWorkLocation>> {
+    try {
+      const existing = await this.getAlternateLocation(companyId, locationId, isAdmin ? undefined : userId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      if (existing.data.status !== 'pending' && existing.data.status !== 'approved') {
+        return {
+          success: false,
+          message: `Alternate location is already ${existing.data.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      const [location] = await db
+        .update(alternateWorkLocations)
+        .set({
+          status: 'cancelled',
+          updatedAt: new Date()
+        })
+        .where(eq(alternateWorkLocations.id, locationId))
+        .returning();
+
+      if (!location) {
+        return {
+          success: false,
+          message: 'Alternate location not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Alternate work location cancelled', {
+        service: 'attendance-service',
+        companyId,
+        locationId,
+        cancelledBy: userId
+      });
+
+      return {
+        success: true,
+        message: 'Alternate location cancelled successfully',
+        data: location
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel alternate location:', error);
+      return {
+        success: false,
+        message: 'Failed to cancel alternate location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single alternate location, optionally only if it belongs to the user
+   */
+  async getAlternateLocation(
+    companyId: string,
+    locationId: string,
+    userId?: string
+  ): Promise<WorkLocationServiceResult<AlternateWorkLocation>> {
+    try {
+      const whereConditions = [
+        eq(alternateWorkLocations.id, locationId),
+        eq(alternateWorkLocations.companyId, companyId)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(alternateWorkLocations.userId, userId));
+      }
+
+      const [location] = await db
+        .select()
+        .from(alternateWorkLocations)
+        .where(and(...whereConditions))
+        .limit(1);
+
+      if (!location) {
+        return {
+          success: false,
+          message: 'Alternate location not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: location
+      };
+
+    } catch (error) {
+      logger.error('Failed to get alternate location:', error);
+      return {
+        success: false,
+        message: 'Failed to get alternate location',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Verify where a clock-in was made. Onsite clock-ins are checked against company geofences;
+   * remote clock-ins against an approved alternate location for the day or the registered home.
+   * A clock-in in a different mode than the employee's expected mode for the day is flagged.
+   */
+  async verifyClockIn(
+    companyId: string,
+    userId: string,
+    workMode: 'onsite' | 'remote' | 'hybrid',
+    location: GeofenceLocation | undefined,
+    at: Date
+  ): Promise<ClockInLocationCheck> {
+    const user = await this.getWorkModeUser(companyId, userId);
+    const timezone = await this.shiftService.getCompanyTimezone(companyId);
+    const localDate = getLocalDateString(at, timezone);
+
+    const schedule = await this.workModeService.getApprovedSchedule(companyId, userId, localDate);
+
+    const expectedWorkMode = this.getExpectedWorkMode(user, localDate, schedule);
+    const effectiveWorkMode = workMode === 'hybrid' ? expectedWorkMode : workMode;
+
+    const check = effectiveWorkMode === 'onsite'
+      ? await this.verifySiteLocation(companyId, userId, location)
+      : await this.verifyRemoteLocation(companyId, userId, user, location, localDate);
+
+    const result: ClockInLocationCheck = {
+      ...check,
+      effectiveWorkMode,
+      expectedWorkMode,
+      workModeScheduleId: schedule?.id ?? null,
+      workModeMismatch: effectiveWorkMode !== expectedWorkMode
+    };
+
+    if (result.workModeMismatch && result.action === 'allow') {
+      result.action = 'flag';
+      result.reason = 'WORK_MODE_MISMATCH';
+      result.message = `Expected ${expectedWorkMode} work on ${localDate}`;
+    }
+
+    return result;
+  }
+
+  private async verifySiteLocation(
+    companyId: string,
+    userId: string,
+    location?: GeofenceLocation
+  ): Promise<Omit<ClockInLocationCheck, 'effectiveWorkMode' | 'expectedWorkMode' | 'workModeScheduleId' | 'workModeMismatch'>> {
+    const enforcement = await this.geofenceService.enforceClockIn(companyId, userId, location);
+    const { match } = enforcement;
+    const allowed = enforcement.action === 'allow';
+
+    return {
+      action: enforcement.action,
+      reason: allowed ? null : match ? 'OUTSIDE_GEOFENCE' : 'LOCATION_REQUIRED',
+      message: allowed
+        ? null
+        : match
+          ? `Clock-in location is ${match.distanceMeters}m from ${match.geofenceName}, outside the allowed area`
+          : 'Location is required for onsite clock-in',
+      locationType: enforcement.zone ? 'site' : null,
+      locationId: match?.geofenceId ?? null,
+      locationName: match?.geofenceName ?? null,
+      distanceMeters: match?.distanceMeters ?? null,
+      zone: enforcement.zone
+    };
+  }
+
+  private async verifyRemoteLocation(
+    companyId: string,
+    userId: string,
+    user: WorkModeUser | null,
+    location: GeofenceLocation | undefined,
+    localDate: string
+  ): Promise<Omit<ClockInLocationCheck, 'effectiveWorkMode' | 'expectedWorkMode' | 'workModeScheduleId' | 'workModeMismatch'>> {
+    const alternates = await db
+      .select()
+      .from(alternateWorkLocations)
+      .where(
+        and(
+          eq(alternateWorkLocations.userId, userId),
+          eq(alternateWorkLocations.companyId, companyId),
+          eq(alternateWorkLocations.status, 'approved'),
+          lte(alternateWorkLocations.startDate, localDate),
+          gte(alternateWorkLocations.endDate, localDate)
+        )
+      );
+
+    const candidates: Array<{ type: 'home' | 'alternate'; id: string | null; name: string; latitude: number; longitude: number; radiusMeters: number }> =
+      alternates.map(alternate => ({
+        type: 'alternate' as const,
+        id: alternate.id,
+        name: alternate.name,
+        latitude: parseFloat(alternate.latitude),
+        longitude: parseFloat(alternate.longitude),
+        radiusMeters: alternate.radiusMeters
+      }));
+
+    if (user?.homeLatitude && user.homeLongitude) {
+      candidates.push({
+        type: 'home',
+        id: null,
+        name: 'Home',
+        latitude: parseFloat(user.homeLatitude),
+        longitude: parseFloat(user.homeLongitude),
+        radiusMeters: user.homeGeofenceRadius ?? 100
+      });
+    }
+
+    const unverified = { locationId: null, locationName: null, distanceMeters: null };
+
+    // Nothing to verify against: accept for review rather than block the employee
+    if (candidates.length === 0) {
+      return {
+        action: 'flag',
+        reason: 'NO_HOME_LOCATION',
+        message: 'No home location is registered for remote work',
+        locationType: null,
+        zone: null,
+        ...unverified
+      };
+    }
+
+    const policy = await this.policyService.getPolicy(companyId);
+
+    if (!location) {
+      return {
+        action: policy.geofenceEnforcement,
+        reason: 'LOCATION_REQUIRED',
+        message: 'Location is required for remote clock-in',
+        locationType: null,
+        zone: 'outside',
+        ...unverified
+      };
+    }
+
+    const [best] = candidates
+      .map(candidate => {
+        const distance = calculateDistance(location.latitude, location.longitude, candidate.latitude, candidate.longitude);
+        return { candidate, distance, margin: distance - candidate.radiusMeters };
+      })
+      .sort((a, b) => a.margin - b.margin);
+
+    const inside = best!.margin <= 0;
+
+    return {
+      action: inside ? 'allow' : policy.geofenceEnforcement,
+      reason: inside ? null : 'OUTSIDE_REMOTE_LOCATION',
+      message: inside
+        ? null
+        : `Clock-in location is ${Math.round(best!.distance)}m from ${best!.candidate.type === 'home' ? 'your registered home' : best!.candidate.name}`,
+      locationType: best!.candidate.type,
+      locationId: best!.candidate.id,
+      locationName: best!.candidate.name,
+      distanceMeters: Math.round(best!.distance),
+      zone: inside ? 'inside' : 'outside'
+    };
+  }
+
+  private async getWorkModeUser(companyId: string, userId: string): Promise<WorkModeUser | null> {
+    const [user] = await db
+      .select({
+        workMode: users.workMode,
+        preferredRemoteDays: users.preferredRemoteDays,
+        homeAddress: users.homeAddress,
+        homeLatitude: users.homeLatitude,
+        homeLongitude: users.homeLongitude,
+        homeGeofenceRadius: users.homeGeofenceRadius
+      })
+      .from(users)
+      .where(
+        and(
+          eq(users.id, userId),
+          eq(users.companyId, companyId)
+        )
+      )
+      .limit(1);
+
+    return user ?? null;
+  }
+
+  /**
+   * Expected mode for a local date: an approved work mode schedule for the day, else the profile's mode,
+   * or for hybrid users remote on their preferred remote days
+   */
+  private getExpectedWorkMode(user: WorkModeUser | null, localDate: string, schedule: WorkModeSchedule | null): 'onsite' | 'remote' {
+    if (schedule?.workMode === 'onsite' || schedule?.workMode === 'remote') {
+      return schedule.workMode;
+    }
+
+    if (!user) {
+      return 'onsite';
+    }
+
+    const workMode = this.normalizeWorkMode(user.workMode);
+
+    if (workMode === 'hybrid') {
+      return this.getRemoteWeekdays(user.preferredRemoteDays).includes(getIsoWeekday(localDate)) ? 'remote' : 'onsite';
+    }
+
+    return workMode;
+  }
+
+  private normalizeWorkMode(workMode: string | null): 'onsite' | 'remote' | 'hybrid' {
+    return workMode === 'remote' || workMode === 'hybrid' ? workMode : 'onsite';
+  }
+
+  // preferredRemoteDays holds ISO weekday numbers (Monday=1); weekday names are accepted too
+  private getRemoteWeekdays(preferredRemoteDays: unknown): number[] {
+    if (!Array.isArray(preferredRemoteDays)) {
+      return [];
+    }
+
+    return preferredRemoteDays
+      .map(day => typeof day === 'number' ? day : WEEKDAY_NAMES.indexOf(String(day).toLowerCase()) + 1)
+      .filter(day => day >= 1 && day <= 7);
+  }
+}
@@ -0,0 +1,1092 @@
+import { db } from '../config/database';
+import { users } from '../db/schema/auth';
+import { workModeTemplates, workModeSchedules, workModeCapacityRules } from '../db/schema/workMode';
+import { logger } from '../utils/logger';
+import { ShiftService } from './shift.service';
+import { getLocalDateString, getIsoWeekday, addDaysToDateString, daysBetweenDateStrings } from '../utils/helpers';
+import { eq, and, asc, gte, lte, inArray, isNull, sql } from 'drizzle-orm';
+
+export type WorkModeTemplate = typeof workModeTemplates.$inferSelect;
+export type WorkModeSchedule = typeof workModeSchedules.$inferSelect;
+export type WorkModeCapacityRule = typeof workModeCapacityRules.$inferSelect;
+
+export type PlannedWorkMode = 'onsite' | 'remote';
+export type WorkModePattern = Partial<Record<typeof WEEKDAY_NAMES[number], PlannedWorkMode>>;
+
+export interface WorkModeTemplateData {
+  templateName: string;
+  schedulePattern: WorkModePattern;
+  startDate: string;
+  endDate?: string | null;
+}
+
+export interface PlannedDay {
+  date: string;
+  workMode: PlannedWorkMode;
+  locationType?: string;
+  notes?: string;
+}
+
+export interface WorkModeScheduleFilters {
+  userId?: string;
+  status?: WorkModeSchedule['status'];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CapacityRuleData {
+  department?: string | null;
+  maxRemotePercent: number;
+}
+
+export interface DailyCapacity {
+  date: string;
+  ruleId: string;
+  department: string | null;
+  headcount: number;
+  maxRemotePercent: number;
+  maxRemote: number;
+  remoteApproved: number;
+  remotePending: number;
+  available: number;
+}
+
+export interface WorkModeServiceResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  error?: string;
+}
+
+type CapacityUser = { id: string; department: string | null };
+
+const WEEKDAY_NAMES = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+const MAX_PLANNED_DAYS = 92;
+
+export class WorkModeService {
+  private readonly shiftService = new ShiftService();
+
+  /**
+   * Get active work mode templates
+   */
+  async getTemplates(companyId: string, userId?: string): Promise<WorkModeServiceResult<WorkModeTemplate[]>> {
+    try {
+      const whereConditions = [
+        eq(workModeTemplates.companyId, companyId),
+        eq(workModeTemplates.isActive, true)
+      ];
+
+      if (userId) {
+        whereConditions.push(eq(workModeTemplates.userId, userId));
+      }
+
+      const templates = await db
+        .select()
+        .from(workModeTemplates)
+        .where(and(...whereConditions))
+        .orderBy(asc(workModeTemplates.templateName));
+
+      return {
+        success: true,
+        data: templates
+      };
+
+    } catch (error) {
+      logger.error('Failed to get work mode templates:', error);
+      return {
+        success: false,
+        message: 'Failed to get work mode templates',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get a single active template owned by the user
+   */
+  async getTemplate(companyId: string, templateId: string, userId: string): Promise<WorkModeServiceResult<WorkModeTemplate>> {
+    try {
+      const [template] = await db
+        .select()
+        .from(workModeTemplates)
+        .where(
+          and(
+            eq(workModeTemplates.id, templateId),
+            eq(workModeTemplates.companyId, companyId),
+            eq(workModeTemplates.userId, userId),
+            eq(workModeTemplates.isActive, true)
+          )
+        )
+        .limit(1);
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Work mode template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      return {
+        success: true,
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to get work mode template:', error);
+      return {
+        success: false,
+        message: 'Failed to get work mode template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create a weekly work mode template
+   */
+  async createTemplate(
+    companyId: string,
+    userId: string,
+    data: WorkModeTemplateData
+  ): Promise<WorkModeServiceResult<WorkModeTemplate>> {
+    try {
+      const [template] = await db.insert(workModeTemplates).values({
+        companyId,
+        userId,
+        templateName: data.templateName,
+        schedulePattern: data.schedulePattern,
+        startDate: data.startDate,
+        endDate: data.endDate ?? null
+      }).returning();
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Failed to create work mode template',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Work mode template created', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        templateId: template.id
+      });
+
+      return {
+        success: true,
+        message: 'Work mode template created successfully',
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to create work mode template:', error);
+      return {
+        success: false,
+        message: 'Failed to create work mode template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a work mode template. Already planned days are not changed.
+   */
+  async updateTemplate(
+    companyId: string,
+    templateId: string,
+    userId: string,
+    data: Partial<WorkModeTemplateData>
+  ): Promise<WorkModeServiceResult<WorkModeTemplate>> {
+    try {
+      const existing = await this.getTemplate(companyId, templateId, userId);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const startDate = data.startDate ?? existing.data.startDate;
+      const endDate = data.endDate !== undefined ? data.endDate : existing.data.endDate;
+
+      if (endDate && endDate < startDate) {
+        return {
+          success: false,
+          message: 'startDate must be before endDate',
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const [template] = await db
+        .update(workModeTemplates)
+        .set({
+          ...(data.templateName !== undefined && { templateName: data.templateName }),
+          ...(data.schedulePattern !== undefined && { schedulePattern: data.schedulePattern }),
+          startDate,
+          endDate,
+          updatedAt: new Date()
+        })
+        .where(eq(workModeTemplates.id, templateId))
+        .returning();
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Work mode template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Work mode template updated', {
+        service: 'attendance-service',
+        companyId,
+        templateId
+      });
+
+      return {
+        success: true,
+        message: 'Work mode template updated successfully',
+        data: template
+      };
+
+    } catch (error) {
+      logger.error('Failed to update work mode template:', error);
+      return {
+        success: false,
+        message: 'Failed to update work mode template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a work mode template
+   */
+  async deleteTemplate(companyId: string, templateId: string, userId: string): Promise<WorkModeServiceResult<void>> {
+    try {
+      const [template] = await db
+        .update(workModeTemplates)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(workModeTemplates.id, templateId),
+            eq(workModeTemplates.companyId, companyId),
+            eq(workModeTemplates.userId, userId),
+            eq(workModeTemplates.isActive, true)
+          )
+        )
+        .returning({ id: workModeTemplates.id });
+
+      if (!template) {
+        return {
+          success: false,
+          message: 'Work mode template not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Work mode template deactivated', {
+        service: 'attendance-service',
+        companyId,
+        templateId
+      });
+
+      return {
+        success: true,
+        message: 'Work mode template deactivated successfully'
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete work mode template:', error);
+      return {
+        success: false,
+        message: 'Failed to delete work mode template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Plan days from a template's weekly pattern, limited to the template's own date range
+   */
+  async applyTemplate(
+    companyId: string,
+    templateId: string,
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<WorkModeServiceResult<WorkModeSchedule[]>> {
+    try {
+      const existing = await this.getTemplate(companyId, templateId, userId);
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          message: existing.message || 'Work mode template not found',
+          error: existing.error || 'NOT_FOUND'
+        };
+      }
+
+      const template = existing.data;
+      const pattern = template.schedulePattern as WorkModePattern;
+      const from = startDate > template.startDate ? startDate : template.startDate;
+      const to = template.endDate && template.endDate < endDate ? template.endDate : endDate;
+
+      const days: PlannedDay[] = [];
+      for (let date = from; date <= to; date = addDaysToDateString(date, 1)) {
+        const workMode = pattern[WEEKDAY_NAMES[getIsoWeekday(date) - 1]!];
+        if (workMode) {
+          days.push({ date, workMode });
+        }
+      }
+
+      if (days.length === 0) {
+        return {
+          success: false,
+          message: 'The template plans no days in this date range',
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      return await this.planSchedule(companyId, userId, days, templateId);
+
+    } catch (error) {
+      logger.error('Failed to apply work mode template:', error);
+      return {
+        success: false,
+        message: 'Failed to apply work mode template',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Plan work modes for individual days. Replanned days go back to pending approval.
+   */
+  async planSchedule(
+    companyId: string,
+    userId: string,
+    days: PlannedDay[],
+    templateId?: string
+  ): Promise<WorkModeServiceResult<WorkModeSchedule[]>> {
+    try {
+      const dates = days.map(day => day.date).sort();
+      const first = dates[0];
+      const last = dates[dates.length - 1];
+
+      if (!first || !last) {
+        return {
+          success: false,
+          message: 'At least one day is required',
+          error: 'VALIDATION_ERROR'
+        };
+      }
+
+      if (daysBetweenDateStrings(first, last) + 1 > MAX_PLANNED_DAYS) {
+        return {
+          success: false,
+          message: `A schedule can cover at most ${MAX_PLANNED_DAYS} days`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      if (first < getLocalDateString(new Date(), timezone)) {
+        return {
+          success: false,
+          message: 'Past days cannot be planned',
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      // Postgres rejects one statement updating the same row twice, so keep the last entry per date
+      const byDate = new Map<string, PlannedDay>();
+      for (const day of days) {
+        byDate.set(day.date, day);
+      }
+
+      const schedules = await db
+        .insert(workModeSchedules)
+        .values([...byDate.values()].map(day => ({
+          companyId,
+          userId,
+          scheduleDate: day.date,
+          workMode: day.workMode,
+          locationType: day.locationType ?? null,
+          notes: day.notes ?? null,
+          templateId: templateId ?? null
+        })))
+        .onConflictDoUpdate({
+          target: [workModeSchedules.userId, workModeSchedules.scheduleDate],
+          set: {
+            workMode: sql`excluded.work_mode`,
+            locationType: sql`excluded.location_type`,
+            notes: sql`excluded.notes`,
+            templateId: sql`excluded.template_id`,
+            status: 'pending',
+            isApproved: false,
+            approvedBy: null,
+            approvedAt: null,
+            reviewNotes: null,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      logger.info('Work mode schedule planned', {
+        service: 'attendance-service',
+        companyId,
+        userId,
+        templateId,
+        startDate: first,
+        endDate: last,
+        days: schedules.length
+      });
+
+      return {
+        success: true,
+        message: 'Work mode schedule submitted for approval',
+        data: schedules.sort((a, b) => a.scheduleDate.localeCompare(b.scheduleDate))
+      };
+
+    } catch (error) {
+      logger.error('Failed to plan work mode schedule:', error);
+      return {
+        success: false,
+        message: 'Failed to plan work mode schedule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get planned work mode days
+   */
+  async getSchedules(
+    companyId: string,
+    filters: WorkModeScheduleFilters = {}
+  ): Promise<WorkModeServiceResult<WorkModeSchedule[]>> {
+    try {
+      const whereConditions = [eq(workModeSchedules.companyId, companyId)];
+
+      if (filters.userId) {
+        whereConditions.push(eq(workModeSchedules.userId, filters.userId));
+      }
+
+      if (filters.status) {
+        whereConditions.push(eq(workModeSchedules.status, filters.status));
+      }
+
+      if (filters.startDate) {
+        whereConditions.push(gte(workModeSchedules.scheduleDate, filters.startDate));
+      }
+
+      if (filters.endDate) {
+        whereConditions.push(lte(workModeSchedules.scheduleDate, filters.endDate));
+      }
+
+      const schedules = await db
+        .select()
+        .from(workModeSchedules)
+        .where(and(...whereConditions))
+        .orderBy(asc(workModeSchedules.scheduleDate), asc(workModeSchedules.userId));
+
+      return {
+        success: true,
+        data: schedules
+      };
+
+    } catch (error) {
+      logger.error('Failed to get work mode schedules:', error);
+      return {
+        success: false,
+        message: 'Failed to get work mode schedules',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Approve or reject pending days. Either every day is reviewed or none is.
+   * Remote approvals must fit the company's capacity rules.
+   */
+  async reviewSchedules(
+    companyId: string,
+    scheduleIds: string[],
+    reviewerId: string,
+    decision: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<WorkModeServiceResult<WorkModeSchedule[]>> {
+    try {
+      const ids = [...new Set(scheduleIds)];
+      const schedules = await db
+        .select()
+        .from(workModeSchedules)
+        .where(
+          and(
+            eq(workModeSchedules.companyId, companyId),
+            inArray(workModeSchedules.id, ids)
+          )
+        );
+
+      if (schedules.length !== ids.length) {
+        return {
+          success: false,
+          message: 'Work mode schedule not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (schedules.some(schedule => schedule.status !== 'pending')) {
+        return {
+          success: false,
+          message: 'Only pending work mode schedules can be reviewed',
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      if (schedules.some(schedule => schedule.userId === reviewerId)) {
+        return {
+          success: false,
+          message: 'You cannot review your own work mode schedule',
+          error: 'ACCESS_DENIED'
+        };
+      }
+
+      if (decision === 'approved') {
+        const violation = await this.findCapacityViolation(companyId, schedules);
+        if (violation) {
+          return {
+            success: false,
+            message: `Approving would exceed the remote capacity of ${violation.maxRemotePercent}% ` +
+              `for ${violation.department ?? 'the company'} on ${violation.date} ` +
+              `(${violation.remoteApproved} of ${violation.maxRemote} remote slots used)`,
+            error: 'CAPACITY_EXCEEDED'
+          };
+        }
+      }
+
+      const reviewed = await db
+        .update(workModeSchedules)
+        .set({
+          status: decision,
+          isApproved: decision === 'approved',
+          approvedBy: reviewerId,
+          approvedAt: new Date(),
+          reviewNotes: notes ?? null,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            inArray(workModeSchedules.id, ids),
+            eq(workModeSchedules.status, 'pending')
+          )
+        )
+        .returning();
+
+      logger.info(`Work mode schedule ${decision}`, {
+        service: 'attendance-service',
+        companyId,
+        reviewerId,
+        scheduleIds: reviewed.map(schedule => schedule.id)
+      });
+
+      return {
+        success: true,
+        message: `Work mode schedule ${decision} successfully`,
+        data: reviewed
+      };
+
+    } catch (error) {
+      logger.error('Failed to review work mode schedule:', error);
+      return {
+        success: false,
+        message: 'Failed to review work mode schedule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending or approved day that hasn't passed yet
+   */
+  async cancelSchedule(
+    companyId: string,
+    scheduleId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<WorkModeServiceResult<WorkModeSchedule>> {
+    try {
+      const [schedule] = await db
+        .select()
+        .from(workModeSchedules)
+        .where(
+          and(
+            eq(workModeSchedules.id, scheduleId),
+            eq(workModeSchedules.companyId, companyId)
+          )
+        )
+        .limit(1);
+
+      if (!schedule || (!isAdmin && schedule.userId !== userId)) {
+        return {
+          success: false,
+          message: 'Work mode schedule not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      if (schedule.status !== 'pending' && schedule.status !== 'approved') {
+        return {
+          success: false,
+          message: `Work mode schedule is already ${schedule.status}`,
+          error: 'INVALID_STATUS'
+        };
+      }
+
+      const timezone = await this.shiftService.getCompanyTimezone(companyId);
+      if (schedule.scheduleDate < getLocalDateString(new Date(), timezone)) {
+        return {
+          success: false,
+          message: 'Past days cannot be cancelled',
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const [cancelled] = await db
+        .update(workModeSchedules)
+        .set({
+          status: 'cancelled',
+          isApproved: false,
+          updatedAt: new Date()
+        })
+        .where(eq(workModeSchedules.id, scheduleId))
+        .returning();
+
+      if (!cancelled) {
+        return {
+          success: false,
+          message: 'Work mode schedule not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Work mode schedule cancelled', {
+        service: 'attendance-service',
+        companyId,
+        scheduleId,
+        cancelledBy: userId
+      });
+
+      return {
+        success: true,
+        message: 'Work mode schedule cancelled successfully',
+        data: cancelled
+      };
+
+    } catch (error) {
+      logger.error('Failed to cancel work mode schedule:', error);
+      return {
+        success: false,
+        message: 'Failed to cancel work mode schedule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * The employee's approved work mode for a local date, if any
+   */
+  async getApprovedSchedule(companyId: string, userId: string, localDate: string): Promise<WorkModeSchedule | null> {
+    const [schedule] = await db
+      .select()
+      .from(workModeSchedules)
+      .where(
+        and(
+          eq(workModeSchedules.userId, userId),
+          eq(workModeSchedules.companyId, companyId),
+          eq(workModeSchedules.scheduleDate, localDate),
+          eq(workModeSchedules.status, 'approved')
+        )
+      )
+      .limit(1);
+
+    return schedule ?? null;
+  }
+
+  /**
+   * Get active capacity rules
+   */
+  async getCapacityRules(companyId: string): Promise<WorkModeServiceResult<WorkModeCapacityRule[]>> {
+    try {
+      const rules = await this.getActiveCapacityRules(companyId);
+
+      return {
+        success: true,
+        data: rules
+      };
+
+    } catch (error) {
+      logger.error('Failed to get capacity rules:', error);
+      return {
+        success: false,
+        message: 'Failed to get capacity rules',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create a capacity rule for a department, or for the whole company
+   */
+  async createCapacityRule(companyId: string, data: CapacityRuleData): Promise<WorkModeServiceResult<WorkModeCapacityRule>> {
+    try {
+      const department = data.department ?? null;
+
+      if (await this.hasActiveCapacityRule(companyId, department)) {
+        return {
+          success: false,
+          message: `A capacity rule already exists for ${department ?? 'the company'}`,
+          error: 'DUPLICATE_RULE'
+        };
+      }
+
+      const [rule] = await db.insert(workModeCapacityRules).values({
+        companyId,
+        department,
+        maxRemotePercent: data.maxRemotePercent
+      }).returning();
+
+      if (!rule) {
+        return {
+          success: false,
+          message: 'Failed to create capacity rule',
+          error: 'DATABASE_ERROR'
+        };
+      }
+
+      logger.info('Capacity rule created', {
+        service: 'attendance-service',
+        companyId,
+        ruleId: rule.id,
+        department,
+        maxRemotePercent: rule.maxRemotePercent
+      });
+
+      return {
+        success: true,
+        message: 'Capacity rule created successfully',
+        data: rule
+      };
+
+    } catch (error) {
+      logger.error('Failed to create capacity rule:', error);
+      return {
+        success: false,
+        message: 'Failed to create capacity rule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Update a capacity rule. Days that are already approved stay approved.
+   */
+  async updateCapacityRule(
+    companyId: string,
+    ruleId: string,
+    data: Partial<CapacityRuleData>
+  ): Promise<WorkModeServiceResult<WorkModeCapacityRule>> {
+    try {
+      if (data.department !== undefined && await this.hasActiveCapacityRule(companyId, data.department, ruleId)) {
+        return {
+          success: false,
+          message: `A capacity rule already exists for ${data.department ?? 'the company'}`,
+          error: 'DUPLICATE_RULE'
+        };
+      }
+
+      const [rule] = await db
+        .update(workModeCapacityRules)
+        .set({
+          ...(data.department !== undefined && { department: data.department }),
+          ...(data.maxRemotePercent !== undefined && { maxRemotePercent: data.maxRemotePercent }),
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(workModeCapacityRules.id, ruleId),
+            eq(workModeCapacityRules.companyId, companyId),
+            eq(workModeCapacityRules.isActive, true)
+          )
+        )
+        .returning();
+
+      if (!rule) {
+        return {
+          success: false,
+          message: 'Capacity rule not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Capacity rule updated', {
+        service: 'attendance-service',
+        companyId,
+        ruleId
+      });
+
+      return {
+        success: true,
+        message: 'Capacity rule updated successfully',
+        data: rule
+      };
+
+    } catch (error) {
+      logger.error('Failed to update capacity rule:', error);
+      return {
+        success: false,
+        message: 'Failed to update capacity rule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Deactivate a capacity rule
+   */
+  async deleteCapacityRule(companyId: string, ruleId: string): Promise<WorkModeServiceResult<void>> {
+    try {
+      const [rule] = await db
+        .update(workModeCapacityRules)
+        .set({
+          isActive: false,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(workModeCapacityRules.id, ruleId),
+            eq(workModeCapacityRules.companyId, companyId),
+            eq(workModeCapacityRules.isActive, true)
+          )
+        )
+        .returning({ id: workModeCapacityRules.id });
+
+      if (!rule) {
+        return {
+          success: false,
+          message: 'Capacity rule not found',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      logger.info('Capacity rule deactivated', {
+        service: 'attendance-service',
+        companyId,
+        ruleId
+      });
+
+      return {
+        success: true,
+        message: 'Capacity rule deactivated successfully'
+      };
+
+    } catch (error) {
+      logger.error('Failed to delete capacity rule:', error);
+      return {
+        success: false,
+        message: 'Failed to delete capacity rule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Remote usage per day against each capacity rule
+   */
+  async getCapacity(
+    companyId: string,
+    startDate: string,
+    endDate: string,
+    department?: string
+  ): Promise<WorkModeServiceResult<DailyCapacity[]>> {
+    try {
+      if (daysBetweenDateStrings(startDate, endDate) + 1 > MAX_PLANNED_DAYS) {
+        return {
+          success: false,
+          message: `Capacity can be shown for at most ${MAX_PLANNED_DAYS} days`,
+          error: 'INVALID_DATE_RANGE'
+        };
+      }
+
+      const rules = (await this.getActiveCapacityRules(companyId))
+        .filter(rule => department === undefined || rule.department === department);
+
+      if (rules.length === 0) {
+        return {
+          success: true,
+          data: []
+        };
+      }
+
+      const employees = await this.getCapacityUsers(companyId);
+      const remoteDays = await this.getRemoteSchedules(companyId, startDate, endDate);
+
+      const capacity: DailyCapacity[] = [];
+      for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+        for (const rule of rules) {
+          const members = new Set(employees.filter(user => this.ruleCovers(rule, user)).map(user => user.id));
+          const onDate = remoteDays.filter(schedule => schedule.scheduleDate === date && members.has(schedule.userId));
+          const maxRemote = this.getMaxRemote(rule, members.size);
+          const remoteApproved = onDate.filter(schedule => schedule.status === 'approved').length;
+
+          capacity.push({
+            date,
+            ruleId: rule.id,
+            department: rule.department,
+            headcount: members.size,
+            maxRemotePercent: rule.maxRemotePercent,
+            maxRemote,
+            remoteApproved,
+            remotePending: onDate.filter(schedule => schedule.status === 'pending').length,
+            available: Math.max(0, maxRemote - remoteApproved)
+          });
+        }
+      }
+
+      return {
+        success: true,
+        data: capacity
+      };
+
+    } catch (error) {
+      logger.error('Failed to get remote capacity:', error);
+      return {
+        success: false,
+        message: 'Failed to get remote capacity',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * The first rule and date that approving these days would push past its limit
+   */
+  private async findCapacityViolation(
+    companyId: string,
+    schedules: WorkModeSchedule[]
+  ): Promise<Omit<DailyCapacity, 'remotePending' | 'available'> | null> {
+    const remote = schedules.filter(schedule => schedule.workMode === 'remote');
+    if (remote.length === 0) {
+      return null;
+    }
+
+    const rules = await this.getActiveCapacityRules(companyId);
+    if (rules.length === 0) {
+      return null;
+    }
+
+    const dates = remote.map(schedule => schedule.scheduleDate).sort();
+    const employees = await this.getCapacityUsers(companyId);
+    const remoteDays = await this.getRemoteSchedules(companyId, dates[0]!, dates[dates.length - 1]!);
+
+    for (const date of new Set(dates)) {
+      for (const rule of rules) {
+        const members = new Set(employees.filter(user => this.ruleCovers(rule, user)).map(user => user.id));
+        const requested = remote.filter(schedule => schedule.scheduleDate === date && members.has(schedule.userId)).length;
+
+        if (requested === 0) {
+          continue;
+        }
+
+        const remoteApproved = remoteDays.filter(schedule =>
+          schedule.scheduleDate === date && schedule.status === 'approved' && members.has(schedule.userId)
+        ).length;
+        const maxRemote = this.getMaxRemote(rule, members.size);
+
+        if (remoteApproved + requested > maxRemote) {
+          return {
+            date,
+            ruleId: rule.id,
+            department: rule.department,
+            headcount: members.size,
+            maxRemotePercent: rule.maxRemotePercent,
+            maxRemote,
+            remoteApproved
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private async getActiveCapacityRules(companyId: string): Promise<WorkModeCapacityRule[]> {
+    return db
+      .select()
+      .from(workModeCapacityRules)
+      .where(
+        and(
+          eq(workModeCapacityRules.companyId, companyId),
+          eq(workModeCapacityRules.isActive, true)
+        )
+      )
+      .orderBy(asc(workModeCapacityRules.department));
+  }
+
+  private async hasActiveCapacityRule(companyId: string, department: string | null, excludeRuleId?: string): Promise<boolean> {
+    const rules = await db
+      .select({ id: workModeCapacityRules.id })
+      .from(workModeCapacityRules)
+      .where(
+        and(
+          eq(workModeCapacityRules.companyId, companyId),
+          eq(workModeCapacityRules.isActive, true),
+          department === null ? isNull(workModeCapacityRules.department) : eq(workModeCapacityRules.department, department)
+        )
+      );
+
+    return rules.some(rule => rule.id !== excludeRuleId);
+  }
+
+  private async getCapacityUsers(companyId: string): Promise<CapacityUser[]> {
+    return db
+      .select({ id: users.id, department: users.department })
+      .from(users)
+      .where(
+        and(
+          eq(users.companyId, companyId),
+          eq(users.isActive, true)
+        )
+      );
+  }
+
+  private async getRemoteSchedules(companyId: string, startDate: string, endDate: string) {
+    return db
+      .select({
+        userId: workModeSchedules.userId,
+        scheduleDate: workModeSchedules.scheduleDate,
+        status: workModeSchedules.status
+      })
+      .from(workModeSchedules)
+      .where(
+        and(
+          eq(workModeSchedules.companyId, companyId),
+          eq(workModeSchedules.workMode, 'remote'),
+          inArray(workModeSchedules.status, ['pending', 'approved']),
+          gte(workModeSchedules.scheduleDate, startDate),
+          lte(workModeSchedules.scheduleDate, endDate)
+        )
+      );
+  }
+
+  private ruleCovers(rule: WorkModeCapacityRule, user: CapacityUser): boolean {
+    return rule.department === null || rule.department === user.department;
+  }
+
+  private getMaxRemote(rule: WorkModeCapacityRule, headcount: number): number {
+    return Math.floor(headcount * rule.maxRemotePercent / 100);
+  }
+}
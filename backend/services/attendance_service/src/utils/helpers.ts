@@ -57,6 +57,107 @@ export const isWithinGeofence = (
   return distance <= radiusMeters;
 };
 
+// GeoJSON polygon geometries ([longitude, latitude] positions; first ring is the outline, the rest are holes)
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type GeoJsonBoundary = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+// Check a GeoJSON geometry is a usable polygon or multipolygon
+export const isGeoJsonBoundary = (geometry: any): geometry is GeoJsonBoundary => {
+  const isPosition = (position: any): boolean =>
+    Array.isArray(position) && position.length >= 2 &&
+    typeof position[0] === 'number' && position[0] >= -180 && position[0] <= 180 &&
+    typeof position[1] === 'number' && position[1] >= -90 && position[1] <= 90;
+
+  const isRing = (ring: any): boolean =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition) &&
+    ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+
+  const isPolygon = (rings: any): boolean => Array.isArray(rings) && rings.length > 0 && rings.every(isRing);
+
+  if (geometry?.type === 'Polygon') {
+    return isPolygon(geometry.coordinates);
+  }
+
+  if (geometry?.type === 'MultiPolygon') {
+    return Array.isArray(geometry.coordinates) && geometry.coordinates.length > 0 && geometry.coordinates.every(isPolygon);
+  }
+
+  return false;
+};
+
+const getBoundaryPolygons = (boundary: GeoJsonBoundary): number[][][][] =>
+  boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates;
+
+// Ray casting point-in-ring test
+const isPointInRing = (lat: number, lon: number, ring: number[][]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as [number, number];
+    const [xj, yj] = ring[j] as [number, number];
+
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+// Check if a location is inside a polygon or multipolygon (holes excluded)
+export const isPointInPolygon = (lat: number, lon: number, boundary: GeoJsonBoundary): boolean => {
+  return getBoundaryPolygons(boundary).some(([outline, ...holes]) =>
+    !!outline && isPointInRing(lat, lon, outline) && !holes.some(hole => isPointInRing(lat, lon, hole))
+  );
+};
+
+// Shortest distance in meters from a location to the edges of a polygon or multipolygon.
+// Uses a local flat projection, accurate for site-sized shapes.
+export const distanceToPolygonEdge = (lat: number, lon: number, boundary: GeoJsonBoundary): number => {
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLon = 111320 * Math.cos((lat * Math.PI) / 180);
+  let shortest = Infinity;
+
+  for (const ring of getBoundaryPolygons(boundary).flat()) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [x1, y1] = ring[i] as [number, number];
+      const [x2, y2] = ring[i + 1] as [number, number];
+
+      // Segment end points relative to the location, in meters
+      const ax = (x1 - lon) * metersPerDegreeLon;
+      const ay = (y1 - lat) * metersPerDegreeLat;
+      const bx = (x2 - lon) * metersPerDegreeLon;
+      const by = (y2 - lat) * metersPerDegreeLat;
+
+      const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSquared));
+      shortest = Math.min(shortest, Math.hypot(ax + t * (bx - ax), ay + t * (by - ay)));
+    }
+  }
+
+  return shortest;
+};
+
+// Average of a polygon's outline vertices, used as its reference point
+export const getPolygonCenter = (boundary: GeoJsonBoundary): { latitude: number; longitude: number } => {
+  const vertices = getBoundaryPolygons(boundary).flatMap(([outline]) => (outline || []).slice(0, -1));
+  const sum = vertices.reduce((total, [lon = 0, lat = 0]) => ({ lon: total.lon + lon, lat: total.lat + lat }), { lon: 0, lat: 0 });
+
+  return {
+    latitude: sum.lat / vertices.length,
+    longitude: sum.lon / vertices.length
+  };
+};
+
 // Calculate work hours
 export const calculateWorkHours = (
   clockIn: Date,
@@ -68,6 +169,74 @@ export const calculateWorkHours = (
   return Math.max(0, workMinutes / 60); // Return hours
 };
 
+// Get the UTC offset (in minutes) of a timezone at a given instant
+export const getTimezoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const getPart = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    getPart('year'),
+    getPart('month') - 1,
+    getPart('day'),
+    getPart('hour'),
+    getPart('minute'),
+    getPart('second')
+  );
+
+  return Math.round((asUtc - date.getTime()) / (1000 * 60));
+};
+
+// Format a date as YYYY-MM-DD in the given timezone
+export const getLocalDateString = (date: Date, timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+};
+
+// Get the ISO weekday (Monday=1, Sunday=7) of a YYYY-MM-DD date
+export const getIsoWeekday = (localDate: string): number => {
+  const day = new Date(`${localDate}T00:00:00Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+};
+
+// Add a number of days to a YYYY-MM-DD date
+export const addDaysToDateString = (localDate: string, days: number): string => {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Count the days between two YYYY-MM-DD dates
+export const daysBetweenDateStrings = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+};
+
+// Convert a wall-clock time (HH:MM) on a local date in a timezone to a UTC date
+export const zonedTimeToUtc = (localDate: string, time: string, timeZone: string): Date => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  const wallClock = Date.parse(`${localDate}T00:00:00Z`) + (hours * 60 + minutes) * 60 * 1000;
+
+  // Re-check the offset at the resulting instant to handle DST transitions
+  const firstOffset = getTimezoneOffsetMinutes(new Date(wallClock), timeZone);
+  const offset = getTimezoneOffsetMinutes(new Date(wallClock - firstOffset * 60 * 1000), timeZone);
+
+  return new Date(wallClock - offset * 60 * 1000);
+};
+
 // Calculate productivity score
 export const calculateProductivityScore = (
   productiveTime: number,
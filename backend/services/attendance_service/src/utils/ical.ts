@@ -0,0 +1,161 @@
+// Minimal iCalendar (RFC 5545) reader for all-day holiday feeds
+import { addDaysToDateString, daysBetweenDateStrings } from './helpers';
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  rrule: Record<string, string> | null;
+}
+
+export interface IcsOccurrence {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  warnings: string[];
+}
+
+// Convert an iCal DATE or DATE-TIME value (20250101 or 20250101T090000Z) to YYYY-MM-DD
+const toDateString = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeText = (value: string): string => {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+};
+
+// Join folded lines: a line starting with a space or tab continues the previous one
+const unfoldLines = (content: string): string[] => {
+  const lines: string[] = [];
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+};
+
+export const parseIcsEvents = (content: string): IcsParseResult => {
+  const events: IcsEvent[] = [];
+  const warnings: string[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  if (!/BEGIN:VCALENDAR/i.test(content)) {
+    warnings.push('Content is not an iCalendar file (missing BEGIN:VCALENDAR)');
+    return { events, warnings };
+  }
+
+  for (const line of unfoldLines(content)) {
+    const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const name = match[1]!.toUpperCase();
+    const params = (match[2] || '').toUpperCase();
+    const value = match[3] ?? '';
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      current = {};
+      continue;
+    }
+
+    if (name === 'END' && value.toUpperCase() === 'VEVENT') {
+      if (current) {
+        const event = current;
+        const summary = unescapeText(event['SUMMARY']?.value || '');
+        const startDate = event['DTSTART'] ? toDateString(event['DTSTART'].value) : null;
+
+        if (event['STATUS']?.value.toUpperCase() === 'CANCELLED') {
+          current = null;
+          continue;
+        }
+
+        if (!startDate) {
+          warnings.push(`Skipped event "${summary || 'untitled'}" without a valid DTSTART`);
+          current = null;
+          continue;
+        }
+
+        // All-day DTEND is exclusive; timed events end on the date they finish
+        let endDate = startDate;
+        const dtEnd = event['DTEND'];
+        const rawEnd = dtEnd ? toDateString(dtEnd.value) : null;
+        if (dtEnd && rawEnd) {
+          const isAllDay = /VALUE=DATE(?!-)/.test(dtEnd.params) || dtEnd.value.trim().length === 8;
+          endDate = isAllDay ? addDaysToDateString(rawEnd, -1) : rawEnd;
+        }
+
+        const rrule = event['RRULE']
+          ? Object.fromEntries(
+              event['RRULE'].value.split(';')
+                .map(part => part.split('='))
+                .filter((pair): pair is [string, string] => pair.length === 2)
+                .map(([key, ruleValue]) => [key.toUpperCase(), ruleValue.toUpperCase()])
+            )
+          : null;
+
+        events.push({
+          uid: event['UID']?.value.trim() || null,
+          summary: summary || 'Holiday',
+          startDate,
+          endDate: endDate < startDate ? startDate : endDate,
+          rrule
+        });
+      }
+
+      current = null;
+      continue;
+    }
+
+    if (current && !(name in current)) {
+      current[name] = { params, value };
+    }
+  }
+
+  return { events, warnings };
+};
+
+// Plain yearly rules (same date every N years) are the only recurrence expanded on import
+export const isYearlyRule = (rrule: Record<string, string>): boolean => {
+  return rrule['FREQ'] === 'YEARLY' && !rrule['BYDAY'] && !rrule['BYYEARDAY'] && !rrule['BYWEEKNO'];
+};
+
+// The event's occurrences up to untilYear: every year of a plain yearly rule, otherwise just the first
+export const expandOccurrences = (event: IcsEvent, untilYear: number): IcsOccurrence[] => {
+  const occurrences: IcsOccurrence[] = [{ startDate: event.startDate, endDate: event.endDate }];
+  const rrule = event.rrule;
+
+  if (!rrule || !isYearlyRule(rrule)) {
+    return occurrences;
+  }
+
+  const interval = Number(rrule['INTERVAL'] || 1);
+  const count = rrule['COUNT'] ? Number(rrule['COUNT']) : Infinity;
+  const lastYear = rrule['UNTIL'] ? Math.min(Number(rrule['UNTIL'].slice(0, 4)), untilYear) : untilYear;
+  const startYear = Number(event.startDate.slice(0, 4));
+  const length = daysBetweenDateStrings(event.startDate, event.endDate);
+
+  for (let year = startYear + interval; year <= lastYear && occurrences.length < count; year += interval) {
+    const startDate = `${year}${event.startDate.slice(4)}`;
+
+    // Skip February 29 in non-leap years
+    if (addDaysToDateString(startDate, 0) === startDate) {
+      occurrences.push({ startDate, endDate: addDaysToDateString(startDate, length) });
+    }
+  }
+
+  return occurrences;
+};
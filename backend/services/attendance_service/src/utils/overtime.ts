@@ -0,0 +1,123 @@
+// Overtime classification of a single attendance record against a rule set
+import { attendanceRecords } from '../db/schema/attendance';
+import { overtimeRuleSets } from '../db/schema/overtime';
+import {
+  calculateWorkHours,
+  getLocalDateString,
+  getIsoWeekday,
+  addDaysToDateString,
+  zonedTimeToUtc
+} from './helpers';
+
+export interface OvertimeMinutes {
+  workedMinutes: number;
+  regularMinutes: number;
+  dailyOvertimeMinutes: number;
+  dailyDoubleTimeMinutes: number;
+  weeklyOvertimeMinutes: number;
+  nightMinutes: number;
+  weekendMinutes: number;
+  holidayMinutes: number;
+}
+
+export type RecordForOvertime = Pick<
+  typeof attendanceRecords.$inferSelect,
+  'id' | 'userId' | 'companyId' | 'clockInTime' | 'clockOutTime' | 'breakTime' | 'workedMinutes'
+>;
+
+type OvertimeRuleSet = typeof overtimeRuleSets.$inferSelect;
+
+const overlapMinutes = (start: number, end: number, rangeStart: number, rangeEnd: number): number => {
+  return Math.max(0, Math.min(end, rangeEnd) - Math.max(start, rangeStart));
+};
+
+// Minutes between clock-in and clock-out that fall inside the night window
+export const calculateNightMinutes = (
+  clockIn: Date,
+  clockOut: Date,
+  ruleSet: Pick<OvertimeRuleSet, 'nightStart' | 'nightEnd'>,
+  timeZone: string
+): number => {
+  if (!ruleSet.nightStart || !ruleSet.nightEnd) {
+    return 0;
+  }
+
+  const crossesMidnight = ruleSet.nightEnd <= ruleSet.nightStart;
+  const lastDate = getLocalDateString(clockOut, timeZone);
+  let totalMs = 0;
+
+  // Start a day early so a window that began the previous evening is included
+  for (
+    let localDate = addDaysToDateString(getLocalDateString(clockIn, timeZone), -1);
+    localDate <= lastDate;
+    localDate = addDaysToDateString(localDate, 1)
+  ) {
+    const windowStart = zonedTimeToUtc(localDate, ruleSet.nightStart, timeZone);
+    const windowEnd = zonedTimeToUtc(
+      crossesMidnight ? addDaysToDateString(localDate, 1) : localDate,
+      ruleSet.nightEnd,
+      timeZone
+    );
+
+    totalMs += Math.max(
+      0,
+      Math.min(clockOut.getTime(), windowEnd.getTime()) - Math.max(clockIn.getTime(), windowStart.getTime())
+    );
+  }
+
+  return totalMs / (1000 * 60);
+};
+
+// Split a record's worked minutes into regular and overtime buckets.
+// Daily thresholds apply first; minutes that are not daily overtime count toward the weekly threshold.
+// Night, weekend and holiday minutes are premiums that overlap the buckets.
+export const classifyRecord = (
+  record: RecordForOvertime,
+  ruleSet: OvertimeRuleSet,
+  timeZone: string,
+  workDate: string,
+  holidayDates: Set<string>,
+  priorDailyMinutes: number,
+  priorWeeklyMinutes: number
+): OvertimeMinutes => {
+  const clockOutTime = record.clockOutTime!;
+  const workedMinutes = record.workedMinutes ??
+    Math.round(calculateWorkHours(record.clockInTime, clockOutTime, record.breakTime || 0) * 60);
+
+  const dailyOvertimeAfter = ruleSet.dailyOvertimeAfterMinutes ?? Infinity;
+  const dailyDoubleTimeAfter = ruleSet.dailyDoubleTimeAfterMinutes ?? Infinity;
+  const weeklyOvertimeAfter = ruleSet.weeklyOvertimeAfterMinutes ?? Infinity;
+
+  const dayStart = priorDailyMinutes;
+  const dayEnd = priorDailyMinutes + workedMinutes;
+
+  const dailyDoubleTimeMinutes = overlapMinutes(dayStart, dayEnd, dailyDoubleTimeAfter, Infinity);
+  const dailyOvertimeMinutes = overlapMinutes(dayStart, dayEnd, dailyOvertimeAfter, dailyDoubleTimeAfter);
+  const remainingMinutes = workedMinutes - dailyDoubleTimeMinutes - dailyOvertimeMinutes;
+
+  const weeklyOvertimeMinutes = overlapMinutes(
+    priorWeeklyMinutes,
+    priorWeeklyMinutes + remainingMinutes,
+    weeklyOvertimeAfter,
+    Infinity
+  );
+
+  // Scale night time on the clock to worked time, since breaks are not tied to a time of day here
+  const elapsedMinutes = (clockOutTime.getTime() - record.clockInTime.getTime()) / (1000 * 60);
+  const nightMinutes = elapsedMinutes > 0
+    ? Math.round(calculateNightMinutes(record.clockInTime, clockOutTime, ruleSet, timeZone) * (workedMinutes / elapsedMinutes))
+    : 0;
+
+  const weekendDays = (ruleSet.weekendDays as number[]) || [];
+
+  return {
+    workedMinutes,
+    regularMinutes: remainingMinutes - weeklyOvertimeMinutes,
+    dailyOvertimeMinutes,
+    dailyDoubleTimeMinutes,
+    weeklyOvertimeMinutes,
+    nightMinutes: Math.min(nightMinutes, workedMinutes),
+    weekendMinutes: weekendDays.includes(getIsoWeekday(workDate)) ? workedMinutes : 0,
+    holidayMinutes: holidayDates.has(workDate) ? workedMinutes : 0
+  };
+};
@@ -0,0 +1,73 @@
+// Stand-in for src/config/database: every query builder chain resolves to the next queued result.
+// Use with jest.mock('../../src/config/database', () => require('../helpers/mockDb')).
+
+export interface RecordedQuery {
+  operation: string; // select, insert, update, delete or execute
+  calls: { method: string; args: unknown[] }[];
+}
+
+const pendingResults: unknown[] = [];
+export const executedQueries: RecordedQuery[] = [];
+
+// Results for the next queries, in the order the code under test runs them; an empty queue resolves to []
+export const queueResults = (...results: unknown[]): void => {
+  pendingResults.push(...results);
+};
+
+export const resetMockDb = (): void => {
+  pendingResults.length = 0;
+  executedQueries.length = 0;
+};
+
+const query = (operation: string, args: unknown[]): unknown => {
+  const recorded: RecordedQuery = { operation, calls: [{ method: operation, args }] };
+  let settled: Promise<unknown> | null = null;
+
+  const builder: unknown = new Proxy({}, {
+    get(_target, property) {
+      if (property === 'then' || property === 'catch' || property === 'finally') {
+        if (!settled) {
+          executedQueries.push(recorded);
+          const result = pendingResults.length > 0 ? pendingResults.shift() : [];
+          settled = result instanceof Error ? Promise.reject(result) : Promise.resolve(result);
+        }
+        const method = (settled as unknown as Record<string | symbol, (...callbacks: unknown[]) => unknown>)[property];
+        return method!.bind(settled);
+      }
+
+      return (...callArgs: unknown[]) => {
+        recorded.calls.push({ method: String(property), args: callArgs });
+        return builder;
+      };
+    }
+  });
+
+  return builder;
+};
+
+type QueryRunner = (...args: unknown[]) => unknown;
+
+export const db: {
+  select: QueryRunner;
+  selectDistinct: QueryRunner;
+  insert: QueryRunner;
+  update: QueryRunner;
+  delete: QueryRunner;
+  execute: QueryRunner;
+  transaction: <T>(callback: (tx: any) => Promise<T>) => Promise<T>;
+} = {
+  select: (...args: unknown[]) => query('select', args),
+  selectDistinct: (...args: unknown[]) => query('select', args),
+  insert: (...args: unknown[]) => query('insert', args),
+  update: (...args: unknown[]) => query('update', args),
+  delete: (...args: unknown[]) => query('delete', args),
+  execute: (...args: unknown[]) => query('execute', args),
+  transaction: async <T>(callback: (tx: any) => Promise<T>): Promise<T> => callback(db)
+};
+
+export const testConnection = async (): Promise<boolean> => true;
+export const closeConnection = async (): Promise<void> => undefined;
+export const listen = async (): Promise<{ unlisten: () => Promise<void> }> => ({ unlisten: async () => undefined });
+export const healthCheck = async (): Promise<{ status: string }> => ({ status: 'healthy' });
+
+export default db;
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { queueResults, resetMockDb, executedQueries } from '../helpers/mockDb';
+import { ClockInMethodService } from '../../src/services/clockInMethod.service';
+import { PolicyService } from '../../src/services/policy.service';
+import { env } from '../../src/config/env';
+
+jest.mock('../../src/config/database', () => require('../helpers/mockDb'));
+
+const COMPANY_ID = 'company';
+const SITE_ID = '44444444-4444-4444-8444-444444444444';
+const OTHER_SITE_ID = '55555555-5555-4555-8555-555555555555';
+const SECRET = crypto.randomBytes(32).toString('hex');
+const OTHER_SECRET = crypto.randomBytes(32).toString('hex');
+
+const NOW = new Date('2025-03-05T08:00:10Z');
+const STEP = Math.floor(NOW.getTime() / (env.QR_CODE_STEP_SECONDS * 1000));
+
+// The code a site's screen shows: "<geofenceId>.<step>.<HMAC of geofenceId.step>"
+const codeFor = (geofenceId: string, step: number, secret = SECRET) => {
+  const signature = crypto.createHmac('sha256', Buffer.from(secret, 'hex')).update(`${geofenceId}.${step}`).digest('base64url');
+  return `${geofenceId}.${step}.${signature}`;
+};
+
+let service: ClockInMethodService;
+
+beforeEach(() => {
+  resetMockDb();
+  jest.restoreAllMocks();
+  service = new ClockInMethodService();
+});
+
+describe('ClockInMethodService.verifyQrCode', () => {
+  it('accepts the code on display', async () => {
+    queueResults([{ qrSecret: SECRET }]);
+
+    await expect(service.verifyQrCode(COMPANY_ID, codeFor(SITE_ID, STEP), NOW))
+      .resolves.toEqual({ valid: true, geofenceId: SITE_ID, step: STEP });
+  });
+
+  it('accepts the code the site displayed a step earlier', async () => {
+    queueResults([{ qrSecret: SECRET }]);
+
+    await expect(service.verifyQrCode(COMPANY_ID, codeFor(SITE_ID, STEP - 1), NOW))
+      .resolves.toEqual({ valid: true, geofenceId: SITE_ID, step: STEP - 1 });
+  });
+
+  it('reports a genuine code older than that as expired', async () => {
+    queueResults([{ qrSecret: SECRET }]);
+
+    await expect(service.verifyQrCode(COMPANY_ID, codeFor(SITE_ID, STEP - 2), NOW))
+      .resolves.toMatchObject({ valid: false, reason: 'EXPIRED_QR_CODE' });
+  });
+
+  it('refuses a code from a future step without looking up the site', async () => {
+    await expect(service.verifyQrCode(COMPANY_ID, codeFor(SITE_ID, STEP + 1), NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+    expect(executedQueries).toHaveLength(0);
+  });
+
+  it('refuses a tampered signature', async () => {
+    queueResults([{ qrSecret: SECRET }]);
+    const code = codeFor(SITE_ID, STEP);
+    const tampered = code.slice(0, -1) + (code.endsWith('A') ? 'B' : 'A');
+
+    await expect(service.verifyQrCode(COMPANY_ID, tampered, NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+  });
+
+  it('refuses a code whose site was swapped for another site', async () => {
+    queueResults([{ qrSecret: OTHER_SECRET }]);
+    const [, step, signature] = codeFor(SITE_ID, STEP).split('.');
+
+    await expect(service.verifyQrCode(COMPANY_ID, `${OTHER_SITE_ID}.${step}.${signature}`, NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+  });
+
+  it('refuses a code from a site that is not one of the company\'s active sites', async () => {
+    queueResults([]);
+
+    await expect(service.verifyQrCode(COMPANY_ID, codeFor(OTHER_SITE_ID, STEP, OTHER_SECRET), NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+  });
+
+  it('refuses a code that is not in the QR format', async () => {
+    await expect(service.verifyQrCode(COMPANY_ID, 'https://example.com/clock-in', NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+    await expect(service.verifyQrCode(COMPANY_ID, `${SITE_ID}.latest.signature`, NOW))
+      .resolves.toEqual({ valid: false, reason: 'INVALID_QR_CODE' });
+    expect(executedQueries).toHaveLength(0);
+  });
+
+  it('verifies the code it displays', async () => {
+    queueResults([{ id: SITE_ID }], [], [{ qrSecret: SECRET }]); // Site, secret already set, secret
+    const displayed = await service.getQrCode(COMPANY_ID, SITE_ID);
+
+    queueResults([{ qrSecret: SECRET }]);
+
+    await expect(service.verifyQrCode(COMPANY_ID, displayed.data!.code, new Date()))
+      .resolves.toMatchObject({ valid: true, geofenceId: SITE_ID });
+  });
+});
+
+describe('ClockInMethodService.getAllowedMethods', () => {
+  let getPolicy: jest.SpyInstance;
+
+  beforeEach(() => {
+    getPolicy = jest.spyOn(PolicyService.prototype, 'getPolicy').mockResolvedValue({ clockInMethods: ['face', 'nfc'] } as any);
+  });
+
+  it('uses the site\'s own methods when it has them', async () => {
+    queueResults([{ clockInMethods: ['qr'] }]);
+
+    await expect(service.getAllowedMethods(COMPANY_ID, SITE_ID)).resolves.toEqual(['qr']);
+    expect(getPolicy).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the company policy for a site without an override', async () => {
+    queueResults([{ clockInMethods: null }]);
+
+    await expect(service.getAllowedMethods(COMPANY_ID, SITE_ID)).resolves.toEqual(['face', 'nfc']);
+  });
+
+  it('falls back to the company policy for a site without settings', async () => {
+    queueResults([]);
+
+    await expect(service.getAllowedMethods(COMPANY_ID, SITE_ID)).resolves.toEqual(['face', 'nfc']);
+  });
+
+  it('uses the company policy away from any site', async () => {
+    await expect(service.getAllowedMethods(COMPANY_ID, null)).resolves.toEqual(['face', 'nfc']);
+    expect(executedQueries).toHaveLength(0);
+  });
+});
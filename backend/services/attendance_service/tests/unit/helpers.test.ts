@@ -0,0 +1,78 @@
+import {
+  getTimezoneOffsetMinutes,
+  getLocalDateString,
+  getIsoWeekday,
+  addDaysToDateString,
+  daysBetweenDateStrings,
+  zonedTimeToUtc
+} from '../../src/utils/helpers';
+
+const TIME_ZONE = 'America/New_York';
+
+describe('getTimezoneOffsetMinutes', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimezoneOffsetMinutes(new Date('2025-01-15T12:00:00Z'), TIME_ZONE)).toBe(-300);
+    expect(getTimezoneOffsetMinutes(new Date('2025-07-15T12:00:00Z'), TIME_ZONE)).toBe(-240);
+  });
+
+  it('handles offsets that are not whole hours', () => {
+    expect(getTimezoneOffsetMinutes(new Date('2025-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('changes at the instant of the transition', () => {
+    expect(getTimezoneOffsetMinutes(new Date('2025-03-09T06:59:00Z'), TIME_ZONE)).toBe(-300);
+    expect(getTimezoneOffsetMinutes(new Date('2025-03-09T07:00:00Z'), TIME_ZONE)).toBe(-240);
+  });
+});
+
+describe('getLocalDateString', () => {
+  it('uses the date in the given timezone', () => {
+    const instant = new Date('2025-01-01T03:00:00Z');
+
+    expect(getLocalDateString(instant, TIME_ZONE)).toBe('2024-12-31');
+    expect(getLocalDateString(instant, 'UTC')).toBe('2025-01-01');
+  });
+});
+
+describe('getIsoWeekday', () => {
+  it('numbers Monday as 1 and Sunday as 7', () => {
+    expect(getIsoWeekday('2025-01-06')).toBe(1);
+    expect(getIsoWeekday('2025-01-05')).toBe(7);
+  });
+});
+
+describe('addDaysToDateString', () => {
+  it('crosses month, leap day and year boundaries', () => {
+    expect(addDaysToDateString('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDaysToDateString('2025-03-01', -1)).toBe('2025-02-28');
+    expect(addDaysToDateString('2025-12-31', 1)).toBe('2026-01-01');
+  });
+
+  it('normalizes an invalid date to the real one', () => {
+    expect(addDaysToDateString('2025-02-29', 0)).toBe('2025-03-01');
+  });
+});
+
+describe('daysBetweenDateStrings', () => {
+  it('counts calendar days across a DST change', () => {
+    expect(daysBetweenDateStrings('2025-03-08', '2025-03-10')).toBe(2);
+    expect(daysBetweenDateStrings('2025-03-10', '2025-03-08')).toBe(-2);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('uses the offset in effect on the local date', () => {
+    expect(zonedTimeToUtc('2025-03-08', '09:00', TIME_ZONE).toISOString()).toBe('2025-03-08T14:00:00.000Z');
+    expect(zonedTimeToUtc('2025-03-09', '09:00', TIME_ZONE).toISOString()).toBe('2025-03-09T13:00:00.000Z');
+    expect(zonedTimeToUtc('2025-11-02', '09:00', TIME_ZONE).toISOString()).toBe('2025-11-02T14:00:00.000Z');
+  });
+
+  it('resolves midnight on the day of a transition', () => {
+    expect(zonedTimeToUtc('2025-03-09', '00:00', TIME_ZONE).toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(zonedTimeToUtc('2025-11-02', '00:00', TIME_ZONE).toISOString()).toBe('2025-11-02T04:00:00.000Z');
+  });
+
+  it('picks the first instance of a repeated wall-clock time', () => {
+    expect(zonedTimeToUtc('2025-11-02', '01:30', TIME_ZONE).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+});
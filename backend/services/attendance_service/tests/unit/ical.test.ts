@@ -0,0 +1,140 @@
+import { parseIcsEvents, expandOccurrences, IcsEvent } from '../../src/utils/ical';
+
+const calendar = (...lines: string[]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (startDate: string, endDate: string, rrule: Record<string, string> | null): IcsEvent => ({
+  uid: null,
+  summary: 'Holiday',
+  startDate,
+  endDate,
+  rrule
+});
+
+describe('parseIcsEvents', () => {
+  it('rejects content that is not an iCalendar file', () => {
+    const result = parseIcsEvents('BEGIN:VEVENT\nEND:VEVENT');
+
+    expect(result.events).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('treats an all-day DTEND as exclusive', () => {
+    const { events } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:christmas@example.com',
+      'SUMMARY:Christmas',
+      'DTSTART;VALUE=DATE:20251225',
+      'DTEND;VALUE=DATE:20251227',
+      'END:VEVENT'
+    ));
+
+    expect(events).toEqual([{
+      uid: 'christmas@example.com',
+      summary: 'Christmas',
+      startDate: '2025-12-25',
+      endDate: '2025-12-26',
+      rrule: null
+    }]);
+  });
+
+  it('ends timed events on the date they finish', () => {
+    const { events } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Offsite',
+      'DTSTART:20250301T090000Z',
+      'DTEND:20250302T170000Z',
+      'END:VEVENT'
+    ));
+
+    expect(events[0]).toMatchObject({ startDate: '2025-03-01', endDate: '2025-03-02' });
+  });
+
+  it('unfolds continuation lines and unescapes text', () => {
+    const { events } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Day of Labour\\, Work',
+      '  and Rest',
+      'DTSTART;VALUE=DATE:20250501',
+      'END:VEVENT'
+    ));
+
+    expect(events[0]).toMatchObject({ summary: 'Day of Labour, Work and Rest', endDate: '2025-05-01' });
+  });
+
+  it('skips cancelled events and warns about events without a start date', () => {
+    const { events, warnings } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:Cancelled',
+      'STATUS:CANCELLED',
+      'DTSTART;VALUE=DATE:20250101',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Undated',
+      'END:VEVENT'
+    ));
+
+    expect(events).toEqual([]);
+    expect(warnings).toEqual(['Skipped event "Undated" without a valid DTSTART']);
+  });
+
+  it('parses the recurrence rule into upper-case parts', () => {
+    const { events } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'SUMMARY:New Year',
+      'DTSTART;VALUE=DATE:20250101',
+      'RRULE:freq=yearly;count=3',
+      'END:VEVENT'
+    ));
+
+    expect(events[0]!.rrule).toEqual({ FREQ: 'YEARLY', COUNT: '3' });
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('returns only the first occurrence without a recurrence rule', () => {
+    expect(expandOccurrences(event('2025-01-01', '2025-01-01', null), 2030)).toEqual([
+      { startDate: '2025-01-01', endDate: '2025-01-01' }
+    ]);
+  });
+
+  it('repeats a yearly event up to the given year', () => {
+    const occurrences = expandOccurrences(event('2025-12-25', '2025-12-26', { FREQ: 'YEARLY' }), 2027);
+
+    expect(occurrences).toEqual([
+      { startDate: '2025-12-25', endDate: '2025-12-26' },
+      { startDate: '2026-12-25', endDate: '2026-12-26' },
+      { startDate: '2027-12-25', endDate: '2027-12-26' }
+    ]);
+  });
+
+  it('stops after COUNT occurrences, counting the first', () => {
+    const occurrences = expandOccurrences(event('2025-01-01', '2025-01-01', { FREQ: 'YEARLY', COUNT: '2' }), 2030);
+
+    expect(occurrences.map(occurrence => occurrence.startDate)).toEqual(['2025-01-01', '2026-01-01']);
+  });
+
+  it('stops at the UNTIL year when it comes before the given year', () => {
+    const occurrences = expandOccurrences(event('2025-01-01', '2025-01-01', { FREQ: 'YEARLY', UNTIL: '20260101' }), 2030);
+
+    expect(occurrences.map(occurrence => occurrence.startDate)).toEqual(['2025-01-01', '2026-01-01']);
+  });
+
+  it('steps by INTERVAL years', () => {
+    const occurrences = expandOccurrences(event('2025-06-01', '2025-06-01', { FREQ: 'YEARLY', INTERVAL: '2' }), 2030);
+
+    expect(occurrences.map(occurrence => occurrence.startDate)).toEqual(['2025-06-01', '2027-06-01', '2029-06-01']);
+  });
+
+  it('skips February 29 in non-leap years', () => {
+    const occurrences = expandOccurrences(event('2024-02-29', '2024-02-29', { FREQ: 'YEARLY' }), 2028);
+
+    expect(occurrences.map(occurrence => occurrence.startDate)).toEqual(['2024-02-29', '2028-02-29']);
+  });
+
+  it('does not expand rules with a weekday', () => {
+    const occurrences = expandOccurrences(event('2025-11-27', '2025-11-27', { FREQ: 'YEARLY', BYDAY: '4TH' }), 2030);
+
+    expect(occurrences).toHaveLength(1);
+  });
+});
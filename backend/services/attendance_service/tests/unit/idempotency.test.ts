@@ -0,0 +1,222 @@
+import { Response } from 'express';
+import { queueResults, resetMockDb, executedQueries } from '../helpers/mockDb';
+import { IdempotencyService, IdempotentRequest } from '../../src/services/idempotency.service';
+import { idempotent } from '../../src/middleware/idempotency.middleware';
+import { AuthenticatedRequest } from '../../src/middleware/auth.middleware';
+
+jest.mock('../../src/config/database', () => require('../helpers/mockDb'));
+
+const request: IdempotentRequest = {
+  companyId: 'company',
+  userId: 'employee',
+  endpoint: 'clock-in',
+  key: 'key-1',
+  requestHash: 'hash-1'
+};
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-row',
+  ...request,
+  status: 'processing',
+  responseStatus: null,
+  responseBody: null,
+  ...overrides
+});
+
+describe('IdempotencyService.claim', () => {
+  const service = new IdempotencyService();
+
+  beforeEach(() => {
+    resetMockDb();
+  });
+
+  it('starts a request whose key is new', async () => {
+    queueResults([{ id: 'key-row' }]);
+
+    await expect(service.claim(request)).resolves.toEqual({ state: 'started', id: 'key-row' });
+    expect(executedQueries).toHaveLength(1);
+  });
+
+  it('takes over an expired key or one whose request never finished', async () => {
+    queueResults([], [{ id: 'key-row' }]);
+
+    await expect(service.claim(request)).resolves.toEqual({ state: 'started', id: 'key-row' });
+  });
+
+  it('replays the stored response of a completed request', async () => {
+    queueResults([], [], [storedKey({ status: 'completed', responseStatus: 201, responseBody: { success: true } })]);
+
+    await expect(service.claim(request)).resolves.toEqual({
+      state: 'replay',
+      responseStatus: 201,
+      responseBody: { success: true }
+    });
+  });
+
+  it('reports a request that is still being processed', async () => {
+    queueResults([], [], [storedKey()]);
+
+    await expect(service.claim(request)).resolves.toEqual({ state: 'in_progress' });
+  });
+
+  it('reports a key that was released between the insert and the lookup as in progress', async () => {
+    queueResults([], [], []);
+
+    await expect(service.claim(request)).resolves.toEqual({ state: 'in_progress' });
+  });
+
+  it('refuses a key that was used for a different request', async () => {
+    queueResults([], [], [storedKey({ status: 'completed', responseStatus: 201, requestHash: 'hash-2' })]);
+
+    await expect(service.claim(request)).resolves.toEqual({ state: 'mismatch' });
+  });
+});
+
+describe('idempotent middleware', () => {
+  const middleware = idempotent('clock-in');
+
+  const makeRequest = (key: string | undefined, body: Record<string, unknown> = { workMode: 'onsite', userId: 'employee' }) => ({
+    get: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    user: { userId: 'employee', role: 'employee', companyId: 'company' },
+    body
+  }) as unknown as AuthenticatedRequest;
+
+  const makeResponse = () => {
+    const res = {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      sent: [] as unknown[],
+      status(code: number) {
+        res.statusCode = code;
+        return res;
+      },
+      set(name: string, value: string) {
+        res.headers[name] = value;
+        return res;
+      },
+      json(body: unknown) {
+        res.sent.push(body);
+        return res;
+      }
+    };
+    return res;
+  };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  let claim: jest.SpyInstance;
+  let complete: jest.SpyInstance;
+  let release: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    claim = jest.spyOn(IdempotencyService.prototype, 'claim');
+    complete = jest.spyOn(IdempotencyService.prototype, 'complete').mockResolvedValue();
+    release = jest.spyOn(IdempotencyService.prototype, 'release').mockResolvedValue();
+  });
+
+  it('passes requests without a key straight through', async () => {
+    const next = jest.fn();
+
+    await middleware(makeRequest(undefined), makeResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key that is not printable ASCII', async () => {
+    const res = makeResponse();
+    const next = jest.fn();
+
+    await middleware(makeRequest('key with spaces'), res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(400);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('hashes the body independently of field order', async () => {
+    claim.mockResolvedValue({ state: 'in_progress' });
+
+    await middleware(makeRequest('key-1', { a: 1, b: 2 }), makeResponse() as unknown as Response, jest.fn());
+    await middleware(makeRequest('key-1', { b: 2, a: 1 }), makeResponse() as unknown as Response, jest.fn());
+    await middleware(makeRequest('key-1', { a: 1, b: 3 }), makeResponse() as unknown as Response, jest.fn());
+
+    const hashes = claim.mock.calls.map(call => call[0].requestHash);
+    expect(hashes[0]).toBe(hashes[1]);
+    expect(hashes[2]).not.toBe(hashes[0]);
+  });
+
+  it('replays a stored response without running the handler', async () => {
+    claim.mockResolvedValue({ state: 'replay', responseStatus: 201, responseBody: { success: true } });
+    const res = makeResponse();
+    const next = jest.fn();
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(201);
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+    expect(res.sent).toEqual([{ success: true }]);
+  });
+
+  it('asks the client to retry while the first request is in progress', async () => {
+    claim.mockResolvedValue({ state: 'in_progress' });
+    const res = makeResponse();
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, jest.fn());
+
+    expect(res.statusCode).toBe(409);
+    expect(res.headers['Retry-After']).toBe('2');
+    expect(res.sent[0]).toMatchObject({ error: 'IDEMPOTENCY_KEY_IN_PROGRESS' });
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    claim.mockResolvedValue({ state: 'mismatch' });
+    const res = makeResponse();
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, jest.fn());
+
+    expect(res.statusCode).toBe(422);
+    expect(res.sent[0]).toMatchObject({ error: 'IDEMPOTENCY_KEY_MISMATCH' });
+  });
+
+  it('answers 500 when the key cannot be claimed', async () => {
+    claim.mockRejectedValue(new Error('connection lost'));
+    const res = makeResponse();
+    const next = jest.fn();
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(500);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('stores the handler response before sending it', async () => {
+    claim.mockResolvedValue({ state: 'started', id: 'key-row' });
+    const res = makeResponse();
+    const sent = res.sent;
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, () => {
+      res.status(201).json({ success: true });
+    });
+    await flush();
+
+    expect(complete).toHaveBeenCalledWith('key-row', 201, { success: true });
+    expect(release).not.toHaveBeenCalled();
+    expect(sent).toEqual([{ success: true }]);
+  });
+
+  it('releases the key on a server error so the request can be retried', async () => {
+    claim.mockResolvedValue({ state: 'started', id: 'key-row' });
+    const res = makeResponse();
+
+    await middleware(makeRequest('key-1'), res as unknown as Response, () => {
+      res.status(503).json({ success: false });
+    });
+    await flush();
+
+    expect(release).toHaveBeenCalledWith('key-row');
+    expect(complete).not.toHaveBeenCalled();
+    expect(res.sent).toEqual([{ success: false }]);
+  });
+});
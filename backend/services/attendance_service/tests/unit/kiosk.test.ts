@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import bcrypt from 'bcryptjs';
+import { queueResults, resetMockDb, executedQueries } from '../helpers/mockDb';
+import { KioskService, KioskDevice } from '../../src/services/kiosk.service';
+import { AttendanceService } from '../../src/services/attendance.service';
+import { WorkLocationService, ClockInLocationCheck } from '../../src/services/workLocation.service';
+import { PhotoService } from '../../src/services/photo.service';
+import { ClockInMethodService } from '../../src/services/clockInMethod.service';
+import { FraudService } from '../../src/services/fraud.service';
+import { HolidayService } from '../../src/services/holiday.service';
+import { env } from '../../src/config/env';
+
+jest.mock('../../src/config/database', () => require('../helpers/mockDb'));
+
+const KIOSK_ID = '33333333-3333-4333-8333-333333333333';
+const SECRET = 'kiosk-secret';
+const PIN = '4821';
+const PIN_HASH = bcrypt.hashSync(PIN, 4);
+const PHOTO = { buffer: Buffer.from('photo'), mimetype: 'image/jpeg' };
+
+const kiosk: KioskDevice = {
+  id: KIOSK_ID,
+  companyId: 'company',
+  geofenceId: 'site',
+  name: 'Gate 2 tablet',
+  pinFallbackEnabled: true,
+  isActive: true,
+  lastSeenAt: null,
+  createdBy: 'admin',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z')
+};
+
+const employee = { userId: 'employee', firstName: 'Ada', lastName: 'Lovelace' };
+const pinRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'pin',
+  companyId: 'company',
+  userId: employee.userId,
+  pinHash: PIN_HASH,
+  failedAttempts: 0,
+  lockedUntil: null,
+  ...overrides
+});
+
+const locationCheck: ClockInLocationCheck = {
+  action: 'allow',
+  reason: null,
+  message: null,
+  effectiveWorkMode: 'onsite',
+  expectedWorkMode: 'onsite',
+  workModeScheduleId: null,
+  workModeMismatch: false,
+  locationType: 'site',
+  locationId: 'site',
+  locationName: 'Main site',
+  distanceMeters: 0,
+  zone: 'inside'
+};
+
+const updates = () => executedQueries.filter(query => query.operation === 'update');
+const auditEvents = () => executedQueries
+  .filter(query => query.operation === 'insert')
+  .map(query => (query.calls.find(call => call.method === 'values')!.args[0] as { event: string }).event);
+
+let service: KioskService;
+
+beforeEach(() => {
+  resetMockDb();
+  jest.restoreAllMocks();
+  service = new KioskService();
+});
+
+describe('KioskService.authenticate', () => {
+  const row = { ...kiosk, secretHash: crypto.createHash('sha256').update(SECRET).digest('hex') };
+
+  it('rejects a malformed key without looking it up', async () => {
+    await expect(service.authenticate('not-a-key')).resolves.toBeNull();
+    await expect(service.authenticate(`not-a-uuid.${SECRET}`)).resolves.toBeNull();
+    expect(executedQueries).toHaveLength(0);
+  });
+
+  it('rejects a wrong secret', async () => {
+    queueResults([row]);
+
+    await expect(service.authenticate(`${KIOSK_ID}.wrong-secret`)).resolves.toBeNull();
+    expect(updates()).toHaveLength(0);
+  });
+
+  it('returns the kiosk without its secret hash and records that it was seen', async () => {
+    queueResults([row], []);
+
+    const authenticated = await service.authenticate(`${KIOSK_ID}.${SECRET}`);
+
+    expect(authenticated).toEqual(kiosk);
+    expect(authenticated).not.toHaveProperty('secretHash');
+    expect(updates()).toHaveLength(1);
+  });
+});
+
+describe('KioskService.punchByPin', () => {
+  it('compares against a dummy hash for an unknown employee', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+    queueResults([]); // No such employee
+
+    const result = await service.punchByPin(kiosk, 'E-404', PIN, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'INVALID_PIN' });
+    expect(compare).toHaveBeenCalledTimes(1);
+    expect(updates()).toHaveLength(0);
+    expect(auditEvents()).toEqual(['pin_failed']);
+  });
+
+  it('answers an employee without a PIN like a wrong PIN', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+    queueResults([employee], []); // Employee, no PIN
+
+    const result = await service.punchByPin(kiosk, 'E-1', PIN, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'INVALID_PIN' });
+    expect(compare).toHaveBeenCalledTimes(1);
+    expect(updates()).toHaveLength(0);
+  });
+
+  it('refuses a locked PIN before checking it', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+    queueResults([employee], [pinRow()], []); // The attempt counter matches no row: locked or out of attempts
+
+    const result = await service.punchByPin(kiosk, 'E-1', PIN, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'PIN_LOCKED' });
+    expect(compare).not.toHaveBeenCalled();
+    expect(updates()).toHaveLength(1);
+  });
+
+  it('counts a wrong PIN below the limit', async () => {
+    queueResults([employee], [pinRow()], [{ failedAttempts: 1 }]);
+
+    const result = await service.punchByPin(kiosk, 'E-1', '0000', PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'INVALID_PIN' });
+    expect(updates()).toHaveLength(1);
+    expect(auditEvents()).toEqual(['pin_failed']);
+  });
+
+  it('locks the PIN on the last allowed wrong attempt', async () => {
+    queueResults([employee], [pinRow()], [{ failedAttempts: env.KIOSK_PIN_MAX_ATTEMPTS }]);
+
+    const result = await service.punchByPin(kiosk, 'E-1', '0000', PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'INVALID_PIN' });
+    expect(updates()).toHaveLength(2);
+    const lock = updates()[1]!.calls.find(call => call.method === 'set')!.args[0] as { failedAttempts: number; lockedUntil: Date };
+    expect(lock.failedAttempts).toBe(0);
+    expect(lock.lockedUntil.getTime()).toBeGreaterThan(Date.now() + (env.KIOSK_PIN_LOCK_MINUTES - 1) * 60 * 1000);
+    expect(auditEvents()).toEqual(['pin_locked']);
+  });
+
+  it('refuses a second punch within the cooldown instead of toggling back', async () => {
+    const getOpenAttendanceRecord = jest.spyOn(AttendanceService.prototype, 'getOpenAttendanceRecord');
+    queueResults(
+      [employee],
+      [pinRow({ failedAttempts: 2 })],
+      [{ failedAttempts: 3 }],
+      [], // Attempts reset
+      [{ clockInTime: new Date(Date.now() - 10 * 1000), clockOutTime: null }] // Clocked in ten seconds ago
+    );
+
+    const result = await service.punchByPin(kiosk, 'E-1', PIN, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'RECENT_PUNCH', message: 'Already clocked in' });
+    expect(getOpenAttendanceRecord).not.toHaveBeenCalled();
+    expect(auditEvents()).toEqual(['punch_rejected']);
+  });
+});
+
+describe('KioskService clock-in checks', () => {
+  let storeAttendancePhoto: jest.SpyInstance;
+  let createAttendanceRecord: jest.SpyInstance;
+  let deletePhoto: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(AttendanceService.prototype, 'getOpenAttendanceRecord').mockResolvedValue(null);
+    storeAttendancePhoto = jest.spyOn(PhotoService.prototype, 'storeAttendancePhoto').mockResolvedValue('photo-key');
+    deletePhoto = jest.spyOn(PhotoService.prototype, 'deletePhoto').mockResolvedValue();
+    jest.spyOn(WorkLocationService.prototype, 'verifyClockIn').mockResolvedValue(locationCheck);
+    createAttendanceRecord = jest.spyOn(AttendanceService.prototype, 'createAttendanceRecord')
+      .mockResolvedValue({ success: true, data: { id: 'attendance', scheduledStart: null } } as any);
+    jest.spyOn(AttendanceService.prototype, 'updateAttendanceFraudAnalysis').mockResolvedValue({ success: true });
+    jest.spyOn(HolidayService.prototype, 'getEmployeeSiteId').mockResolvedValue('site');
+    jest.spyOn(HolidayService.prototype, 'getDayContext').mockResolvedValue({} as any);
+  });
+
+  const identified = () => jest.spyOn(axios, 'post').mockImplementation(async (url: string) => (
+    url.endsWith('/identify-face')
+      ? { data: { data: { match: { userId: employee.userId, similarity: 0.93 }, candidatesSearched: 1 } } }
+      : { data: { success: true, data: { riskScore: 90, riskLevel: 'CRITICAL', isFraudulent: true, metadata: { flags: [] } } } }
+  ));
+
+  it('refuses a face clock-in at a site that does not accept face', async () => {
+    identified();
+    jest.spyOn(ClockInMethodService.prototype, 'getAllowedMethods').mockResolvedValue(['qr', 'nfc']);
+    queueResults([], [employee], []); // Candidates, employee, no earlier punch
+
+    const result = await service.punchByFace(kiosk, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'METHOD_NOT_ALLOWED' });
+    expect(storeAttendancePhoto).not.toHaveBeenCalled();
+    expect(createAttendanceRecord).not.toHaveBeenCalled();
+  });
+
+  it('does not apply the clock-in methods to PIN punches', async () => {
+    const getAllowedMethods = jest.spyOn(ClockInMethodService.prototype, 'getAllowedMethods');
+    jest.spyOn(axios, 'post').mockRejectedValue(new Error('AI service down'));
+    queueResults([employee], [pinRow()], [{ failedAttempts: 1 }], [], [], [{ latitude: '52.52', longitude: '13.405' }]);
+
+    const result = await service.punchByPin(kiosk, 'E-1', PIN, PHOTO);
+
+    expect(result).toMatchObject({ success: true, data: { action: 'clock_in', flagged: true } });
+    expect(getAllowedMethods).not.toHaveBeenCalled();
+  });
+
+  it('runs the fraud analysis and refuses a blocked clock-in', async () => {
+    identified();
+    jest.spyOn(ClockInMethodService.prototype, 'getAllowedMethods').mockResolvedValue(['face']);
+    const recordAssessment = jest.spyOn(FraudService.prototype, 'recordAssessment')
+      .mockResolvedValue({ success: true, data: { action: 'block' } } as any);
+    queueResults([], [employee], [], [{ latitude: '52.52', longitude: '13.405' }]);
+
+    const result = await service.punchByFace(kiosk, PHOTO);
+
+    expect(result).toMatchObject({ success: false, error: 'CLOCK_IN_BLOCKED' });
+    expect(recordAssessment).toHaveBeenCalledWith('company', 'attendance', expect.objectContaining({ faceSimilarity: 0.93 }));
+    expect(deletePhoto).not.toHaveBeenCalled();
+    expect(auditEvents()).toEqual(['punch_rejected']);
+  });
+});
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import { queueResults, resetMockDb, executedQueries } from '../helpers/mockDb';
+import { OfflinePunchService, OfflineDeviceKey, SignedPunch } from '../../src/services/offlinePunch.service';
+import { AttendanceService } from '../../src/services/attendance.service';
+
+jest.mock('../../src/config/database', () => require('../helpers/mockDb'));
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const COMPANY_ID = '22222222-2222-4222-8222-222222222222';
+const PHOTO = { buffer: Buffer.from('photo'), mimetype: 'image/jpeg' };
+const PHOTO_SHA256 = crypto.createHash('sha256').update(PHOTO.buffer).digest('hex');
+
+const device = (deviceId: string) => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+
+  const key: OfflineDeviceKey = {
+    id: `key-${deviceId}`,
+    companyId: COMPANY_ID,
+    userId: USER_ID,
+    deviceId,
+    algorithm: 'ed25519',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    lastCounter: 0,
+    lastCapturedAt: null,
+    registeredAt: new Date('2025-01-01T00:00:00Z'),
+    revokedAt: null,
+    revokedBy: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z')
+  };
+
+  const sign = (type: 'clock-in' | 'clock-out', counter: number, capturedAt: string): SignedPunch => {
+    const payload = Buffer.from(JSON.stringify({
+      version: 1,
+      deviceId,
+      userId: USER_ID,
+      companyId: COMPANY_ID,
+      type,
+      counter,
+      capturedAt,
+      workMode: 'onsite',
+      location: { latitude: 52.52, longitude: 13.405, fixedAt: capturedAt },
+      photoSha256: PHOTO_SHA256
+    }));
+
+    return {
+      envelope: payload.toString('base64'),
+      signature: crypto.sign(null, payload, privateKey).toString('base64')
+    };
+  };
+
+  return { key, sign };
+};
+
+const syncData = (punches: SignedPunch[]) => ({
+  companyId: COMPANY_ID,
+  userId: USER_ID,
+  authorization: 'Bearer token',
+  punches,
+  photos: [PHOTO]
+});
+
+describe('OfflinePunchService.syncPunches', () => {
+  let service: OfflinePunchService;
+
+  beforeEach(() => {
+    resetMockDb();
+    jest.restoreAllMocks();
+    service = new OfflinePunchService();
+  });
+
+  it('replays punches in capture order across devices', async () => {
+    const deviceA = device('a');
+    const deviceB = device('b');
+    const replayed: string[] = [];
+
+    const recorded = (type: string) => async (_context: unknown, _key: unknown, punch: { index: number; payload: { deviceId: string; counter: number }; capturedAt: Date }) => {
+      replayed.push(`${type}@${punch.payload.deviceId}`);
+      return {
+        index: punch.index,
+        deviceId: punch.payload.deviceId,
+        counter: punch.payload.counter,
+        type,
+        status: 'accepted',
+        flags: [],
+        reason: null,
+        punchId: `punch-${punch.index}`,
+        attendanceId: 'attendance',
+        capturedAt: punch.capturedAt
+      };
+    };
+    jest.spyOn(service as any, 'recordClockIn').mockImplementation(recorded('clock-in') as any);
+    jest.spyOn(service as any, 'recordClockOut').mockImplementation(recorded('clock-out') as any);
+
+    queueResults(
+      [deviceA.key, deviceB.key], // Device keys
+      [], // No earlier punch with the clock-in's counter
+      [{ lastCounter: 1, lastCapturedAt: new Date('2025-03-05T08:00:00Z') }],
+      [], // No earlier punch with the clock-out's counter
+      [{ lastCounter: 1, lastCapturedAt: new Date('2025-03-05T17:00:00Z') }]
+    );
+
+    // The clock-out on device "a" sorts first by device, but was captured after the clock-in on device "b"
+    const result = await service.syncPunches(syncData([
+      deviceA.sign('clock-out', 1, '2025-03-05T17:00:00Z'),
+      deviceB.sign('clock-in', 1, '2025-03-05T08:00:00Z')
+    ]));
+
+    expect(replayed).toEqual(['clock-in@b', 'clock-out@a']);
+    expect(result.data!.results.map(punch => [punch.index, punch.status])).toEqual([[0, 'accepted'], [1, 'accepted']]);
+    expect(result.data!.accepted).toBe(2);
+  });
+
+  it('asks for a retry instead of storing a clock-out without an open session', async () => {
+    const deviceA = device('a');
+    jest.spyOn(AttendanceService.prototype, 'getOpenAttendanceRecord').mockResolvedValue(null);
+
+    queueResults([deviceA.key], []);
+
+    const result = await service.syncPunches(syncData([deviceA.sign('clock-out', 1, '2025-03-05T17:00:00Z')]));
+
+    expect(result.data!.results[0]).toMatchObject({ status: 'retry', reason: 'NO_OPEN_ATTENDANCE', punchId: null });
+    expect(executedQueries.some(query => query.operation === 'insert' || query.operation === 'update')).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { classifyRecord, calculateNightMinutes, RecordForOvertime } from '../../src/utils/overtime';
+import { overtimeRuleSets } from '../../src/db/schema/overtime';
+
+const TIME_ZONE = 'America/New_York';
+
+const ruleSet = (overrides: Partial<typeof overtimeRuleSets.$inferSelect> = {}): typeof overtimeRuleSets.$inferSelect => ({
+  id: 'rule-set',
+  companyId: 'company',
+  name: 'Test',
+  description: null,
+  isDefault: true,
+  dailyOvertimeAfterMinutes: 480,
+  dailyDoubleTimeAfterMinutes: 720,
+  weeklyOvertimeAfterMinutes: 2400,
+  weekStartsOn: 1,
+  nightStart: null,
+  nightEnd: null,
+  weekendDays: [6, 7],
+  holidayDates: [],
+  overtimeMultiplier: '1.50',
+  doubleTimeMultiplier: '2.00',
+  nightMultiplier: '1.00',
+  weekendMultiplier: '1.00',
+  holidayMultiplier: '1.00',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const record = (clockIn: string, clockOut: string, workedMinutes: number | null, breakTime = 0): RecordForOvertime => ({
+  id: 'record',
+  userId: 'user',
+  companyId: 'company',
+  clockInTime: new Date(clockIn),
+  clockOutTime: new Date(clockOut),
+  breakTime,
+  workedMinutes
+});
+
+// Wednesday 2025-03-05, 09:00 EST
+const WEEKDAY = '2025-03-05';
+const weekdayRecord = (workedMinutes: number): RecordForOvertime =>
+  record('2025-03-05T14:00:00Z', new Date(Date.parse('2025-03-05T14:00:00Z') + workedMinutes * 60 * 1000).toISOString(), workedMinutes);
+
+describe('classifyRecord', () => {
+  it('counts minutes up to the daily threshold as regular time', () => {
+    expect(classifyRecord(weekdayRecord(480), ruleSet(), TIME_ZONE, WEEKDAY, new Set(), 0, 0)).toEqual({
+      workedMinutes: 480,
+      regularMinutes: 480,
+      dailyOvertimeMinutes: 0,
+      dailyDoubleTimeMinutes: 0,
+      weeklyOvertimeMinutes: 0,
+      nightMinutes: 0,
+      weekendMinutes: 0,
+      holidayMinutes: 0
+    });
+  });
+
+  it('splits a long day into regular, overtime and double time', () => {
+    const minutes = classifyRecord(weekdayRecord(780), ruleSet(), TIME_ZONE, WEEKDAY, new Set(), 0, 0);
+
+    expect(minutes).toMatchObject({ regularMinutes: 480, dailyOvertimeMinutes: 240, dailyDoubleTimeMinutes: 60 });
+  });
+
+  it('continues the daily count from earlier records on the same day', () => {
+    const minutes = classifyRecord(weekdayRecord(300), ruleSet(), TIME_ZONE, WEEKDAY, new Set(), 300, 300);
+
+    expect(minutes).toMatchObject({ regularMinutes: 180, dailyOvertimeMinutes: 120 });
+  });
+
+  it('applies the weekly threshold only to minutes that are not daily overtime', () => {
+    const minutes = classifyRecord(weekdayRecord(540), ruleSet(), TIME_ZONE, WEEKDAY, new Set(), 0, 2300);
+
+    expect(minutes).toMatchObject({
+      regularMinutes: 100,
+      dailyOvertimeMinutes: 60,
+      weeklyOvertimeMinutes: 380
+    });
+  });
+
+  it('ignores disabled thresholds', () => {
+    const minutes = classifyRecord(
+      weekdayRecord(780),
+      ruleSet({ dailyOvertimeAfterMinutes: null, dailyDoubleTimeAfterMinutes: null, weeklyOvertimeAfterMinutes: null }),
+      TIME_ZONE,
+      WEEKDAY,
+      new Set(),
+      0,
+      5000
+    );
+
+    expect(minutes).toMatchObject({ regularMinutes: 780, dailyOvertimeMinutes: 0, weeklyOvertimeMinutes: 0 });
+  });
+
+  it('adds weekend and holiday premiums on top of the buckets', () => {
+    const saturday = classifyRecord(
+      record('2025-03-08T14:00:00Z', '2025-03-08T18:00:00Z', 240),
+      ruleSet(),
+      TIME_ZONE,
+      '2025-03-08',
+      new Set(),
+      0,
+      0
+    );
+    const holiday = classifyRecord(weekdayRecord(240), ruleSet(), TIME_ZONE, WEEKDAY, new Set([WEEKDAY]), 0, 0);
+
+    expect(saturday).toMatchObject({ regularMinutes: 240, weekendMinutes: 240, holidayMinutes: 0 });
+    expect(holiday).toMatchObject({ regularMinutes: 240, weekendMinutes: 0, holidayMinutes: 240 });
+  });
+
+  it('falls back to clock times less breaks when worked minutes are not stored', () => {
+    const minutes = classifyRecord(
+      record('2025-03-05T14:00:00Z', '2025-03-05T23:00:00Z', null, 30),
+      ruleSet(),
+      TIME_ZONE,
+      WEEKDAY,
+      new Set(),
+      0,
+      0
+    );
+
+    expect(minutes).toMatchObject({ workedMinutes: 510, regularMinutes: 480, dailyOvertimeMinutes: 30 });
+  });
+
+  it('scales night minutes on the clock to worked time', () => {
+    // 20:00-04:00 EST with an hour of breaks: 6 of 8 hours on the clock are at night
+    const minutes = classifyRecord(
+      record('2025-03-06T01:00:00Z', '2025-03-06T09:00:00Z', 420, 60),
+      ruleSet({ nightStart: '22:00', nightEnd: '06:00' }),
+      TIME_ZONE,
+      WEEKDAY,
+      new Set(),
+      0,
+      0
+    );
+
+    expect(minutes.nightMinutes).toBe(315);
+  });
+});
+
+describe('calculateNightMinutes', () => {
+  const night = { nightStart: '22:00', nightEnd: '06:00' };
+
+  it('returns zero without a night window', () => {
+    expect(calculateNightMinutes(new Date('2025-03-06T01:00:00Z'), new Date('2025-03-06T09:00:00Z'), { nightStart: null, nightEnd: null }, TIME_ZONE)).toBe(0);
+  });
+
+  it('includes a window that began the previous evening', () => {
+    // 02:00-08:00 EST
+    expect(calculateNightMinutes(new Date('2025-03-06T07:00:00Z'), new Date('2025-03-06T13:00:00Z'), night, TIME_ZONE)).toBe(240);
+  });
+
+  it('counts a window that does not cross midnight', () => {
+    // 12:00-15:00 EST against a 13:00-14:00 window
+    expect(calculateNightMinutes(new Date('2025-03-05T17:00:00Z'), new Date('2025-03-05T20:00:00Z'), { nightStart: '13:00', nightEnd: '14:00' }, TIME_ZONE)).toBe(60);
+  });
+
+  it('counts the real length of a night that loses an hour to DST', () => {
+    // 22:00 EST on 2025-03-08 to 06:00 EDT on 2025-03-09
+    expect(calculateNightMinutes(new Date('2025-03-09T03:00:00Z'), new Date('2025-03-09T10:00:00Z'), night, TIME_ZONE)).toBe(420);
+  });
+
+  it('counts the real length of a night that gains an hour from DST', () => {
+    // 22:00 EDT on 2025-11-01 to 06:00 EST on 2025-11-02
+    expect(calculateNightMinutes(new Date('2025-11-02T02:00:00Z'), new Date('2025-11-02T11:00:00Z'), night, TIME_ZONE)).toBe(540);
+  });
+});
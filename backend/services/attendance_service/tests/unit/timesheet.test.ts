@@ -0,0 +1,176 @@
+import { queueResults, resetMockDb, executedQueries } from '../helpers/mockDb';
+import { TimesheetService, Timesheet } from '../../src/services/timesheet.service';
+import { CorrectionService } from '../../src/services/correction.service';
+import { AttendanceService } from '../../src/services/attendance.service';
+import { ShiftService } from '../../src/services/shift.service';
+import { OvertimeService } from '../../src/services/overtime.service';
+import { LeaveService } from '../../src/services/leave.service';
+
+jest.mock('../../src/config/database', () => require('../helpers/mockDb'));
+
+const COMPANY_ID = 'company';
+const USER_ID = 'employee';
+const REVIEWER_ID = 'reviewer';
+
+const payPeriod = {
+  id: 'period',
+  companyId: COMPANY_ID,
+  frequency: 'weekly' as const,
+  startDate: '2025-03-03',
+  endDate: '2025-03-09',
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+  updatedAt: new Date('2025-03-01T00:00:00Z')
+};
+
+// Two eight-hour days
+const records = [
+  { id: 'record-1', clockInTime: new Date('2025-03-03T08:00:00Z'), clockOutTime: new Date('2025-03-03T16:00:00Z'), breakTime: 0, workedMinutes: 480, lateMinutes: 0, earlyLeaveMinutes: 0 },
+  { id: 'record-2', clockInTime: new Date('2025-03-04T08:00:00Z'), clockOutTime: new Date('2025-03-04T16:00:00Z'), breakTime: 0, workedMinutes: 480, lateMinutes: 0, earlyLeaveMinutes: 0 }
+];
+
+const submitted = (overrides: Partial<Timesheet> = {}): Timesheet => ({
+  id: 'timesheet',
+  companyId: COMPANY_ID,
+  userId: USER_ID,
+  payPeriodId: payPeriod.id,
+  status: 'submitted',
+  recordCount: 2,
+  workedMinutes: 960,
+  breakMinutes: 0,
+  regularMinutes: 960,
+  overtimeMinutes: 0,
+  doubleTimeMinutes: 0,
+  nightMinutes: 0,
+  weekendMinutes: 0,
+  holidayMinutes: 0,
+  lateMinutes: 0,
+  earlyLeaveMinutes: 0,
+  leaveMinutes: 0,
+  paidLeaveMinutes: 0,
+  attendanceIds: ['record-1', 'record-2'],
+  submittedAt: new Date('2025-03-10T09:00:00Z'),
+  employeeNotes: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  reviewNotes: null,
+  lockedAt: null,
+  calculatedAt: new Date('2025-03-10T09:00:00Z'),
+  createdAt: new Date('2025-03-10T09:00:00Z'),
+  updatedAt: new Date('2025-03-10T09:00:00Z'),
+  ...overrides
+});
+
+const updatesOf = (table: string) => executedQueries.filter(query =>
+  query.operation === 'update' && (query.calls[0]!.args[0] as Record<symbol, string>)[Symbol.for('drizzle:Name')] === table
+);
+
+beforeEach(() => {
+  resetMockDb();
+  jest.restoreAllMocks();
+  jest.spyOn(ShiftService.prototype, 'getCompanyTimezone').mockResolvedValue('UTC');
+  jest.spyOn(OvertimeService.prototype, 'calculatePeriod').mockResolvedValue({ success: true, data: [] });
+  jest.spyOn(LeaveService.prototype, 'getApprovedLeaveDays').mockResolvedValue([]);
+});
+
+describe('TimesheetService.approveTimesheet', () => {
+  it('approves and locks the records when the totals still match', async () => {
+    queueResults(
+      [submitted()], // Timesheet
+      [payPeriod], // Pay period
+      records, // Records totalled before approval
+      records, // Same records inside the transaction
+      [submitted({ status: 'approved', lockedAt: new Date() })], // Approved timesheet
+      [] // Locked records
+    );
+
+    const result = await new TimesheetService().approveTimesheet(COMPANY_ID, 'timesheet', REVIEWER_ID);
+
+    expect(result).toMatchObject({ success: true, data: { status: 'approved' } });
+    expect(updatesOf('attendance_records')).toHaveLength(1);
+  });
+
+  it('refuses a timesheet whose totals changed since submission and stores the new totals', async () => {
+    const later = { ...records[1]!, id: 'record-3', clockInTime: new Date('2025-03-05T08:00:00Z'), clockOutTime: new Date('2025-03-05T12:00:00Z'), workedMinutes: 240 };
+
+    queueResults(
+      [submitted()],
+      [payPeriod],
+      [...records, later], // A record closed after submission
+      [submitted({ recordCount: 3, workedMinutes: 1200 })] // Refreshed totals
+    );
+
+    const result = await new TimesheetService().approveTimesheet(COMPANY_ID, 'timesheet', REVIEWER_ID);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'TIMESHEET_CHANGED',
+      data: { status: 'submitted', recordCount: 3, workedMinutes: 1200 }
+    });
+    expect(updatesOf('timesheets')).toHaveLength(0);
+    expect(updatesOf('attendance_records')).toHaveLength(0);
+  });
+
+  it('refuses when a record changes between the recalculation and the approval', async () => {
+    const corrected = [records[0]!, { ...records[1]!, workedMinutes: 420 }];
+
+    queueResults(
+      [submitted()],
+      [payPeriod],
+      records,
+      corrected // Corrected while the approval was running
+    );
+
+    const result = await new TimesheetService().approveTimesheet(COMPANY_ID, 'timesheet', REVIEWER_ID);
+
+    expect(result).toMatchObject({ success: false, error: 'TIMESHEET_CHANGED' });
+    expect(updatesOf('timesheets')).toHaveLength(0);
+  });
+});
+
+describe('locked pay periods', () => {
+  it('reports a period as locked when the employee has an approved timesheet covering the date', async () => {
+    queueResults([{ id: 'timesheet' }], []);
+    const service = new TimesheetService();
+
+    await expect(service.isPeriodLocked(COMPANY_ID, USER_ID, new Date('2025-03-05T10:00:00Z'))).resolves.toBe(true);
+    await expect(service.isPeriodLocked(COMPANY_ID, USER_ID, new Date('2025-03-12T10:00:00Z'))).resolves.toBe(false);
+  });
+
+  it('rejects a correction that moves a record into a locked period', async () => {
+    jest.spyOn(TimesheetService.prototype, 'isPeriodLocked').mockImplementation(async (_companyId, _userId, at) =>
+      at < new Date('2025-03-10T00:00:00Z')
+    );
+    const getOverlappingRecord = jest.spyOn(AttendanceService.prototype, 'getOverlappingRecord').mockResolvedValue(null);
+
+    queueResults([{ clockInTime: new Date('2025-03-10T08:00:00Z'), clockOutTime: new Date('2025-03-10T16:00:00Z'), lockedAt: null }]);
+
+    const result = await new CorrectionService().requestCorrection(COMPANY_ID, USER_ID, {
+      attendanceId: 'record-4',
+      clockInTime: '2025-03-09T22:00:00Z',
+      reason: 'Started the night before'
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'PERIOD_LOCKED' });
+    expect(getOverlappingRecord).not.toHaveBeenCalled();
+    expect(executedQueries.some(query => query.operation === 'insert')).toBe(false);
+  });
+
+  it('rejects a correction that overlaps another record', async () => {
+    jest.spyOn(TimesheetService.prototype, 'isPeriodLocked').mockResolvedValue(false);
+    jest.spyOn(AttendanceService.prototype, 'getOverlappingRecord').mockResolvedValue({
+      id: 'record-5',
+      clockInTime: new Date('2025-03-10T16:30:00Z'),
+      clockOutTime: new Date('2025-03-10T20:00:00Z')
+    });
+
+    queueResults([{ clockInTime: new Date('2025-03-10T08:00:00Z'), clockOutTime: new Date('2025-03-10T16:00:00Z'), lockedAt: null }]);
+
+    const result = await new CorrectionService().requestCorrection(COMPANY_ID, USER_ID, {
+      attendanceId: 'record-4',
+      clockOutTime: '2025-03-10T18:00:00Z',
+      reason: 'Stayed late'
+    });
+
+    expect(result).toMatchObject({ success: false, error: 'OVERLAPPING_ATTENDANCE' });
+  });
+});
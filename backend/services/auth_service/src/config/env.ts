@@ -17,6 +17,11 @@ const envSchema = z.object({
   SMTP_PASS: z.string().optional(),
   SENDGRID_API_KEY: z.string().optional(),
   BCRYPT_ROUNDS: z.string().transform(Number).default('14'),
+  
+  // Face encoding purge (retention days and legal holds are per company, set in the attendance service)
+  BIOMETRIC_PURGE_ENABLED: z.string().transform(value => value !== 'false').default('true'),
+  BIOMETRIC_PURGE_INTERVAL_MINUTES: z.string().transform(Number).default('1440'),
+  BIOMETRIC_PURGE_DRY_RUN: z.string().transform(value => value === 'true').default('false'),
 });
 
 export const env = envSchema.parse(process.env);
@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import { BiometricRetentionService } from '../services/biometric-retention.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+export class BiometricRetentionController {
+  private readonly biometricRetentionService = new BiometricRetentionService();
+
+  // Dry run of the face encoding purge for the caller's company
+  async getPurgeReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { companyId } = req.user!;
+
+      if (!companyId) {
+        res.status(400).json({
+          success: false,
+          message: 'Company ID is required',
+        });
+        return;
+      }
+
+      const result = await this.biometricRetentionService.getPurgeReport(companyId);
+
+      if (!result.success) {
+        res.status(500).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Get biometric purge report controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+}
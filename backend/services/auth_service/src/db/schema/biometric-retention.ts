@@ -0,0 +1,31 @@
+import { pgTable, uuid, text, boolean, timestamp, integer } from 'drizzle-orm/pg-core';
+import { users } from './auth';
+import { companies } from './platform';
+
+// Biometric Retention Policies (managed by the attendance service; read here to purge face encodings)
+export const biometricRetentionPolicies = pgTable('biometric_retention_policies', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  isEnabled: boolean('is_enabled').notNull().default(true),
+  photoRetentionDays: integer('photo_retention_days').notNull().default(30),
+  verificationRetentionDays: integer('verification_retention_days').notNull().default(30),
+  encodingRetentionDays: integer('encoding_retention_days').notNull().default(30), // After employment ends or the encoding is replaced
+  updatedBy: uuid('updated_by').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Biometric Legal Holds (no purge for the user while released_at is null)
+export const biometricLegalHolds = pgTable('biometric_legal_holds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  companyId: uuid('company_id').notNull().references(() => companies.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason').notNull(),
+  placedBy: uuid('placed_by').notNull().references(() => users.id),
+  placedAt: timestamp('placed_at', { withTimezone: true }).defaultNow().notNull(),
+  releasedBy: uuid('released_by').references(() => users.id),
+  releasedAt: timestamp('released_at', { withTimezone: true }),
+  releaseNotes: text('release_notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
@@ -2,3 +2,4 @@
 export * from './platform';
 export * from './auth';
 export * from './face-encoding';
+export * from './biometric-retention';
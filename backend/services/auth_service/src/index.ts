@@ -14,6 +14,7 @@ import { generalLimiter, healthCheckLimiter } from './middleware/rate-limiting.m
 import { logger } from './utils/logger';
 import { testConnection } from './config/database';
 import { env } from './config/env';
+import { startBiometricPurgeJob } from './jobs/biometric-purge.job';
 
 // Load environment variables
 dotenv.config();
@@ -71,6 +72,8 @@ async function startServer() {
       logger.info(`Environment: ${env.NODE_ENV}`);
       logger.info(`Database: Connected`);
     });
+
+    startBiometricPurgeJob();
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
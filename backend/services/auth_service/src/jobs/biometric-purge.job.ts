@@ -0,0 +1,42 @@
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+import { BiometricRetentionService } from '../services/biometric-retention.service';
+
+const biometricRetentionService = new BiometricRetentionService();
+let running = false;
+
+/**
+ * Periodically purge face encodings past each company's retention policy.
+ * Photos and verification results are purged by the attendance service.
+ */
+export function startBiometricPurgeJob(): NodeJS.Timeout | null {
+  if (!env.BIOMETRIC_PURGE_ENABLED) {
+    logger.info('Biometric purge job disabled');
+    return null;
+  }
+
+  const run = async () => {
+    // Skip a run while the previous one is still going
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await biometricRetentionService.purgeFaceEncodings(env.BIOMETRIC_PURGE_DRY_RUN);
+    } catch (error) {
+      logger.error('Biometric purge job failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, env.BIOMETRIC_PURGE_INTERVAL_MINUTES * 60 * 1000);
+
+  logger.info('Biometric purge job scheduled', {
+    intervalMinutes: env.BIOMETRIC_PURGE_INTERVAL_MINUTES,
+    dryRun: env.BIOMETRIC_PURGE_DRY_RUN,
+  });
+
+  return timer;
+}
@@ -65,8 +65,10 @@ router.post('/manual-register', authenticateToken, requireAdminOrSuperAdmin, val
 // Trial and Subscription routes
 import trialRoutes from './trial.routes';
 import subscriptionRoutes from './subscription.routes';
+import biometricRetentionRoutes from './biometric-retention.routes';
 
 router.use('/trial', trialRoutes);
 router.use('/subscription', subscriptionRoutes);
+router.use('/biometric-retention', biometricRetentionRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { BiometricRetentionController } from '../controllers/biometric-retention.controller';
+import { authenticateToken, requireAdminOrSuperAdmin } from '../middleware/auth.middleware';
+
+const router = Router();
+const biometricRetentionController = new BiometricRetentionController();
+
+// Face encoding purge dry run (policies and legal holds are managed in the attendance service)
+router.get('/report', authenticateToken, requireAdminOrSuperAdmin, biometricRetentionController.getPurgeReport.bind(biometricRetentionController));
+
+export default router;
@@ -0,0 +1,225 @@
+import { eq, and, inArray, isNull, isNotNull, or, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { users, auditLogs, faceEncodingHistory, biometricRetentionPolicies, biometricLegalHolds } from '../db/schema';
+import { logger } from '../utils/logger';
+
+export interface EncodingPurgeReport {
+  companyId: string;
+  dryRun: boolean;
+  cutoff: Date;
+  encodingRetentionDays: number;
+  formerEmployees: number; // Users whose encodings are removed because employment ended before the cutoff
+  replacedEncodings: number; // Superseded or deleted encodings past retention
+  removedEncodings: number; // History rows removed in total
+  usersOnHold: number;
+}
+
+export interface BiometricRetentionResult {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+const PURGED_BY = 'retention_policy';
+
+export class BiometricRetentionService {
+
+  // Dry run of the face encoding purge for one company (used by the attendance service's retention report)
+  async getPurgeReport(companyId: string): Promise<BiometricRetentionResult> {
+    try {
+      const [policy] = await db
+        .select()
+        .from(biometricRetentionPolicies)
+        .where(eq(biometricRetentionPolicies.companyId, companyId))
+        .limit(1);
+
+      if (!policy) {
+        return {
+          success: true,
+          message: 'No retention policy saved for this company',
+          data: null,
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Face encoding purge report',
+        data: await this.purgeCompany(policy, true),
+      };
+    } catch (error) {
+      logger.error('Get biometric purge report error:', error);
+      return {
+        success: false,
+        message: 'Internal server error',
+      };
+    }
+  }
+
+  // Purge face encodings past retention for every company with an enabled policy
+  async purgeFaceEncodings(dryRun: boolean = false): Promise<EncodingPurgeReport[]> {
+    const policies = await db
+      .select()
+      .from(biometricRetentionPolicies)
+      .where(eq(biometricRetentionPolicies.isEnabled, true));
+
+    const reports: EncodingPurgeReport[] = [];
+    for (const policy of policies) {
+      try {
+        const report = await this.purgeCompany(policy, dryRun);
+        reports.push(report);
+
+        if (report.formerEmployees > 0 || report.replacedEncodings > 0) {
+          logger.info(dryRun ? 'Face encoding purge dry run' : 'Face encodings purged', report);
+        }
+      } catch (error) {
+        logger.error('Failed to purge face encodings for company:', { companyId: policy.companyId, error });
+      }
+    }
+
+    return reports;
+  }
+
+  // Count (dry run) or remove one company's encodings past retention, with an audit log entry per user purged
+  private async purgeCompany(policy: typeof biometricRetentionPolicies.$inferSelect, dryRun: boolean): Promise<EncodingPurgeReport> {
+    const cutoff = new Date(Date.now() - policy.encodingRetentionDays * 24 * 60 * 60 * 1000);
+
+    const holds = await db
+      .select({ userId: biometricLegalHolds.userId })
+      .from(biometricLegalHolds)
+      .where(and(eq(biometricLegalHolds.companyId, policy.companyId), isNull(biometricLegalHolds.releasedAt)));
+    const heldUserIds = new Set(holds.map(hold => hold.userId));
+
+    // Employment ends when the user is deactivated; older accounts without the audit entry fall back to updated_at
+    const employmentEndedAt = sql<Date>`coalesce((
+      select max(${auditLogs.createdAt}) from ${auditLogs}
+      where ${auditLogs.action} = 'user_deactivated' and ${auditLogs.resourceId} = ${users.id}
+    ), ${users.updatedAt})`;
+
+    const formerEmployees = (await db
+      .select({
+        id: users.id,
+        employmentEndedAt,
+        encodings: sql<number>`(select count(*)::int from ${faceEncodingHistory} where ${faceEncodingHistory.userId} = ${users.id})`,
+      })
+      .from(users)
+      .where(and(
+        eq(users.companyId, policy.companyId),
+        eq(users.isActive, false),
+        sql`${employmentEndedAt} < ${cutoff}`,
+        or(
+          isNotNull(users.faceEncodingData),
+          sql`exists (select 1 from ${faceEncodingHistory} where ${faceEncodingHistory.userId} = ${users.id})`
+        )
+      )))
+      .filter(user => !heldUserIds.has(user.id));
+
+    // An encoding is replaced when a newer one is created; deleted encodings have no newer one and count from creation
+    const replacedAt = sql`coalesce((
+      select min(newer.created_at) from face_encoding_history newer
+      where newer.user_id = ${faceEncodingHistory.userId} and newer.created_at > ${faceEncodingHistory.createdAt}
+    ), ${faceEncodingHistory.createdAt})`;
+
+    const formerEmployeeIds = new Set(formerEmployees.map(user => user.id));
+    const replacedEncodings = (await db
+      .select({
+        id: faceEncodingHistory.id,
+        userId: faceEncodingHistory.userId,
+        createdAt: faceEncodingHistory.createdAt,
+      })
+      .from(faceEncodingHistory)
+      .innerJoin(users, eq(faceEncodingHistory.userId, users.id))
+      .where(and(
+        eq(users.companyId, policy.companyId),
+        eq(faceEncodingHistory.isActive, false),
+        sql`${replacedAt} < ${cutoff}`
+      )))
+      .filter(encoding => !heldUserIds.has(encoding.userId) && !formerEmployeeIds.has(encoding.userId));
+
+    const report: EncodingPurgeReport = {
+      companyId: policy.companyId,
+      dryRun,
+      cutoff,
+      encodingRetentionDays: policy.encodingRetentionDays,
+      formerEmployees: formerEmployees.length,
+      replacedEncodings: replacedEncodings.length,
+      removedEncodings: formerEmployees.reduce((total, user) => total + user.encodings, 0) + replacedEncodings.length,
+      usersOnHold: heldUserIds.size,
+    };
+
+    if (dryRun) {
+      return report;
+    }
+
+    const audit = {
+      purgedBy: PURGED_BY,
+      encodingRetentionDays: policy.encodingRetentionDays,
+    };
+
+    for (const user of formerEmployees) {
+      const purgedAt = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(faceEncodingHistory)
+          .where(eq(faceEncodingHistory.userId, user.id));
+
+        await tx
+          .update(users)
+          .set({
+            faceEncodingData: null,
+            faceEncodingCreatedAt: null,
+            faceEncodingExpiresAt: null,
+            faceEncodingQualityScore: null,
+          })
+          .where(eq(users.id, user.id));
+
+        await tx.insert(auditLogs).values({
+          userId: user.id,
+          companyId: policy.companyId,
+          action: 'biometric_data_purged',
+          resourceType: 'face_encoding',
+          resourceId: user.id,
+          oldValues: {
+            reason: 'employment_ended',
+            employmentEndedAt: user.employmentEndedAt,
+            encodings: user.encodings,
+          },
+          newValues: { ...audit, purgedAt },
+        });
+      });
+    }
+
+    // Replaced encodings: one audit entry per user
+    const replacedByUser = new Map<string, typeof replacedEncodings>();
+    for (const encoding of replacedEncodings) {
+      replacedByUser.set(encoding.userId, [...(replacedByUser.get(encoding.userId) ?? []), encoding]);
+    }
+
+    for (const [userId, encodings] of replacedByUser) {
+      const purgedAt = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(faceEncodingHistory)
+          .where(and(
+            inArray(faceEncodingHistory.id, encodings.map(encoding => encoding.id)),
+            eq(faceEncodingHistory.isActive, false)
+          ));
+
+        await tx.insert(auditLogs).values({
+          userId,
+          companyId: policy.companyId,
+          action: 'biometric_data_purged',
+          resourceType: 'face_encoding_history',
+          resourceId: userId,
+          oldValues: {
+            reason: 'encoding_replaced',
+            encodingIds: encodings.map(encoding => encoding.id),
+            createdAt: encodings.map(encoding => encoding.createdAt),
+          },
+          newValues: { ...audit, purgedAt },
+        });
+      });
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,72 @@
+-- Analytics for attendance_service
+-- Desktop activity sessions, generated report history, and indexes for date-range aggregations
+
+-- Activity Monitoring (desktop agent sessions)
+CREATE TABLE IF NOT EXISTS activity_monitoring (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+    -- Session data
+    session_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    session_end TIMESTAMP WITH TIME ZONE,
+    session_duration INTEGER, -- minutes
+
+    -- Activity metrics (minutes)
+    productive_time INTEGER,
+    break_time INTEGER,
+    idle_time INTEGER,
+    distraction_time INTEGER,
+
+    -- Application usage
+    work_applications JSONB,
+    non_work_applications JSONB,
+    application_switches INTEGER,
+
+    -- Input activity
+    keystrokes INTEGER,
+    mouse_clicks INTEGER,
+    mouse_movement INTEGER,
+    engagement_score DECIMAL(5,2),
+
+    -- Screen activity
+    screenshots_taken INTEGER,
+    screen_activity_score DECIMAL(5,2),
+    focus_time INTEGER, -- minutes
+
+    -- Presence detection
+    presence_score DECIMAL(5,2),
+    attention_level DECIMAL(5,2),
+    distraction_events JSONB,
+
+    -- Metadata
+    device_fingerprint VARCHAR(255),
+    location_data JSONB,
+    network_data JSONB,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Analytics Reports (generated files, kept for re-download)
+CREATE TABLE IF NOT EXISTS analytics_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    report_type VARCHAR(20) NOT NULL CHECK (report_type IN ('attendance', 'productivity', 'fraud', 'performance')),
+    format VARCHAR(10) NOT NULL CHECK (format IN ('json', 'csv')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}', -- department, teamId, userId
+    file_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    content TEXT NOT NULL,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    generated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CHECK (start_date <= end_date)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_activity_monitoring_company_session_start ON activity_monitoring(company_id, session_start);
+CREATE INDEX IF NOT EXISTS idx_activity_monitoring_user_session_start ON activity_monitoring(user_id, session_start);
+CREATE INDEX IF NOT EXISTS idx_attendance_records_company_clock_in ON attendance_records(company_id, clock_in_time);
+CREATE INDEX IF NOT EXISTS idx_analytics_reports_company_created_at ON analytics_reports(company_id, created_at DESC);
@@ -0,0 +1,46 @@
+-- Attendance corrections for attendance_service
+-- Employees request corrected clock-in/out times; approved corrections keep the original values in a history table
+
+-- Correction Requests
+CREATE TABLE IF NOT EXISTS attendance_correction_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    attendance_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
+    requested_clock_in_time TIMESTAMP WITH TIME ZONE, -- NULL = keep the recorded time
+    requested_clock_out_time TIMESTAMP WITH TIME ZONE,
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT, -- Approval notes or rejection reason
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT attendance_correction_requests_times CHECK (requested_clock_in_time IS NOT NULL OR requested_clock_out_time IS NOT NULL)
+);
+
+-- Correction History (original values of every applied correction)
+CREATE TABLE IF NOT EXISTS attendance_correction_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    attendance_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
+    correction_request_id UUID REFERENCES attendance_correction_requests(id) ON DELETE SET NULL,
+    user_id UUID NOT NULL, -- Employee the record belongs to
+    original_clock_in_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    original_clock_out_time TIMESTAMP WITH TIME ZONE,
+    original_status TEXT,
+    corrected_clock_in_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    corrected_clock_out_time TIMESTAMP WITH TIME ZONE,
+    reason TEXT NOT NULL,
+    approved_by UUID NOT NULL REFERENCES users(id),
+    approved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_attendance_correction_requests_company_status ON attendance_correction_requests(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_attendance_correction_requests_attendance_id ON attendance_correction_requests(attendance_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_correction_requests_pending ON attendance_correction_requests(attendance_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_attendance_correction_history_attendance_id ON attendance_correction_history(attendance_id);
+
+-- Triggers
+CREATE TRIGGER update_attendance_correction_requests_updated_at BEFORE UPDATE ON attendance_correction_requests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
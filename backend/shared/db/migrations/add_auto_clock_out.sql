@@ -0,0 +1,16 @@
+-- Automatic clock-out for attendance_service
+-- Per-company grace after shift end, and the auto-close marker on attendance records
+
+-- Auto clock-out policy
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS auto_clock_out_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS auto_clock_out_grace_minutes INTEGER NOT NULL DEFAULT 120, -- Past shift end (or a standard workday without a shift)
+ADD COLUMN IF NOT EXISTS auto_clock_out_correction_request BOOLEAN NOT NULL DEFAULT false; -- Open a correction request for review
+
+-- Auto-closed sessions (status becomes 'auto_closed' unless the record was flagged)
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS auto_closed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS auto_close_reason TEXT;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_attendance_records_open ON attendance_records(clock_in_time) WHERE clock_out_time IS NULL;
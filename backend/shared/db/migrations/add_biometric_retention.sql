@@ -0,0 +1,46 @@
+-- Biometric retention for attendance_service and auth_service
+-- Per-company retention days for photos, verification results and face encodings, legal holds that stop the purge for an employee, and a marker on purged attendance records
+
+-- Biometric Retention Policies (one per company)
+CREATE TABLE IF NOT EXISTS biometric_retention_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    photo_retention_days INTEGER NOT NULL DEFAULT 30, -- From clock-in
+    verification_retention_days INTEGER NOT NULL DEFAULT 30, -- From the verification
+    encoding_retention_days INTEGER NOT NULL DEFAULT 30, -- From the end of employment, or from replacement by a newer encoding
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT biometric_retention_policies_company_id_key UNIQUE (company_id),
+    CONSTRAINT biometric_retention_policies_days_check CHECK (
+        photo_retention_days > 0 AND verification_retention_days > 0 AND encoding_retention_days > 0
+    )
+);
+
+-- Biometric Legal Holds (nothing of the employee's is purged while one is active)
+CREATE TABLE IF NOT EXISTS biometric_legal_holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    placed_by UUID NOT NULL REFERENCES users(id),
+    placed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    released_by UUID REFERENCES users(id),
+    released_at TIMESTAMP WITH TIME ZONE,
+    release_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS photos_purged_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_biometric_legal_holds_active_user ON biometric_legal_holds(user_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_biometric_legal_holds_company_id ON biometric_legal_holds(company_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+
+-- Triggers
+CREATE TRIGGER update_biometric_retention_policies_updated_at BEFORE UPDATE ON biometric_retention_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_biometric_legal_holds_updated_at BEFORE UPDATE ON biometric_legal_holds FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,45 @@
+-- Break tracking for attendance_service
+-- Per-company attendance policies, exact break intervals and break roll-up on attendance records
+
+-- Attendance Policies (one row per company)
+CREATE TABLE IF NOT EXISTS attendance_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    max_break_minutes INTEGER NOT NULL DEFAULT 60, -- Total break time allowed per attendance record
+    max_paid_break_minutes INTEGER NOT NULL DEFAULT 30, -- Paid break time beyond this counts as unpaid
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT attendance_policies_company_unique UNIQUE (company_id)
+);
+
+-- Attendance Breaks
+CREATE TABLE IF NOT EXISTS attendance_breaks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    attendance_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    break_type VARCHAR(10) NOT NULL CHECK (break_type IN ('paid', 'unpaid')),
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_time TIMESTAMP WITH TIME ZONE, -- NULL while the break is in progress
+    duration_minutes INTEGER,
+    exceeds_limit BOOLEAN NOT NULL DEFAULT false,
+    auto_ended BOOLEAN NOT NULL DEFAULT false, -- Closed by clock-out
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Break roll-up on attendance records
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS paid_break_time INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS unpaid_break_time INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS worked_minutes INTEGER;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_attendance_breaks_attendance_id ON attendance_breaks(attendance_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_breaks_company_id ON attendance_breaks(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_breaks_one_open ON attendance_breaks(attendance_id) WHERE end_time IS NULL;
+
+-- Triggers
+CREATE TRIGGER update_attendance_policies_updated_at BEFORE UPDATE ON attendance_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_attendance_breaks_updated_at BEFORE UPDATE ON attendance_breaks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
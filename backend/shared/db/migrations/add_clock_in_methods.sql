@@ -0,0 +1,42 @@
+-- QR code and NFC badge clock-in for attendance_service
+-- Accepted clock-in methods per company and per site, rotating site QR codes, and employee NFC badges
+
+-- Company default (sites can override)
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS clock_in_methods JSONB NOT NULL DEFAULT '["face"]'; -- Accepted proof of presence: face, qr, nfc
+
+-- Site Clock-In Settings (method override and the HMAC key behind the site's QR codes)
+CREATE TABLE IF NOT EXISTS site_clock_in_settings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    geofence_id UUID NOT NULL REFERENCES geofence_settings(id) ON DELETE CASCADE,
+    clock_in_methods JSONB, -- NULL uses the company policy
+    qr_secret VARCHAR(64),
+    qr_rotated_at TIMESTAMP WITH TIME ZONE,
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT site_clock_in_settings_geofence_id_unique UNIQUE (geofence_id)
+);
+
+-- NFC Badges (UIDs as upper-case hex without separators)
+CREATE TABLE IF NOT EXISTS nfc_badges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    badge_uid VARCHAR(64) NOT NULL,
+    label VARCHAR(255),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    registered_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT nfc_badges_company_uid_unique UNIQUE (company_id, badge_uid)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_nfc_badges_user_id ON nfc_badges(user_id);
+
+-- Triggers
+CREATE TRIGGER update_site_clock_in_settings_updated_at BEFORE UPDATE ON site_clock_in_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_nfc_badges_updated_at BEFORE UPDATE ON nfc_badges FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,46 @@
+-- Daily attendance status for attendance_service
+-- One status per employee and company-local date (present, late, early leave, remote, absent, on leave, holiday, off)
+
+-- Daily Attendance Summaries
+CREATE TABLE IF NOT EXISTS daily_attendance_summaries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    date DATE NOT NULL, -- Company-local date
+    status VARCHAR(20) NOT NULL CHECK (status IN ('present', 'late', 'early_leave', 'remote', 'absent', 'on_leave', 'holiday', 'off', 'scheduled')),
+    department VARCHAR(100), -- Snapshot of users.department at roll-up time
+    work_mode VARCHAR(20) CHECK (work_mode IN ('onsite', 'remote', 'hybrid')), -- Of the first clock-in
+
+    -- Expected hours (shift, or company work hours on work days)
+    shift_template_id UUID REFERENCES shift_templates(id) ON DELETE SET NULL,
+    expected_start TIMESTAMP WITH TIME ZONE,
+    expected_end TIMESTAMP WITH TIME ZONE,
+    expected_minutes INTEGER NOT NULL DEFAULT 0,
+
+    -- Actual hours
+    first_clock_in TIMESTAMP WITH TIME ZONE,
+    last_clock_out TIMESTAMP WITH TIME ZONE,
+    worked_minutes INTEGER NOT NULL DEFAULT 0,
+    late_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_minutes >= 0), -- Only counted beyond the late tolerance
+    early_leave_minutes INTEGER NOT NULL DEFAULT 0 CHECK (early_leave_minutes >= 0),
+    is_late BOOLEAN NOT NULL DEFAULT false,
+    is_early_leave BOOLEAN NOT NULL DEFAULT false,
+    record_count INTEGER NOT NULL DEFAULT 0,
+
+    -- Leave and holidays
+    leave_request_id UUID REFERENCES leave_requests(id) ON DELETE SET NULL,
+    leave_minutes INTEGER NOT NULL DEFAULT 0,
+    holiday_name VARCHAR(255),
+
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT daily_attendance_summaries_user_id_date_key UNIQUE (user_id, date)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_daily_attendance_summaries_company_date ON daily_attendance_summaries(company_id, date);
+CREATE INDEX IF NOT EXISTS idx_daily_attendance_summaries_company_status ON daily_attendance_summaries(company_id, status, date);
+
+-- Triggers
+CREATE TRIGGER update_daily_attendance_summaries_updated_at BEFORE UPDATE ON daily_attendance_summaries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,37 @@
+-- Fraud review for attendance_service
+-- Review queue with reviewer assignment, flag resolution and per-company prevention settings (what flags vs. blocks a clock-in)
+
+-- Review queue
+ALTER TABLE fraud_detection_results
+ADD COLUMN IF NOT EXISTS action VARCHAR(20) NOT NULL DEFAULT 'allow' CHECK (action IN ('allow', 'flag', 'block')), -- Taken on the clock-in
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id),
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS review_decision VARCHAR(20) CHECK (review_decision IN ('legitimate', 'fraudulent'));
+
+-- Flag resolution (resolved = confirmed, ignored = false positive)
+ALTER TABLE attendance_flags
+ADD COLUMN IF NOT EXISTS fraud_result_id UUID REFERENCES fraud_detection_results(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS resolution VARCHAR(20) CHECK (resolution IN ('resolved', 'ignored'));
+
+-- Fraud Prevention Settings (one row per company; without one, MEDIUM and above is flagged and nothing is blocked)
+CREATE TABLE IF NOT EXISTS fraud_prevention_settings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    is_enabled BOOLEAN NOT NULL DEFAULT true, -- Off = record assessments, never flag or block
+    flag_risk_level VARCHAR(20) NOT NULL DEFAULT 'MEDIUM' CHECK (flag_risk_level IN ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL')),
+    block_risk_level VARCHAR(20) CHECK (block_risk_level IN ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL')), -- NULL = never block
+    default_reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT fraud_prevention_settings_company_id_key UNIQUE (company_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_fraud_detection_pending_review ON fraud_detection_results(overall_risk_score DESC, created_at) WHERE requires_manual_review = true AND reviewed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_fraud_detection_assigned_to ON fraud_detection_results(assigned_to) WHERE reviewed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_attendance_flags_attendance_id ON attendance_flags(attendance_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_flags_open ON attendance_flags(attendance_id) WHERE is_resolved = false;
+
+-- Triggers
+CREATE TRIGGER update_fraud_prevention_settings_updated_at BEFORE UPDATE ON fraud_prevention_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Geofence enforcement for attendance_service
+-- Buffer and GPS tolerance on geofences, the company's out-of-zone policy, and the matched geofence on attendance records
+
+-- Geofence tolerances
+ALTER TABLE geofence_settings
+ADD COLUMN IF NOT EXISTS buffer_zone_meters INTEGER DEFAULT 50, -- Accepted margin past the radius
+ADD COLUMN IF NOT EXISTS allowed_deviation_meters INTEGER DEFAULT 10; -- GPS error tolerated past the buffer zone
+
+-- Out-of-zone onsite clock-ins are flagged for review or rejected
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS geofence_enforcement VARCHAR(20) NOT NULL DEFAULT 'flag' CHECK (geofence_enforcement IN ('flag', 'reject'));
+
+-- Geofence matching on attendance records
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS geofence_id UUID REFERENCES geofence_settings(id), -- Matched geofence, or the nearest one when out of zone
+ADD COLUMN IF NOT EXISTS geofence_distance_meters INTEGER, -- Distance from the geofence center
+ADD COLUMN IF NOT EXISTS geofence_zone VARCHAR(20) CHECK (geofence_zone IN ('inside', 'buffer', 'outside'));
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_geofence_settings_company_active ON geofence_settings(company_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_attendance_records_geofence_id ON attendance_records(geofence_id);
@@ -0,0 +1,41 @@
+-- Polygon and multi-site geofences for attendance_service
+-- GeoJSON polygon boundaries, site groups, and per-employee site assignments
+
+-- Site Groups (e.g., "All Cairo branches")
+CREATE TABLE IF NOT EXISTS geofence_site_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Polygon geofences
+ALTER TABLE geofence_settings
+ADD COLUMN IF NOT EXISTS site_group_id UUID REFERENCES geofence_site_groups(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS shape VARCHAR(20) NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon')),
+ADD COLUMN IF NOT EXISTS boundary JSONB; -- GeoJSON Polygon or MultiPolygon; latitude/longitude hold its reference point
+
+-- Geofence Assignments (employees restricted to a site or a site group)
+CREATE TABLE IF NOT EXISTS geofence_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    geofence_id UUID REFERENCES geofence_settings(id) ON DELETE CASCADE,
+    site_group_id UUID REFERENCES geofence_site_groups(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT geofence_assignments_target_check CHECK ((geofence_id IS NULL) <> (site_group_id IS NULL))
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_geofence_site_groups_company_id ON geofence_site_groups(company_id);
+CREATE INDEX IF NOT EXISTS idx_geofence_settings_site_group_id ON geofence_settings(site_group_id);
+CREATE INDEX IF NOT EXISTS idx_geofence_assignments_user_id ON geofence_assignments(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofence_assignments_user_geofence ON geofence_assignments(user_id, geofence_id) WHERE geofence_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofence_assignments_user_site_group ON geofence_assignments(user_id, site_group_id) WHERE site_group_id IS NOT NULL;
+
+-- Triggers
+CREATE TRIGGER update_geofence_site_groups_updated_at BEFORE UPDATE ON geofence_site_groups FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
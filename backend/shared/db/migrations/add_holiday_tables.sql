@@ -0,0 +1,38 @@
+-- Holiday calendars for attendance_service
+-- Company-wide or per-location calendars, filled manually, from country presets, or by iCal import
+
+-- Holiday Calendars
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    geofence_id UUID REFERENCES geofence_settings(id) ON DELETE CASCADE, -- NULL = applies to the whole company
+    name VARCHAR(255) NOT NULL, -- e.g., "US Federal", "Berlin Office"
+    description TEXT,
+    country_code VARCHAR(2), -- ISO 3166-1 alpha-2, informational
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Holidays (one per calendar and local date)
+CREATE TABLE IF NOT EXISTS holidays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    calendar_id UUID NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+    date DATE NOT NULL, -- Local date
+    name VARCHAR(255) NOT NULL,
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'preset', 'ical')),
+    external_uid VARCHAR(255), -- iCal UID of imported events
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT holidays_calendar_date_unique UNIQUE (calendar_id, date)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_holiday_calendars_company_id ON holiday_calendars(company_id);
+CREATE INDEX IF NOT EXISTS idx_holiday_calendars_geofence_id ON holiday_calendars(geofence_id);
+CREATE INDEX IF NOT EXISTS idx_holidays_company_date ON holidays(company_id, date);
+
+-- Triggers
+CREATE TRIGGER update_holiday_calendars_updated_at BEFORE UPDATE ON holiday_calendars FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_holidays_updated_at BEFORE UPDATE ON holidays FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
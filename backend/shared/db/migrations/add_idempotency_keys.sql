@@ -0,0 +1,42 @@
+-- Idempotent clock-in/clock-out for attendance_service
+-- Idempotency-Key responses stored for replays, and at most one open attendance record per user
+
+-- Idempotency Keys (one per user, endpoint and key)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL CHECK (endpoint IN ('clock-in', 'clock-out')),
+    key VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    locked_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT idempotency_keys_user_id_endpoint_key_key UNIQUE (user_id, endpoint, key)
+);
+
+-- Close duplicate open records left by retried clock-ins, keeping each user's latest open.
+-- They are closed at their own clock-in (zero length) so no time is invented; fix real sessions with a correction.
+UPDATE attendance_records ar
+SET clock_out_time = ar.clock_in_time,
+    auto_closed_at = NOW(),
+    auto_close_reason = 'duplicate_open_record',
+    status = CASE WHEN ar.status = 'active' THEN 'auto_closed' ELSE ar.status END,
+    updated_at = NOW()
+WHERE ar.clock_out_time IS NULL
+  AND ar.status IS DISTINCT FROM 'rejected'
+  AND EXISTS (
+      SELECT 1 FROM attendance_records newer
+      WHERE newer.user_id = ar.user_id
+        AND newer.clock_out_time IS NULL
+        AND newer.status IS DISTINCT FROM 'rejected'
+        AND (newer.clock_in_time, newer.id) > (ar.clock_in_time, ar.id)
+  );
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_records_one_open_per_user ON attendance_records(user_id) WHERE clock_out_time IS NULL AND status IS DISTINCT FROM 'rejected';
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
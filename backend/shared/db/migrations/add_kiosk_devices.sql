@@ -0,0 +1,59 @@
+-- Kiosk mode for attendance_service
+-- Shared clock-in tablets registered to a site, employee PINs for the fallback, and a per-kiosk audit log
+
+-- Kiosk Devices (authenticated by a key whose SHA-256 is stored)
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    geofence_id UUID NOT NULL REFERENCES geofence_settings(id) ON DELETE RESTRICT,
+    name VARCHAR(255) NOT NULL,
+    secret_hash VARCHAR(64) NOT NULL,
+    pin_fallback_enabled BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Kiosk PINs (one per employee)
+CREATE TABLE IF NOT EXISTS kiosk_pins (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    pin_hash VARCHAR(255) NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT kiosk_pins_user_id_unique UNIQUE (user_id)
+);
+
+-- Kiosk Audit Logs
+CREATE TABLE IF NOT EXISTS kiosk_audit_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kiosk_id UUID NOT NULL REFERENCES kiosk_devices(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    event TEXT NOT NULL CHECK (event IN (
+        'kiosk_registered', 'kiosk_updated', 'secret_rotated',
+        'clock_in', 'clock_out', 'punch_rejected',
+        'face_not_identified', 'pin_failed', 'pin_locked'
+    )),
+    method TEXT CHECK (method IN ('face', 'pin')),
+    attendance_id UUID REFERENCES attendance_records(id) ON DELETE SET NULL,
+    similarity DECIMAL(5,4),
+    reason TEXT,
+    details JSONB,
+    actor_id UUID REFERENCES users(id),
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_company_id ON kiosk_devices(company_id);
+CREATE INDEX IF NOT EXISTS idx_kiosk_audit_logs_kiosk_created_at ON kiosk_audit_logs(kiosk_id, created_at);
+
+-- Triggers
+CREATE TRIGGER update_kiosk_devices_updated_at BEFORE UPDATE ON kiosk_devices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_kiosk_pins_updated_at BEFORE UPDATE ON kiosk_pins FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
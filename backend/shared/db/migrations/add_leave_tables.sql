@@ -0,0 +1,86 @@
+-- Leave management for attendance_service
+-- Leave types with accrual rules, yearly balances, and leave requests with an approval chain
+
+-- Standard work day used to charge leave
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS standard_workday_minutes INTEGER NOT NULL DEFAULT 480;
+
+-- Leave Types
+CREATE TABLE IF NOT EXISTS leave_types (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    code VARCHAR(20) NOT NULL, -- e.g., "PTO", "SICK"
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    color VARCHAR(7), -- Hex color for the leave calendar
+    is_paid BOOLEAN NOT NULL DEFAULT true,
+    approval_levels INTEGER NOT NULL DEFAULT 1 CHECK (approval_levels IN (1, 2)), -- 1 = admin, 2 = admin then super admin
+    allow_negative_balance BOOLEAN NOT NULL DEFAULT false,
+    accrual_method VARCHAR(20) NOT NULL DEFAULT 'none' CHECK (accrual_method IN ('none', 'monthly', 'per_hours_worked')),
+    accrual_minutes INTEGER NOT NULL DEFAULT 0, -- Earned per month, or per block of worked time
+    accrual_per_worked_minutes INTEGER, -- Block size for per_hours_worked, e.g., 1800 for every 30h
+    max_balance_minutes INTEGER, -- Accrual stops at this balance (NULL = no cap)
+    carry_over_cap_minutes INTEGER, -- Unused balance carried into the next year (NULL = no cap)
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT leave_types_company_code_unique UNIQUE (company_id, code)
+);
+
+-- Leave Balances (one per employee, leave type and calendar year)
+CREATE TABLE IF NOT EXISTS leave_balances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id UUID NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    opening_minutes INTEGER NOT NULL DEFAULT 0, -- Carried over from the previous year
+    accrued_minutes INTEGER NOT NULL DEFAULT 0,
+    used_minutes INTEGER NOT NULL DEFAULT 0, -- Approved requests
+    adjustment_minutes INTEGER NOT NULL DEFAULT 0, -- Manual admin corrections
+    accrued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT leave_balances_user_type_year_unique UNIQUE (user_id, leave_type_id, year)
+);
+
+-- Leave Requests
+CREATE TABLE IF NOT EXISTS leave_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    leave_type_id UUID NOT NULL REFERENCES leave_types(id),
+    start_date DATE NOT NULL, -- Local dates, inclusive
+    end_date DATE NOT NULL,
+    half_day BOOLEAN NOT NULL DEFAULT false,
+    total_minutes INTEGER NOT NULL,
+    days JSONB NOT NULL DEFAULT '[]', -- [{ date, minutes }] for each work day covered
+    reason TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    required_approvals INTEGER NOT NULL DEFAULT 1,
+    approvals JSONB NOT NULL DEFAULT '[]', -- [{ level, approvedBy, approvedAt, notes }]
+    rejected_by UUID REFERENCES users(id),
+    rejection_reason TEXT,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT leave_requests_dates_check CHECK (start_date <= end_date)
+);
+
+-- Leave totals on timesheets
+ALTER TABLE timesheets
+ADD COLUMN IF NOT EXISTS leave_minutes INTEGER NOT NULL DEFAULT 0, -- Approved leave, paid and unpaid
+ADD COLUMN IF NOT EXISTS paid_leave_minutes INTEGER NOT NULL DEFAULT 0;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_leave_types_company_id ON leave_types(company_id);
+CREATE INDEX IF NOT EXISTS idx_leave_balances_company_year ON leave_balances(company_id, year);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_user_dates ON leave_requests(user_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_company_status ON leave_requests(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_company_dates ON leave_requests(company_id, start_date, end_date);
+
+-- Triggers
+CREATE TRIGGER update_leave_types_updated_at BEFORE UPDATE ON leave_types FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_leave_balances_updated_at BEFORE UPDATE ON leave_balances FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_leave_requests_updated_at BEFORE UPDATE ON leave_requests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
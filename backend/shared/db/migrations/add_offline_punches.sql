@@ -0,0 +1,61 @@
+-- Offline punches for attendance_service
+-- Device signing keys, punches synced after being captured offline, and captured vs received times on attendance records
+
+-- Offline Device Keys (one active key per user and device)
+CREATE TABLE IF NOT EXISTS offline_device_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_id VARCHAR(255) NOT NULL,
+    algorithm TEXT NOT NULL CHECK (algorithm IN ('ed25519', 'ecdsa-p256')),
+    public_key TEXT NOT NULL, -- SPKI PEM
+    last_counter INTEGER NOT NULL DEFAULT 0,
+    last_captured_at TIMESTAMP WITH TIME ZONE,
+    registered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Offline Punches (as received, with the sync outcome)
+CREATE TABLE IF NOT EXISTS offline_punches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_key_id UUID NOT NULL REFERENCES offline_device_keys(id) ON DELETE CASCADE,
+    batch_id UUID NOT NULL,
+    punch_type TEXT NOT NULL CHECK (punch_type IN ('clock-in', 'clock-out')),
+    counter INTEGER NOT NULL,
+    captured_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Device clock
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Server clock
+    work_mode TEXT CHECK (work_mode IN ('onsite', 'remote', 'hybrid')),
+    location JSONB,
+    envelope TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    signature_valid BOOLEAN NOT NULL,
+    photo_key TEXT,
+    status TEXT NOT NULL CHECK (status IN ('accepted', 'flagged', 'rejected')),
+    flags JSONB NOT NULL DEFAULT '[]',
+    rejection_reason TEXT,
+    attendance_id UUID REFERENCES attendance_records(id) ON DELETE SET NULL,
+    face_verification_id UUID REFERENCES ai_verification_results(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Captured (clock_in_time/clock_out_time) vs received times; the same for online punches
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS clock_in_source TEXT NOT NULL DEFAULT 'online' CHECK (clock_in_source IN ('online', 'offline')),
+ADD COLUMN IF NOT EXISTS clock_in_received_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS clock_out_source TEXT CHECK (clock_out_source IN ('online', 'offline')),
+ADD COLUMN IF NOT EXISTS clock_out_received_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offline_device_keys_active_device ON offline_device_keys(user_id, device_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_offline_device_keys_company_id ON offline_device_keys(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offline_punches_key_counter ON offline_punches(device_key_id, counter) WHERE signature_valid;
+CREATE INDEX IF NOT EXISTS idx_offline_punches_company_status ON offline_punches(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_offline_punches_user_captured_at ON offline_punches(user_id, captured_at);
+
+-- Triggers
+CREATE TRIGGER update_offline_device_keys_updated_at BEFORE UPDATE ON offline_device_keys FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,83 @@
+-- Overtime calculation for attendance_service
+-- Per-company rule sets, per-record minute classification and per-pay-period totals
+
+-- Overtime Rule Sets
+CREATE TABLE IF NOT EXISTS overtime_rule_sets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL, -- e.g., "California", "FLSA"
+    description TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    daily_overtime_after_minutes INTEGER, -- NULL disables the rule
+    daily_double_time_after_minutes INTEGER,
+    weekly_overtime_after_minutes INTEGER,
+    week_starts_on INTEGER NOT NULL DEFAULT 1 CHECK (week_starts_on BETWEEN 1 AND 7), -- Monday=1, Sunday=7
+    night_start VARCHAR(5), -- HH:MM in company timezone
+    night_end VARCHAR(5),
+    weekend_days JSONB NOT NULL DEFAULT '[6,7]',
+    holiday_dates JSONB NOT NULL DEFAULT '[]', -- YYYY-MM-DD local dates
+    overtime_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.50,
+    double_time_multiplier DECIMAL(4,2) NOT NULL DEFAULT 2.00,
+    night_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+    weekend_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+    holiday_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Overtime Results (one per attendance record)
+CREATE TABLE IF NOT EXISTS overtime_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    attendance_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    rule_set_id UUID REFERENCES overtime_rule_sets(id) ON DELETE SET NULL,
+    work_date DATE NOT NULL, -- Local date of clock-in
+    worked_minutes INTEGER NOT NULL DEFAULT 0,
+    regular_minutes INTEGER NOT NULL DEFAULT 0,
+    daily_overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    daily_double_time_minutes INTEGER NOT NULL DEFAULT 0,
+    weekly_overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    night_minutes INTEGER NOT NULL DEFAULT 0, -- Premiums overlap the buckets above
+    weekend_minutes INTEGER NOT NULL DEFAULT 0,
+    holiday_minutes INTEGER NOT NULL DEFAULT 0,
+    calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT overtime_results_attendance_unique UNIQUE (attendance_id)
+);
+
+-- Overtime Period Summaries
+CREATE TABLE IF NOT EXISTS overtime_period_summaries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    record_count INTEGER NOT NULL DEFAULT 0,
+    worked_minutes INTEGER NOT NULL DEFAULT 0,
+    regular_minutes INTEGER NOT NULL DEFAULT 0,
+    daily_overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    daily_double_time_minutes INTEGER NOT NULL DEFAULT 0,
+    weekly_overtime_minutes INTEGER NOT NULL DEFAULT 0,
+    night_minutes INTEGER NOT NULL DEFAULT 0,
+    weekend_minutes INTEGER NOT NULL DEFAULT 0,
+    holiday_minutes INTEGER NOT NULL DEFAULT 0,
+    calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT overtime_period_summaries_user_period_unique UNIQUE (user_id, period_start, period_end)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_overtime_rule_sets_company_id ON overtime_rule_sets(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_overtime_rule_sets_one_default ON overtime_rule_sets(company_id) WHERE is_default = true;
+CREATE INDEX IF NOT EXISTS idx_overtime_results_user_work_date ON overtime_results(user_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_overtime_results_company_work_date ON overtime_results(company_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_overtime_period_summaries_company_period ON overtime_period_summaries(company_id, period_start, period_end);
+
+-- Triggers
+CREATE TRIGGER update_overtime_rule_sets_updated_at BEFORE UPDATE ON overtime_rule_sets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_overtime_results_updated_at BEFORE UPDATE ON overtime_results FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_overtime_period_summaries_updated_at BEFORE UPDATE ON overtime_period_summaries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,43 @@
+-- Payroll export for attendance_service
+-- Provider-specific employee IDs and the history of generated payroll files
+
+-- Payroll company code on the attendance policy
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS payroll_company_code VARCHAR(20);
+
+-- Payroll Employee Mappings (override users.employee_id per payroll format)
+CREATE TABLE IF NOT EXISTS payroll_employee_mappings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    format VARCHAR(50) NOT NULL, -- e.g., "adp_fixed_width"
+    external_employee_id VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT payroll_employee_mappings_user_format_unique UNIQUE (user_id, format)
+);
+
+-- Payroll Exports
+CREATE TABLE IF NOT EXISTS payroll_exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    pay_period_id UUID NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+    format VARCHAR(50) NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    content TEXT NOT NULL, -- Generated file, kept for re-download
+    row_count INTEGER NOT NULL DEFAULT 0,
+    employee_count INTEGER NOT NULL DEFAULT 0,
+    timesheet_ids JSONB NOT NULL DEFAULT '[]',
+    totals JSONB,
+    warnings JSONB NOT NULL DEFAULT '[]',
+    exported_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_payroll_employee_mappings_company_format ON payroll_employee_mappings(company_id, format);
+CREATE INDEX IF NOT EXISTS idx_payroll_exports_company_period ON payroll_exports(company_id, pay_period_id);
+
+-- Triggers
+CREATE TRIGGER update_payroll_employee_mappings_updated_at BEFORE UPDATE ON payroll_employee_mappings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
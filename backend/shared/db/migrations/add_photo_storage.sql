@@ -0,0 +1,9 @@
+-- Photo storage for attendance_service
+-- Clock-in/clock-out photos move to object storage; records keep only the key (photo_url columns hold base64 photos until the migration job moves them)
+
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS photo_key TEXT,
+ADD COLUMN IF NOT EXISTS clock_out_photo_key TEXT;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_attendance_records_legacy_photos ON attendance_records(clock_in_time) WHERE photo_url LIKE 'data:%' OR clock_out_photo_url LIKE 'data:%';
@@ -0,0 +1,38 @@
+-- Remote work location verification for attendance_service
+-- Temporary alternate locations approved by an admin, and the verified location on attendance records
+
+-- Alternate Work Locations
+CREATE TABLE IF NOT EXISTS alternate_work_locations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL, -- e.g., "Parents' house"
+    address TEXT,
+    latitude DECIMAL(10, 8) NOT NULL,
+    longitude DECIMAL(11, 8) NOT NULL,
+    radius_meters INTEGER NOT NULL DEFAULT 100,
+    start_date DATE NOT NULL, -- Local dates, inclusive
+    end_date DATE NOT NULL,
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT, -- Approval notes or rejection reason
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT alternate_work_locations_date_range CHECK (start_date <= end_date)
+);
+
+-- Verified location on attendance records
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS location_type VARCHAR(20) CHECK (location_type IN ('site', 'home', 'alternate')),
+ADD COLUMN IF NOT EXISTS alternate_location_id UUID REFERENCES alternate_work_locations(id),
+ADD COLUMN IF NOT EXISTS expected_work_mode VARCHAR(20) CHECK (expected_work_mode IN ('onsite', 'remote')), -- Hybrid employees' planned mode for the day
+ADD COLUMN IF NOT EXISTS work_mode_mismatch BOOLEAN NOT NULL DEFAULT false;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_alternate_work_locations_company_status ON alternate_work_locations(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_alternate_work_locations_user_dates ON alternate_work_locations(user_id, start_date, end_date);
+
+-- Triggers
+CREATE TRIGGER update_alternate_work_locations_updated_at BEFORE UPDATE ON alternate_work_locations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
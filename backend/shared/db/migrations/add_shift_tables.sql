@@ -0,0 +1,74 @@
+-- Shift and schedule management for attendance_service
+-- Shift templates, rotations, per-employee assignments and shift matching on attendance records
+
+-- Shift Templates
+CREATE TABLE IF NOT EXISTS shift_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL, -- e.g., "Morning", "Night"
+    description TEXT,
+    start_time VARCHAR(5) NOT NULL, -- HH:MM in company timezone
+    end_time VARCHAR(5) NOT NULL, -- HH:MM, earlier than start for overnight shifts
+    is_overnight BOOLEAN NOT NULL DEFAULT false,
+    break_minutes INTEGER NOT NULL DEFAULT 60,
+    grace_in_minutes INTEGER NOT NULL DEFAULT 15, -- Late clock-in tolerance
+    grace_out_minutes INTEGER NOT NULL DEFAULT 15, -- Early clock-out tolerance
+    early_clock_in_minutes INTEGER NOT NULL DEFAULT 60, -- How early a clock-in still matches
+    work_days JSONB NOT NULL DEFAULT '[1,2,3,4,5]', -- Monday=1, Sunday=7
+    color VARCHAR(7),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Shift Rotations
+CREATE TABLE IF NOT EXISTS shift_rotations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    pattern JSONB NOT NULL, -- One entry per cycle day: template ID or null for a day off
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Shift Assignments
+CREATE TABLE IF NOT EXISTS shift_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    shift_template_id UUID REFERENCES shift_templates(id) ON DELETE CASCADE,
+    rotation_id UUID REFERENCES shift_rotations(id) ON DELETE CASCADE,
+    effective_from DATE NOT NULL, -- Also day 0 of a rotation cycle
+    effective_to DATE,
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT check_shift_assignment_target CHECK (
+        (shift_template_id IS NOT NULL AND rotation_id IS NULL) OR
+        (shift_template_id IS NULL AND rotation_id IS NOT NULL)
+    )
+);
+
+-- Shift matching on attendance records
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS shift_assignment_id UUID REFERENCES shift_assignments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS shift_template_id UUID REFERENCES shift_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS late_minutes INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS early_leave_minutes INTEGER DEFAULT 0;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_shift_templates_company_id ON shift_templates(company_id);
+CREATE INDEX IF NOT EXISTS idx_shift_rotations_company_id ON shift_rotations(company_id);
+CREATE INDEX IF NOT EXISTS idx_shift_assignments_company_id ON shift_assignments(company_id);
+CREATE INDEX IF NOT EXISTS idx_shift_assignments_user_dates ON shift_assignments(user_id, effective_from, effective_to);
+CREATE INDEX IF NOT EXISTS idx_attendance_shift_template_id ON attendance_records(shift_template_id);
+
+-- Triggers
+CREATE TRIGGER update_shift_templates_updated_at BEFORE UPDATE ON shift_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_shift_rotations_updated_at BEFORE UPDATE ON shift_rotations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_shift_assignments_updated_at BEFORE UPDATE ON shift_assignments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,65 @@
+-- Timesheets and pay periods for attendance_service
+-- Pay period settings, per-employee timesheets with submit/approve workflow and record locking
+
+-- Pay period settings on the attendance policy
+ALTER TABLE attendance_policies
+ADD COLUMN IF NOT EXISTS pay_period_frequency VARCHAR(20) NOT NULL DEFAULT 'biweekly' CHECK (pay_period_frequency IN ('weekly', 'biweekly', 'monthly')),
+ADD COLUMN IF NOT EXISTS pay_period_anchor_date DATE NOT NULL DEFAULT '2024-01-01'; -- First day of any weekly/biweekly period
+
+-- Pay Periods
+CREATE TABLE IF NOT EXISTS pay_periods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+    start_date DATE NOT NULL, -- Local dates, inclusive
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT pay_periods_company_start_unique UNIQUE (company_id, start_date)
+);
+
+-- Timesheets
+CREATE TABLE IF NOT EXISTS timesheets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    pay_period_id UUID NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+    record_count INTEGER NOT NULL DEFAULT 0,
+    worked_minutes INTEGER NOT NULL DEFAULT 0,
+    break_minutes INTEGER NOT NULL DEFAULT 0,
+    regular_minutes INTEGER NOT NULL DEFAULT 0,
+    overtime_minutes INTEGER NOT NULL DEFAULT 0, -- Daily and weekly overtime
+    double_time_minutes INTEGER NOT NULL DEFAULT 0,
+    night_minutes INTEGER NOT NULL DEFAULT 0,
+    weekend_minutes INTEGER NOT NULL DEFAULT 0,
+    holiday_minutes INTEGER NOT NULL DEFAULT 0,
+    late_minutes INTEGER NOT NULL DEFAULT 0,
+    early_leave_minutes INTEGER NOT NULL DEFAULT 0,
+    attendance_ids JSONB NOT NULL DEFAULT '[]', -- Records included in the totals
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    employee_notes TEXT,
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT timesheets_user_period_unique UNIQUE (user_id, pay_period_id)
+);
+
+-- Record locking
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS timesheet_id UUID REFERENCES timesheets(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_pay_periods_company_dates ON pay_periods(company_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_timesheets_company_period ON timesheets(company_id, pay_period_id);
+CREATE INDEX IF NOT EXISTS idx_timesheets_status ON timesheets(status);
+CREATE INDEX IF NOT EXISTS idx_attendance_timesheet_id ON attendance_records(timesheet_id);
+
+-- Triggers
+CREATE TRIGGER update_pay_periods_updated_at BEFORE UPDATE ON pay_periods FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_timesheets_updated_at BEFORE UPDATE ON timesheets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Pre-verification for attendance_service
+-- Standalone verification steps stored with an expiry, attachable to a later clock-in, and device fingerprints for the device check
+
+-- Verification results no longer need an attendance record up front
+ALTER TABLE ai_verification_results
+ALTER COLUMN attendance_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES ai_verification_results(id) ON DELETE CASCADE, -- Comprehensive verification this step was part of
+ADD COLUMN IF NOT EXISTS success BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS used_at TIMESTAMP WITH TIME ZONE; -- Set when attached to a clock-in
+
+-- Existing results were all made during a clock-in
+UPDATE ai_verification_results avr
+SET user_id = ar.user_id,
+    company_id = ar.company_id,
+    success = avr.error_message IS NULL,
+    expires_at = avr.created_at,
+    used_at = avr.created_at
+FROM attendance_records ar
+WHERE ar.id = avr.attendance_id AND avr.user_id IS NULL;
+
+ALTER TABLE ai_verification_results
+ALTER COLUMN user_id SET NOT NULL,
+ALTER COLUMN company_id SET NOT NULL,
+ALTER COLUMN expires_at SET NOT NULL;
+
+-- Device Fingerprints (one per employee and device)
+CREATE TABLE IF NOT EXISTS device_fingerprints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    fingerprint_hash VARCHAR(255) NOT NULL, -- sha256 of the app's device ID, or of the device info and user agent
+    device_info JSONB,
+    browser_info JSONB,
+    os_info JSONB,
+    is_trusted BOOLEAN DEFAULT false,
+    risk_score DECIMAL(5,2) DEFAULT 0,
+    security_flags JSONB,
+    first_seen TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    last_seen TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    usage_count INTEGER DEFAULT 1,
+    common_locations JSONB,
+    location_consistency_score DECIMAL(5,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT device_fingerprints_user_id_fingerprint_hash_key UNIQUE (user_id, fingerprint_hash)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_ai_verification_user_created ON ai_verification_results(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_verification_parent_id ON ai_verification_results(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_device_fingerprints_company_id ON device_fingerprints(company_id);
+
+-- Triggers
+CREATE TRIGGER update_device_fingerprints_updated_at BEFORE UPDATE ON device_fingerprints FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Work mode scheduling for attendance_service
+-- Review status on planned days, remote capacity rules, and the schedule each clock-in was compared against
+
+-- Review status on work_mode_schedules (is_approved is kept in sync)
+ALTER TABLE work_mode_schedules
+ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES work_mode_templates(id) ON DELETE SET NULL, -- Template the day was planned from
+ADD COLUMN IF NOT EXISTS review_notes TEXT; -- Approval notes or rejection reason
+
+UPDATE work_mode_schedules SET status = 'approved' WHERE is_approved = true AND status = 'pending';
+
+-- Remote Capacity Rules
+CREATE TABLE IF NOT EXISTS work_mode_capacity_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    department VARCHAR(100), -- Matches users.department; NULL = whole company
+    max_remote_percent INTEGER NOT NULL CHECK (max_remote_percent BETWEEN 0 AND 100),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Approved schedule on attendance records
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS work_mode_schedule_id UUID REFERENCES work_mode_schedules(id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_work_mode_schedules_company_date_status ON work_mode_schedules(company_id, schedule_date, status);
+CREATE INDEX IF NOT EXISTS idx_work_mode_templates_user_id ON work_mode_templates(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_mode_capacity_rules_department ON work_mode_capacity_rules(company_id, department) WHERE is_active = true AND department IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_mode_capacity_rules_company ON work_mode_capacity_rules(company_id) WHERE is_active = true AND department IS NULL;
+
+-- Triggers
+CREATE TRIGGER update_work_mode_capacity_rules_updated_at BEFORE UPDATE ON work_mode_capacity_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();